@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+
+// Deliberately unmocked: this loads the built @chainhopper/adapters package the
+// way the API does at startup, so a module missing from it fails here
+import { createDefaultAdapters, registerDefaultAdapters } from '../services/adapters.js';
+import { ChainAdapterRegistry } from '../services/adapter-registry.js';
+
+describe('Default chain adapters', () => {
+  it('should create EVM and non-EVM adapters from the real package', () => {
+    const chains = createDefaultAdapters().map((adapter) => adapter.chainId);
+
+    expect(chains).toEqual(
+      expect.arrayContaining(['ethereum', 'base', 'arbitrum', 'ton', 'sui', 'solana', 'eclipse'])
+    );
+    expect(new Set(chains).size).toBe(chains.length);
+  });
+
+  it('should register every default adapter', () => {
+    const registry = new ChainAdapterRegistry();
+
+    registerDefaultAdapters(registry);
+
+    expect(registry.get('base')?.chainId).toBe('base');
+    expect(registry.get('solana')?.chainId).toBe('solana');
+    expect(registry.getAll().length).toBe(createDefaultAdapters().length);
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Hono } from 'hono';
+
+const db = vi.hoisted(() => ({
+  apiKey: { findFirst: vi.fn() },
+  apiKeyUsage: { upsert: vi.fn(), findMany: vi.fn() },
+}));
+
+vi.mock('@chainhopper/core/prisma', () => ({ prisma: db }));
+
+vi.mock('@chainhopper/core/oracle', () => ({
+  createPriceOracle: () => ({ getPrices: async () => new Map() }),
+  PrismaPriceHistory: vi.fn(),
+}));
+
+// Import after mocking
+import { ApiKeyUsageService, apiKeyUsage } from '../services/api-key-usage.js';
+import { authRoutes } from '../routes/auth.js';
+
+const MARCH_1 = new Date('2025-03-01T00:00:00Z');
+const MARCH_3 = new Date('2025-03-03T00:00:00Z');
+
+function createApp(userId?: string) {
+  return new Hono()
+    .use('*', async (c, next) => {
+      if (userId) c.set('userId', userId);
+      await next();
+    })
+    .route('/', authRoutes);
+}
+
+describe('ApiKeyUsageService', () => {
+  let service: ApiKeyUsageService;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-03-03T15:30:00Z'));
+    vi.clearAllMocks();
+    db.apiKey.findFirst.mockResolvedValue({ id: 'key_1', rateLimit: 60 });
+    db.apiKeyUsage.upsert.mockResolvedValue({});
+    db.apiKeyUsage.findMany.mockResolvedValue([]);
+    service = new ApiKeyUsageService(db);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should add buffered counts to the daily row on flush', async () => {
+    await service.record('key_1', { weight: 5, rejected: false });
+    await service.record('key_1', { weight: 1, rejected: false });
+    await service.record('key_1', { weight: 5, rejected: true });
+    await service.record('key_2', { weight: 1, rejected: false });
+
+    expect(await service.flush()).toBe(2);
+
+    expect(db.apiKeyUsage.upsert).toHaveBeenCalledWith({
+      where: { apiKeyId_date: { apiKeyId: 'key_1', date: MARCH_3 } },
+      create: { apiKeyId: 'key_1', date: MARCH_3, requests: 3, weight: 6, rejected: 1 },
+      update: {
+        requests: { increment: 3 },
+        weight: { increment: 6 },
+        rejected: { increment: 1 },
+      },
+    });
+
+    // Nothing left to write
+    expect(await service.flush()).toBe(0);
+  });
+
+  it('should keep counts that fail to write for the next flush', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    db.apiKeyUsage.upsert.mockRejectedValueOnce(new Error('connection lost'));
+
+    await service.record('key_1', { weight: 2, rejected: false });
+    expect(await service.flush()).toBe(0);
+
+    await service.record('key_1', { weight: 2, rejected: false });
+    expect(await service.flush()).toBe(1);
+    expect(db.apiKeyUsage.upsert.mock.calls[1]![0].create).toMatchObject({
+      requests: 2,
+      weight: 4,
+    });
+  });
+
+  it('should flush pending counts on stop', async () => {
+    service.start();
+    await service.record('key_1', { weight: 1, rejected: false });
+
+    await service.stop();
+
+    expect(db.apiKeyUsage.upsert).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fill days without usage and include unflushed counts', async () => {
+    db.apiKeyUsage.findMany.mockResolvedValue([
+      { date: MARCH_1, requests: 10, weight: 30, rejected: 2 },
+    ]);
+    await service.record('key_1', { weight: 5, rejected: false });
+    await service.record('key_2', { weight: 5, rejected: false });
+
+    const usage = await service.getUsage('user_1', 'key_1', 3);
+
+    expect(db.apiKey.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: 'key_1', userId: 'user_1' } })
+    );
+    expect(db.apiKeyUsage.findMany.mock.calls[0]![0].where).toEqual({
+      apiKeyId: 'key_1',
+      date: { gte: MARCH_1 },
+    });
+    expect(usage).toEqual({
+      keyId: 'key_1',
+      rateLimit: 60,
+      totalRequests: 11,
+      totalWeight: 35,
+      totalRejected: 2,
+      days: [
+        { date: '2025-03-01', requests: 10, weight: 30, rejected: 2 },
+        { date: '2025-03-02', requests: 0, weight: 0, rejected: 0 },
+        { date: '2025-03-03', requests: 1, weight: 5, rejected: 0 },
+      ],
+    });
+  });
+
+  it('should return null for keys the user does not own', async () => {
+    db.apiKey.findFirst.mockResolvedValue(null);
+
+    expect(await service.getUsage('user_2', 'key_1', 30)).toBeNull();
+    expect(db.apiKeyUsage.findMany).not.toHaveBeenCalled();
+  });
+});
+
+describe('GET /auth/api-keys/{keyId}/usage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db.apiKey.findFirst.mockResolvedValue({ id: 'key_1', rateLimit: 60 });
+    db.apiKeyUsage.findMany.mockResolvedValue([]);
+  });
+
+  it('should require authentication', async () => {
+    const res = await createApp().request('/auth/api-keys/key_1/usage');
+
+    expect(res.status).toBe(401);
+  });
+
+  it('should return 404 for unknown keys', async () => {
+    db.apiKey.findFirst.mockResolvedValue(null);
+
+    const res = await createApp('user_1').request('/auth/api-keys/key_9/usage');
+
+    expect(res.status).toBe(404);
+    expect(await res.json()).toEqual({ error: 'API key not found', code: 'API_KEY_NOT_FOUND' });
+  });
+
+  it('should return daily usage, clamping the range', async () => {
+    const spy = vi.spyOn(apiKeyUsage, 'getUsage');
+
+    const res = await createApp('user_1').request('/auth/api-keys/key_1/usage?days=365');
+    const body = (await res.json()) as { days: unknown[]; rateLimit: number };
+
+    expect(res.status).toBe(200);
+    expect(spy).toHaveBeenCalledWith('user_1', 'key_1', 90);
+    expect(body.days).toHaveLength(90);
+    expect(body.rateLimit).toBe(60);
+  });
+});
@@ -0,0 +1,241 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Hono } from 'hono';
+import { hashApiKey } from '@chainhopper/core/auth';
+
+const db = vi.hoisted(() => ({
+  apiKey: {
+    findMany: vi.fn(),
+    findFirst: vi.fn(),
+    count: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn(),
+    updateMany: vi.fn(),
+  },
+  apiKeyUsage: { upsert: vi.fn(), findMany: vi.fn() },
+}));
+
+vi.mock('@chainhopper/core/prisma', () => ({ prisma: db }));
+
+vi.mock('@chainhopper/core/oracle', () => ({
+  createPriceOracle: () => ({ getPrices: async () => new Map() }),
+  PrismaPriceHistory: vi.fn(),
+}));
+
+// Import after mocking
+import { ApiKeyService } from '../services/api-keys.js';
+import { authRoutes } from '../routes/auth.js';
+
+const NOW = new Date('2025-03-01T12:00:00Z');
+
+function keyRecord(overrides = {}) {
+  return {
+    id: 'key_1',
+    userId: 'user_1',
+    name: 'Trading Bot',
+    keyHash: 'hash_current',
+    keyPrefix: 'chpr_abc1234',
+    permissions: ['READ_QUOTES', 'WRITE_TRADES'],
+    rateLimit: 60,
+    mode: 'TRADE',
+    allowedChains: ['BASE'],
+    maxNotionalUsd: { toString: () => '1000.00' },
+    allowedIps: ['10.0.0.0/8'],
+    previousKeyHash: null,
+    previousKeyExpiresAt: null,
+    rotatedAt: null,
+    lastUsedAt: null,
+    expiresAt: null,
+    isActive: true,
+    createdAt: new Date('2025-02-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+function createApp(userId?: string) {
+  return new Hono()
+    .use('*', async (c, next) => {
+      if (userId) c.set('userId', userId);
+      await next();
+    })
+    .route('/', authRoutes);
+}
+
+function post(app: ReturnType<typeof createApp>, path: string, body: object) {
+  return app.request(path, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(NOW);
+  vi.clearAllMocks();
+  db.apiKey.create.mockImplementation(async ({ data }) => keyRecord(data));
+  db.apiKey.update.mockImplementation(async ({ data }) => keyRecord(data));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('ApiKeyService', () => {
+  const service = () => new ApiKeyService(db);
+
+  it('should store only the hash and return the key once', async () => {
+    const created = await service().create('user_1', {
+      name: 'Bot',
+      permissions: ['READ_QUOTES'],
+      mode: 'read_only',
+      chains: ['base', 'arbitrum'],
+      maxNotionalUsd: 250,
+      allowedIps: ['203.0.113.7'],
+    });
+
+    const { data } = db.apiKey.create.mock.calls[0]![0];
+    expect(data.keyHash).toBe(hashApiKey(created.key));
+    expect(data).not.toHaveProperty('key');
+    expect(data).toMatchObject({
+      mode: 'READ_ONLY',
+      allowedChains: ['BASE', 'ARBITRUM'],
+      maxNotionalUsd: 250,
+      allowedIps: ['203.0.113.7'],
+    });
+    expect(created).toMatchObject({ mode: 'read_only', chains: ['base', 'arbitrum'] });
+  });
+
+  it('should rotate to a new secret with an overlap for the old one', async () => {
+    db.apiKey.findFirst.mockResolvedValue(keyRecord());
+
+    const rotated = (await service().rotate('user_1', 'key_1', 3_600_000))!;
+
+    const { data } = db.apiKey.update.mock.calls[0]![0];
+    expect(data.keyHash).toBe(hashApiKey(rotated.key));
+    expect(data.previousKeyHash).toBe('hash_current');
+    expect(data.previousKeyExpiresAt).toEqual(new Date('2025-03-01T13:00:00Z'));
+    expect(rotated.previousKeyExpiresAt).toBe('2025-03-01T13:00:00.000Z');
+  });
+
+  it('should not rotate keys the user does not own', async () => {
+    db.apiKey.findFirst.mockResolvedValue(null);
+
+    expect(await service().rotate('user_2', 'key_1', 0)).toBeNull();
+    expect(db.apiKey.findFirst.mock.calls[0]![0].where).toEqual({
+      id: 'key_1',
+      userId: 'user_2',
+      isActive: true,
+    });
+    expect(db.apiKey.update).not.toHaveBeenCalled();
+  });
+
+  it('should find keys by current or previous hash with their scope', async () => {
+    db.apiKey.findFirst.mockResolvedValue(keyRecord({ previousKeyHash: 'hash_old' }));
+
+    const key = (await service().findByHash('hash_old'))!;
+
+    expect(db.apiKey.findFirst.mock.calls[0]![0].where).toEqual({
+      OR: [{ keyHash: 'hash_old' }, { previousKeyHash: 'hash_old' }],
+    });
+    expect(key.previousKeyHash).toBe('hash_old');
+    expect(key.scope).toEqual({
+      mode: 'trade',
+      chains: ['base'],
+      maxNotionalUsd: 1000,
+      allowedIps: ['10.0.0.0/8'],
+    });
+  });
+
+  it('should revoke by deactivating the key and dropping any overlap', async () => {
+    db.apiKey.updateMany.mockResolvedValue({ count: 1 });
+
+    expect(await service().revoke('user_1', 'key_1')).toBe(true);
+    expect(db.apiKey.updateMany).toHaveBeenCalledWith({
+      where: { id: 'key_1', userId: 'user_1', isActive: true },
+      data: { isActive: false, previousKeyHash: null, previousKeyExpiresAt: null },
+    });
+  });
+});
+
+describe('API key routes', () => {
+  it('should list active keys', async () => {
+    db.apiKey.findMany.mockResolvedValue([keyRecord()]);
+
+    const res = await createApp('user_1').request('/auth/api-keys');
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({
+      apiKeys: [{ id: 'key_1', mode: 'trade', maxNotionalUsd: 1000 }],
+    });
+  });
+
+  it('should create read-only keys by default', async () => {
+    db.apiKey.count.mockResolvedValue(0);
+
+    const res = await post(createApp('user_1'), '/auth/api-keys', {
+      name: 'Bot',
+      permissions: ['READ_QUOTES'],
+    });
+
+    expect(res.status).toBe(201);
+    expect(await res.json()).toMatchObject({ key: expect.stringMatching(/^chpr_/) });
+    expect(db.apiKey.create.mock.calls[0]![0].data).toMatchObject({
+      mode: 'READ_ONLY',
+      allowedChains: [],
+      allowedIps: [],
+    });
+  });
+
+  it('should reject invalid IP allow-lists', async () => {
+    const res = await post(createApp('user_1'), '/auth/api-keys', {
+      name: 'Bot',
+      permissions: ['READ_QUOTES'],
+      allowedIps: ['10.0.0.0/40'],
+    });
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({ code: 'INVALID_IP_ALLOW_LIST' });
+    expect(db.apiKey.create).not.toHaveBeenCalled();
+  });
+
+  it('should enforce the per-user key limit', async () => {
+    db.apiKey.count.mockResolvedValue(10);
+
+    const res = await post(createApp('user_1'), '/auth/api-keys', {
+      name: 'Bot',
+      permissions: ['READ_QUOTES'],
+    });
+
+    expect(res.status).toBe(403);
+  });
+
+  it('should rotate with the default overlap', async () => {
+    db.apiKey.findFirst.mockResolvedValue(keyRecord());
+
+    const res = await post(createApp('user_1'), '/auth/api-keys/key_1/rotate', {});
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({
+      key: expect.stringMatching(/^chpr_/),
+      previousKeyExpiresAt: '2025-03-02T12:00:00.000Z',
+    });
+  });
+
+  it('should return 404 when rotating an unknown key', async () => {
+    db.apiKey.findFirst.mockResolvedValue(null);
+
+    const res = await post(createApp('user_1'), '/auth/api-keys/key_9/rotate', {
+      overlapSeconds: 60,
+    });
+
+    expect(res.status).toBe(404);
+  });
+
+  it('should return 404 when revoking an unknown key', async () => {
+    db.apiKey.updateMany.mockResolvedValue({ count: 0 });
+
+    const res = await createApp('user_1').request('/auth/api-keys/key_9', { method: 'DELETE' });
+
+    expect(res.status).toBe(404);
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const db = vi.hoisted(() => ({
+  user: { findUnique: vi.fn(), upsert: vi.fn() },
+  apiKey: { findFirst: vi.fn(), updateMany: vi.fn() },
+}));
+
+vi.mock('@chainhopper/core/prisma', () => ({ prisma: db }));
+
+vi.mock('@chainhopper/core/oracle', () => ({
+  createPriceOracle: () => ({ getPrices: async () => new Map() }),
+  PrismaPriceHistory: vi.fn(),
+}));
+
+vi.mock('../ws/index.js', () => ({
+  getWebSocketStats: vi.fn().mockReturnValue({ connections: 0 }),
+}));
+
+// Import after mocking
+import { generateApiKey, generateTokens } from '@chainhopper/core/auth';
+import { app } from '../app.js';
+import { AuthLookups, apiKeyUsage } from '../services/index.js';
+
+const apiKey = generateApiKey();
+
+function keyRecord(overrides = {}) {
+  return {
+    id: 'key_1',
+    userId: 'user_1',
+    keyHash: apiKey.keyHash,
+    permissions: ['READ_QUOTES', 'READ_PORTFOLIO'],
+    rateLimit: 60,
+    mode: 'TRADE',
+    allowedChains: [],
+    maxNotionalUsd: null,
+    allowedIps: [],
+    previousKeyHash: null,
+    previousKeyExpiresAt: null,
+    isActive: true,
+    expiresAt: null,
+    ...overrides,
+  };
+}
+
+function withKey(path: string, init: RequestInit = {}) {
+  return app.request(path, {
+    ...init,
+    headers: { Authorization: `Bearer ${apiKey.key}`, ...init.headers },
+  });
+}
+
+describe('API authentication', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db.user.findUnique.mockResolvedValue({ id: 'user_1', tier: 'FREE' });
+    db.apiKey.findFirst.mockResolvedValue(keyRecord());
+    db.apiKey.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  it('should serve public routes without credentials', async () => {
+    const res = await app.request('/tokens?chainId=base');
+
+    expect(res.status).toBe(200);
+  });
+
+  it('should reject protected routes without credentials', async () => {
+    const res = await app.request('/portfolio/summary');
+
+    expect(res.status).toBe(401);
+    expect(await res.json()).toMatchObject({ code: 'NO_AUTH' });
+  });
+
+  it('should resolve JWT sessions', async () => {
+    const { accessToken } = await generateTokens('user_1', 'FREE');
+
+    const res = await app.request('/auth/verify', {
+      headers: { Authorization: `Bearer ${accessToken}` },
+    });
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({
+      valid: true,
+      userId: 'user_1',
+      type: 'jwt',
+      expiresAt: expect.anything(),
+    });
+  });
+
+  it('should resolve API keys from the database and meter them', async () => {
+    const record = vi.spyOn(apiKeyUsage, 'record');
+
+    const res = await withKey('/auth/verify');
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({
+      userId: 'user_1',
+      type: 'apiKey',
+      permissions: ['READ_QUOTES', 'READ_PORTFOLIO'],
+    });
+    expect(res.headers.get('X-RateLimit-Limit')).toBe('60');
+    expect(db.apiKey.findFirst.mock.calls[0]![0].where).toEqual({
+      OR: [{ keyHash: apiKey.keyHash }, { previousKeyHash: apiKey.keyHash }],
+    });
+    expect(record).toHaveBeenCalledWith('key_1', { weight: 1, rejected: false });
+  });
+
+  it('should require the permission for the route group', async () => {
+    const res = await withKey('/swap/build', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ quoteId: 'quote_1', recipient: '0xrecipient' }),
+    });
+
+    expect(res.status).toBe(403);
+    expect(await res.json()).toMatchObject({ code: 'MISSING_PERMISSION' });
+  });
+
+  it('should keep key management to user sessions', async () => {
+    const res = await withKey('/auth/api-keys');
+
+    expect(res.status).toBe(401);
+  });
+
+  it('should check credentials sent to public routes', async () => {
+    db.apiKey.findFirst.mockResolvedValue(null);
+
+    const res = await withKey('/tokens?chainId=base');
+
+    expect(res.status).toBe(401);
+    expect(await res.json()).toMatchObject({ code: 'API_KEY_NOT_FOUND' });
+  });
+});
+
+describe('AuthLookups', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should register Telegram users idempotently', async () => {
+    db.user.upsert.mockResolvedValue({ id: 'user_tg', tier: 'FREE' });
+
+    const user = await new AuthLookups(db).createUserFromTelegram({
+      id: 123456789,
+      first_name: 'Test',
+      username: 'tester',
+    });
+
+    expect(user).toEqual({ id: 'user_tg', tier: 'FREE' });
+    expect(db.user.upsert).toHaveBeenCalledWith({
+      where: { telegramId: '123456789' },
+      create: { telegramId: '123456789', telegramUsername: 'tester' },
+      update: {},
+      select: { id: true, tier: true },
+    });
+  });
+
+  it('should only refresh lastUsedAt once it is a minute old', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-03-01T12:00:00Z'));
+
+    await new AuthLookups(db).updateApiKeyLastUsed('key_1');
+
+    expect(db.apiKey.updateMany).toHaveBeenCalledWith({
+      where: {
+        id: 'key_1',
+        OR: [{ lastUsedAt: null }, { lastUsedAt: { lt: new Date('2025-03-01T11:59:00Z') } }],
+      },
+      data: { lastUsedAt: new Date('2025-03-01T12:00:00Z') },
+    });
+    vi.useRealTimers();
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect, vi, beforeEach, afterEach, type Mock } from 'vitest';
+
+vi.mock('@chainhopper/core/prisma', () => ({ prisma: {} }));
+
+vi.mock('@chainhopper/core/oracle', () => ({
+  createPriceOracle: () => ({ getPrices: async () => new Map() }),
+  PrismaPriceHistory: vi.fn(),
+}));
+
+// Import after mocking
+import { BalanceService } from '../services/balance-service.js';
+import { ChainAdapterRegistry } from '../services/adapter-registry.js';
+
+const WALLET = '0x742d35Cc6634C0532925a3b844Bc9e7595f8fCd0';
+
+function token(overrides = {}) {
+  return {
+    address: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+    chainId: 'base',
+    symbol: 'USDC',
+    name: 'USD Coin',
+    decimals: 6,
+    isNative: false,
+    isVerified: false,
+    ...overrides,
+  };
+}
+
+function createAdapter(chainId: string, getTokenBalances: () => Promise<unknown[]>) {
+  return {
+    chainId,
+    config: { id: chainId, isEnabled: true },
+    getTokenBalances: vi.fn(getTokenBalances),
+  } as any;
+}
+
+describe('BalanceService', () => {
+  let registry: ChainAdapterRegistry;
+  let db: { wallet: { findMany: Mock } };
+  let oracle: { getPrices: Mock };
+
+  beforeEach(() => {
+    registry = new ChainAdapterRegistry();
+    db = {
+      wallet: { findMany: vi.fn().mockResolvedValue([{ chainId: 'BASE', address: WALLET }]) },
+    };
+    oracle = { getPrices: vi.fn().mockResolvedValue(new Map()) };
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should list discovered balances for each connected wallet', async () => {
+    registry.register(
+      createAdapter('base', async () => [
+        { token: token(), balance: 5_000_000_000n, balanceFormatted: '5000' },
+      ])
+    );
+    oracle.getPrices.mockResolvedValue(
+      new Map([
+        [
+          'base:0x833589fcd6edb6e08f4c7c32d4f71b54bda02913',
+          { priceUsd: 1, metadata: { priceChange24h: 0.1 } },
+        ],
+      ])
+    );
+
+    const result = await new BalanceService(registry, db as any, oracle).getBalances('user_1');
+
+    expect(db.wallet.findMany).toHaveBeenCalledWith({ where: { userId: 'user_1' } });
+    expect(result.totalValueUsd).toBe(5000);
+    expect(result.balances[0]).toMatchObject({
+      walletAddress: WALLET,
+      balance: '5000000000',
+      valueUsd: 5000,
+      priceUsd: 1,
+      priceChange24h: 0.1,
+      token: { symbol: 'USDC', chainId: 'base' },
+    });
+  });
+
+  it('should filter by chain', async () => {
+    await new BalanceService(registry, db as any, oracle).getBalances('user_1', {
+      chainId: 'base',
+    });
+
+    expect(db.wallet.findMany).toHaveBeenCalledWith({
+      where: { userId: 'user_1', chainId: 'BASE' },
+    });
+  });
+
+  it('should drop zero balances unless requested', async () => {
+    registry.register(
+      createAdapter('base', async () => [
+        { token: token({ symbol: 'ETH', isNative: true }), balance: 0n, balanceFormatted: '0' },
+      ])
+    );
+    const service = new BalanceService(registry, db as any, oracle);
+
+    expect((await service.getBalances('user_1')).balances).toHaveLength(0);
+    expect((await service.getBalances('user_1', { includeZero: true })).balances).toHaveLength(1);
+  });
+
+  it('should skip wallets whose chain fails to load', async () => {
+    db.wallet.findMany.mockResolvedValue([
+      { chainId: 'BASE', address: WALLET },
+      { chainId: 'ARBITRUM', address: WALLET },
+    ]);
+    registry.register(createAdapter('base', async () => Promise.reject(new Error('rpc down'))));
+    registry.register(
+      createAdapter('arbitrum', async () => [
+        { token: token({ chainId: 'arbitrum' }), balance: 1n, balanceFormatted: '0.000001' },
+      ])
+    );
+
+    const result = await new BalanceService(registry, db as any, oracle).getBalances('user_1');
+
+    expect(result.balances).toHaveLength(1);
+    expect(result.balances[0]!.token.chainId).toBe('arbitrum');
+  });
+
+  it('should still return balances when pricing fails', async () => {
+    registry.register(
+      createAdapter('base', async () => [
+        { token: token(), balance: 1n, balanceFormatted: '0.000001' },
+      ])
+    );
+    oracle.getPrices.mockRejectedValue(new Error('oracle down'));
+
+    const result = await new BalanceService(registry, db as any, oracle).getBalances('user_1');
+
+    expect(result.balances[0]!.valueUsd).toBe(0);
+    expect(result.totalValueUsd).toBe(0);
+  });
+});
@@ -0,0 +1,46 @@
+import type { IncomingMessage } from 'node:http';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { getRequestClientIp } from '../client-ip.js';
+
+function incoming(headers: Record<string, string>, remoteAddress = '10.0.0.5') {
+  return { headers, socket: { remoteAddress } } as unknown as IncomingMessage;
+}
+
+describe('getRequestClientIp', () => {
+  beforeEach(() => {
+    vi.stubEnv('TRUSTED_PROXIES', '10.0.0.0/24, 192.0.2.1');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should use the address the proxy wrote', () => {
+    const request = incoming({
+      'x-real-ip': '203.0.113.7',
+      'x-forwarded-for': '198.51.100.1, 203.0.113.7',
+    });
+
+    expect(getRequestClientIp(request)).toBe('203.0.113.7');
+  });
+
+  it('should take the rightmost forwarded hop, not the client-supplied first one', () => {
+    const request = incoming({ 'x-forwarded-for': '198.51.100.1, 203.0.113.7' });
+
+    expect(getRequestClientIp(request)).toBe('203.0.113.7');
+  });
+
+  it('should fall back to the socket address without a proxy', () => {
+    expect(getRequestClientIp(incoming({}))).toBe('10.0.0.5');
+  });
+
+  it('should ignore proxy headers from peers that are not trusted proxies', () => {
+    const spoofed = { 'x-real-ip': '10.0.0.9', 'x-forwarded-for': '10.0.0.9' };
+
+    expect(getRequestClientIp(incoming(spoofed, '203.0.113.7'))).toBe('203.0.113.7');
+    expect(getRequestClientIp(incoming(spoofed, '192.0.2.1'))).toBe('10.0.0.9');
+
+    vi.stubEnv('TRUSTED_PROXIES', '');
+    expect(getRequestClientIp(incoming(spoofed))).toBe('10.0.0.5');
+  });
+});
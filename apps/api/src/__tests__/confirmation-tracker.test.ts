@@ -0,0 +1,355 @@
+import { describe, it, expect, vi, beforeEach, afterEach, type Mock } from 'vitest';
+
+vi.mock('@chainhopper/adapters', () => ({
+  getEvmChainId: (chainId: string) => ({ base: 8453, ethereum: 1 })[chainId],
+}));
+
+vi.mock('@chainhopper/core/prisma', () => ({ prisma: {} }));
+
+vi.mock('@chainhopper/core/oracle', () => ({
+  NATIVE_TOKENS: { base: '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE' },
+  createPriceOracle: () => ({ getPrice: async () => null }),
+  PrismaPriceHistory: vi.fn(),
+}));
+
+vi.mock('../ws/index.js', () => ({
+  emitTradeEvent: vi.fn(),
+}));
+
+// Import after mocking
+import {
+  SwapConfirmationTracker,
+  type ConfirmationTrackerOptions,
+} from '../workers/confirmation-tracker.js';
+import { ChainAdapterRegistry } from '../services/adapter-registry.js';
+import type { TrackedSwap } from '../services/swap-repository.js';
+
+function trackedSwap(overrides: Partial<TrackedSwap> = {}): TrackedSwap {
+  return {
+    id: 'swap_1',
+    userId: 'user_1',
+    quoteId: 'quote_1',
+    status: 'submitted',
+    txHash: '0xhash',
+    chainId: 'base',
+    tokenIn: { address: '0xin', chainId: 'base', symbol: 'ETH', name: 'Ethereum', decimals: 18 },
+    tokenOut: { address: '0xout', chainId: 'base', symbol: 'USDC', name: 'USD Coin', decimals: 6 },
+    amountIn: '1000000000000000000',
+    amountOutExpected: '3250000000',
+    amountOutMin: '3233750000',
+    recipient: '0xrecipient',
+    fee: { totalFeeUsd: 0, protocolFee: '0', protocolFeeUsd: 0, networkFee: '0', networkFeeUsd: 0 },
+    createdAt: new Date().toISOString(),
+    executedAt: new Date().toISOString(),
+    ...overrides,
+  };
+}
+
+function createAdapter(waitForConfirmation: (...args: unknown[]) => Promise<object>) {
+  return {
+    chainId: 'base',
+    config: {
+      id: 'base',
+      isEnabled: true,
+      nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+    },
+    waitForConfirmation: vi.fn(waitForConfirmation),
+  } as any;
+}
+
+describe('SwapConfirmationTracker', () => {
+  let registry: ChainAdapterRegistry;
+  let repository: {
+    findActive: Mock;
+    findUnrecorded: Mock;
+    markChecked: Mock;
+    updateStatus: Mock;
+  };
+  let emit: Mock;
+  let fees: { recordSwap: Mock };
+  let prices: { getPrice: Mock };
+
+  function createTracker(options: ConfirmationTrackerOptions = {}) {
+    return new SwapConfirmationTracker({ registry, repository, emit, fees, prices, ...options });
+  }
+
+  beforeEach(() => {
+    registry = new ChainAdapterRegistry();
+    repository = {
+      findActive: vi.fn().mockResolvedValue([]),
+      findUnrecorded: vi.fn().mockResolvedValue([]),
+      markChecked: vi.fn().mockResolvedValue(undefined),
+      updateStatus: vi.fn().mockResolvedValue(true),
+    };
+    emit = vi.fn();
+    fees = { recordSwap: vi.fn().mockResolvedValue(null) };
+    prices = { getPrice: vi.fn().mockResolvedValue({ priceUsd: 3000 }) };
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should move a submitted swap through confirming to confirmed', async () => {
+    const adapter = createAdapter(async () => ({ status: 'confirmed', amountOut: 3248000000n }));
+    registry.register(adapter);
+
+    await createTracker().track(trackedSwap());
+
+    expect(repository.updateStatus).toHaveBeenNthCalledWith(1, 'swap_1', 'confirming');
+    expect(repository.updateStatus).toHaveBeenNthCalledWith(
+      2,
+      'swap_1',
+      'confirmed',
+      expect.objectContaining({ amountOut: 3248000000n, confirmedAt: expect.any(Date) })
+    );
+    expect(emit.mock.calls.map(([, event]) => event.status)).toEqual(['pending', 'confirmed']);
+    expect(emit).toHaveBeenLastCalledWith(
+      'user_1',
+      expect.objectContaining({
+        tradeId: 'swap_1',
+        chainId: 8453,
+        tokenOut: expect.objectContaining({ amount: '3248000000', amountExpected: '3250000000' }),
+      })
+    );
+  });
+
+  it('should wait for the per-chain confirmation depth', async () => {
+    const adapter = createAdapter(async () => ({ status: 'confirmed', amountOut: 0n }));
+    registry.register(adapter);
+
+    await createTracker({ settings: { base: { confirmations: 4, timeoutMs: 60000 } } }).track(
+      trackedSwap()
+    );
+
+    expect(adapter.waitForConfirmation).toHaveBeenCalledWith('0xhash', 4, expect.any(Object));
+  });
+
+  it('should pass the recipient and quote so adapters can decode the settled amount', async () => {
+    const adapter = createAdapter(async () => ({ status: 'confirmed', amountOut: 1n }));
+    registry.register(adapter);
+
+    await createTracker().track(trackedSwap());
+
+    const [, , options] = adapter.waitForConfirmation.mock.calls[0];
+    expect(options).toEqual({
+      recipient: '0xrecipient',
+      quote: {
+        tokenIn: '0xin',
+        tokenOut: '0xout',
+        amountOut: 3250000000n,
+        amountOutMin: 3233750000n,
+      },
+    });
+  });
+
+  it('should not overwrite the quoted output when the adapter reports zero', async () => {
+    registry.register(createAdapter(async () => ({ status: 'confirmed', amountOut: 0n })));
+
+    await createTracker().track(trackedSwap());
+
+    const [, , update] = repository.updateStatus.mock.calls[1]!;
+    expect(update.amountOut).toBeUndefined();
+  });
+
+  it('should mark reverted swaps as failed', async () => {
+    registry.register(createAdapter(async () => ({ status: 'failed', amountOut: 0n })));
+
+    await createTracker().track(trackedSwap({ status: 'confirming' }));
+
+    expect(repository.updateStatus).toHaveBeenCalledTimes(1);
+    expect(repository.updateStatus).toHaveBeenCalledWith('swap_1', 'failed', expect.any(Object));
+    expect(emit).toHaveBeenCalledWith(
+      'user_1',
+      expect.objectContaining({ status: 'failed', error: 'Transaction reverted' })
+    );
+    expect(fees.recordSwap).not.toHaveBeenCalled();
+  });
+
+  it('should record fees once a swap confirms', async () => {
+    registry.register(createAdapter(async () => ({ status: 'confirmed', amountOut: 3248000000n })));
+
+    await createTracker().track(trackedSwap());
+
+    expect(fees.recordSwap).toHaveBeenCalledWith('swap_1');
+  });
+
+  it('should keep a confirmed swap confirmed when fee recording fails', async () => {
+    registry.register(createAdapter(async () => ({ status: 'confirmed', amountOut: 3248000000n })));
+    fees.recordSwap.mockRejectedValue(new Error('database unavailable'));
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await createTracker().track(trackedSwap());
+
+    expect(repository.updateStatus).toHaveBeenLastCalledWith(
+      'swap_1',
+      'confirmed',
+      expect.any(Object)
+    );
+    expect(emit).toHaveBeenLastCalledWith(
+      'user_1',
+      expect.objectContaining({ status: 'confirmed' })
+    );
+    expect(error).toHaveBeenCalled();
+  });
+
+  it('should retry fee recording for recently confirmed swaps without lots', async () => {
+    repository.findUnrecorded.mockResolvedValue(['swap_1', 'swap_2']);
+    fees.recordSwap.mockRejectedValueOnce(new Error('database unavailable'));
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const now = Date.parse('2025-03-01T12:00:00Z');
+
+    expect(await createTracker({ feeRetryIntervalMs: 60_000 }).retryFeeRecording(now)).toBe(1);
+
+    expect(repository.findUnrecorded).toHaveBeenCalledWith(
+      new Date('2025-03-01T11:00:00Z'),
+      new Date('2025-03-01T11:59:00Z'),
+      100
+    );
+    expect(fees.recordSwap.mock.calls).toEqual([['swap_1'], ['swap_2']]);
+    expect(error).toHaveBeenCalledTimes(1);
+  });
+
+  it('should store the network fee valued at the native token price', async () => {
+    registry.register(
+      createAdapter(async () => ({
+        status: 'confirmed',
+        amountOut: 3248000000n,
+        fee: { networkFee: 210000000000000n, networkFeeUsd: 0 },
+      }))
+    );
+
+    await createTracker().track(trackedSwap());
+
+    expect(prices.getPrice).toHaveBeenCalledWith(
+      '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE',
+      'base'
+    );
+    const [, , update] = repository.updateStatus.mock.calls[1]!;
+    expect(update).toMatchObject({ networkFee: 210000000000000n, nativePriceUsd: 3000 });
+    expect(update.networkFeeUsd).toBeCloseTo(0.63);
+  });
+
+  it('should store the network fee of a reverted swap without its price when pricing fails', async () => {
+    registry.register(
+      createAdapter(async () => ({
+        status: 'failed',
+        amountOut: 0n,
+        fee: { networkFee: 50000000000000n, networkFeeUsd: 0 },
+      }))
+    );
+    prices.getPrice.mockRejectedValue(new Error('oracle down'));
+
+    await createTracker().track(trackedSwap({ status: 'confirming' }));
+
+    expect(repository.updateStatus).toHaveBeenCalledWith(
+      'swap_1',
+      'failed',
+      expect.objectContaining({ networkFee: 50000000000000n })
+    );
+    const [, , update] = repository.updateStatus.mock.calls[0]!;
+    expect(update.networkFeeUsd).toBeUndefined();
+  });
+
+  it('should expire swaps that do not confirm before the timeout', async () => {
+    vi.useFakeTimers();
+    registry.register(createAdapter(() => new Promise(() => {})));
+
+    const tracking = createTracker({
+      settings: { base: { confirmations: 1, timeoutMs: 1000 } },
+    }).track(trackedSwap());
+    await vi.advanceTimersByTimeAsync(1000);
+    await tracking;
+
+    expect(repository.updateStatus).toHaveBeenLastCalledWith(
+      'swap_1',
+      'expired',
+      expect.any(Object)
+    );
+    expect(emit).toHaveBeenLastCalledWith('user_1', expect.objectContaining({ status: 'failed' }));
+  });
+
+  it('should expire swaps picked up after their timeout without polling the chain', async () => {
+    const adapter = createAdapter(async () => ({ status: 'confirmed', amountOut: 0n }));
+    registry.register(adapter);
+    const submittedAt = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+
+    await createTracker().track(trackedSwap({ executedAt: submittedAt }));
+
+    expect(adapter.waitForConfirmation).not.toHaveBeenCalled();
+    expect(repository.updateStatus).toHaveBeenCalledWith('swap_1', 'expired', expect.any(Object));
+  });
+
+  it('should leave the swap confirming when the RPC call fails', async () => {
+    registry.register(createAdapter(async () => Promise.reject(new Error('rpc down'))));
+
+    await createTracker().track(trackedSwap({ status: 'confirming' }));
+
+    expect(repository.updateStatus).not.toHaveBeenCalled();
+    expect(emit).not.toHaveBeenCalled();
+  });
+
+  it('should fail swaps on chains without an adapter', async () => {
+    await createTracker().track(trackedSwap({ chainId: 'cosmos' }));
+
+    expect(repository.updateStatus).toHaveBeenLastCalledWith(
+      'swap_1',
+      'failed',
+      expect.any(Object)
+    );
+    expect(emit).toHaveBeenLastCalledWith(
+      'user_1',
+      expect.objectContaining({ chainId: 'cosmos', status: 'failed' })
+    );
+  });
+
+  it('should leave publishing to the replica that settled the swap', async () => {
+    registry.register(createAdapter(async () => ({ status: 'confirmed', amountOut: 1n })));
+    repository.updateStatus.mockResolvedValue(false);
+
+    await createTracker().track(trackedSwap());
+
+    expect(repository.updateStatus).toHaveBeenCalledTimes(2);
+    expect(emit).not.toHaveBeenCalled();
+    expect(fees.recordSwap).not.toHaveBeenCalled();
+  });
+
+  it('should keep watching a swap another replica moved to confirming', async () => {
+    registry.register(createAdapter(async () => ({ status: 'confirmed', amountOut: 1n })));
+    repository.updateStatus.mockResolvedValueOnce(false);
+
+    await createTracker().track(trackedSwap());
+
+    expect(emit.mock.calls.map(([, event]) => event.status)).toEqual(['confirmed']);
+    expect(fees.recordSwap).toHaveBeenCalledWith('swap_1');
+  });
+
+  it('should not track the same swap twice across polls', async () => {
+    let resolve!: (result: object) => void;
+    registry.register(createAdapter(() => new Promise((r) => (resolve = r))));
+    repository.findActive.mockResolvedValue([trackedSwap()]);
+    const tracker = createTracker();
+
+    expect(await tracker.poll()).toBe(1);
+    expect(await tracker.poll()).toBe(0);
+    expect(tracker.activeCount).toBe(1);
+
+    resolve({ status: 'confirmed', amountOut: 1n });
+    await tracker.stop();
+    expect(tracker.activeCount).toBe(0);
+  });
+
+  it('should mark every polled swap as checked, including ones in flight', async () => {
+    registry.register(createAdapter(() => new Promise(() => {})));
+    repository.findActive.mockResolvedValue([trackedSwap(), trackedSwap({ id: 'swap_2' })]);
+    const tracker = createTracker();
+
+    await tracker.poll();
+    await tracker.poll();
+
+    expect(repository.markChecked).toHaveBeenCalledTimes(2);
+    expect(repository.markChecked).toHaveBeenLastCalledWith(['swap_1', 'swap_2']);
+  });
+});
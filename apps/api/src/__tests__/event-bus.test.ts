@@ -0,0 +1,156 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { InMemoryEventBus, RedisEventBus, type WebSocketEvent } from '../ws/event-bus.js';
+
+/**
+ * In-memory stand-in for a Redis server's pub/sub. Each replica gets a
+ * publisher and a subscriber connection, as with ioredis.
+ */
+type Listener = (channel: string, message: string) => void;
+
+interface FakeSubscriber {
+  channels: Set<string>;
+  listeners: Listener[];
+}
+
+function createFakeBroker() {
+  const subscribers = new Set<FakeSubscriber>();
+
+  return {
+    publisher() {
+      return {
+        publish: vi.fn(async (channel: string, message: string) => {
+          let receivers = 0;
+          for (const sub of subscribers) {
+            if (sub.channels.has(channel)) {
+              sub.listeners.forEach((listener) => listener(channel, message));
+              receivers++;
+            }
+          }
+          return receivers;
+        }),
+        quit: vi.fn(async () => 'OK'),
+      };
+    },
+    subscriber() {
+      const sub = {
+        channels: new Set<string>(),
+        listeners: [] as Listener[],
+        on: vi.fn((event: string, listener: Listener) => sub.listeners.push(listener)),
+        subscribe: vi.fn(async (channel: string) => sub.channels.add(channel)),
+        unsubscribe: vi.fn(async (channel: string) => sub.channels.delete(channel)),
+        quit: vi.fn(async () => subscribers.delete(sub)),
+      };
+      subscribers.add(sub);
+      return sub;
+    },
+  };
+}
+
+const TRADE_EVENT: WebSocketEvent = {
+  type: 'trade:confirmed',
+  payload: { tradeId: 'trade_1' },
+  userId: 'user_1',
+  permission: 'READ_PORTFOLIO',
+};
+
+describe('InMemoryEventBus', () => {
+  it('should deliver events before publish resolves', async () => {
+    const bus = new InMemoryEventBus();
+    const handler = vi.fn();
+    await bus.subscribe(handler);
+
+    await bus.publish(TRADE_EVENT);
+
+    expect(handler).toHaveBeenCalledWith(TRADE_EVENT);
+  });
+
+  it('should keep delivering when one handler throws', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const bus = new InMemoryEventBus();
+    const handler = vi.fn();
+    await bus.subscribe(() => {
+      throw new Error('socket gone');
+    });
+    await bus.subscribe(handler);
+
+    await bus.publish(TRADE_EVENT);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('RedisEventBus', () => {
+  let broker: ReturnType<typeof createFakeBroker>;
+
+  function replica() {
+    return new RedisEventBus(broker.publisher(), broker.subscriber(), { channel: 'test:events' });
+  }
+
+  beforeEach(() => {
+    broker = createFakeBroker();
+  });
+
+  it('should deliver events to every replica, including the publisher', async () => {
+    const a = replica();
+    const b = replica();
+    const onA = vi.fn();
+    const onB = vi.fn();
+    await a.subscribe(onA);
+    await b.subscribe(onB);
+
+    await a.publish(TRADE_EVENT);
+
+    expect(onA).toHaveBeenCalledWith(TRADE_EVENT);
+    expect(onB).toHaveBeenCalledWith(TRADE_EVENT);
+  });
+
+  it('should subscribe to Redis once for several handlers', async () => {
+    const subscriber = broker.subscriber();
+    const bus = new RedisEventBus(broker.publisher(), subscriber);
+    const handler = vi.fn();
+
+    await bus.subscribe(handler);
+    await bus.subscribe(handler);
+    await bus.publish(TRADE_EVENT);
+
+    expect(subscriber.subscribe).toHaveBeenCalledTimes(1);
+    expect(subscriber.subscribe).toHaveBeenCalledWith('ws:events');
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('should drop malformed messages and messages on other channels', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const subscriber = broker.subscriber();
+    const bus = new RedisEventBus(broker.publisher(), subscriber, { channel: 'test:events' });
+    const handler = vi.fn();
+    await bus.subscribe(handler);
+
+    const [listener] = subscriber.listeners;
+    listener!('test:events', 'not json');
+    listener!('other:channel', JSON.stringify(TRADE_EVENT));
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should log publish failures instead of rejecting', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const publisher = broker.publisher();
+    publisher.publish.mockRejectedValue(new Error('connection lost'));
+    const bus = new RedisEventBus(publisher, broker.subscriber());
+
+    await expect(bus.publish(TRADE_EVENT)).resolves.toBeUndefined();
+    expect(error).toHaveBeenCalled();
+  });
+
+  it('should stop delivering after close', async () => {
+    const a = replica();
+    const b = replica();
+    const onB = vi.fn();
+    await b.subscribe(onB);
+
+    await b.close();
+    await a.publish(TRADE_EVENT);
+
+    expect(onB).not.toHaveBeenCalled();
+  });
+});
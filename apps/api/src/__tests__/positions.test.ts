@@ -0,0 +1,311 @@
+import { describe, it, expect, vi, beforeEach, afterEach, type Mock } from 'vitest';
+
+vi.mock('@chainhopper/core/prisma', () => ({ prisma: {} }));
+
+vi.mock('@chainhopper/core/oracle', () => ({
+  createPriceOracle: () => ({ getPrices: async () => new Map() }),
+  PrismaPriceHistory: vi.fn(),
+}));
+
+// Import after mocking
+import { PositionService } from '../services/position-service.js';
+
+const ETH = 10n ** 18n;
+
+function token(overrides = {}) {
+  return {
+    address: '0x4200000000000000000000000000000000000006',
+    chainId: 'BASE',
+    symbol: 'WETH',
+    name: 'Wrapped Ether',
+    decimals: 18,
+    logoUri: null,
+    ...overrides,
+  };
+}
+
+const USDC = token({
+  address: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+  symbol: 'USDC',
+  name: 'USD Coin',
+  decimals: 6,
+});
+
+function swap(id: string, side: 'buy' | 'sell', usd: number, day: number) {
+  const [tokenIn, tokenOut] = side === 'buy' ? [USDC, token()] : [token(), USDC];
+  return {
+    id,
+    chainId: 'BASE',
+    txHash: `0x${id}`,
+    tokenIn,
+    tokenOut,
+    amountIn: side === 'buy' ? `${usd}000000` : ETH.toString(),
+    amountOut: side === 'buy' ? ETH.toString() : `${usd}000000`,
+    amountInUsd: usd,
+    amountOutUsd: usd,
+    executedAt: new Date(Date.UTC(2024, 0, day)),
+    createdAt: new Date(Date.UTC(2024, 0, day)),
+  };
+}
+
+function lot(id: string, entryTx: ReturnType<typeof swap>, overrides = {}) {
+  return {
+    id,
+    entryTxId: entryTx.id,
+    entryTx,
+    amount: ETH.toString(),
+    remainingAmount: ETH.toString(),
+    entryPrice: 1000,
+    costBasis: 1000,
+    transferredFromId: null,
+    openedAt: entryTx.executedAt,
+    closedAt: null,
+    ...overrides,
+  };
+}
+
+function position(overrides = {}) {
+  return {
+    id: 'position_1',
+    walletId: 'wallet_1',
+    chainId: 'BASE',
+    token: token(),
+    amount: ETH.toString(),
+    entryPrice: 3000,
+    exitPrice: null,
+    costBasis: 3000,
+    realizedPnl: 500,
+    isOpen: true,
+    openedAt: new Date(Date.UTC(2024, 0, 1)),
+    closedAt: null,
+    lots: [],
+    ...overrides,
+  };
+}
+
+describe('PositionService', () => {
+  let db: {
+    position: { findMany: Mock; findFirst: Mock; count: Mock };
+    wallet: { findFirst: Mock };
+    $transaction: Mock;
+  };
+  let oracle: { getPrices: Mock };
+
+  beforeEach(() => {
+    db = {
+      position: {
+        findMany: vi.fn().mockResolvedValue([]),
+        findFirst: vi.fn().mockResolvedValue(null),
+        count: vi.fn().mockResolvedValue(0),
+      },
+      wallet: { findFirst: vi.fn().mockResolvedValue(null) },
+      $transaction: vi.fn((queries: Promise<unknown>[]) => Promise.all(queries)),
+    };
+    oracle = {
+      getPrices: vi
+        .fn()
+        .mockResolvedValue(
+          new Map([['base:0x4200000000000000000000000000000000000006', { priceUsd: 3500 }]])
+        ),
+    };
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should list positions with their lots, valued at the current price', async () => {
+    const buy = swap('buy_1', 'buy', 3000, 2);
+    db.position.findMany.mockResolvedValue([
+      position({
+        lots: [
+          lot('lot_1', swap('buy_0', 'buy', 1000, 1), { remainingAmount: '0', costBasis: 0 }),
+          lot('lot_2', buy, { entryPrice: 3000, costBasis: 3000 }),
+        ],
+      }),
+    ]);
+    db.position.count.mockResolvedValue(1);
+
+    const result = await new PositionService(db as any, oracle).list('user_1', {
+      chainId: 'base',
+      status: 'open',
+      limit: 50,
+      offset: 0,
+    });
+
+    expect(db.position.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { userId: 'user_1', chainId: 'BASE', isOpen: true },
+        take: 50,
+        skip: 0,
+      })
+    );
+    expect(result.total).toBe(1);
+    expect(result.positions[0]).toMatchObject({
+      id: 'position_1',
+      walletId: 'wallet_1',
+      chainId: 'base',
+      token: { symbol: 'WETH', decimals: 18 },
+      amountFormatted: '1',
+      currentPrice: 3500,
+      currentValue: 3500,
+      unrealizedPnl: 500,
+      realizedPnl: 500,
+    });
+    expect(result.positions[0]!.lots).toEqual([
+      expect.objectContaining({ id: 'lot_1', remainingAmount: '0', entryTxId: 'buy_0' }),
+      expect.objectContaining({ id: 'lot_2', remainingAmount: ETH.toString(), costBasis: 3000 }),
+    ]);
+  });
+
+  it('should not filter by status when listing all positions', async () => {
+    await new PositionService(db as any, oracle).list('user_1', {
+      status: 'all',
+      limit: 20,
+      offset: 40,
+    });
+
+    expect(db.position.count).toHaveBeenCalledWith({ where: { userId: 'user_1' } });
+    expect(oracle.getPrices).not.toHaveBeenCalled();
+  });
+
+  it('should value open positions at cost when prices are unavailable', async () => {
+    db.position.findMany.mockResolvedValue([position()]);
+    oracle.getPrices.mockRejectedValue(new Error('oracle down'));
+
+    const result = await new PositionService(db as any, oracle).list('user_1', {
+      status: 'open',
+      limit: 50,
+      offset: 0,
+    });
+
+    expect(result.positions[0]).toMatchObject({ currentPrice: 3000, unrealizedPnl: 0 });
+  });
+
+  it('should return lot disposals and the trades behind a position', async () => {
+    const buy = swap('buy_1', 'buy', 1000, 1);
+    const sell = swap('sell_1', 'sell', 2500, 3);
+    db.position.findFirst.mockResolvedValue(
+      position({
+        amount: '0',
+        costBasis: 0,
+        exitPrice: 2500,
+        realizedPnl: 1500,
+        isOpen: false,
+        closedAt: sell.executedAt,
+        lots: [
+          lot('lot_1', buy, {
+            remainingAmount: '0',
+            costBasis: 0,
+            closedAt: sell.executedAt,
+            disposals: [
+              {
+                exitTxId: 'sell_1',
+                exitTx: sell,
+                amount: ETH.toString(),
+                costBasis: 1000,
+                proceeds: 2500,
+                realizedPnl: 1500,
+                disposedAt: sell.executedAt,
+              },
+            ],
+          }),
+        ],
+        feeCalculations: [
+          { exitTxId: 'sell_1', costBasis: 1000, realizedProfitUsd: 1500, feeAmountUsd: 225 },
+        ],
+      })
+    );
+
+    const result = await new PositionService(db as any, oracle).get('user_1', 'position_1');
+
+    expect(db.position.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: 'position_1', userId: 'user_1' } })
+    );
+    expect(result).toMatchObject({ isOpen: false, currentPrice: 2500, currentValue: 0 });
+    expect(result!.lots[0]!.disposals).toEqual([
+      {
+        exitTxId: 'sell_1',
+        amount: ETH.toString(),
+        costBasis: 1000,
+        proceeds: 2500,
+        realizedPnl: 1500,
+        disposedAt: sell.executedAt.toISOString(),
+      },
+    ]);
+    expect(result!.trades).toEqual([
+      expect.objectContaining({ id: 'buy_1', type: 'buy', fee: 0 }),
+      expect.objectContaining({
+        id: 'sell_1',
+        type: 'sell',
+        profit: 1500,
+        profitPercent: 150,
+        fee: 225,
+        txHash: '0xsell_1',
+      }),
+    ]);
+  });
+
+  it('should return null for positions the user does not own', async () => {
+    expect(await new PositionService(db as any, oracle).get('user_1', 'position_2')).toBeNull();
+  });
+
+  describe('transfer', () => {
+    let fees: { recordTransfer: Mock };
+
+    beforeEach(() => {
+      db.position.findFirst.mockResolvedValue({
+        walletId: 'wallet_1',
+        chainId: 'BASE',
+        tokenId: 'token_weth',
+      });
+      db.wallet.findFirst.mockResolvedValue({ id: 'wallet_2' });
+      fees = { recordTransfer: vi.fn().mockResolvedValue(ETH / 2n) };
+    });
+
+    it("should move lots to another of the user's wallets on the same chain", async () => {
+      const moved = await new PositionService(db as any, oracle, fees as any).transfer(
+        'user_1',
+        'position_1',
+        {
+          toWalletId: 'wallet_2',
+          amount: ETH / 2n,
+          lotIds: ['lot_1'],
+        }
+      );
+
+      expect(moved).toBe(ETH / 2n);
+      expect(db.position.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: 'position_1', userId: 'user_1', isOpen: true } })
+      );
+      expect(db.wallet.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: 'wallet_2', userId: 'user_1', chainId: 'BASE' } })
+      );
+      expect(fees.recordTransfer).toHaveBeenCalledWith({
+        userId: 'user_1',
+        fromWalletId: 'wallet_1',
+        toWalletId: 'wallet_2',
+        tokenId: 'token_weth',
+        amount: ETH / 2n,
+        lotIds: ['lot_1'],
+      });
+    });
+
+    it("should refuse wallets that are not the user's or hold the position", async () => {
+      const service = new PositionService(db as any, oracle, fees as any);
+      const transfer = { toWalletId: 'wallet_2', amount: ETH };
+
+      db.wallet.findFirst.mockResolvedValueOnce(null);
+      expect(await service.transfer('user_1', 'position_1', transfer)).toBeNull();
+
+      db.wallet.findFirst.mockResolvedValueOnce({ id: 'wallet_1' });
+      expect(await service.transfer('user_1', 'position_1', transfer)).toBeNull();
+
+      db.position.findFirst.mockResolvedValueOnce(null);
+      expect(await service.transfer('user_1', 'position_2', transfer)).toBeNull();
+
+      expect(fees.recordTransfer).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,259 @@
+import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest';
+import type { ChainId } from '@chainhopper/types';
+import type { PriceData, PriceSource } from '@chainhopper/core/oracle';
+
+vi.mock('@chainhopper/adapters', () => ({
+  EVM_CHAIN_IDS: { ethereum: 1, base: 8453 },
+}));
+
+vi.mock('@chainhopper/core/prisma', () => ({ prisma: {} }));
+
+vi.mock('@chainhopper/core/oracle', () => ({
+  NATIVE_TOKENS: { base: '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE' },
+  createPriceOracle: () => ({ getPrices: async () => new Map() }),
+  PrismaPriceHistory: vi.fn(),
+}));
+
+vi.mock('../ws/index.js', () => ({
+  connectionManager: { getChannels: vi.fn().mockReturnValue([]) },
+  emitPriceUpdate: vi.fn(),
+}));
+
+// Import after mocking
+import { PriceStreamer, type PriceStreamerOptions } from '../workers/price-streamer.js';
+
+const NATIVE = '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee';
+const USDC = '0x833589fcd6edb6e08f4c7c32d4f71b54bda02913';
+const BONK = 'dezxaz8z7pnrnrjz3wxbokrusc4d5t2hcusq2tmkvmcc';
+
+function price(
+  address: string,
+  priceUsd: number,
+  source: PriceSource = 'pyth',
+  chainId: ChainId = 'base'
+): PriceData {
+  return { tokenAddress: address, chainId, priceUsd, confidence: 1, source, timestamp: new Date() };
+}
+
+function pricesOf(...entries: PriceData[]) {
+  return new Map(entries.map((p) => [`${p.chainId}:${p.tokenAddress}`, p]));
+}
+
+describe('PriceStreamer', () => {
+  let channels: string[];
+  let oracle: { getPrices: Mock };
+  let emit: Mock;
+  let registry: { get: Mock };
+
+  function createStreamer(options: PriceStreamerOptions = {}) {
+    return new PriceStreamer({
+      oracle,
+      registry: registry as any,
+      emit,
+      stream: null,
+      channels: () => channels,
+      ...options,
+    });
+  }
+
+  beforeEach(() => {
+    channels = [`prices:8453:${USDC}`];
+    oracle = {
+      getPrices: vi.fn().mockResolvedValue(pricesOf(price(USDC, 1.0001), price(NATIVE, 2500))),
+    };
+    emit = vi.fn().mockReturnValue(1);
+    registry = {
+      get: vi.fn().mockReturnValue({ getToken: vi.fn().mockResolvedValue({ symbol: 'USDC' }) }),
+    };
+  });
+
+  it('should emit prices for subscribed channels', async () => {
+    expect(await createStreamer().tick(0)).toBe(1);
+
+    expect(oracle.getPrices).toHaveBeenCalledWith([
+      { address: USDC, chainId: 'base' },
+      { address: '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE', chainId: 'base' },
+    ]);
+    expect(emit).toHaveBeenCalledWith(8453, USDC, {
+      symbol: 'USDC',
+      priceUsd: '1.0001',
+      priceNative: (1.0001 / 2500).toString(),
+      change24h: 0,
+      volume24h: '0',
+    });
+  });
+
+  it('should poll each channel at the cadence of its price source', async () => {
+    channels.push(`prices:8453:${NATIVE}`);
+    oracle.getPrices.mockImplementation(async () =>
+      pricesOf(price(USDC, Math.random(), 'coingecko'), price(NATIVE, Math.random(), 'pyth'))
+    );
+    const streamer = createStreamer();
+
+    expect(await streamer.tick(0)).toBe(2);
+    // Pyth is due again after 2s, CoinGecko only after 30s
+    expect(await streamer.tick(2_000)).toBe(1);
+    expect(emit.mock.calls[2]![1]).toBe(NATIVE);
+    expect(await streamer.tick(29_999)).toBe(1);
+    expect(await streamer.tick(30_000)).toBe(1);
+    expect(emit.mock.calls[4]![1]).toBe(USDC);
+  });
+
+  it('should not emit unchanged prices', async () => {
+    const streamer = createStreamer();
+
+    await streamer.tick(0);
+    expect(await streamer.tick(2_000)).toBe(0);
+    expect(emit).toHaveBeenCalledTimes(1);
+
+    oracle.getPrices.mockResolvedValue(pricesOf(price(USDC, 0.9999), price(NATIVE, 2500)));
+    expect(await streamer.tick(4_000)).toBe(1);
+  });
+
+  it('should defer channels once the message budget is spent', async () => {
+    channels = [`prices:8453:${USDC}`, `prices:8453:${NATIVE}`];
+    emit.mockReturnValue(3);
+    const streamer = createStreamer({ maxMessagesPerTick: 2 });
+
+    expect(await streamer.tick(0)).toBe(1);
+    // The deferred channel is still due on the next tick
+    expect(await streamer.tick(1_000)).toBe(1);
+    expect(emit.mock.calls.map(([, address]) => address)).toEqual([USDC, NATIVE]);
+  });
+
+  it('should stop polling channels without subscribers', async () => {
+    const streamer = createStreamer();
+    await streamer.tick(0);
+
+    channels = [];
+
+    expect(await streamer.tick(10_000)).toBe(0);
+    expect(streamer.channelCount).toBe(0);
+    expect(oracle.getPrices).toHaveBeenCalledTimes(1);
+  });
+
+  it('should accept chain names for non-EVM chains', async () => {
+    channels = [`prices:solana:${BONK}`];
+    oracle.getPrices.mockResolvedValue(pricesOf(price(BONK, 0.00002, 'dexscreener', 'solana')));
+
+    expect(await createStreamer().tick(0)).toBe(1);
+    expect(emit).toHaveBeenCalledWith(
+      'solana',
+      BONK,
+      expect.objectContaining({ priceUsd: '0.00002' })
+    );
+    expect(emit.mock.calls[0]![2].priceNative).toBeUndefined();
+  });
+
+  it('should ignore unknown chains and back off when the oracle fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    channels = ['prices:999999:0xabc', `prices:8453:${USDC}`];
+    oracle.getPrices.mockRejectedValue(new Error('rate limited'));
+    const streamer = createStreamer();
+
+    expect(await streamer.tick(0)).toBe(0);
+    expect(streamer.channelCount).toBe(1);
+    expect(await streamer.tick(1_000)).toBe(0);
+    expect(oracle.getPrices).toHaveBeenCalledTimes(1);
+  });
+
+  describe('streaming', () => {
+    let stream: { streamsToken: Mock; streamPrices: Mock };
+    let push: (price: PriceData) => void;
+
+    beforeEach(() => {
+      channels = [`prices:8453:${USDC}`, `prices:8453:${NATIVE}`];
+      stream = {
+        streamsToken: vi.fn(async (address: string) => address === NATIVE),
+        // Stays open until aborted
+        streamPrices: vi.fn((tokens: unknown, onPrice: typeof push, signal: AbortSignal) => {
+          push = onPrice;
+          return new Promise((_, reject) => {
+            signal.addEventListener('abort', () => reject(new Error('aborted')));
+          });
+        }),
+      };
+    });
+
+    it('should emit streamed prices on the next tick instead of polling them', async () => {
+      const streamer = createStreamer({ stream });
+
+      expect(await streamer.tick(0)).toBe(1);
+      expect(stream.streamPrices).toHaveBeenCalledWith(
+        [{ address: '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE', chainId: 'base' }],
+        expect.any(Function),
+        expect.any(AbortSignal)
+      );
+      expect(emit.mock.calls.map(([, address]) => address)).toEqual([USDC]);
+
+      push(price(NATIVE, 2600));
+      expect(emit).toHaveBeenCalledTimes(1);
+
+      expect(await streamer.tick(1_000)).toBe(1);
+      expect(emit).toHaveBeenCalledTimes(2);
+      expect(emit).toHaveBeenLastCalledWith(
+        8453,
+        NATIVE,
+        expect.objectContaining({ priceUsd: '2600', priceNative: '1' })
+      );
+
+      // Polling leaves the streamed channel alone
+      await streamer.tick(10_000);
+      expect(oracle.getPrices).toHaveBeenLastCalledWith([
+        { address: USDC, chainId: 'base' },
+        { address: '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE', chainId: 'base' },
+      ]);
+      streamer.stop();
+    });
+
+    it('should coalesce streamed prices and emit them under the message budget', async () => {
+      channels = [`prices:8453:${NATIVE}`, `prices:base:${NATIVE}`];
+      emit.mockReturnValue(3);
+      const streamer = createStreamer({ stream, maxMessagesPerTick: 2 });
+      await streamer.tick(0);
+
+      push(price(NATIVE, 2600));
+      push(price(NATIVE, 2610));
+      push(price(NATIVE, 2620));
+
+      expect(await streamer.tick(1_000)).toBe(1);
+      // The deferred channel still gets the latest price next tick
+      expect(await streamer.tick(2_000)).toBe(1);
+      expect(await streamer.tick(3_000)).toBe(0);
+      expect(emit.mock.calls.map(([chainId, , update]) => [chainId, update.priceUsd])).toEqual([
+        [8453, '2620'],
+        ['base', '2620'],
+      ]);
+      expect(oracle.getPrices).not.toHaveBeenCalled();
+      streamer.stop();
+    });
+
+    it('should poll streamed channels while the stream is down, then reopen it', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      stream.streamPrices.mockRejectedValue(new Error('connection reset'));
+      const streamer = createStreamer({ stream, streamRetryMs: 5_000 });
+
+      await streamer.tick(0);
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(await streamer.tick(1_000)).toBe(1);
+      expect(emit.mock.calls.at(-1)![1]).toBe(NATIVE);
+      expect(stream.streamPrices).toHaveBeenCalledTimes(1);
+
+      await streamer.tick(6_000);
+      expect(stream.streamPrices).toHaveBeenCalledTimes(2);
+    });
+
+    it('should reopen the stream when its channels change', async () => {
+      const streamer = createStreamer({ stream });
+      await streamer.tick(0);
+      const [, , signal] = stream.streamPrices.mock.calls[0]!;
+
+      channels = [`prices:8453:${USDC}`];
+      await streamer.tick(1_000);
+
+      expect(signal.aborted).toBe(true);
+      expect(stream.streamPrices).toHaveBeenCalledTimes(1);
+    });
+  });
+});
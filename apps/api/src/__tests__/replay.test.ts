@@ -0,0 +1,114 @@
+import { describe, it, expect, vi } from 'vitest';
+import { MemoryCacheStore } from '@chainhopper/core/cache';
+import { ReplayBuffer, SequenceCounter, type BufferedMessage } from '../ws/replay.js';
+
+function message(seq: number): BufferedMessage['message'] {
+  return {
+    type: 'trade:confirmed',
+    payload: { tradeId: `trade_${seq}` },
+    timestamp: new Date(seq * 1000).toISOString(),
+    seq,
+  };
+}
+
+function fill(buffer: ReplayBuffer, userId: string, from: number, to: number, now = 0) {
+  for (let seq = from; seq <= to; seq++) {
+    buffer.record(userId, message(seq), undefined, now);
+  }
+}
+
+describe('ReplayBuffer', () => {
+  it('should return the messages after the last seen sequence', () => {
+    const buffer = new ReplayBuffer();
+    fill(buffer, 'user_1', 1, 5);
+
+    const missed = buffer.since('user_1', 2, 5, 0);
+
+    expect(missed!.map((entry) => entry.message.seq)).toEqual([3, 4, 5]);
+  });
+
+  it('should return messages in sequence order when they arrived out of order', () => {
+    const buffer = new ReplayBuffer();
+    for (const seq of [1, 2, 4, 3, 5]) {
+      buffer.record('user_1', message(seq), undefined, 0);
+    }
+
+    const missed = buffer.since('user_1', 2, 5, 0);
+
+    expect(missed!.map((entry) => entry.message.seq)).toEqual([3, 4, 5]);
+  });
+
+  it('should return nothing when the client is up to date', () => {
+    const buffer = new ReplayBuffer();
+
+    expect(buffer.since('user_1', 5, 5)).toEqual([]);
+  });
+
+  it('should report a gap once missed messages are evicted', () => {
+    const buffer = new ReplayBuffer({ maxEventsPerUser: 3 });
+    fill(buffer, 'user_1', 1, 6);
+
+    expect(buffer.since('user_1', 2, 6, 0)).toBeNull();
+    expect(buffer.since('user_1', 3, 6, 0)).toHaveLength(3);
+  });
+
+  it('should report a gap left by an event that was never delivered', () => {
+    const buffer = new ReplayBuffer();
+    // 4 claimed its number but failed to publish; 6 is still in flight
+    for (const seq of [1, 2, 3, 5]) {
+      buffer.record('user_1', message(seq), undefined, 0);
+    }
+
+    expect(buffer.since('user_1', 2, 5, 0)).toBeNull();
+    expect(buffer.since('user_1', 4, 6, 0)).toBeNull();
+    expect(buffer.since('user_1', 1, 3, 0)!.map((entry) => entry.message.seq)).toEqual([2, 3]);
+  });
+
+  it('should drop messages older than the replay window', () => {
+    const buffer = new ReplayBuffer({ maxAgeMs: 60_000 });
+    fill(buffer, 'user_1', 1, 2, 0);
+    fill(buffer, 'user_1', 3, 3, 50_000);
+
+    expect(buffer.since('user_1', 0, 3, 70_000)).toBeNull();
+    expect(buffer.since('user_1', 2, 3, 70_000)).toHaveLength(1);
+  });
+
+  it('should report a gap when the client is ahead of the counter', () => {
+    const buffer = new ReplayBuffer();
+    fill(buffer, 'user_1', 1, 3);
+
+    expect(buffer.since('user_1', 7, 3, 0)).toBeNull();
+  });
+
+  it('should drop the least recently active users first', () => {
+    const buffer = new ReplayBuffer({ maxUsers: 2 });
+    fill(buffer, 'user_1', 1, 1);
+    fill(buffer, 'user_2', 1, 1);
+    fill(buffer, 'user_1', 2, 2);
+    fill(buffer, 'user_3', 1, 1);
+
+    expect(buffer.userCount).toBe(2);
+    expect(buffer.since('user_2', 0, 1, 0)).toBeNull();
+    expect(buffer.since('user_1', 0, 2, 0)).toHaveLength(2);
+  });
+});
+
+describe('SequenceCounter', () => {
+  it('should count per user from 1', async () => {
+    const counter = new SequenceCounter(new MemoryCacheStore());
+
+    expect(await counter.current('user_1')).toBe(0);
+    expect(await counter.next('user_1')).toBe(1);
+    expect(await counter.next('user_1')).toBe(2);
+    expect(await counter.next('user_2')).toBe(1);
+    expect(await counter.current('user_1')).toBe(2);
+  });
+
+  it('should leave events unsequenced when the store fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const store = new MemoryCacheStore();
+    vi.spyOn(store, 'increment').mockRejectedValue(new Error('connection lost'));
+
+    expect(await new SequenceCounter(store).next('user_1')).toBeUndefined();
+  });
+});
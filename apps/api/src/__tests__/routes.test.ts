@@ -1,5 +1,5 @@
 // @ts-nocheck
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { Hono } from 'hono';
 
 // Mock the ws module
@@ -11,9 +11,17 @@ vi.mock('../ws/index.js', () => ({
   }),
 }));
 
+vi.mock('@chainhopper/core/prisma', () => ({ prisma: {} }));
+
+vi.mock('@chainhopper/core/oracle', () => ({
+  createPriceOracle: () => ({ getPrices: async () => new Map() }),
+  PrismaPriceHistory: vi.fn(),
+}));
+
 // Import after mocking
 import { healthRoutes } from '../routes/health.js';
 import { authRoutes } from '../routes/auth.js';
+import { adapterRegistry } from '../services/adapter-registry.js';
 
 describe('Health Routes', () => {
   const app = new Hono().route('/', healthRoutes);
@@ -52,6 +60,105 @@ describe('Health Routes', () => {
       const body = await res.json();
       expect(body.ready).toBe(true);
     });
+
+    describe('with chain adapters', () => {
+      function createAdapter(chainId, isHealthy) {
+        return {
+          chainId,
+          config: { id: chainId, isEnabled: true },
+          shutdown: vi.fn(),
+          healthCheck: vi.fn().mockResolvedValue({
+            chainId,
+            isHealthy,
+            blockNumber: 100n,
+            latency: 40,
+            lastUpdated: new Date(),
+            rpcUrl: `https://${chainId}.example`,
+            endpoints: [
+              {
+                url: `https://${chainId}.example`,
+                isHealthy,
+                isQuarantined: !isHealthy,
+                latency: 40,
+                errorRate: isHealthy ? 0 : 0.7,
+                blockNumber: 100n,
+                blockLag: 0,
+              },
+            ],
+          }),
+        };
+      }
+
+      afterEach(async () => {
+        await adapterRegistry.shutdown();
+      });
+
+      it('should report RPC endpoint state per chain', async () => {
+        adapterRegistry.register(createAdapter('base', true));
+        adapterRegistry.register(createAdapter('arbitrum', false));
+
+        const res = await app.request('/ready');
+        expect(res.status).toBe(200);
+
+        const body = await res.json();
+        expect(body.chains).toHaveLength(2);
+        expect(body.chains[0]).toMatchObject({
+          chainId: 'base',
+          isHealthy: true,
+          blockNumber: '100',
+        });
+        expect(body.chains[1].endpoints[0]).toMatchObject({ isQuarantined: true, errorRate: 0.7 });
+      });
+
+      it('should not expose RPC URLs or errors', async () => {
+        const adapter = createAdapter('base', false);
+        adapter.healthCheck.mockResolvedValue({
+          ...(await adapter.healthCheck()),
+          endpoints: [
+            {
+              url: 'https://base.example/v2/secret-key',
+              isHealthy: false,
+              isQuarantined: true,
+              latency: 40,
+              errorRate: 1,
+              blockNumber: 0n,
+              blockLag: 0,
+              lastError: 'connect ECONNREFUSED 10.0.0.4:8545',
+            },
+          ],
+        });
+        adapterRegistry.register(adapter);
+
+        const text = await (await app.request('/ready')).text();
+
+        expect(text).not.toContain('secret-key');
+        expect(text).not.toContain('ECONNREFUSED');
+      });
+
+      it('should serve the cached health instead of probing each request', async () => {
+        const adapter = createAdapter('base', true);
+        adapterRegistry.register(adapter);
+
+        await app.request('/ready');
+        await app.request('/ready');
+        expect(adapter.healthCheck).toHaveBeenCalledTimes(1);
+
+        await adapterRegistry.healthCheck();
+        await app.request('/ready');
+        expect(adapter.healthCheck).toHaveBeenCalledTimes(2);
+      });
+
+      it('should return 503 when no chain is reachable', async () => {
+        adapterRegistry.register(createAdapter('base', false));
+
+        const res = await app.request('/ready');
+        expect(res.status).toBe(503);
+
+        const body = await res.json();
+        expect(body.ready).toBe(false);
+        expect(body.reason).toBeDefined();
+      });
+    });
   });
 
   describe('GET /live', () => {
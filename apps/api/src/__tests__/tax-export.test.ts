@@ -0,0 +1,380 @@
+import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest';
+
+vi.mock('@chainhopper/core/prisma', () => ({ prisma: {} }));
+
+// Import after mocking
+import { TaxExportService } from '../services/tax-export.js';
+
+const ETH = 10n ** 18n;
+
+const WETH = {
+  address: '0x4200000000000000000000000000000000000006',
+  chainId: 'BASE',
+  symbol: 'WETH',
+  name: 'Wrapped Ether',
+  decimals: 18,
+  logoUri: null,
+};
+
+const USDC = {
+  address: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+  chainId: 'BASE',
+  symbol: 'USDC',
+  name: 'USD Coin',
+  decimals: 6,
+  logoUri: null,
+};
+
+function sell(overrides = {}) {
+  return {
+    id: 'swap_sell',
+    chainId: 'BASE',
+    status: 'CONFIRMED',
+    txHash: '0xsell',
+    tokenIn: WETH,
+    tokenOut: USDC,
+    amountIn: (ETH + ETH / 2n).toString(),
+    amountOut: '4500000000',
+    amountInUsd: 4500,
+    amountOutUsd: 4500,
+    networkFee: '210000000000000',
+    networkFeeUsd: 0.63,
+    createdAt: new Date('2025-03-01T10:00:00Z'),
+    executedAt: new Date('2025-03-01T10:00:00Z'),
+    confirmedAt: new Date('2025-03-01T10:00:05Z'),
+    lotDisposals: [
+      {
+        amount: ETH.toString(),
+        costBasis: 2000,
+        proceeds: 3000,
+        realizedPnl: 1000,
+        disposedAt: new Date('2025-03-01T10:00:05Z'),
+        lot: { openedAt: new Date('2023-12-01T00:00:00Z') },
+      },
+      {
+        amount: (ETH / 2n).toString(),
+        costBasis: 1750,
+        proceeds: 1500,
+        realizedPnl: -250,
+        disposedAt: new Date('2025-03-01T10:00:05Z'),
+        lot: { openedAt: new Date('2025-02-01T00:00:00Z') },
+      },
+    ],
+    feeCalculations: [{ feeAmount: '112500000', feeAmountUsd: 112.5 }],
+    ...overrides,
+  };
+}
+
+function buy(overrides = {}) {
+  return sell({
+    id: 'swap_buy',
+    txHash: '0xbuy',
+    tokenIn: USDC,
+    tokenOut: WETH,
+    amountIn: '3500000000',
+    amountOut: ETH.toString(),
+    amountInUsd: 3500,
+    amountOutUsd: 3500,
+    confirmedAt: new Date('2025-02-01T00:00:00Z'),
+    lotDisposals: [],
+    feeCalculations: [],
+    ...overrides,
+  });
+}
+
+function rows(content: string) {
+  return content
+    .trim()
+    .split('\n')
+    .map((line) => line.split(','));
+}
+
+describe('TaxExportService', () => {
+  let db: { swapTransaction: { findMany: Mock } };
+  let registry: { get: Mock };
+  let service: TaxExportService;
+
+  beforeEach(() => {
+    db = { swapTransaction: { findMany: vi.fn().mockResolvedValue([sell(), buy()]) } };
+    registry = {
+      get: vi.fn(() => ({
+        config: { nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 } },
+      })),
+    };
+    service = new TaxExportService(db as any, registry as any);
+  });
+
+  it('should load swaps settled in the calendar year', async () => {
+    await service.export('user_1', 2025, 'csv');
+
+    const { where } = db.swapTransaction.findMany.mock.calls[0]![0];
+    const range = { gte: new Date('2025-01-01T00:00:00Z'), lt: new Date('2026-01-01T00:00:00Z') };
+    expect(where.userId).toBe('user_1');
+    expect(where.OR).toEqual([
+      { status: 'CONFIRMED', confirmedAt: range },
+      { status: 'FAILED', networkFee: { not: null }, executedAt: range },
+    ]);
+  });
+
+  it('should report each lot disposal with its holding period, then the fees', async () => {
+    const { filename, content } = await service.export('user_1', 2025, 'csv');
+
+    expect(filename).toBe('chainhopper-2025-csv.csv');
+    expect(rows(content)).toEqual([
+      [
+        'Date',
+        'Type',
+        'Chain',
+        'Asset',
+        'Amount',
+        'Date Acquired',
+        'Cost Basis (USD)',
+        'Proceeds (USD)',
+        'Gain (USD)',
+        'Holding Period',
+        'Fee (USD)',
+        'Tx Hash',
+      ],
+      [
+        '2025-02-01T00:00:00.000Z',
+        'Disposal',
+        'base',
+        'USDC',
+        '3500',
+        '',
+        '',
+        '3500.00',
+        '',
+        'unknown',
+        '',
+        '0xbuy',
+      ],
+      [
+        '2025-02-01T00:00:00.000Z',
+        'Network Fee',
+        'base',
+        'ETH',
+        '0.00021',
+        '',
+        '',
+        '',
+        '',
+        '',
+        '0.63',
+        '0xbuy',
+      ],
+      [
+        '2025-03-01T10:00:05.000Z',
+        'Disposal',
+        'base',
+        'WETH',
+        '1',
+        '2023-12-01T00:00:00.000Z',
+        '2000.00',
+        '3000.00',
+        '1000.00',
+        'long',
+        '',
+        '0xsell',
+      ],
+      [
+        '2025-03-01T10:00:05.000Z',
+        'Disposal',
+        'base',
+        'WETH',
+        '0.5',
+        '2025-02-01T00:00:00.000Z',
+        '1750.00',
+        '1500.00',
+        '-250.00',
+        'short',
+        '',
+        '0xsell',
+      ],
+      [
+        '2025-03-01T10:00:05.000Z',
+        'Profit Share Fee',
+        'base',
+        'USDC',
+        '112.5',
+        '',
+        '',
+        '',
+        '',
+        '',
+        '112.50',
+        '0xsell',
+      ],
+      [
+        '2025-03-01T10:00:05.000Z',
+        'Network Fee',
+        'base',
+        'ETH',
+        '0.00021',
+        '',
+        '',
+        '',
+        '',
+        '',
+        '0.63',
+        '0xsell',
+      ],
+    ]);
+  });
+
+  it('should report the part of a sell that no tracked lot covers', async () => {
+    const [, lot] = sell().lotDisposals;
+    db.swapTransaction.findMany.mockResolvedValue([sell({ lotDisposals: [lot] })]);
+
+    const { content } = await service.export('user_1', 2025, 'csv');
+
+    expect(rows(content).filter(([, type]) => type === 'Disposal')).toEqual([
+      [
+        '2025-03-01T10:00:05.000Z',
+        'Disposal',
+        'base',
+        'WETH',
+        '0.5',
+        '2025-02-01T00:00:00.000Z',
+        '1750.00',
+        '1500.00',
+        '-250.00',
+        'short',
+        '',
+        '0xsell',
+      ],
+      [
+        '2025-03-01T10:00:05.000Z',
+        'Disposal',
+        'base',
+        'WETH',
+        '1',
+        '',
+        '',
+        '3000.00',
+        '',
+        'unknown',
+        '',
+        '0xsell',
+      ],
+    ]);
+  });
+
+  it('should write Koinly trades with gas as the fee and the profit share as a cost', async () => {
+    const { content } = await service.export('user_1', 2025, 'koinly');
+
+    const [header, buyRow, sellRow, profitShareRow] = rows(content);
+    expect(header).toEqual([
+      'Date',
+      'Sent Amount',
+      'Sent Currency',
+      'Received Amount',
+      'Received Currency',
+      'Fee Amount',
+      'Fee Currency',
+      'Net Worth Amount',
+      'Net Worth Currency',
+      'Label',
+      'Description',
+      'TxHash',
+    ]);
+    expect(buyRow!.slice(0, 7)).toEqual([
+      '2025-02-01 00:00:00 UTC',
+      '3500',
+      'USDC',
+      '1',
+      'WETH',
+      '0.00021',
+      'ETH',
+    ]);
+    expect(sellRow!.slice(0, 5)).toEqual([
+      '2025-03-01 10:00:05 UTC',
+      '1.5',
+      'WETH',
+      '4500',
+      'USDC',
+    ]);
+    expect(profitShareRow).toEqual([
+      '2025-03-01 10:00:05 UTC',
+      '112.5',
+      'USDC',
+      '',
+      '',
+      '',
+      '',
+      '112.50',
+      'USD',
+      'cost',
+      'ChainHopper profit share',
+      '0xsell',
+    ]);
+  });
+
+  it('should write CoinTracker trades with fee-only lines for the profit share', async () => {
+    const { content } = await service.export('user_1', 2025, 'cointracker');
+
+    expect(rows(content)).toEqual([
+      [
+        'Date',
+        'Received Quantity',
+        'Received Currency',
+        'Sent Quantity',
+        'Sent Currency',
+        'Fee Amount',
+        'Fee Currency',
+        'Tag',
+      ],
+      ['02/01/2025 00:00:00', '1', 'WETH', '3500', 'USDC', '0.00021', 'ETH', ''],
+      ['03/01/2025 10:00:05', '4500', 'USDC', '1.5', 'WETH', '0.00021', 'ETH', ''],
+      ['03/01/2025 10:00:05', '', '', '', '', '112.5', 'USDC', ''],
+    ]);
+  });
+
+  it('should export only the network fee of a reverted swap', async () => {
+    db.swapTransaction.findMany.mockResolvedValue([
+      buy({ status: 'FAILED', confirmedAt: null, executedAt: new Date('2025-04-01T00:00:00Z') }),
+    ]);
+
+    const koinly = rows((await service.export('user_1', 2025, 'koinly')).content);
+    const cointracker = rows((await service.export('user_1', 2025, 'cointracker')).content);
+
+    expect(koinly.slice(1)).toEqual([
+      [
+        '2025-04-01 00:00:00 UTC',
+        '0.00021',
+        'ETH',
+        '',
+        '',
+        '',
+        '',
+        '0.63',
+        'USD',
+        'cost',
+        'Network fee for reverted swap',
+        '0xbuy',
+      ],
+    ]);
+    expect(cointracker.slice(1)).toEqual([
+      ['04/01/2025 00:00:00', '', '', '', '', '0.00021', 'ETH', ''],
+    ]);
+  });
+
+  it('should fall back to the USD value of gas on chains without a known native currency', async () => {
+    registry.get.mockReturnValue(undefined);
+    db.swapTransaction.findMany.mockResolvedValue([buy()]);
+
+    const { content } = await service.export('user_1', 2025, 'cointracker');
+
+    expect(rows(content)[1]!.slice(5, 7)).toEqual(['0.63', 'USD']);
+  });
+
+  it('should keep token symbols from being read as spreadsheet formulas', async () => {
+    db.swapTransaction.findMany.mockResolvedValue([
+      buy({ tokenOut: { ...WETH, symbol: '=HYPERLINK("x")' } }),
+    ]);
+
+    const { content } = await service.export('user_1', 2025, 'koinly');
+
+    expect(content.split('\n')[1]).toContain(`"'=HYPERLINK(""x"")"`);
+  });
+});
@@ -0,0 +1,798 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Hono } from 'hono';
+import type { ApiKeyScope } from '@chainhopper/core/auth';
+
+// Mock the Prisma client so the swap repository can be exercised without a database
+const db = vi.hoisted(() => {
+  // Quotes are written and read back within a request flow, so they get a working table
+  const quotes = new Map();
+  return {
+    quote: {
+      create: vi.fn(async ({ data }) => {
+        quotes.set(data.id, { ...data });
+        return data;
+      }),
+      findUnique: vi.fn(async ({ where }) => quotes.get(where.id) ?? null),
+      update: vi.fn(async ({ where, data }) => {
+        const record = { ...quotes.get(where.id), ...data };
+        quotes.set(where.id, record);
+        return record;
+      }),
+      deleteMany: vi.fn(async ({ where }) => {
+        const count = where?.id ? Number(quotes.delete(where.id)) : quotes.size;
+        if (!where?.id) quotes.clear();
+        return { count };
+      }),
+    },
+    wallet: { upsert: vi.fn() },
+    token: { upsert: vi.fn() },
+    swapTransaction: {
+      create: vi.fn(),
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      count: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    $transaction: vi.fn((queries) => Promise.all(queries)),
+  };
+});
+
+vi.mock('@chainhopper/core/prisma', () => ({ prisma: db }));
+
+const prices = vi.hoisted(() => ({ getPrices: vi.fn() }));
+
+vi.mock('@chainhopper/core/oracle', () => ({
+  createPriceOracle: () => prices,
+  PrismaPriceHistory: vi.fn(),
+}));
+
+// Import after mocking
+import { tradingRoutes } from '../routes/trading.js';
+import { QuoteStore, quoteStore, type StoredQuote } from '../services/quote-store.js';
+import { MemoryCacheStore } from '@chainhopper/core/cache';
+import { ChainAdapterRegistry, adapterRegistry } from '../services/adapter-registry.js';
+import { SwapRepository, toDbDexAggregator } from '../services/swap-repository.js';
+
+function createAdapter(chainId = 'base', overrides = {}) {
+  return {
+    chainId,
+    config: { id: chainId, isEnabled: true },
+    initialize: vi.fn().mockResolvedValue(undefined),
+    shutdown: vi.fn().mockResolvedValue(undefined),
+    isValidAddress: vi.fn().mockReturnValue(true),
+    getQuote: vi.fn(async (request) => ({
+      id: `quote_${Math.random().toString(36).slice(2, 10)}`,
+      chainId: request.chainId,
+      tokenIn: {
+        address: request.tokenIn,
+        chainId: request.chainId,
+        symbol: 'ETH',
+        name: 'Ethereum',
+        decimals: 18,
+        isNative: true,
+        isVerified: true,
+      },
+      tokenOut: {
+        address: request.tokenOut,
+        chainId: request.chainId,
+        symbol: 'USDC',
+        name: 'USD Coin',
+        decimals: 6,
+        isNative: false,
+        isVerified: true,
+      },
+      amountIn: request.amountIn,
+      amountOut: 3250000000n,
+      amountOutMin: 3233750000n,
+      priceImpact: 0.15,
+      route: [],
+      estimatedGas: 150000n,
+      gasPrice: 30000000000n,
+      fee: {
+        totalFeeUsd: 2.5,
+        protocolFee: 0n,
+        protocolFeeUsd: 0,
+        networkFee: 4500000000000000n,
+        networkFeeUsd: 2.5,
+      },
+      expiresAt: new Date(Date.now() + 60000),
+      dexAggregator: '1inch',
+    })),
+    buildSwapTransaction: vi.fn(async (quote) => ({
+      chainId: quote.chainId,
+      to: '0x1111111254fb6c44bAC0beD2854e76F90643097d',
+      data: '0x12aa3caf',
+      value: quote.amountIn,
+      gasLimit: 200000n,
+    })),
+    ...overrides,
+  };
+}
+
+function createApp(userId?: string, apiKeyScope?: ApiKeyScope) {
+  return new Hono()
+    .use('*', async (c, next) => {
+      if (userId) c.set('userId', userId);
+      if (apiKeyScope) c.set('apiKeyScope', apiKeyScope);
+      await next();
+    })
+    .route('/', tradingRoutes);
+}
+
+function swapRecord(overrides = {}) {
+  return {
+    id: 'swap_1',
+    quoteId: 'quote_1',
+    status: 'SUBMITTED',
+    txHash: '0xhash',
+    chainId: 'BASE',
+    tokenIn: {
+      address: '0xin',
+      chainId: 'BASE',
+      symbol: 'ETH',
+      name: 'Ethereum',
+      decimals: 18,
+      logoUri: null,
+    },
+    tokenOut: {
+      address: '0xout',
+      chainId: 'BASE',
+      symbol: 'USDC',
+      name: 'USD Coin',
+      decimals: 6,
+      logoUri: null,
+    },
+    amountIn: '1000000000000000000',
+    amountOut: '3250000000',
+    protocolFee: '0',
+    protocolFeeUsd: '0',
+    networkFeeUsd: '2.5',
+    estimatedGas: '150000',
+    actualGas: null,
+    gasPrice: '30000000000',
+    createdAt: new Date('2025-01-14T12:00:00Z'),
+    executedAt: new Date('2025-01-14T12:00:05Z'),
+    confirmedAt: null,
+    ...overrides,
+  };
+}
+
+const quoteQuery =
+  '/quote?chainId=base&tokenIn=0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE&tokenOut=0xout&amountIn=1000000000000000000';
+
+async function requestQuote(app: ReturnType<typeof createApp>) {
+  const res = await app.request(quoteQuery);
+  return (await res.json()) as StoredQuote;
+}
+
+async function buildQuoteFor(
+  app: ReturnType<typeof createApp>,
+  quoteId: string,
+  recipient: string
+) {
+  return app.request('/swap/build', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ quoteId, recipient }),
+  });
+}
+
+function buildQuote(app: ReturnType<typeof createApp>, quoteId: string) {
+  return buildQuoteFor(app, quoteId, '0xrecipient');
+}
+
+describe('QuoteStore', () => {
+  it('should save and retrieve quotes', async () => {
+    const store = new QuoteStore(new MemoryCacheStore());
+    const quote = {
+      id: 'quote_a',
+      chainId: 'base',
+      expiresAt: new Date(Date.now() + 60000).toISOString(),
+    } as StoredQuote;
+
+    await store.save(quote);
+
+    expect(await store.get('quote_a')).toEqual(quote);
+    expect(store.isExpired(quote)).toBe(false);
+  });
+
+  it('should report expired quotes', () => {
+    const store = new QuoteStore(new MemoryCacheStore());
+    const quote = {
+      id: 'quote_b',
+      chainId: 'base',
+      expiresAt: new Date(Date.now() - 1000).toISOString(),
+    } as StoredQuote;
+
+    expect(store.isExpired(quote)).toBe(true);
+  });
+
+  it('should persist quotes through Prisma', async () => {
+    const store = new QuoteStore(new MemoryCacheStore());
+    const quote = {
+      id: 'quote_d',
+      chainId: 'base',
+      expiresAt: new Date(Date.now() + 60000).toISOString(),
+      swapQuote: { amountIn: 10n ** 18n, expiresAt: new Date('2025-01-14T12:00:00Z') },
+    } as StoredQuote;
+
+    await store.save(quote);
+    await store.update('quote_d', { userId: 'user_1', recipient: '0xrecipient' });
+
+    expect(db.quote.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ id: 'quote_d', chainId: 'BASE' }),
+    });
+    expect(db.quote.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { id: 'quote_d' },
+        data: expect.objectContaining({ userId: 'user_1' }),
+      })
+    );
+    // A store with an empty cache, as on another replica after the quote left the cache
+    expect(await new QuoteStore(new MemoryCacheStore()).get('quote_d')).toEqual({
+      ...quote,
+      userId: 'user_1',
+      recipient: '0xrecipient',
+    });
+  });
+
+  it('should only cache quotes within the retention window', async () => {
+    const cache = new MemoryCacheStore();
+    const store = new QuoteStore(cache);
+    await store.save({
+      id: 'old',
+      chainId: 'base',
+      expiresAt: new Date(Date.now() - 60 * 60 * 1000).toISOString(),
+    } as StoredQuote);
+    await store.save({
+      id: 'recent',
+      chainId: 'base',
+      expiresAt: new Date(Date.now() - 1000).toISOString(),
+    } as StoredQuote);
+
+    expect(await cache.get('quote:old')).toBeNull();
+    expect(await cache.get('quote:recent')).not.toBeNull();
+    expect(await store.get('old')).toBeDefined();
+  });
+
+  it('should prune unbuilt quotes on expiry and built ones after the submit window', async () => {
+    const now = new Date('2025-03-01T12:00:00Z');
+    db.quote.deleteMany.mockResolvedValueOnce({ count: 3 });
+    const store = new QuoteStore(new MemoryCacheStore(), db, 60_000);
+
+    expect(await store.prune(now.getTime())).toBe(3);
+    expect(db.quote.deleteMany).toHaveBeenCalledWith({
+      where: {
+        OR: [
+          { userId: null, expiresAt: { lt: now } },
+          { expiresAt: { lt: new Date(now.getTime() - 24 * 60 * 60 * 1000) } },
+        ],
+      },
+    });
+
+    vi.useFakeTimers();
+    const prune = vi.spyOn(store, 'prune').mockResolvedValue(0);
+    store.start();
+    await vi.advanceTimersByTimeAsync(120_000);
+    store.stop();
+    await vi.advanceTimersByTimeAsync(60_000);
+    vi.useRealTimers();
+
+    expect(prune).toHaveBeenCalledTimes(2);
+  });
+
+  it('should share quotes between stores on the same cache', async () => {
+    const cache = new MemoryCacheStore();
+    const quote = {
+      id: 'quote_c',
+      chainId: 'base',
+      expiresAt: new Date(Date.now() + 60000).toISOString(),
+    } as StoredQuote;
+
+    await new QuoteStore(cache).save(quote);
+    await new QuoteStore(cache).update('quote_c', { recipient: '0xrecipient' });
+
+    expect(await new QuoteStore(cache).get('quote_c')).toEqual({
+      ...quote,
+      recipient: '0xrecipient',
+    });
+    expect(await cache.ttl('quote:quote_c')).toBeGreaterThan(60000);
+  });
+});
+
+describe('SwapRepository', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should poll never-checked swaps first, then the least recently checked', async () => {
+    db.swapTransaction.findMany.mockResolvedValue([
+      swapRecord({
+        userId: 'user_1',
+        amountOutMin: '3233750000',
+        wallet: { address: '0xrecipient' },
+      }),
+    ]);
+
+    const swaps = await new SwapRepository(db).findActive(50);
+
+    expect(swaps[0]).toMatchObject({ id: 'swap_1', userId: 'user_1', recipient: '0xrecipient' });
+    expect(db.swapTransaction.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        orderBy: [{ lastCheckedAt: { sort: 'asc', nulls: 'first' } }, { createdAt: 'asc' }],
+        take: 50,
+      })
+    );
+  });
+
+  it('should find confirmed swaps that recorded no lots', async () => {
+    db.swapTransaction.findMany.mockResolvedValue([{ id: 'swap_1' }]);
+    const from = new Date('2025-01-14T11:00:00Z');
+    const to = new Date('2025-01-14T12:00:00Z');
+
+    expect(await new SwapRepository(db).findUnrecorded(from, to, 20)).toEqual(['swap_1']);
+    expect(db.swapTransaction.findMany).toHaveBeenCalledWith({
+      where: {
+        status: 'CONFIRMED',
+        confirmedAt: { gte: from, lt: to },
+        lots: { none: {} },
+        lotDisposals: { none: {} },
+      },
+      select: { id: true },
+      orderBy: { confirmedAt: 'asc' },
+      take: 20,
+    });
+  });
+
+  it('should stamp checked swaps', async () => {
+    const repository = new SwapRepository(db);
+    const checkedAt = new Date('2025-01-14T12:00:00Z');
+
+    await repository.markChecked([], checkedAt);
+    await repository.markChecked(['swap_1', 'swap_2'], checkedAt);
+
+    expect(db.swapTransaction.updateMany).toHaveBeenCalledTimes(1);
+    expect(db.swapTransaction.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['swap_1', 'swap_2'] } },
+      data: { lastCheckedAt: checkedAt },
+    });
+  });
+
+  it('should only settle a swap that is still active', async () => {
+    const repository = new SwapRepository(db);
+    db.swapTransaction.updateMany.mockResolvedValueOnce({ count: 1 });
+    db.swapTransaction.updateMany.mockResolvedValueOnce({ count: 0 });
+
+    expect(await repository.updateStatus('swap_1', 'confirmed', { amountOut: 5n })).toBe(true);
+    expect(await repository.updateStatus('swap_1', 'failed')).toBe(false);
+
+    expect(db.swapTransaction.updateMany).toHaveBeenNthCalledWith(1, {
+      where: { id: 'swap_1', status: { in: ['SUBMITTED', 'CONFIRMING'] } },
+      data: { status: 'CONFIRMED', amountOut: '5' },
+    });
+  });
+
+  it('should only move submitted swaps to confirming', async () => {
+    db.swapTransaction.updateMany.mockResolvedValue({ count: 1 });
+
+    await new SwapRepository(db).updateStatus('swap_1', 'confirming');
+
+    expect(db.swapTransaction.updateMany).toHaveBeenCalledWith({
+      where: { id: 'swap_1', status: { in: ['SUBMITTED'] } },
+      data: { status: 'CONFIRMING' },
+    });
+  });
+
+  it('should store native EVM DEX quotes as NATIVE_DEX whatever their label', () => {
+    expect(toDbDexAggregator('1inch', '1inch')).toBe('ONE_INCH');
+    expect(toDbDexAggregator('mute', 'zksync')).toBe('NATIVE_DEX');
+    expect(toDbDexAggregator('1inch', 'soneium')).toBe('NATIVE_DEX');
+    expect(toDbDexAggregator('dragonswap', 'kaia')).toBe('DRAGONSWAP');
+    expect(toDbDexAggregator('cetus')).toBe('CETUS');
+    expect(() => toDbDexAggregator('mute')).toThrow('Unsupported DEX aggregator');
+  });
+});
+
+describe('ChainAdapterRegistry', () => {
+  it('should register and look up adapters by chain', () => {
+    const registry = new ChainAdapterRegistry();
+    const adapter = createAdapter('base');
+
+    registry.register(adapter as any);
+
+    expect(registry.get('base')).toBe(adapter);
+    expect(registry.get('ethereum')).toBeUndefined();
+    expect(registry.supports('base')).toBe(true);
+  });
+
+  it('should only return enabled adapters from getEnabled', () => {
+    const registry = new ChainAdapterRegistry();
+    registry.register(createAdapter('base') as any);
+    registry.register(createAdapter('ton', { config: { id: 'ton', isEnabled: false } }) as any);
+
+    expect(registry.getAll()).toHaveLength(2);
+    expect(registry.getEnabled().map((a) => a.chainId)).toEqual(['base']);
+    expect(registry.supports('ton')).toBe(false);
+  });
+
+  it('should keep initializing other chains when one fails', async () => {
+    const registry = new ChainAdapterRegistry();
+    const failing = createAdapter('ton', {
+      initialize: vi.fn().mockRejectedValue(new Error('down')),
+    });
+    const healthy = createAdapter('base');
+    registry.register(failing as any);
+    registry.register(healthy as any);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await registry.initialize();
+
+    expect(healthy.initialize).toHaveBeenCalled();
+    expect(registry.get('ton')).toBe(failing);
+  });
+});
+
+describe('Trading Routes', () => {
+  let adapter: ReturnType<typeof createAdapter>;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    await quoteStore.clear();
+    await adapterRegistry.shutdown();
+    adapter = createAdapter('base');
+    adapterRegistry.register(adapter as any);
+    prices.getPrices.mockResolvedValue(new Map());
+  });
+
+  describe('GET /quote', () => {
+    it('should quote through the adapter for the requested chain', async () => {
+      const quote = await requestQuote(createApp());
+
+      expect(adapter.getQuote).toHaveBeenCalledWith(
+        expect.objectContaining({ chainId: 'base', amountIn: 1000000000000000000n, slippage: 0.5 })
+      );
+      expect(quote.amountOut).toBe('3250000000');
+      expect(quote.swapQuote).toBeUndefined();
+      expect(await quoteStore.get(quote.id)).toBeDefined();
+    });
+
+    it('should serialize the route ranking', async () => {
+      const quoteWithRanking = adapter.getQuote.getMockImplementation();
+      adapter.getQuote.mockImplementationOnce(async (request) => ({
+        ...(await quoteWithRanking!(request)),
+        ranking: [
+          {
+            dexAggregator: '1inch',
+            source: '1inch',
+            amountOut: 3250000000n,
+            estimatedGas: 150000n,
+            gasCost: 2500000n,
+            gasCostUsd: 2.5,
+            netAmountOut: 3247500000n,
+          },
+        ],
+      }));
+
+      const quote = await requestQuote(createApp());
+
+      expect(quote.ranking).toEqual([
+        {
+          dexAggregator: '1inch',
+          source: '1inch',
+          amountOut: '3250000000',
+          estimatedGas: '150000',
+          gasCost: '2500000',
+          gasCostUsd: 2.5,
+          netAmountOut: '3247500000',
+        },
+      ]);
+    });
+
+    it('should value the quote at oracle prices and surface price warnings', async () => {
+      const priceWarning = {
+        code: 'low_liquidity',
+        message: 'Priced from pools with under $50,000 liquidity',
+      };
+      prices.getPrices.mockResolvedValue(
+        new Map([
+          ['base:0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee', { priceUsd: 3000 }],
+          ['base:0xout', { priceUsd: 0.5, metadata: { priceWarning } }],
+        ])
+      );
+
+      const quote = await requestQuote(createApp());
+
+      expect(quote.priceWarning).toEqual(priceWarning);
+      expect(quote.amountInUsd).toBeUndefined();
+      expect(await quoteStore.get(quote.id)).toMatchObject({
+        amountInUsd: 3000,
+        amountOutUsd: 1625,
+      });
+    });
+
+    it('should still quote when the oracle is unavailable', async () => {
+      prices.getPrices.mockRejectedValue(new Error('oracle down'));
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const quote = await requestQuote(createApp());
+
+      expect(quote.amountOut).toBe('3250000000');
+      expect(quote.priceWarning).toBeUndefined();
+      expect((await quoteStore.get(quote.id))!.amountInUsd).toBeUndefined();
+    });
+
+    it('should return CHAIN_NOT_SUPPORTED when no adapter is registered', async () => {
+      const res = await createApp().request(quoteQuery.replace('chainId=base', 'chainId=cosmos'));
+      expect(res.status).toBe(400);
+
+      expect(await res.json()).toMatchObject({ code: 'CHAIN_NOT_SUPPORTED' });
+    });
+
+    it('should reject invalid amounts', async () => {
+      const res = await createApp().request(
+        quoteQuery.replace('amountIn=1000000000000000000', 'amountIn=1.5')
+      );
+      expect(res.status).toBe(400);
+      expect(await res.json()).toMatchObject({ code: 'INVALID_AMOUNT' });
+    });
+
+    it('should return 503 when the adapter cannot quote', async () => {
+      adapter.getQuote.mockRejectedValueOnce(new Error('No quotes available from aggregators'));
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const res = await createApp().request(quoteQuery);
+      expect(res.status).toBe(503);
+      expect(await res.json()).toMatchObject({ code: 'QUOTE_UNAVAILABLE' });
+    });
+
+    it('should refuse quotes from a DEX a swap could not be recorded for', async () => {
+      const quoteFor = adapter.getQuote.getMockImplementation();
+      adapter.getQuote.mockImplementationOnce(async (request) => ({
+        ...(await quoteFor!(request)),
+        dexAggregator: 'unknown-dex',
+      }));
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const res = await createApp().request(quoteQuery);
+      expect(res.status).toBe(503);
+      expect(await res.json()).toMatchObject({ code: 'QUOTE_UNAVAILABLE' });
+      expect(db.quote.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /swap/build', () => {
+    it('should require authentication', async () => {
+      const res = await buildQuote(createApp(), 'quote_missing');
+      expect(res.status).toBe(401);
+    });
+
+    it('should reject unknown quotes', async () => {
+      const res = await buildQuote(createApp('user_1'), 'quote_missing');
+      expect(res.status).toBe(400);
+
+      expect(await res.json()).toMatchObject({ code: 'QUOTE_NOT_FOUND' });
+    });
+
+    it('should reject expired quotes', async () => {
+      const app = createApp('user_1');
+      const quote = await requestQuote(app);
+      await quoteStore.update(quote.id, { expiresAt: new Date(Date.now() - 1000).toISOString() });
+
+      const res = await buildQuote(app, quote.id);
+      expect(res.status).toBe(410);
+    });
+
+    it('should build a transaction from the stored quote', async () => {
+      const app = createApp('user_1');
+      const quote = await requestQuote(app);
+
+      const res = await buildQuote(app, quote.id);
+      expect(res.status).toBe(200);
+
+      expect(await res.json()).toMatchObject({
+        chainId: 'base',
+        value: quote.amountIn,
+        gasLimit: '200000',
+      });
+      expect(adapter.buildSwapTransaction).toHaveBeenCalledTimes(1);
+      expect(adapter.buildSwapTransaction).toHaveBeenCalledWith(
+        expect.objectContaining({ id: quote.id }),
+        '0xrecipient'
+      );
+      expect((await quoteStore.get(quote.id))!.recipient).toBe('0xrecipient');
+    });
+
+    it('should rebuild for a different recipient', async () => {
+      const app = createApp('user_1');
+      const quote = await requestQuote(app);
+
+      await buildQuoteFor(app, quote.id, '0xrecipient');
+      await buildQuoteFor(app, quote.id, '0xrecipient');
+      await buildQuoteFor(app, quote.id, '0xother');
+
+      expect(adapter.buildSwapTransaction).toHaveBeenCalledTimes(2);
+      expect(adapter.buildSwapTransaction).toHaveBeenNthCalledWith(
+        1,
+        expect.anything(),
+        '0xrecipient'
+      );
+      expect(adapter.buildSwapTransaction).toHaveBeenNthCalledWith(2, expect.anything(), '0xother');
+      expect((await quoteStore.get(quote.id))!.recipient).toBe('0xother');
+    });
+
+    it('should refuse trades outside the API key scope', async () => {
+      const scope: ApiKeyScope = {
+        mode: 'trade',
+        chains: ['base'],
+        maxNotionalUsd: null,
+        allowedIps: [],
+      };
+      const build = async (overrides: Partial<ApiKeyScope>) => {
+        const app = createApp('user_1', { ...scope, ...overrides });
+        const res = await buildQuote(app, (await requestQuote(app)).id);
+        return res.status === 200 ? 200 : ((await res.json()) as { code: string }).code;
+      };
+
+      expect(await build({})).toBe(200);
+      expect(await build({ chains: ['arbitrum'] })).toBe('CHAIN_NOT_ALLOWED');
+      expect(await build({ mode: 'read_only' })).toBe('API_KEY_READ_ONLY');
+      // The quote is unpriced, so it can't be shown to be under the limit
+      expect(await build({ maxNotionalUsd: 1000 })).toBe('NOTIONAL_UNKNOWN');
+    });
+  });
+
+  describe('POST /swap/submit', () => {
+    it('should reject quotes that were not built', async () => {
+      const app = createApp('user_1');
+      const quote = await requestQuote(app);
+      db.swapTransaction.findFirst.mockResolvedValue(null);
+
+      const res = await app.request('/swap/submit', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ quoteId: quote.id, txHash: '0xhash' }),
+      });
+
+      expect(res.status).toBe(400);
+      expect(db.swapTransaction.create).not.toHaveBeenCalled();
+    });
+
+    it('should create a swap transaction row', async () => {
+      const app = createApp('user_1');
+      const quote = await requestQuote(app);
+      await buildQuote(app, quote.id);
+
+      db.swapTransaction.findFirst.mockResolvedValue(null);
+      db.wallet.upsert.mockResolvedValue({ id: 'wallet_1' });
+      db.token.upsert
+        .mockResolvedValueOnce({ id: 'token_in' })
+        .mockResolvedValueOnce({ id: 'token_out' });
+      db.swapTransaction.create.mockResolvedValue(swapRecord({ quoteId: quote.id }));
+
+      const res = await app.request('/swap/submit', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ quoteId: quote.id, txHash: '0xhash' }),
+      });
+
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body).toMatchObject({
+        status: 'submitted',
+        chainId: 'base',
+        fee: { networkFee: '4500000000000000' },
+      });
+      expect(body).not.toHaveProperty('amountOut');
+
+      const { data } = db.swapTransaction.create.mock.calls[0]![0];
+      expect(data.userId).toBe('user_1');
+      expect(data.walletId).toBe('wallet_1');
+      expect(data.chainId).toBe('BASE');
+      expect(data.status).toBe('SUBMITTED');
+      expect(data.dexAggregator).toBe('ONE_INCH');
+      expect(data.quoteId).toBe(quote.id);
+    });
+
+    it('should return the existing swap when a quote is submitted twice', async () => {
+      const app = createApp('user_1');
+      db.swapTransaction.findFirst.mockResolvedValue(swapRecord());
+
+      const res = await app.request('/swap/submit', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ quoteId: 'quote_1', txHash: '0xhash' }),
+      });
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toMatchObject({ id: 'swap_1' });
+      expect(db.swapTransaction.create).not.toHaveBeenCalled();
+    });
+
+    it('should return the swap a concurrent submit of the same quote created', async () => {
+      const app = createApp('user_1');
+      const quote = await requestQuote(app);
+      await buildQuote(app, quote.id);
+
+      // Both submits miss the lookup; the unique quoteId lets only one insert
+      db.swapTransaction.findFirst
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(swapRecord({ quoteId: quote.id }));
+      db.wallet.upsert.mockResolvedValue({ id: 'wallet_1' });
+      db.token.upsert.mockResolvedValue({ id: 'token_in' });
+      db.swapTransaction.create.mockRejectedValueOnce(
+        Object.assign(new Error('Unique constraint failed'), { code: 'P2002' })
+      );
+
+      const res = await app.request('/swap/submit', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ quoteId: quote.id, txHash: '0xhash' }),
+      });
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toMatchObject({ id: 'swap_1' });
+      expect(db.swapTransaction.findFirst).toHaveBeenLastCalledWith(
+        expect.objectContaining({ where: { quoteId: quote.id, userId: 'user_1' } })
+      );
+    });
+  });
+
+  describe('GET /swap/{swapId}', () => {
+    it('should return 404 for unknown swaps', async () => {
+      db.swapTransaction.findFirst.mockResolvedValue(null);
+
+      const res = await createApp('user_1').request('/swap/swap_missing');
+      expect(res.status).toBe(404);
+    });
+
+    it('should scope lookups to the authenticated user', async () => {
+      db.swapTransaction.findFirst.mockResolvedValue(
+        swapRecord({ status: 'CONFIRMED', confirmedAt: new Date('2025-01-14T12:01:00Z') })
+      );
+
+      const res = await createApp('user_1').request('/swap/swap_1');
+      expect(res.status).toBe(200);
+
+      expect(await res.json()).toMatchObject({ status: 'confirmed', amountOut: '3250000000' });
+      expect(db.swapTransaction.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: 'swap_1', userId: 'user_1' } })
+      );
+    });
+  });
+
+  describe('GET /swaps', () => {
+    it('should apply filters and pagination', async () => {
+      db.swapTransaction.findMany.mockResolvedValue([swapRecord()]);
+      db.swapTransaction.count.mockResolvedValue(41);
+
+      const res = await createApp('user_1').request(
+        '/swaps?chainId=base&status=submitted&limit=10&offset=20'
+      );
+      expect(res.status).toBe(200);
+
+      expect(await res.json()).toMatchObject({
+        total: 41,
+        limit: 10,
+        offset: 20,
+        swaps: [expect.anything()],
+      });
+
+      expect(db.swapTransaction.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { userId: 'user_1', chainId: 'BASE', status: 'SUBMITTED' },
+          take: 10,
+          skip: 20,
+        })
+      );
+    });
+
+    it('should clamp the page size', async () => {
+      db.swapTransaction.findMany.mockResolvedValue([]);
+      db.swapTransaction.count.mockResolvedValue(0);
+
+      const res = await createApp('user_1').request('/swaps?limit=5000');
+
+      expect(await res.json()).toMatchObject({ limit: 100 });
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Hono } from 'hono';
+
+const db = vi.hoisted(() => ({
+  user: { findUnique: vi.fn(), update: vi.fn() },
+}));
+
+vi.mock('@chainhopper/core/prisma', () => ({ prisma: db }));
+
+vi.mock('@chainhopper/core/oracle', () => ({
+  createPriceOracle: () => ({ getPrices: async () => new Map() }),
+  PrismaPriceHistory: vi.fn(),
+}));
+
+// Import after mocking
+import { UserSettingsService, DEFAULT_USER_SETTINGS } from '../services/user-settings.js';
+import { userRoutes } from '../routes/user.js';
+
+// The column default written when a user row is created
+const STORED_DEFAULT = {
+  defaultSlippage: 0.5,
+  autoApprove: false,
+  notifications: {
+    tradeConfirmations: true,
+    priceAlerts: true,
+    portfolioUpdates: true,
+    newListings: false,
+  },
+};
+
+function createApp(userId?: string) {
+  return new Hono()
+    .use('*', async (c, next) => {
+      if (userId) c.set('userId', userId);
+      await next();
+    })
+    .route('/', userRoutes);
+}
+
+function patchSettings(app: ReturnType<typeof createApp>, body: object) {
+  return app.request('/user/settings', {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+describe('UserSettingsService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should fill in settings the stored JSON lacks', async () => {
+    db.user.findUnique.mockResolvedValue({ settings: STORED_DEFAULT });
+
+    const settings = await new UserSettingsService(db).get('user_1');
+
+    expect(settings).toEqual(DEFAULT_USER_SETTINGS);
+    expect(db.user.findUnique).toHaveBeenCalledWith({
+      where: { id: 'user_1' },
+      select: { settings: true },
+    });
+  });
+
+  it('should merge changes into the stored settings', async () => {
+    db.user.findUnique.mockResolvedValue({
+      settings: { ...STORED_DEFAULT, defaultSlippage: 1, costBasisMethod: 'lifo' },
+    });
+
+    const settings = await new UserSettingsService(db).update('user_1', {
+      costBasisMethod: 'average',
+      notifications: { newListings: true },
+    });
+
+    expect(settings).toMatchObject({
+      defaultSlippage: 1,
+      costBasisMethod: 'average',
+      notifications: { tradeConfirmations: true, newListings: true },
+    });
+    expect(db.user.update).toHaveBeenCalledWith({
+      where: { id: 'user_1' },
+      data: { settings },
+    });
+  });
+
+  it('should return null for unknown users', async () => {
+    db.user.findUnique.mockResolvedValue(null);
+
+    expect(await new UserSettingsService(db).update('user_x', { autoApprove: true })).toBeNull();
+    expect(db.user.update).not.toHaveBeenCalled();
+  });
+});
+
+describe('PATCH /user/settings', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should require authentication', async () => {
+    const res = await patchSettings(createApp(), { costBasisMethod: 'lifo' });
+    expect(res.status).toBe(401);
+  });
+
+  it('should persist the cost-basis method the fee engine reads', async () => {
+    db.user.findUnique.mockResolvedValue({ settings: STORED_DEFAULT });
+
+    const res = await patchSettings(createApp('user_1'), { costBasisMethod: 'lifo' });
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ costBasisMethod: 'lifo' });
+    const { data } = db.user.update.mock.calls[0]![0];
+    expect(data.settings.costBasisMethod).toBe('lifo');
+    expect(data.settings.defaultSlippage).toBe(0.5);
+  });
+
+  it('should return 404 when the user no longer exists', async () => {
+    db.user.findUnique.mockResolvedValue(null);
+
+    const res = await patchSettings(createApp('user_1'), { autoApprove: true });
+
+    expect(res.status).toBe(404);
+    expect(await res.json()).toMatchObject({ code: 'USER_NOT_FOUND' });
+  });
+});
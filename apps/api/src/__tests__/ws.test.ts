@@ -0,0 +1,519 @@
+import { describe, it, expect, vi, beforeAll, beforeEach, afterEach } from 'vitest';
+import { createHmac } from 'crypto';
+
+const db = vi.hoisted(() => ({
+  user: { findUnique: vi.fn(), upsert: vi.fn() },
+  apiKey: { findFirst: vi.fn(), updateMany: vi.fn() },
+}));
+
+vi.mock('@chainhopper/core/prisma', () => ({ prisma: db }));
+
+vi.mock('@chainhopper/core/oracle', () => ({
+  createPriceOracle: () => ({ getPrices: async () => new Map() }),
+  PrismaPriceHistory: vi.fn(),
+}));
+
+// Import after mocking
+import { generateApiKey, generateTokens, initTelegramAuth } from '@chainhopper/core/auth';
+import { connectionManager } from '../ws/connection-manager.js';
+import { eventBus } from '../ws/event-bus.js';
+import { replayBuffer, sequenceCounter } from '../ws/replay.js';
+import { adapterRegistry } from '../services/adapter-registry.js';
+import { handleAuthenticate, handleMessage, emitTradeEvent, deliverEvent } from '../ws/handlers.js';
+import type { AuthenticateMessage } from '../ws/types.js';
+
+const BOT_TOKEN = 'test-bot-token-12345:ABCdefGHIjklMNOpqrSTUvwxYZ';
+const apiKey = generateApiKey();
+
+const TRADE: Parameters<typeof emitTradeEvent>[1] = {
+  tradeId: 'trade_1',
+  chainId: 8453,
+  status: 'confirmed',
+  tokenIn: { address: '0xin', symbol: 'ETH', amount: '1' },
+  tokenOut: { address: '0xout', symbol: 'USDC', amount: '3000' },
+};
+
+let nextId = 0;
+
+function connect(ip = '203.0.113.7') {
+  const socket = { readyState: 1, send: vi.fn(), close: vi.fn() };
+  const id = `conn_${++nextId}`;
+  connectionManager.addConnection({
+    id,
+    socket: socket as any,
+    subscriptions: new Set(),
+    connectedAt: new Date(),
+    lastPing: new Date(),
+    authenticated: false,
+    metadata: { ip },
+  });
+  return { id, socket };
+}
+
+function sent(socket: ReturnType<typeof connect>['socket']) {
+  return socket.send.mock.calls.map(([data]) => JSON.parse(data));
+}
+
+function lastSent(socket: ReturnType<typeof connect>['socket']) {
+  return sent(socket).at(-1);
+}
+
+function authenticate(id: string, payload: AuthenticateMessage['payload']) {
+  return handleAuthenticate(id, { type: 'authenticate', payload });
+}
+
+function subscribe(id: string, channel: string, params?: Record<string, unknown>) {
+  return handleMessage(id, JSON.stringify({ type: 'subscribe', payload: { channel, params } }));
+}
+
+function keyRecord(overrides = {}) {
+  return {
+    id: 'key_1',
+    userId: 'user_1',
+    keyHash: apiKey.keyHash,
+    permissions: ['READ_QUOTES', 'READ_PORTFOLIO', 'WRITE_TRADES'],
+    rateLimit: 60,
+    mode: 'READ_ONLY',
+    allowedChains: [],
+    maxNotionalUsd: null,
+    allowedIps: [],
+    previousKeyHash: null,
+    previousKeyExpiresAt: null,
+    isActive: true,
+    expiresAt: null,
+    ...overrides,
+  };
+}
+
+function telegramInitData(user: object) {
+  const params = new Map([
+    ['auth_date', Math.floor(Date.now() / 1000).toString()],
+    ['user', JSON.stringify(user)],
+  ]);
+  const dataCheckString = [...params].map(([k, v]) => `${k}=${v}`).join('\n');
+  const secretKey = createHmac('sha256', 'WebAppData').update(BOT_TOKEN).digest();
+  params.set('hash', createHmac('sha256', secretKey).update(dataCheckString).digest('hex'));
+  return new URLSearchParams(Object.fromEntries(params)).toString();
+}
+
+beforeAll(async () => {
+  await eventBus.subscribe(deliverEvent);
+});
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  db.user.findUnique.mockResolvedValue({ id: 'user_1', tier: 'FREE' });
+  db.apiKey.findFirst.mockResolvedValue(keyRecord());
+  db.apiKey.updateMany.mockResolvedValue({ count: 1 });
+});
+
+afterEach(() => {
+  connectionManager.shutdown();
+  replayBuffer.clear();
+});
+
+describe('WebSocket authentication', () => {
+  it('should authenticate JWT access tokens as their user', async () => {
+    const { id, socket } = connect();
+    const { accessToken } = await generateTokens('user_1', 'FREE');
+
+    expect(await authenticate(id, { token: accessToken })).toBe(true);
+
+    const connection = connectionManager.getConnection(id)!;
+    expect(connection.userId).toBe('user_1');
+    expect(connection.session!.authType).toBe('jwt');
+    expect(lastSent(socket).payload).toMatchObject({ userId: 'user_1', authenticated: true });
+    expect(lastSent(socket).payload.expiresAt).toBe(connection.session!.expiresAt!.toISOString());
+  });
+
+  it('should reject invalid and refresh tokens', async () => {
+    const { id, socket } = connect();
+    const { refreshToken } = await generateTokens('user_1', 'FREE');
+
+    expect(await authenticate(id, { token: 'not-a-jwt' })).toBe(false);
+    expect(lastSent(socket).payload.code).toBe('INVALID_TOKEN');
+
+    expect(await authenticate(id, { token: refreshToken })).toBe(false);
+    expect(lastSent(socket).payload.code).toBe('INVALID_TOKEN_TYPE');
+    expect(connectionManager.getConnection(id)!.authenticated).toBe(false);
+  });
+
+  it('should authenticate API keys with their effective permissions', async () => {
+    const { id } = connect();
+
+    expect(await authenticate(id, { apiKey: apiKey.key })).toBe(true);
+
+    const { session } = connectionManager.getConnection(id)!;
+    expect(session).toMatchObject({ authType: 'apiKey', apiKeyId: 'key_1' });
+    expect(session!.permissions).toEqual(['READ_QUOTES', 'READ_PORTFOLIO']);
+  });
+
+  it('should enforce API key IP allow-lists', async () => {
+    db.apiKey.findFirst.mockResolvedValue(keyRecord({ allowedIps: ['10.0.0.0/8'] }));
+    const { id, socket } = connect('203.0.113.7');
+
+    expect(await authenticate(id, { apiKey: apiKey.key })).toBe(false);
+    expect(lastSent(socket).payload.code).toBe('IP_NOT_ALLOWED');
+  });
+
+  it('should reject rotated-out secrets once the overlap has closed', async () => {
+    db.apiKey.findFirst.mockResolvedValue(
+      keyRecord({
+        keyHash: 'hash_new',
+        previousKeyHash: apiKey.keyHash,
+        previousKeyExpiresAt: new Date(Date.now() - 1000),
+      })
+    );
+    const { id, socket } = connect();
+
+    expect(await authenticate(id, { apiKey: apiKey.key })).toBe(false);
+    expect(lastSent(socket).payload.code).toBe('API_KEY_ROTATED');
+  });
+
+  it('should expire sessions on a rotated-out secret with its overlap', async () => {
+    const overlapEnd = new Date(Date.now() + 60_000);
+    db.apiKey.findFirst.mockResolvedValue(
+      keyRecord({
+        keyHash: 'hash_new',
+        previousKeyHash: apiKey.keyHash,
+        previousKeyExpiresAt: overlapEnd,
+      })
+    );
+    const { id } = connect();
+
+    expect(await authenticate(id, { apiKey: apiKey.key })).toBe(true);
+    expect(connectionManager.getConnection(id)!.session!.expiresAt).toEqual(overlapEnd);
+  });
+
+  it('should verify Telegram init data and register new users', async () => {
+    initTelegramAuth({ botToken: BOT_TOKEN });
+    db.user.findUnique.mockResolvedValue(null);
+    db.user.upsert.mockResolvedValue({ id: 'user_tg', tier: 'FREE' });
+    const { id } = connect();
+
+    const initData = telegramInitData({ id: 42, first_name: 'Test' });
+
+    expect(await authenticate(id, { telegramInitData: initData })).toBe(true);
+    expect(connectionManager.getConnection(id)!.userId).toBe('user_tg');
+    expect(db.user.upsert.mock.calls[0]![0].where).toEqual({ telegramId: '42' });
+  });
+
+  it('should reject forged Telegram init data', async () => {
+    initTelegramAuth({ botToken: BOT_TOKEN });
+    const { id, socket } = connect();
+
+    const initData = telegramInitData({ id: 42, first_name: 'Test' }).replace('42', '43');
+
+    expect(await authenticate(id, { telegramInitData: initData })).toBe(false);
+    expect(lastSent(socket).payload.code).toBe('INVALID_TELEGRAM_DATA');
+  });
+});
+
+describe('WebSocket session refresh and expiry', () => {
+  it('should close sessions whose token expired without a refresh', async () => {
+    const { id, socket } = connect();
+    const { accessToken } = await generateTokens('user_1', 'FREE');
+    await authenticate(id, { token: accessToken });
+    const expiresAt = connectionManager.getConnection(id)!.session!.expiresAt!;
+
+    expect(connectionManager.closeExpiredSessions(new Date(expiresAt.getTime() - 1000))).toBe(0);
+    expect(connectionManager.closeExpiredSessions(expiresAt)).toBe(1);
+
+    expect(lastSent(socket).payload.code).toBe('SESSION_EXPIRED');
+    expect(socket.close).toHaveBeenCalledWith(4001, 'Session expired');
+    expect(connectionManager.getConnection(id)).toBeUndefined();
+  });
+
+  it('should extend the session when the same user re-authenticates', async () => {
+    const { id } = connect();
+    await authenticate(id, { token: (await generateTokens('user_1', 'FREE')).accessToken });
+    connectionManager.getConnection(id)!.session!.expiresAt = new Date(Date.now() + 1000);
+
+    await authenticate(id, { token: (await generateTokens('user_1', 'FREE')).accessToken });
+
+    expect(connectionManager.closeExpiredSessions(new Date(Date.now() + 5000))).toBe(0);
+    expect(connectionManager.getConnection(id)!.authenticated).toBe(true);
+  });
+
+  it('should not let a connection switch users', async () => {
+    const { id, socket } = connect();
+    await authenticate(id, { token: (await generateTokens('user_1', 'FREE')).accessToken });
+
+    const other = await generateTokens('user_2', 'FREE');
+
+    expect(await authenticate(id, { token: other.accessToken })).toBe(false);
+    expect(lastSent(socket).payload.code).toBe('USER_MISMATCH');
+    expect(connectionManager.getConnection(id)!.userId).toBe('user_1');
+  });
+});
+
+describe('WebSocket channel access', () => {
+  it('should require authentication for user channels', async () => {
+    const { id, socket } = connect();
+
+    await subscribe(id, 'trades');
+
+    expect(lastSent(socket).payload.code).toBe('UNAUTHORIZED');
+    expect(connectionManager.getConnection(id)!.subscriptions.size).toBe(0);
+  });
+
+  it("should refuse subscriptions to another user's channels", async () => {
+    const { id, socket } = connect();
+    await authenticate(id, { token: (await generateTokens('user_1', 'FREE')).accessToken });
+
+    await subscribe(id, 'portfolio', { userId: 'user_2' });
+    expect(lastSent(socket).payload.code).toBe('FORBIDDEN');
+
+    await subscribe(id, 'portfolio', { chainId: 8453 });
+    expect([...connectionManager.getConnection(id)!.subscriptions]).toEqual([
+      'portfolio:8453:user:user_1',
+    ]);
+  });
+
+  it('should require READ_PORTFOLIO for API keys', async () => {
+    db.apiKey.findFirst.mockResolvedValue(keyRecord({ permissions: ['READ_QUOTES'] }));
+    const { id, socket } = connect();
+    await authenticate(id, { apiKey: apiKey.key });
+
+    await subscribe(id, 'trades');
+
+    expect(lastSent(socket).payload.code).toBe('MISSING_PERMISSION');
+  });
+
+  it('should only push trade events to connections allowed to read them', async () => {
+    db.apiKey.findFirst.mockResolvedValue(
+      keyRecord({ id: 'key_2', userId: 'user_3', permissions: ['READ_QUOTES'] })
+    );
+    db.user.findUnique.mockResolvedValue({ id: 'user_3', tier: 'FREE' });
+    const restricted = connect();
+    await authenticate(restricted.id, { apiKey: apiKey.key });
+
+    const session = connect();
+    await authenticate(session.id, { token: (await generateTokens('user_3', 'FREE')).accessToken });
+
+    await emitTradeEvent('user_3', TRADE);
+
+    expect(lastSent(session.socket).type).toBe('trade:confirmed');
+    expect(sent(restricted.socket).some((m) => m.type === 'trade:confirmed')).toBe(false);
+  });
+});
+
+describe('WebSocket session resume', () => {
+  function resume(id: string, lastSeq: number) {
+    return handleMessage(id, JSON.stringify({ type: 'resume', payload: { lastSeq } }));
+  }
+
+  async function connectAs(userId: string) {
+    db.user.findUnique.mockResolvedValue({ id: userId, tier: 'FREE' });
+    const connection = connect();
+    const { accessToken } = await generateTokens(userId, 'FREE');
+    await authenticate(connection.id, { token: accessToken });
+    return connection;
+  }
+
+  it('should number trade events per user', async () => {
+    const { socket } = await connectAs('user_10');
+
+    await emitTradeEvent('user_10', TRADE);
+    await emitTradeEvent('user_10', TRADE);
+
+    const trades = sent(socket).filter((m) => m.type === 'trade:confirmed');
+    expect(trades.map((m) => m.seq)).toEqual([1, 2]);
+  });
+
+  it('should replay only the events missed while disconnected', async () => {
+    const first = await connectAs('user_11');
+    for (let i = 0; i < 3; i++) await emitTradeEvent('user_11', TRADE);
+    connectionManager.removeConnection(first.id);
+
+    // Missed while offline
+    await emitTradeEvent('user_11', TRADE);
+    await emitTradeEvent('user_11', TRADE);
+
+    const { id, socket } = await connectAs('user_11');
+    // Arrives live after reconnecting, before the client resumes
+    await emitTradeEvent('user_11', TRADE);
+    await resume(id, 3);
+
+    const messages = sent(socket).filter((m) => m.type !== 'system:connected');
+    expect(messages.map((m) => [m.type, m.seq])).toEqual([
+      ['trade:confirmed', 6],
+      ['trade:confirmed', 4],
+      ['trade:confirmed', 5],
+      ['system:resumed', undefined],
+    ]);
+    expect(lastSent(socket).payload).toEqual({ resumed: true, replayed: 2, lastSeq: 6 });
+  });
+
+  it('should replay events the bus delivered out of order', async () => {
+    const first = await connectAs('user_14');
+    connectionManager.removeConnection(first.id);
+    for (let i = 0; i < 4; i++) await sequenceCounter.next('user_14');
+    const deliver = (seq: number) =>
+      deliverEvent({ type: 'trade:confirmed', payload: TRADE, userId: 'user_14', seq });
+
+    // Missed while offline
+    deliver(2);
+    deliver(1);
+
+    const { id, socket } = await connectAs('user_14');
+    deliver(4);
+    deliver(3);
+    await resume(id, 0);
+
+    const messages = sent(socket).filter((m) => m.type !== 'system:connected');
+    expect(messages.map((m) => [m.type, m.seq])).toEqual([
+      ['trade:confirmed', 4],
+      ['trade:confirmed', 3],
+      ['trade:confirmed', 1],
+      ['trade:confirmed', 2],
+      ['system:resumed', undefined],
+    ]);
+    expect(lastSent(socket).payload).toEqual({ resumed: true, replayed: 2, lastSeq: 4 });
+  });
+
+  it('should not resume past an event that never arrived', async () => {
+    const first = await connectAs('user_15');
+    connectionManager.removeConnection(first.id);
+    for (let i = 0; i < 3; i++) await sequenceCounter.next('user_15');
+    const deliver = (seq: number) =>
+      deliverEvent({ type: 'trade:confirmed', payload: TRADE, userId: 'user_15', seq });
+
+    // 2 was numbered but its publish failed
+    deliver(1);
+    deliver(3);
+
+    const { id, socket } = await connectAs('user_15');
+    await resume(id, 0);
+
+    expect(lastSent(socket).payload).toEqual({ resumed: false, replayed: 0, lastSeq: 3 });
+    expect(sent(socket).some((m) => m.type === 'trade:confirmed')).toBe(false);
+  });
+
+  it('should report when missed events are no longer buffered', async () => {
+    const first = await connectAs('user_12');
+    connectionManager.removeConnection(first.id);
+    await emitTradeEvent('user_12', TRADE);
+    await emitTradeEvent('user_12', TRADE);
+    replayBuffer.clear();
+
+    const { id, socket } = await connectAs('user_12');
+    await resume(id, 1);
+
+    expect(lastSent(socket)).toMatchObject({
+      type: 'system:resumed',
+      payload: { resumed: false, replayed: 0, lastSeq: 2 },
+    });
+  });
+
+  it('should require authentication and a valid sequence number', async () => {
+    const anonymous = connect();
+    await resume(anonymous.id, 0);
+    expect(lastSent(anonymous.socket).payload.code).toBe('UNAUTHORIZED');
+
+    const { id, socket } = await connectAs('user_13');
+    await resume(id, -1);
+    expect(lastSent(socket).payload.code).toBe('INVALID_RESUME');
+  });
+});
+
+describe('WebSocket price subscriptions', () => {
+  const USDC = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
+
+  function token(n: number) {
+    return `0x${n.toString(16).padStart(40, '0')}`;
+  }
+
+  function subscribePrices(id: string, chainId: number | string, tokenAddresses: string[]) {
+    return handleMessage(
+      id,
+      JSON.stringify({ type: 'price:subscribe', payload: { chainId, tokenAddresses } })
+    );
+  }
+
+  beforeAll(() => {
+    adapterRegistry.register({
+      chainId: 'base',
+      config: { isEnabled: true },
+      isValidAddress: (address: string) => /^0x[0-9a-fA-F]{40}$/.test(address),
+    } as any);
+  });
+
+  it('should subscribe anonymous clients to valid price channels', async () => {
+    const { id, socket } = connect();
+
+    await subscribePrices(id, 8453, [USDC]);
+
+    expect(lastSent(socket)).toMatchObject({
+      type: 'price:subscribe',
+      payload: { subscribed: true },
+    });
+    expect(connectionManager.getChannels('prices:')).toEqual([`prices:8453:${USDC.toLowerCase()}`]);
+  });
+
+  it('should reject unsupported chains and malformed addresses', async () => {
+    const { id, socket } = connect();
+
+    await subscribePrices(id, 999999, [USDC]);
+    expect(lastSent(socket).payload.code).toBe('UNSUPPORTED_CHAIN');
+
+    await subscribePrices(id, 'not-a-chain', [USDC]);
+    expect(lastSent(socket).payload.code).toBe('UNSUPPORTED_CHAIN');
+
+    await subscribePrices(id, 8453, [USDC, 'prices:8453:0xabc']);
+    expect(lastSent(socket).payload.code).toBe('INVALID_ADDRESS');
+
+    await subscribePrices(id, 8453, 'not-a-list' as any);
+    expect(lastSent(socket).payload.code).toBe('INVALID_TOKENS');
+
+    expect(connectionManager.getChannels('prices:')).toEqual([]);
+  });
+
+  it('should validate price channels requested through subscribe', async () => {
+    const { id, socket } = connect();
+
+    await subscribe(id, 'prices', { chainId: 8453, tokenAddresses: ['0xnot-an-address'] });
+
+    expect(lastSent(socket).payload.code).toBe('INVALID_ADDRESS');
+    expect(connectionManager.getChannels('prices:')).toEqual([]);
+  });
+
+  it('should cap the price channels one connection holds', async () => {
+    const { id, socket } = connect();
+
+    await subscribePrices(
+      id,
+      8453,
+      Array.from({ length: 50 }, (_, i) => token(i + 1))
+    );
+    expect(lastSent(socket).payload.subscribed).toBe(true);
+
+    // Channels it already holds don't count again
+    await subscribePrices(id, 8453, [token(1)]);
+    expect(lastSent(socket).payload.subscribed).toBe(true);
+
+    await subscribePrices(id, 8453, [token(51)]);
+    expect(lastSent(socket).payload.code).toBe('TOO_MANY_SUBSCRIPTIONS');
+    expect(connectionManager.getChannels('prices:')).toHaveLength(50);
+  });
+
+  it('should cap the price channels streamed across connections', async () => {
+    for (let i = 0; i < 20; i++) {
+      const { id } = connect();
+      await subscribePrices(
+        id,
+        8453,
+        Array.from({ length: 50 }, (_, j) => token(i * 50 + j + 1))
+      );
+    }
+    const { id, socket } = connect();
+
+    // Existing channels can still be joined
+    await subscribePrices(id, 8453, [token(1)]);
+    expect(lastSent(socket).payload.subscribed).toBe(true);
+
+    await subscribePrices(id, 8453, [token(1001)]);
+    expect(lastSent(socket).payload.code).toBe('PRICE_CAPACITY');
+  });
+});
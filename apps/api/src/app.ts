@@ -1,4 +1,13 @@
 import { OpenAPIHono } from '@hono/zod-openapi';
+import {
+  combinedAuth,
+  initAuthMiddleware,
+  jwtAuth,
+  optionalAuth,
+  requirePermission,
+  type ApiKeyScope,
+  type DecodedToken,
+} from '@chainhopper/core/auth';
 import { cors } from 'hono/cors';
 import { logger } from 'hono/logger';
 import { timing } from 'hono/timing';
@@ -8,6 +17,8 @@ import { authRoutes } from './routes/auth.js';
 import { tradingRoutes } from './routes/trading.js';
 import { portfolioRoutes } from './routes/portfolio.js';
 import { userRoutes } from './routes/user.js';
+import { getClientIp } from './client-ip.js';
+import { API_KEY_REQUEST_WEIGHTS, authLookups, cacheStore } from './services/index.js';
 
 export type AppEnv = {
   Variables: {
@@ -17,6 +28,8 @@ export type AppEnv = {
     authType?: 'jwt' | 'apiKey' | 'telegram';
     apiKeyId?: string;
     apiKeyPermissions?: string[];
+    apiKeyScope?: ApiKeyScope;
+    jwtPayload?: DecodedToken;
   };
 };
 
@@ -40,6 +53,35 @@ app.use('*', async (c, next) => {
   await next();
 });
 
+// Authentication, per route group. Routes read the caller from
+// c.get('userId'), and each route's OpenAPI `security` lists the schemes
+// accepted here. API keys also need the permission for their group.
+initAuthMiddleware(authLookups, {
+  rateLimitStore: cacheStore,
+  requestWeights: API_KEY_REQUEST_WEIGHTS,
+  getClientIp,
+});
+
+const authenticated = combinedAuth();
+
+// Public, but credentials are honoured when sent, so keyed requests are metered
+app.use('/quote', optionalAuth(), requirePermission('READ_QUOTES'));
+app.use('/tokens/*', optionalAuth());
+
+// Session and key management need a user session, never an API key
+app.use('/auth/logout', jwtAuth());
+app.use('/auth/api-keys/*', jwtAuth());
+app.use('/auth/verify', authenticated);
+
+app.use('/swap/*', authenticated);
+app.on('POST', ['/swap/build', '/swap/submit'], requirePermission('WRITE_TRADES'));
+app.on('GET', '/swap/*', requirePermission('READ_PORTFOLIO'));
+app.use('/swaps', authenticated, requirePermission('READ_PORTFOLIO'));
+app.use('/portfolio/*', authenticated, requirePermission('READ_PORTFOLIO'));
+app.on('POST', '/portfolio/*', requirePermission('WRITE_TRADES'));
+app.use('/user/*', authenticated);
+app.on(['POST', 'PATCH', 'DELETE'], '/user/*', requirePermission('WRITE_SETTINGS'));
+
 // Routes
 app.route('/', healthRoutes);
 app.route('/', openApiRoutes);
@@ -0,0 +1,43 @@
+/**
+ * Client IP
+ *
+ * nginx overwrites X-Real-IP with the address it accepted the connection
+ * from, so that header identifies the client for both HTTP requests and
+ * WebSocket upgrades. It is only believed from the proxies listed in
+ * TRUSTED_PROXIES (addresses or CIDRs, comma separated); any other peer is
+ * identified by its socket address, whatever headers it sends.
+ */
+
+import type { IncomingMessage } from 'node:http';
+import type { Context } from 'hono';
+import { connectionClientIp } from '@chainhopper/core/auth';
+
+/**
+ * Reverse proxies whose forwarding headers are believed
+ */
+export function getTrustedProxies(): string[] {
+  return (process.env['TRUSTED_PROXIES'] ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Client IP of a raw Node request, such as a WebSocket upgrade
+ */
+export function getRequestClientIp(request: IncomingMessage): string | null {
+  return connectionClientIp(
+    request.socket.remoteAddress,
+    (name) => request.headers[name]?.toString(),
+    getTrustedProxies()
+  );
+}
+
+/**
+ * Client IP of a Hono request; without the Node server bindings (as in
+ * tests) there is no connection to identify
+ */
+export function getClientIp(c: Context): string | null {
+  const incoming = (c.env as { incoming?: IncomingMessage } | undefined)?.incoming;
+  return incoming ? getRequestClientIp(incoming) : null;
+}
@@ -4,11 +4,27 @@ import { createServer } from 'http';
 import { serve } from '@hono/node-server';
 import { app } from './app.js';
 import { initWebSocketServer, shutdownWebSocketServer, getWebSocketStats } from './ws/index.js';
+import { adapterRegistry, apiKeyUsage, priceOracle, quoteStore } from './services/index.js';
+import { registerDefaultAdapters } from './services/adapters.js';
+import { confirmationTracker, priceStreamer } from './workers/index.js';
 
 const port = parseInt(process.env['PORT'] ?? '3000', 10);
 
 console.log(`Starting ChainHopper API server on port ${port}...`);
 
+// Register chain adapters before accepting requests
+registerDefaultAdapters(adapterRegistry, {
+  oneInchApiKey: process.env['ONEINCH_API_KEY'],
+  priceSource: priceOracle,
+});
+console.log(`Registered ${adapterRegistry.getEnabled().length} chain adapters`);
+
+// Connect adapters in the background; failures are reported per chain
+adapterRegistry.initialize();
+
+// Refresh the chain health that /ready reports
+adapterRegistry.startHealthChecks();
+
 // Create HTTP server with Hono
 const server = serve({
   fetch: app.fetch,
@@ -23,20 +39,43 @@ console.log(`ChainHopper API running at http://localhost:${port}`);
 console.log(`OpenAPI docs available at http://localhost:${port}/docs`);
 console.log(`WebSocket server available at ws://localhost:${port}/ws`);
 
+// Watch submitted swaps until they confirm, fail or expire
+confirmationTracker.start();
+
+// Push live prices to subscribed WebSocket clients
+priceStreamer.start();
+
+// Write API key usage counters to the database periodically
+apiKeyUsage.start();
+
+// Delete quotes that can no longer be built or submitted
+quoteStore.start();
+
 // Graceful shutdown handling
-const shutdown = () => {
+const shutdown = async () => {
   console.log('\nShutting down gracefully...');
-  shutdownWebSocketServer();
-  server.close(() => {
-    console.log('Server closed');
-    process.exit(0);
-  });
 
   // Force exit after 10 seconds
   setTimeout(() => {
     console.error('Forced shutdown after timeout');
     process.exit(1);
   }, 10000);
+
+  priceStreamer.stop();
+  quoteStore.stop();
+  shutdownWebSocketServer();
+  await new Promise((resolve) => server.close(resolve));
+  console.log('Server closed');
+
+  // Requests counted while the server drained are written by the final flush
+  await Promise.all([
+    confirmationTracker.stop(),
+    apiKeyUsage.stop().catch((error) => {
+      console.error('[Usage] Final flush failed:', error);
+    }),
+  ]);
+  await adapterRegistry.shutdown();
+  process.exit(0);
 };
 
 process.on('SIGINT', shutdown);
@@ -1,5 +1,14 @@
 import { OpenAPIHono, createRoute, z } from '@hono/zod-openapi';
 import type { AppEnv } from '../app.js';
+import {
+  DEFAULT_ROTATION_OVERLAP_MS,
+  MAX_ROTATION_OVERLAP_MS,
+  getAllPermissions,
+  validateIpAllowList,
+} from '@chainhopper/core/auth';
+import { MAX_API_KEYS_PER_USER, apiKeyService, apiKeyUsage } from '../services/index.js';
+
+const MAX_USAGE_DAYS = 90;
 
 // ============================================================================
 // Schemas
@@ -23,21 +32,66 @@ const TokenResponseSchema = z.object({
   tokenType: z.literal('Bearer'),
 });
 
+const ChainIdSchema = z.enum([
+  'ton', 'ethereum', 'base', 'arbitrum', 'optimism', 'polygon',
+  'bsc', 'avalanche', 'sonic', 'kaia', 'berachain', 'sui',
+  'eclipse', 'hyperliquid', 'cosmos'
+]);
+
+const PermissionSchema = z.enum(getAllPermissions() as [string, ...string[]]);
+
+const ApiKeyModeSchema = z.enum(['read_only', 'trade']).openapi({
+  description: 'read_only keys can never trade or change settings, whatever their permissions',
+});
+
 const ApiKeySchema = z.object({
   id: z.string(),
   name: z.string().openapi({ example: 'Trading Bot Key' }),
   key: z.string().optional().openapi({
     example: 'chpr_abc123...',
-    description: 'Only returned on creation'
+    description: 'Only returned on creation and rotation'
   }),
   keyPrefix: z.string().openapi({ example: 'chpr_abc1' }),
-  permissions: z.array(z.enum(['read', 'trade', 'withdraw'])),
+  permissions: z.array(PermissionSchema),
+  mode: ApiKeyModeSchema,
+  chains: z.array(z.string()).openapi({
+    example: ['base', 'arbitrum'],
+    description: 'Chains the key may trade on; empty allows every chain'
+  }),
+  maxNotionalUsd: z.number().optional().openapi({
+    example: 1000,
+    description: 'Largest trade the key may make, in USD'
+  }),
+  allowedIps: z.array(z.string()).openapi({
+    example: ['203.0.113.7', '10.0.0.0/8'],
+    description: 'IPs or CIDR ranges the key may be used from; empty allows any'
+  }),
   rateLimit: z.number().openapi({ example: 60, description: 'Requests per minute' }),
   lastUsed: z.string().optional(),
   expiresAt: z.string().optional(),
+  rotatedAt: z.string().optional(),
+  previousKeyExpiresAt: z.string().optional().openapi({
+    description: 'When the secret replaced by the last rotation stops working'
+  }),
   createdAt: z.string(),
 });
 
+const ApiKeyUsageDaySchema = z.object({
+  date: z.string().openapi({ example: '2025-03-01', description: 'UTC day' }),
+  requests: z.number().openapi({ example: 1240, description: 'Requests, including rejected' }),
+  weight: z.number().openapi({ example: 3100, description: 'Rate-limit weight of accepted' }),
+  rejected: z.number().openapi({ example: 12, description: 'Requests over the rate limit' }),
+});
+
+const ApiKeyUsageSchema = z.object({
+  keyId: z.string(),
+  rateLimit: z.number().openapi({ example: 60, description: 'Request weight per minute' }),
+  totalRequests: z.number(),
+  totalWeight: z.number(),
+  totalRejected: z.number(),
+  days: z.array(ApiKeyUsageDaySchema),
+});
+
 const TelegramAuthDataSchema = z.object({
   id: z.number().openapi({ example: 123456789 }),
   first_name: z.string().openapi({ example: 'John' }),
@@ -191,11 +245,21 @@ const createApiKeyRoute = createRoute({
         'application/json': {
           schema: z.object({
             name: z.string().min(1).max(50).openapi({ example: 'My Trading Bot' }),
-            permissions: z.array(z.enum(['read', 'trade', 'withdraw'])).openapi({
-              example: ['read', 'trade'],
+            permissions: z.array(PermissionSchema).openapi({
+              example: ['READ_QUOTES', 'WRITE_TRADES'],
               description: 'Permissions for this key'
             }),
-            expiresAt: z.string().optional().openapi({
+            mode: ApiKeyModeSchema.optional().default('read_only'),
+            chains: z.array(ChainIdSchema).optional().default([]),
+            maxNotionalUsd: z.number().positive().optional().openapi({
+              example: 1000,
+              description: 'Largest trade the key may make, in USD'
+            }),
+            allowedIps: z.array(z.string()).max(50).optional().default([]).openapi({
+              example: ['203.0.113.7', '10.0.0.0/8'],
+              description: 'IPs or CIDR ranges the key may be used from'
+            }),
+            expiresAt: z.string().datetime().optional().openapi({
               example: '2025-12-31T23:59:59Z',
               description: 'Optional expiration date'
             }),
@@ -259,13 +323,93 @@ const deleteApiKeyRoute = createRoute({
   },
 });
 
+const rotateApiKeyRoute = createRoute({
+  method: 'post',
+  path: '/auth/api-keys/{keyId}/rotate',
+  tags: ['Authentication'],
+  summary: 'Rotate API key',
+  description:
+    'Issue a new secret for an API key. The old secret keeps working for the overlap ' +
+    'window, so clients can switch over without downtime. Rotating again ends any ' +
+    'earlier overlap immediately.',
+  security: [{ bearerAuth: [] }],
+  request: {
+    params: z.object({
+      keyId: z.string(),
+    }),
+    body: {
+      content: {
+        'application/json': {
+          schema: z.object({
+            overlapSeconds: z.number().int().min(0).max(MAX_ROTATION_OVERLAP_MS / 1000)
+              .optional().openapi({
+                example: 3600,
+                description: 'How long the old secret keeps working (default 1 day, max 7 days)'
+              }),
+          }),
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      content: { 'application/json': { schema: ApiKeySchema } },
+      description: 'New secret issued. Save the key value - it cannot be retrieved later.',
+    },
+    401: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Not authenticated',
+    },
+    404: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'API key not found',
+    },
+  },
+});
+
+const apiKeyUsageRoute = createRoute({
+  method: 'get',
+  path: '/auth/api-keys/{keyId}/usage',
+  tags: ['Authentication'],
+  summary: 'Get API key usage',
+  description:
+    'Daily request counts for an API key. Requests are weighted by endpoint, ' +
+    'and the weights count against the key rate limit.',
+  security: [{ bearerAuth: [] }],
+  request: {
+    params: z.object({
+      keyId: z.string(),
+    }),
+    query: z.object({
+      days: z.string().optional().openapi({
+        example: '30',
+        description: 'Number of days to return, ending today (1-90, default 30)',
+      }),
+    }),
+  },
+  responses: {
+    200: {
+      content: { 'application/json': { schema: ApiKeyUsageSchema } },
+      description: 'Usage per day, oldest first',
+    },
+    401: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Not authenticated',
+    },
+    404: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'API key not found',
+    },
+  },
+});
+
 const verifyRoute = createRoute({
   method: 'get',
   path: '/auth/verify',
   tags: ['Authentication'],
-  summary: 'Verify token',
-  description: 'Verify the current access token is valid',
-  security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+  summary: 'Verify credentials',
+  description: 'Check the credentials sent with the request and report who they belong to',
+  security: [{ bearerAuth: [] }, { apiKeyAuth: [] }, { telegramAuth: [] }],
   responses: {
     200: {
       content: {
@@ -273,9 +417,11 @@ const verifyRoute = createRoute({
           schema: z.object({
             valid: z.boolean(),
             userId: z.string(),
-            type: z.enum(['jwt', 'apiKey']),
-            permissions: z.array(z.string()).optional(),
-            expiresAt: z.string().optional(),
+            type: z.enum(['jwt', 'apiKey', 'telegram']),
+            permissions: z.array(z.string()).optional().openapi({
+              description: 'API keys only: permissions after the key mode is applied'
+            }),
+            expiresAt: z.string().optional().openapi({ description: 'JWTs only' }),
           }),
         },
       },
@@ -356,44 +502,46 @@ export const authRoutes = new OpenAPIHono<AppEnv>()
       return c.json({ error: 'Authentication required', code: 'AUTH_REQUIRED' }, 401);
     }
 
-    // TODO: Fetch from database
-    const apiKeys = [
-      {
-        id: 'key_1',
-        name: 'Trading Bot',
-        keyPrefix: 'chpr_abc1',
-        permissions: ['read' as const, 'trade' as const],
-        rateLimit: 60,
-        lastUsed: new Date(Date.now() - 3600000).toISOString(),
-        createdAt: new Date(Date.now() - 86400000 * 7).toISOString(),
-      },
-    ];
+    const apiKeys = await apiKeyService.list(userId);
 
     return c.json({ apiKeys }, 200);
   })
   .openapi(createApiKeyRoute, async (c) => {
-    const { name, permissions, expiresAt } = c.req.valid('json');
+    const { name, permissions, mode, chains, maxNotionalUsd, allowedIps, expiresAt } =
+      c.req.valid('json');
     const userId = c.get('userId');
 
     if (!userId) {
       return c.json({ error: 'Authentication required', code: 'AUTH_REQUIRED' }, 401);
     }
 
-    // TODO: Check API key limit and create in database
-    const keyId = `key_${crypto.randomUUID().slice(0, 8)}`;
-    const fullKey = `chpr_${crypto.randomUUID().replace(/-/g, '')}`;
-    const keyPrefix = fullKey.slice(0, 12);
+    const ipError = validateIpAllowList(allowedIps);
+    if (ipError) {
+      return c.json({ error: ipError, code: 'INVALID_IP_ALLOW_LIST' }, 400);
+    }
+
+    if (expiresAt && new Date(expiresAt) <= new Date()) {
+      return c.json({ error: 'expiresAt must be in the future', code: 'INVALID_EXPIRY' }, 400);
+    }
 
-    return c.json({
-      id: keyId,
+    if ((await apiKeyService.countActive(userId)) >= MAX_API_KEYS_PER_USER) {
+      return c.json({
+        error: `Maximum of ${MAX_API_KEYS_PER_USER} API keys reached`,
+        code: 'API_KEY_LIMIT_REACHED',
+      }, 403);
+    }
+
+    const apiKey = await apiKeyService.create(userId, {
       name,
-      key: fullKey, // Only returned on creation!
-      keyPrefix,
       permissions,
-      rateLimit: 60,
-      expiresAt,
-      createdAt: new Date().toISOString(),
-    }, 201);
+      mode,
+      chains,
+      maxNotionalUsd,
+      allowedIps,
+      expiresAt: expiresAt ? new Date(expiresAt) : undefined,
+    });
+
+    return c.json(apiKey, 201);
   })
   .openapi(deleteApiKeyRoute, async (c) => {
     const { keyId } = c.req.valid('param');
@@ -403,12 +551,50 @@ export const authRoutes = new OpenAPIHono<AppEnv>()
       return c.json({ error: 'Authentication required', code: 'AUTH_REQUIRED' }, 401);
     }
 
-    // TODO: Delete from database
+    if (!(await apiKeyService.revoke(userId, keyId))) {
+      return c.json({ error: 'API key not found', code: 'API_KEY_NOT_FOUND' }, 404);
+    }
+
     return c.json({
       success: true,
       message: `API key ${keyId} has been revoked`,
     }, 200);
   })
+  .openapi(rotateApiKeyRoute, async (c) => {
+    const { keyId } = c.req.valid('param');
+    const { overlapSeconds } = c.req.valid('json');
+    const userId = c.get('userId');
+
+    if (!userId) {
+      return c.json({ error: 'Authentication required', code: 'AUTH_REQUIRED' }, 401);
+    }
+
+    const overlapMs =
+      overlapSeconds === undefined ? DEFAULT_ROTATION_OVERLAP_MS : overlapSeconds * 1000;
+    const apiKey = await apiKeyService.rotate(userId, keyId, overlapMs);
+    if (!apiKey) {
+      return c.json({ error: 'API key not found', code: 'API_KEY_NOT_FOUND' }, 404);
+    }
+
+    return c.json(apiKey, 200);
+  })
+  .openapi(apiKeyUsageRoute, async (c) => {
+    const { keyId } = c.req.valid('param');
+    const { days } = c.req.valid('query');
+    const userId = c.get('userId');
+
+    if (!userId) {
+      return c.json({ error: 'Authentication required', code: 'AUTH_REQUIRED' }, 401);
+    }
+
+    const dayCount = Math.min(Math.max(parseInt(days || '30', 10) || 30, 1), MAX_USAGE_DAYS);
+    const usage = await apiKeyUsage.getUsage(userId, keyId, dayCount);
+    if (!usage) {
+      return c.json({ error: 'API key not found', code: 'API_KEY_NOT_FOUND' }, 404);
+    }
+
+    return c.json(usage, 200);
+  })
   .openapi(verifyRoute, async (c) => {
     const userId = c.get('userId');
 
@@ -416,10 +602,13 @@ export const authRoutes = new OpenAPIHono<AppEnv>()
       return c.json({ error: 'Invalid token', code: 'INVALID_TOKEN' }, 401);
     }
 
+    const jwtPayload = c.get('jwtPayload');
+
     return c.json({
       valid: true,
       userId,
-      type: 'jwt' as const,
-      expiresAt: new Date(Date.now() + 3600000).toISOString(),
+      type: c.get('authType') ?? 'jwt',
+      permissions: c.get('apiKeyPermissions'),
+      expiresAt: jwtPayload ? new Date(jwtPayload.exp * 1000).toISOString() : undefined,
     }, 200);
   });
@@ -1,6 +1,8 @@
 import { OpenAPIHono, createRoute, z } from '@hono/zod-openapi';
 import type { AppEnv } from '../app.js';
+import type { ChainStatus } from '@chainhopper/types';
 import { getWebSocketStats } from '../ws/index.js';
+import { adapterRegistry } from '../services/adapter-registry.js';
 
 const startTime = Date.now();
 
@@ -11,6 +13,24 @@ const ChainStatusSchema = z.object({
   latency: z.number().openapi({ example: 45 }),
 });
 
+// Endpoint URLs and errors stay internal: URLs often embed provider keys
+const RpcEndpointSchema = z.object({
+  isHealthy: z.boolean(),
+  isQuarantined: z.boolean(),
+  latency: z.number().openapi({ example: 45, description: 'Moving average in ms' }),
+  errorRate: z.number().openapi({ example: 0.02 }),
+  blockNumber: z.string().openapi({ example: '19000000' }),
+  blockLag: z.number().openapi({ example: 0, description: 'Blocks behind the highest endpoint' }),
+});
+
+const ChainReadinessSchema = z.object({
+  chainId: z.string().openapi({ example: 'ethereum' }),
+  isHealthy: z.boolean(),
+  blockNumber: z.string().openapi({ example: '19000000' }),
+  latency: z.number().openapi({ example: 45 }),
+  endpoints: z.array(RpcEndpointSchema),
+});
+
 const HealthResponseSchema = z.object({
   status: z.enum(['healthy', 'degraded', 'unhealthy']).openapi({ example: 'healthy' }),
   version: z.string().openapi({ example: '0.1.0' }),
@@ -41,13 +61,16 @@ const readinessRoute = createRoute({
   path: '/ready',
   tags: ['System'],
   summary: 'Readiness check',
-  description: 'Returns 200 if the service is ready to accept traffic',
+  description:
+    'Returns 200 if the service is ready to accept traffic. Chain state comes from the ' +
+    'last periodic RPC health check.',
   responses: {
     200: {
       content: {
         'application/json': {
           schema: z.object({
             ready: z.boolean(),
+            chains: z.array(ChainReadinessSchema),
           }),
         },
       },
@@ -59,6 +82,7 @@ const readinessRoute = createRoute({
           schema: z.object({
             ready: z.boolean(),
             reason: z.string(),
+            chains: z.array(ChainReadinessSchema),
           }),
         },
       },
@@ -87,6 +111,23 @@ const livenessRoute = createRoute({
   },
 });
 
+function toChainReadiness(status: ChainStatus) {
+  return {
+    chainId: status.chainId,
+    isHealthy: status.isHealthy,
+    blockNumber: status.blockNumber.toString(),
+    latency: status.latency,
+    endpoints: (status.endpoints ?? []).map((endpoint) => ({
+      isHealthy: endpoint.isHealthy,
+      isQuarantined: endpoint.isQuarantined,
+      latency: endpoint.latency,
+      errorRate: endpoint.errorRate,
+      blockNumber: endpoint.blockNumber.toString(),
+      blockLag: endpoint.blockLag,
+    })),
+  };
+}
+
 export const healthRoutes = new OpenAPIHono<AppEnv>()
   .openapi(healthRoute, async (c) => {
     const uptimeSeconds = Math.floor((Date.now() - startTime) / 1000);
@@ -119,13 +160,15 @@ export const healthRoutes = new OpenAPIHono<AppEnv>()
   })
   .openapi(readinessRoute, async (c) => {
     // TODO: Check database connection, cache, etc.
-    const isReady = true;
+    const chains = (await adapterRegistry.getHealth()).map(toChainReadiness);
 
-    if (!isReady) {
-      return c.json({ ready: false, reason: 'Dependencies not ready' }, 503);
+    // One chain losing its RPCs degrades trading there; only stop taking
+    // traffic when no chain can be reached at all
+    if (chains.length > 0 && !chains.some((chain) => chain.isHealthy)) {
+      return c.json({ ready: false, reason: 'No chain RPC endpoints are reachable', chains }, 503);
     }
 
-    return c.json({ ready: true }, 200);
+    return c.json({ ready: true, chains }, 200);
   })
   .openapi(livenessRoute, async (c) => {
     return c.json({ alive: true }, 200);
@@ -22,7 +22,17 @@ Multi-chain trading bot API with profit-share fee model.
 - **Portfolio Tracking**: Cross-chain P&L tracking
 
 ### Authentication
-Most endpoints require an API key passed via the \`X-API-Key\` header.
+Trading, portfolio and account endpoints accept a JWT access token, an API key
+(\`Authorization: Bearer chpr_...\`) or Telegram Mini App init data
+(\`X-Telegram-Init-Data\`). Quotes and token data are public, though
+credentials sent with them are still checked. API keys are managed with a JWT
+only.
+
+API keys also need the permission for the endpoint group:
+- \`READ_QUOTES\`: \`/quote\`
+- \`READ_PORTFOLIO\`: \`/portfolio/*\`, \`GET /swap/*\`, \`/swaps\`
+- \`WRITE_TRADES\`: \`/swap/build\`, \`/swap/submit\`
+- \`WRITE_SETTINGS\`: changes under \`/user/*\`
 
 ### Rate Limits
 - Free tier: 60 requests/minute
@@ -84,6 +94,12 @@ Most endpoints require an API key passed via the \`X-API-Key\` header.
         name: 'Authorization',
         description: 'API key in format: "Bearer chpr_xxx" or "ApiKey chpr_xxx"',
       },
+      telegramAuth: {
+        type: 'apiKey',
+        in: 'header',
+        name: 'X-Telegram-Init-Data',
+        description: 'Telegram Mini App initData, signed by the bot',
+      },
     },
   },
 });
@@ -1,6 +1,9 @@
 // @ts-nocheck
 import { OpenAPIHono, createRoute, z } from '@hono/zod-openapi';
 import type { AppEnv } from '../app.js';
+import { balanceService, positionService, taxExportService } from '../services/index.js';
+
+const MAX_POSITIONS_PAGE_SIZE = 100;
 
 // ============================================================================
 // Schemas
@@ -26,6 +29,7 @@ const TokenBalanceSchema = z.object({
     decimals: z.number(),
     logoUri: z.string().optional(),
   }),
+  walletAddress: z.string().openapi({ description: 'Wallet holding the balance' }),
   balance: z.string().openapi({ description: 'Balance in smallest unit' }),
   balanceFormatted: z.string().openapi({ example: '1,234.56' }),
   valueUsd: z.number().openapi({ example: 1234.56 }),
@@ -33,8 +37,32 @@ const TokenBalanceSchema = z.object({
   priceChange24h: z.number().optional(),
 });
 
+const LotDisposalSchema = z.object({
+  exitTxId: z.string().openapi({ description: 'Swap that sold from the lot' }),
+  amount: z.string(),
+  costBasis: z.number().openapi({ description: 'Cost of the amount sold in USD' }),
+  proceeds: z.number().openapi({ description: 'Proceeds in USD' }),
+  realizedPnl: z.number(),
+  disposedAt: z.string(),
+});
+
+const PositionLotSchema = z.object({
+  id: z.string(),
+  entryTxId: z.string().openapi({ description: 'Swap that bought the lot' }),
+  amount: z.string().openapi({ description: 'Amount acquired' }),
+  remainingAmount: z.string().openapi({ description: 'Amount still held' }),
+  entryPrice: z.number().openapi({ description: 'Entry price in USD' }),
+  costBasis: z.number().openapi({ description: 'Cost of the remaining amount in USD' }),
+  transferredFromId: z.string().optional().openapi({
+    description: 'Lot this one moved from, between the user\'s wallets',
+  }),
+  openedAt: z.string(),
+  closedAt: z.string().optional(),
+});
+
 const PositionSchema = z.object({
   id: z.string(),
+  walletId: z.string(),
   chainId: ChainIdSchema,
   token: z.object({
     address: z.string(),
@@ -51,7 +79,9 @@ const PositionSchema = z.object({
   currentValue: z.number().openapi({ description: 'Current value in USD' }),
   unrealizedPnl: z.number().openapi({ description: 'Unrealized P&L in USD' }),
   unrealizedPnlPercent: z.number().openapi({ example: 15.5, description: 'P&L as percentage' }),
+  realizedPnl: z.number().openapi({ description: 'Realized P&L across sells in USD' }),
   isOpen: z.boolean(),
+  lots: z.array(PositionLotSchema).openapi({ description: 'Lots held, oldest first' }),
   openedAt: z.string(),
   closedAt: z.string().optional(),
 });
@@ -123,7 +153,7 @@ const getBalancesRoute = createRoute({
   tags: ['Portfolio'],
   summary: 'Get token balances',
   description: 'Get all token balances across connected wallets',
-  security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+  security: [{ bearerAuth: [] }, { apiKeyAuth: [] }, { telegramAuth: [] }],
   request: {
     query: z.object({
       chainId: ChainIdSchema.optional(),
@@ -154,8 +184,8 @@ const getPositionsRoute = createRoute({
   path: '/portfolio/positions',
   tags: ['Portfolio'],
   summary: 'Get open positions',
-  description: 'Get all open trading positions with P&L',
-  security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+  description: 'Get trading positions with P&L and the lots each one holds',
+  security: [{ bearerAuth: [] }, { apiKeyAuth: [] }, { telegramAuth: [] }],
   request: {
     query: z.object({
       chainId: ChainIdSchema.optional(),
@@ -188,8 +218,8 @@ const getPositionRoute = createRoute({
   path: '/portfolio/positions/{positionId}',
   tags: ['Portfolio'],
   summary: 'Get position details',
-  description: 'Get detailed information about a specific position',
-  security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+  description: 'Get a position with each lot\'s sales and the trades behind it',
+  security: [{ bearerAuth: [] }, { apiKeyAuth: [] }, { telegramAuth: [] }],
   request: {
     params: z.object({
       positionId: z.string(),
@@ -200,6 +230,7 @@ const getPositionRoute = createRoute({
       content: {
         'application/json': {
           schema: PositionSchema.extend({
+            lots: z.array(PositionLotSchema.extend({ disposals: z.array(LotDisposalSchema) })),
             trades: z.array(TradeHistorySchema),
           }),
         },
@@ -217,13 +248,67 @@ const getPositionRoute = createRoute({
   },
 });
 
+const transferPositionRoute = createRoute({
+  method: 'post',
+  path: '/portfolio/positions/{positionId}/transfer',
+  tags: ['Portfolio'],
+  summary: 'Record a wallet transfer',
+  description: 'Move part of a position to another of your wallets, keeping its cost basis',
+  security: [{ bearerAuth: [] }, { apiKeyAuth: [] }, { telegramAuth: [] }],
+  request: {
+    params: z.object({
+      positionId: z.string(),
+    }),
+    body: {
+      content: {
+        'application/json': {
+          schema: z.object({
+            toWalletId: z.string().openapi({ description: 'Wallet receiving the tokens' }),
+            amount: z.string().openapi({
+              example: '500000000000000000',
+              description: 'Amount in smallest unit',
+            }),
+            lotIds: z.array(z.string()).optional().openapi({
+              description: 'Lots to move first under the specific cost-basis method',
+            }),
+          }),
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      content: {
+        'application/json': {
+          schema: z.object({
+            moved: z.string().openapi({ description: 'Amount moved in smallest unit' }),
+          }),
+        },
+      },
+      description: 'Transfer recorded',
+    },
+    400: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Invalid amount',
+    },
+    401: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Not authenticated',
+    },
+    404: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Position or destination wallet not found',
+    },
+  },
+});
+
 const getSummaryRoute = createRoute({
   method: 'get',
   path: '/portfolio/summary',
   tags: ['Portfolio'],
   summary: 'Get portfolio summary',
   description: 'Get aggregated portfolio metrics across all chains',
-  security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+  security: [{ bearerAuth: [] }, { apiKeyAuth: [] }, { telegramAuth: [] }],
   responses: {
     200: {
       content: { 'application/json': { schema: PortfolioSummarySchema } },
@@ -242,7 +327,7 @@ const getHistoryRoute = createRoute({
   tags: ['Portfolio'],
   summary: 'Get trade history',
   description: 'Get paginated trade history with P&L',
-  security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+  security: [{ bearerAuth: [] }, { apiKeyAuth: [] }, { telegramAuth: [] }],
   request: {
     query: z.object({
       chainId: ChainIdSchema.optional(),
@@ -283,7 +368,7 @@ const getStatsRoute = createRoute({
   tags: ['Portfolio'],
   summary: 'Get trading stats',
   description: 'Get lifetime trading statistics',
-  security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+  security: [{ bearerAuth: [] }, { apiKeyAuth: [] }, { telegramAuth: [] }],
   responses: {
     200: {
       content: { 'application/json': { schema: StatsSchema } },
@@ -302,7 +387,7 @@ const getPnlChartRoute = createRoute({
   tags: ['Portfolio'],
   summary: 'Get P&L chart data',
   description: 'Get historical P&L data for charting',
-  security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+  security: [{ bearerAuth: [] }, { apiKeyAuth: [] }, { telegramAuth: [] }],
   request: {
     query: z.object({
       period: z.enum(['1d', '7d', '30d', '90d', '1y', 'all']).optional().default('30d'),
@@ -333,6 +418,35 @@ const getPnlChartRoute = createRoute({
   },
 });
 
+const getExportRoute = createRoute({
+  method: 'get',
+  path: '/portfolio/export',
+  tags: ['Portfolio'],
+  summary: 'Export tax report',
+  description:
+    'Download realised gains and fees for a tax year as CSV, or as a Koinly or CoinTracker import',
+  security: [{ bearerAuth: [] }, { apiKeyAuth: [] }, { telegramAuth: [] }],
+  request: {
+    query: z.object({
+      year: z.string().regex(/^\d{4}$/).openapi({
+        example: '2025',
+        description: 'Calendar year (UTC)',
+      }),
+      format: z.enum(['csv', 'koinly', 'cointracker']).optional().default('csv'),
+    }),
+  },
+  responses: {
+    200: {
+      content: { 'text/csv': { schema: z.string() } },
+      description: 'CSV file',
+    },
+    401: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Not authenticated',
+    },
+  },
+});
+
 // ============================================================================
 // Router
 // ============================================================================
@@ -346,42 +460,12 @@ export const portfolioRoutes = new OpenAPIHono<AppEnv>()
       return c.json({ error: 'Authentication required', code: 'AUTH_REQUIRED' }, 401);
     }
 
-    // TODO: Fetch real balances from adapters
-    const balances = [
-      {
-        token: {
-          address: '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE',
-          chainId: 'base' as const,
-          symbol: 'ETH',
-          name: 'Ethereum',
-          decimals: 18,
-        },
-        balance: '2500000000000000000',
-        balanceFormatted: '2.50',
-        valueUsd: 8125.00,
-        priceUsd: 3250.00,
-        priceChange24h: 2.5,
-      },
-      {
-        token: {
-          address: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
-          chainId: 'base' as const,
-          symbol: 'USDC',
-          name: 'USD Coin',
-          decimals: 6,
-        },
-        balance: '5000000000',
-        balanceFormatted: '5,000.00',
-        valueUsd: 5000.00,
-        priceUsd: 1.00,
-        priceChange24h: 0.0,
-      },
-    ];
+    const result = await balanceService.getBalances(userId, {
+      chainId,
+      includeZero: includeZero === 'true',
+    });
 
-    return c.json({
-      balances,
-      totalValueUsd: balances.reduce((sum, b) => sum + b.valueUsd, 0),
-    }, 200);
+    return c.json(result, 200);
   })
   .openapi(getPositionsRoute, async (c) => {
     const { chainId, status, limit, offset } = c.req.valid('query');
@@ -391,34 +475,14 @@ export const portfolioRoutes = new OpenAPIHono<AppEnv>()
       return c.json({ error: 'Authentication required', code: 'AUTH_REQUIRED' }, 401);
     }
 
-    // TODO: Fetch real positions from database
-    const positions = [
-      {
-        id: 'pos_123',
-        chainId: 'base' as const,
-        token: {
-          address: '0x4ed4E862860beD51a9570b96d89aF5E1B0Efefed',
-          symbol: 'DEGEN',
-          name: 'Degen',
-          decimals: 18,
-        },
-        amount: '100000000000000000000000',
-        amountFormatted: '100,000',
-        entryPrice: 0.015,
-        currentPrice: 0.018,
-        costBasis: 1500.00,
-        currentValue: 1800.00,
-        unrealizedPnl: 300.00,
-        unrealizedPnlPercent: 20.0,
-        isOpen: true,
-        openedAt: new Date(Date.now() - 86400000 * 3).toISOString(),
-      },
-    ];
+    const result = await positionService.list(userId, {
+      chainId,
+      status,
+      limit: Math.min(Math.max(parseInt(limit || '50', 10) || 50, 1), MAX_POSITIONS_PAGE_SIZE),
+      offset: Math.max(parseInt(offset || '0', 10) || 0, 0),
+    });
 
-    return c.json({
-      positions,
-      total: positions.length,
-    }, 200);
+    return c.json(result, 200);
   })
   .openapi(getPositionRoute, async (c) => {
     const { positionId } = c.req.valid('param');
@@ -428,39 +492,39 @@ export const portfolioRoutes = new OpenAPIHono<AppEnv>()
       return c.json({ error: 'Authentication required', code: 'AUTH_REQUIRED' }, 401);
     }
 
-    // TODO: Fetch from database
-    return c.json({
-      id: positionId,
-      chainId: 'base' as const,
-      token: {
-        address: '0x4ed4E862860beD51a9570b96d89aF5E1B0Efefed',
-        symbol: 'DEGEN',
-        name: 'Degen',
-        decimals: 18,
-      },
-      amount: '100000000000000000000000',
-      amountFormatted: '100,000',
-      entryPrice: 0.015,
-      currentPrice: 0.018,
-      costBasis: 1500.00,
-      currentValue: 1800.00,
-      unrealizedPnl: 300.00,
-      unrealizedPnlPercent: 20.0,
-      isOpen: true,
-      openedAt: new Date(Date.now() - 86400000 * 3).toISOString(),
-      trades: [
-        {
-          id: 'trade_1',
-          chainId: 'base' as const,
-          type: 'buy' as const,
-          tokenIn: { symbol: 'ETH', amount: '500000000000000000', amountUsd: 1500.00 },
-          tokenOut: { symbol: 'DEGEN', amount: '100000000000000000000000', amountUsd: 1500.00 },
-          fee: 0,
-          txHash: '0xabc123...',
-          executedAt: new Date(Date.now() - 86400000 * 3).toISOString(),
-        },
-      ],
-    }, 200);
+    const position = await positionService.get(userId, positionId);
+    if (!position) {
+      return c.json({ error: 'Position not found', code: 'POSITION_NOT_FOUND' }, 404);
+    }
+
+    return c.json(position, 200);
+  })
+  .openapi(transferPositionRoute, async (c) => {
+    const { positionId } = c.req.valid('param');
+    const { toWalletId, amount, lotIds } = c.req.valid('json');
+    const userId = c.get('userId');
+
+    if (!userId) {
+      return c.json({ error: 'Authentication required', code: 'AUTH_REQUIRED' }, 401);
+    }
+
+    if (!/^\d+$/.test(amount) || BigInt(amount) === 0n) {
+      return c.json({ error: 'amount must be a positive integer', code: 'INVALID_AMOUNT' }, 400);
+    }
+
+    const moved = await positionService.transfer(userId, positionId, {
+      toWalletId,
+      amount: BigInt(amount),
+      lotIds,
+    });
+    if (moved === null) {
+      return c.json(
+        { error: 'Position or destination wallet not found', code: 'POSITION_NOT_FOUND' },
+        404
+      );
+    }
+
+    return c.json({ moved: moved.toString() }, 200);
   })
   .openapi(getSummaryRoute, async (c) => {
     const userId = c.get('userId');
@@ -502,6 +566,21 @@ export const portfolioRoutes = new OpenAPIHono<AppEnv>()
       },
     }, 200);
   })
+  .openapi(getExportRoute, async (c) => {
+    const { year, format } = c.req.valid('query');
+    const userId = c.get('userId');
+
+    if (!userId) {
+      return c.json({ error: 'Authentication required', code: 'AUTH_REQUIRED' }, 401);
+    }
+
+    const { filename, content } = await taxExportService.export(userId, parseInt(year, 10), format);
+
+    return c.body(content, 200, {
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${filename}"`,
+    });
+  })
   .openapi(getStatsRoute, async (c) => {
     const userId = c.get('userId');
 
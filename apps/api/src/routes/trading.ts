@@ -1,6 +1,76 @@
 // @ts-nocheck
 import { OpenAPIHono, createRoute, z } from '@hono/zod-openapi';
+import { checkTradeScope, type ApiKeyScope } from '@chainhopper/core/auth';
 import type { AppEnv } from '../app.js';
+import {
+  adapterRegistry,
+  fromSwapQuote,
+  priceOracle,
+  quoteStore,
+  swapRepository,
+  toDbDexAggregator,
+  type QuoteToken,
+  type StoredQuote,
+} from '../services/index.js';
+
+const BUILD_TTL_MS = 120000; // 2 minutes
+const DEFAULT_SLIPPAGE = 0.5;
+const MAX_SWAPS_PAGE_SIZE = 100;
+
+/**
+ * Check a quote against the scope of the API key making the request.
+ * Requests authenticated any other way have no scope.
+ */
+function checkApiKeyScope(scope: ApiKeyScope | undefined, quote: StoredQuote) {
+  if (!scope) return null;
+  return checkTradeScope(scope, { chainId: quote.chainId, notionalUsd: quote.amountInUsd });
+}
+
+/**
+ * Strip server-side fields from a stored quote for the /quote response
+ */
+function toQuoteResponse(quote: StoredQuote) {
+  const {
+    userId,
+    recipient,
+    transaction,
+    swapQuote,
+    amountInUsd,
+    amountOutUsd,
+    slippage,
+    ...response
+  } = quote;
+  return response;
+}
+
+/**
+ * Value both sides of a quote at oracle prices and carry over any warning
+ * the oracle raised about either token. An unreachable oracle leaves the
+ * quote unpriced rather than failing it.
+ */
+async function priceQuote(quote: StoredQuote): Promise<StoredQuote> {
+  const tokens = [quote.tokenIn, quote.tokenOut];
+  const prices = await priceOracle
+    .getPrices(tokens.map(({ address, chainId }) => ({ address, chainId })))
+    .catch((error) => {
+      console.warn('[Trading] Quote price lookup failed:', error);
+      return new Map();
+    });
+
+  const priceOf = (token: QuoteToken) =>
+    prices.get(`${token.chainId}:${token.address.toLowerCase()}`);
+  const valueOf = (token: QuoteToken, amount: string) => {
+    const price = priceOf(token);
+    return price ? (Number(amount) / 10 ** token.decimals) * price.priceUsd : undefined;
+  };
+
+  return {
+    ...quote,
+    amountInUsd: valueOf(quote.tokenIn, quote.amountIn),
+    amountOutUsd: valueOf(quote.tokenOut, quote.amountOut),
+    priceWarning: tokens.map((token) => priceOf(token)?.metadata?.priceWarning).find(Boolean),
+  };
+}
 
 // ============================================================================
 // Schemas
@@ -44,6 +114,16 @@ const FeeBreakdownSchema = z.object({
   dexFeeUsd: z.number().optional(),
 });
 
+const QuoteCandidateSchema = z.object({
+  dexAggregator: z.string().openapi({ example: '1inch' }),
+  source: z.string().optional().openapi({ example: '1inch', description: 'DEX source that quoted' }),
+  amountOut: z.string().openapi({ example: '3250000000', description: 'Gross output amount' }),
+  estimatedGas: z.string().openapi({ example: '150000' }),
+  gasCost: z.string().openapi({ example: '9750000', description: 'Gas cost in output token units (0 if unpriced)' }),
+  gasCostUsd: z.number().optional().openapi({ example: 9.75 }),
+  netAmountOut: z.string().openapi({ example: '3240250000', description: 'Output after gas cost' }),
+});
+
 const QuoteResponseSchema = z.object({
   id: z.string().openapi({ example: 'quote_abc123' }),
   chainId: ChainIdSchema,
@@ -58,7 +138,23 @@ const QuoteResponseSchema = z.object({
   gasPrice: z.string().openapi({ example: '30000000000' }),
   fee: FeeBreakdownSchema,
   expiresAt: z.string().openapi({ example: '2025-01-14T12:00:00Z' }),
-  dexAggregator: z.enum(['jupiter', '1inch', 'paraswap', '0x', 'stonfi', 'dedust', 'cetus', 'turbos']),
+  dexAggregator: z.enum([
+    'jupiter', '1inch', 'paraswap', '0x', 'oogabooga', 'dragonswap',
+    'klayswap', 'stonfi', 'dedust', 'cetus', 'turbos'
+  ]),
+  source: z.string().optional().openapi({
+    example: 'zksync',
+    description: 'DEX source that quoted',
+  }),
+  ranking: z.array(QuoteCandidateSchema).optional().openapi({
+    description: 'Every source that quoted, best output net of gas first',
+  }),
+  priceWarning: z.object({
+    code: z.enum(['low_liquidity', 'price_deviation']),
+    message: z.string(),
+  }).optional().openapi({
+    description: 'Set when a token price comes only from shallow pools or price sources disagree',
+  }),
 });
 
 const SwapResponseSchema = z.object({
@@ -96,7 +192,9 @@ const getQuoteRoute = createRoute({
   path: '/quote',
   tags: ['Trading'],
   summary: 'Get swap quote',
-  description: 'Get a quote for swapping tokens. No authentication required for quotes.',
+  description:
+    'Get a quote for swapping tokens. No authentication required; API keys need READ_QUOTES.',
+  security: [{}, { bearerAuth: [] }, { apiKeyAuth: [] }, { telegramAuth: [] }],
   request: {
     query: z.object({
       chainId: ChainIdSchema,
@@ -113,7 +211,7 @@ const getQuoteRoute = createRoute({
     },
     400: {
       content: { 'application/json': { schema: ErrorSchema } },
-      description: 'Invalid parameters',
+      description: 'Invalid parameters or chain not supported',
     },
     503: {
       content: { 'application/json': { schema: ErrorSchema } },
@@ -128,7 +226,7 @@ const buildSwapRoute = createRoute({
   tags: ['Trading'],
   summary: 'Build swap transaction',
   description: 'Build a transaction for executing a swap. Requires authentication.',
-  security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+  security: [{ bearerAuth: [] }, { apiKeyAuth: [] }, { telegramAuth: [] }],
   request: {
     body: {
       content: {
@@ -155,10 +253,18 @@ const buildSwapRoute = createRoute({
       content: { 'application/json': { schema: ErrorSchema } },
       description: 'Not authenticated',
     },
+    403: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'API key scope does not allow this trade',
+    },
     410: {
       content: { 'application/json': { schema: ErrorSchema } },
       description: 'Quote has expired',
     },
+    503: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Chain or DEX unavailable',
+    },
   },
 });
 
@@ -168,7 +274,7 @@ const submitSwapRoute = createRoute({
   tags: ['Trading'],
   summary: 'Submit swap transaction',
   description: 'Record a submitted swap transaction for tracking. Call this after broadcasting the tx.',
-  security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+  security: [{ bearerAuth: [] }, { apiKeyAuth: [] }, { telegramAuth: [] }],
   request: {
     body: {
       content: {
@@ -176,6 +282,9 @@ const submitSwapRoute = createRoute({
           schema: z.object({
             quoteId: z.string(),
             txHash: z.string().openapi({ description: 'Transaction hash after broadcasting' }),
+            lotIds: z.array(z.string()).optional().openapi({
+              description: 'Lots to sell first when the user picks lots per sell',
+            }),
           }),
         },
       },
@@ -194,6 +303,10 @@ const submitSwapRoute = createRoute({
       content: { 'application/json': { schema: ErrorSchema } },
       description: 'Not authenticated',
     },
+    403: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'API key scope does not allow this trade',
+    },
   },
 });
 
@@ -203,7 +316,7 @@ const getSwapRoute = createRoute({
   tags: ['Trading'],
   summary: 'Get swap status',
   description: 'Get the current status of a swap transaction',
-  security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+  security: [{ bearerAuth: [] }, { apiKeyAuth: [] }, { telegramAuth: [] }],
   request: {
     params: z.object({
       swapId: z.string(),
@@ -231,7 +344,7 @@ const listSwapsRoute = createRoute({
   tags: ['Trading'],
   summary: 'List user swaps',
   description: 'Get a paginated list of user\'s swap transactions',
-  security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+  security: [{ bearerAuth: [] }, { apiKeyAuth: [] }, { telegramAuth: [] }],
   request: {
     query: z.object({
       chainId: ChainIdSchema.optional(),
@@ -267,6 +380,7 @@ const getTokensRoute = createRoute({
   tags: ['Trading'],
   summary: 'Search tokens',
   description: 'Search for tokens by address or symbol',
+  security: [{}, { bearerAuth: [] }, { apiKeyAuth: [] }, { telegramAuth: [] }],
   request: {
     query: z.object({
       chainId: ChainIdSchema,
@@ -298,6 +412,7 @@ const getTokenRoute = createRoute({
   tags: ['Trading'],
   summary: 'Get token details',
   description: 'Get detailed information about a specific token',
+  security: [{}, { bearerAuth: [] }, { apiKeyAuth: [] }, { telegramAuth: [] }],
   request: {
     params: z.object({
       chainId: ChainIdSchema,
@@ -336,53 +451,46 @@ export const tradingRoutes = new OpenAPIHono<AppEnv>()
   .openapi(getQuoteRoute, async (c) => {
     const { chainId, tokenIn, tokenOut, amountIn, slippage } = c.req.valid('query');
 
-    // TODO: Call adapter to get actual quote
-    // For now, return mock data
-    const quoteId = `quote_${crypto.randomUUID().slice(0, 8)}`;
-    const expiresAt = new Date(Date.now() + 60000).toISOString(); // 1 minute
+    const adapter = adapterRegistry.get(chainId);
+    if (!adapter || !adapter.config.isEnabled) {
+      return c.json({ error: `Chain ${chainId} is not supported`, code: 'CHAIN_NOT_SUPPORTED' }, 400);
+    }
 
-    return c.json({
-      id: quoteId,
-      chainId,
-      tokenIn: {
-        address: tokenIn,
-        chainId,
-        symbol: 'ETH',
-        name: 'Ethereum',
-        decimals: 18,
-      },
-      tokenOut: {
-        address: tokenOut,
+    if (!/^\d+$/.test(amountIn) || BigInt(amountIn) === 0n) {
+      return c.json({ error: 'amountIn must be a positive integer', code: 'INVALID_AMOUNT' }, 400);
+    }
+
+    const slippagePercent = slippage ? parseFloat(slippage) : DEFAULT_SLIPPAGE;
+    if (!Number.isFinite(slippagePercent) || slippagePercent < 0 || slippagePercent > 50) {
+      return c.json({ error: 'slippage must be between 0 and 50', code: 'INVALID_SLIPPAGE' }, 400);
+    }
+
+    if (!adapter.isValidAddress(tokenIn) || !adapter.isValidAddress(tokenOut)) {
+      return c.json({ error: 'Invalid token address', code: 'INVALID_TOKEN' }, 400);
+    }
+
+    let swapQuote;
+    try {
+      swapQuote = await adapter.getQuote({
         chainId,
-        symbol: 'USDC',
-        name: 'USD Coin',
-        decimals: 6,
-      },
-      amountIn,
-      amountOut: '3250000000', // Mock: ~3250 USDC
-      amountOutMin: '3217500000', // 1% slippage
-      priceImpact: 0.15,
-      route: [
-        {
-          dex: 'uniswap_v3',
-          poolAddress: '0x8ad599c3a0ff1de082011efddc58f1908eb6e6d8',
-          tokenIn,
-          tokenOut,
-          percentage: 100,
-        },
-      ],
-      estimatedGas: '150000',
-      gasPrice: '30000000000',
-      fee: {
-        totalFeeUsd: 2.50,
-        protocolFee: '0',
-        protocolFeeUsd: 0,
-        networkFee: '4500000000000000',
-        networkFeeUsd: 2.50,
-      },
-      expiresAt,
-      dexAggregator: '1inch' as const,
-    }, 200);
+        tokenIn,
+        tokenOut,
+        amountIn: BigInt(amountIn),
+        slippage: slippagePercent,
+        recipient: '',
+      });
+      // A swap can't be recorded against a DEX the database has no value for
+      toDbDexAggregator(swapQuote.dexAggregator, swapQuote.source);
+    } catch (error) {
+      console.error(`[Trading] Quote failed on ${chainId}:`, error);
+      return c.json({ error: 'No quote available for this pair', code: 'QUOTE_UNAVAILABLE' }, 503);
+    }
+
+    const quote = await quoteStore.save(
+      await priceQuote(fromSwapQuote(swapQuote, slippagePercent))
+    );
+
+    return c.json(toQuoteResponse(quote), 200);
   })
   .openapi(buildSwapRoute, async (c) => {
     const { quoteId, recipient, deadline } = c.req.valid('json');
@@ -392,60 +500,87 @@ export const tradingRoutes = new OpenAPIHono<AppEnv>()
       return c.json({ error: 'Authentication required', code: 'AUTH_REQUIRED' }, 401);
     }
 
-    // TODO: Look up quote and build actual transaction
-    const expiresAt = new Date(Date.now() + 120000).toISOString(); // 2 minutes
+    const quote = await quoteStore.get(quoteId);
+    if (!quote || (quote.userId && quote.userId !== userId)) {
+      return c.json({ error: 'Quote not found', code: 'QUOTE_NOT_FOUND' }, 400);
+    }
+
+    if (quoteStore.isExpired(quote)) {
+      return c.json({ error: 'Quote has expired', code: 'QUOTE_EXPIRED' }, 410);
+    }
+
+    const scopeViolation = checkApiKeyScope(c.get('apiKeyScope'), quote);
+    if (scopeViolation) {
+      return c.json(scopeViolation, 403);
+    }
+
+    const adapter = adapterRegistry.get(quote.chainId);
+    if (!adapter || !quote.swapQuote) {
+      return c.json({ error: `Chain ${quote.chainId} is not supported`, code: 'CHAIN_NOT_SUPPORTED' }, 400);
+    }
+
+    // A transaction built earlier is reused only for the same recipient
+    let transaction = quote.recipient === recipient ? quote.transaction : undefined;
+    if (!transaction) {
+      try {
+        const tx = await adapter.buildSwapTransaction(quote.swapQuote, recipient);
+        transaction = {
+          to: tx.to,
+          data: tx.data,
+          value: tx.value.toString(),
+          gasLimit: (tx.gasLimit ?? (BigInt(quote.estimatedGas) * 120n) / 100n).toString(),
+        };
+      } catch (error) {
+        console.error(`[Trading] Build failed for ${quoteId}:`, error);
+        return c.json({ error: 'Failed to build swap transaction', code: 'BUILD_FAILED' }, 503);
+      }
+    }
+
+    await quoteStore.update(quoteId, { userId, recipient, transaction });
+
+    const expiresAt = deadline
+      ? new Date(deadline * 1000).toISOString()
+      : new Date(Date.now() + BUILD_TTL_MS).toISOString();
 
     return c.json({
       quoteId,
-      chainId: 'base' as const,
-      to: '0x1111111254fb6c44bAC0beD2854e76F90643097d', // 1inch router
-      data: '0x12aa3caf...', // Mock calldata
-      value: '1000000000000000000',
-      gasLimit: '200000',
+      chainId: quote.chainId,
+      to: transaction.to,
+      data: transaction.data,
+      value: transaction.value,
+      gasLimit: transaction.gasLimit,
       expiresAt,
     }, 200);
   })
   .openapi(submitSwapRoute, async (c) => {
-    const { quoteId, txHash } = c.req.valid('json');
+    const { quoteId, txHash, lotIds } = c.req.valid('json');
     const userId = c.get('userId');
 
     if (!userId) {
       return c.json({ error: 'Authentication required', code: 'AUTH_REQUIRED' }, 401);
     }
 
-    // TODO: Store swap record and start monitoring
-    const swapId = `swap_${crypto.randomUUID().slice(0, 8)}`;
+    // Submitting the same quote twice returns the existing swap
+    const existing = await swapRepository.findByQuoteId(userId, quoteId);
+    if (existing) {
+      return c.json(existing, 200);
+    }
 
-    return c.json({
-      id: swapId,
-      quoteId,
-      status: 'submitted' as const,
-      txHash,
-      chainId: 'base' as const,
-      tokenIn: {
-        address: '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE',
-        chainId: 'base' as const,
-        symbol: 'ETH',
-        name: 'Ethereum',
-        decimals: 18,
-      },
-      tokenOut: {
-        address: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
-        chainId: 'base' as const,
-        symbol: 'USDC',
-        name: 'USD Coin',
-        decimals: 6,
-      },
-      amountIn: '1000000000000000000',
-      fee: {
-        totalFeeUsd: 2.50,
-        protocolFee: '0',
-        protocolFeeUsd: 0,
-        networkFee: '4500000000000000',
-        networkFeeUsd: 2.50,
-      },
-      createdAt: new Date().toISOString(),
-    }, 200);
+    // Expired quotes are still accepted here: the transaction is already broadcast
+    const quote = await quoteStore.get(quoteId);
+    if (!quote || quote.userId !== userId || !quote.recipient) {
+      return c.json({ error: 'Quote not found or not built', code: 'QUOTE_NOT_FOUND' }, 400);
+    }
+
+    const scopeViolation = checkApiKeyScope(c.get('apiKeyScope'), quote);
+    if (scopeViolation) {
+      return c.json(scopeViolation, 403);
+    }
+
+    // Picked up by the confirmation tracker on its next poll
+    const swap = await swapRepository.createFromQuote(userId, quote, txHash, lotIds);
+
+    return c.json(swap, 200);
   })
   .openapi(getSwapRoute, async (c) => {
     const { swapId } = c.req.valid('param');
@@ -455,40 +590,12 @@ export const tradingRoutes = new OpenAPIHono<AppEnv>()
       return c.json({ error: 'Authentication required', code: 'AUTH_REQUIRED' }, 401);
     }
 
-    // TODO: Fetch from database
-    return c.json({
-      id: swapId,
-      quoteId: 'quote_123',
-      status: 'confirmed' as const,
-      txHash: '0xabc123...',
-      chainId: 'base' as const,
-      tokenIn: {
-        address: '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE',
-        chainId: 'base' as const,
-        symbol: 'ETH',
-        name: 'Ethereum',
-        decimals: 18,
-      },
-      tokenOut: {
-        address: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
-        chainId: 'base' as const,
-        symbol: 'USDC',
-        name: 'USD Coin',
-        decimals: 6,
-      },
-      amountIn: '1000000000000000000',
-      amountOut: '3248000000',
-      fee: {
-        totalFeeUsd: 2.50,
-        protocolFee: '0',
-        protocolFeeUsd: 0,
-        networkFee: '4500000000000000',
-        networkFeeUsd: 2.50,
-      },
-      createdAt: new Date(Date.now() - 60000).toISOString(),
-      executedAt: new Date(Date.now() - 45000).toISOString(),
-      confirmedAt: new Date().toISOString(),
-    }, 200);
+    const swap = await swapRepository.findById(userId, swapId);
+    if (!swap) {
+      return c.json({ error: 'Swap not found', code: 'SWAP_NOT_FOUND' }, 404);
+    }
+
+    return c.json(swap, 200);
   })
   .openapi(listSwapsRoute, async (c) => {
     const { chainId, status, limit, offset } = c.req.valid('query');
@@ -498,12 +605,21 @@ export const tradingRoutes = new OpenAPIHono<AppEnv>()
       return c.json({ error: 'Authentication required', code: 'AUTH_REQUIRED' }, 401);
     }
 
-    // TODO: Fetch from database with filters
+    const pageLimit = Math.min(Math.max(parseInt(limit || '20', 10) || 20, 1), MAX_SWAPS_PAGE_SIZE);
+    const pageOffset = Math.max(parseInt(offset || '0', 10) || 0, 0);
+
+    const { swaps, total } = await swapRepository.list(userId, {
+      chainId,
+      status,
+      limit: pageLimit,
+      offset: pageOffset,
+    });
+
     return c.json({
-      swaps: [],
-      total: 0,
-      limit: parseInt(limit || '20', 10),
-      offset: parseInt(offset || '0', 10),
+      swaps,
+      total,
+      limit: pageLimit,
+      offset: pageOffset,
     }, 200);
   })
   .openapi(getTokensRoute, async (c) => {
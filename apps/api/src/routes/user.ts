@@ -1,6 +1,7 @@
 // @ts-nocheck
 import { OpenAPIHono, createRoute, z } from '@hono/zod-openapi';
 import type { AppEnv } from '../app.js';
+import { userSettings } from '../services/index.js';
 
 // ============================================================================
 // Schemas
@@ -32,6 +33,9 @@ const UserSettingsSchema = z.object({
   notifications: NotificationSettingsSchema,
   autoApprove: z.boolean(),
   maxTradeSize: z.number().optional().openapi({ description: 'Max trade size in USD' }),
+  costBasisMethod: z.enum(['fifo', 'lifo', 'average', 'specific']).optional().openapi({
+    description: 'How sells pick the lots they consume (default fifo)',
+  }),
 });
 
 const UserSchema = z.object({
@@ -95,7 +99,7 @@ const getMeRoute = createRoute({
   tags: ['Account'],
   summary: 'Get current user',
   description: 'Get the authenticated user\'s profile',
-  security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+  security: [{ bearerAuth: [] }, { apiKeyAuth: [] }, { telegramAuth: [] }],
   responses: {
     200: {
       content: { 'application/json': { schema: UserSchema } },
@@ -114,7 +118,7 @@ const updateSettingsRoute = createRoute({
   tags: ['Account'],
   summary: 'Update settings',
   description: 'Update user settings',
-  security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+  security: [{ bearerAuth: [] }, { apiKeyAuth: [] }, { telegramAuth: [] }],
   request: {
     body: {
       content: {
@@ -133,6 +137,10 @@ const updateSettingsRoute = createRoute({
       content: { 'application/json': { schema: ErrorSchema } },
       description: 'Not authenticated',
     },
+    404: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'User not found',
+    },
   },
 });
 
@@ -142,7 +150,7 @@ const getWalletsRoute = createRoute({
   tags: ['Account'],
   summary: 'List wallets',
   description: 'Get all connected wallets',
-  security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+  security: [{ bearerAuth: [] }, { apiKeyAuth: [] }, { telegramAuth: [] }],
   request: {
     query: z.object({
       chainId: ChainIdSchema.optional(),
@@ -172,7 +180,7 @@ const addWalletRoute = createRoute({
   tags: ['Account'],
   summary: 'Add wallet',
   description: 'Connect a new wallet address',
-  security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+  security: [{ bearerAuth: [] }, { apiKeyAuth: [] }, { telegramAuth: [] }],
   request: {
     body: {
       content: {
@@ -209,7 +217,7 @@ const updateWalletRoute = createRoute({
   tags: ['Account'],
   summary: 'Update wallet',
   description: 'Update wallet label or set as default',
-  security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+  security: [{ bearerAuth: [] }, { apiKeyAuth: [] }, { telegramAuth: [] }],
   request: {
     params: z.object({
       walletId: z.string(),
@@ -247,7 +255,7 @@ const deleteWalletRoute = createRoute({
   tags: ['Account'],
   summary: 'Remove wallet',
   description: 'Disconnect a wallet',
-  security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+  security: [{ bearerAuth: [] }, { apiKeyAuth: [] }, { telegramAuth: [] }],
   request: {
     params: z.object({
       walletId: z.string(),
@@ -282,7 +290,7 @@ const getReferralStatsRoute = createRoute({
   tags: ['Account'],
   summary: 'Get referral stats',
   description: 'Get referral program statistics and earnings',
-  security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+  security: [{ bearerAuth: [] }, { apiKeyAuth: [] }, { telegramAuth: [] }],
   responses: {
     200: {
       content: { 'application/json': { schema: ReferralStatsSchema } },
@@ -301,7 +309,7 @@ const getReferralLinkRoute = createRoute({
   tags: ['Account'],
   summary: 'Get referral link',
   description: 'Get shareable referral links for different platforms',
-  security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+  security: [{ bearerAuth: [] }, { apiKeyAuth: [] }, { telegramAuth: [] }],
   responses: {
     200: {
       content: {
@@ -331,7 +339,7 @@ const getPointsRoute = createRoute({
   tags: ['Account'],
   summary: 'Get points balance',
   description: 'Get points program balance and breakdown',
-  security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+  security: [{ bearerAuth: [] }, { apiKeyAuth: [] }, { telegramAuth: [] }],
   responses: {
     200: {
       content: { 'application/json': { schema: PointsSchema } },
@@ -350,7 +358,7 @@ const getTierInfoRoute = createRoute({
   tags: ['Account'],
   summary: 'Get tier info',
   description: 'Get current tier and requirements for upgrades',
-  security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+  security: [{ bearerAuth: [] }, { apiKeyAuth: [] }, { telegramAuth: [] }],
   responses: {
     200: {
       content: {
@@ -407,6 +415,7 @@ export const userRoutes = new OpenAPIHono<AppEnv>()
           newListings: false,
         },
         autoApprove: false,
+        costBasisMethod: 'fifo' as const,
       },
       createdAt: new Date().toISOString(),
     }, 200);
@@ -419,19 +428,10 @@ export const userRoutes = new OpenAPIHono<AppEnv>()
       return c.json({ error: 'Authentication required', code: 'AUTH_REQUIRED' }, 401);
     }
 
-    // TODO: Update in database
-    const settings = {
-      defaultSlippage: updates.defaultSlippage ?? 0.5,
-      defaultChain: updates.defaultChain ?? ('base' as const),
-      notifications: {
-        tradeConfirmations: updates.notifications?.tradeConfirmations ?? true,
-        priceAlerts: updates.notifications?.priceAlerts ?? true,
-        portfolioUpdates: updates.notifications?.portfolioUpdates ?? true,
-        newListings: updates.notifications?.newListings ?? false,
-      },
-      autoApprove: updates.autoApprove ?? false,
-      maxTradeSize: updates.maxTradeSize,
-    };
+    const settings = await userSettings.update(userId, updates);
+    if (!settings) {
+      return c.json({ error: 'User not found', code: 'USER_NOT_FOUND' }, 404);
+    }
 
     return c.json(settings, 200);
   })
@@ -0,0 +1,144 @@
+/**
+ * Chain Adapter Registry
+ *
+ * In-process implementation of the AdapterRegistry interface.
+ * Routes resolve the adapter for a requested chain through the
+ * singleton registry, which is populated at startup.
+ *
+ * Chain health is probed on an interval and cached, so readiness checks
+ * never fan out to every RPC endpoint themselves.
+ */
+
+import type { AdapterRegistry, ChainAdapter, ChainId, ChainStatus } from '@chainhopper/types';
+
+export class ChainAdapterRegistry implements AdapterRegistry {
+  private adapters: Map<ChainId, ChainAdapter> = new Map();
+  private health: Promise<ChainStatus[]> | null = null;
+  private healthTimer: ReturnType<typeof setInterval> | null = null;
+
+  /**
+   * Register an adapter, replacing any existing adapter for the same chain
+   */
+  register(adapter: ChainAdapter): void {
+    this.adapters.set(adapter.chainId, adapter);
+    this.health = null;
+  }
+
+  /**
+   * Get the adapter for a chain
+   */
+  get(chainId: ChainId): ChainAdapter | undefined {
+    return this.adapters.get(chainId);
+  }
+
+  /**
+   * Check whether an enabled adapter exists for a chain
+   */
+  supports(chainId: ChainId): boolean {
+    return this.adapters.get(chainId)?.config.isEnabled ?? false;
+  }
+
+  /**
+   * Get all registered adapters
+   */
+  getAll(): ChainAdapter[] {
+    return Array.from(this.adapters.values());
+  }
+
+  /**
+   * Get adapters whose chain is enabled
+   */
+  getEnabled(): ChainAdapter[] {
+    return this.getAll().filter((adapter) => adapter.config.isEnabled);
+  }
+
+  /**
+   * Initialize all enabled adapters. Chains that fail to initialize
+   * stay registered so health checks can report them as down.
+   */
+  async initialize(): Promise<void> {
+    const enabled = this.getEnabled();
+    const results = await Promise.allSettled(enabled.map((adapter) => adapter.initialize()));
+
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        console.warn(`[Adapters] Failed to initialize ${enabled[index]?.chainId}:`, result.reason);
+      }
+    });
+  }
+
+  /**
+   * Probe every enabled chain's RPC endpoints and cache the result. A
+   * chain whose check throws is reported as down rather than failing the
+   * whole check.
+   */
+  async healthCheck(): Promise<ChainStatus[]> {
+    const check = this.probe();
+    // Callers keep getting the previous result until this one lands
+    this.health ??= check;
+    const statuses = await check;
+    this.health = check;
+    return statuses;
+  }
+
+  /**
+   * Chain health from the latest finished check, running one if there
+   * has been none yet
+   */
+  getHealth(): Promise<ChainStatus[]> {
+    return this.health ?? this.healthCheck();
+  }
+
+  /**
+   * Re-check chain health on an interval
+   */
+  startHealthChecks(intervalMs = 30_000): void {
+    if (this.healthTimer) return;
+
+    this.healthTimer = setInterval(() => {
+      this.healthCheck().catch((error) => {
+        console.error('[Adapters] Health check failed:', error);
+      });
+    }, intervalMs);
+  }
+
+  /**
+   * Stop the periodic health checks
+   */
+  stopHealthChecks(): void {
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer);
+      this.healthTimer = null;
+    }
+  }
+
+  /**
+   * Shut down all adapters and clear the registry
+   */
+  async shutdown(): Promise<void> {
+    this.stopHealthChecks();
+    await Promise.allSettled(this.getAll().map((adapter) => adapter.shutdown()));
+    this.adapters.clear();
+    this.health = null;
+  }
+
+  private async probe(): Promise<ChainStatus[]> {
+    const enabled = this.getEnabled();
+    const results = await Promise.allSettled(enabled.map((adapter) => adapter.healthCheck()));
+
+    return results.map((result, index) =>
+      result.status === 'fulfilled'
+        ? result.value
+        : {
+            chainId: enabled[index]!.chainId,
+            isHealthy: false,
+            blockNumber: 0n,
+            latency: 0,
+            lastUpdated: new Date(),
+          }
+    );
+  }
+}
+
+// Singleton instance
+export const adapterRegistry = new ChainAdapterRegistry();
@@ -0,0 +1,54 @@
+/**
+ * Default Chain Adapters
+ *
+ * Builds the adapter set served by the API: every enabled EVM chain
+ * plus the TON, Sui, Solana and Eclipse adapters.
+ */
+
+import {
+  createAllEvmAdapters,
+  TonChainAdapter,
+  createTonConfig,
+  createSuiAdapter,
+  createSolanaAdapter,
+  createEclipseAdapter,
+} from '@chainhopper/adapters';
+import type { TokenPriceSource } from '@chainhopper/adapters';
+import type { ChainAdapter } from '@chainhopper/types';
+import type { ChainAdapterRegistry } from './adapter-registry.js';
+
+export interface DefaultAdapterOptions {
+  oneInchApiKey?: string;
+  /** Used by EVM adapters to rank quotes net of gas */
+  priceSource?: TokenPriceSource;
+}
+
+/**
+ * Create adapters for all supported chains
+ */
+export function createDefaultAdapters(options: DefaultAdapterOptions = {}): ChainAdapter[] {
+  const evmAdapters = createAllEvmAdapters({
+    oneInchApiKey: options.oneInchApiKey,
+    priceSource: options.priceSource,
+  });
+
+  return [
+    ...evmAdapters.values(),
+    new TonChainAdapter(createTonConfig()),
+    createSuiAdapter(),
+    createSolanaAdapter(),
+    createEclipseAdapter(),
+  ];
+}
+
+/**
+ * Populate a registry with the default adapters
+ */
+export function registerDefaultAdapters(
+  registry: ChainAdapterRegistry,
+  options: DefaultAdapterOptions = {}
+): void {
+  for (const adapter of createDefaultAdapters(options)) {
+    registry.register(adapter);
+  }
+}
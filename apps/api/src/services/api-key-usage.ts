@@ -0,0 +1,213 @@
+/**
+ * API Key Usage
+ *
+ * Daily request counters for API keys. The auth middleware reports every
+ * rate-limited request here; counts are tallied in memory and added to the
+ * ApiKeyUsage table on a timer, so requests never wait on a database
+ * write. Each replica adds its own tallies, so the stored totals cover
+ * every replica.
+ */
+
+import { prisma } from '@chainhopper/core/prisma';
+import type { ApiKeyUsageEvent } from '@chainhopper/core/auth';
+
+/**
+ * Cost of a request against its key's per-minute limit, keyed by
+ * `METHOD /path` or `/path`. Unlisted routes cost 1.
+ */
+export const API_KEY_REQUEST_WEIGHTS: Record<string, number> = {
+  // Fans out to every aggregator on the chain
+  'GET /quote': 5,
+  'POST /swap/build': 3,
+  'POST /swap/submit': 2,
+  // Price every holding through the oracle
+  'GET /portfolio/summary': 3,
+  'GET /portfolio/balances': 3,
+  'GET /portfolio/export': 10,
+  'GET /tokens': 1,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ApiKeyUsageDay {
+  /** UTC day, YYYY-MM-DD */
+  date: string;
+  /** Every request, including rejected ones */
+  requests: number;
+  /** Rate-limit weight of the accepted requests */
+  weight: number;
+  /** Requests turned away by the rate limit */
+  rejected: number;
+}
+
+export interface ApiKeyUsageResponse {
+  keyId: string;
+  rateLimit: number;
+  totalRequests: number;
+  totalWeight: number;
+  totalRejected: number;
+  days: ApiKeyUsageDay[];
+}
+
+interface UsageTally {
+  keyId: string;
+  date: Date;
+  requests: number;
+  weight: number;
+  rejected: number;
+}
+
+export class ApiKeyUsageService {
+  /** Counts not yet written, keyed by `${keyId}:${YYYY-MM-DD}` */
+  private pending = new Map<string, UsageTally>();
+  private flushTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private db: typeof prisma = prisma,
+    private flushIntervalMs = 30_000
+  ) {}
+
+  /**
+   * Count a request made with an API key
+   */
+  async record(keyId: string, usage: ApiKeyUsageEvent): Promise<void> {
+    const date = startOfUtcDay(new Date());
+    this.add({
+      keyId,
+      date,
+      requests: 1,
+      weight: usage.rejected ? 0 : usage.weight,
+      rejected: usage.rejected ? 1 : 0,
+    });
+  }
+
+  /**
+   * Start writing counts to the database periodically
+   */
+  start(): void {
+    if (this.flushTimer) return;
+
+    this.flushTimer = setInterval(() => {
+      this.flush().catch((error) => {
+        console.error('[ApiKeyUsage] Flush failed:', error);
+      });
+    }, this.flushIntervalMs);
+  }
+
+  /**
+   * Stop the timer and write whatever is still pending
+   */
+  async stop(): Promise<void> {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    await this.flush();
+  }
+
+  /**
+   * Add pending counts to the daily rows. Counts that fail to write are
+   * kept for the next flush. Returns the number of rows written.
+   */
+  async flush(): Promise<number> {
+    const batch = [...this.pending.values()];
+    this.pending.clear();
+
+    let written = 0;
+    for (const tally of batch) {
+      try {
+        await this.db.apiKeyUsage.upsert({
+          where: { apiKeyId_date: { apiKeyId: tally.keyId, date: tally.date } },
+          create: {
+            apiKeyId: tally.keyId,
+            date: tally.date,
+            requests: tally.requests,
+            weight: tally.weight,
+            rejected: tally.rejected,
+          },
+          update: {
+            requests: { increment: tally.requests },
+            weight: { increment: tally.weight },
+            rejected: { increment: tally.rejected },
+          },
+        });
+        written++;
+      } catch (error) {
+        // A deleted key cascades its usage away, so its counts can go too
+        if ((error as { code?: string }).code === 'P2003') continue;
+        console.error(`[ApiKeyUsage] Failed to write usage for ${tally.keyId}:`, error);
+        this.add(tally);
+      }
+    }
+
+    return written;
+  }
+
+  /**
+   * Daily usage of one of a user's keys over the last `days` days,
+   * including today. Null when the key doesn't exist or isn't theirs.
+   */
+  async getUsage(userId: string, keyId: string, days: number): Promise<ApiKeyUsageResponse | null> {
+    const key = await this.db.apiKey.findFirst({
+      where: { id: keyId, userId },
+      select: { id: true, rateLimit: true },
+    });
+    if (!key) return null;
+
+    const since = new Date(startOfUtcDay(new Date()).getTime() - (days - 1) * DAY_MS);
+    const rows: { date: Date; requests: number; weight: number; rejected: number }[] =
+      await this.db.apiKeyUsage.findMany({
+        where: { apiKeyId: keyId, date: { gte: since } },
+        orderBy: { date: 'asc' },
+      });
+
+    const byDate = new Map<string, ApiKeyUsageDay>();
+    for (let i = 0; i < days; i++) {
+      const date = formatDate(new Date(since.getTime() + i * DAY_MS));
+      byDate.set(date, { date, requests: 0, weight: 0, rejected: 0 });
+    }
+
+    const unflushed = [...this.pending.values()].filter((tally) => tally.keyId === keyId);
+    for (const row of [...rows, ...unflushed]) {
+      const day = byDate.get(formatDate(row.date));
+      if (!day) continue;
+      day.requests += row.requests;
+      day.weight += row.weight;
+      day.rejected += row.rejected;
+    }
+
+    const usage = [...byDate.values()];
+    return {
+      keyId,
+      rateLimit: key.rateLimit,
+      totalRequests: usage.reduce((sum, day) => sum + day.requests, 0),
+      totalWeight: usage.reduce((sum, day) => sum + day.weight, 0),
+      totalRejected: usage.reduce((sum, day) => sum + day.rejected, 0),
+      days: usage,
+    };
+  }
+
+  private add(tally: UsageTally): void {
+    const id = `${tally.keyId}:${formatDate(tally.date)}`;
+    const existing = this.pending.get(id);
+    if (!existing) {
+      this.pending.set(id, { ...tally });
+      return;
+    }
+
+    existing.requests += tally.requests;
+    existing.weight += tally.weight;
+    existing.rejected += tally.rejected;
+  }
+}
+
+function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export const apiKeyUsage = new ApiKeyUsageService();
@@ -0,0 +1,226 @@
+/**
+ * API Key Service
+ *
+ * Creates, lists, rotates and revokes users' API keys, and finds keys by
+ * hash for the auth middleware. Only hashes are stored; the full key is
+ * returned once, when it is created or rotated.
+ */
+
+import { prisma } from '@chainhopper/core/prisma';
+import {
+  generateApiKey,
+  rotateApiKey,
+  type ApiKeyMode,
+  type ApiKeyScope,
+} from '@chainhopper/core/auth';
+import { fromDbChainId, toDbChainId } from './swap-repository.js';
+
+export const MAX_API_KEYS_PER_USER = 10;
+
+export interface ApiKeyResponse {
+  id: string;
+  name: string;
+  keyPrefix: string;
+  permissions: string[];
+  mode: ApiKeyMode;
+  chains: string[];
+  maxNotionalUsd?: number;
+  allowedIps: string[];
+  rateLimit: number;
+  lastUsed?: string;
+  expiresAt?: string;
+  rotatedAt?: string;
+  /** When the secret replaced by the last rotation stops working */
+  previousKeyExpiresAt?: string;
+  createdAt: string;
+}
+
+export interface CreatedApiKey extends ApiKeyResponse {
+  /** The full key; it cannot be retrieved again */
+  key: string;
+}
+
+export interface CreateApiKeyInput {
+  name: string;
+  permissions: string[];
+  mode: ApiKeyMode;
+  chains: string[];
+  maxNotionalUsd?: number;
+  allowedIps: string[];
+  expiresAt?: Date;
+}
+
+/** An active key as the auth middleware sees it */
+export interface ApiKeyLookup {
+  id: string;
+  userId: string;
+  permissions: string[];
+  rateLimit: number;
+  isActive: boolean;
+  expiresAt: Date | null;
+  previousKeyHash: string | null;
+  previousKeyExpiresAt: Date | null;
+  scope: ApiKeyScope;
+}
+
+interface ApiKeyRecord {
+  id: string;
+  userId: string;
+  name: string;
+  keyHash: string;
+  keyPrefix: string;
+  permissions: string[];
+  rateLimit: number;
+  mode: string;
+  allowedChains: string[];
+  maxNotionalUsd: { toString(): string } | null;
+  allowedIps: string[];
+  previousKeyHash: string | null;
+  previousKeyExpiresAt: Date | null;
+  rotatedAt: Date | null;
+  lastUsedAt: Date | null;
+  expiresAt: Date | null;
+  isActive: boolean;
+  createdAt: Date;
+}
+
+export class ApiKeyService {
+  constructor(private db: typeof prisma = prisma) {}
+
+  /**
+   * A user's active keys, newest first
+   */
+  async list(userId: string): Promise<ApiKeyResponse[]> {
+    const keys: ApiKeyRecord[] = await this.db.apiKey.findMany({
+      where: { userId, isActive: true },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return keys.map(toApiKeyResponse);
+  }
+
+  async countActive(userId: string): Promise<number> {
+    return this.db.apiKey.count({ where: { userId, isActive: true } });
+  }
+
+  /**
+   * Create a key. The caller checks the per-user limit and validates the
+   * IP allow-list first.
+   */
+  async create(userId: string, input: CreateApiKeyInput): Promise<CreatedApiKey> {
+    const generated = generateApiKey();
+
+    const key: ApiKeyRecord = await this.db.apiKey.create({
+      data: {
+        userId,
+        name: input.name,
+        keyHash: generated.keyHash,
+        keyPrefix: generated.keyPrefix,
+        permissions: input.permissions,
+        mode: input.mode.toUpperCase(),
+        allowedChains: input.chains.map(toDbChainId),
+        maxNotionalUsd: input.maxNotionalUsd ?? null,
+        allowedIps: input.allowedIps,
+        expiresAt: input.expiresAt ?? null,
+      },
+    });
+
+    return { ...toApiKeyResponse(key), key: generated.key };
+  }
+
+  /**
+   * Issue a new secret for a key. The old secret keeps working for
+   * `overlapMs`; rotating again ends any earlier overlap immediately.
+   * Returns null when the key doesn't exist or isn't the user's.
+   */
+  async rotate(userId: string, keyId: string, overlapMs: number): Promise<CreatedApiKey | null> {
+    const existing: ApiKeyRecord | null = await this.db.apiKey.findFirst({
+      where: { id: keyId, userId, isActive: true },
+    });
+    if (!existing) return null;
+
+    const rotated = rotateApiKey(existing.keyHash, overlapMs);
+
+    const key: ApiKeyRecord = await this.db.apiKey.update({
+      where: { id: keyId },
+      data: {
+        keyHash: rotated.keyHash,
+        keyPrefix: rotated.keyPrefix,
+        previousKeyHash: rotated.previousKeyHash,
+        previousKeyExpiresAt: rotated.previousKeyExpiresAt,
+        rotatedAt: new Date(),
+      },
+    });
+
+    return { ...toApiKeyResponse(key), key: rotated.key };
+  }
+
+  /**
+   * Deactivate a key and any secret still in a rotation overlap. Usage
+   * history is kept. Returns false when there was no such active key.
+   */
+  async revoke(userId: string, keyId: string): Promise<boolean> {
+    const { count } = await this.db.apiKey.updateMany({
+      where: { id: keyId, userId, isActive: true },
+      data: { isActive: false, previousKeyHash: null, previousKeyExpiresAt: null },
+    });
+
+    return count > 0;
+  }
+
+  /**
+   * Find a key by the hash of its current secret or, while a rotation
+   * overlap lasts, its previous one
+   */
+  async findByHash(keyHash: string): Promise<ApiKeyLookup | null> {
+    const key: ApiKeyRecord | null = await this.db.apiKey.findFirst({
+      where: { OR: [{ keyHash }, { previousKeyHash: keyHash }] },
+    });
+    if (!key) return null;
+
+    return {
+      id: key.id,
+      userId: key.userId,
+      permissions: key.permissions,
+      rateLimit: key.rateLimit,
+      isActive: key.isActive,
+      expiresAt: key.expiresAt,
+      previousKeyHash: key.previousKeyHash,
+      previousKeyExpiresAt: key.previousKeyExpiresAt,
+      scope: toScope(key),
+    };
+  }
+}
+
+function toScope(key: ApiKeyRecord): ApiKeyScope {
+  return {
+    mode: key.mode.toLowerCase() as ApiKeyMode,
+    chains: key.allowedChains.map(fromDbChainId),
+    maxNotionalUsd: key.maxNotionalUsd === null ? null : Number(key.maxNotionalUsd.toString()),
+    allowedIps: key.allowedIps,
+  };
+}
+
+function toApiKeyResponse(key: ApiKeyRecord): ApiKeyResponse {
+  const scope = toScope(key);
+  const overlapActive = key.previousKeyExpiresAt && key.previousKeyExpiresAt > new Date();
+
+  return {
+    id: key.id,
+    name: key.name,
+    keyPrefix: key.keyPrefix,
+    permissions: key.permissions,
+    mode: scope.mode,
+    chains: scope.chains,
+    ...(scope.maxNotionalUsd !== null && { maxNotionalUsd: scope.maxNotionalUsd }),
+    allowedIps: scope.allowedIps,
+    rateLimit: key.rateLimit,
+    lastUsed: key.lastUsedAt?.toISOString(),
+    expiresAt: key.expiresAt?.toISOString(),
+    rotatedAt: key.rotatedAt?.toISOString(),
+    previousKeyExpiresAt: overlapActive ? key.previousKeyExpiresAt!.toISOString() : undefined,
+    createdAt: key.createdAt.toISOString(),
+  };
+}
+
+export const apiKeyService = new ApiKeyService();
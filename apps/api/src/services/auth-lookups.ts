@@ -0,0 +1,77 @@
+/**
+ * Auth Lookups
+ *
+ * Database-backed identity lookups for the core auth middleware: users by
+ * id or Telegram id, API keys by hash, and per-key bookkeeping.
+ */
+
+import { prisma } from '@chainhopper/core/prisma';
+import type { ApiKeyUsageEvent, AuthLookupFunctions, TelegramUser } from '@chainhopper/core/auth';
+import { apiKeyService, type ApiKeyLookup, type ApiKeyService } from './api-keys.js';
+import { apiKeyUsage, type ApiKeyUsageService } from './api-key-usage.js';
+
+/** lastUsedAt is refreshed at most this often, so busy keys don't write on every request */
+const LAST_USED_RESOLUTION_MS = 60_000;
+
+const USER_SELECT = { id: true, tier: true } as const;
+
+export interface AuthUser {
+  id: string;
+  tier: string;
+}
+
+export class AuthLookups implements AuthLookupFunctions {
+  constructor(
+    private db: typeof prisma = prisma,
+    private keys: Pick<ApiKeyService, 'findByHash'> = apiKeyService,
+    private usage: Pick<ApiKeyUsageService, 'record'> = apiKeyUsage
+  ) {}
+
+  async findUserById(id: string): Promise<AuthUser | null> {
+    return this.db.user.findUnique({ where: { id }, select: USER_SELECT });
+  }
+
+  async findApiKeyByHash(hash: string): Promise<ApiKeyLookup | null> {
+    return this.keys.findByHash(hash);
+  }
+
+  async findUserByTelegramId(telegramId: string): Promise<AuthUser | null> {
+    return this.db.user.findUnique({ where: { telegramId }, select: USER_SELECT });
+  }
+
+  /**
+   * Register a Mini App user on first sight. An upsert, so two first
+   * requests arriving together resolve to the same user.
+   */
+  async createUserFromTelegram(user: TelegramUser): Promise<AuthUser> {
+    const telegramId = user.id.toString();
+
+    return this.db.user.upsert({
+      where: { telegramId },
+      create: { telegramId, telegramUsername: user.username ?? null },
+      update: {},
+      select: USER_SELECT,
+    });
+  }
+
+  async updateApiKeyLastUsed(keyId: string): Promise<void> {
+    const now = new Date();
+
+    await this.db.apiKey.updateMany({
+      where: {
+        id: keyId,
+        OR: [
+          { lastUsedAt: null },
+          { lastUsedAt: { lt: new Date(now.getTime() - LAST_USED_RESOLUTION_MS) } },
+        ],
+      },
+      data: { lastUsedAt: now },
+    });
+  }
+
+  async recordApiKeyUsage(keyId: string, usage: ApiKeyUsageEvent): Promise<void> {
+    await this.usage.record(keyId, usage);
+  }
+}
+
+export const authLookups = new AuthLookups();
@@ -0,0 +1,120 @@
+/**
+ * Balance Service
+ *
+ * Lists token balances for every wallet a user has connected by asking
+ * the chain adapter for each wallet's holdings, then values them through
+ * the price oracle.
+ */
+
+import { prisma } from '@chainhopper/core/prisma';
+import type { PriceOracleService } from '@chainhopper/core/oracle';
+import type { AdapterRegistry, ChainId, TokenBalance } from '@chainhopper/types';
+import { adapterRegistry } from './adapter-registry.js';
+import { priceOracle } from './price-oracle.js';
+import { fromDbChainId, toDbChainId } from './swap-repository.js';
+import type { QuoteToken } from './quote-store.js';
+
+export interface BalanceQuery {
+  chainId?: string;
+  includeZero?: boolean;
+}
+
+export interface BalanceResponse {
+  token: QuoteToken;
+  walletAddress: string;
+  balance: string;
+  balanceFormatted: string;
+  valueUsd: number;
+  priceUsd?: number;
+  priceChange24h?: number;
+}
+
+interface WalletRecord {
+  chainId: string;
+  address: string;
+}
+
+interface WalletBalance extends TokenBalance {
+  walletAddress: string;
+}
+
+export class BalanceService {
+  constructor(
+    private registry: AdapterRegistry = adapterRegistry,
+    private db: typeof prisma = prisma,
+    private oracle: Pick<PriceOracleService, 'getPrices'> = priceOracle
+  ) {}
+
+  /**
+   * Get balances across a user's wallets, most valuable first
+   */
+  async getBalances(
+    userId: string,
+    query: BalanceQuery = {}
+  ): Promise<{ balances: BalanceResponse[]; totalValueUsd: number }> {
+    const wallets: WalletRecord[] = await this.db.wallet.findMany({
+      where: {
+        userId,
+        ...(query.chainId && { chainId: toDbChainId(query.chainId) }),
+      },
+    });
+
+    const results = await Promise.all(wallets.map((wallet) => this.getWalletBalances(wallet)));
+    const holdings = results.flat().filter((holding) => query.includeZero || holding.balance > 0n);
+
+    const prices = await this.oracle
+      .getPrices(holdings.map(({ token }) => ({ address: token.address, chainId: token.chainId })))
+      .catch((error) => {
+        console.warn('[Balances] Price lookup failed:', error);
+        return new Map();
+      });
+
+    const balances = holdings.map((holding): BalanceResponse => {
+      const { token } = holding;
+      const price = prices.get(`${token.chainId}:${token.address.toLowerCase()}`);
+      const amount = Number(holding.balance) / 10 ** token.decimals;
+
+      return {
+        token: {
+          address: token.address,
+          chainId: token.chainId,
+          symbol: token.symbol,
+          name: token.name,
+          decimals: token.decimals,
+          logoUri: token.logoUri,
+        },
+        walletAddress: holding.walletAddress,
+        balance: holding.balance.toString(),
+        balanceFormatted: holding.balanceFormatted,
+        valueUsd: price ? amount * price.priceUsd : 0,
+        priceUsd: price?.priceUsd,
+        priceChange24h: price?.metadata?.priceChange24h,
+      };
+    });
+
+    balances.sort((a, b) => b.valueUsd - a.valueUsd);
+
+    return {
+      balances,
+      totalValueUsd: balances.reduce((sum, b) => sum + b.valueUsd, 0),
+    };
+  }
+
+  private async getWalletBalances(wallet: WalletRecord): Promise<WalletBalance[]> {
+    const chainId = fromDbChainId(wallet.chainId) as ChainId;
+    const adapter = this.registry.get(chainId);
+    if (!adapter?.config.isEnabled) return [];
+
+    try {
+      const balances = await adapter.getTokenBalances(wallet.address);
+      return balances.map((balance) => ({ ...balance, walletAddress: wallet.address }));
+    } catch (error) {
+      // One unreachable chain shouldn't hide the rest of the portfolio
+      console.warn(`[Balances] Failed to load ${chainId} balances for ${wallet.address}:`, error);
+      return [];
+    }
+  }
+}
+
+// Singleton instance
+export const balanceService = new BalanceService();
@@ -0,0 +1,28 @@
+/**
+ * Cache Store
+ *
+ * Shared cache and counter storage for prices, rate limits and quotes.
+ * With REDIS_URL set, every API replica uses the same Redis, so state
+ * holds whichever replica a request lands on; without it, state is kept
+ * in this process.
+ */
+
+import { Redis } from 'ioredis';
+import { MemoryCacheStore, RedisCacheStore, type CacheStore } from '@chainhopper/core/cache';
+
+function createCacheStore(): CacheStore {
+  const redisUrl = process.env['REDIS_URL'];
+  if (!redisUrl) {
+    return new MemoryCacheStore();
+  }
+
+  // Connects on the first command, so importing this module opens no socket
+  const redis = new Redis(redisUrl, { lazyConnect: true });
+  redis.on('error', (error) => {
+    console.error('[Cache] Redis error:', error.message);
+  });
+
+  return new RedisCacheStore(redis, { prefix: 'chainhopper:' });
+}
+
+export const cacheStore = createCacheStore();
@@ -0,0 +1,96 @@
+/**
+ * API Services
+ *
+ * Stateful services shared by the HTTP routes and WebSocket layer.
+ */
+
+export { cacheStore } from './cache.js';
+
+export {
+  QuoteStore,
+  quoteStore,
+  fromSwapQuote,
+  type StoredQuote,
+  type QuoteToken,
+  type QuoteRoute,
+  type QuoteFee,
+  type QuotePriceWarning,
+  type QuoteTransaction,
+} from './quote-store.js';
+
+export { ChainAdapterRegistry, adapterRegistry } from './adapter-registry.js';
+
+// Adapter construction lives in ./adapters.js and is imported by the server
+// entry point only, so route modules don't load every chain SDK.
+
+export {
+  SwapRepository,
+  swapRepository,
+  toDbChainId,
+  fromDbChainId,
+  toDbSwapStatus,
+  fromDbSwapStatus,
+  toDbDexAggregator,
+  type SwapStatusValue,
+  type SwapListFilters,
+  type SwapResponse,
+  type TrackedSwap,
+  type SwapStatusUpdate,
+} from './swap-repository.js';
+
+export { priceOracle } from './price-oracle.js';
+
+export {
+  BalanceService,
+  balanceService,
+  type BalanceQuery,
+  type BalanceResponse,
+} from './balance-service.js';
+
+export {
+  PositionService,
+  positionService,
+  type PositionStatusFilter,
+  type PositionListFilters,
+  type PositionResponse,
+  type PositionLotResponse,
+  type LotDisposalResponse,
+  type PositionDetail,
+  type PositionTrade,
+  type PositionTransfer,
+} from './position-service.js';
+
+export {
+  TaxExportService,
+  taxExportService,
+  TAX_EXPORT_FORMATS,
+  type TaxExportFormat,
+  type TaxExport,
+} from './tax-export.js';
+
+export {
+  ApiKeyService,
+  apiKeyService,
+  MAX_API_KEYS_PER_USER,
+  type ApiKeyResponse,
+  type CreatedApiKey,
+  type CreateApiKeyInput,
+  type ApiKeyLookup,
+} from './api-keys.js';
+
+export { AuthLookups, authLookups, type AuthUser } from './auth-lookups.js';
+
+export {
+  UserSettingsService,
+  userSettings,
+  DEFAULT_USER_SETTINGS,
+  type UserSettingsUpdate,
+} from './user-settings.js';
+
+export {
+  ApiKeyUsageService,
+  apiKeyUsage,
+  API_KEY_REQUEST_WEIGHTS,
+  type ApiKeyUsageDay,
+  type ApiKeyUsageResponse,
+} from './api-key-usage.js';
@@ -0,0 +1,390 @@
+/**
+ * Position Service
+ *
+ * Reads a user's positions and the lots behind them, valuing open
+ * positions through the price oracle. Positions and lots are written by
+ * the fee engine as swaps confirm and as users move holdings between
+ * their wallets.
+ */
+
+import { prisma } from '@chainhopper/core/prisma';
+import type { PriceOracleService } from '@chainhopper/core/oracle';
+import { feeEngine, type FeeEngine } from '@chainhopper/core/fees';
+import type { ChainId } from '@chainhopper/types';
+import { priceOracle } from './price-oracle.js';
+import { fromDbChainId, toDbChainId, toQuoteToken, type TokenRecord } from './swap-repository.js';
+import type { QuoteToken } from './quote-store.js';
+
+export type PositionStatusFilter = 'open' | 'closed' | 'all';
+
+export interface PositionListFilters {
+  chainId?: string;
+  status: PositionStatusFilter;
+  limit: number;
+  offset: number;
+}
+
+export interface LotDisposalResponse {
+  exitTxId: string;
+  amount: string;
+  costBasis: number;
+  proceeds: number;
+  realizedPnl: number;
+  disposedAt: string;
+}
+
+export interface PositionLotResponse {
+  id: string;
+  entryTxId: string;
+  amount: string;
+  remainingAmount: string;
+  entryPrice: number;
+  costBasis: number;
+  transferredFromId?: string;
+  openedAt: string;
+  closedAt?: string;
+  disposals?: LotDisposalResponse[];
+}
+
+export interface PositionResponse {
+  id: string;
+  walletId: string;
+  chainId: string;
+  token: Omit<QuoteToken, 'chainId'>;
+  amount: string;
+  amountFormatted: string;
+  entryPrice: number;
+  currentPrice: number;
+  costBasis: number;
+  currentValue: number;
+  unrealizedPnl: number;
+  unrealizedPnlPercent: number;
+  realizedPnl: number;
+  isOpen: boolean;
+  lots: PositionLotResponse[];
+  openedAt: string;
+  closedAt?: string;
+}
+
+export interface PositionTrade {
+  id: string;
+  chainId: string;
+  type: 'buy' | 'sell';
+  tokenIn: { symbol: string; amount: string; amountUsd: number };
+  tokenOut: { symbol: string; amount: string; amountUsd: number };
+  profit?: number;
+  profitPercent?: number;
+  fee: number;
+  txHash: string;
+  executedAt: string;
+}
+
+export interface PositionTransfer {
+  toWalletId: string;
+  amount: bigint;
+  /** Lots to move first under the specific cost-basis method */
+  lotIds?: string[];
+}
+
+export interface PositionDetail extends PositionResponse {
+  trades: PositionTrade[];
+}
+
+/** Decimal columns come back as Prisma.Decimal; only toString() is relied on */
+type DecimalLike = { toString(): string };
+
+interface SwapRecord {
+  id: string;
+  chainId: string;
+  txHash: string | null;
+  tokenIn: TokenRecord;
+  tokenOut: TokenRecord;
+  amountIn: DecimalLike;
+  amountOut: DecimalLike;
+  amountInUsd: DecimalLike;
+  amountOutUsd: DecimalLike;
+  executedAt: Date | null;
+  createdAt: Date;
+}
+
+interface DisposalRecord {
+  exitTxId: string;
+  exitTx?: SwapRecord;
+  amount: DecimalLike;
+  costBasis: DecimalLike;
+  proceeds: DecimalLike;
+  realizedPnl: DecimalLike;
+  disposedAt: Date;
+}
+
+interface LotRecord {
+  id: string;
+  entryTxId: string;
+  entryTx?: SwapRecord;
+  amount: DecimalLike;
+  remainingAmount: DecimalLike;
+  entryPrice: DecimalLike;
+  costBasis: DecimalLike;
+  transferredFromId: string | null;
+  openedAt: Date;
+  closedAt: Date | null;
+  disposals?: DisposalRecord[];
+}
+
+interface FeeRecord {
+  exitTxId: string;
+  costBasis: DecimalLike;
+  realizedProfitUsd: DecimalLike;
+  feeAmountUsd: DecimalLike;
+}
+
+interface PositionRecord {
+  id: string;
+  walletId: string;
+  chainId: string;
+  token: TokenRecord;
+  amount: DecimalLike;
+  entryPrice: DecimalLike;
+  exitPrice: DecimalLike | null;
+  costBasis: DecimalLike;
+  realizedPnl: DecimalLike | null;
+  isOpen: boolean;
+  openedAt: Date;
+  closedAt: Date | null;
+  lots: LotRecord[];
+  feeCalculations?: FeeRecord[];
+}
+
+const SWAP_INCLUDE = { include: { tokenIn: true, tokenOut: true } } as const;
+
+const LOTS_BY_AGE = { orderBy: { openedAt: 'asc' } } as const;
+
+export class PositionService {
+  constructor(
+    private db: typeof prisma = prisma,
+    private oracle: Pick<PriceOracleService, 'getPrices'> = priceOracle,
+    private fees: Pick<FeeEngine, 'recordTransfer'> = feeEngine
+  ) {}
+
+  /**
+   * List a user's positions with their lots, newest first
+   */
+  async list(
+    userId: string,
+    filters: PositionListFilters
+  ): Promise<{ positions: PositionResponse[]; total: number }> {
+    const where = {
+      userId,
+      ...(filters.chainId && { chainId: toDbChainId(filters.chainId) }),
+      ...(filters.status !== 'all' && { isOpen: filters.status === 'open' }),
+    };
+
+    const [records, total]: [PositionRecord[], number] = await this.db.$transaction([
+      this.db.position.findMany({
+        where,
+        include: { token: true, lots: LOTS_BY_AGE },
+        orderBy: { openedAt: 'desc' },
+        take: filters.limit,
+        skip: filters.offset,
+      }),
+      this.db.position.count({ where }),
+    ]);
+
+    const prices = await this.getPrices(records);
+    return {
+      positions: records.map((record) => this.toResponse(record, prices)),
+      total,
+    };
+  }
+
+  /**
+   * Get one of a user's positions with each lot's disposals and the
+   * swaps that bought and sold it
+   */
+  async get(userId: string, positionId: string): Promise<PositionDetail | null> {
+    const record: PositionRecord | null = await this.db.position.findFirst({
+      where: { id: positionId, userId },
+      include: {
+        token: true,
+        lots: {
+          ...LOTS_BY_AGE,
+          include: {
+            entryTx: SWAP_INCLUDE,
+            disposals: { orderBy: { disposedAt: 'asc' }, include: { exitTx: SWAP_INCLUDE } },
+          },
+        },
+        feeCalculations: true,
+      },
+    });
+    if (!record) return null;
+
+    const prices = await this.getPrices([record]);
+    return { ...this.toResponse(record, prices), trades: toTrades(record) };
+  }
+
+  /**
+   * Move part of an open position to another of the user's wallets on the
+   * same chain. Its lots keep their cost basis and acquisition time, so
+   * nothing is realised. Returns the amount moved, or null when the
+   * position or destination wallet isn't the user's.
+   */
+  async transfer(
+    userId: string,
+    positionId: string,
+    transfer: PositionTransfer
+  ): Promise<bigint | null> {
+    const position: { walletId: string; chainId: string; tokenId: string } | null =
+      await this.db.position.findFirst({
+        where: { id: positionId, userId, isOpen: true },
+        select: { walletId: true, chainId: true, tokenId: true },
+      });
+    if (!position) return null;
+
+    const wallet: { id: string } | null = await this.db.wallet.findFirst({
+      where: { id: transfer.toWalletId, userId, chainId: position.chainId },
+      select: { id: true },
+    });
+    if (!wallet || wallet.id === position.walletId) return null;
+
+    return this.fees.recordTransfer({
+      userId,
+      fromWalletId: position.walletId,
+      toWalletId: wallet.id,
+      tokenId: position.tokenId,
+      amount: transfer.amount,
+      lotIds: transfer.lotIds,
+    });
+  }
+
+  private async getPrices(records: PositionRecord[]): Promise<Map<string, { priceUsd: number }>> {
+    const open = records.filter((record) => record.isOpen);
+    if (open.length === 0) return new Map();
+
+    return this.oracle
+      .getPrices(
+        open.map(({ token }) => ({
+          address: token.address,
+          chainId: fromDbChainId(token.chainId) as ChainId,
+        }))
+      )
+      .catch((error) => {
+        console.warn('[Positions] Price lookup failed:', error);
+        return new Map();
+      });
+  }
+
+  private toResponse(
+    record: PositionRecord,
+    prices: Map<string, { priceUsd: number }>
+  ): PositionResponse {
+    const { chainId: _chainId, ...token } = toQuoteToken(record.token);
+    const chainId = fromDbChainId(record.chainId);
+    const amount = BigInt(record.amount.toString());
+    const units = Number(amount) / 10 ** token.decimals;
+    const costBasis = Number(record.costBasis.toString());
+
+    // Closed positions are valued at their exit; unpriced open ones at cost
+    const price = prices.get(`${chainId}:${token.address.toLowerCase()}`)?.priceUsd;
+    const currentPrice = record.isOpen
+      ? (price ?? Number(record.entryPrice.toString()))
+      : Number((record.exitPrice ?? record.entryPrice).toString());
+    const currentValue = record.isOpen ? units * currentPrice : 0;
+    const unrealizedPnl = record.isOpen ? currentValue - costBasis : 0;
+
+    return {
+      id: record.id,
+      walletId: record.walletId,
+      chainId,
+      token,
+      amount: amount.toString(),
+      amountFormatted: units.toLocaleString('en-US', { maximumFractionDigits: 6 }),
+      entryPrice: Number(record.entryPrice.toString()),
+      currentPrice,
+      costBasis,
+      currentValue,
+      unrealizedPnl,
+      unrealizedPnlPercent: costBasis > 0 ? (unrealizedPnl / costBasis) * 100 : 0,
+      realizedPnl: Number(record.realizedPnl?.toString() ?? 0),
+      isOpen: record.isOpen,
+      lots: record.lots.map(toLotResponse),
+      openedAt: record.openedAt.toISOString(),
+      closedAt: record.closedAt?.toISOString(),
+    };
+  }
+}
+
+function toLotResponse(lot: LotRecord): PositionLotResponse {
+  return {
+    id: lot.id,
+    entryTxId: lot.entryTxId,
+    amount: lot.amount.toString(),
+    remainingAmount: lot.remainingAmount.toString(),
+    entryPrice: Number(lot.entryPrice.toString()),
+    costBasis: Number(lot.costBasis.toString()),
+    transferredFromId: lot.transferredFromId ?? undefined,
+    openedAt: lot.openedAt.toISOString(),
+    closedAt: lot.closedAt?.toISOString(),
+    disposals: lot.disposals?.map((disposal) => ({
+      exitTxId: disposal.exitTxId,
+      amount: disposal.amount.toString(),
+      costBasis: Number(disposal.costBasis.toString()),
+      proceeds: Number(disposal.proceeds.toString()),
+      realizedPnl: Number(disposal.realizedPnl.toString()),
+      disposedAt: disposal.disposedAt.toISOString(),
+    })),
+  };
+}
+
+/**
+ * The buys and sells behind a position, oldest first. A swap that touched
+ * several lots is listed once.
+ */
+function toTrades(record: PositionRecord): PositionTrade[] {
+  const trades = new Map<string, PositionTrade>();
+
+  for (const lot of record.lots) {
+    if (lot.entryTx && !trades.has(lot.entryTx.id)) {
+      trades.set(lot.entryTx.id, toTrade(lot.entryTx, 'buy'));
+    }
+    for (const disposal of lot.disposals ?? []) {
+      if (!disposal.exitTx || trades.has(disposal.exitTx.id)) continue;
+
+      const fee = record.feeCalculations?.find((f) => f.exitTxId === disposal.exitTxId);
+      const trade = toTrade(disposal.exitTx, 'sell');
+      if (fee) {
+        const profit = Number(fee.realizedProfitUsd.toString());
+        const cost = Number(fee.costBasis.toString());
+        trade.profit = profit;
+        trade.profitPercent = cost > 0 ? (profit / cost) * 100 : 0;
+        trade.fee = Number(fee.feeAmountUsd.toString());
+      }
+      trades.set(disposal.exitTx.id, trade);
+    }
+  }
+
+  return [...trades.values()].sort((a, b) => a.executedAt.localeCompare(b.executedAt));
+}
+
+function toTrade(swap: SwapRecord, type: 'buy' | 'sell'): PositionTrade {
+  return {
+    id: swap.id,
+    chainId: fromDbChainId(swap.chainId),
+    type,
+    tokenIn: {
+      symbol: swap.tokenIn.symbol,
+      amount: swap.amountIn.toString(),
+      amountUsd: Number(swap.amountInUsd.toString()),
+    },
+    tokenOut: {
+      symbol: swap.tokenOut.symbol,
+      amount: swap.amountOut.toString(),
+      amountUsd: Number(swap.amountOutUsd.toString()),
+    },
+    fee: 0,
+    txHash: swap.txHash ?? '',
+    executedAt: (swap.executedAt ?? swap.createdAt).toISOString(),
+  };
+}
+
+// Singleton instance
+export const positionService = new PositionService();
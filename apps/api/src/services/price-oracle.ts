@@ -0,0 +1,13 @@
+/**
+ * Price Oracle
+ *
+ * Shared price oracle instance used to value balances and positions.
+ * Prices it sees are sampled into the PriceCache time series, which
+ * backs historical lookups, and live prices are cached in the shared
+ * cache store.
+ */
+
+import { createPriceOracle, PrismaPriceHistory } from '@chainhopper/core/oracle';
+import { cacheStore } from './cache.js';
+
+export const priceOracle = createPriceOracle(undefined, new PrismaPriceHistory(), cacheStore);
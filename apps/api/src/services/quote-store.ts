@@ -0,0 +1,319 @@
+/**
+ * Quote Store
+ *
+ * Holds quotes issued by `/quote` until they are built into a transaction
+ * by `/swap/build` and recorded by `/swap/submit`. Quotes are persisted
+ * through Prisma and kept in the shared cache store while they can still be
+ * used, so a quote issued by one API replica can be built and submitted
+ * through another without a database round trip.
+ *
+ * `/quote` is public, so rows are pruned once they can no longer be used:
+ * quotes nobody built as soon as they expire, built ones after the window
+ * in which their broadcast transaction may still be submitted.
+ */
+
+import type { SwapQuote } from '@chainhopper/types';
+import { prisma } from '@chainhopper/core/prisma';
+import { deserializeValue, serializeValue, type CacheStore } from '@chainhopper/core/cache';
+import { cacheStore } from './cache.js';
+import { toDbChainId } from './swap-repository.js';
+
+export interface QuoteToken {
+  address: string;
+  chainId: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+  logoUri?: string;
+}
+
+export interface QuoteRoute {
+  dex: string;
+  poolAddress: string;
+  tokenIn: string;
+  tokenOut: string;
+  percentage: number;
+}
+
+export interface QuoteFee {
+  totalFeeUsd: number;
+  protocolFee: string;
+  protocolFeeUsd: number;
+  networkFee: string;
+  networkFeeUsd: number;
+  dexFee?: string;
+  dexFeeUsd?: number;
+}
+
+export interface QuoteCandidate {
+  dexAggregator: string;
+  source?: string;
+  amountOut: string;
+  estimatedGas: string;
+  gasCost: string;
+  gasCostUsd?: number;
+  netAmountOut: string;
+}
+
+export interface QuotePriceWarning {
+  code: string;
+  message: string;
+}
+
+export interface QuoteTransaction {
+  to: string;
+  data: string;
+  value: string;
+  gasLimit: string;
+}
+
+export interface StoredQuote {
+  id: string;
+  chainId: string;
+  tokenIn: QuoteToken;
+  tokenOut: QuoteToken;
+  amountIn: string;
+  amountOut: string;
+  amountOutMin: string;
+  amountInUsd?: number;
+  amountOutUsd?: number;
+  slippage: number;
+  priceImpact: number;
+  route: QuoteRoute[];
+  estimatedGas: string;
+  gasPrice: string;
+  fee: QuoteFee;
+  dexAggregator: string;
+  // DEX source that produced the quote, for EVM chains
+  source?: string;
+  ranking?: QuoteCandidate[];
+  // Raised by the price oracle when either token's USD price is unreliable
+  priceWarning?: QuotePriceWarning;
+  expiresAt: string;
+
+  // Adapter quote this was created from, used to build the transaction
+  swapQuote?: SwapQuote;
+
+  // Set once the quote has been built into a transaction by /swap/build
+  userId?: string;
+  recipient?: string;
+  transaction?: QuoteTransaction;
+}
+
+/**
+ * Convert an adapter quote into its stored, JSON-friendly form
+ */
+export function fromSwapQuote(quote: SwapQuote, slippage: number): StoredQuote {
+  const toToken = (token: SwapQuote['tokenIn']): QuoteToken => ({
+    address: token.address,
+    chainId: token.chainId,
+    symbol: token.symbol,
+    name: token.name,
+    decimals: token.decimals,
+    logoUri: token.logoUri,
+  });
+
+  return {
+    id: quote.id,
+    chainId: quote.chainId,
+    tokenIn: toToken(quote.tokenIn),
+    tokenOut: toToken(quote.tokenOut),
+    amountIn: quote.amountIn.toString(),
+    amountOut: quote.amountOut.toString(),
+    amountOutMin: quote.amountOutMin.toString(),
+    slippage,
+    priceImpact: quote.priceImpact,
+    route: quote.route,
+    estimatedGas: quote.estimatedGas.toString(),
+    gasPrice: quote.gasPrice.toString(),
+    fee: {
+      totalFeeUsd: quote.fee.totalFeeUsd,
+      protocolFee: quote.fee.protocolFee.toString(),
+      protocolFeeUsd: quote.fee.protocolFeeUsd,
+      networkFee: quote.fee.networkFee.toString(),
+      networkFeeUsd: quote.fee.networkFeeUsd,
+      dexFee: quote.fee.dexFee?.toString(),
+      dexFeeUsd: quote.fee.dexFeeUsd,
+    },
+    dexAggregator: quote.dexAggregator,
+    source: quote.source,
+    ranking: quote.ranking?.map((candidate) => ({
+      dexAggregator: candidate.dexAggregator,
+      source: candidate.source,
+      amountOut: candidate.amountOut.toString(),
+      estimatedGas: candidate.estimatedGas.toString(),
+      gasCost: candidate.gasCost.toString(),
+      gasCostUsd: candidate.gasCostUsd,
+      netAmountOut: candidate.netAmountOut.toString(),
+    })),
+    expiresAt: quote.expiresAt.toISOString(),
+    swapQuote: quote,
+  };
+}
+
+/** How long expired quotes stay cached so late /swap/submit calls skip the database */
+const EXPIRED_QUOTE_RETENTION_MS = 10 * 60 * 1000;
+
+/** How long built quotes are kept past expiry for late /swap/submit calls */
+const BUILT_QUOTE_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+/** Namespace for quotes in the shared cache */
+const QUOTE_PREFIX = 'quote:';
+
+interface QuoteRecord {
+  data: unknown;
+}
+
+export class QuoteStore {
+  private pruneTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private cache: CacheStore,
+    private db: typeof prisma = prisma,
+    private pruneIntervalMs = 5 * 60 * 1000
+  ) {}
+
+  /**
+   * Start deleting unusable quotes periodically
+   */
+  start(): void {
+    if (this.pruneTimer) return;
+
+    this.pruneTimer = setInterval(() => {
+      this.prune().catch((error) => {
+        console.error('[QuoteStore] Prune failed:', error);
+      });
+    }, this.pruneIntervalMs);
+  }
+
+  /**
+   * Stop pruning
+   */
+  stop(): void {
+    if (this.pruneTimer) {
+      clearInterval(this.pruneTimer);
+      this.pruneTimer = null;
+    }
+  }
+
+  /**
+   * Delete expired quotes that were never built, and built ones past the
+   * submit window. Returns the number of quotes deleted.
+   */
+  async prune(now: number = Date.now()): Promise<number> {
+    const { count } = await this.db.quote.deleteMany({
+      where: {
+        OR: [
+          { userId: null, expiresAt: { lt: new Date(now) } },
+          { expiresAt: { lt: new Date(now - BUILT_QUOTE_RETENTION_MS) } },
+        ],
+      },
+    });
+    return count;
+  }
+
+  /**
+   * Store a freshly issued quote
+   */
+  async save(quote: StoredQuote): Promise<StoredQuote> {
+    await this.db.quote.create({
+      data: {
+        id: quote.id,
+        chainId: toDbChainId(quote.chainId),
+        data: toRecordData(quote),
+        expiresAt: new Date(quote.expiresAt),
+      },
+    });
+    await this.cacheQuote(quote);
+    return quote;
+  }
+
+  /**
+   * Get a quote by ID, from the cache while it is retained there and from
+   * the database after that
+   */
+  async get(quoteId: string): Promise<StoredQuote | undefined> {
+    const cached = await this.cache.get<StoredQuote>(QUOTE_PREFIX + quoteId);
+    if (cached) return cached;
+
+    const record: QuoteRecord | null = await this.db.quote.findUnique({ where: { id: quoteId } });
+    if (!record) return undefined;
+
+    const quote = fromRecordData(record.data);
+    await this.cacheQuote(quote);
+    return quote;
+  }
+
+  /**
+   * Merge fields into a stored quote
+   */
+  async update(
+    quoteId: string,
+    changes: Partial<Omit<StoredQuote, 'id'>>
+  ): Promise<StoredQuote | undefined> {
+    const quote = await this.get(quoteId);
+    if (!quote) return undefined;
+
+    const updated = { ...quote, ...changes };
+    await this.db.quote.update({
+      where: { id: quoteId },
+      data: {
+        userId: updated.userId ?? null,
+        data: toRecordData(updated),
+        expiresAt: new Date(updated.expiresAt),
+      },
+    });
+    await this.cacheQuote(updated);
+    return updated;
+  }
+
+  /**
+   * Remove a quote
+   */
+  async delete(quoteId: string): Promise<boolean> {
+    const { count } = await this.db.quote.deleteMany({ where: { id: quoteId } });
+    await this.cache.delete(QUOTE_PREFIX + quoteId);
+    return count > 0;
+  }
+
+  /**
+   * Check whether a quote is past its expiry
+   */
+  isExpired(quote: StoredQuote, now: number = Date.now()): boolean {
+    return new Date(quote.expiresAt).getTime() <= now;
+  }
+
+  /**
+   * Remove all quotes
+   */
+  async clear(): Promise<void> {
+    await this.db.quote.deleteMany({});
+    await this.cache.clear(QUOTE_PREFIX);
+  }
+
+  /**
+   * Cache a quote until the end of its retention window; quotes already
+   * past it are left to the database
+   */
+  private async cacheQuote(quote: StoredQuote): Promise<void> {
+    const ttl = new Date(quote.expiresAt).getTime() + EXPIRED_QUOTE_RETENTION_MS - Date.now();
+    if (ttl > 0) {
+      await this.cache.set(QUOTE_PREFIX + quote.id, quote, ttl);
+    }
+  }
+}
+
+/**
+ * Json column value for a quote. The adapter quote holds bigints and
+ * dates, which are tagged so they read back as the same types.
+ */
+function toRecordData(quote: StoredQuote): unknown {
+  return JSON.parse(serializeValue(quote));
+}
+
+function fromRecordData(data: unknown): StoredQuote {
+  return deserializeValue<StoredQuote>(JSON.stringify(data));
+}
+
+// Singleton instance
+export const quoteStore = new QuoteStore(cacheStore);
@@ -0,0 +1,455 @@
+/**
+ * Swap Repository
+ *
+ * Persists swap transactions through Prisma and maps database rows
+ * to the API response shape used by the trading routes.
+ */
+
+import { prisma } from '@chainhopper/core/prisma';
+import type { QuoteToken, StoredQuote } from './quote-store.js';
+
+export type SwapStatusValue =
+  | 'pending'
+  | 'submitted'
+  | 'confirming'
+  | 'confirmed'
+  | 'failed'
+  | 'expired';
+
+export interface SwapListFilters {
+  chainId?: string;
+  status?: SwapStatusValue;
+  limit: number;
+  offset: number;
+}
+
+export interface SwapResponse {
+  id: string;
+  quoteId: string;
+  status: SwapStatusValue;
+  txHash?: string;
+  chainId: string;
+  tokenIn: QuoteToken;
+  tokenOut: QuoteToken;
+  amountIn: string;
+  amountOut?: string;
+  fee: {
+    totalFeeUsd: number;
+    protocolFee: string;
+    protocolFeeUsd: number;
+    networkFee: string;
+    networkFeeUsd: number;
+  };
+  createdAt: string;
+  executedAt?: string;
+  confirmedAt?: string;
+}
+
+/** A swap awaiting confirmation, with its owner */
+export interface TrackedSwap extends SwapResponse {
+  userId: string;
+  txHash: string;
+  amountOutExpected: string;
+  amountOutMin: string;
+  /** Wallet the output is delivered to */
+  recipient: string;
+}
+
+export interface SwapStatusUpdate {
+  amountOut?: bigint;
+  confirmedAt?: Date;
+  /** Gas paid, in the chain's native token */
+  networkFee?: bigint;
+  networkFeeUsd?: number;
+  nativePriceUsd?: number;
+}
+
+/** Decimal columns come back as Prisma.Decimal; only toString() is relied on */
+type DecimalLike = { toString(): string };
+
+export interface TokenRecord {
+  address: string;
+  chainId: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+  logoUri: string | null;
+}
+
+interface SwapRecord {
+  id: string;
+  userId: string;
+  quoteId: string | null;
+  status: string;
+  txHash: string | null;
+  chainId: string;
+  tokenIn: TokenRecord;
+  tokenOut: TokenRecord;
+  amountIn: DecimalLike;
+  amountOut: DecimalLike;
+  amountOutMin: DecimalLike;
+  protocolFee: DecimalLike;
+  protocolFeeUsd: DecimalLike;
+  networkFee: DecimalLike | null;
+  networkFeeUsd: DecimalLike | null;
+  estimatedGas: DecimalLike | null;
+  actualGas: DecimalLike | null;
+  gasPrice: DecimalLike | null;
+  createdAt: Date;
+  executedAt: Date | null;
+  confirmedAt: Date | null;
+  wallet?: { address: string };
+}
+
+// ============================================================================
+// Enum Mapping (API values are lowercase, Prisma enums are uppercase)
+// ============================================================================
+
+const DEX_AGGREGATOR_TO_DB: Record<string, string> = {
+  jupiter: 'JUPITER',
+  '1inch': 'ONE_INCH',
+  paraswap: 'PARASWAP',
+  '0x': 'ZERO_X',
+  oogabooga: 'OOGABOOGA',
+  dragonswap: 'DRAGONSWAP',
+  klayswap: 'KLAYSWAP',
+  stonfi: 'STONFI',
+  dedust: 'DEDUST',
+  cetus: 'CETUS',
+  turbos: 'TURBOS',
+};
+
+/** EVM DEX sources that are aggregator services rather than one chain's DEX */
+const AGGREGATOR_SOURCES = new Set(['1inch', 'paraswap', '0x', 'oogabooga']);
+
+export function toDbChainId(chainId: string): string {
+  return chainId.toUpperCase();
+}
+
+export function fromDbChainId(chainId: string): string {
+  return chainId.toLowerCase();
+}
+
+export function toDbSwapStatus(status: SwapStatusValue): string {
+  return status.toUpperCase();
+}
+
+export function fromDbSwapStatus(status: string): SwapStatusValue {
+  return status.toLowerCase() as SwapStatusValue;
+}
+
+/**
+ * Map a quote's DEX to its enum value. Quotes from an EVM chain's own DEX
+ * source are NATIVE_DEX unless the DEX has a value of its own; some of
+ * those modules borrow an aggregator's label, so the source decides.
+ */
+export function toDbDexAggregator(aggregator: string, source?: string): string {
+  if (source !== undefined && !AGGREGATOR_SOURCES.has(source)) {
+    const own = AGGREGATOR_SOURCES.has(aggregator) ? undefined : DEX_AGGREGATOR_TO_DB[aggregator];
+    return own ?? 'NATIVE_DEX';
+  }
+
+  const value = DEX_AGGREGATOR_TO_DB[aggregator];
+  if (!value) {
+    throw new Error(`Unsupported DEX aggregator: ${aggregator}`);
+  }
+  return value;
+}
+
+// ============================================================================
+// Repository
+// ============================================================================
+
+const SWAP_INCLUDE = { tokenIn: true, tokenOut: true } as const;
+
+export class SwapRepository {
+  constructor(private db: typeof prisma = prisma) {}
+
+  /**
+   * Record a broadcast swap for a stored quote.
+   * Wallet and token rows are created on first use. `lotIds` are the lots
+   * the swap sells under the specific cost-basis method. A quote already
+   * recorded returns its existing swap.
+   */
+  async createFromQuote(
+    userId: string,
+    quote: StoredQuote,
+    txHash: string,
+    lotIds: string[] = []
+  ): Promise<SwapResponse> {
+    const chainId = toDbChainId(quote.chainId);
+    const walletAddress = quote.recipient;
+
+    if (!walletAddress) {
+      throw new Error(`Quote ${quote.id} has not been built for a recipient`);
+    }
+
+    const [wallet, tokenIn, tokenOut] = await Promise.all([
+      this.db.wallet.upsert({
+        where: { userId_chainId_address: { userId, chainId, address: walletAddress } },
+        create: { userId, chainId, address: walletAddress },
+        update: {},
+      }),
+      this.upsertToken(chainId, quote.tokenIn),
+      this.upsertToken(chainId, quote.tokenOut),
+    ]);
+
+    let record: SwapRecord;
+    try {
+      record = await this.db.swapTransaction.create({
+        data: {
+          userId,
+          walletId: wallet.id,
+          chainId,
+          tokenInId: tokenIn.id,
+          tokenOutId: tokenOut.id,
+          amountIn: quote.amountIn,
+          amountOut: quote.amountOut,
+          amountOutMin: quote.amountOutMin,
+          amountInUsd: quote.amountInUsd ?? 0,
+          amountOutUsd: quote.amountOutUsd ?? 0,
+          slippage: quote.slippage,
+          priceImpact: quote.priceImpact,
+          dexAggregator: toDbDexAggregator(quote.dexAggregator, quote.source),
+          route: quote.route,
+          txHash,
+          status: toDbSwapStatus('submitted'),
+          estimatedGas: quote.estimatedGas,
+          gasPrice: quote.gasPrice,
+          protocolFee: quote.fee.protocolFee,
+          protocolFeeUsd: quote.fee.protocolFeeUsd,
+          networkFeeUsd: quote.fee.networkFeeUsd,
+          quoteId: quote.id,
+          lotIds,
+          executedAt: new Date(),
+        },
+        include: SWAP_INCLUDE,
+      });
+    } catch (error) {
+      // A concurrent submit of the same quote created the swap first
+      const duplicate = (error as { code?: string }).code === 'P2002';
+      const existing = duplicate ? await this.findByQuoteId(userId, quote.id) : null;
+      if (existing) return existing;
+      throw error;
+    }
+
+    return this.toResponse(record);
+  }
+
+  /**
+   * Find a user's swap by ID
+   */
+  async findById(userId: string, swapId: string): Promise<SwapResponse | null> {
+    const record: SwapRecord | null = await this.db.swapTransaction.findFirst({
+      where: { id: swapId, userId },
+      include: SWAP_INCLUDE,
+    });
+
+    return record ? this.toResponse(record) : null;
+  }
+
+  /**
+   * Find a user's swap by the quote it was created from
+   */
+  async findByQuoteId(userId: string, quoteId: string): Promise<SwapResponse | null> {
+    const record: SwapRecord | null = await this.db.swapTransaction.findFirst({
+      where: { quoteId, userId },
+      include: SWAP_INCLUDE,
+    });
+
+    return record ? this.toResponse(record) : null;
+  }
+
+  /**
+   * List a user's swaps, newest first
+   */
+  async list(
+    userId: string,
+    filters: SwapListFilters
+  ): Promise<{ swaps: SwapResponse[]; total: number }> {
+    const where = {
+      userId,
+      ...(filters.chainId && { chainId: toDbChainId(filters.chainId) }),
+      ...(filters.status && { status: toDbSwapStatus(filters.status) }),
+    };
+
+    const [records, total]: [SwapRecord[], number] = await this.db.$transaction([
+      this.db.swapTransaction.findMany({
+        where,
+        include: SWAP_INCLUDE,
+        orderBy: { createdAt: 'desc' },
+        take: filters.limit,
+        skip: filters.offset,
+      }),
+      this.db.swapTransaction.count({ where }),
+    ]);
+
+    return {
+      swaps: records.map((record) => this.toResponse(record)),
+      total,
+    };
+  }
+
+  /**
+   * Find swaps that have been broadcast but not yet settled. Swaps never
+   * checked come first, then the least recently checked, so swaps waiting
+   * out a long confirmation can't keep newer ones from being polled.
+   */
+  async findActive(limit = 100): Promise<TrackedSwap[]> {
+    const records: SwapRecord[] = await this.db.swapTransaction.findMany({
+      where: {
+        status: { in: [toDbSwapStatus('submitted'), toDbSwapStatus('confirming')] },
+        txHash: { not: null },
+      },
+      include: { ...SWAP_INCLUDE, wallet: true },
+      orderBy: [{ lastCheckedAt: { sort: 'asc', nulls: 'first' } }, { createdAt: 'asc' }],
+      take: limit,
+    });
+
+    return records.map((record) => ({
+      ...this.toResponse(record),
+      userId: record.userId,
+      txHash: record.txHash as string,
+      amountOutExpected: record.amountOut.toString(),
+      amountOutMin: record.amountOutMin.toString(),
+      recipient: record.wallet?.address ?? '',
+    }));
+  }
+
+  /**
+   * Find swaps confirmed in a time range that the fee engine has not
+   * recorded, i.e. that opened no lot and disposed of none. Oldest first,
+   * so lots are recorded in the order the swaps settled.
+   */
+  async findUnrecorded(
+    confirmedAfter: Date,
+    confirmedBefore: Date,
+    limit = 100
+  ): Promise<string[]> {
+    const records: { id: string }[] = await this.db.swapTransaction.findMany({
+      where: {
+        status: toDbSwapStatus('confirmed'),
+        confirmedAt: { gte: confirmedAfter, lt: confirmedBefore },
+        lots: { none: {} },
+        lotDisposals: { none: {} },
+      },
+      select: { id: true },
+      orderBy: { confirmedAt: 'asc' },
+      take: limit,
+    });
+
+    return records.map((record) => record.id);
+  }
+
+  /**
+   * Record that the confirmation tracker has picked up swaps
+   */
+  async markChecked(swapIds: string[], checkedAt: Date = new Date()): Promise<void> {
+    if (swapIds.length === 0) return;
+
+    await this.db.swapTransaction.updateMany({
+      where: { id: { in: swapIds } },
+      data: { lastCheckedAt: checkedAt },
+    });
+  }
+
+  /**
+   * Move a swap to a new status, optionally recording the settled output.
+   *
+   * The move only applies from the statuses that precede it, so when
+   * several trackers race on the same swap exactly one of them gets
+   * `true` back and goes on to publish the change.
+   */
+  async updateStatus(
+    swapId: string,
+    status: SwapStatusValue,
+    update: SwapStatusUpdate = {}
+  ): Promise<boolean> {
+    const from: SwapStatusValue[] =
+      status === 'confirming' ? ['submitted'] : ['submitted', 'confirming'];
+
+    const { count } = await this.db.swapTransaction.updateMany({
+      where: { id: swapId, status: { in: from.map(toDbSwapStatus) } },
+      data: {
+        status: toDbSwapStatus(status),
+        ...(update.amountOut !== undefined && { amountOut: update.amountOut.toString() }),
+        ...(update.confirmedAt && { confirmedAt: update.confirmedAt }),
+        ...(update.networkFee !== undefined && { networkFee: update.networkFee.toString() }),
+        ...(update.networkFeeUsd !== undefined && { networkFeeUsd: update.networkFeeUsd }),
+        ...(update.nativePriceUsd !== undefined && { nativePriceUsd: update.nativePriceUsd }),
+      },
+    });
+
+    return count > 0;
+  }
+
+  private upsertToken(chainId: string, token: QuoteToken): Promise<{ id: string }> {
+    return this.db.token.upsert({
+      where: { chainId_address: { chainId, address: token.address } },
+      create: {
+        chainId,
+        address: token.address,
+        symbol: token.symbol,
+        name: token.name,
+        decimals: token.decimals,
+        logoUri: token.logoUri,
+      },
+      update: {},
+    });
+  }
+
+  private toResponse(record: SwapRecord): SwapResponse {
+    const chainId = fromDbChainId(record.chainId);
+    const status = fromDbSwapStatus(record.status);
+    const protocolFeeUsd = Number(record.protocolFeeUsd.toString());
+    const networkFeeUsd = record.networkFeeUsd ? Number(record.networkFeeUsd.toString()) : 0;
+
+    return {
+      id: record.id,
+      quoteId: record.quoteId ?? '',
+      status,
+      txHash: record.txHash ?? undefined,
+      chainId,
+      tokenIn: toQuoteToken(record.tokenIn),
+      tokenOut: toQuoteToken(record.tokenOut),
+      amountIn: record.amountIn.toString(),
+      // Quoted output is only a final amount once the swap has confirmed
+      amountOut: status === 'confirmed' ? record.amountOut.toString() : undefined,
+      fee: {
+        totalFeeUsd: protocolFeeUsd + networkFeeUsd,
+        protocolFee: record.protocolFee.toString(),
+        protocolFeeUsd,
+        networkFee: networkFee(record),
+        networkFeeUsd,
+      },
+      createdAt: record.createdAt.toISOString(),
+      executedAt: record.executedAt?.toISOString(),
+      confirmedAt: record.confirmedAt?.toISOString(),
+    };
+  }
+}
+
+/**
+ * Network fee in native units: the fee paid once the swap settles,
+ * otherwise the quoted gas estimate
+ */
+function networkFee(record: SwapRecord): string {
+  if (record.networkFee) return record.networkFee.toString();
+  const gas = record.actualGas ?? record.estimatedGas;
+  if (!gas || !record.gasPrice) return '0';
+  return (BigInt(gas.toString()) * BigInt(record.gasPrice.toString())).toString();
+}
+
+export function toQuoteToken(token: TokenRecord): QuoteToken {
+  return {
+    address: token.address,
+    chainId: fromDbChainId(token.chainId),
+    symbol: token.symbol,
+    name: token.name,
+    decimals: token.decimals,
+    logoUri: token.logoUri ?? undefined,
+  };
+}
+
+// Singleton instance
+export const swapRepository = new SwapRepository();
@@ -0,0 +1,480 @@
+/**
+ * Tax Export
+ *
+ * Builds a user's trades for a tax year (calendar year, UTC) and writes
+ * them as one of:
+ * - csv: realised gains report, one line per lot disposal plus a line
+ *   for each profit-share and network fee. The part of a sell no lot
+ *   covers (tokens acquired outside the app) is a disposal with an
+ *   unknown cost basis.
+ * - koinly: Koinly universal import, one line per swap
+ * - cointracker: CoinTracker CSV import, one line per swap
+ *
+ * Gains come from the lot disposals the fee engine recorded, so they
+ * follow the user's cost-basis method. Network fees are valued at the
+ * native token price stored when the swap settled.
+ */
+
+import { prisma } from '@chainhopper/core/prisma';
+import type { AdapterRegistry, ChainId } from '@chainhopper/types';
+import { adapterRegistry } from './adapter-registry.js';
+import { fromDbChainId, type TokenRecord } from './swap-repository.js';
+
+export type TaxExportFormat = 'csv' | 'koinly' | 'cointracker';
+
+export const TAX_EXPORT_FORMATS: readonly TaxExportFormat[] = ['csv', 'koinly', 'cointracker'];
+
+export interface TaxExport {
+  filename: string;
+  content: string;
+}
+
+/** Decimal columns come back as Prisma.Decimal; only toString() is relied on */
+type DecimalLike = { toString(): string };
+
+interface SwapRecord {
+  id: string;
+  chainId: string;
+  status: string;
+  txHash: string | null;
+  tokenIn: TokenRecord;
+  tokenOut: TokenRecord;
+  amountIn: DecimalLike;
+  amountOut: DecimalLike;
+  amountInUsd: DecimalLike;
+  amountOutUsd: DecimalLike;
+  networkFee: DecimalLike | null;
+  networkFeeUsd: DecimalLike | null;
+  createdAt: Date;
+  executedAt: Date | null;
+  confirmedAt: Date | null;
+  lotDisposals: {
+    amount: DecimalLike;
+    costBasis: DecimalLike;
+    proceeds: DecimalLike;
+    realizedPnl: DecimalLike;
+    disposedAt: Date;
+    lot: { openedAt: Date };
+  }[];
+  feeCalculations: { feeAmount: DecimalLike; feeAmountUsd: DecimalLike }[];
+}
+
+interface Fee {
+  amount: string;
+  currency: string;
+  usd?: number;
+}
+
+/** A settled swap, in whole units */
+interface TaxableSwap {
+  id: string;
+  chainId: string;
+  txHash: string;
+  date: Date;
+  /** Reverted swaps only carry their network fee */
+  reverted: boolean;
+  sent: { amount: string; currency: string; usd: number };
+  received: { amount: string; currency: string; usd: number };
+  networkFee?: Fee;
+  profitShareFee?: Fee;
+  disposals: {
+    acquiredAt: Date;
+    disposedAt: Date;
+    amount: string;
+    costBasis: number;
+    proceeds: number;
+    gain: number;
+  }[];
+  /** Part of the sell that no tracked lot covered */
+  unmatched?: { amount: string; proceeds: number };
+}
+
+const LONG_TERM_MS = 365 * 24 * 60 * 60 * 1000;
+
+export class TaxExportService {
+  constructor(
+    private db: typeof prisma = prisma,
+    private registry: Pick<AdapterRegistry, 'get'> = adapterRegistry
+  ) {}
+
+  /**
+   * Export a user's trades for a tax year in the given format
+   */
+  async export(userId: string, year: number, format: TaxExportFormat): Promise<TaxExport> {
+    const swaps = await this.getSwaps(userId, year);
+
+    const content =
+      format === 'koinly'
+        ? toKoinly(swaps)
+        : format === 'cointracker'
+          ? toCoinTracker(swaps)
+          : toGainsReport(swaps);
+
+    return { filename: `chainhopper-${year}-${format}.csv`, content };
+  }
+
+  /**
+   * Swaps that settled in the year, oldest first. Reverted swaps are
+   * included when they paid a network fee.
+   */
+  private async getSwaps(userId: string, year: number): Promise<TaxableSwap[]> {
+    const range = { gte: new Date(Date.UTC(year, 0, 1)), lt: new Date(Date.UTC(year + 1, 0, 1)) };
+
+    const records: SwapRecord[] = await this.db.swapTransaction.findMany({
+      where: {
+        userId,
+        OR: [
+          { status: 'CONFIRMED', confirmedAt: range },
+          { status: 'FAILED', networkFee: { not: null }, executedAt: range },
+        ],
+      },
+      include: {
+        tokenIn: true,
+        tokenOut: true,
+        lotDisposals: { orderBy: { disposedAt: 'asc' }, include: { lot: true } },
+        feeCalculations: true,
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return records
+      .map((record) => this.toTaxableSwap(record))
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+
+  private toTaxableSwap(record: SwapRecord): TaxableSwap {
+    const chainId = fromDbChainId(record.chainId);
+    const profitShare = record.feeCalculations.reduce(
+      (sum, fee) => ({
+        amount: sum.amount + BigInt(fee.feeAmount.toString()),
+        usd: sum.usd + Number(fee.feeAmountUsd.toString()),
+      }),
+      { amount: 0n, usd: 0 }
+    );
+
+    const amountIn = BigInt(record.amountIn.toString());
+    const matched = record.lotDisposals.reduce(
+      (sum, disposal) => sum + BigInt(disposal.amount.toString()),
+      0n
+    );
+    const unmatched = record.status === 'CONFIRMED' ? amountIn - matched : 0n;
+    const exitValueUsd =
+      Number(record.amountOutUsd.toString()) || Number(record.amountInUsd.toString());
+
+    return {
+      id: record.id,
+      chainId,
+      txHash: record.txHash ?? '',
+      date: record.confirmedAt ?? record.executedAt ?? record.createdAt,
+      reverted: record.status !== 'CONFIRMED',
+      sent: {
+        amount: toUnits(record.amountIn, record.tokenIn.decimals),
+        currency: record.tokenIn.symbol,
+        usd: Number(record.amountInUsd.toString()),
+      },
+      received: {
+        amount: toUnits(record.amountOut, record.tokenOut.decimals),
+        currency: record.tokenOut.symbol,
+        usd: Number(record.amountOutUsd.toString()),
+      },
+      networkFee: this.toNetworkFee(chainId, record),
+      // The profit share is charged in the token the sell received
+      profitShareFee:
+        profitShare.amount > 0n
+          ? {
+              amount: toUnits(profitShare.amount, record.tokenOut.decimals),
+              currency: record.tokenOut.symbol,
+              usd: profitShare.usd,
+            }
+          : undefined,
+      disposals: record.lotDisposals.map((disposal) => ({
+        acquiredAt: disposal.lot.openedAt,
+        disposedAt: disposal.disposedAt,
+        amount: toUnits(disposal.amount, record.tokenIn.decimals),
+        costBasis: Number(disposal.costBasis.toString()),
+        proceeds: Number(disposal.proceeds.toString()),
+        gain: Number(disposal.realizedPnl.toString()),
+      })),
+      unmatched:
+        unmatched > 0n
+          ? {
+              amount: toUnits(unmatched, record.tokenIn.decimals),
+              proceeds: (exitValueUsd * Number(unmatched)) / Number(amountIn),
+            }
+          : undefined,
+    };
+  }
+
+  /**
+   * Gas in the chain's native token, or in USD when the chain's native
+   * currency is unknown
+   */
+  private toNetworkFee(chainId: string, record: SwapRecord): Fee | undefined {
+    if (!record.networkFee || record.networkFee.toString() === '0') return undefined;
+
+    const usd = record.networkFeeUsd ? Number(record.networkFeeUsd.toString()) : undefined;
+    const native = this.registry.get(chainId as ChainId)?.config.nativeCurrency;
+    if (native) {
+      return {
+        amount: toUnits(record.networkFee, native.decimals),
+        currency: native.symbol,
+        usd,
+      };
+    }
+
+    return usd !== undefined ? { amount: formatUsd(usd), currency: 'USD', usd } : undefined;
+  }
+}
+
+// ============================================================================
+// Formats
+// ============================================================================
+
+function toGainsReport(swaps: TaxableSwap[]): string {
+  const rows: string[][] = [];
+
+  for (const swap of swaps) {
+    for (const disposal of swap.disposals) {
+      const held = disposal.disposedAt.getTime() - disposal.acquiredAt.getTime();
+      rows.push([
+        disposal.disposedAt.toISOString(),
+        'Disposal',
+        swap.chainId,
+        swap.sent.currency,
+        disposal.amount,
+        disposal.acquiredAt.toISOString(),
+        formatUsd(disposal.costBasis),
+        formatUsd(disposal.proceeds),
+        formatUsd(disposal.gain),
+        held > LONG_TERM_MS ? 'long' : 'short',
+        '',
+        swap.txHash,
+      ]);
+    }
+
+    if (swap.unmatched) {
+      rows.push([
+        swap.date.toISOString(),
+        'Disposal',
+        swap.chainId,
+        swap.sent.currency,
+        swap.unmatched.amount,
+        '',
+        '',
+        formatUsd(swap.unmatched.proceeds),
+        '',
+        'unknown',
+        '',
+        swap.txHash,
+      ]);
+    }
+
+    for (const [type, fee] of [
+      ['Profit Share Fee', swap.profitShareFee],
+      ['Network Fee', swap.networkFee],
+    ] as const) {
+      if (!fee) continue;
+      rows.push([
+        swap.date.toISOString(),
+        type,
+        swap.chainId,
+        fee.currency,
+        fee.amount,
+        '',
+        '',
+        '',
+        '',
+        '',
+        fee.usd !== undefined ? formatUsd(fee.usd) : '',
+        swap.txHash,
+      ]);
+    }
+  }
+
+  return toCsv(
+    [
+      'Date',
+      'Type',
+      'Chain',
+      'Asset',
+      'Amount',
+      'Date Acquired',
+      'Cost Basis (USD)',
+      'Proceeds (USD)',
+      'Gain (USD)',
+      'Holding Period',
+      'Fee (USD)',
+      'Tx Hash',
+    ],
+    rows
+  );
+}
+
+/**
+ * Koinly universal format. Koinly has one fee column, so the profit share
+ * is exported as a separate outgoing line labelled as a cost.
+ */
+function toKoinly(swaps: TaxableSwap[]): string {
+  const rows: string[][] = [];
+
+  for (const swap of swaps) {
+    const date = formatKoinlyDate(swap.date);
+
+    if (swap.reverted) {
+      if (swap.networkFee) {
+        rows.push(koinlyCost(date, swap.networkFee, 'Network fee for reverted swap', swap.txHash));
+      }
+      continue;
+    }
+
+    rows.push([
+      date,
+      swap.sent.amount,
+      swap.sent.currency,
+      swap.received.amount,
+      swap.received.currency,
+      swap.networkFee?.amount ?? '',
+      swap.networkFee?.currency ?? '',
+      formatUsd(swap.received.usd || swap.sent.usd),
+      'USD',
+      '',
+      `Swap on ${swap.chainId}`,
+      swap.txHash,
+    ]);
+    if (swap.profitShareFee) {
+      rows.push(koinlyCost(date, swap.profitShareFee, 'ChainHopper profit share', swap.txHash));
+    }
+  }
+
+  return toCsv(
+    [
+      'Date',
+      'Sent Amount',
+      'Sent Currency',
+      'Received Amount',
+      'Received Currency',
+      'Fee Amount',
+      'Fee Currency',
+      'Net Worth Amount',
+      'Net Worth Currency',
+      'Label',
+      'Description',
+      'TxHash',
+    ],
+    rows
+  );
+}
+
+function koinlyCost(date: string, fee: Fee, description: string, txHash: string): string[] {
+  return [
+    date,
+    fee.amount,
+    fee.currency,
+    '',
+    '',
+    '',
+    '',
+    fee.usd !== undefined ? formatUsd(fee.usd) : '',
+    fee.usd !== undefined ? 'USD' : '',
+    'cost',
+    description,
+    txHash,
+  ];
+}
+
+/**
+ * CoinTracker CSV import. Fees without a trade (the profit share and gas
+ * for reverted swaps) are fee-only lines.
+ */
+function toCoinTracker(swaps: TaxableSwap[]): string {
+  const rows: string[][] = [];
+
+  for (const swap of swaps) {
+    const date = formatCoinTrackerDate(swap.date);
+
+    if (!swap.reverted) {
+      rows.push([
+        date,
+        swap.received.amount,
+        swap.received.currency,
+        swap.sent.amount,
+        swap.sent.currency,
+        swap.networkFee?.amount ?? '',
+        swap.networkFee?.currency ?? '',
+        '',
+      ]);
+    } else if (swap.networkFee) {
+      rows.push([date, '', '', '', '', swap.networkFee.amount, swap.networkFee.currency, '']);
+    }
+
+    if (swap.profitShareFee) {
+      rows.push([
+        date,
+        '',
+        '',
+        '',
+        '',
+        swap.profitShareFee.amount,
+        swap.profitShareFee.currency,
+        '',
+      ]);
+    }
+  }
+
+  return toCsv(
+    [
+      'Date',
+      'Received Quantity',
+      'Received Currency',
+      'Sent Quantity',
+      'Sent Currency',
+      'Fee Amount',
+      'Fee Currency',
+      'Tag',
+    ],
+    rows
+  );
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function toCsv(header: string[], rows: string[][]): string {
+  return [header, ...rows].map((row) => row.map(escapeCsv).join(',')).join('\n') + '\n';
+}
+
+/**
+ * Quote fields that need it, and keep token symbols from being read as
+ * spreadsheet formulas
+ */
+function escapeCsv(value: string): string {
+  const safe = /^[=+@\t\r]/.test(value) || /^-[^\d]/.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/** Smallest-unit amount as an exact decimal string */
+function toUnits(amount: DecimalLike | bigint, decimals: number): string {
+  const value = BigInt(amount.toString());
+  const base = 10n ** BigInt(decimals);
+  const fraction = (value % base).toString().padStart(decimals, '0').replace(/0+$/, '');
+  return fraction ? `${value / base}.${fraction}` : (value / base).toString();
+}
+
+function formatUsd(value: number): string {
+  return value.toFixed(2);
+}
+
+/** 2025-01-31 14:05:09 UTC */
+function formatKoinlyDate(date: Date): string {
+  return `${date.toISOString().slice(0, 19).replace('T', ' ')} UTC`;
+}
+
+/** 01/31/2025 14:05:09, in UTC */
+function formatCoinTrackerDate(date: Date): string {
+  const iso = date.toISOString();
+  return `${iso.slice(5, 7)}/${iso.slice(8, 10)}/${iso.slice(0, 4)} ${iso.slice(11, 19)}`;
+}
+
+// Singleton instance
+export const taxExportService = new TaxExportService();
@@ -0,0 +1,73 @@
+/**
+ * User Settings Service
+ *
+ * Reads and updates the settings JSON on a user's row. The fee engine
+ * reads costBasisMethod from the same column when a swap or transfer
+ * consumes lots, so a change here applies to the user's next trade.
+ */
+
+import { prisma } from '@chainhopper/core/prisma';
+import type { NotificationSettings, UserSettings } from '@chainhopper/types';
+
+export type UserSettingsUpdate = Partial<Omit<UserSettings, 'notifications'>> & {
+  notifications?: Partial<NotificationSettings>;
+};
+
+/** Filled in for any setting a user's stored JSON doesn't have */
+export const DEFAULT_USER_SETTINGS: UserSettings = {
+  defaultSlippage: 0.5,
+  defaultChain: 'base',
+  notifications: {
+    tradeConfirmations: true,
+    priceAlerts: true,
+    portfolioUpdates: true,
+    newListings: false,
+  },
+  autoApprove: false,
+  costBasisMethod: 'fifo',
+};
+
+export class UserSettingsService {
+  constructor(private db: typeof prisma = prisma) {}
+
+  /**
+   * Get a user's settings, or null if the user doesn't exist
+   */
+  async get(userId: string): Promise<UserSettings | null> {
+    const user: { settings: unknown } | null = await this.db.user.findUnique({
+      where: { id: userId },
+      select: { settings: true },
+    });
+
+    return user ? withDefaults(user.settings) : null;
+  }
+
+  /**
+   * Merge changes into a user's stored settings. Notification flags merge
+   * individually, so updating one leaves the others as they were.
+   */
+  async update(userId: string, changes: UserSettingsUpdate): Promise<UserSettings | null> {
+    const current = await this.get(userId);
+    if (!current) return null;
+
+    const settings: UserSettings = {
+      ...current,
+      ...changes,
+      notifications: { ...current.notifications, ...changes.notifications },
+    };
+    await this.db.user.update({ where: { id: userId }, data: { settings } });
+
+    return settings;
+  }
+}
+
+function withDefaults(stored: unknown): UserSettings {
+  const settings = (stored ?? {}) as Partial<UserSettings>;
+  return {
+    ...DEFAULT_USER_SETTINGS,
+    ...settings,
+    notifications: { ...DEFAULT_USER_SETTINGS.notifications, ...settings.notifications },
+  };
+}
+
+export const userSettings = new UserSettingsService();
@@ -0,0 +1,400 @@
+/**
+ * Swap Confirmation Tracker
+ *
+ * Background worker that picks up submitted swaps, waits for the chain
+ * adapter to confirm them, updates their status and notifies the owning
+ * user over WebSocket:
+ *
+ *   submitted → confirming → confirmed | failed | expired
+ *
+ * Every API replica runs a tracker. Status changes are claimed through
+ * the repository, and only the replica whose change applied publishes the
+ * trade event, so users see each transition once.
+ *
+ * Confirmed swaps are then handed to the fee engine, which opens and
+ * closes the user's positions and charges any profit share. Swaps whose
+ * recording failed are retried by a slower sweep for an hour. The gas a
+ * settled swap paid is stored with the native token's price at the time,
+ * so tax exports can value it without a historical price lookup.
+ */
+
+import { getEvmChainId } from '@chainhopper/adapters';
+import type { AdapterRegistry, ChainId } from '@chainhopper/types';
+import { feeEngine, type FeeEngine } from '@chainhopper/core/fees';
+import { NATIVE_TOKENS, type PriceOracleService } from '@chainhopper/core/oracle';
+import { adapterRegistry, priceOracle, swapRepository } from '../services/index.js';
+import type { SwapRepository, SwapStatusUpdate, TrackedSwap } from '../services/index.js';
+import { emitTradeEvent } from '../ws/index.js';
+
+export interface ConfirmationSettings {
+  /** Block confirmations required before a swap counts as confirmed */
+  confirmations: number;
+  /** Time after submission before an unconfirmed swap is expired */
+  timeoutMs: number;
+}
+
+export const DEFAULT_CONFIRMATION_SETTINGS: ConfirmationSettings = {
+  confirmations: 1,
+  timeoutMs: 10 * 60 * 1000,
+};
+
+/**
+ * How long after confirming a swap's fee recording is retried. Swaps that
+ * record nothing (an unpriced buy with no lots to sell) also match the
+ * sweep, so it only looks back this far.
+ */
+const FEE_RETRY_WINDOW_MS = 60 * 60 * 1000;
+
+/**
+ * Per-chain overrides. Chains with probabilistic finality wait for more
+ * blocks; fast-finality chains confirm on inclusion.
+ */
+export const CHAIN_CONFIRMATION_SETTINGS: Partial<Record<ChainId, ConfirmationSettings>> = {
+  ethereum: { confirmations: 3, timeoutMs: 20 * 60 * 1000 },
+  polygon: { confirmations: 10, timeoutMs: 15 * 60 * 1000 },
+  bsc: { confirmations: 5, timeoutMs: 10 * 60 * 1000 },
+  avalanche: { confirmations: 1, timeoutMs: 5 * 60 * 1000 },
+  arbitrum: { confirmations: 1, timeoutMs: 5 * 60 * 1000 },
+  optimism: { confirmations: 1, timeoutMs: 5 * 60 * 1000 },
+  base: { confirmations: 1, timeoutMs: 5 * 60 * 1000 },
+  ton: { confirmations: 1, timeoutMs: 5 * 60 * 1000 },
+  sui: { confirmations: 1, timeoutMs: 5 * 60 * 1000 },
+  solana: { confirmations: 1, timeoutMs: 3 * 60 * 1000 },
+  eclipse: { confirmations: 1, timeoutMs: 3 * 60 * 1000 },
+};
+
+type TradeEventEmitter = typeof emitTradeEvent;
+
+type TrackerRepository = Pick<
+  SwapRepository,
+  'findActive' | 'findUnrecorded' | 'markChecked' | 'updateStatus'
+>;
+
+export interface ConfirmationTrackerOptions {
+  registry?: AdapterRegistry;
+  repository?: TrackerRepository;
+  emit?: TradeEventEmitter;
+  fees?: Pick<FeeEngine, 'recordSwap'>;
+  prices?: Pick<PriceOracleService, 'getPrice'>;
+  pollIntervalMs?: number;
+  /** Interval of the sweep that retries failed fee recording */
+  feeRetryIntervalMs?: number;
+  batchSize?: number;
+  settings?: Partial<Record<ChainId, ConfirmationSettings>>;
+}
+
+type ConfirmationOutcome =
+  | { type: 'settled'; status: 'confirmed' | 'failed'; amountOut: bigint; networkFee?: bigint }
+  | { type: 'pending' }
+  | { type: 'timeout' };
+
+export class SwapConfirmationTracker {
+  private registry: AdapterRegistry;
+  private repository: TrackerRepository;
+  private emit: TradeEventEmitter;
+  private fees: Pick<FeeEngine, 'recordSwap'>;
+  private prices: Pick<PriceOracleService, 'getPrice'>;
+  private pollIntervalMs: number;
+  private feeRetryIntervalMs: number;
+  private batchSize: number;
+  private settings: Partial<Record<ChainId, ConfirmationSettings>>;
+
+  private inFlight: Map<string, Promise<void>> = new Map();
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+  private feeRetryTimer: ReturnType<typeof setInterval> | null = null;
+  private polling = false;
+
+  constructor(options: ConfirmationTrackerOptions = {}) {
+    this.registry = options.registry ?? adapterRegistry;
+    this.repository = options.repository ?? swapRepository;
+    this.emit = options.emit ?? emitTradeEvent;
+    this.fees = options.fees ?? feeEngine;
+    this.prices = options.prices ?? priceOracle;
+    this.pollIntervalMs = options.pollIntervalMs ?? 5000;
+    this.feeRetryIntervalMs = options.feeRetryIntervalMs ?? 60_000;
+    this.batchSize = options.batchSize ?? 100;
+    this.settings = { ...CHAIN_CONFIRMATION_SETTINGS, ...options.settings };
+  }
+
+  /**
+   * Start polling for submitted swaps
+   */
+  start(): void {
+    if (this.pollTimer) return;
+
+    this.pollTimer = setInterval(() => {
+      this.poll().catch((error) => {
+        console.error('[Tracker] Poll failed:', error);
+      });
+    }, this.pollIntervalMs);
+
+    this.feeRetryTimer = setInterval(() => {
+      this.retryFeeRecording().catch((error) => {
+        console.error('[Tracker] Fee retry failed:', error);
+      });
+    }, this.feeRetryIntervalMs);
+  }
+
+  /**
+   * Stop polling and wait for in-flight confirmations to settle
+   */
+  async stop(): Promise<void> {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+    if (this.feeRetryTimer) {
+      clearInterval(this.feeRetryTimer);
+      this.feeRetryTimer = null;
+    }
+
+    await Promise.allSettled(this.inFlight.values());
+  }
+
+  /**
+   * Load active swaps and start tracking any not already in flight.
+   * Returns the number of newly tracked swaps.
+   */
+  async poll(): Promise<number> {
+    if (this.polling) return 0;
+    this.polling = true;
+
+    try {
+      const swaps = await this.repository.findActive(this.batchSize);
+      // Moves them behind the rest of the backlog for the next poll
+      await this.repository.markChecked(swaps.map((swap) => swap.id));
+      let started = 0;
+
+      for (const swap of swaps) {
+        if (this.inFlight.has(swap.id)) continue;
+
+        const task = this.track(swap).finally(() => {
+          this.inFlight.delete(swap.id);
+        });
+        this.inFlight.set(swap.id, task);
+        started++;
+      }
+
+      return started;
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Record fees for recently confirmed swaps the fee engine has no lots
+   * for, such as ones whose recording failed when they settled. Swaps
+   * confirmed within the last interval are left to the replica settling
+   * them. Returns the number of swaps rerun.
+   */
+  async retryFeeRecording(now: number = Date.now()): Promise<number> {
+    const swapIds = await this.repository.findUnrecorded(
+      new Date(now - FEE_RETRY_WINDOW_MS),
+      new Date(now - this.feeRetryIntervalMs),
+      this.batchSize
+    );
+    let recorded = 0;
+
+    for (const swapId of swapIds) {
+      try {
+        await this.fees.recordSwap(swapId);
+        recorded++;
+      } catch (error) {
+        console.error(`[Tracker] Fee recording failed for ${swapId}:`, error);
+      }
+    }
+
+    return recorded;
+  }
+
+  /**
+   * Number of swaps currently being watched
+   */
+  get activeCount(): number {
+    return this.inFlight.size;
+  }
+
+  /**
+   * Get confirmation settings for a chain
+   */
+  getSettings(chainId: ChainId): ConfirmationSettings {
+    return this.settings[chainId] ?? DEFAULT_CONFIRMATION_SETTINGS;
+  }
+
+  /**
+   * Drive a single swap to its next status
+   */
+  async track(swap: TrackedSwap): Promise<void> {
+    const chainId = swap.chainId as ChainId;
+    const settings = this.getSettings(chainId);
+    const submittedAt = new Date(swap.executedAt ?? swap.createdAt).getTime();
+    const remainingMs = submittedAt + settings.timeoutMs - Date.now();
+
+    if (remainingMs <= 0) {
+      await this.settle(swap, 'expired');
+      return;
+    }
+
+    if (swap.status === 'submitted') {
+      // Another replica already moved it on; keep watching in case it stalls
+      if (await this.repository.updateStatus(swap.id, 'confirming')) {
+        this.emitTrade(swap, 'pending');
+      }
+    }
+
+    const adapter = this.registry.get(chainId);
+    if (!adapter) {
+      await this.settle(swap, 'failed', { error: `Chain ${chainId} is not supported` });
+      return;
+    }
+
+    let outcome: ConfirmationOutcome;
+    try {
+      outcome = await this.waitWithTimeout(
+        adapter
+          .waitForConfirmation(swap.txHash, settings.confirmations, {
+            recipient: swap.recipient || undefined,
+            quote: {
+              tokenIn: swap.tokenIn.address,
+              tokenOut: swap.tokenOut.address,
+              amountOut: BigInt(swap.amountOutExpected),
+              amountOutMin: BigInt(swap.amountOutMin),
+            },
+          })
+          .then((result) =>
+            result.status === 'confirmed' || result.status === 'failed'
+              ? {
+                  type: 'settled' as const,
+                  status: result.status,
+                  amountOut: result.amountOut,
+                  networkFee: result.fee?.networkFee,
+                }
+              : { type: 'pending' as const }
+          ),
+        remainingMs
+      );
+    } catch (error) {
+      // RPC errors are retried on the next poll until the swap times out
+      console.warn(`[Tracker] Confirmation check failed for ${swap.id}:`, error);
+      return;
+    }
+
+    if (outcome.type === 'timeout') {
+      await this.settle(swap, 'expired');
+    } else if (outcome.type === 'settled') {
+      await this.settle(swap, outcome.status, {
+        amountOut: outcome.amountOut,
+        networkFee: outcome.networkFee,
+      });
+    }
+  }
+
+  private async settle(
+    swap: TrackedSwap,
+    status: 'confirmed' | 'failed' | 'expired',
+    details: { amountOut?: bigint; networkFee?: bigint; error?: string } = {}
+  ): Promise<void> {
+    // Adapters report 0 when they cannot decode the settled amount
+    const amountOut = details.amountOut && details.amountOut > 0n ? details.amountOut : undefined;
+
+    // Reverted swaps still paid for their gas
+    const networkFee =
+      details.networkFee && details.networkFee > 0n
+        ? await this.valueNetworkFee(swap, details.networkFee)
+        : {};
+
+    const claimed = await this.repository.updateStatus(swap.id, status, {
+      amountOut: status === 'confirmed' ? amountOut : undefined,
+      confirmedAt: status === 'confirmed' ? new Date() : undefined,
+      ...networkFee,
+    });
+    // Settled by another replica, which publishes it and records fees
+    if (!claimed) return;
+
+    if (status === 'confirmed') {
+      this.emitTrade(swap, 'confirmed', { amountOut: amountOut?.toString() });
+
+      // The swap stays confirmed if this fails; retryFeeRecording reruns it
+      try {
+        await this.fees.recordSwap(swap.id);
+      } catch (error) {
+        console.error(`[Tracker] Fee recording failed for ${swap.id}:`, error);
+      }
+    } else {
+      const error =
+        details.error ??
+        (status === 'expired'
+          ? 'Transaction was not confirmed before the timeout'
+          : 'Transaction reverted');
+      this.emitTrade(swap, 'failed', { error });
+    }
+  }
+
+  /**
+   * Price the gas a swap paid in the chain's native token. The fee is
+   * kept without a USD value when the price is unavailable.
+   */
+  private async valueNetworkFee(
+    swap: TrackedSwap,
+    networkFee: bigint
+  ): Promise<Pick<SwapStatusUpdate, 'networkFee' | 'networkFeeUsd' | 'nativePriceUsd'>> {
+    const chainId = swap.chainId as ChainId;
+    const nativeToken = NATIVE_TOKENS[chainId];
+    if (!nativeToken) return { networkFee };
+    const decimals = this.registry.get(chainId)?.config.nativeCurrency?.decimals ?? 18;
+
+    try {
+      const price = await this.prices.getPrice(nativeToken, chainId);
+      if (!price) return { networkFee };
+
+      return {
+        networkFee,
+        networkFeeUsd: (Number(networkFee) / 10 ** decimals) * price.priceUsd,
+        nativePriceUsd: price.priceUsd,
+      };
+    } catch (error) {
+      console.warn(`[Tracker] Native price lookup failed for ${swap.id}:`, error);
+      return { networkFee };
+    }
+  }
+
+  private emitTrade(
+    swap: TrackedSwap,
+    status: 'pending' | 'confirmed' | 'failed',
+    details: { amountOut?: string; error?: string } = {}
+  ): void {
+    this.emit(swap.userId, {
+      tradeId: swap.id,
+      chainId: getEvmChainId(swap.chainId as ChainId) ?? swap.chainId,
+      status,
+      tokenIn: {
+        address: swap.tokenIn.address,
+        symbol: swap.tokenIn.symbol,
+        amount: swap.amountIn,
+      },
+      tokenOut: {
+        address: swap.tokenOut.address,
+        symbol: swap.tokenOut.symbol,
+        amount: details.amountOut ?? swap.amountOutExpected,
+        amountExpected: swap.amountOutExpected,
+      },
+      txHash: swap.txHash,
+      error: details.error,
+    });
+  }
+
+  private waitWithTimeout(
+    confirmation: Promise<ConfirmationOutcome>,
+    timeoutMs: number
+  ): Promise<ConfirmationOutcome> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<ConfirmationOutcome>((resolve) => {
+      timer = setTimeout(() => resolve({ type: 'timeout' }), timeoutMs);
+    });
+
+    return Promise.race([confirmation, timeout]).finally(() => clearTimeout(timer));
+  }
+}
+
+// Singleton instance
+export const confirmationTracker = new SwapConfirmationTracker();
@@ -0,0 +1,19 @@
+/**
+ * Background Workers
+ */
+
+export {
+  SwapConfirmationTracker,
+  confirmationTracker,
+  DEFAULT_CONFIRMATION_SETTINGS,
+  CHAIN_CONFIRMATION_SETTINGS,
+  type ConfirmationSettings,
+  type ConfirmationTrackerOptions,
+} from './confirmation-tracker.js';
+
+export {
+  PriceStreamer,
+  priceStreamer,
+  PRICE_POLL_INTERVALS,
+  type PriceStreamerOptions,
+} from './price-streamer.js';
@@ -0,0 +1,392 @@
+/**
+ * Price Streamer
+ *
+ * Background worker that feeds `price:update` events to WebSocket clients.
+ * Every tick it looks at which `prices:{chainId}:{address}` channels have
+ * subscribers, polls the price oracle for those that are due, and emits
+ * only prices that changed since the channel's last update.
+ *
+ * Each channel is polled at a cadence set by the source of its latest
+ * price: Pyth and on-chain feeds move every few seconds, while aggregator
+ * APIs are rate limited and refresh more slowly. Tokens with a Pyth feed
+ * are streamed instead: one Hermes stream covers all of them. Updates
+ * are coalesced to the latest price per channel and emitted on the next
+ * tick, under the same message budget as polled prices. While that stream
+ * is down they are polled like the rest.
+ */
+
+import { EVM_CHAIN_IDS } from '@chainhopper/adapters';
+import type { AdapterRegistry, ChainId } from '@chainhopper/types';
+import {
+  NATIVE_TOKENS,
+  type PriceData,
+  type PriceOracleService,
+  type PriceSource,
+} from '@chainhopper/core/oracle';
+import { adapterRegistry, priceOracle } from '../services/index.js';
+import { connectionManager, emitPriceUpdate } from '../ws/index.js';
+
+export const PRICE_POLL_INTERVALS: Record<PriceSource, number> = {
+  pyth: 2_000,
+  chainlink: 5_000,
+  dex: 5_000,
+  dexscreener: 15_000,
+  coingecko: 30_000,
+};
+
+/** Cadence for channels that have no price yet */
+const DEFAULT_POLL_INTERVAL_MS = 5_000;
+
+const CHANNEL_PREFIX = 'prices:';
+
+const CHAINS_BY_EVM_ID = new Map<number, ChainId>(
+  Object.entries(EVM_CHAIN_IDS).map(([chainId, evmId]) => [evmId, chainId as ChainId])
+);
+
+type PriceUpdateEmitter = typeof emitPriceUpdate;
+
+type PriceStream = Pick<PriceOracleService, 'streamsToken' | 'streamPrices'>;
+
+export interface PriceStreamerOptions {
+  oracle?: Pick<PriceOracleService, 'getPrices'>;
+  /** Push feed for the tokens it covers; null to poll every channel */
+  stream?: PriceStream | null;
+  /** Wait before reopening a stream that closed or failed */
+  streamRetryMs?: number;
+  registry?: AdapterRegistry;
+  /** Price channels that currently have subscribers */
+  channels?: () => string[];
+  emit?: PriceUpdateEmitter;
+  tickMs?: number;
+  /** Most channels polled in one tick; the stalest go first */
+  maxChannelsPerTick?: number;
+  /** Most messages sent in one tick; channels past it are retried next tick */
+  maxMessagesPerTick?: number;
+  intervals?: Partial<Record<PriceSource, number>>;
+}
+
+interface PriceChannel {
+  /** Chain as the client subscribed to it: EVM chain ID or chain name */
+  subscribedChainId: number | string;
+  chainId: ChainId;
+  address: string;
+  nextPollAt: number;
+  /** Whether the stream covers the token; unset until checked */
+  streamed?: boolean;
+  symbol?: string;
+  lastPriceUsd?: number;
+  /** Latest streamed price not yet emitted */
+  streamedPrice?: PriceData;
+}
+
+export class PriceStreamer {
+  private oracle: Pick<PriceOracleService, 'getPrices'>;
+  private stream: PriceStream | null;
+  private streamRetryMs: number;
+  private registry: AdapterRegistry;
+  private channels: () => string[];
+  private emit: PriceUpdateEmitter;
+  private tickMs: number;
+  private maxChannelsPerTick: number;
+  private maxMessagesPerTick: number;
+  private intervals: Record<PriceSource, number>;
+
+  private state: Map<string, PriceChannel> = new Map();
+  /** Latest native token price per chain, which native prices are quoted against */
+  private nativePrices: Map<ChainId, PriceData> = new Map();
+  private tickTimer: ReturnType<typeof setInterval> | null = null;
+  private ticking = false;
+
+  /** Tokens the open stream covers, as sorted price keys */
+  private streamKey = '';
+  private streamAbort: AbortController | null = null;
+  private streamClosed = false;
+  private streamRetryAt = 0;
+
+  constructor(options: PriceStreamerOptions = {}) {
+    this.oracle = options.oracle ?? priceOracle;
+    this.stream = options.stream === undefined ? priceOracle : options.stream;
+    this.streamRetryMs = options.streamRetryMs ?? 5_000;
+    this.registry = options.registry ?? adapterRegistry;
+    this.channels = options.channels ?? (() => connectionManager.getChannels(CHANNEL_PREFIX));
+    this.emit = options.emit ?? emitPriceUpdate;
+    this.tickMs = options.tickMs ?? 1000;
+    this.maxChannelsPerTick = options.maxChannelsPerTick ?? 200;
+    this.maxMessagesPerTick = options.maxMessagesPerTick ?? 5000;
+    this.intervals = { ...PRICE_POLL_INTERVALS, ...options.intervals };
+  }
+
+  /**
+   * Start streaming prices
+   */
+  start(): void {
+    if (this.tickTimer) return;
+
+    this.tickTimer = setInterval(() => {
+      this.tick().catch((error) => {
+        console.error('[Prices] Tick failed:', error);
+      });
+    }, this.tickMs);
+  }
+
+  /**
+   * Stop streaming prices
+   */
+  stop(): void {
+    if (this.tickTimer) {
+      clearInterval(this.tickTimer);
+      this.tickTimer = null;
+    }
+
+    this.streamAbort?.abort();
+    this.streamAbort = null;
+    this.streamKey = '';
+  }
+
+  /**
+   * Emit the prices streamed since the last tick, then poll the channels
+   * that are due and emit changed prices. Returns the number of channels
+   * updated.
+   */
+  async tick(now: number = Date.now()): Promise<number> {
+    if (this.ticking) return 0;
+    this.ticking = true;
+
+    try {
+      this.syncChannels(now);
+      await this.syncStream(now);
+
+      let updated = 0;
+      let messages = 0;
+      for (const channel of this.state.values()) {
+        const price = channel.streamedPrice;
+        if (!price) continue;
+
+        // Over budget: keep the price so it goes out next tick
+        if (messages >= this.maxMessagesPerTick) break;
+
+        channel.streamedPrice = undefined;
+        if (price.priceUsd === channel.lastPriceUsd) continue;
+
+        messages += await this.publish(channel, price);
+        updated++;
+      }
+
+      // Streamed channels are only polled while the stream is down
+      const due = Array.from(this.state.entries())
+        .filter(([, channel]) => !(channel.streamed && this.streamAbort))
+        .filter(([, channel]) => channel.nextPollAt <= now)
+        .sort(([, a], [, b]) => a.nextPollAt - b.nextPollAt)
+        .slice(0, this.maxChannelsPerTick);
+      if (due.length === 0 || messages >= this.maxMessagesPerTick) return updated;
+
+      let prices: Map<string, PriceData>;
+      try {
+        prices = await this.oracle.getPrices(this.tokensFor(due.map(([, channel]) => channel)));
+      } catch (error) {
+        console.warn('[Prices] Price lookup failed:', error);
+        due.forEach(([, channel]) => (channel.nextPollAt = now + DEFAULT_POLL_INTERVAL_MS));
+        return updated;
+      }
+
+      prices.forEach((price) => this.rememberNative(price));
+
+      for (const [, channel] of due) {
+        const price = prices.get(priceKey(channel.chainId, channel.address));
+        if (!price || price.priceUsd === channel.lastPriceUsd) {
+          channel.nextPollAt = now + this.intervalFor(price?.source);
+          continue;
+        }
+
+        // Over budget: leave the channel due so it goes first next tick
+        if (messages >= this.maxMessagesPerTick) continue;
+
+        messages += await this.publish(channel, price);
+        channel.nextPollAt = now + this.intervalFor(price.source);
+        updated++;
+      }
+
+      return updated;
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * Number of price channels being streamed
+   */
+  get channelCount(): number {
+    return this.state.size;
+  }
+
+  /**
+   * Emit a channel's new price. Returns the number of messages sent.
+   */
+  private async publish(channel: PriceChannel, price: PriceData): Promise<number> {
+    const sent = this.emit(channel.subscribedChainId, channel.address, {
+      symbol: await this.symbolFor(channel),
+      priceUsd: price.priceUsd.toString(),
+      priceNative: this.nativePrice(channel.chainId, price),
+      change24h: price.metadata?.priceChange24h ?? 0,
+      volume24h: (price.metadata?.volume24h ?? 0).toString(),
+    });
+    channel.lastPriceUsd = price.priceUsd;
+
+    return sent;
+  }
+
+  /**
+   * Keep one stream open for the channels it covers. It is reopened when
+   * those channels change, and a while after it closes or fails.
+   */
+  private async syncStream(now: number): Promise<void> {
+    if (!this.stream) return;
+
+    for (const channel of this.state.values()) {
+      if (channel.streamed !== undefined) continue;
+
+      channel.streamed = await this.stream
+        .streamsToken(channel.address, channel.chainId)
+        .catch(() => false);
+    }
+
+    if (this.streamClosed) {
+      this.streamClosed = false;
+      this.streamRetryAt = now + this.streamRetryMs;
+    }
+
+    const streamed = Array.from(this.state.values()).filter((channel) => channel.streamed);
+    const key = Array.from(new Set(streamed.map((c) => priceKey(c.chainId, c.address))))
+      .sort()
+      .join(',');
+    if (key === this.streamKey && (this.streamAbort || now < this.streamRetryAt)) return;
+
+    this.streamAbort?.abort();
+    this.streamAbort = null;
+    this.streamKey = key;
+    if (streamed.length === 0) return;
+
+    const abort = new AbortController();
+    this.streamAbort = abort;
+    this.stream
+      .streamPrices(this.tokensFor(streamed), (price) => this.onStreamPrice(price), abort.signal)
+      .catch((error) => {
+        if (!abort.signal.aborted) console.warn('[Prices] Price stream failed:', error);
+      })
+      .finally(() => {
+        if (this.streamAbort !== abort) return;
+        this.streamAbort = null;
+        this.streamClosed = true;
+      });
+  }
+
+  /**
+   * Hold a streamed price for the channels watching its token until the
+   * next tick; a later update replaces one not yet emitted
+   */
+  private onStreamPrice(price: PriceData): void {
+    this.rememberNative(price);
+
+    const key = priceKey(price.chainId, price.tokenAddress);
+    for (const channel of this.state.values()) {
+      if (channel.streamed && priceKey(channel.chainId, channel.address) === key) {
+        channel.streamedPrice = price;
+      }
+    }
+  }
+
+  /**
+   * Track newly subscribed channels and forget ones nobody watches
+   */
+  private syncChannels(now: number): void {
+    const subscribed = new Set(this.channels());
+
+    for (const key of this.state.keys()) {
+      if (!subscribed.has(key)) this.state.delete(key);
+    }
+
+    for (const key of subscribed) {
+      if (this.state.has(key)) continue;
+
+      const channel = parseChannel(key, now);
+      if (channel) this.state.set(key, channel);
+    }
+  }
+
+  /**
+   * Tokens to price: the channels' tokens plus their chains' native
+   * tokens, which the native price is quoted against
+   */
+  private tokensFor(channels: PriceChannel[]): { address: string; chainId: ChainId }[] {
+    const tokens = new Map<string, { address: string; chainId: ChainId }>();
+
+    for (const { chainId, address } of channels) {
+      tokens.set(priceKey(chainId, address), { address, chainId });
+
+      const native = NATIVE_TOKENS[chainId];
+      if (native) tokens.set(priceKey(chainId, native), { address: native, chainId });
+    }
+
+    return Array.from(tokens.values());
+  }
+
+  private nativePrice(chainId: ChainId, price: PriceData): string | undefined {
+    const nativePrice = this.nativePrices.get(chainId);
+    if (!nativePrice || nativePrice.priceUsd <= 0) return undefined;
+
+    return (price.priceUsd / nativePrice.priceUsd).toString();
+  }
+
+  private rememberNative(price: PriceData): void {
+    const native = NATIVE_TOKENS[price.chainId];
+    if (native && priceKey(price.chainId, native) === priceKey(price.chainId, price.tokenAddress)) {
+      this.nativePrices.set(price.chainId, price);
+    }
+  }
+
+  /**
+   * Token symbol from the chain adapter, looked up once per channel
+   */
+  private async symbolFor(channel: PriceChannel): Promise<string> {
+    if (channel.symbol === undefined) {
+      const token = await this.registry
+        .get(channel.chainId)
+        ?.getToken(channel.address)
+        .catch(() => null);
+      channel.symbol = token?.symbol ?? '';
+    }
+
+    return channel.symbol;
+  }
+
+  private intervalFor(source: PriceSource | undefined): number {
+    return source ? this.intervals[source] : DEFAULT_POLL_INTERVAL_MS;
+  }
+}
+
+/**
+ * Parse `prices:{chainId}:{address}`, where chainId is an EVM chain ID
+ * or a chain name
+ */
+function parseChannel(key: string, now: number): PriceChannel | null {
+  const [, rawChainId, address] = key.split(':');
+  if (!rawChainId || !address) return null;
+
+  const evmId = Number(rawChainId);
+  const chainId = Number.isInteger(evmId) ? CHAINS_BY_EVM_ID.get(evmId) : (rawChainId as ChainId);
+  if (!chainId) return null;
+
+  return {
+    subscribedChainId: Number.isInteger(evmId) ? evmId : rawChainId,
+    chainId,
+    address,
+    nextPollAt: now,
+  };
+}
+
+function priceKey(chainId: ChainId, address: string): string {
+  return `${chainId}:${address.toLowerCase()}`;
+}
+
+// Singleton instance
+export const priceStreamer = new PriceStreamer();
@@ -5,13 +5,18 @@
  * and broadcasting of real-time events.
  */
 
+import { WebSocket } from 'ws';
 import type {
   ClientConnection,
+  ConnectionSession,
   WebSocketMessage,
   WebSocketEventType,
   SubscriptionChannel,
 } from './types.js';
 
+// Close code for sockets whose credential lapsed without a refresh
+const SESSION_EXPIRED_CLOSE_CODE = 4001;
+
 class ConnectionManager {
   private connections: Map<string, ClientConnection> = new Map();
   private userConnections: Map<string, Set<string>> = new Map();
@@ -65,14 +70,20 @@ class ConnectionManager {
   }
 
   /**
-   * Authenticate a connection
+   * Authenticate a connection, or refresh the session of one already
+   * authenticated as the same user
    */
-  authenticateConnection(connectionId: string, userId: string): boolean {
+  authenticateConnection(
+    connectionId: string,
+    userId: string,
+    session?: ConnectionSession
+  ): boolean {
     const connection = this.connections.get(connectionId);
     if (!connection) return false;
 
     connection.userId = userId;
     connection.authenticated = true;
+    connection.session = session;
 
     // Add to user connections map
     if (!this.userConnections.has(userId)) {
@@ -127,17 +138,22 @@ class ConnectionManager {
    * Send a message to a specific connection
    */
   sendToConnection<T>(connectionId: string, type: WebSocketEventType, payload: T): boolean {
+    return this.sendMessage(connectionId, {
+      type,
+      payload,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Send a prepared message to a specific connection
+   */
+  sendMessage<T>(connectionId: string, message: WebSocketMessage<T>): boolean {
     const connection = this.connections.get(connectionId);
     if (!connection || connection.socket.readyState !== WebSocket.OPEN) {
       return false;
     }
 
-    const message: WebSocketMessage<T> = {
-      type,
-      payload,
-      timestamp: new Date().toISOString(),
-    };
-
     try {
       connection.socket.send(JSON.stringify(message));
       return true;
@@ -148,15 +164,41 @@ class ConnectionManager {
   }
 
   /**
-   * Send a message to a specific user (all their connections)
+   * Send a message to a specific user (all their connections). With a
+   * permission, API key connections lacking it are skipped.
+   */
+  sendToUser<T>(userId: string, type: WebSocketEventType, payload: T, permission?: string): number {
+    return this.sendMessageToUser(
+      userId,
+      { type, payload, timestamp: new Date().toISOString() },
+      permission
+    );
+  }
+
+  /**
+   * Send a prepared message to all of a user's connections
    */
-  sendToUser<T>(userId: string, type: WebSocketEventType, payload: T): number {
+  sendMessageToUser<T>(userId: string, message: WebSocketMessage<T>, permission?: string): number {
     const userConns = this.userConnections.get(userId);
     if (!userConns) return 0;
 
     let sent = 0;
     userConns.forEach((connectionId) => {
-      if (this.sendToConnection(connectionId, type, payload)) {
+      if (permission && !this.hasPermission(connectionId, permission)) {
+        return;
+      }
+
+      // Events before this one are replayed on resume; later ones arrive
+      // live. Events can arrive out of order, so this is the lowest seen.
+      const connection = this.connections.get(connectionId)!;
+      if (
+        message.seq !== undefined &&
+        (connection.firstLiveSeq === undefined || message.seq < connection.firstLiveSeq)
+      ) {
+        connection.firstLiveSeq = message.seq;
+      }
+
+      if (this.sendMessage(connectionId, message)) {
         sent++;
       }
     });
@@ -211,6 +253,18 @@ class ConnectionManager {
     return sent;
   }
 
+  /**
+   * Whether a connection's session grants a permission. Only API key
+   * sessions are restricted.
+   */
+  hasPermission(connectionId: string, permission: string): boolean {
+    const connection = this.connections.get(connectionId);
+    if (!connection?.authenticated) return false;
+
+    const permissions = connection.session?.permissions;
+    return !permissions || permissions.includes(permission);
+  }
+
   /**
    * Get connection by ID
    */
@@ -255,6 +309,15 @@ class ConnectionManager {
     return this.channelSubscriptions.get(channel)?.size ?? 0;
   }
 
+  /**
+   * Get the subscribed channels whose keys start with a prefix
+   */
+  getChannels(prefix: string): string[] {
+    return Array.from(this.channelSubscriptions.keys()).filter((channel) =>
+      channel.startsWith(prefix)
+    );
+  }
+
   /**
    * Get all channel subscription counts
    */
@@ -266,12 +329,37 @@ class ConnectionManager {
     return stats;
   }
 
+  /**
+   * Close connections whose credential has expired
+   *
+   * @returns The number of connections closed
+   */
+  closeExpiredSessions(now: Date = new Date()): number {
+    let closed = 0;
+    this.connections.forEach((connection, id) => {
+      const expiresAt = connection.session?.expiresAt;
+      if (!expiresAt || expiresAt > now) return;
+
+      this.sendToConnection(id, 'system:error', {
+        code: 'SESSION_EXPIRED',
+        message: 'Credentials expired. Reconnect and authenticate again.',
+      });
+      console.log(`[WS] Connection ${id} session expired, closing`);
+      connection.socket.close(SESSION_EXPIRED_CLOSE_CODE, 'Session expired');
+      this.removeConnection(id);
+      closed++;
+    });
+    return closed;
+  }
+
   /**
    * Start ping interval to keep connections alive
    */
   private startPingInterval(): void {
     this.pingInterval = setInterval(() => {
       const now = new Date();
+      this.closeExpiredSessions(now);
+
       this.connections.forEach((connection, id) => {
         // Check if connection is stale (no ping in 60 seconds)
         const timeSinceLastPing = now.getTime() - connection.lastPing.getTime();
@@ -0,0 +1,174 @@
+/**
+ * WebSocket Event Bus
+ *
+ * Carries user and broadcast events between API replicas. Emitters publish
+ * to the bus instead of writing to sockets, and every replica delivers what
+ * it receives to the connections it holds, so an event reaches a user on
+ * whichever replica their socket landed. With REDIS_URL set, events go
+ * through Redis pub/sub; without it, they stay in this process.
+ */
+
+import { Redis } from 'ioredis';
+import type { WebSocketEventType } from './types.js';
+
+export interface WebSocketEvent<T = unknown> {
+  type: WebSocketEventType;
+  payload: T;
+  /** Deliver to this user's connections; omitted for broadcasts to everyone */
+  userId?: string;
+  /** Skip connections whose session lacks this permission */
+  permission?: string;
+  /** Per-user sequence number of a user event */
+  seq?: number;
+}
+
+export type WebSocketEventHandler = (event: WebSocketEvent) => void;
+
+export interface EventBus {
+  /**
+   * Publish an event to every replica. Never rejects; failures are logged.
+   */
+  publish(event: WebSocketEvent): Promise<void>;
+
+  /**
+   * Receive events published by any replica, including this one
+   */
+  subscribe(handler: WebSocketEventHandler): Promise<void>;
+
+  /**
+   * Stop receiving events and release connections
+   */
+  close(): Promise<void>;
+}
+
+/**
+ * Single-process bus. Events are delivered before `publish` resolves.
+ */
+export class InMemoryEventBus implements EventBus {
+  private handlers: WebSocketEventHandler[] = [];
+
+  async publish(event: WebSocketEvent): Promise<void> {
+    dispatch(this.handlers, event);
+  }
+
+  async subscribe(handler: WebSocketEventHandler): Promise<void> {
+    this.handlers.push(handler);
+  }
+
+  async close(): Promise<void> {
+    this.handlers = [];
+  }
+}
+
+/**
+ * The Redis commands RedisEventBus publishes with. An ioredis client
+ * satisfies it.
+ */
+export interface RedisPublisher {
+  publish(channel: string, message: string): Promise<number>;
+  quit(): Promise<unknown>;
+}
+
+/**
+ * A Redis connection in subscriber mode. It can't run other commands, so
+ * it must be separate from the publisher.
+ */
+export interface RedisSubscriber {
+  subscribe(channel: string): Promise<unknown>;
+  unsubscribe(channel: string): Promise<unknown>;
+  on(event: 'message', listener: (channel: string, message: string) => void): unknown;
+  quit(): Promise<unknown>;
+}
+
+export interface RedisEventBusOptions {
+  /** Pub/sub channel shared by every replica */
+  channel?: string;
+}
+
+/**
+ * Redis pub/sub bus. Events published here come back through the
+ * subscription like everyone else's, so each replica delivers once.
+ */
+export class RedisEventBus implements EventBus {
+  private channel: string;
+  private handlers: WebSocketEventHandler[] = [];
+  private subscribed = false;
+
+  constructor(
+    private publisher: RedisPublisher,
+    private subscriber: RedisSubscriber,
+    options: RedisEventBusOptions = {}
+  ) {
+    this.channel = options.channel ?? 'ws:events';
+  }
+
+  async publish(event: WebSocketEvent): Promise<void> {
+    try {
+      await this.publisher.publish(this.channel, JSON.stringify(event));
+    } catch (error) {
+      console.error(`[WS] Failed to publish ${event.type}:`, error);
+    }
+  }
+
+  async subscribe(handler: WebSocketEventHandler): Promise<void> {
+    this.handlers.push(handler);
+    if (this.subscribed) return;
+
+    this.subscribed = true;
+    this.subscriber.on('message', (channel, message) => {
+      if (channel !== this.channel) return;
+
+      let event: WebSocketEvent;
+      try {
+        event = JSON.parse(message);
+      } catch {
+        console.warn('[WS] Dropping malformed event from the bus');
+        return;
+      }
+      dispatch(this.handlers, event);
+    });
+    await this.subscriber.subscribe(this.channel);
+  }
+
+  async close(): Promise<void> {
+    this.handlers = [];
+    if (this.subscribed) {
+      await this.subscriber.unsubscribe(this.channel).catch(() => {});
+      this.subscribed = false;
+    }
+    await Promise.allSettled([this.subscriber.quit(), this.publisher.quit()]);
+  }
+}
+
+/**
+ * Hand an event to each handler; one failing handler doesn't stop the rest
+ */
+function dispatch(handlers: WebSocketEventHandler[], event: WebSocketEvent): void {
+  for (const handler of handlers) {
+    try {
+      handler(event);
+    } catch (error) {
+      console.error(`[WS] Failed to deliver ${event.type}:`, error);
+    }
+  }
+}
+
+function createEventBus(): EventBus {
+  const redisUrl = process.env['REDIS_URL'];
+  if (!redisUrl) {
+    return new InMemoryEventBus();
+  }
+
+  // Both connect on their first command, so importing this module opens no socket
+  const publisher = new Redis(redisUrl, { lazyConnect: true });
+  const subscriber = publisher.duplicate();
+  const onError = (error: Error) => {
+    console.error('[WS] Event bus Redis error:', error.message);
+  };
+  publisher.on('error', onError);
+  subscriber.on('error', onError);
+
+  return new RedisEventBus(publisher, subscriber, { channel: 'chainhopper:ws:events' });
+}
+
+export const eventBus = createEventBus();
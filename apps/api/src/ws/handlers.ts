@@ -5,16 +5,49 @@
  * to appropriate handlers.
  */
 
+import { verifyToken, verifyApiKeyAccess, verifyTelegramWebAppData } from '@chainhopper/core/auth';
+import { EVM_CHAIN_IDS } from '@chainhopper/adapters/chains';
+import type { ChainId } from '@chainhopper/types';
+import { adapterRegistry } from '../services/adapter-registry.js';
+import { authLookups } from '../services/auth-lookups.js';
 import { connectionManager } from './connection-manager.js';
+import { eventBus, type WebSocketEvent } from './event-bus.js';
+import { replayBuffer, sequenceCounter } from './replay.js';
 import type {
   WebSocketMessage,
   WebSocketEventType,
   SubscriptionRequest,
+  SubscriptionChannel,
   AuthenticateMessage,
+  ResumeMessage,
+  ResumeResponse,
   PriceSubscription,
   ClientConnection,
+  ConnectionSession,
 } from './types.js';
 
+// Permission an API key needs to receive a channel's events
+const CHANNEL_PERMISSIONS: Partial<Record<SubscriptionChannel, string>> = {
+  trades: 'READ_PORTFOLIO',
+  portfolio: 'READ_PORTFOLIO',
+};
+
+// Channels that carry one user's events
+const USER_CHANNELS: SubscriptionChannel[] = ['trades', 'portfolio'];
+
+// Price channels are open to anonymous clients and each one is polled, so
+// both one connection's share and the replica's total are capped
+const MAX_PRICE_CHANNELS_PER_CONNECTION = 50;
+const MAX_PRICE_CHANNELS = 1_000;
+
+const CHAINS_BY_EVM_ID = new Map<number, ChainId>(
+  Object.entries(EVM_CHAIN_IDS).map(([chainId, evmId]) => [evmId, chainId as ChainId])
+);
+
+type AuthResult =
+  | { userId: string; session: ConnectionSession }
+  | { code: string; message: string };
+
 /**
  * Handle incoming WebSocket message
  */
@@ -41,6 +74,12 @@ export async function handleMessage(
     return;
   }
 
+  // Don't wait for the next sweep to drop a lapsed session
+  if (connection.session?.expiresAt && connection.session.expiresAt <= new Date()) {
+    connectionManager.closeExpiredSessions();
+    return;
+  }
+
   // Route message to appropriate handler
   switch (message.type) {
     case 'system:pong':
@@ -63,6 +102,10 @@ export async function handleMessage(
       await handlePriceUnsubscribe(connectionId, message.payload as PriceSubscription);
       break;
 
+    case 'resume':
+      await handleResume(connectionId, message as unknown as ResumeMessage);
+      break;
+
     default:
       // Check if authenticated for protected operations
       if (requiresAuth(message.type) && !connection.authenticated) {
@@ -76,46 +119,191 @@ export async function handleMessage(
 
 /**
  * Handle authentication
+ *
+ * Also refreshes an authenticated connection: sending a new credential for
+ * the same user before the current one expires keeps the socket open.
  */
 export async function handleAuthenticate(
   connectionId: string,
   message: AuthenticateMessage
 ): Promise<boolean> {
-  const { token, apiKey, telegramInitData } = message.payload;
+  const connection = connectionManager.getConnection(connectionId);
+  if (!connection) return false;
 
-  // In a real implementation, verify the credentials
-  // For now, we'll do a basic check
+  const { token, apiKey, telegramInitData } = message.payload ?? {};
 
-  let userId: string | null = null;
+  let result: AuthResult;
+  try {
+    if (token) {
+      result = await authenticateToken(token);
+    } else if (apiKey) {
+      result = await authenticateApiKey(apiKey, connection.metadata.ip);
+    } else if (telegramInitData) {
+      result = await authenticateTelegram(telegramInitData);
+    } else {
+      result = { code: 'AUTH_FAILED', message: 'No credentials provided' };
+    }
+  } catch (error) {
+    console.error(`[WS] Authentication error for ${connectionId}:`, error);
+    result = { code: 'AUTH_FAILED', message: 'Authentication failed' };
+  }
 
-  if (token) {
-    // Verify JWT token
-    // userId = await verifyJWT(token);
-    userId = 'user_from_jwt'; // Placeholder
-  } else if (apiKey) {
-    // Verify API key
-    // userId = await verifyApiKey(apiKey);
-    userId = 'user_from_api_key'; // Placeholder
-  } else if (telegramInitData) {
-    // Verify Telegram init data
-    // userId = await verifyTelegramAuth(telegramInitData);
-    userId = 'user_from_telegram'; // Placeholder
+  if ('code' in result) {
+    sendError(connectionId, result.code, result.message);
+    return false;
   }
 
-  if (userId) {
-    connectionManager.authenticateConnection(connectionId, userId);
-    connectionManager.sendToConnection(connectionId, 'system:connected', {
-      connectionId,
-      userId,
-      serverTime: new Date().toISOString(),
-      version: '0.1.0',
-      authenticated: true,
+  if (connection.authenticated && connection.userId !== result.userId) {
+    sendError(connectionId, 'USER_MISMATCH', 'Connection is authenticated as another user');
+    return false;
+  }
+
+  connectionManager.authenticateConnection(connectionId, result.userId, result.session);
+  dropUnpermittedSubscriptions(connection);
+
+  connectionManager.sendToConnection(connectionId, 'system:connected', {
+    connectionId,
+    userId: result.userId,
+    serverTime: new Date().toISOString(),
+    version: '0.1.0',
+    authenticated: true,
+    authType: result.session.authType,
+    expiresAt: result.session.expiresAt?.toISOString(),
+  });
+  return true;
+}
+
+/**
+ * Handle resume: replay the user events this connection's user missed
+ * since `lastSeq`. Sent after authenticating on a new socket; events
+ * already delivered live on it are not repeated.
+ */
+export async function handleResume(connectionId: string, message: ResumeMessage): Promise<boolean> {
+  const connection = connectionManager.getConnection(connectionId);
+  if (!connection) return false;
+
+  if (!connection.authenticated || !connection.userId) {
+    sendError(connectionId, 'UNAUTHORIZED', 'Authentication required');
+    return false;
+  }
+
+  const lastSeq = message.payload?.lastSeq;
+  if (!Number.isInteger(lastSeq) || lastSeq < 0) {
+    sendError(connectionId, 'INVALID_RESUME', 'lastSeq must be a non-negative integer');
+    return false;
+  }
+
+  // Events from the first one delivered live on this socket are not replayed
+  const latestSeq = await sequenceCounter.current(connection.userId);
+  const { firstLiveSeq } = connection;
+  const replayTo =
+    firstLiveSeq === undefined
+      ? latestSeq
+      : Math.min(latestSeq, Math.max(lastSeq, firstLiveSeq - 1));
+  const missed = replayBuffer.since(connection.userId, lastSeq, replayTo);
+  if (!missed) {
+    connectionManager.sendToConnection<ResumeResponse>(connectionId, 'system:resumed', {
+      resumed: false,
+      replayed: 0,
+      lastSeq: latestSeq,
     });
-    return true;
+    return false;
   }
 
-  sendError(connectionId, 'AUTH_FAILED', 'Invalid credentials');
-  return false;
+  let replayed = 0;
+  for (const { message: missedMessage, permission } of missed) {
+    if (permission && !connectionManager.hasPermission(connectionId, permission)) continue;
+
+    if (connectionManager.sendMessage(connectionId, missedMessage)) {
+      replayed++;
+    }
+  }
+
+  connectionManager.sendToConnection<ResumeResponse>(connectionId, 'system:resumed', {
+    resumed: true,
+    replayed,
+    lastSeq: latestSeq,
+  });
+  return true;
+}
+
+/**
+ * Verify a JWT access token
+ */
+async function authenticateToken(token: string): Promise<AuthResult> {
+  const result = await verifyToken(token);
+
+  if (!result.valid) {
+    return {
+      code: result.error === 'expired' ? 'TOKEN_EXPIRED' : 'INVALID_TOKEN',
+      message: result.message,
+    };
+  }
+
+  if (result.payload.type !== 'access') {
+    return { code: 'INVALID_TOKEN_TYPE', message: 'Invalid token type' };
+  }
+
+  return {
+    userId: result.payload.sub,
+    session: { authType: 'jwt', expiresAt: new Date(result.payload.exp * 1000) },
+  };
+}
+
+/**
+ * Verify an API key with the checks the HTTP middleware uses
+ */
+async function authenticateApiKey(apiKey: string, ip?: string): Promise<AuthResult> {
+  const access = await verifyApiKeyAccess(apiKey, ip ?? null, authLookups);
+  if (!access.valid) {
+    return { code: access.code, message: access.message };
+  }
+
+  authLookups.updateApiKeyLastUsed(access.key.id).catch(() => {});
+
+  return {
+    userId: access.user.id,
+    session: {
+      authType: 'apiKey',
+      apiKeyId: access.key.id,
+      permissions: access.permissions,
+      expiresAt: access.expiresAt,
+    },
+  };
+}
+
+/**
+ * Verify Telegram Mini App initData, registering the user on first sight
+ */
+async function authenticateTelegram(initData: string): Promise<AuthResult> {
+  const result = verifyTelegramWebAppData(initData);
+
+  if (!result.valid) {
+    return { code: 'INVALID_TELEGRAM_DATA', message: result.error! };
+  }
+
+  if (!result.user) {
+    return { code: 'NO_USER_DATA', message: 'No user data in init data' };
+  }
+
+  const user =
+    (await authLookups.findUserByTelegramId(result.user.id.toString())) ??
+    (await authLookups.createUserFromTelegram(result.user));
+
+  return { userId: user.id, session: { authType: 'telegram' } };
+}
+
+/**
+ * After a refresh with a narrower credential, drop channels it can't read
+ */
+function dropUnpermittedSubscriptions(connection: ClientConnection): void {
+  for (const channelKey of [...connection.subscriptions]) {
+    const channel = channelKey.split(':')[0] as SubscriptionChannel;
+    const permission = CHANNEL_PERMISSIONS[channel];
+    if (permission && !connectionManager.hasPermission(connection.id, permission)) {
+      connectionManager.unsubscribe(connection.id, channelKey);
+    }
+  }
 }
 
 /**
@@ -133,16 +321,36 @@ async function handleSubscribe(
   request: SubscriptionRequest
 ): Promise<void> {
   const { channel, params } = request;
+  const connection = connectionManager.getConnection(connectionId)!;
 
-  // Build channel key with optional params
-  let channelKey = channel;
-  if (params?.chainId) {
-    channelKey += `:${params.chainId}`;
+  // Price channels are checked and capped the same way either way in
+  if (channel === 'prices') {
+    await handlePriceSubscribe(connectionId, {
+      chainId: params?.chainId as number,
+      tokenAddresses: params?.tokenAddresses as string[],
+    });
+    return;
   }
-  if (params?.userId) {
-    channelKey += `:user:${params.userId}`;
+
+  if (USER_CHANNELS.includes(channel)) {
+    if (!connection.authenticated) {
+      sendError(connectionId, 'UNAUTHORIZED', 'Authentication required');
+      return;
+    }
+
+    if (params?.userId && params.userId !== connection.userId) {
+      sendError(connectionId, 'FORBIDDEN', "Cannot subscribe to another user's channel");
+      return;
+    }
+  }
+
+  const permission = CHANNEL_PERMISSIONS[channel];
+  if (permission && !connectionManager.hasPermission(connectionId, permission)) {
+    sendError(connectionId, 'MISSING_PERMISSION', `API key lacks ${permission} permission`);
+    return;
   }
 
+  const channelKey = buildChannelKey(connection, request);
   const success = connectionManager.subscribe(connectionId, channelKey);
 
   connectionManager.sendToConnection(connectionId, 'subscribe', {
@@ -160,15 +368,9 @@ async function handleUnsubscribe(
   request: SubscriptionRequest
 ): Promise<void> {
   const { channel, params } = request;
+  const connection = connectionManager.getConnection(connectionId)!;
 
-  let channelKey = channel;
-  if (params?.chainId) {
-    channelKey += `:${params.chainId}`;
-  }
-  if (params?.userId) {
-    channelKey += `:user:${params.userId}`;
-  }
-
+  const channelKey = buildChannelKey(connection, request);
   const success = connectionManager.unsubscribe(connectionId, channelKey);
 
   connectionManager.sendToConnection(connectionId, 'unsubscribe', {
@@ -178,6 +380,26 @@ async function handleUnsubscribe(
   });
 }
 
+/**
+ * Build the channel key for a subscription. User channels are always
+ * scoped to the connection's own user.
+ */
+function buildChannelKey(connection: ClientConnection, request: SubscriptionRequest): string {
+  const { channel, params } = request;
+
+  let channelKey: string = channel;
+  if (params?.chainId) {
+    channelKey += `:${params.chainId}`;
+  }
+
+  const userId = USER_CHANNELS.includes(channel) ? connection.userId : params?.userId;
+  if (userId) {
+    channelKey += `:user:${userId}`;
+  }
+
+  return channelKey;
+}
+
 /**
  * Handle price subscription
  */
@@ -185,11 +407,52 @@ async function handlePriceSubscribe(
   connectionId: string,
   subscription: PriceSubscription
 ): Promise<void> {
-  const { chainId, tokenAddresses } = subscription;
+  const { chainId, tokenAddresses } = subscription ?? {};
+  const connection = connectionManager.getConnection(connectionId)!;
+
+  const chain = typeof chainId === 'number' ? CHAINS_BY_EVM_ID.get(chainId) : (chainId as ChainId);
+  const adapter = chain && adapterRegistry.supports(chain) ? adapterRegistry.get(chain) : undefined;
+  if (!adapter) {
+    sendError(connectionId, 'UNSUPPORTED_CHAIN', `Prices are not available for chain ${chainId}`);
+    return;
+  }
+
+  if (!Array.isArray(tokenAddresses) || tokenAddresses.length === 0) {
+    sendError(connectionId, 'INVALID_TOKENS', 'tokenAddresses must be a non-empty array');
+    return;
+  }
+
+  const invalid = tokenAddresses.find(
+    (address) => typeof address !== 'string' || !adapter.isValidAddress(address)
+  );
+  if (invalid !== undefined) {
+    sendError(connectionId, 'INVALID_ADDRESS', `Invalid token address for ${chain}: ${invalid}`);
+    return;
+  }
+
+  const channelKeys = tokenAddresses
+    .map((address) => `prices:${chainId}:${address.toLowerCase()}`)
+    .filter((channelKey) => !connection.subscriptions.has(channelKey));
+  const held = [...connection.subscriptions].filter((key) => key.startsWith('prices:')).length;
+  if (held + new Set(channelKeys).size > MAX_PRICE_CHANNELS_PER_CONNECTION) {
+    sendError(
+      connectionId,
+      'TOO_MANY_SUBSCRIPTIONS',
+      `A connection can subscribe to at most ${MAX_PRICE_CHANNELS_PER_CONNECTION} prices`
+    );
+    return;
+  }
+
+  const newChannels = new Set(
+    channelKeys.filter((key) => connectionManager.getChannelSubscriberCount(key) === 0)
+  );
+  if (connectionManager.getChannels('prices:').length + newChannels.size > MAX_PRICE_CHANNELS) {
+    sendError(connectionId, 'PRICE_CAPACITY', 'Too many prices are being streamed, try later');
+    return;
+  }
 
   // Subscribe to each token's price channel
-  for (const address of tokenAddresses) {
-    const channelKey = `prices:${chainId}:${address.toLowerCase()}`;
+  for (const channelKey of channelKeys) {
     connectionManager.subscribe(connectionId, channelKey);
   }
 
@@ -247,17 +510,58 @@ function sendError(connectionId: string, code: string, message: string): void {
 }
 
 // ============ Event Emitters (for use by other parts of the API) ============
+//
+// Price updates go straight to this replica's subscribers, since every
+// replica streams prices for its own channels. The rest go through the
+// event bus so they reach sockets held by any replica.
+
+/**
+ * Deliver an event from the bus to this replica's connections. Sequenced
+ * user events are buffered for clients that resume later.
+ */
+export function deliverEvent(event: WebSocketEvent): number {
+  if (!event.userId) {
+    return connectionManager.broadcastToAll(event.type, event.payload);
+  }
+
+  const message: WebSocketMessage = {
+    type: event.type,
+    payload: event.payload,
+    timestamp: new Date().toISOString(),
+    seq: event.seq,
+  };
+
+  if (event.seq !== undefined) {
+    replayBuffer.record(event.userId, { ...message, seq: event.seq }, event.permission);
+  }
+
+  return connectionManager.sendMessageToUser(event.userId, message, event.permission);
+}
+
+/**
+ * Publish a user event with the user's next sequence number
+ */
+async function publishToUser(
+  userId: string,
+  type: WebSocketEventType,
+  payload: unknown,
+  permission?: string
+): Promise<void> {
+  const seq = await sequenceCounter.next(userId);
+
+  return eventBus.publish({ type, payload, userId, permission, seq });
+}
 
 /**
  * Emit price update to all subscribers
  */
 export function emitPriceUpdate(
-  chainId: number,
+  chainId: number | string,
   tokenAddress: string,
   priceData: {
     symbol: string;
     priceUsd: string;
-    priceNative: string;
+    priceNative?: string;
     change24h: number;
     volume24h: string;
   }
@@ -278,22 +582,27 @@ export function emitTradeEvent(
   userId: string,
   tradeEvent: {
     tradeId: string;
-    chainId: number;
+    chainId: number | string;
     status: 'pending' | 'confirmed' | 'failed' | 'cancelled';
     tokenIn: { address: string; symbol: string; amount: string };
-    tokenOut: { address: string; symbol: string; amount: string };
+    tokenOut: { address: string; symbol: string; amount: string; amountExpected?: string };
     txHash?: string;
     error?: string;
   }
-): number {
+): Promise<void> {
   const eventType = `trade:${tradeEvent.status}` as WebSocketEventType;
 
-  return connectionManager.sendToUser(userId, eventType, {
-    ...tradeEvent,
+  return publishToUser(
     userId,
-    createdAt: new Date().toISOString(),
-    updatedAt: new Date().toISOString(),
-  });
+    eventType,
+    {
+      ...tradeEvent,
+      userId,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    },
+    CHANNEL_PERMISSIONS.trades
+  );
 }
 
 /**
@@ -314,11 +623,13 @@ export function emitPortfolioUpdate(
       change24h: number;
     }>;
   }
-): number {
-  return connectionManager.sendToUser(userId, 'portfolio:update', {
+): Promise<void> {
+  return publishToUser(
     userId,
-    ...portfolioData,
-  });
+    'portfolio:update',
+    { userId, ...portfolioData },
+    CHANNEL_PERMISSIONS.portfolio
+  );
 }
 
 /**
@@ -336,11 +647,13 @@ export function emitBalanceUpdate(
     valueUsd: string;
     reason: 'trade' | 'transfer_in' | 'transfer_out' | 'sync';
   }
-): number {
-  return connectionManager.sendToUser(userId, 'portfolio:balance', {
+): Promise<void> {
+  return publishToUser(
     userId,
-    ...balanceData,
-  });
+    'portfolio:balance',
+    { userId, ...balanceData },
+    CHANNEL_PERMISSIONS.portfolio
+  );
 }
 
 /**
@@ -356,11 +669,13 @@ export function emitPnLUpdate(
     totalPnlPercent: number;
     period: '24h' | '7d' | '30d' | 'all';
   }
-): number {
-  return connectionManager.sendToUser(userId, 'portfolio:pnl', {
+): Promise<void> {
+  return publishToUser(
     userId,
-    ...pnlData,
-  });
+    'portfolio:pnl',
+    { userId, ...pnlData },
+    CHANNEL_PERMISSIONS.portfolio
+  );
 }
 
 /**
@@ -371,11 +686,14 @@ export function emitMaintenanceNotice(
   startTime: Date,
   message: string,
   endTime?: Date
-): number {
-  return connectionManager.broadcastToAll('system:maintenance', {
-    scheduled,
-    startTime: startTime.toISOString(),
-    endTime: endTime?.toISOString(),
-    message,
+): Promise<void> {
+  return eventBus.publish({
+    type: 'system:maintenance',
+    payload: {
+      scheduled,
+      startTime: startTime.toISOString(),
+      endTime: endTime?.toISOString(),
+      message,
+    },
   });
 }
@@ -19,6 +19,29 @@ export {
 // Connection management
 export { connectionManager } from './connection-manager.js';
 
+// Cross-replica event delivery
+export {
+  eventBus,
+  InMemoryEventBus,
+  RedisEventBus,
+  type EventBus,
+  type WebSocketEvent,
+  type WebSocketEventHandler,
+  type RedisPublisher,
+  type RedisSubscriber,
+  type RedisEventBusOptions,
+} from './event-bus.js';
+
+// Sequenced events for resumed sessions
+export {
+  ReplayBuffer,
+  SequenceCounter,
+  replayBuffer,
+  sequenceCounter,
+  type ReplayBufferOptions,
+  type BufferedMessage,
+} from './replay.js';
+
 // Event emitters for use by other modules
 export {
   emitPriceUpdate,
@@ -48,6 +71,9 @@ export type {
   SubscriptionRequest,
   SubscriptionResponse,
   ClientConnection,
+  ConnectionSession,
   AuthenticateMessage,
   AuthenticateResponse,
+  ResumeMessage,
+  ResumeResponse,
 } from './types.js';
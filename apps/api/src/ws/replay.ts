@@ -0,0 +1,154 @@
+/**
+ * WebSocket Event Replay
+ *
+ * Trade and portfolio events carry a per-user sequence number, so a client
+ * whose socket drops can reconnect, send `resume` with the last number it
+ * saw, and receive only what it missed. Numbers come from the shared cache
+ * store and are the same on every replica. Each replica buffers the recent
+ * user events it receives from the event bus, so a client can resume on
+ * any of them.
+ */
+
+import type { CacheStore } from '@chainhopper/core/cache';
+import { cacheStore } from '../services/cache.js';
+import type { WebSocketMessage } from './types.js';
+
+const SEQUENCE_PREFIX = 'ws:seq:';
+
+export interface ReplayBufferOptions {
+  /** Most events kept per user */
+  maxEventsPerUser?: number;
+  /** Events older than this are dropped (ms) */
+  maxAgeMs?: number;
+  /** Most users buffered; the least recently active are dropped first */
+  maxUsers?: number;
+}
+
+export interface BufferedMessage {
+  message: WebSocketMessage & { seq: number };
+  /** Permission a connection needs to receive the message */
+  permission?: string;
+  recordedAt: number;
+}
+
+export class ReplayBuffer {
+  private buffers: Map<string, BufferedMessage[]> = new Map();
+  private maxEventsPerUser: number;
+  private maxAgeMs: number;
+  private maxUsers: number;
+
+  constructor(options: ReplayBufferOptions = {}) {
+    this.maxEventsPerUser = options.maxEventsPerUser ?? 100;
+    this.maxAgeMs = options.maxAgeMs ?? 5 * 60 * 1000;
+    this.maxUsers = options.maxUsers ?? 10_000;
+  }
+
+  /**
+   * Buffer a sequenced message sent to a user
+   */
+  record(
+    userId: string,
+    message: WebSocketMessage & { seq: number },
+    permission?: string,
+    now: number = Date.now()
+  ): void {
+    const buffer = this.live(userId, now);
+    buffer.push({ message, permission, recordedAt: now });
+    if (buffer.length > this.maxEventsPerUser) {
+      buffer.splice(0, buffer.length - this.maxEventsPerUser);
+    }
+
+    // Re-insert so the Map stays ordered by last activity
+    this.buffers.delete(userId);
+    this.buffers.set(userId, buffer);
+
+    if (this.buffers.size > this.maxUsers) {
+      const oldest = this.buffers.keys().next().value;
+      if (oldest !== undefined) this.buffers.delete(oldest);
+    }
+  }
+
+  /**
+   * Messages a user was sent after `lastSeq` up to `latestSeq`, in
+   * sequence order. Null unless every one of them is buffered: an event
+   * may have been evicted, or claimed its number but failed to publish or
+   * not arrived yet. Also null when `lastSeq` is ahead of `latestSeq`.
+   * The bus can deliver events out of order, so the buffer is in arrival
+   * order rather than sequence order.
+   */
+  since(
+    userId: string,
+    lastSeq: number,
+    latestSeq: number,
+    now: number = Date.now()
+  ): BufferedMessage[] | null {
+    if (lastSeq > latestSeq) return null;
+    if (lastSeq === latestSeq) return [];
+
+    const missed = this.live(userId, now)
+      .filter((entry) => entry.message.seq > lastSeq && entry.message.seq <= latestSeq)
+      .sort((a, b) => a.message.seq - b.message.seq);
+    const complete =
+      missed.length === latestSeq - lastSeq &&
+      missed.every((entry, index) => entry.message.seq === lastSeq + 1 + index);
+
+    return complete ? missed : null;
+  }
+
+  /**
+   * Number of users with buffered messages
+   */
+  get userCount(): number {
+    return this.buffers.size;
+  }
+
+  clear(): void {
+    this.buffers.clear();
+  }
+
+  /**
+   * A user's buffer with expired messages dropped
+   */
+  private live(userId: string, now: number): BufferedMessage[] {
+    const buffer = this.buffers.get(userId) ?? [];
+    const cutoff = now - this.maxAgeMs;
+    const firstLive = buffer.findIndex((entry) => entry.recordedAt >= cutoff);
+    if (firstLive === -1) {
+      buffer.length = 0;
+    } else if (firstLive > 0) {
+      buffer.splice(0, firstLive);
+    }
+    return buffer;
+  }
+}
+
+/**
+ * Per-user event sequence numbers, shared by every replica through the
+ * cache store
+ */
+export class SequenceCounter {
+  constructor(private store: CacheStore = cacheStore) {}
+
+  /**
+   * Claim the next sequence number for a user, or undefined when the
+   * store is unreachable; the event is then sent without one
+   */
+  async next(userId: string): Promise<number | undefined> {
+    try {
+      return await this.store.increment(SEQUENCE_PREFIX + userId);
+    } catch (error) {
+      console.error(`[WS] Failed to sequence event for ${userId}:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * The latest sequence number claimed for a user, 0 before their first event
+   */
+  async current(userId: string): Promise<number> {
+    return Number((await this.store.get<number>(SEQUENCE_PREFIX + userId)) ?? 0);
+  }
+}
+
+export const replayBuffer = new ReplayBuffer();
+export const sequenceCounter = new SequenceCounter();
@@ -10,7 +10,9 @@ import { WebSocketServer, WebSocket } from 'ws';
 import type { IncomingMessage } from 'http';
 import type { Server } from 'http';
 import { connectionManager } from './connection-manager.js';
-import { handleMessage, handleAuthenticate } from './handlers.js';
+import { handleMessage, handleAuthenticate, deliverEvent } from './handlers.js';
+import { eventBus } from './event-bus.js';
+import { getRequestClientIp } from '../client-ip.js';
 import type { ClientConnection, AuthenticateMessage } from './types.js';
 
 let wss: WebSocketServer | null = null;
@@ -27,6 +29,11 @@ export function initWebSocketServer(server: Server): WebSocketServer {
 
   wss.on('connection', handleConnection);
 
+  // Deliver events published by any replica to this replica's sockets
+  eventBus.subscribe(deliverEvent).catch((error) => {
+    console.error('[WS] Event bus subscription failed:', error);
+  });
+
   wss.on('error', (error) => {
     console.error('[WS Server] Error:', error);
   });
@@ -42,8 +49,8 @@ export function initWebSocketServer(server: Server): WebSocketServer {
 function handleConnection(socket: WebSocket, request: IncomingMessage): void {
   const connectionId = crypto.randomUUID();
 
-  // Extract client info from request
-  const ip = request.headers['x-forwarded-for']?.toString() || request.socket.remoteAddress;
+  // Extract client info from request, the same way HTTP requests are
+  const ip = getRequestClientIp(request) ?? undefined;
   const userAgent = request.headers['user-agent'];
 
   // Create connection record
@@ -155,6 +162,7 @@ export function getWebSocketStats(): {
 export function shutdownWebSocketServer(): void {
   if (wss) {
     connectionManager.shutdown();
+    eventBus.close().catch(() => {});
     wss.close(() => {
       console.log('[WS] WebSocket server shut down');
     });
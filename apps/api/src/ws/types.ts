@@ -8,6 +8,8 @@
  * - System events (connection status, errors, maintenance)
  */
 
+import type { WebSocket } from 'ws';
+
 // ============ Base Types ============
 
 export type WebSocketEventType =
@@ -30,6 +32,9 @@ export type WebSocketEventType =
   | 'system:ping'
   | 'system:pong'
   | 'system:maintenance'
+  | 'system:resumed'
+  // Session resumption
+  | 'resume'
   // Subscription management
   | 'subscribe'
   | 'unsubscribe';
@@ -39,6 +44,8 @@ export interface WebSocketMessage<T = unknown> {
   payload: T;
   timestamp: string;
   requestId?: string;
+  /** Per-user sequence number, set on trade and portfolio events */
+  seq?: number;
 }
 
 export interface WebSocketError {
@@ -50,18 +57,18 @@ export interface WebSocketError {
 // ============ Price Events ============
 
 export interface PriceUpdate {
-  chainId: number;
+  chainId: number | string; // EVM chain ID, or chain name for non-EVM chains
   tokenAddress: string;
   symbol: string;
   priceUsd: string;
-  priceNative: string;
+  priceNative?: string; // omitted when the native token has no price
   change24h: number;
   volume24h: string;
   marketCap?: string;
 }
 
 export interface PriceSubscription {
-  chainId: number;
+  chainId: number | string; // EVM chain ID, or chain name for non-EVM chains
   tokenAddresses: string[];
 }
 
@@ -72,7 +79,7 @@ export type TradeStatus = 'pending' | 'confirmed' | 'failed' | 'cancelled';
 export interface TradeEvent {
   tradeId: string;
   userId: string;
-  chainId: number;
+  chainId: number | string; // EVM chain ID, or chain name for non-EVM chains
   status: TradeStatus;
   tokenIn: {
     address: string;
@@ -179,6 +186,15 @@ export interface SubscriptionResponse {
 
 // ============ Client Connection ============
 
+export interface ConnectionSession {
+  authType: 'jwt' | 'apiKey' | 'telegram';
+  apiKeyId?: string;
+  /** Effective API key permissions; JWT and Telegram sessions are unrestricted */
+  permissions?: string[];
+  /** When the credential lapses; the socket is closed unless it re-authenticates first */
+  expiresAt?: Date;
+}
+
 export interface ClientConnection {
   id: string;
   userId?: string;
@@ -187,6 +203,9 @@ export interface ClientConnection {
   connectedAt: Date;
   lastPing: Date;
   authenticated: boolean;
+  session?: ConnectionSession;
+  /** Lowest sequence number of the user events delivered live to this connection */
+  firstLiveSeq?: number;
   metadata: {
     ip?: string;
     userAgent?: string;
@@ -204,6 +223,25 @@ export interface AuthenticateMessage {
   };
 }
 
+/**
+ * Sent after authenticating on a new socket to receive the user events
+ * missed since `lastSeq`
+ */
+export interface ResumeMessage {
+  type: 'resume';
+  payload: {
+    lastSeq: number;
+  };
+}
+
+export interface ResumeResponse {
+  /** False when missed events are no longer buffered; refetch state instead */
+  resumed: boolean;
+  replayed: number;
+  /** Latest sequence number for the user */
+  lastSeq: number;
+}
+
 export interface AuthenticateResponse {
   success: boolean;
   userId?: string;
@@ -12,6 +12,7 @@ export async function helpHandler(ctx: BotContext): Promise<void> {
 \`/balance\` - Check wallet balance
 \`/swap <in> <out> <amount>\` - Execute a swap
 \`/history\` - View transaction history
+\`/history export [year] [csv|koinly|cointracker]\` - Tax report
 \`/settings\` - Bot settings
 
 *Swap Examples:*
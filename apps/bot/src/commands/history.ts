@@ -1,7 +1,10 @@
+import { InputFile } from 'grammy';
 import type { BotContext } from '../types.js';
 import { getChainEmoji, getChainName } from '../utils/chains.js';
 import { formatUsd, formatPercentage } from '../utils/formatting.js';
-import { api, ApiClientError } from '../lib/api.js';
+import { api, ApiClientError, type TaxExportFormat } from '../lib/api.js';
+
+const EXPORT_FORMATS: TaxExportFormat[] = ['csv', 'koinly', 'cointracker'];
 
 export async function historyHandler(ctx: BotContext): Promise<void> {
   const telegramId = ctx.from?.id;
@@ -20,6 +23,12 @@ export async function historyHandler(ctx: BotContext): Promise<void> {
     return;
   }
 
+  const args = typeof ctx.match === 'string' ? ctx.match.trim().split(/\s+/) : [];
+  if (args[0]?.toLowerCase() === 'export') {
+    await exportHandler(ctx, telegramId, args.slice(1));
+    return;
+  }
+
   const loading = await ctx.reply('\u{23F3} Fetching history...');
 
   try {
@@ -64,6 +73,7 @@ Total Trades: ${response.total}
 
 ${tradeLines.join('\n\n')}
 ${response.total > 10 ? `\n_Showing 10 of ${response.total} trades_` : ''}
+_Tax report: /history export ${new Date().getUTCFullYear()} koinly_
 `;
 
     await ctx.api.editMessageText(
@@ -90,3 +100,50 @@ ${response.total > 10 ? `\n_Showing 10 of ${response.total} trades_` : ''}
     );
   }
 }
+
+/**
+ * /history export [year] [csv|koinly|cointracker]
+ *
+ * Sends the year's realised gains and fees as a CSV file. Defaults to
+ * the current year and the generic CSV report.
+ */
+async function exportHandler(ctx: BotContext, telegramId: number, args: string[]): Promise<void> {
+  const year = args[0] ? parseInt(args[0], 10) : new Date().getUTCFullYear();
+  const format = (args[1]?.toLowerCase() ?? 'csv') as TaxExportFormat;
+
+  if (!/^\d{4}$/.test(year.toString()) || !EXPORT_FORMATS.includes(format)) {
+    await ctx.reply(
+      `\u{274C} Usage: \`/history export [year] [${EXPORT_FORMATS.join('|')}]\`\n\n` +
+        `Example: \`/history export 2025 koinly\``,
+      { parse_mode: 'Markdown' }
+    );
+    return;
+  }
+
+  const loading = await ctx.reply(`\u{23F3} Preparing ${year} tax report...`);
+
+  try {
+    const { filename, content } = await api.exportTaxReport(telegramId, year, format);
+
+    await ctx.api.deleteMessage(ctx.chat!.id, loading.message_id);
+    await ctx.replyWithDocument(new InputFile(Buffer.from(content, 'utf-8'), filename), {
+      caption: `\u{1F4C4} ${year} realised gains and fees (${format})`,
+    });
+  } catch (error) {
+    let errorMessage = 'Unknown error';
+    if (error instanceof ApiClientError) {
+      errorMessage = error.message;
+      if (error.code === 'UNAUTHORIZED') {
+        ctx.session.isAuthenticated = false;
+        errorMessage = 'Session expired. Use /start to login again.';
+      }
+    } else if (error instanceof Error) {
+      errorMessage = error.message;
+    }
+    await ctx.api.editMessageText(
+      ctx.chat!.id,
+      loading.message_id,
+      `\u{274C} Error exporting history: ${errorMessage}`
+    );
+  }
+}
@@ -1,8 +1,8 @@
 import { InlineKeyboard } from 'grammy';
 import type { BotContext } from '../types.js';
 import { getChainEmoji, getChainName } from '../utils/chains.js';
-import { formatUsd, formatPercentage } from '../utils/formatting.js';
-import { api, ApiClientError } from '../lib/api.js';
+import { formatAmount, formatUsd, formatPercentage } from '../utils/formatting.js';
+import { api, ApiClientError, type QuoteResponse } from '../lib/api.js';
 
 export async function swapHandler(ctx: BotContext): Promise<void> {
   const telegramId = ctx.from?.id;
@@ -93,6 +93,16 @@ export async function swapHandler(ctx: BotContext): Promise<void> {
       ? `\n*Route:* ${quote.route.map(r => r.dex).join(' → ')}`
       : '';
 
+    // Show why the route won when more than one source quoted
+    const rankingInfo = quote.ranking && quote.ranking.length > 1
+      ? `\n\n*Routes Compared (net of gas):*\n${formatRanking(quote)}`
+      : '';
+
+    // Flag quotes whose USD pricing the oracle could not corroborate
+    const warningInfo = quote.priceWarning
+      ? `\n\n\u{26A0}\u{FE0F} *Price Warning:* ${quote.priceWarning.message}`
+      : '';
+
     const quoteText = `
 ${getChainEmoji(ctx.session.chainId)} *Swap Quote*
 
@@ -102,7 +112,7 @@ ${getChainEmoji(ctx.session.chainId)} *Swap Quote*
 
 *Rate:* 1 ${quote.tokenIn.symbol} = ${rate.toFixed(6)} ${quote.tokenOut.symbol}
 *Price Impact:* ${formatPercentage(quote.priceImpact)}
-*DEX:* ${quote.dexAggregator}${routeInfo}
+*DEX:* ${quote.dexAggregator}${routeInfo}${rankingInfo}${warningInfo}
 
 *Fees:*
 \u{2022} Network: ${formatUsd(quote.fee.networkFeeUsd)}
@@ -138,3 +148,16 @@ ${getChainEmoji(ctx.session.chainId)} *Swap Quote*
     );
   }
 }
+
+function formatRanking(quote: QuoteResponse): string {
+  return (quote.ranking ?? [])
+    .map((candidate, i) => {
+      const marker = i === 0 ? '\u{2705}' : '\u{2022}';
+      const net = formatAmount(candidate.netAmountOut, quote.tokenOut.decimals);
+      const gas = candidate.gasCostUsd !== undefined
+        ? ` (gas ${formatUsd(candidate.gasCostUsd)})`
+        : '';
+      return `${marker} ${candidate.source ?? candidate.dexAggregator}: ${net} ${quote.tokenOut.symbol}${gas}`;
+    })
+    .join('\n');
+}
@@ -83,6 +83,21 @@ export interface QuoteResponse {
   };
   expiresAt: string;
   dexAggregator: string;
+  ranking?: QuoteCandidate[];
+  priceWarning?: {
+    code: 'low_liquidity' | 'price_deviation';
+    message: string;
+  };
+}
+
+export interface QuoteCandidate {
+  dexAggregator: string;
+  source?: string;
+  amountOut: string;
+  estimatedGas: string;
+  gasCost: string;
+  gasCostUsd?: number;
+  netAmountOut: string;
 }
 
 export interface SwapBuildRequest {
@@ -170,6 +185,13 @@ export interface UserProfile {
   createdAt: string;
 }
 
+export type TaxExportFormat = 'csv' | 'koinly' | 'cointracker';
+
+export interface TaxExportFile {
+  filename: string;
+  content: string;
+}
+
 export interface ApiError {
   error: string;
   code: string;
@@ -436,6 +458,36 @@ class ApiClient {
     });
   }
 
+  /**
+   * Download a tax year's realised gains and fees as CSV
+   */
+  async exportTaxReport(
+    telegramId: number,
+    year: number,
+    format: TaxExportFormat
+  ): Promise<TaxExportFile> {
+    const token = await this.getAccessToken(telegramId);
+    const params = new URLSearchParams({ year: year.toString(), format });
+    const response = await fetch(`${this.baseUrl}/portfolio/export?${params.toString()}`, {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+
+    if (!response.ok) {
+      const error = (await response.json().catch(() => ({}))) as Partial<ApiError>;
+      throw new ApiClientError(
+        error.error || 'Export failed',
+        error.code || 'UNKNOWN_ERROR',
+        response.status
+      );
+    }
+
+    const disposition = response.headers.get('Content-Disposition') ?? '';
+    return {
+      filename: /filename="([^"]+)"/.exec(disposition)?.[1] ?? `chainhopper-${year}-${format}.csv`,
+      content: await response.text(),
+    };
+  }
+
   // --------------------------------------------------------------------------
   // User
   // --------------------------------------------------------------------------
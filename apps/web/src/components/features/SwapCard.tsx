@@ -9,6 +9,7 @@ import { ChainSelector } from './ChainSelector'
 import { TokenSelector } from './TokenSelector'
 import { ConnectWallet } from './ConnectWallet'
 import { useQuote, useSwap, useTokenApproval, useTokenAllowance, useTokenBalance } from '@/hooks/useSwapRouter'
+import { useQuote as useRoutedQuote } from '@/hooks/useTrading'
 import { KAIA_TESTNET_CONTRACTS } from '@/lib/web3'
 
 interface Token {
@@ -19,6 +20,21 @@ interface Token {
   balance?: string
 }
 
+const QUOTE_DEBOUNCE_MS = 300
+
+/**
+ * Parse a typed amount into base units; null while the input is partial
+ * (".", "1e"), has too many decimals, or is not positive
+ */
+function parseAmount(amount: string, decimals: number): bigint | null {
+  try {
+    const value = parseUnits(amount, decimals)
+    return value > BigInt(0) ? value : null
+  } catch {
+    return null
+  }
+}
+
 export function SwapCard() {
   const { address, isConnected } = useAccount()
   const [chain, setChain] = useState('kaia')
@@ -59,6 +75,32 @@ export function SwapCard() {
     }
   }, [quoteFormatted, amountIn])
 
+  // Compare routes across DEX sources
+  const { quote: routedQuote, getQuote: getRoutedQuote, clearQuote: clearRoutedQuote } = useRoutedQuote()
+
+  useEffect(() => {
+    const amount = tokenIn ? parseAmount(amountIn, tokenIn.decimals) : null
+    if (!tokenIn || !tokenOut || !amount) {
+      clearRoutedQuote()
+      return
+    }
+
+    // Wait for typing to pause, so each keystroke is not quoted
+    const timer = setTimeout(() => {
+      getRoutedQuote({
+        chainId: chain,
+        tokenIn: tokenIn.address,
+        tokenOut: tokenOut.address,
+        amountIn: amount.toString(),
+        slippage: parseFloat(slippage),
+      })
+    }, QUOTE_DEBOUNCE_MS)
+
+    return () => clearTimeout(timer)
+  }, [chain, tokenIn, tokenOut, amountIn, slippage, getRoutedQuote, clearRoutedQuote])
+
+  const ranking = routedQuote?.ranking ?? []
+
   // Token approval
   const { allowance } = useTokenAllowance(tokenIn?.address || '', address)
   const { approveMax, isPending: isApproving, isConfirming: isConfirmingApproval } = useTokenApproval(
@@ -69,7 +111,7 @@ export function SwapCard() {
   const { swap, isPending: isSwapping, isConfirming: isConfirmingSwap, isSuccess, error } = useSwap()
 
   const needsApproval = tokenIn && tokenIn.address !== 'native' && allowance !== undefined &&
-    amountIn && parseUnits(amountIn, tokenIn.decimals) > allowance
+    (parseAmount(amountIn, tokenIn.decimals) ?? BigInt(0)) > allowance
 
   const handleSwapTokens = () => {
     const temp = tokenIn
@@ -274,6 +316,24 @@ export function SwapCard() {
           <span className="text-zinc-500">Fee</span>
           <span className="text-emerald-400">Free (pay only on profit)</span>
         </div>
+        {ranking.length > 1 && tokenOut && (
+          <div className="pt-2 border-t border-white/5 space-y-1">
+            <span className="text-zinc-500 text-sm">Routes compared (net of gas)</span>
+            {ranking.map((candidate, i) => (
+              <div key={candidate.source ?? candidate.dexAggregator} className="flex items-center justify-between text-sm">
+                <span className={i === 0 ? 'text-emerald-400' : 'text-zinc-400'}>
+                  {candidate.source ?? candidate.dexAggregator}
+                </span>
+                <span className="text-zinc-300">
+                  {parseFloat(formatUnits(BigInt(candidate.netAmountOut), tokenOut.decimals)).toFixed(6)}
+                  {candidate.gasCostUsd !== undefined && (
+                    <span className="text-zinc-500"> (gas ${candidate.gasCostUsd.toFixed(2)})</span>
+                  )}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
       </div>
     </Card>
   )
@@ -6,25 +6,29 @@
  * React hooks for trading operations.
  */
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef } from 'react';
 import { useApi, type UseApiOptions } from './useApi';
 import { trading } from '@/lib/api';
 import type { Quote, SwapRequest, SwapResponse, Trade } from '@/lib/api';
 
 /**
- * Hook for fetching swap quotes
+ * Hook for fetching swap quotes. Only the latest request updates the
+ * state, so a slow earlier response cannot replace a newer quote.
  */
 export function useQuote() {
   const [quote, setQuote] = useState<Quote | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<{ code: string; message: string } | null>(null);
+  const latestRequest = useRef(0);
 
   const getQuote = useCallback(async (request: SwapRequest) => {
+    const requestId = ++latestRequest.current;
     setIsLoading(true);
     setError(null);
 
     try {
       const response = await trading.getQuote(request);
+      if (requestId !== latestRequest.current) return null;
 
       if (response.success && response.data) {
         setQuote(response.data);
@@ -34,18 +38,21 @@ export function useQuote() {
         return null;
       }
     } catch (err) {
+      if (requestId !== latestRequest.current) return null;
       setError({
         code: 'QUOTE_ERROR',
         message: err instanceof Error ? err.message : 'Failed to get quote',
       });
     } finally {
-      setIsLoading(false);
+      if (requestId === latestRequest.current) setIsLoading(false);
     }
 
     return null;
   }, []);
 
   const clearQuote = useCallback(() => {
+    latestRequest.current++;
+    setIsLoading(false);
     setQuote(null);
     setError(null);
   }, []);
@@ -93,6 +93,18 @@ export interface Quote {
   };
   estimatedGas: string;
   expiresAt: string;
+  ranking?: QuoteCandidate[];
+}
+
+/** A source's quote, as compared when picking the route */
+export interface QuoteCandidate {
+  dexAggregator: string;
+  source?: string;
+  amountOut: string;
+  estimatedGas: string;
+  gasCost: string;
+  gasCostUsd?: number;
+  netAmountOut: string;
 }
 
 export interface SwapRequest {
@@ -3,8 +3,13 @@ import {
   get1inchQuote,
   getParaSwapQuote,
   getBestQuote,
+  getRankedQuotes,
+  rankQuotes,
+  createGasCostConverter,
+  buildQuoteTransaction,
   getSupportedAggregators,
 } from '../evm/aggregators.js';
+import { registerDexSource, unregisterDexSource, getDexSources } from '../evm/dex-sources.js';
 import type { SwapRequest } from '@chainhopper/types';
 
 describe('EVM Aggregators', () => {
@@ -329,4 +334,284 @@ describe('EVM Aggregators', () => {
       );
     });
   });
+
+  describe('DEX source registry', () => {
+    // exactInputSingle selector plus one encoded argument
+    const SWAP_CALL = `0x414bf389${'00'.repeat(32)}`;
+    const encodeSwap = (recipient: string) =>
+      `0x414bf389${recipient.slice(2).toLowerCase().padStart(64, '0')}`;
+    const RECIPIENT_CALL = encodeSwap(mockSwapRequest.recipient);
+
+    function nativeQuote(amountOut: bigint, estimatedGas = 150000n) {
+      return {
+        aggregator: 'native-dex',
+        amountOut,
+        estimatedGas,
+        priceImpact: 0.1,
+        route: [],
+        txData: SWAP_CALL,
+        txTo: '0xrouter',
+        txValue: 0n,
+      };
+    }
+
+    afterEach(() => {
+      unregisterDexSource('test-dex');
+    });
+
+    it('should register every chain module with a native DEX', () => {
+      const names = (chainId: string) => getDexSources(chainId).map((s) => s.name);
+
+      expect(names('kaia')).toEqual(['kaia']);
+      expect(names('hyperliquid')).toEqual([]);
+      expect(names('mode')).toEqual(expect.not.arrayContaining(['mode']));
+      expect(names('blast')).toEqual(expect.arrayContaining(['blast', '1inch']));
+      expect(names('gnosis')).toEqual(expect.arrayContaining(['gnosis', '1inch', 'paraswap']));
+      expect(names('berachain')).toEqual(['oogabooga']);
+    });
+
+    it('should query native DEXes alongside aggregators', async () => {
+      (global.fetch as ReturnType<typeof vi.fn>).mockResolvedValue({ ok: false });
+      registerDexSource({
+        name: 'test-dex',
+        chains: ['ethereum'],
+        getQuote: async () => nativeQuote(2500000000n),
+      });
+
+      const quote = await getBestQuote(mockSwapRequest);
+
+      expect(global.fetch).toHaveBeenCalled(); // 1inch and ParaSwap were still asked
+      expect(quote?.source).toBe('test-dex');
+      expect(quote?.amountOut).toBe(2500000000n);
+    });
+
+    it('should ignore sources that throw', async () => {
+      (global.fetch as ReturnType<typeof vi.fn>).mockResolvedValue({ ok: false });
+      registerDexSource({
+        name: 'test-dex',
+        chains: ['ethereum'],
+        getQuote: async () => {
+          throw new Error('pool not found');
+        },
+      });
+
+      expect(await getBestQuote(mockSwapRequest)).toBeNull();
+    });
+
+    it('should rank quotes by output net of gas', async () => {
+      const oneinchResponse = {
+        dstAmount: '2000000000',
+        tx: { gas: '900000', data: '0x1inch', to: '0x1inch', value: '0' },
+        protocols: [],
+      };
+      (global.fetch as ReturnType<typeof vi.fn>)
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(oneinchResponse) })
+        .mockResolvedValue({ ok: false });
+      registerDexSource({
+        name: 'test-dex',
+        chains: ['ethereum'],
+        getQuote: async () => nativeQuote(1990000000n, 100000n),
+      });
+
+      const gross = await getBestQuote(mockSwapRequest);
+      expect(gross?.aggregator).toBe('1inch');
+
+      (global.fetch as ReturnType<typeof vi.fn>)
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(oneinchResponse) })
+        .mockResolvedValue({ ok: false });
+
+      // At 20 units per gas 1inch nets 1982000000 and test-dex 1988000000
+      const net = await getBestQuote(mockSwapRequest, {
+        gasCostInTokenOut: (gas) => gas * 20n,
+      });
+      expect(net?.source).toBe('test-dex');
+    });
+
+    it('should return every candidate with gross, gas cost and net', async () => {
+      (global.fetch as ReturnType<typeof vi.fn>).mockResolvedValue({ ok: false });
+      registerDexSource({
+        name: 'test-dex',
+        chains: ['ethereum'],
+        getQuote: async () => nativeQuote(1990000000n, 100000n),
+      });
+
+      const ranked = await getRankedQuotes(mockSwapRequest, {
+        gasCostInTokenOut: (gas) => gas * 20n,
+      });
+
+      expect(ranked).toHaveLength(1);
+      expect(ranked[0]).toMatchObject({
+        quote: { source: 'test-dex', amountOut: 1990000000n },
+        gasCost: 2000000n,
+        netAmountOut: 1988000000n,
+      });
+    });
+
+    it('should skip native DEX quotes without a swap call', async () => {
+      (global.fetch as ReturnType<typeof vi.fn>).mockResolvedValue({ ok: false });
+      const getQuote = vi.fn(async () => ({ ...nativeQuote(3000000000n), txData: '0x' }));
+      registerDexSource({
+        name: 'test-dex',
+        chains: ['ethereum'],
+        getQuote,
+        buildTransaction: (quote) => ({ to: quote.txTo, data: quote.txData, value: 0n }),
+      });
+
+      expect(await getRankedQuotes(mockSwapRequest)).toEqual([]);
+
+      // A bare selector is a placeholder, not an encoded call
+      getQuote.mockResolvedValueOnce({ ...nativeQuote(3000000000n), txData: '0x414bf389' });
+      expect(await getRankedQuotes(mockSwapRequest)).toEqual([]);
+    });
+
+    it('should build transactions for the caller through the source that quoted', async () => {
+      // Like the native encoders, the quote carries the recipient it was made for
+      const getQuote = vi.fn(async (request: SwapRequest) => ({
+        ...nativeQuote(1n),
+        txData: encodeSwap(request.recipient),
+      }));
+      const buildTransaction = vi.fn((quote: { txData: string }) => ({
+        to: '0xbuilt',
+        data: quote.txData,
+        value: 1n,
+      }));
+      registerDexSource({ name: 'test-dex', chains: ['ethereum'], getQuote, buildTransaction });
+
+      // Quoted by /quote, before the recipient was known
+      const tx = await buildQuoteTransaction(
+        { ...nativeQuote(1n), source: 'test-dex' },
+        mockSwapRequest
+      );
+
+      expect(getQuote).toHaveBeenCalledWith(mockSwapRequest, {});
+      expect(buildTransaction).toHaveBeenCalledWith(
+        expect.objectContaining({ txData: RECIPIENT_CALL }),
+        mockSwapRequest
+      );
+      expect(tx).toEqual({ to: '0xbuilt', data: RECIPIENT_CALL, value: 1n });
+      expect(tx.data).toContain(mockSwapRequest.recipient.slice(2).toLowerCase());
+    });
+
+    it('should refuse to build a call that does not pay out to the recipient', async () => {
+      registerDexSource({
+        name: 'test-dex',
+        chains: ['ethereum'],
+        getQuote: async () => nativeQuote(1n),
+        buildTransaction: (quote) => ({ to: '0xrouter', data: quote.txData, value: 0n }),
+      });
+      const quote = { ...nativeQuote(1n), source: 'test-dex' };
+
+      await expect(buildQuoteTransaction(quote, mockSwapRequest)).rejects.toThrow(
+        'does not pay out to the recipient'
+      );
+      await expect(
+        buildQuoteTransaction(quote, { ...mockSwapRequest, recipient: '' })
+      ).rejects.toThrow('recipient address is required');
+    });
+
+    it('should refuse to build when the encoder returns no call', async () => {
+      registerDexSource({
+        name: 'test-dex',
+        chains: ['ethereum'],
+        getQuote: async () => ({ ...nativeQuote(1n), txData: RECIPIENT_CALL }),
+        buildTransaction: () => ({ to: '0xrouter', data: '0x', value: 0n }),
+      });
+
+      await expect(
+        buildQuoteTransaction({ ...nativeQuote(1n), source: 'test-dex' }, mockSwapRequest)
+      ).rejects.toThrow('test-dex returned no swap call');
+    });
+
+    it('should ask sources without an encoder again for the recipient', async () => {
+      const getQuote = vi.fn(async () => ({ ...nativeQuote(101n), txData: RECIPIENT_CALL }));
+      registerDexSource({ name: 'test-dex', chains: ['ethereum'], getQuote });
+
+      const tx = await buildQuoteTransaction(
+        { ...nativeQuote(100n), txData: '0x', source: 'test-dex' },
+        mockSwapRequest,
+        { amountOutMin: 99n }
+      );
+
+      expect(getQuote).toHaveBeenCalledWith(mockSwapRequest, { amountOutMin: 99n });
+      expect(tx).toEqual({ to: '0xrouter', data: RECIPIENT_CALL, value: 0n });
+    });
+
+    it('should refuse to build when the re-quote falls short or has no call', async () => {
+      const getQuote = vi.fn(async () => nativeQuote(98n));
+      registerDexSource({ name: 'test-dex', chains: ['ethereum'], getQuote });
+      const quote = { ...nativeQuote(100n), source: 'test-dex' };
+
+      await expect(
+        buildQuoteTransaction(quote, mockSwapRequest, { amountOutMin: 99n })
+      ).rejects.toThrow('no longer quotes');
+
+      getQuote.mockResolvedValueOnce({ ...nativeQuote(100n), txData: '0x' });
+      await expect(buildQuoteTransaction(quote, mockSwapRequest)).rejects.toThrow('no swap call');
+      await expect(
+        buildQuoteTransaction({ ...quote, source: 'gone' }, mockSwapRequest)
+      ).rejects.toThrow('Unknown DEX source');
+    });
+  });
+
+  describe('rankQuotes', () => {
+    const quote = (aggregator: string, amountOut: bigint, estimatedGas: bigint) => ({
+      aggregator: aggregator as '1inch',
+      amountOut,
+      estimatedGas,
+      priceImpact: 0,
+      route: [],
+    });
+
+    it('should order by raw output without a gas valuation', () => {
+      const ranked = rankQuotes([quote('1inch', 100n, 10n), quote('paraswap', 200n, 50n)]);
+
+      expect(ranked.map((r) => r.quote.aggregator)).toEqual(['paraswap', '1inch']);
+      expect(ranked.every((r) => r.gasCost === 0n)).toBe(true);
+    });
+
+    it('should keep source order on ties', () => {
+      const ranked = rankQuotes([quote('1inch', 100n, 10n), quote('paraswap', 100n, 10n)]);
+
+      expect(ranked.map((r) => r.quote.aggregator)).toEqual(['1inch', 'paraswap']);
+    });
+  });
+
+  describe('createGasCostConverter', () => {
+    it('should value gas in output-token units', () => {
+      // 100k gas at 20 gwei = 0.002 ETH = $6.50 at $3250, i.e. 6.5 USDC
+      const toUsdc = createGasCostConverter({
+        gasPrice: 20000000000n,
+        nativeDecimals: 18,
+        nativePriceUsd: 3250,
+        tokenOutDecimals: 6,
+        tokenOutPriceUsd: 1,
+      });
+
+      expect(toUsdc(100000n)).toBe(6500000n);
+    });
+
+    it('should value gas in native terms when buying the native token', () => {
+      const toEth = createGasCostConverter({
+        gasPrice: 20000000000n,
+        nativeDecimals: 18,
+        nativePriceUsd: 3250,
+        tokenOutDecimals: 18,
+        tokenOutPriceUsd: 3250,
+      });
+
+      expect(toEth(100000n)).toBe(2000000000000000n);
+    });
+
+    it('should return zero when the output token has no price', () => {
+      const convert = createGasCostConverter({
+        gasPrice: 20000000000n,
+        nativeDecimals: 18,
+        nativePriceUsd: 3250,
+        tokenOutDecimals: 6,
+        tokenOutPriceUsd: 0,
+      });
+
+      expect(convert(100000n)).toBe(0n);
+    });
+  });
 });
@@ -1,4 +1,4 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import {
   EVM_CHAIN_IDS,
   EVM_CHAIN_CONFIGS,
@@ -10,6 +10,8 @@ import {
   type EvmChainId,
 } from '../evm/chains.js';
 import { EvmChainAdapter, createEvmAdapter, createAllEvmAdapters } from '../evm/index.js';
+import { registerDexSource, unregisterDexSource } from '../evm/dex-sources.js';
+import type { RpcEndpointPool } from '../rpc-pool.js';
 
 describe('EVM Chain Configuration', () => {
   describe('EVM_CHAIN_IDS', () => {
@@ -155,6 +157,78 @@ describe('EvmChainAdapter', () => {
     });
   });
 
+  describe('buildSwapTransaction', () => {
+    const recipient = '0x742d35Cc6634C0532925a3b844Bc9e7595f8fCd0';
+    const sourceQuote = {
+      aggregator: 'test-dex',
+      source: 'test-dex',
+      amountOut: 3250000000n,
+      estimatedGas: 150000n,
+      priceImpact: 0,
+      route: [],
+      txData: '0x',
+      txTo: '',
+      txValue: 0n,
+    };
+    const quote = {
+      id: 'quote_1',
+      chainId: 'ethereum',
+      tokenIn: { address: NATIVE_TOKEN_ADDRESS },
+      tokenOut: { address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48' },
+      amountIn: 10n ** 18n,
+      amountOut: 3250000000n,
+      amountOutMin: 3233750000n,
+      estimatedGas: 150000n,
+      gasPrice: 30000000000n,
+      source: 'test-dex',
+      sourceQuote,
+    } as any;
+
+    afterEach(() => {
+      unregisterDexSource('test-dex');
+    });
+
+    it('should build through the quoting source for the recipient', async () => {
+      const data = `0x414bf389${recipient.slice(2).toLowerCase().padStart(64, '0')}`;
+      const requoted = { ...sourceQuote, txData: data, txTo: '0xrouter' };
+      const getQuote = vi.fn(async () => requoted);
+      const buildTransaction = vi.fn(() => ({ to: '0xrouter', data, value: 0n }));
+      registerDexSource({ name: 'test-dex', chains: ['ethereum'], getQuote, buildTransaction });
+
+      const tx = await new EvmChainAdapter('ethereum').buildSwapTransaction(quote, recipient);
+
+      expect(getQuote).toHaveBeenCalledWith(
+        expect.objectContaining({ recipient, slippage: 0.5 }),
+        expect.objectContaining({ amountOutMin: quote.amountOutMin })
+      );
+      expect(buildTransaction).toHaveBeenCalledWith(
+        requoted,
+        expect.objectContaining({ recipient })
+      );
+      expect(tx).toMatchObject({ to: '0xrouter', data, gasLimit: 150000n });
+    });
+
+    it('should require a recipient and a source quote', async () => {
+      const adapter = new EvmChainAdapter('ethereum');
+
+      await expect(adapter.buildSwapTransaction(quote)).rejects.toThrow('recipient');
+      await expect(
+        adapter.buildSwapTransaction({ ...quote, sourceQuote: undefined }, recipient)
+      ).rejects.toThrow('no source quote');
+    });
+  });
+
+  describe('RPC reads', () => {
+    it('should go through the endpoint pool so failures fail over and are scored', async () => {
+      const adapter = new EvmChainAdapter('base');
+      const { rpcPool } = adapter as unknown as { rpcPool: RpcEndpointPool<unknown> };
+      const execute = vi.spyOn(rpcPool, 'execute').mockResolvedValue(42n);
+
+      await expect(adapter.getGasPrice()).resolves.toBe(42n);
+      expect(execute).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('isValidAddress', () => {
     it('should validate native address keywords', () => {
       const adapter = new EvmChainAdapter('ethereum');
@@ -113,7 +113,7 @@ describe('Monad Chain Integration', () => {
       expect(result?.priceImpact).toBe(0.3);
     });
 
-    it('should return fallback quote on API failure', async () => {
+    it('should return null on API failure', async () => {
       mockFetch.mockResolvedValueOnce({
         ok: false,
         status: 500,
@@ -121,9 +121,7 @@ describe('Monad Chain Integration', () => {
 
       const result = await getKuruFlowQuote(mockRequest);
 
-      expect(result).not.toBeNull();
-      expect(result?.aggregator).toBe('kuru-flow');
-      expect(result?.amountOut).toBeGreaterThan(0n);
+      expect(result).toBeNull();
     });
 
     it('should handle network errors gracefully', async () => {
@@ -131,8 +129,7 @@ describe('Monad Chain Integration', () => {
 
       const result = await getKuruFlowQuote(mockRequest);
 
-      expect(result).not.toBeNull();
-      expect(result?.aggregator).toBe('kuru-flow');
+      expect(result).toBeNull();
     });
   });
 
@@ -242,6 +239,7 @@ describe('Monad Chain Integration', () => {
           amountOut: '999000000000000000000', // Very high quote
           gasEstimate: '180000',
           priceImpact: '0.3',
+          tx: { data: `0x414bf389${'00'.repeat(32)}`, to: MONAD_CONTRACTS.kuruFlow },
         }),
       });
 
@@ -251,6 +249,7 @@ describe('Monad Chain Integration', () => {
         json: async () => ({
           expectedOutput: '998000000000000000000',
           gasEstimate: '120000',
+          calldata: `0x414bf389${'11'.repeat(32)}`,
           priceImpact: '0.1',
         }),
       });
@@ -260,10 +259,10 @@ describe('Monad Chain Integration', () => {
       expect(result).not.toBeNull();
       // Should return a valid quote from one of the sources
       expect(result?.amountOut).toBeGreaterThan(0n);
-      expect(['kuru', 'kuru-flow', 'uniswap-v3']).toContain(result?.aggregator);
+      expect(['kuru', 'kuru-flow']).toContain(result?.aggregator);
     });
 
-    it('should return Uniswap quote if Kuru APIs fail', async () => {
+    it('should not fall back to an estimated quote if Kuru APIs fail', async () => {
       mockFetch.mockResolvedValue({
         ok: false,
         status: 500,
@@ -271,9 +270,7 @@ describe('Monad Chain Integration', () => {
 
       const result = await getMonadBestQuote(mockRequest);
 
-      expect(result).not.toBeNull();
-      // Should have at least the Uniswap fallback
-      expect(['uniswap-v3', 'kuru-flow']).toContain(result?.aggregator);
+      expect(result).toBeNull();
     });
   });
 
@@ -0,0 +1,196 @@
+import { describe, it, expect, vi } from 'vitest';
+import { erc20Abi, HttpRequestError } from 'viem';
+import { MulticallClient, type ContractCall } from '../evm/multicall.js';
+import { MULTICALL3_ADDRESS } from '../evm/chains.js';
+
+const TOKEN = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48' as const;
+
+function call(functionName = 'decimals', address: ContractCall['address'] = TOKEN): ContractCall {
+  return { address, abi: erc20Abi, functionName };
+}
+
+function unreachable() {
+  return new HttpRequestError({ url: 'https://rpc.example', details: 'fetch failed' });
+}
+
+function createClient(overrides = {}) {
+  return {
+    multicall: vi.fn(async ({ contracts }: { contracts: ContractCall[] }) =>
+      contracts.map((c) => ({ status: 'success', result: `${c.functionName}:${c.address}` }))
+    ),
+    readContract: vi.fn(async (c: ContractCall) => `${c.functionName}:${c.address}`),
+    ...overrides,
+  };
+}
+
+describe('MulticallClient', () => {
+  describe('readMany', () => {
+    it('should read all calls in a single aggregate call', async () => {
+      const client = createClient();
+      const multicall = new MulticallClient(client as any);
+
+      const results = await multicall.readMany([call('name'), call('symbol'), call('decimals')]);
+
+      expect(client.multicall).toHaveBeenCalledTimes(1);
+      expect(client.multicall).toHaveBeenCalledWith(
+        expect.objectContaining({ allowFailure: true, multicallAddress: MULTICALL3_ADDRESS })
+      );
+      expect(results.map((r) => r.status === 'success' && r.result)).toEqual([
+        `name:${TOKEN}`,
+        `symbol:${TOKEN}`,
+        `decimals:${TOKEN}`,
+      ]);
+      expect(multicall.isSupported).toBe(true);
+    });
+
+    it('should split large batches into chunks', async () => {
+      const client = createClient();
+      const multicall = new MulticallClient(client as any, { chunkSize: 2 });
+
+      const results = await multicall.readMany(Array.from({ length: 5 }, () => call()));
+
+      expect(client.multicall).toHaveBeenCalledTimes(2);
+      expect(client.readContract).toHaveBeenCalledTimes(1); // trailing single call
+      expect(results).toHaveLength(5);
+    });
+
+    it('should return per-call failures without throwing', async () => {
+      const client = createClient({
+        multicall: vi.fn(async () => [
+          { status: 'success', result: 6 },
+          { status: 'failure', error: new Error('execution reverted') },
+        ]),
+      });
+
+      const results = await new MulticallClient(client as any).readMany([call(), call('symbol')]);
+
+      expect(results[0]).toEqual({ status: 'success', result: 6 });
+      expect(results[1]).toMatchObject({
+        status: 'failure',
+        error: { message: 'execution reverted' },
+      });
+    });
+
+    it('should fall back to individual calls where Multicall3 is not deployed', async () => {
+      const client = createClient({
+        multicall: vi.fn(async () => {
+          throw new Error('returned no data ("0x")');
+        }),
+      });
+      const multicall = new MulticallClient(client as any);
+
+      const results = await multicall.readMany([call('name'), call('symbol')]);
+      expect(results.every((r) => r.status === 'success')).toBe(true);
+      expect(multicall.isSupported).toBe(false);
+
+      // Later batches skip straight to individual calls
+      await multicall.readMany([call('name'), call('symbol')]);
+      expect(client.multicall).toHaveBeenCalledTimes(1);
+      expect(client.readContract).toHaveBeenCalledTimes(4);
+    });
+
+    it('should throw and keep trying Multicall3 when the RPC itself is down', async () => {
+      const client = createClient({
+        multicall: vi.fn(async () => {
+          throw unreachable();
+        }),
+        readContract: vi.fn(async () => {
+          throw unreachable();
+        }),
+      });
+      const multicall = new MulticallClient(client as any);
+
+      // Thrown so the endpoint pool can fail over to another RPC
+      await expect(multicall.readMany([call('name'), call('symbol')])).rejects.toThrow(
+        HttpRequestError
+      );
+      await expect(
+        new MulticallClient(client as any, { multicallAddress: null }).readMany([call()])
+      ).rejects.toThrow(HttpRequestError);
+      expect(multicall.isSupported).toBeUndefined();
+    });
+
+    it('should return reverts from individual calls without throwing', async () => {
+      const client = createClient({
+        readContract: vi.fn(async () => {
+          throw new Error('execution reverted');
+        }),
+      });
+
+      const results = await new MulticallClient(client as any, { multicallAddress: null }).readMany(
+        [call(), call('symbol')]
+      );
+
+      expect(results.map((r) => r.status)).toEqual(['failure', 'failure']);
+    });
+
+    it('should use individual calls when multicall is disabled', async () => {
+      const client = createClient();
+
+      await new MulticallClient(client as any, { multicallAddress: null }).readMany([
+        call(),
+        call(),
+      ]);
+
+      expect(client.multicall).not.toHaveBeenCalled();
+      expect(client.readContract).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('read', () => {
+    it('should batch concurrent reads into one aggregate call', async () => {
+      const client = createClient();
+      const multicall = new MulticallClient(client as any);
+
+      const [name, symbol, decimals] = await Promise.all([
+        multicall.read(call('name')),
+        multicall.read(call('symbol')),
+        multicall.read(call('decimals')),
+      ]);
+
+      expect(client.multicall).toHaveBeenCalledTimes(1);
+      expect([name, symbol, decimals]).toEqual([
+        `name:${TOKEN}`,
+        `symbol:${TOKEN}`,
+        `decimals:${TOKEN}`,
+      ]);
+    });
+
+    it('should reject only the failed read', async () => {
+      const client = createClient({
+        multicall: vi.fn(async () => [
+          { status: 'success', result: 'USDC' },
+          { status: 'failure', error: new Error('execution reverted') },
+        ]),
+      });
+      const multicall = new MulticallClient(client as any);
+
+      const [symbol, decimals] = await Promise.allSettled([
+        multicall.read(call('symbol')),
+        multicall.read(call('decimals')),
+      ]);
+
+      expect(symbol).toEqual({ status: 'fulfilled', value: 'USDC' });
+      expect(decimals.status).toBe('rejected');
+    });
+
+    it('should reject every read in a batch the RPC could not serve', async () => {
+      const client = createClient({
+        multicall: vi.fn(async () => {
+          throw unreachable();
+        }),
+        readContract: vi.fn(async () => {
+          throw unreachable();
+        }),
+      });
+      const multicall = new MulticallClient(client as any);
+
+      const reads = await Promise.allSettled([
+        multicall.read(call('symbol')),
+        multicall.read(call('decimals')),
+      ]);
+
+      expect(reads.map((read) => read.status)).toEqual(['rejected', 'rejected']);
+    });
+  });
+});
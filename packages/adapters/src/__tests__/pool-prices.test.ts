@@ -0,0 +1,207 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  PoolPriceReader,
+  POOL_FACTORIES,
+  getStablecoins,
+  TWAP_WINDOW_SECONDS,
+} from '../evm/pool-prices.js';
+import { NATIVE_TOKEN_ADDRESS, ZERO_ADDRESS } from '../evm/chains.js';
+import { TAIKO_TOKENS } from '../evm/taiko.js';
+
+// Taiko has both a V2 (Panko) and a V3 (Henjin) factory
+const WETH = TAIKO_TOKENS.WETH.toLowerCase();
+const USDC = TAIKO_TOKENS.USDC.toLowerCase();
+const TAIKO = TAIKO_TOKENS.TAIKO.toLowerCase();
+
+const DECIMALS = {
+  [WETH]: 18,
+  [USDC]: 6,
+  [TAIKO]: 18,
+  [TAIKO_TOKENS.USDT.toLowerCase()]: 6,
+  [TAIKO_TOKENS.DAI.toLowerCase()]: 18,
+};
+
+const WETH_USDC_PAIR = '0x00000000000000000000000000000000000000a1';
+const TAIKO_WETH_PAIR = '0x00000000000000000000000000000000000000a2';
+const TAIKO_USDC_POOL = '0x00000000000000000000000000000000000000b1';
+
+const ok = (result) => ({ status: 'success', result });
+const fail = () => ({ status: 'failure', error: new Error('execution reverted') });
+const pairKey = (...parts) => parts.map(String).sort().join('/');
+
+/**
+ * Fake chain state answering the factory, pool and ERC-20 reads the reader
+ * makes. `pools` maps `pairKey(tokenA, tokenB[, fee])` to a pool address.
+ */
+function createChain({ pools = {}, state = {} } = {}) {
+  const readMany = vi.fn(async (calls) =>
+    calls.map(({ address, functionName, args = [] }) => {
+      switch (functionName) {
+        case 'getPair':
+          return ok(pools[pairKey(args[0], args[1])] ?? ZERO_ADDRESS);
+        case 'getPool':
+          return ok(pools[pairKey(args[0], args[1], args[2])] ?? ZERO_ADDRESS);
+        case 'getReserves': {
+          const { reserves } = state[address];
+          return reserves ? ok([...reserves, 0]) : fail();
+        }
+        case 'observe': {
+          const { tickCumulatives } = state[address];
+          return tickCumulatives ? ok([tickCumulatives, [0n, 0n]]) : fail();
+        }
+        case 'slot0':
+          return ok([0n, state[address].tick, 0, 1, 1, 0, true]);
+        case 'balanceOf':
+          return ok(state[args[0]].balance);
+        case 'decimals':
+          return address in DECIMALS ? ok(DECIMALS[address]) : fail();
+        default:
+          return fail();
+      }
+    })
+  );
+
+  return { readMany };
+}
+
+// 1000 WETH against 3,000,000 USDC: $3000 per WETH, $6M of liquidity.
+// USDC sorts before WETH, so it is token0.
+const WETH_USDC = {
+  pools: { [pairKey(WETH, USDC)]: WETH_USDC_PAIR },
+  state: { [WETH_USDC_PAIR]: { reserves: [3_000_000n * 10n ** 6n, 1000n * 10n ** 18n] } },
+};
+
+// 10 WETH against 15,000 TAIKO: 1/1500 WETH, or $2, per TAIKO
+const TAIKO_WETH = {
+  pools: { [pairKey(TAIKO, WETH)]: TAIKO_WETH_PAIR },
+  state: { [TAIKO_WETH_PAIR]: { reserves: [10n * 10n ** 18n, 15_000n * 10n ** 18n] } },
+};
+
+// USDC is token0, so the tick prices TAIKO (token1) as 1.0001^-tick raw USDC
+const TICK = 276_324;
+const V3_PRICE = 1.0001 ** -TICK * 10 ** 12;
+
+function taikoUsdcPool(pool) {
+  return {
+    pools: { [pairKey(TAIKO, USDC, 3000)]: TAIKO_USDC_POOL },
+    state: { [TAIKO_USDC_POOL]: { balance: 500_000n * 10n ** 6n, ...pool } },
+  };
+}
+
+function merge(...chains) {
+  return {
+    pools: Object.assign({}, ...chains.map((chain) => chain.pools)),
+    state: Object.assign({}, ...chains.map((chain) => chain.state)),
+  };
+}
+
+describe('PoolPriceReader', () => {
+  it('should list the stablecoins from the chain token map', () => {
+    expect(getStablecoins('taiko')).toEqual([
+      TAIKO_TOKENS.USDC,
+      TAIKO_TOKENS.USDT,
+      TAIKO_TOKENS.DAI,
+    ]);
+  });
+
+  it('should price V2 pairs from their reserves', async () => {
+    const reader = new PoolPriceReader('taiko', createChain(WETH_USDC));
+
+    const prices = await reader.getPrices([TAIKO_TOKENS.WETH]);
+
+    expect(prices.get(WETH)).toEqual({ priceUsd: 3000, liquidityUsd: 6_000_000, pools: 1 });
+  });
+
+  it('should skip pools whose reads do not decode as expected', async () => {
+    const chain = createChain(WETH_USDC);
+    const readMany = chain.readMany.getMockImplementation();
+    chain.readMany.mockImplementation(async (calls) =>
+      (await readMany(calls)).map((result, i) =>
+        calls[i].functionName === 'getReserves' ? ok(['3000000', '1000']) : result
+      )
+    );
+    const reader = new PoolPriceReader('taiko', chain);
+
+    const prices = await reader.getPrices([TAIKO_TOKENS.WETH]);
+
+    expect(prices.size).toBe(0);
+  });
+
+  it('should price the native token as its wrapped form', async () => {
+    const reader = new PoolPriceReader('taiko', createChain(WETH_USDC));
+
+    const prices = await reader.getPrices([NATIVE_TOKEN_ADDRESS]);
+
+    expect(prices.get(NATIVE_TOKEN_ADDRESS.toLowerCase())?.priceUsd).toBe(3000);
+  });
+
+  it('should price tokens through the wrapped native token', async () => {
+    const reader = new PoolPriceReader('taiko', createChain(merge(WETH_USDC, TAIKO_WETH)));
+
+    const price = (await reader.getPrices([TAIKO_TOKENS.TAIKO])).get(TAIKO);
+
+    expect(price?.priceUsd).toBeCloseTo(2, 10);
+    // Twice the 10 WETH side at $3000
+    expect(price?.liquidityUsd).toBeCloseTo(60_000, 6);
+  });
+
+  it('should price V3 pools from the TWAP tick', async () => {
+    const chain = createChain(
+      taikoUsdcPool({ tickCumulatives: [0n, BigInt(TICK * TWAP_WINDOW_SECONDS)], tick: 0 })
+    );
+    const reader = new PoolPriceReader('taiko', chain);
+
+    const price = (await reader.getPrices([TAIKO_TOKENS.TAIKO])).get(TAIKO);
+
+    expect(price?.priceUsd).toBeCloseTo(V3_PRICE, 10);
+    expect(price?.liquidityUsd).toBe(1_000_000);
+    const observe = chain.readMany.mock.calls
+      .flatMap(([calls]) => calls)
+      .find((call) => call.functionName === 'observe');
+    expect(observe.args).toEqual([[TWAP_WINDOW_SECONDS, 0]]);
+  });
+
+  it('should fall back to the spot tick when the pool has no TWAP history', async () => {
+    const reader = new PoolPriceReader('taiko', createChain(taikoUsdcPool({ tick: TICK })));
+
+    const price = (await reader.getPrices([TAIKO_TOKENS.TAIKO])).get(TAIKO);
+
+    expect(price?.priceUsd).toBeCloseTo(V3_PRICE, 10);
+  });
+
+  it('should weight prices across pools by liquidity', async () => {
+    const chain = createChain(merge(WETH_USDC, TAIKO_WETH, taikoUsdcPool({ tick: TICK })));
+    const reader = new PoolPriceReader('taiko', chain);
+
+    const price = (await reader.getPrices([TAIKO_TOKENS.TAIKO])).get(TAIKO);
+
+    // $60k of liquidity at $2 against $1M at the V3 price
+    expect(price?.priceUsd).toBeCloseTo((2 * 60_000 + V3_PRICE * 1_000_000) / 1_060_000, 10);
+    expect(price?.pools).toBe(2);
+  });
+
+  it('should leave out tokens without a pool', async () => {
+    const reader = new PoolPriceReader('taiko', createChain(WETH_USDC));
+
+    const prices = await reader.getPrices([TAIKO_TOKENS.TAIKO]);
+
+    expect(prices.has(TAIKO)).toBe(false);
+  });
+
+  it('should only list factories with known addresses', () => {
+    const factories = Object.values(POOL_FACTORIES).flat();
+
+    expect(factories.filter((factory) => factory.address === ZERO_ADDRESS)).toEqual([]);
+  });
+
+  it('should not read anything on chains without pool factories', async () => {
+    const chain = createChain();
+    const reader = new PoolPriceReader('ethereum', chain);
+
+    const prices = await reader.getPrices([TAIKO_TOKENS.TAIKO]);
+
+    expect(reader.isSupported).toBe(false);
+    expect(prices.size).toBe(0);
+    expect(chain.readMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,208 @@
+import { describe, it, expect } from 'vitest';
+import {
+  decodeTokenFlows,
+  summarizeSwapFlows,
+  calculateRealisedSlippage,
+  TRANSFER_TOPIC,
+  DEPOSIT_TOPIC,
+  WITHDRAWAL_TOPIC,
+} from '../evm/receipts.js';
+import { NATIVE_TOKEN_ADDRESS } from '../evm/chains.js';
+
+const USER = '0x742d35cc6634c0532925a3b844bc9e7595f8fcd0';
+const RECIPIENT = '0x1111111111111111111111111111111111111111';
+const ROUTER = '0x2222222222222222222222222222222222222222';
+const POOL = '0x3333333333333333333333333333333333333333';
+const USDC = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48';
+const WETH = '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2';
+const NATIVE = NATIVE_TOKEN_ADDRESS.toLowerCase();
+
+function topic(address: string): string {
+  return `0x${address.slice(2).padStart(64, '0')}`;
+}
+
+function word(amount: bigint): string {
+  return `0x${amount.toString(16).padStart(64, '0')}`;
+}
+
+function transfer(token: string, from: string, to: string, amount: bigint) {
+  return { address: token, topics: [TRANSFER_TOPIC, topic(from), topic(to)], data: word(amount) };
+}
+
+function deposit(account: string, amount: bigint) {
+  return { address: WETH, topics: [DEPOSIT_TOPIC, topic(account)], data: word(amount) };
+}
+
+function withdrawal(account: string, amount: bigint) {
+  return { address: WETH, topics: [WITHDRAWAL_TOPIC, topic(account)], data: word(amount) };
+}
+
+describe('EVM Receipt Decoding', () => {
+  describe('decodeTokenFlows', () => {
+    it('should tally ERC-20 transfers to and from the wallet', () => {
+      const flows = decodeTokenFlows({
+        logs: [
+          transfer(USDC, USER, POOL, 3_250_000_000n),
+          transfer(WETH, POOL, USER, 1_000_000_000_000_000_000n),
+        ],
+        wallets: [USER],
+        wrappedNative: WETH,
+      });
+
+      expect(flows.get(USDC)).toEqual({ token: USDC, sent: 3_250_000_000n, received: 0n });
+      expect(flows.get(WETH)).toEqual({
+        token: WETH,
+        sent: 0n,
+        received: 1_000_000_000_000_000_000n,
+      });
+    });
+
+    it('should ignore transfers between other addresses', () => {
+      const flows = decodeTokenFlows({
+        logs: [transfer(USDC, POOL, ROUTER, 5n)],
+        wallets: [USER],
+      });
+
+      expect(flows.size).toBe(0);
+    });
+
+    it('should ignore ERC-721 transfers', () => {
+      const nft = {
+        address: USDC,
+        topics: [TRANSFER_TOPIC, topic(POOL), topic(USER), word(42n)],
+        data: '0x',
+      };
+
+      expect(decodeTokenFlows({ logs: [nft], wallets: [USER] }).size).toBe(0);
+    });
+
+    it('should count the transaction value as native sent', () => {
+      const flows = decodeTokenFlows({
+        logs: [deposit(ROUTER, 10n)],
+        wallets: [USER],
+        wrappedNative: WETH,
+        value: 10n,
+      });
+
+      expect(flows.get(NATIVE)?.sent).toBe(10n);
+      expect(flows.has(WETH)).toBe(false);
+    });
+
+    it('should treat a router withdrawal as native delivered to the recipient', () => {
+      const flows = decodeTokenFlows({
+        logs: [transfer(USDC, USER, POOL, 100n), withdrawal(ROUTER, 7n)],
+        wallets: [USER, RECIPIENT],
+        wrappedNative: WETH,
+      });
+
+      expect(flows.get(NATIVE)?.received).toBe(7n);
+    });
+
+    it('should treat a wallet withdrawal as unwrapping', () => {
+      const flows = decodeTokenFlows({
+        logs: [withdrawal(USER, 7n)],
+        wallets: [USER],
+        wrappedNative: WETH,
+      });
+
+      expect(flows.get(WETH)?.sent).toBe(7n);
+      expect(flows.get(NATIVE)?.received).toBe(7n);
+    });
+
+    it('should ignore deposit-shaped logs from other contracts', () => {
+      const fake = { ...deposit(USER, 7n), address: USDC };
+
+      expect(decodeTokenFlows({ logs: [fake], wallets: [USER], wrappedNative: WETH }).size).toBe(0);
+    });
+  });
+
+  describe('summarizeSwapFlows', () => {
+    it('should infer legs from the net outflow and inflow', () => {
+      const flows = decodeTokenFlows({
+        logs: [transfer(USDC, USER, POOL, 3_000n), transfer(WETH, POOL, RECIPIENT, 1n)],
+        wallets: [USER, RECIPIENT],
+      });
+
+      expect(summarizeSwapFlows(flows)).toEqual({
+        tokenIn: USDC,
+        amountIn: 3_000n,
+        tokenOut: WETH,
+        amountOut: 1n,
+      });
+    });
+
+    it('should decode a native to ERC-20 swap', () => {
+      const flows = decodeTokenFlows({
+        logs: [deposit(ROUTER, 10n), transfer(USDC, POOL, USER, 32_500n)],
+        wallets: [USER],
+        wrappedNative: WETH,
+        value: 10n,
+      });
+
+      expect(summarizeSwapFlows(flows)).toEqual({
+        tokenIn: NATIVE,
+        amountIn: 10n,
+        tokenOut: USDC,
+        amountOut: 32_500n,
+      });
+    });
+
+    it('should decode an ERC-20 to native swap', () => {
+      const flows = decodeTokenFlows({
+        logs: [
+          transfer(USDC, USER, POOL, 32_500n),
+          transfer(WETH, POOL, ROUTER, 10n),
+          withdrawal(ROUTER, 10n),
+        ],
+        wallets: [USER],
+        wrappedNative: WETH,
+      });
+
+      expect(summarizeSwapFlows(flows, { tokenIn: USDC, tokenOut: 'native' })).toEqual({
+        tokenIn: USDC,
+        amountIn: 32_500n,
+        tokenOut: NATIVE,
+        amountOut: 10n,
+      });
+    });
+
+    it('should prefer expected tokens over inferred legs', () => {
+      const flows = decodeTokenFlows({
+        logs: [
+          transfer(USDC, USER, POOL, 100n),
+          transfer(WETH, POOL, USER, 5n),
+          // Airdrop-style inflow that is larger in raw units
+          transfer(ROUTER, POOL, USER, 1_000_000n),
+        ],
+        wallets: [USER],
+      });
+
+      const summary = summarizeSwapFlows(flows, { tokenIn: USDC, tokenOut: WETH.toUpperCase() });
+      expect(summary.tokenOut).toBe(WETH);
+      expect(summary.amountOut).toBe(5n);
+    });
+
+    it('should return empty legs when nothing moved', () => {
+      expect(summarizeSwapFlows(new Map())).toEqual({
+        tokenIn: null,
+        amountIn: 0n,
+        tokenOut: null,
+        amountOut: 0n,
+      });
+    });
+  });
+
+  describe('calculateRealisedSlippage', () => {
+    it('should report the shortfall against the quote as a percentage', () => {
+      expect(calculateRealisedSlippage(10_000n, 9_950n)).toBe(0.5);
+    });
+
+    it('should be negative when the swap beat the quote', () => {
+      expect(calculateRealisedSlippage(10_000n, 10_100n)).toBe(-1);
+    });
+
+    it('should return 0 without a quoted amount', () => {
+      expect(calculateRealisedSlippage(0n, 100n)).toBe(0);
+    });
+  });
+});
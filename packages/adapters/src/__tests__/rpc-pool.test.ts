@@ -0,0 +1,162 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { RpcEndpointPool } from '../rpc-pool.js';
+
+const PRIMARY = 'https://primary.example';
+const BACKUP = 'https://backup.example';
+
+function createPool(heights: Record<string, () => Promise<bigint>>, options = {}) {
+  return new RpcEndpointPool({
+    urls: Object.keys(heights),
+    createClient: (url) => ({ url }),
+    getBlockNumber: (client) => heights[client.url](),
+    ...options,
+  });
+}
+
+function height(value: bigint) {
+  return () => Promise.resolve(value);
+}
+
+function delay(ms: number, value: bigint) {
+  return () => new Promise<bigint>((resolve) => setTimeout(() => resolve(value), ms));
+}
+
+describe('RpcEndpointPool', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should start on the first configured URL', () => {
+    const pool = createPool({ [PRIMARY]: height(1n), [BACKUP]: height(1n) });
+
+    expect(pool.url).toBe(PRIMARY);
+    expect(pool.client).toEqual({ url: PRIMARY });
+  });
+
+  it('should prefer the faster endpoint after probing', async () => {
+    const pool = createPool({ [PRIMARY]: delay(200, 100n), [BACKUP]: delay(20, 100n) });
+
+    const probe = pool.probe();
+    await vi.advanceTimersByTimeAsync(200);
+    await probe;
+
+    expect(pool.url).toBe(BACKUP);
+  });
+
+  it('should quarantine endpoints lagging behind the chain head', async () => {
+    const pool = createPool(
+      { [PRIMARY]: height(80n), [BACKUP]: delay(50, 100n) },
+      { maxBlockLag: 10 }
+    );
+
+    const probe = pool.probe();
+    await vi.advanceTimersByTimeAsync(50);
+    const status = await probe;
+
+    expect(status[0]).toMatchObject({ url: PRIMARY, blockLag: 20, isQuarantined: true });
+    expect(status[1]).toMatchObject({ url: BACKUP, blockLag: 0, isHealthy: true });
+    expect(pool.url).toBe(BACKUP);
+  });
+
+  it('should release an endpoint once its quarantine expires', async () => {
+    const pool = createPool(
+      { [PRIMARY]: height(80n), [BACKUP]: delay(50, 100n) },
+      { quarantineMs: 1_000 }
+    );
+
+    const probe = pool.probe();
+    await vi.advanceTimersByTimeAsync(50);
+    await probe;
+    vi.advanceTimersByTime(1_000);
+
+    expect(pool.getStatus()[0].isQuarantined).toBe(false);
+    expect(pool.url).toBe(PRIMARY);
+  });
+
+  it('should quarantine endpoints that keep failing', async () => {
+    const pool = createPool({
+      [PRIMARY]: () => Promise.reject(new Error('fetch failed')),
+      [BACKUP]: height(100n),
+    });
+
+    await pool.probe();
+    expect(pool.getStatus()[0]).toMatchObject({
+      isHealthy: false,
+      isQuarantined: false,
+      lastError: 'fetch failed',
+    });
+
+    await pool.probe();
+    expect(pool.getStatus()[0].isQuarantined).toBe(true);
+    expect(pool.url).toBe(BACKUP);
+  });
+
+  it('should count probes that time out as failures', async () => {
+    const pool = createPool(
+      { [PRIMARY]: delay(10_000, 100n), [BACKUP]: height(100n) },
+      { probeTimeoutMs: 1_000 }
+    );
+
+    const probe = pool.probe();
+    await vi.advanceTimersByTimeAsync(1_000);
+    const status = await probe;
+
+    expect(status[0].lastError).toBe('Timed out after 1000ms');
+    expect(pool.url).toBe(BACKUP);
+  });
+
+  it('should retry requests on the next best endpoint', async () => {
+    const pool = createPool({ [PRIMARY]: height(1n), [BACKUP]: height(1n) });
+    const request = vi.fn(async (client) => {
+      if (client.url === PRIMARY) throw new Error('503 Service Unavailable');
+      return 'ok';
+    });
+
+    await expect(pool.execute(request)).resolves.toBe('ok');
+    expect(request).toHaveBeenCalledTimes(2);
+    expect(pool.getStatus()[0].errorRate).toBeGreaterThan(0);
+  });
+
+  it('should throw the last error when every endpoint fails', async () => {
+    const pool = createPool({ [PRIMARY]: height(1n), [BACKUP]: height(1n) });
+
+    await expect(
+      pool.execute(async (client) => {
+        throw new Error(`${client.url} down`);
+      })
+    ).rejects.toThrow(`${BACKUP} down`);
+  });
+
+  it('should summarize the pool as a chain status', async () => {
+    const pool = createPool({
+      [PRIMARY]: () => Promise.reject(new Error('fetch failed')),
+      [BACKUP]: height(100n),
+    });
+
+    await pool.probe();
+    const status = pool.getChainStatus('ethereum');
+
+    expect(status).toMatchObject({
+      chainId: 'ethereum',
+      isHealthy: true,
+      blockNumber: 100n,
+      rpcUrl: BACKUP,
+    });
+    expect(status.endpoints).toHaveLength(2);
+  });
+
+  it('should report the chain down when no endpoint responds', async () => {
+    const pool = createPool({ [PRIMARY]: () => Promise.reject(new Error('fetch failed')) });
+
+    await pool.probe();
+
+    expect(pool.getChainStatus('ethereum').isHealthy).toBe(false);
+    expect(pool.url).toBe(PRIMARY);
+  });
+});
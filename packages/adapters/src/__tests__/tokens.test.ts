@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { getKnownTokenAddresses, normalizeTokenAddresses, KNOWN_TOKENS } from '../evm/tokens.js';
+import {
+  EVM_CHAIN_IDS,
+  NATIVE_TOKEN_ADDRESS,
+  ZERO_ADDRESS,
+  WRAPPED_NATIVE_TOKENS,
+  type EvmChainId,
+} from '../evm/chains.js';
+import { BLAST_TOKENS } from '../evm/blast.js';
+
+describe('EVM Token Discovery', () => {
+  describe('normalizeTokenAddresses', () => {
+    it('should checksum and de-duplicate addresses', () => {
+      const result = normalizeTokenAddresses([
+        '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48',
+        '0xA0B86991C6218B36C1D19D4A2E9EB0CE3606EB48',
+      ]);
+
+      expect(result).toEqual(['0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48']);
+    });
+
+    it('should drop native, zero and malformed addresses', () => {
+      const result = normalizeTokenAddresses([
+        NATIVE_TOKEN_ADDRESS,
+        ZERO_ADDRESS,
+        '0xUSDC0000000000000000000000000000000000',
+        '',
+      ]);
+
+      expect(result).toEqual([]);
+    });
+  });
+
+  describe('getKnownTokenAddresses', () => {
+    it('should include the chain module token list', () => {
+      const tokens = getKnownTokenAddresses('blast');
+
+      expect(tokens).toContain(BLAST_TOKENS.USDB);
+      expect(tokens).toContain(BLAST_TOKENS.BLAST);
+      expect(tokens).not.toContain(BLAST_TOKENS.ETH);
+    });
+
+    it('should include the wrapped native token', () => {
+      expect(getKnownTokenAddresses('ethereum')).toContain(WRAPPED_NATIVE_TOKENS.ethereum);
+    });
+
+    it('should return only valid addresses for every EVM chain', () => {
+      for (const chainId of Object.keys(EVM_CHAIN_IDS) as EvmChainId[]) {
+        for (const address of getKnownTokenAddresses(chainId)) {
+          expect(address).toMatch(/^0x[0-9a-fA-F]{40}$/);
+          expect(address).not.toBe(ZERO_ADDRESS);
+        }
+      }
+    });
+
+    it('should cover the original chains', () => {
+      for (const chainId of ['ethereum', 'base', 'arbitrum', 'optimism', 'polygon', 'bsc']) {
+        expect(Object.keys(KNOWN_TOKENS[chainId as EvmChainId] ?? {}).length).toBeGreaterThan(0);
+      }
+    });
+  });
+});
@@ -11,6 +11,7 @@
 import type { SwapRequest, SwapRoute, DexAggregator } from '@chainhopper/types';
 import { EVM_CHAIN_IDS } from './chains.js';
 import type { AggregatorQuote } from './aggregators.js';
+import { hasSwapCall, registerDexSource } from './dex-sources.js';
 
 // Abstract Chain ID
 export const ABSTRACT_CHAIN_ID = 2741;
@@ -151,7 +152,9 @@ export async function getAbstractBestQuote(
     getAbstractSwapQuote(request),
   ]);
 
-  const validQuotes = quotes.filter((q): q is AbstractQuote => q !== null && q.amountOut > 0n);
+  const validQuotes = quotes.filter(
+    (q): q is AbstractQuote => q !== null && q.amountOut > 0n && hasSwapCall(q)
+  );
 
   if (validQuotes.length === 0) return null;
 
@@ -198,3 +201,10 @@ export function getAbstractPopularPairs(): Array<{ tokenIn: string; tokenOut: st
     { tokenIn: ABSTRACT_TOKENS.USDC, tokenOut: ABSTRACT_TOKENS.USDT, name: 'USDC/USDT' },
   ];
 }
+
+registerDexSource({
+  name: 'abstract',
+  chains: ['abstract'],
+  getQuote: getAbstractBestQuote,
+  buildTransaction: buildAbstractSwapTransaction,
+});
@@ -1,13 +1,43 @@
-import type { SwapRequest, SwapRoute, DexAggregator } from '@chainhopper/types';
+import type { ChainId, SwapRequest, SwapRoute, DexAggregator } from '@chainhopper/types';
+import { toFixedPoint, percentToBps, PRICE_DECIMALS } from '@chainhopper/types';
+import { isAddress } from 'viem';
 import { EVM_CHAIN_IDS, type EvmChainId } from './chains.js';
-import { getSonicBestQuote, isSonicChain } from './sonic.js';
-import { getKaiaBestQuote } from './kaia.js';
-import { getAbstractBestQuote, isAbstractChain } from './abstract.js';
-import { getZeroGBestQuote, isZeroGChain } from './zerog.js';
-import { getAstarBestQuote, isAstarChain } from './astar.js';
-import { getStableBestQuote, isStableChain } from './stable.js';
-import { getLiskBestQuote, isLiskChain } from './lisk.js';
-import { getDeriveBestQuote, isDeriveChain } from './derive.js';
+import {
+  getDexSource,
+  getDexSources,
+  hasSwapCall,
+  registerDexSource,
+  type DexSourceOptions,
+  type SwapCallData,
+} from './dex-sources.js';
+// Chain modules register their native DEX sources on import
+import './abstract.js';
+import './apechain.js';
+import './astar.js';
+import './blast.js';
+import './cronos.js';
+import './derive.js';
+import './fantom.js';
+import './fraxtal.js';
+import './gnosis.js';
+import './ink.js';
+import './kaia.js';
+import './linea.js';
+import './lisk.js';
+import './manta.js';
+import './mantle.js';
+import './metis.js';
+import './monad.js';
+import './scroll.js';
+import './soneium.js';
+import './sonic.js';
+import './stable.js';
+import './taiko.js';
+import './unichain.js';
+import './worldchain.js';
+import './xlayer.js';
+import './zerog.js';
+import './zksync.js';
 
 // Aggregator API endpoints
 const AGGREGATOR_APIS = {
@@ -48,29 +78,6 @@ const AGGREGATOR_CHAIN_SUPPORT: Record<DexAggregator, EvmChainId[]> = {
   turbos: [],
 };
 
-// Chains with native DEX routing (bypass aggregators)
-// These chains have specific DEX integrations in separate files
-const NATIVE_DEX_CHAINS: EvmChainId[] = [
-  'sonic',      // SwapX, Shadow DEX
-  'kaia',       // DragonSwap, KLAYswap
-  'abstract',   // AbstractSwap
-  'zerog',      // 0GSwap, Gravity DEX
-  'astar',      // ArthSwap, SiriusFinance
-  'stable',     // StableSwap, StableDEX (USDT native gas)
-  'ronin',      // Katana DEX
-  'apechain',   // Ape Portal / Camelot
-  'monad',      // Kuru Exchange
-  'soneium',    // Kyo Finance
-  'ink',        // Velodrome, Nado
-  'cronos',     // VVS Finance
-  'celo',       // Ubeswap
-  'metis',      // Netswap
-  'moonbeam',   // StellaSwap
-  'moonriver',  // Solarbeam
-  'lisk',       // Velodrome, Oku Trade
-  'derive',     // Derive Protocol, Velodrome
-];
-
 export interface AggregatorQuote {
   aggregator: DexAggregator;
   amountOut: bigint;
@@ -80,6 +87,42 @@ export interface AggregatorQuote {
   txData: string;
   txTo: string;
   txValue: bigint;
+  source?: string; // name of the DexSource that produced the quote
+}
+
+export interface RankedQuote {
+  quote: AggregatorQuote;
+  gasCost: bigint; // in output-token units
+  netAmountOut: bigint;
+}
+
+export interface GasPricing {
+  gasPrice: bigint; // wei per gas
+  nativeDecimals: number;
+  nativePriceUsd: number;
+  tokenOutDecimals: number;
+  tokenOutPriceUsd: number;
+}
+
+/**
+ * USD price lookup used to value gas in output-token terms. The core
+ * price oracle satisfies this; results are keyed `${chainId}:${address}`
+ * with lowercased addresses.
+ */
+export interface TokenPriceSource {
+  getPrices(
+    tokens: Array<{ address: string; chainId: ChainId }>
+  ): Promise<Map<string, { priceUsd: number }>>;
+}
+
+export interface BestQuoteOptions extends DexSourceOptions {
+  /** Value a gas amount in output-token units; without it quotes rank by raw output */
+  gasCostInTokenOut?: (estimatedGas: bigint) => bigint;
+}
+
+export interface BuildQuoteOptions extends DexSourceOptions {
+  /** Least output a re-quoted source may return; defaults to the quote's own output */
+  amountOutMin?: bigint;
 }
 
 /**
@@ -209,7 +252,7 @@ export async function getParaSwapQuote(
         destAmount: bestRoute.destAmount,
         priceRoute: bestRoute,
         userAddress: request.recipient,
-        slippage: request.slippage * 100, // ParaSwap uses basis points
+        slippage: Number(percentToBps(request.slippage)), // ParaSwap uses basis points
         deadline: request.deadline || Math.floor(Date.now() / 1000) + 1200,
       }),
     });
@@ -321,157 +364,124 @@ export async function getOogaBoogaQuote(
 }
 
 /**
- * Get best quote from all aggregators
+ * Get quotes from every DEX source serving the chain, best output
+ * net of gas first
+ */
+export async function getRankedQuotes(
+  request: SwapRequest,
+  options: BestQuoteOptions = {}
+): Promise<RankedQuote[]> {
+  const sources = getDexSources(request.chainId);
+
+  const quotes = await Promise.all(
+    sources.map(async (source): Promise<AggregatorQuote | null> => {
+      try {
+        const quote = await source.getQuote(request, options);
+        if (!quote || quote.amountOut <= 0n) return null;
+        // Native DEX sources build from the quote, so it must already carry the call
+        if (source.buildTransaction && !hasSwapCall(quote)) return null;
+        return { ...quote, aggregator: quote.aggregator as DexAggregator, source: source.name };
+      } catch {
+        return null;
+      }
+    })
+  );
+
+  return rankQuotes(
+    quotes.filter((q): q is AggregatorQuote => q !== null),
+    options.gasCostInTokenOut
+  );
+}
+
+/**
+ * Get the best quote across every DEX source serving the chain
  */
 export async function getBestQuote(
   request: SwapRequest,
-  options?: { oneInchApiKey?: string; oogaBoogaApiKey?: string }
+  options: BestQuoteOptions = {}
 ): Promise<AggregatorQuote | null> {
-  // Route Sonic chain to native DEXes
-  if (isSonicChain(request.chainId)) {
-    return getSonicBestQuote(request);
-  }
+  const [best] = await getRankedQuotes(request, options);
+  return best?.quote ?? null;
+}
 
-  // Route Kaia chain to native DEXes (DragonSwap, KLAYswap)
-  if (request.chainId === 'kaia') {
-    const kaiaQuote = await getKaiaBestQuote(request);
-    if (kaiaQuote) {
-      return {
-        aggregator: kaiaQuote.aggregator,
-        amountOut: kaiaQuote.amountOut,
-        estimatedGas: kaiaQuote.estimatedGas,
-        priceImpact: kaiaQuote.priceImpact,
-        route: kaiaQuote.route,
-        txData: kaiaQuote.txData,
-        txTo: kaiaQuote.txTo,
-        txValue: kaiaQuote.txValue,
-      };
-    }
-    return null;
-  }
+/**
+ * Order quotes by output after gas. Ties keep source order, so without
+ * a gas valuation this is simply highest raw output first.
+ */
+export function rankQuotes(
+  quotes: AggregatorQuote[],
+  gasCostInTokenOut?: (estimatedGas: bigint) => bigint
+): RankedQuote[] {
+  return quotes
+    .map((quote) => {
+      const gasCost = gasCostInTokenOut?.(quote.estimatedGas) ?? 0n;
+      return { quote, gasCost, netAmountOut: quote.amountOut - gasCost };
+    })
+    .sort((a, b) =>
+      a.netAmountOut === b.netAmountOut ? 0 : a.netAmountOut > b.netAmountOut ? -1 : 1
+    );
+}
 
-  // Route Abstract chain to native DEX (AbstractSwap)
-  if (isAbstractChain(request.chainId)) {
-    const abstractQuote = await getAbstractBestQuote(request);
-    if (abstractQuote) {
-      return {
-        aggregator: abstractQuote.aggregator,
-        amountOut: abstractQuote.amountOut,
-        estimatedGas: abstractQuote.estimatedGas,
-        priceImpact: abstractQuote.priceImpact,
-        route: abstractQuote.route,
-        txData: abstractQuote.txData,
-        txTo: abstractQuote.txTo,
-        txValue: abstractQuote.txValue,
-      };
-    }
-    return null;
-  }
+/**
+ * Convert gas units into output-token units via both tokens' USD prices
+ */
+export function createGasCostConverter(pricing: GasPricing): (estimatedGas: bigint) => bigint {
+  const nativePrice = toFixedPoint(pricing.nativePriceUsd, PRICE_DECIMALS);
+  const tokenOutPrice = toFixedPoint(pricing.tokenOutPriceUsd, PRICE_DECIMALS);
+
+  return (estimatedGas) => {
+    if (tokenOutPrice === 0n) return 0n;
+    const costWei = estimatedGas * pricing.gasPrice;
+    return (
+      (costWei * nativePrice * 10n ** BigInt(pricing.tokenOutDecimals)) /
+      (tokenOutPrice * 10n ** BigInt(pricing.nativeDecimals))
+    );
+  };
+}
 
-  // Route 0G chain to native DEX (0GSwap, Gravity DEX)
-  if (isZeroGChain(request.chainId)) {
-    const zerogQuote = await getZeroGBestQuote(request);
-    if (zerogQuote) {
-      return {
-        aggregator: zerogQuote.aggregator,
-        amountOut: zerogQuote.amountOut,
-        estimatedGas: zerogQuote.estimatedGas,
-        priceImpact: zerogQuote.priceImpact,
-        route: zerogQuote.route,
-        txData: zerogQuote.txData,
-        txTo: zerogQuote.txTo,
-        txValue: zerogQuote.txValue,
-      };
-    }
-    return null;
+/**
+ * Build the swap call for a quote through the source that produced it.
+ * Calldata from quote time was encoded without a recipient (or for the
+ * zero address), so every source is asked again for `request.recipient`
+ * and must still deliver the accepted minimum output. Sources with their
+ * own encoder build from that re-quote. The call is refused unless it
+ * pays out to the recipient.
+ */
+export async function buildQuoteTransaction(
+  quote: AggregatorQuote,
+  request: SwapRequest,
+  options: BuildQuoteOptions = {}
+): Promise<SwapCallData> {
+  const source = quote.source ? getDexSource(quote.source) : undefined;
+  if (!source) {
+    throw new Error(`Unknown DEX source: ${quote.source ?? quote.aggregator}`);
   }
-
-  // Route Astar chain to native DEX (ArthSwap, SiriusFinance)
-  if (isAstarChain(request.chainId)) {
-    const astarQuote = await getAstarBestQuote(request);
-    if (astarQuote) {
-      return {
-        aggregator: astarQuote.aggregator,
-        amountOut: astarQuote.amountOut,
-        estimatedGas: astarQuote.estimatedGas,
-        priceImpact: astarQuote.priceImpact,
-        route: astarQuote.route,
-        txData: astarQuote.txData,
-        txTo: astarQuote.txTo,
-        txValue: astarQuote.txValue,
-      };
-    }
-    return null;
+  if (!isAddress(request.recipient, { strict: false })) {
+    throw new Error('A recipient address is required to build a swap');
   }
 
-  // Route Stable chain to native DEX (StableSwap, StableDEX)
-  if (isStableChain(request.chainId)) {
-    const stableQuote = await getStableBestQuote(request);
-    if (stableQuote) {
-      return {
-        aggregator: stableQuote.aggregator,
-        amountOut: stableQuote.amountOut,
-        estimatedGas: stableQuote.estimatedGas,
-        priceImpact: stableQuote.priceImpact,
-        route: stableQuote.route,
-        txData: stableQuote.txData,
-        txTo: stableQuote.txTo,
-        txValue: stableQuote.txValue,
-      };
-    }
-    return null;
+  const requoted = await source.getQuote(request, options);
+  if (!requoted || !hasSwapCall(requoted)) {
+    throw new Error(`${source.name} returned no swap call`);
   }
-
-  // Route Lisk chain to native DEX (Velodrome, Oku Trade)
-  if (isLiskChain(request.chainId)) {
-    const liskQuote = await getLiskBestQuote(request);
-    if (liskQuote) {
-      return {
-        aggregator: liskQuote.aggregator,
-        amountOut: liskQuote.amountOut,
-        estimatedGas: liskQuote.estimatedGas,
-        priceImpact: liskQuote.priceImpact,
-        route: liskQuote.route,
-        txData: liskQuote.txData,
-        txTo: liskQuote.txTo,
-        txValue: liskQuote.txValue,
-      };
-    }
-    return null;
+  if (requoted.amountOut < (options.amountOutMin ?? quote.amountOut)) {
+    throw new Error(`${source.name} no longer quotes the accepted output`);
   }
 
-  // Route Derive chain to native DEX (Derive Protocol, Velodrome)
-  if (isDeriveChain(request.chainId)) {
-    const deriveQuote = await getDeriveBestQuote(request);
-    if (deriveQuote) {
-      return {
-        aggregator: deriveQuote.aggregator,
-        amountOut: deriveQuote.amountOut,
-        estimatedGas: deriveQuote.estimatedGas,
-        priceImpact: deriveQuote.priceImpact,
-        route: deriveQuote.route,
-        txData: deriveQuote.txData,
-        txTo: deriveQuote.txTo,
-        txValue: deriveQuote.txValue,
-      };
-    }
-    return null;
+  const call = source.buildTransaction
+    ? await source.buildTransaction(requoted, request)
+    : { to: requoted.txTo, data: requoted.txData, value: requoted.txValue };
+  if (!hasSwapCall({ txTo: call.to, txData: call.data })) {
+    throw new Error(`${source.name} returned no swap call`);
   }
 
-  const quotes = await Promise.all([
-    get1inchQuote(request, options?.oneInchApiKey),
-    getParaSwapQuote(request),
-    getOogaBoogaQuote(request, options?.oogaBoogaApiKey),
-  ]);
-
-  const validQuotes = quotes.filter((q): q is AggregatorQuote => q !== null && q.amountOut > 0n);
-
-  if (validQuotes.length === 0) return null;
+  // ABI encoding pads the address to a word, so its hex appears as is
+  const recipient = request.recipient.slice(2).toLowerCase();
+  if (!call.data.toLowerCase().includes(recipient)) {
+    throw new Error(`${source.name} built a swap that does not pay out to the recipient`);
+  }
 
-  // Return quote with highest output
-  return validQuotes.reduce((best, current) =>
-    current.amountOut > best.amountOut ? current : best
-  );
+  return call;
 }
 
 /**
@@ -641,3 +651,21 @@ function parseOogaBoogaRoute(
     }];
   }
 }
+
+registerDexSource({
+  name: '1inch',
+  chains: AGGREGATOR_CHAIN_SUPPORT['1inch'],
+  getQuote: (request, options) => get1inchQuote(request, options.oneInchApiKey),
+});
+
+registerDexSource({
+  name: 'paraswap',
+  chains: AGGREGATOR_CHAIN_SUPPORT.paraswap,
+  getQuote: (request) => getParaSwapQuote(request),
+});
+
+registerDexSource({
+  name: 'oogabooga',
+  chains: AGGREGATOR_CHAIN_SUPPORT.oogabooga,
+  getQuote: (request, options) => getOogaBoogaQuote(request, options.oogaBoogaApiKey),
+});
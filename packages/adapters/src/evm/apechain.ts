@@ -12,6 +12,7 @@
 import type { SwapRequest, SwapRoute, DexAggregator } from '@chainhopper/types';
 import { EVM_CHAIN_IDS } from './chains.js';
 import type { AggregatorQuote } from './aggregators.js';
+import { hasSwapCall, registerDexSource } from './dex-sources.js';
 
 // ApeChain Chain ID
 export const APECHAIN_CHAIN_ID = 33139;
@@ -212,7 +213,9 @@ export async function getApeChainBestQuote(
     getCamelotApeChainQuote(request),
   ]);
 
-  const validQuotes = quotes.filter((q): q is ApeChainQuote => q !== null && q.amountOut > 0n);
+  const validQuotes = quotes.filter(
+    (q): q is ApeChainQuote => q !== null && q.amountOut > 0n && hasSwapCall(q)
+  );
 
   if (validQuotes.length === 0) return null;
 
@@ -267,3 +270,10 @@ export function getApeChainPopularPairs(): Array<{ tokenIn: string; tokenOut: st
     { tokenIn: APECHAIN_TOKENS.WETH, tokenOut: APECHAIN_TOKENS.USDC, name: 'WETH/USDC' },
   ];
 }
+
+registerDexSource({
+  name: 'apechain',
+  chains: ['apechain'],
+  getQuote: getApeChainBestQuote,
+  buildTransaction: buildApeChainSwapTransaction,
+});
@@ -12,6 +12,7 @@
 
 import type { SwapRequest, SwapRoute, DexAggregator } from '@chainhopper/types';
 import type { AggregatorQuote } from './aggregators.js';
+import { hasSwapCall, registerDexSource } from './dex-sources.js';
 
 // Astar Chain ID
 export const ASTAR_CHAIN_ID = 592;
@@ -243,7 +244,9 @@ export async function getAstarBestQuote(
     getSiriusQuote(request),
   ]);
 
-  const validQuotes = quotes.filter((q): q is AstarQuote => q !== null && q.amountOut > 0n);
+  const validQuotes = quotes.filter(
+    (q): q is AstarQuote => q !== null && q.amountOut > 0n && hasSwapCall(q)
+  );
 
   if (validQuotes.length === 0) return null;
 
@@ -300,3 +303,10 @@ export function getAstarPopularPairs(): Array<{ tokenIn: string; tokenOut: strin
     { tokenIn: ASTAR_TOKENS.DOT, tokenOut: ASTAR_TOKENS.ASTR, name: 'DOT/ASTR' },
   ];
 }
+
+registerDexSource({
+  name: 'astar',
+  chains: ['astar'],
+  getQuote: getAstarBestQuote,
+  buildTransaction: buildAstarSwapTransaction,
+});
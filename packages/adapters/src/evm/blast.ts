@@ -14,6 +14,7 @@
 import type { SwapRequest, SwapRoute, DexAggregator } from '@chainhopper/types';
 import type { AggregatorQuote } from './aggregators.js';
 import { EVM_CHAIN_IDS } from './chains.js';
+import { hasSwapCall, registerDexSource } from './dex-sources.js';
 
 // Blast Chain ID
 export const BLAST_CHAIN_ID = 81457;
@@ -218,9 +219,9 @@ export async function getThrusterV3Quote(
       };
     }
 
-    return buildThrusterV3FallbackQuote(request);
+    return null;
   } catch {
-    return buildThrusterV3FallbackQuote(request);
+    return null;
   }
 }
 
@@ -293,9 +294,9 @@ export async function getThrusterV2Quote(
       };
     }
 
-    return buildThrusterV2FallbackQuote(request);
+    return null;
   } catch {
-    return buildThrusterV2FallbackQuote(request);
+    return null;
   }
 }
 
@@ -385,7 +386,7 @@ export async function getBlastBestQuote(
   ]);
 
   const validQuotes = quotes.filter(
-    (q): q is BlastQuote => q !== null && q.amountOut > 0n
+    (q): q is BlastQuote => q !== null && q.amountOut > 0n && hasSwapCall(q)
   );
 
   if (validQuotes.length === 0) return null;
@@ -503,117 +504,9 @@ function parseThrusterRoute(
   }
 }
 
-function buildThrusterV3FallbackQuote(request: SwapRequest): BlastQuote | null {
-  try {
-    const isNativeIn = isNativeToken(request.tokenIn);
-    const tokenIn = isNativeIn ? BLAST_TOKENS.WETH : request.tokenIn;
-    const tokenOut = isNativeToken(request.tokenOut)
-      ? BLAST_TOKENS.WETH
-      : request.tokenOut;
-
-    // Build path
-    const path =
-      tokenIn === BLAST_TOKENS.WETH || tokenOut === BLAST_TOKENS.WETH
-        ? [tokenIn, tokenOut]
-        : [tokenIn, BLAST_TOKENS.WETH, tokenOut];
-
-    const minAmountOut = calculateEstimatedOutput(
-      request.amountIn,
-      request.slippage
-    );
-
-    return {
-      aggregator: '1inch' as DexAggregator,
-      amountOut: minAmountOut,
-      estimatedGas: 200000n,
-      priceImpact: 0.5,
-      route: [
-        {
-          dex: 'Thruster V3',
-          poolAddress: BLAST_ROUTERS.thrusterV3Router,
-          tokenIn: request.tokenIn,
-          tokenOut: request.tokenOut,
-          percentage: 100,
-        },
-      ],
-      txData: encodeV3Swap(request, path, 3000),
-      txTo: BLAST_ROUTERS.thrusterV3Router,
-      txValue: isNativeIn ? request.amountIn : 0n,
-      version: 'v3',
-      feeTier: 3000,
-    };
-  } catch {
-    return null;
-  }
-}
-
-function buildThrusterV2FallbackQuote(request: SwapRequest): BlastQuote | null {
-  try {
-    const isNativeIn = isNativeToken(request.tokenIn);
-    const tokenIn = isNativeIn ? BLAST_TOKENS.WETH : request.tokenIn;
-    const tokenOut = isNativeToken(request.tokenOut)
-      ? BLAST_TOKENS.WETH
-      : request.tokenOut;
-
-    // Build path
-    const path =
-      tokenIn === BLAST_TOKENS.WETH || tokenOut === BLAST_TOKENS.WETH
-        ? [tokenIn, tokenOut]
-        : [tokenIn, BLAST_TOKENS.WETH, tokenOut];
-
-    const minAmountOut = calculateEstimatedOutput(
-      request.amountIn,
-      request.slippage
-    );
-
-    return {
-      aggregator: '1inch' as DexAggregator,
-      amountOut: minAmountOut,
-      estimatedGas: 150000n,
-      priceImpact: 0.5,
-      route: [
-        {
-          dex: 'Thruster V2',
-          poolAddress: BLAST_ROUTERS.thrusterV2Router,
-          tokenIn: request.tokenIn,
-          tokenOut: request.tokenOut,
-          percentage: 100,
-        },
-      ],
-      txData: encodeV2Swap(request, path),
-      txTo: BLAST_ROUTERS.thrusterV2Router,
-      txValue: isNativeIn ? request.amountIn : 0n,
-      version: 'v2',
-    };
-  } catch {
-    return null;
-  }
-}
-
-function calculateEstimatedOutput(amountIn: bigint, slippage: number): bigint {
-  const slippageBps = BigInt(Math.floor(slippage * 10000));
-  return (amountIn * (10000n - slippageBps)) / 10000n;
-}
-
-function encodeV3Swap(
-  request: SwapRequest,
-  path: string[],
-  feeTier: number
-): string {
-  // Simplified encoding - in production use viem for proper ABI encoding
-  const EXACT_INPUT_SINGLE_SELECTOR = '0x414bf389';
-  return EXACT_INPUT_SINGLE_SELECTOR;
-}
-
-function encodeV2Swap(request: SwapRequest, path: string[]): string {
-  // Simplified encoding - in production use viem for proper ABI encoding
-  const isNativeIn = isNativeToken(request.tokenIn);
-  const isNativeOut = isNativeToken(request.tokenOut);
-
-  if (isNativeIn) {
-    return '0x7ff36ab5'; // swapExactETHForTokens
-  } else if (isNativeOut) {
-    return '0x18cbafe5'; // swapExactTokensForETH
-  }
-  return '0x38ed1739'; // swapExactTokensForTokens
-}
+registerDexSource({
+  name: 'blast',
+  chains: ['blast'],
+  getQuote: getBlastBestQuote,
+  buildTransaction: (quote, request) => buildBlastSwapTransaction(quote, request.recipient),
+});
@@ -61,6 +61,9 @@ export type EvmChainId = keyof typeof EVM_CHAIN_IDS;
 export const NATIVE_TOKEN_ADDRESS = '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE';
 export const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
 
+// Multicall3 is deployed at the same address on nearly every EVM chain
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
 // Wrapped native token addresses per chain
 export const WRAPPED_NATIVE_TOKENS: Record<EvmChainId, string> = {
   // Original chains
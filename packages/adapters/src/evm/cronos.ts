@@ -13,6 +13,7 @@
 import type { SwapRequest, SwapRoute, DexAggregator } from '@chainhopper/types';
 import { EVM_CHAIN_IDS } from './chains.js';
 import type { AggregatorQuote } from './aggregators.js';
+import { hasSwapCall, registerDexSource } from './dex-sources.js';
 
 // Cronos Chain ID
 export const CRONOS_CHAIN_ID = 25;
@@ -271,7 +272,9 @@ export async function getCronosBestQuote(
     getCrodexQuote(request),
   ]);
 
-  const validQuotes = quotes.filter((q): q is CronosQuote => q !== null && q.amountOut > 0n);
+  const validQuotes = quotes.filter(
+    (q): q is CronosQuote => q !== null && q.amountOut > 0n && hasSwapCall(q)
+  );
 
   if (validQuotes.length === 0) return null;
 
@@ -329,3 +332,10 @@ export function getCronosPopularPairs(): Array<{ tokenIn: string; tokenOut: stri
     { tokenIn: CRONOS_TOKENS.USDC, tokenOut: CRONOS_TOKENS.USDT, name: 'USDC/USDT' },
   ];
 }
+
+registerDexSource({
+  name: 'cronos',
+  chains: ['cronos'],
+  getQuote: getCronosBestQuote,
+  buildTransaction: buildCronosSwapTransaction,
+});
@@ -12,6 +12,7 @@
 
 import type { SwapRequest, SwapRoute, DexAggregator } from '@chainhopper/types';
 import type { AggregatorQuote } from './aggregators.js';
+import { hasSwapCall, registerDexSource } from './dex-sources.js';
 
 // Derive Chain ID
 export const DERIVE_CHAIN_ID = 957;
@@ -252,7 +253,9 @@ export async function getDeriveBestQuote(
     getVelodromeDeriveQuote(request),
   ]);
 
-  const validQuotes = quotes.filter((q): q is DeriveQuote => q !== null && q.amountOut > 0n);
+  const validQuotes = quotes.filter(
+    (q): q is DeriveQuote => q !== null && q.amountOut > 0n && hasSwapCall(q)
+  );
 
   if (validQuotes.length === 0) return null;
 
@@ -307,3 +310,10 @@ export function getDerivePopularPairs(): Array<{ tokenIn: string; tokenOut: stri
     { tokenIn: DERIVE_TOKENS.DRV, tokenOut: DERIVE_TOKENS.USDC, name: 'DRV/USDC' },
   ];
 }
+
+registerDexSource({
+  name: 'derive',
+  chains: ['derive'],
+  getQuote: getDeriveBestQuote,
+  buildTransaction: buildDeriveSwapTransaction,
+});
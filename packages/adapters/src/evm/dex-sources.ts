@@ -0,0 +1,82 @@
+/**
+ * DEX Source Registry
+ *
+ * Every quote source on an EVM chain - the 1inch/ParaSwap/OogaBooga
+ * aggregators as well as each chain's native DEX module - registers
+ * itself here with the chains it serves. `getBestQuote` asks every
+ * source registered for the requested chain.
+ */
+
+import type { SwapRequest } from '@chainhopper/types';
+import type { EvmChainId } from './chains.js';
+import type { AggregatorQuote } from './aggregators.js';
+
+/**
+ * Quote shape returned by a source. Native DEX modules use their own
+ * aggregator names (e.g. 'katana-v3'), so it isn't limited to DexAggregator.
+ */
+export type DexSourceQuote = Omit<AggregatorQuote, 'aggregator' | 'source'> & {
+  aggregator: string;
+};
+
+export interface DexSourceOptions {
+  oneInchApiKey?: string;
+  oogaBoogaApiKey?: string;
+}
+
+export interface SwapCallData {
+  to: string;
+  data: string;
+  value: bigint;
+}
+
+export interface DexSource<TQuote extends DexSourceQuote = DexSourceQuote> {
+  /** Unique source name */
+  name: string;
+  /** Chains the source can quote on */
+  chains: readonly EvmChainId[];
+  getQuote(request: SwapRequest, options: DexSourceOptions): Promise<TQuote | null>;
+  /** Encode the swap call; when omitted the quote's own tx fields are used */
+  buildTransaction?(quote: TQuote, request: SwapRequest): SwapCallData | Promise<SwapCallData>;
+}
+
+const DEX_SOURCES = new Map<string, DexSource>();
+
+/**
+ * Register a source, replacing any existing source with the same name
+ */
+export function registerDexSource<TQuote extends DexSourceQuote>(source: DexSource<TQuote>): void {
+  DEX_SOURCES.set(source.name, source as unknown as DexSource);
+}
+
+/**
+ * Remove a source by name
+ */
+export function unregisterDexSource(name: string): boolean {
+  return DEX_SOURCES.delete(name);
+}
+
+/**
+ * Get a source by name
+ */
+export function getDexSource(name: string): DexSource | undefined {
+  return DEX_SOURCES.get(name);
+}
+
+/**
+ * Get every source serving a chain, in registration order
+ */
+export function getDexSources(chainId: string): DexSource[] {
+  return Array.from(DEX_SOURCES.values()).filter((source) =>
+    source.chains.includes(chainId as EvmChainId)
+  );
+}
+
+/**
+ * Whether a quote carries a swap call a wallet can send: a target plus
+ * calldata beyond a bare function selector. Sources that only estimate
+ * leave txData as '0x' or just the selector.
+ */
+export function hasSwapCall(quote: { txTo: string; txData: string }): boolean {
+  return quote.txTo !== '' && /^0x[0-9a-f]{8}[0-9a-f]+$/i.test(quote.txData);
+}
@@ -13,6 +13,7 @@
 
 import type { SwapRequest, SwapRoute, DexAggregator } from '@chainhopper/types';
 import type { AggregatorQuote } from './aggregators.js';
+import { hasSwapCall, registerDexSource } from './dex-sources.js';
 
 // Fantom Chain ID
 export const FANTOM_CHAIN_ID = 250;
@@ -316,6 +317,7 @@ export async function getBeethovenXQuote(
 /**
  * Get best quote for Fantom chain
  * Note: Fantom also has 1inch/ParaSwap support, this provides native DEX fallback
+ * Quotes without calldata, such as BeethovenX path quotes, are skipped
  */
 export async function getFantomBestQuote(
   request: SwapRequest
@@ -330,7 +332,9 @@ export async function getFantomBestQuote(
     getBeethovenXQuote(request),
   ]);
 
-  const validQuotes = quotes.filter((q): q is FantomQuote => q !== null && q.amountOut > 0n);
+  const validQuotes = quotes.filter(
+    (q): q is FantomQuote => q !== null && q.amountOut > 0n && hasSwapCall(q)
+  );
 
   if (validQuotes.length === 0) return null;
 
@@ -388,3 +392,10 @@ export function getFantomPopularPairs(): Array<{ tokenIn: string; tokenOut: stri
     { tokenIn: FANTOM_TOKENS.BOO, tokenOut: FANTOM_TOKENS.WFTM, name: 'BOO/WFTM' },
   ];
 }
+
+registerDexSource({
+  name: 'fantom',
+  chains: ['fantom'],
+  getQuote: getFantomBestQuote,
+  buildTransaction: buildFantomSwapTransaction,
+});
@@ -13,6 +13,7 @@
 import type { SwapRequest, SwapRoute, DexAggregator } from '@chainhopper/types';
 import { EVM_CHAIN_IDS } from './chains.js';
 import type { AggregatorQuote } from './aggregators.js';
+import { hasSwapCall, registerDexSource } from './dex-sources.js';
 
 // Fraxtal Chain ID
 export const FRAXTAL_CHAIN_ID = 252;
@@ -242,7 +243,9 @@ export async function getFraxtalBestQuote(
     getRaExchangeQuote(request),
   ]);
 
-  const validQuotes = quotes.filter((q): q is FraxtalQuote => q !== null && q.amountOut > 0n);
+  const validQuotes = quotes.filter(
+    (q): q is FraxtalQuote => q !== null && q.amountOut > 0n && hasSwapCall(q)
+  );
 
   if (validQuotes.length === 0) return null;
 
@@ -299,3 +302,10 @@ export function getFraxtalPopularPairs(): Array<{ tokenIn: string; tokenOut: str
     { tokenIn: FRAXTAL_TOKENS.sfrxETH, tokenOut: FRAXTAL_TOKENS.frxETH, name: 'sfrxETH/frxETH' },
   ];
 }
+
+registerDexSource({
+  name: 'fraxtal',
+  chains: ['fraxtal'],
+  getQuote: getFraxtalBestQuote,
+  buildTransaction: buildFraxtalSwapTransaction,
+});
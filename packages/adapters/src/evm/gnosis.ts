@@ -15,8 +15,10 @@
  */
 
 import type { SwapRequest, SwapRoute, DexAggregator } from '@chainhopper/types';
+import { applySlippage } from '@chainhopper/types';
 import type { AggregatorQuote } from './aggregators.js';
 import { EVM_CHAIN_IDS } from './chains.js';
+import { hasSwapCall, registerDexSource } from './dex-sources.js';
 
 // Gnosis Chain ID
 export const GNOSIS_CHAIN_ID = 100;
@@ -227,9 +229,9 @@ export async function getBalancerQuote(
       };
     }
 
-    return buildBalancerFallbackQuote(request);
+    return null;
   } catch {
-    return buildBalancerFallbackQuote(request);
+    return null;
   }
 }
 
@@ -310,7 +312,8 @@ export async function getCowSwapQuote(
 }
 
 /**
- * Get quote from SushiSwap
+ * Get quote from SushiSwap. The output is estimated from the input
+ * amount, not read from the router.
  */
 export async function getSushiSwapGnosisQuote(
   request: SwapRequest
@@ -334,10 +337,7 @@ export async function getSushiSwapGnosisQuote(
         : [tokenIn, GNOSIS_TOKENS.WXDAI, tokenOut];
 
     // Simplified estimation - would use router contract for actual quote
-    const estimatedOutput = calculateEstimatedOutput(
-      request.amountIn,
-      request.slippage
-    );
+    const estimatedOutput = applySlippage(request.amountIn, request.slippage);
 
     return {
       aggregator: '1inch' as DexAggregator,
@@ -364,7 +364,7 @@ export async function getSushiSwapGnosisQuote(
 }
 
 /**
- * Get quote from Curve Finance
+ * Get quote from Curve Finance, estimated as a near 1:1 stable swap
  */
 export async function getCurveGnosisQuote(
   request: SwapRequest
@@ -398,7 +398,7 @@ export async function getCurveGnosisQuote(
     }
 
     // Curve has minimal slippage for stable swaps
-    const estimatedOutput = calculateEstimatedOutput(
+    const estimatedOutput = applySlippage(
       request.amountIn,
       0.05 // 0.05% slippage for stables
     );
@@ -428,7 +428,7 @@ export async function getCurveGnosisQuote(
 }
 
 /**
- * Get best quote for Gnosis chain
+ * Get best quote for Gnosis chain from the DEXes that price swaps
  */
 export async function getGnosisBestQuote(
   request: SwapRequest
@@ -440,12 +440,10 @@ export async function getGnosisBestQuote(
   const quotes = await Promise.all([
     getBalancerQuote(request),
     getCowSwapQuote(request),
-    getSushiSwapGnosisQuote(request),
-    getCurveGnosisQuote(request),
   ]);
 
   const validQuotes = quotes.filter(
-    (q): q is GnosisQuote => q !== null && q.amountOut > 0n
+    (q): q is GnosisQuote => q !== null && q.amountOut > 0n && hasSwapCall(q)
   );
 
   if (validQuotes.length === 0) return null;
@@ -564,48 +562,6 @@ function parseBalancerRoute(
   }
 }
 
-function buildBalancerFallbackQuote(request: SwapRequest): GnosisQuote | null {
-  try {
-    const isNativeIn = isNativeToken(request.tokenIn);
-    const tokenIn = isNativeIn ? GNOSIS_TOKENS.WXDAI : request.tokenIn;
-    const tokenOut = isNativeToken(request.tokenOut)
-      ? GNOSIS_TOKENS.WXDAI
-      : request.tokenOut;
-
-    const minAmountOut = calculateEstimatedOutput(
-      request.amountIn,
-      request.slippage
-    );
-
-    return {
-      aggregator: '1inch' as DexAggregator,
-      amountOut: minAmountOut,
-      estimatedGas: 200000n,
-      priceImpact: 0.5,
-      route: [
-        {
-          dex: 'Balancer V2',
-          poolAddress: GNOSIS_ROUTERS.balancerVault,
-          tokenIn: request.tokenIn,
-          tokenOut: request.tokenOut,
-          percentage: 100,
-        },
-      ],
-      txData: '0x',
-      txTo: GNOSIS_ROUTERS.balancerVault,
-      txValue: isNativeIn ? request.amountIn : 0n,
-      dexName: 'Balancer V2',
-    };
-  } catch {
-    return null;
-  }
-}
-
-function calculateEstimatedOutput(amountIn: bigint, slippage: number): bigint {
-  const slippageBps = BigInt(Math.floor(slippage * 10000));
-  return (amountIn * (10000n - slippageBps)) / 10000n;
-}
-
 function encodeBalancerSwap(
   swaps: unknown,
   tokenAddresses: unknown,
@@ -629,3 +585,10 @@ function encodeSushiSwap(request: SwapRequest, path: string[]): string {
   }
   return '0x38ed1739'; // swapExactTokensForTokens
 }
+
+registerDexSource({
+  name: 'gnosis',
+  chains: ['gnosis'],
+  getQuote: getGnosisBestQuote,
+  buildTransaction: (quote, request) => buildGnosisSwapTransaction(quote, request.recipient),
+});
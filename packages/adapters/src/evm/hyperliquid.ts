@@ -5,11 +5,15 @@
  * HyperEVM provides EVM compatibility for spot trading.
  * Primary DEX: Native Hyperliquid Spot (order book based)
  *
+ * Not registered as a DEX source: spot trades are orders placed through
+ * the Hyperliquid API, not EVM transactions the swap flow can sign.
+ *
  * Chain ID: 999 (HyperEVM)
  * Native Token: HYPE
  */
 
 import type { SwapRequest, SwapRoute } from '@chainhopper/types';
+import { applySlippage, mulDecimal } from '@chainhopper/types';
 import { EVM_CHAIN_IDS } from './chains.js';
 
 // Chain constant
@@ -208,10 +212,7 @@ export async function getHyperliquidPerpsQuote(
     }
 
     // Calculate output at mid price with slippage
-    const slippageMultiplier = 1 - request.slippage / 100;
-    const amountOut = BigInt(
-      Math.floor(Number(request.amountIn) * midPrice * slippageMultiplier)
-    );
+    const amountOut = applySlippage(mulDecimal(request.amountIn, midPrice), request.slippage);
 
     return {
       aggregator: 'hyperliquid-perps',
@@ -379,10 +380,7 @@ function calculateOrderbookOutput(
     }
 
     // Calculate output with slippage
-    const slippageMultiplier = 1 - slippage / 100;
-    const amountOut = BigInt(
-      Math.floor(Number(amountIn) * midPrice * slippageMultiplier)
-    );
+    const amountOut = applySlippage(mulDecimal(amountIn, midPrice), slippage);
 
     // Estimate price impact based on order size
     const priceImpact = Math.min(Number(amountIn) / 1e18 * 0.01, 5); // Max 5%
@@ -398,7 +396,7 @@ function buildHyperliquidFallbackQuote(
   orderType: 'limit' | 'market'
 ): HyperliquidQuote | null {
   try {
-    const minAmountOut = calculateEstimatedOutput(request.amountIn, request.slippage);
+    const minAmountOut = applySlippage(request.amountIn, request.slippage);
 
     return {
       aggregator: 'hyperliquid-spot',
@@ -422,10 +420,3 @@ function buildHyperliquidFallbackQuote(
     return null;
   }
 }
-
-function calculateEstimatedOutput(amountIn: bigint, slippage: number): bigint {
-  // Simplified estimation - assumes 1:1 ratio minus slippage
-  // In production, this would use actual price data
-  const slippageBps = BigInt(Math.floor(slippage * 10000));
-  return amountIn * (10000n - slippageBps) / 10000n;
-}
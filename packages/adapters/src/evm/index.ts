@@ -7,6 +7,7 @@ import type {
   TokenBalance,
   TokenPrice,
   SwapQuote,
+  QuoteCandidate,
   SwapRequest,
   SwapTransaction,
   FeeBreakdown,
@@ -14,7 +15,9 @@ import type {
   TransactionReceipt,
   EventLog,
   ChainId,
+  ConfirmationOptions,
 } from '@chainhopper/types';
+import { applySlippage, shortfallPercent } from '@chainhopper/types';
 import {
   createPublicClient,
   http,
@@ -62,7 +65,18 @@ import {
   type EvmChainId,
   isEvmChain,
 } from './chains.js';
-import { getBestQuote, type AggregatorQuote } from './aggregators.js';
+import {
+  getRankedQuotes,
+  buildQuoteTransaction,
+  createGasCostConverter,
+  type AggregatorQuote,
+  type TokenPriceSource,
+} from './aggregators.js';
+import { decodeTokenFlows, summarizeSwapFlows, calculateRealisedSlippage } from './receipts.js';
+import { getKnownTokenAddresses, normalizeTokenAddresses, type TokenIndexer } from './tokens.js';
+import { MulticallClient } from './multicall.js';
+import { PoolPriceReader } from './pool-prices.js';
+import { RpcEndpointPool } from '../rpc-pool.js';
 
 // Map our chain IDs to viem chains
 const VIEM_CHAINS: Partial<Record<EvmChainId, Chain>> = {
@@ -118,19 +132,34 @@ function createCustomChain(chainId: EvmChainId): Chain {
   };
 }
 
+export interface EvmAdapterOptions {
+  oneInchApiKey?: string;
+  tokenIndexer?: TokenIndexer;
+  /** Prices gas in output-token terms when ranking quotes */
+  priceSource?: TokenPriceSource;
+}
+
+interface EvmRpcClient {
+  client: PublicClient;
+  multicall: MulticallClient;
+}
+
 export class EvmChainAdapter implements EvmAdapter {
   readonly chainId: ChainId;
   readonly config: ChainConfig;
 
-  private client: PublicClient;
-  private currentRpcIndex = 0;
+  private rpcPool: RpcEndpointPool<EvmRpcClient>;
   private oneInchApiKey?: string;
+  private tokenIndexer?: TokenIndexer;
+  private priceSource?: TokenPriceSource;
+  private tokenCache: Map<string, Token> = new Map();
+  private poolPrices: PoolPriceReader;
 
-  constructor(config: ChainConfig, options?: { oneInchApiKey?: string });
-  constructor(chainId: EvmChainId, options?: { oneInchApiKey?: string });
+  constructor(config: ChainConfig, options?: EvmAdapterOptions);
+  constructor(chainId: EvmChainId, options?: EvmAdapterOptions);
   constructor(
     configOrChainId: ChainConfig | EvmChainId,
-    options?: { oneInchApiKey?: string }
+    options?: EvmAdapterOptions
   ) {
     if (typeof configOrChainId === 'string') {
       // ChainId passed
@@ -146,18 +175,29 @@ export class EvmChainAdapter implements EvmAdapter {
     }
 
     this.oneInchApiKey = options?.oneInchApiKey;
+    this.tokenIndexer = options?.tokenIndexer;
+    this.priceSource = options?.priceSource;
 
     const evmChainId = this.chainId as EvmChainId;
     const viemChain = VIEM_CHAINS[evmChainId] || createCustomChain(evmChainId);
 
-    this.client = createPublicClient({
-      chain: viemChain,
-      transport: http(this.config.rpcUrls[0]),
+    this.rpcPool = new RpcEndpointPool({
+      urls: this.config.rpcUrls.length ? this.config.rpcUrls : [...viemChain.rpcUrls.default.http],
+      createClient: (url) => {
+        const client = createPublicClient({ chain: viemChain, transport: http(url) });
+        return { client, multicall: new MulticallClient(client) };
+      },
+      getBlockNumber: ({ client }) => client.getBlockNumber(),
+    });
+
+    // Reads go through whichever RPC endpoint is currently healthy
+    this.poolPrices = new PoolPriceReader(evmChainId, {
+      readMany: (calls) => this.read(({ multicall }) => multicall.readMany(calls)),
     });
   }
 
   async initialize(): Promise<void> {
-    await this.ensureConnection();
+    await this.rpcPool.probe();
   }
 
   async shutdown(): Promise<void> {
@@ -165,26 +205,8 @@ export class EvmChainAdapter implements EvmAdapter {
   }
 
   async healthCheck(): Promise<ChainStatus> {
-    const start = Date.now();
-    try {
-      const blockNumber = await this.client.getBlockNumber();
-      return {
-        chainId: this.chainId,
-        isHealthy: true,
-        blockNumber,
-        latency: Date.now() - start,
-        lastUpdated: new Date(),
-      };
-    } catch {
-      await this.failoverRpc();
-      return {
-        chainId: this.chainId,
-        isHealthy: false,
-        blockNumber: 0n,
-        latency: Date.now() - start,
-        lastUpdated: new Date(),
-      };
-    }
+    await this.rpcPool.probe();
+    return this.rpcPool.getChainStatus(this.chainId);
   }
 
   async getToken(address: string): Promise<Token | null> {
@@ -195,34 +217,8 @@ export class EvmChainAdapter implements EvmAdapter {
 
     try {
       const normalizedAddress = getAddress(address) as `0x${string}`;
-
-      const [name, symbol, decimals] = await Promise.all([
-        this.client.readContract({
-          address: normalizedAddress,
-          abi: erc20Abi,
-          functionName: 'name',
-        }),
-        this.client.readContract({
-          address: normalizedAddress,
-          abi: erc20Abi,
-          functionName: 'symbol',
-        }),
-        this.client.readContract({
-          address: normalizedAddress,
-          abi: erc20Abi,
-          functionName: 'decimals',
-        }),
-      ]);
-
-      return {
-        address: normalizedAddress,
-        chainId: this.chainId,
-        symbol: symbol as string,
-        name: name as string,
-        decimals: decimals as number,
-        isNative: false,
-        isVerified: false,
-      };
+      const tokens = await this.getTokens([normalizedAddress]);
+      return tokens.get(normalizedAddress) ?? null;
     } catch {
       return null;
     }
@@ -235,7 +231,9 @@ export class EvmChainAdapter implements EvmAdapter {
     const normalizedWallet = getAddress(walletAddress) as `0x${string}`;
 
     if (this.isNativeToken(tokenAddress)) {
-      const balance = await this.client.getBalance({ address: normalizedWallet });
+      const balance = await this.read(({ client }) =>
+        client.getBalance({ address: normalizedWallet })
+      );
       const token = this.getNativeToken();
       return {
         token,
@@ -245,35 +243,67 @@ export class EvmChainAdapter implements EvmAdapter {
     }
 
     const normalizedToken = getAddress(tokenAddress) as `0x${string}`;
-    const token = await this.getToken(tokenAddress);
+
+    // Metadata and balance reads share one multicall batch
+    const [token, balance] = await Promise.all([
+      this.getToken(tokenAddress),
+      this.multicall.read<bigint>({
+        address: normalizedToken,
+        abi: erc20Abi,
+        functionName: 'balanceOf',
+        args: [normalizedWallet],
+      }),
+    ]);
 
     if (!token) {
       throw new Error(`Token not found: ${tokenAddress}`);
     }
 
-    const balance = await this.client.readContract({
-      address: normalizedToken,
-      abi: erc20Abi,
-      functionName: 'balanceOf',
-      args: [normalizedWallet],
-    });
-
     return {
       token,
-      balance: balance as bigint,
-      balanceFormatted: this.formatUnits(balance as bigint, token.decimals),
+      balance,
+      balanceFormatted: this.formatUnits(balance, token.decimals),
     };
   }
 
   async getTokenBalances(walletAddress: string): Promise<TokenBalance[]> {
-    // Get native balance
-    const nativeBalance = await this.getTokenBalance(walletAddress, 'native');
-
-    // For ERC20s, would need to either:
-    // 1. Use an indexer API (Alchemy, Moralis, etc.)
-    // 2. Have a list of known tokens to check
-    // For now, just return native
-    return [nativeBalance];
+    const normalizedWallet = getAddress(walletAddress) as `0x${string}`;
+    const candidates = await this.getCandidateTokens(normalizedWallet);
+
+    const [nativeBalance, results] = await Promise.all([
+      this.getTokenBalance(normalizedWallet, 'native'),
+      this.read(({ multicall }) =>
+        multicall.readMany<bigint>(
+          candidates.map((address) => ({
+            address: address as `0x${string}`,
+            abi: erc20Abi,
+            functionName: 'balanceOf',
+            args: [normalizedWallet],
+          }))
+        )
+      ),
+    ]);
+
+    // Only resolve metadata for tokens the wallet actually holds
+    const held = candidates
+      .map((address, i) => ({ address, result: results[i] }))
+      .filter(({ result }) => result?.status === 'success' && result.result > 0n)
+      .map(({ address, result }) => ({ address, balance: result!.result }));
+
+    const tokens = await this.getTokens(held.map(({ address }) => address));
+
+    const balances: TokenBalance[] = [nativeBalance];
+    for (const { address, balance } of held) {
+      const token = tokens.get(address);
+      if (!token) continue;
+      balances.push({
+        token,
+        balance,
+        balanceFormatted: this.formatUnits(balance, token.decimals),
+      });
+    }
+
+    return balances;
   }
 
   async getTokenPrice(tokenAddress: string): Promise<TokenPrice> {
@@ -282,10 +312,11 @@ export class EvmChainAdapter implements EvmAdapter {
       throw new Error(`Token not found: ${tokenAddress}`);
     }
 
-    // In production, would fetch from DexScreener, CoinGecko, etc.
+    // Priced from the chain's own DEX pools; 0 when no pool is found
+    const prices = await this.poolPrices.getPrices([tokenAddress]);
     return {
       token,
-      priceUsd: 0,
+      priceUsd: prices.get(tokenAddress.toLowerCase())?.priceUsd ?? 0,
       source: 'dex',
       updatedAt: new Date(),
     };
@@ -299,31 +330,56 @@ export class EvmChainAdapter implements EvmAdapter {
       throw new Error('Invalid token addresses');
     }
 
-    // Get quote from aggregators
-    const aggregatorQuote = await getBestQuote(request, {
+    const gasPrice = await this.getGasPrice();
+    const prices = await this.getGasPricing(tokenOut);
+
+    // Rank every source by output net of gas, valued at current prices
+    const ranked = await getRankedQuotes(request, {
       oneInchApiKey: this.oneInchApiKey,
+      gasCostInTokenOut:
+        prices.nativePriceUsd && prices.tokenOutPriceUsd
+          ? createGasCostConverter({
+              gasPrice,
+              nativeDecimals: this.config.nativeCurrency.decimals,
+              nativePriceUsd: prices.nativePriceUsd,
+              tokenOutDecimals: tokenOut.decimals,
+              tokenOutPriceUsd: prices.tokenOutPriceUsd,
+            })
+          : undefined,
     });
 
+    const aggregatorQuote = ranked[0]?.quote;
     if (!aggregatorQuote) {
       throw new Error('No quotes available from aggregators');
     }
 
-    const slippageMultiplier = 1 - request.slippage / 100;
-    const amountOutMin = BigInt(
-      Math.floor(Number(aggregatorQuote.amountOut) * slippageMultiplier)
-    );
+    const amountOutMin = applySlippage(aggregatorQuote.amountOut, request.slippage);
 
-    const gasPrice = await this.getGasPrice();
     const networkFee = aggregatorQuote.estimatedGas * gasPrice;
+    const toUsd = (wei: bigint) =>
+      prices.nativePriceUsd !== undefined
+        ? Number(viemFormatUnits(wei, this.config.nativeCurrency.decimals)) * prices.nativePriceUsd
+        : undefined;
+    const networkFeeUsd = toUsd(networkFee) ?? 0;
 
     const fee: FeeBreakdown = {
-      totalFeeUsd: 0,
+      totalFeeUsd: networkFeeUsd,
       protocolFee: 0n,
       protocolFeeUsd: 0,
       networkFee,
-      networkFeeUsd: 0,
+      networkFeeUsd,
     };
 
+    const ranking: QuoteCandidate[] = ranked.map(({ quote, gasCost, netAmountOut }) => ({
+      dexAggregator: quote.aggregator,
+      source: quote.source,
+      amountOut: quote.amountOut,
+      estimatedGas: quote.estimatedGas,
+      gasCost,
+      gasCostUsd: toUsd(quote.estimatedGas * gasPrice),
+      netAmountOut,
+    }));
+
     return {
       id: this.generateQuoteId(),
       chainId: this.chainId,
@@ -339,36 +395,46 @@ export class EvmChainAdapter implements EvmAdapter {
       fee,
       expiresAt: new Date(Date.now() + 60000),
       dexAggregator: aggregatorQuote.aggregator,
+      ranking,
+      source: aggregatorQuote.source,
+      sourceQuote: aggregatorQuote,
     };
   }
 
-  async buildSwapTransaction(quote: SwapQuote): Promise<UnsignedTransaction> {
-    // Re-fetch quote to get fresh tx data
+  async buildSwapTransaction(quote: SwapQuote, recipient?: string): Promise<UnsignedTransaction> {
+    if (!recipient || !isAddress(recipient, { strict: false })) {
+      throw new Error('A recipient address is required to build a swap');
+    }
+
+    const sourceQuote = quote.sourceQuote as AggregatorQuote | undefined;
+    if (!sourceQuote) {
+      throw new Error(`Quote ${quote.id} has no source quote to build from`);
+    }
+
     const request: SwapRequest = {
       chainId: this.chainId,
       tokenIn: quote.tokenIn.address,
       tokenOut: quote.tokenOut.address,
       amountIn: quote.amountIn,
-      slippage: quote.amountOut > 0n
-        ? Number((quote.amountOut - quote.amountOutMin) * 10000n / quote.amountOut) / 100
-        : 0.5,
-      recipient: '', // Would need to pass this from context
+      slippage: quote.amountOut > 0n ? shortfallPercent(quote.amountOut, quote.amountOutMin) : 0.5,
+      recipient,
     };
 
-    const aggregatorQuote = await getBestQuote(request, {
+    // Build through the source the user accepted, not whichever ranks best now
+    const tx = await buildQuoteTransaction(sourceQuote, request, {
       oneInchApiKey: this.oneInchApiKey,
+      amountOutMin: quote.amountOutMin,
     });
-
-    if (!aggregatorQuote || !aggregatorQuote.txTo) {
+    if (!tx.to) {
       throw new Error('Failed to build swap transaction');
     }
 
     return {
       chainId: this.chainId,
-      to: aggregatorQuote.txTo,
-      data: aggregatorQuote.txData,
-      value: aggregatorQuote.txValue,
-      gasLimit: aggregatorQuote.estimatedGas,
+      to: tx.to,
+      data: tx.data,
+      value: tx.value,
+      gasLimit: quote.estimatedGas,
       gasPrice: quote.gasPrice,
     };
   }
@@ -382,24 +448,50 @@ export class EvmChainAdapter implements EvmAdapter {
 
   async waitForConfirmation(
     txHash: string,
-    confirmations = 1
+    confirmations = 1,
+    options: ConfirmationOptions = {}
   ): Promise<SwapTransaction> {
-    const receipt = await this.client.waitForTransactionReceipt({
-      hash: txHash as `0x${string}`,
-      confirmations,
-    });
+    const hash = txHash as `0x${string}`;
+    const receipt = await this.client.waitForTransactionReceipt({ hash, confirmations });
+    const transaction = await this.read(({ client }) => client.getTransaction({ hash }));
 
     const status = receipt.status === 'success' ? 'confirmed' : 'failed';
 
+    // Reverted transactions move no tokens, so there is nothing to decode
+    const flows = summarizeSwapFlows(
+      status === 'confirmed'
+        ? decodeTokenFlows({
+            logs: receipt.logs,
+            wallets: [transaction.from, options.recipient],
+            wrappedNative: WRAPPED_NATIVE_TOKENS[this.chainId as EvmChainId],
+            value: transaction.value,
+          })
+        : new Map(),
+      { tokenIn: options.quote?.tokenIn, tokenOut: options.quote?.tokenOut }
+    );
+
+    const [tokenIn, tokenOut] = await Promise.all([
+      this.resolveSettledToken(flows.tokenIn),
+      this.resolveSettledToken(flows.tokenOut),
+    ]);
+
+    const quote = options.quote;
+    const settled = status === 'confirmed' && flows.amountOut > 0n;
+
     return {
       id: txHash,
       quoteId: '',
       userId: '',
       chainId: this.chainId,
-      tokenIn: this.getNativeToken(),
-      tokenOut: this.getNativeToken(),
-      amountIn: 0n,
-      amountOut: 0n,
+      tokenIn,
+      tokenOut,
+      amountIn: flows.amountIn,
+      amountOut: flows.amountOut,
+      amountOutMin: quote?.amountOutMin,
+      slippage: quote && settled
+        ? calculateRealisedSlippage(quote.amountOut, flows.amountOut)
+        : undefined,
+      belowAmountOutMin: quote && settled ? flows.amountOut < quote.amountOutMin : undefined,
       txHash,
       status,
       fee: {
@@ -431,7 +523,7 @@ export class EvmChainAdapter implements EvmAdapter {
 
   // EVM-specific methods
   async getGasPrice(): Promise<bigint> {
-    return await this.client.getGasPrice();
+    return await this.read(({ client }) => client.getGasPrice());
   }
 
   async estimateGas(tx: UnsignedTransaction): Promise<bigint> {
@@ -472,6 +564,45 @@ export class EvmChainAdapter implements EvmAdapter {
   }
 
   // Private helpers
+  private async resolveSettledToken(address: string | null): Promise<Token> {
+    if (!address || this.isNativeToken(address)) {
+      return this.getNativeToken();
+    }
+    return (await this.getToken(address)) ?? this.getNativeToken();
+  }
+
+  /**
+   * USD prices of the native token and the output token. Either is
+   * undefined when there is no price source or it has no price.
+   */
+  private async getGasPricing(
+    tokenOut: Token
+  ): Promise<{ nativePriceUsd?: number; tokenOutPriceUsd?: number }> {
+    if (!this.priceSource) return {};
+
+    const wrapped = WRAPPED_NATIVE_TOKENS[this.chainId as EvmChainId];
+    const isNativeOut =
+      tokenOut.isNative || tokenOut.address.toLowerCase() === wrapped?.toLowerCase();
+
+    try {
+      const prices = await this.priceSource.getPrices([
+        { address: NATIVE_TOKEN_ADDRESS, chainId: this.chainId },
+        ...(isNativeOut ? [] : [{ address: tokenOut.address, chainId: this.chainId }]),
+      ]);
+      const priceOf = (address: string) =>
+        prices.get(`${this.chainId}:${address.toLowerCase()}`)?.priceUsd;
+
+      const nativePriceUsd = priceOf(NATIVE_TOKEN_ADDRESS);
+      return {
+        nativePriceUsd,
+        tokenOutPriceUsd: isNativeOut ? nativePriceUsd : priceOf(tokenOut.address),
+      };
+    } catch (error) {
+      console.warn(`[${this.chainId}] Gas pricing failed:`, error);
+      return {};
+    }
+  }
+
   private isNativeToken(address: string): boolean {
     return (
       address === 'native' ||
@@ -480,6 +611,74 @@ export class EvmChainAdapter implements EvmAdapter {
     );
   }
 
+  /**
+   * Known tokens for this chain plus whatever the indexer reports
+   */
+  private async getCandidateTokens(walletAddress: string): Promise<string[]> {
+    const known = getKnownTokenAddresses(this.chainId as EvmChainId);
+    if (!this.tokenIndexer) return known;
+
+    try {
+      const indexed = await this.tokenIndexer.getTokenAddresses(
+        this.chainId as EvmChainId,
+        walletAddress
+      );
+      return normalizeTokenAddresses([...known, ...indexed]);
+    } catch (error) {
+      console.warn(`[${this.chainId}] Token indexer ${this.tokenIndexer.name} failed:`, error);
+      return known;
+    }
+  }
+
+  /**
+   * Resolve ERC-20 metadata for many tokens, batching uncached lookups
+   */
+  private async getTokens(addresses: string[]): Promise<Map<string, Token>> {
+    const tokens = new Map<string, Token>();
+    const missing: string[] = [];
+
+    for (const address of addresses) {
+      const cached = this.tokenCache.get(address.toLowerCase());
+      if (cached) {
+        tokens.set(address, cached);
+      } else {
+        missing.push(address);
+      }
+    }
+
+    const fields = ['name', 'symbol', 'decimals'] as const;
+    const results = await this.read(({ multicall }) =>
+      multicall.readMany(
+        missing.flatMap((address) =>
+          fields.map((functionName) => ({
+            address: address as `0x${string}`,
+            abi: erc20Abi,
+            functionName,
+          }))
+        )
+      )
+    );
+
+    missing.forEach((address, i) => {
+      const [name, symbol, decimals] = results.slice(i * fields.length, (i + 1) * fields.length);
+      if (symbol?.status !== 'success' || decimals?.status !== 'success') return;
+
+      const token: Token = {
+        address,
+        chainId: this.chainId,
+        symbol: symbol.result as string,
+        name: name?.status === 'success' ? (name.result as string) : (symbol.result as string),
+        decimals: Number(decimals.result),
+        isNative: false,
+        isVerified: false,
+      };
+      this.tokenCache.set(address.toLowerCase(), token);
+      tokens.set(address, token);
+    });
+
+    return tokens;
+  }
+
   private getNativeToken(): Token {
     return {
       address: NATIVE_TOKEN_ADDRESS,
@@ -492,26 +691,21 @@ export class EvmChainAdapter implements EvmAdapter {
     };
   }
 
-  private async ensureConnection(): Promise<void> {
-    try {
-      await this.client.getBlockNumber();
-    } catch {
-      await this.failoverRpc();
-    }
+  private get client(): PublicClient {
+    return this.rpcPool.client.client;
   }
 
-  private async failoverRpc(): Promise<void> {
-    if (this.config.rpcUrls.length <= 1) return;
-
-    this.currentRpcIndex = (this.currentRpcIndex + 1) % this.config.rpcUrls.length;
-
-    const evmChainId = this.chainId as EvmChainId;
-    const viemChain = VIEM_CHAINS[evmChainId] || createCustomChain(evmChainId);
+  private get multicall(): MulticallClient {
+    return this.rpcPool.client.multicall;
+  }
 
-    this.client = createPublicClient({
-      chain: viemChain,
-      transport: http(this.config.rpcUrls[this.currentRpcIndex]),
-    });
+  /**
+   * Read through the RPC pool so failures move to the next endpoint
+   * and feed its health score. Batched reads only report per-call
+   * reverts, so they are safe to score.
+   */
+  private read<T>(request: (rpc: EvmRpcClient) => Promise<T>): Promise<T> {
+    return this.rpcPool.execute(request);
   }
 
   private generateQuoteId(): string {
@@ -526,6 +720,7 @@ export {
   NATIVE_TOKEN_ADDRESS,
   ZERO_ADDRESS,
   WRAPPED_NATIVE_TOKENS,
+  MULTICALL3_ADDRESS,
   isEvmChain,
   getEvmChainId,
   getEvmChainConfig,
@@ -535,12 +730,75 @@ export {
 // Export aggregator utilities
 export {
   getBestQuote,
+  getRankedQuotes,
+  rankQuotes,
+  createGasCostConverter,
+  buildQuoteTransaction,
   get1inchQuote,
   getParaSwapQuote,
   getSupportedAggregators,
   type AggregatorQuote,
+  type BestQuoteOptions,
+  type BuildQuoteOptions,
+  type RankedQuote,
+  type GasPricing,
+  type TokenPriceSource,
 } from './aggregators.js';
 
+// Export DEX source registry
+export {
+  registerDexSource,
+  unregisterDexSource,
+  getDexSource,
+  getDexSources,
+  hasSwapCall,
+  type DexSource,
+  type DexSourceQuote,
+  type DexSourceOptions,
+  type SwapCallData,
+} from './dex-sources.js';
+
+// Export multicall batching client
+export {
+  MulticallClient,
+  DEFAULT_MULTICALL_CHUNK_SIZE,
+  type ContractCall,
+  type CallResult,
+  type MulticallClientOptions,
+} from './multicall.js';
+
+// Export on-chain pool pricing
+export {
+  PoolPriceReader,
+  POOL_FACTORIES,
+  V3_FEE_TIERS,
+  TWAP_WINDOW_SECONDS,
+  getStablecoins,
+  type PoolFactory,
+  type PoolKind,
+  type PoolPrice,
+} from './pool-prices.js';
+
+// Export token discovery utilities
+export {
+  KNOWN_TOKENS,
+  getKnownTokenAddresses,
+  normalizeTokenAddresses,
+  type TokenIndexer,
+} from './tokens.js';
+
+// Export receipt decoding utilities
+export {
+  decodeTokenFlows,
+  summarizeSwapFlows,
+  calculateRealisedSlippage,
+  TRANSFER_TOPIC,
+  DEPOSIT_TOPIC,
+  WITHDRAWAL_TOPIC,
+  type TokenFlow,
+  type SwapFlows,
+} from './receipts.js';
+
 // Export Kaia utilities
 export {
   KAIA_CONTRACTS,
@@ -1076,90 +1334,6 @@ export {
   type CronosQuote,
 } from './cronos.js';
 
-// Export Celo utilities
-export {
-  CELO_CHAIN_ID,
-  CELO_ROUTERS,
-  CELO_FACTORIES,
-  CELO_TOKENS,
-  UBESWAP_V2_ROUTER_ABI,
-  UBESWAP_V3_ROUTER_ABI,
-  getUbeswapV3Quote,
-  getUbeswapV2Quote,
-  getCeloStableQuote,
-  getCeloBestQuote,
-  buildCeloSwapTransaction,
-  getCeloDexes,
-  isCeloChain,
-  getCeloChainId,
-  getCeloPopularPairs,
-  type CeloQuote,
-} from './celo.js';
-
-// Export Cyber utilities
-export {
-  CYBER_CHAIN_ID,
-  CYBER_ROUTERS,
-  CYBER_FACTORIES,
-  CYBER_TOKENS,
-  CYBERSWAP_ROUTER_ABI,
-  CYBER_VELODROME_ROUTER_ABI,
-  CYBER_FEE_TIERS,
-  getCyberSwapQuote,
-  getCyberVelodromeQuote,
-  getCyberBestQuote,
-  buildCyberSwapTransaction,
-  getCyberDexes,
-  isCyberChain,
-  getCyberChainId,
-  getCyberPopularPairs,
-  getCyberFeeTiers,
-  type CyberQuote,
-} from './cyber.js';
-
-// Export Moonriver utilities
-export {
-  MOONRIVER_CHAIN_ID,
-  MOONRIVER_ROUTERS,
-  MOONRIVER_FACTORIES,
-  MOONRIVER_TOKENS,
-  SOLARBEAM_ROUTER_ABI,
-  HUCKLEBERRY_ROUTER_ABI,
-  getSolarbeamQuote,
-  getHuckleberryQuote,
-  getZenlinkMoonriverQuote,
-  getMoonriverBestQuote,
-  buildMoonriverSwapTransaction,
-  getMoonriverDexes,
-  isMoonriverChain,
-  getMoonriverChainId,
-  getMoonriverPopularPairs,
-  type MoonriverQuote,
-} from './moonriver.js';
-
-// Export Moonbeam utilities
-export {
-  MOONBEAM_CHAIN_ID,
-  MOONBEAM_ROUTERS,
-  MOONBEAM_FACTORIES,
-  MOONBEAM_TOKENS,
-  STELLASWAP_V2_ROUTER_ABI,
-  STELLASWAP_V3_ROUTER_ABI,
-  BEAMSWAP_ROUTER_ABI,
-  getStellaSwapV2Quote,
-  getStellaSwapV3Quote,
-  getBeamSwapQuote,
-  getMoonbeamBestQuote,
-  buildMoonbeamSwapTransaction,
-  getMoonbeamDexes,
-  isMoonbeamChain,
-  getMoonbeamChainId,
-  isNativeGLMR,
-  getWrappedGLMR,
-  getMoonbeamPopularPairs,
-  type MoonbeamQuote,
-} from './moonbeam.js';
-
 // Export Lisk utilities
 export {
   LISK_CHAIN_ID,
@@ -1179,24 +1353,6 @@ export {
   type LiskQuote,
 } from './lisk.js';
 
-// Export Redstone utilities
-export {
-  REDSTONE_CHAIN_ID,
-  REDSTONE_ROUTERS,
-  REDSTONE_FACTORIES,
-  REDSTONE_TOKENS,
-  GARNETSWAP_ROUTER_ABI,
-  getGarnetSwapQuote,
-  getMudSwapQuote,
-  getRedstoneBestQuote,
-  buildRedstoneSwapTransaction,
-  getRedstoneDexes,
-  isRedstoneChain,
-  getRedstoneChainId,
-  getRedstonePopularPairs,
-  type RedstoneQuote,
-} from './redstone.js';
-
 // Export Derive utilities
 export {
   DERIVE_CHAIN_ID,
@@ -1219,14 +1375,14 @@ export {
 // Factory function to create adapter for a chain
 export function createEvmAdapter(
   chainId: EvmChainId,
-  options?: { oneInchApiKey?: string }
+  options?: EvmAdapterOptions
 ): EvmChainAdapter {
   return new EvmChainAdapter(chainId, options);
 }
 
 // Create adapters for all enabled EVM chains
 export function createAllEvmAdapters(
-  options?: { oneInchApiKey?: string }
+  options?: EvmAdapterOptions
 ): Map<EvmChainId, EvmChainAdapter> {
   const adapters = new Map<EvmChainId, EvmChainAdapter>();
 
@@ -9,7 +9,9 @@
  */
 
 import type { SwapRequest, SwapRoute } from '@chainhopper/types';
+import { percentToBps } from '@chainhopper/types';
 import { EVM_CHAIN_IDS } from './chains.js';
+import { hasSwapCall, registerDexSource } from './dex-sources.js';
 
 // Chain constant
 export const INK_CHAIN_ID = 57073;
@@ -195,7 +197,7 @@ export async function getVelodromeQuote(
       tokenIn,
       tokenOut,
       amount: request.amountIn.toString(),
-      slippage: (request.slippage * 100).toString(),
+      slippage: percentToBps(request.slippage).toString(),
       stable: isStablePair.toString(),
     });
 
@@ -203,9 +205,7 @@ export async function getVelodromeQuote(
       headers: { 'Accept': 'application/json' },
     });
 
-    if (!response.ok) {
-      return buildVelodromeFallbackQuote(request, isStablePair);
-    }
+    if (!response.ok) return null;
 
     const data = await response.json() as {
       amountOut?: string;
@@ -228,7 +228,7 @@ export async function getVelodromeQuote(
       stable: isStablePair,
     };
   } catch {
-    return buildVelodromeFallbackQuote(request, isStableSwap(request.tokenIn, request.tokenOut));
+    return null;
   }
 }
 
@@ -249,7 +249,7 @@ export async function getNadoQuote(
       tokenIn,
       tokenOut,
       amountIn: request.amountIn.toString(),
-      slippage: (request.slippage * 100).toString(),
+      slippage: percentToBps(request.slippage).toString(),
       ...(request.recipient && { recipient: request.recipient }),
     });
 
@@ -257,9 +257,7 @@ export async function getNadoQuote(
       headers: { 'Accept': 'application/json' },
     });
 
-    if (!response.ok) {
-      return buildNadoFallbackQuote(request);
-    }
+    if (!response.ok) return null;
 
     const data = await response.json() as {
       amountOut?: string;
@@ -288,7 +286,7 @@ export async function getNadoQuote(
       path: data.path || [tokenIn, tokenOut],
     };
   } catch {
-    return buildNadoFallbackQuote(request);
+    return null;
   }
 }
 
@@ -305,7 +303,9 @@ export async function getInkBestQuote(
     getNadoQuote(request),
   ]);
 
-  const validQuotes = quotes.filter((q): q is InkQuote => q !== null && q.amountOut > 0n);
+  const validQuotes = quotes.filter(
+    (q): q is InkQuote => q !== null && q.amountOut > 0n && hasSwapCall(q)
+  );
 
   if (validQuotes.length === 0) return null;
 
@@ -424,80 +424,9 @@ function parseVelodromeRoute(
   }
 }
 
-function buildVelodromeFallbackQuote(request: SwapRequest, isStable: boolean): InkQuote | null {
-  try {
-    const isNativeIn = isNativeToken(request.tokenIn);
-    const tokenIn = isNativeIn ? INK_TOKENS.WETH : request.tokenIn;
-    const tokenOut = isNativeToken(request.tokenOut) ? INK_TOKENS.WETH : request.tokenOut;
-
-    // Build path through WETH if needed
-    const path = tokenIn === INK_TOKENS.WETH || tokenOut === INK_TOKENS.WETH
-      ? [tokenIn, tokenOut]
-      : [tokenIn, INK_TOKENS.WETH, tokenOut];
-
-    const minAmountOut = calculateEstimatedOutput(request.amountIn, request.slippage);
-
-    return {
-      aggregator: 'velodrome',
-      amountOut: minAmountOut,
-      estimatedGas: 200000n,
-      priceImpact: 0.5,
-      route: [{
-        dex: isStable ? 'Velodrome (Stable)' : 'Velodrome (Volatile)',
-        poolAddress: INK_ROUTERS.velodromeFactory,
-        tokenIn: request.tokenIn,
-        tokenOut: request.tokenOut,
-        percentage: 100,
-      }],
-      txData: '0x',
-      txTo: INK_ROUTERS.velodrome,
-      txValue: isNativeIn ? request.amountIn : 0n,
-      path,
-      stable: isStable,
-    };
-  } catch {
-    return null;
-  }
-}
-
-function buildNadoFallbackQuote(request: SwapRequest): InkQuote | null {
-  try {
-    const isNativeIn = isNativeToken(request.tokenIn);
-    const tokenIn = isNativeIn ? INK_TOKENS.WETH : request.tokenIn;
-    const tokenOut = isNativeToken(request.tokenOut) ? INK_TOKENS.WETH : request.tokenOut;
-
-    // Build path through WETH if needed
-    const path = tokenIn === INK_TOKENS.WETH || tokenOut === INK_TOKENS.WETH
-      ? [tokenIn, tokenOut]
-      : [tokenIn, INK_TOKENS.WETH, tokenOut];
-
-    const minAmountOut = calculateEstimatedOutput(request.amountIn, request.slippage);
-
-    return {
-      aggregator: 'nado',
-      amountOut: minAmountOut,
-      estimatedGas: 180000n,
-      priceImpact: 0.3,
-      route: [{
-        dex: 'Nado',
-        poolAddress: INK_ROUTERS.nado,
-        tokenIn: request.tokenIn,
-        tokenOut: request.tokenOut,
-        percentage: 100,
-      }],
-      txData: '0x',
-      txTo: INK_ROUTERS.nado,
-      txValue: isNativeIn ? request.amountIn : 0n,
-      path,
-    };
-  } catch {
-    return null;
-  }
-}
-
-function calculateEstimatedOutput(amountIn: bigint, slippage: number): bigint {
-  // Simplified estimation - assumes 1:1 ratio minus slippage
-  // In production, this would use actual price data from oracles
-  const slippageBps = BigInt(Math.floor(slippage * 10000));
-  return amountIn * (10000n - slippageBps) / 10000n;
-}
+registerDexSource({
+  name: 'ink',
+  chains: ['ink'],
+  getQuote: getInkBestQuote,
+  buildTransaction: (quote, request) => buildInkSwapTransaction(quote, request.recipient),
+});
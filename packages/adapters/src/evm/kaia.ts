@@ -6,7 +6,9 @@
  */
 
 import type { SwapRequest, SwapRoute, DexAggregator } from '@chainhopper/types';
+import { percentToBps } from '@chainhopper/types';
 import { EVM_CHAIN_IDS } from './chains.js';
+import { hasSwapCall, registerDexSource } from './dex-sources.js';
 
 // DragonSwap API endpoint
 const DRAGONSWAP_API = 'https://api.dragonswap.app/v1';
@@ -60,7 +62,7 @@ export async function getDragonSwapQuote(
       tokenIn: request.tokenIn,
       tokenOut: request.tokenOut,
       amount: request.amountIn.toString(),
-      slippage: (request.slippage * 100).toString(), // basis points
+      slippage: percentToBps(request.slippage).toString(), // basis points
     });
 
     const response = await fetch(`${DRAGONSWAP_API}/quote?${params}`);
@@ -80,70 +82,7 @@ export async function getDragonSwapQuote(
       };
     }
 
-    // Fallback: Build quote using on-chain data simulation
-    return buildDragonSwapQuote(request);
-  } catch {
-    // Fallback to simulated quote
-    return buildDragonSwapQuote(request);
-  }
-}
-
-/**
- * Build DragonSwap quote using router interface
- * This is a fallback when API is unavailable
- */
-async function buildDragonSwapQuote(
-  request: SwapRequest
-): Promise<KaiaQuote | null> {
-  try {
-    // Determine if we need to wrap native token
-    const isNativeIn = request.tokenIn === KAIA_TOKENS.KAIA;
-    const isNativeOut = request.tokenOut === KAIA_TOKENS.KAIA;
-
-    const tokenIn = isNativeIn ? KAIA_TOKENS.WKLAY : request.tokenIn;
-    const tokenOut = isNativeOut ? KAIA_TOKENS.WKLAY : request.tokenOut;
-
-    // Build path - try direct path first, then through WKLAY
-    const path = tokenIn === KAIA_TOKENS.WKLAY || tokenOut === KAIA_TOKENS.WKLAY
-      ? [tokenIn, tokenOut]
-      : [tokenIn, KAIA_TOKENS.WKLAY, tokenOut];
-
-    // Encode swap function call
-    const swapMethod = isNativeIn
-      ? 'swapExactETHForTokens'
-      : isNativeOut
-        ? 'swapExactTokensForETH'
-        : 'swapExactTokensForTokens';
-
-    const deadline = request.deadline || Math.floor(Date.now() / 1000) + 1200;
-    const minAmountOut = calculateMinAmountOut(request.amountIn, request.slippage);
-
-    // Build transaction data
-    const txData = encodeSwapCall(swapMethod, {
-      amountIn: request.amountIn,
-      amountOutMin: minAmountOut,
-      path,
-      to: request.recipient,
-      deadline,
-    });
-
-    return {
-      aggregator: 'dragonswap',
-      amountOut: minAmountOut, // Estimated - would need on-chain call for exact
-      estimatedGas: 250000n,
-      priceImpact: 0.5, // Default estimate
-      route: [{
-        dex: 'DragonSwap V2',
-        poolAddress: KAIA_CONTRACTS.dragonswapV2Factory,
-        tokenIn: request.tokenIn,
-        tokenOut: request.tokenOut,
-        percentage: 100,
-      }],
-      txData,
-      txTo: KAIA_CONTRACTS.dragonswapV2Router,
-      txValue: isNativeIn ? request.amountIn : 0n,
-      path,
-    };
+    return null;
   } catch {
     return null;
   }
@@ -209,7 +148,9 @@ export async function getKaiaBestQuote(
     getKlaySwapQuote(request),
   ]);
 
-  const validQuotes = quotes.filter((q): q is KaiaQuote => q !== null && q.amountOut > 0n);
+  const validQuotes = quotes.filter(
+    (q): q is KaiaQuote => q !== null && q.amountOut > 0n && hasSwapCall(q)
+  );
 
   if (validQuotes.length === 0) return null;
 
@@ -280,40 +221,15 @@ function parseDragonSwapRoute(
   }
 }
 
-function calculateMinAmountOut(amountIn: bigint, slippage: number): bigint {
-  // Simple estimation: assume 1:1 ratio minus slippage
-  // In production, this would use actual price data
-  const slippageBps = BigInt(Math.floor(slippage * 10000));
-  return amountIn * (10000n - slippageBps) / 10000n;
-}
-
-function encodeSwapCall(
-  method: string,
-  params: {
-    amountIn: bigint;
-    amountOutMin: bigint;
-    path: string[];
-    to: string;
-    deadline: number;
-  }
-): string {
-  // Uniswap V2 Router function signatures
-  const signatures: Record<string, string> = {
-    swapExactETHForTokens: '0x7ff36ab5',
-    swapExactTokensForETH: '0x18cbafe5',
-    swapExactTokensForTokens: '0x38ed1739',
-  };
-
-  const sig = signatures[method] || signatures['swapExactTokensForTokens']!;
-
-  // This is a simplified encoding - in production use ethers/viem for proper ABI encoding
-  // For now, return the function selector as a placeholder
-  return sig;
-}
-
 /**
  * Get Kaia chain ID
  */
 export function getKaiaChainId(): number {
   return EVM_CHAIN_IDS.kaia;
 }
+
+registerDexSource({
+  name: 'kaia',
+  chains: ['kaia'],
+  getQuote: getKaiaBestQuote,
+});
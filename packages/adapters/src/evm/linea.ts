@@ -13,6 +13,7 @@
 import type { SwapRequest, SwapRoute, DexAggregator } from '@chainhopper/types';
 import { EVM_CHAIN_IDS } from './chains.js';
 import type { AggregatorQuote } from './aggregators.js';
+import { hasSwapCall, registerDexSource } from './dex-sources.js';
 
 // Linea Chain ID
 export const LINEA_CHAIN_ID = 59144;
@@ -278,7 +279,9 @@ export async function getLineaBestQuote(
     getSyncSwapLineaQuote(request),
   ]);
 
-  const validQuotes = quotes.filter((q): q is LineaQuote => q !== null && q.amountOut > 0n);
+  const validQuotes = quotes.filter(
+    (q): q is LineaQuote => q !== null && q.amountOut > 0n && hasSwapCall(q)
+  );
 
   if (validQuotes.length === 0) return null;
 
@@ -335,3 +338,10 @@ export function getLineaPopularPairs(): Array<{ tokenIn: string; tokenOut: strin
     { tokenIn: LINEA_TOKENS.LYNX, tokenOut: LINEA_TOKENS.WETH, name: 'LYNX/WETH' },
   ];
 }
+
+registerDexSource({
+  name: 'linea',
+  chains: ['linea'],
+  getQuote: getLineaBestQuote,
+  buildTransaction: buildLineaSwapTransaction,
+});
@@ -11,6 +11,7 @@
 
 import type { SwapRequest, SwapRoute, DexAggregator } from '@chainhopper/types';
 import type { AggregatorQuote } from './aggregators.js';
+import { hasSwapCall, registerDexSource } from './dex-sources.js';
 
 // Lisk Chain ID
 export const LISK_CHAIN_ID = 1135;
@@ -286,7 +287,9 @@ export async function getLiskBestQuote(
     getOkuLiskQuote(request),
   ]);
 
-  const validQuotes = quotes.filter((q): q is LiskQuote => q !== null && q.amountOut > 0n);
+  const validQuotes = quotes.filter(
+    (q): q is LiskQuote => q !== null && q.amountOut > 0n && hasSwapCall(q)
+  );
 
   if (validQuotes.length === 0) return null;
 
@@ -342,3 +345,10 @@ export function getLiskPopularPairs(): Array<{ tokenIn: string; tokenOut: string
     { tokenIn: LISK_TOKENS.USDC, tokenOut: LISK_TOKENS.USDT, name: 'USDC/USDT' },
   ];
 }
+
+registerDexSource({
+  name: 'lisk',
+  chains: ['lisk'],
+  getQuote: getLiskBestQuote,
+  buildTransaction: buildLiskSwapTransaction,
+});
@@ -13,6 +13,7 @@
 import type { SwapRequest, SwapRoute, DexAggregator } from '@chainhopper/types';
 import { EVM_CHAIN_IDS } from './chains.js';
 import type { AggregatorQuote } from './aggregators.js';
+import { hasSwapCall, registerDexSource } from './dex-sources.js';
 
 // Manta Pacific Chain ID
 export const MANTA_CHAIN_ID = 169;
@@ -261,7 +262,9 @@ export async function getMantaBestQuote(
     getQuickSwapMantaQuote(request),
   ]);
 
-  const validQuotes = quotes.filter((q): q is MantaQuote => q !== null && q.amountOut > 0n);
+  const validQuotes = quotes.filter(
+    (q): q is MantaQuote => q !== null && q.amountOut > 0n && hasSwapCall(q)
+  );
 
   if (validQuotes.length === 0) return null;
 
@@ -318,3 +321,10 @@ export function getMantaPopularPairs(): Array<{ tokenIn: string; tokenOut: strin
     { tokenIn: MANTA_TOKENS.USDC, tokenOut: MANTA_TOKENS.USDT, name: 'USDC/USDT' },
   ];
 }
+
+registerDexSource({
+  name: 'manta',
+  chains: ['manta'],
+  getQuote: getMantaBestQuote,
+  buildTransaction: buildMantaSwapTransaction,
+});
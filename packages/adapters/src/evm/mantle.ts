@@ -12,6 +12,7 @@
 
 import type { SwapRequest, SwapRoute, DexAggregator } from '@chainhopper/types';
 import type { AggregatorQuote } from './aggregators.js';
+import { hasSwapCall, registerDexSource } from './dex-sources.js';
 
 // Mantle Chain ID
 export const MANTLE_CHAIN_ID = 5000;
@@ -323,7 +324,9 @@ export async function getMantleBestQuote(
     getFusionXQuote(request),
   ]);
 
-  const validQuotes = quotes.filter((q): q is MantleQuote => q !== null && q.amountOut > 0n);
+  const validQuotes = quotes.filter(
+    (q): q is MantleQuote => q !== null && q.amountOut > 0n && hasSwapCall(q)
+  );
 
   if (validQuotes.length === 0) return null;
 
@@ -381,3 +384,10 @@ export function getMantlePopularPairs(): Array<{ tokenIn: string; tokenOut: stri
     { tokenIn: MANTLE_TOKENS.MOE, tokenOut: MANTLE_TOKENS.WMNT, name: 'MOE/WMNT' },
   ];
 }
+
+registerDexSource({
+  name: 'mantle',
+  chains: ['mantle'],
+  getQuote: getMantleBestQuote,
+  buildTransaction: buildMantleSwapTransaction,
+});
@@ -12,6 +12,7 @@
 
 import type { SwapRequest, SwapRoute, DexAggregator } from '@chainhopper/types';
 import type { AggregatorQuote } from './aggregators.js';
+import { hasSwapCall, registerDexSource } from './dex-sources.js';
 
 // Metis Chain ID
 export const METIS_CHAIN_ID = 1088;
@@ -265,7 +266,9 @@ export async function getMetisBestQuote(
     getTethysQuote(request),
   ]);
 
-  const validQuotes = quotes.filter((q): q is MetisQuote => q !== null && q.amountOut > 0n);
+  const validQuotes = quotes.filter(
+    (q): q is MetisQuote => q !== null && q.amountOut > 0n && hasSwapCall(q)
+  );
 
   if (validQuotes.length === 0) return null;
 
@@ -322,3 +325,10 @@ export function getMetisPopularPairs(): Array<{ tokenIn: string; tokenOut: strin
     { tokenIn: METIS_TOKENS.NETT, tokenOut: METIS_TOKENS.WMETIS, name: 'NETT/WMETIS' },
   ];
 }
+
+registerDexSource({
+  name: 'metis',
+  chains: ['metis'],
+  getQuote: getMetisBestQuote,
+  buildTransaction: buildMetisSwapTransaction,
+});
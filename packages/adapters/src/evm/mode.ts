@@ -5,11 +5,15 @@
  * Primary DEX: SwapMode (V2 AMM + V3 Concentrated Liquidity)
  * Also supports: Kim Exchange (Algebra-based)
  *
+ * Not registered as a DEX source: these quotes are estimated from the
+ * input amount and their calldata is only a function selector.
+ *
  * Chain ID: 34443
  * Native Token: ETH
  */
 
 import type { SwapRequest, SwapRoute } from '@chainhopper/types';
+import { applySlippage } from '@chainhopper/types';
 import { EVM_CHAIN_IDS } from './chains.js';
 
 // SwapMode API endpoint
@@ -79,7 +83,7 @@ export async function getSwapModeV2Quote(
     const path = buildPath(tokenIn, tokenOut);
 
     // Calculate min amount out with slippage
-    const minAmountOut = calculateEstimatedOutput(request.amountIn, request.slippage);
+    const minAmountOut = applySlippage(request.amountIn, request.slippage);
 
     // Determine swap method
     const swapMethod = isNativeIn
@@ -125,7 +129,7 @@ export async function getSwapModeV3Quote(
     const path = buildPath(tokenIn, tokenOut);
     const poolFees = [3000]; // Default 0.3% fee tier
 
-    const estimatedOutput = calculateEstimatedOutput(request.amountIn, request.slippage);
+    const estimatedOutput = applySlippage(request.amountIn, request.slippage);
 
     return {
       aggregator: 'swapmode-v3',
@@ -163,7 +167,7 @@ export async function getKimQuote(
     const tokenOut = isNativeToken(request.tokenOut) ? MODE_TOKENS.WETH : request.tokenOut;
 
     const path = buildPath(tokenIn, tokenOut);
-    const estimatedOutput = calculateEstimatedOutput(request.amountIn, request.slippage);
+    const estimatedOutput = applySlippage(request.amountIn, request.slippage);
 
     return {
       aggregator: 'kim',
@@ -284,11 +288,6 @@ function buildPath(tokenIn: string, tokenOut: string): string[] {
   return [tokenIn, MODE_TOKENS.WETH, tokenOut];
 }
 
-function calculateEstimatedOutput(amountIn: bigint, slippage: number): bigint {
-  const slippageBps = BigInt(Math.floor(slippage * 10000));
-  return amountIn * (10000n - slippageBps) / 10000n;
-}
-
 function encodeV2Swap(
   method: string,
   request: SwapRequest,
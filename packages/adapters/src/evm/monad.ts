@@ -10,7 +10,9 @@
  */
 
 import type { SwapRequest, SwapRoute } from '@chainhopper/types';
+import { applySlippage, percentToBps } from '@chainhopper/types';
 import { EVM_CHAIN_IDS } from './chains.js';
+import { hasSwapCall, registerDexSource } from './dex-sources.js';
 
 // Kuru Exchange API endpoint
 const KURU_API = 'https://api.kuru.io/v1';
@@ -65,7 +67,7 @@ export async function getKuruFlowQuote(
       fromToken: request.tokenIn,
       toToken: request.tokenOut,
       amount: request.amountIn.toString(),
-      slippage: (request.slippage * 100).toString(),
+      slippage: percentToBps(request.slippage).toString(),
       ...(request.recipient && { recipient: request.recipient }),
     });
 
@@ -75,9 +77,7 @@ export async function getKuruFlowQuote(
       },
     });
 
-    if (!response.ok) {
-      return buildKuruFallbackQuote(request);
-    }
+    if (!response.ok) return null;
 
     const data = await response.json() as {
       amountOut?: string;
@@ -100,7 +100,7 @@ export async function getKuruFlowQuote(
       path: data.path || [request.tokenIn, request.tokenOut],
     };
   } catch {
-    return buildKuruFallbackQuote(request);
+    return null;
   }
 }
 
@@ -162,6 +162,9 @@ export async function getKuruOrderbookQuote(
 
 /**
  * Get quote from Uniswap V3 on Monad
+ *
+ * Estimated from the input amount rather than read from the quoter, so it
+ * is left out of getMonadBestQuote.
  */
 export async function getMonadUniswapQuote(
   request: SwapRequest
@@ -180,7 +183,7 @@ export async function getMonadUniswapQuote(
       : [tokenIn, MONAD_TOKENS.WMON, tokenOut];
 
     // Estimate output (simplified - would use quoter contract in production)
-    const estimatedOutput = calculateEstimatedOutput(request.amountIn, request.slippage);
+    const estimatedOutput = applySlippage(request.amountIn, request.slippage);
 
     return {
       aggregator: 'uniswap-v3',
@@ -205,7 +208,7 @@ export async function getMonadUniswapQuote(
 }
 
 /**
- * Get best quote from all Monad DEXes
+ * Get best quote from the Kuru APIs, which return executable calldata
  */
 export async function getMonadBestQuote(
   request: SwapRequest
@@ -215,10 +218,11 @@ export async function getMonadBestQuote(
   const quotes = await Promise.all([
     getKuruFlowQuote(request),
     getKuruOrderbookQuote(request),
-    getMonadUniswapQuote(request),
   ]);
 
-  const validQuotes = quotes.filter((q): q is MonadQuote => q !== null && q.amountOut > 0n);
+  const validQuotes = quotes.filter(
+    (q): q is MonadQuote => q !== null && q.amountOut > 0n && hasSwapCall(q)
+  );
 
   if (validQuotes.length === 0) return null;
 
@@ -324,51 +328,16 @@ function parseKuruRoute(
   }
 }
 
-function buildKuruFallbackQuote(request: SwapRequest): MonadQuote | null {
-  try {
-    const isNativeIn = isNativeToken(request.tokenIn);
-    const tokenIn = isNativeIn ? MONAD_TOKENS.WMON : request.tokenIn;
-    const tokenOut = isNativeToken(request.tokenOut) ? MONAD_TOKENS.WMON : request.tokenOut;
-
-    // Build path
-    const path = tokenIn === MONAD_TOKENS.WMON || tokenOut === MONAD_TOKENS.WMON
-      ? [tokenIn, tokenOut]
-      : [tokenIn, MONAD_TOKENS.WMON, tokenOut];
-
-    const minAmountOut = calculateEstimatedOutput(request.amountIn, request.slippage);
-
-    return {
-      aggregator: 'kuru-flow',
-      amountOut: minAmountOut,
-      estimatedGas: 200000n,
-      priceImpact: 0.5,
-      route: [{
-        dex: 'Kuru Flow',
-        poolAddress: MONAD_CONTRACTS.kuruFlow,
-        tokenIn: request.tokenIn,
-        tokenOut: request.tokenOut,
-        percentage: 100,
-      }],
-      txData: '0x', // Would need actual encoding
-      txTo: MONAD_CONTRACTS.kuruFlow,
-      txValue: isNativeIn ? request.amountIn : 0n,
-      path,
-    };
-  } catch {
-    return null;
-  }
-}
-
-function calculateEstimatedOutput(amountIn: bigint, slippage: number): bigint {
-  // Simplified estimation - assumes 1:1 ratio minus slippage
-  // In production, this would use actual price data from oracles
-  const slippageBps = BigInt(Math.floor(slippage * 10000));
-  return amountIn * (10000n - slippageBps) / 10000n;
-}
-
 function encodeUniswapSwap(request: SwapRequest, path: string[]): string {
   // Simplified encoding - in production use viem or ethers for proper ABI encoding
   // This returns a placeholder that would be the exactInputSingle function selector
   const EXACT_INPUT_SINGLE_SELECTOR = '0x414bf389';
   return EXACT_INPUT_SINGLE_SELECTOR;
 }
+
+registerDexSource({
+  name: 'monad',
+  chains: ['monad'],
+  getQuote: getMonadBestQuote,
+  buildTransaction: (quote, request) => buildMonadSwapTransaction(quote, request.recipient),
+});
@@ -0,0 +1,206 @@
+/**
+ * Multicall3 Batching Client
+ *
+ * Collapses many contract reads into a few `aggregate3` calls:
+ * - `read()` queues a single call; calls made in the same tick share a batch
+ * - `readMany()` reads a list of calls, split into chunks
+ *
+ * On chains where Multicall3 is not deployed the client falls back to
+ * individual `eth_call`s and remembers that for subsequent batches.
+ *
+ * Reverts are returned per call, but a batch in which every call failed to
+ * reach the RPC endpoint throws, so the endpoint pool can fail over.
+ */
+
+import { BaseError, HttpRequestError, TimeoutError, WebSocketRequestError } from 'viem';
+import type { Abi, Address, PublicClient } from 'viem';
+import { MULTICALL3_ADDRESS } from './chains.js';
+
+export interface ContractCall {
+  address: Address;
+  abi: Abi | readonly unknown[];
+  functionName: string;
+  args?: readonly unknown[];
+}
+
+export type CallResult<T = unknown> =
+  | { status: 'success'; result: T }
+  | { status: 'failure'; error: Error };
+
+export interface MulticallClientOptions {
+  /** Multicall3 address, or null to always use individual calls */
+  multicallAddress?: Address | null;
+  /** Maximum calls per aggregate3 request */
+  chunkSize?: number;
+  /** How long `read()` waits for more calls before flushing */
+  batchWindowMs?: number;
+}
+
+// The subset of PublicClient used here, without viem's chain generics
+interface ReadClient {
+  multicall(args: {
+    contracts: readonly ContractCall[];
+    allowFailure: true;
+    multicallAddress: Address;
+  }): Promise<readonly { status: 'success' | 'failure'; result?: unknown; error?: unknown }[]>;
+  readContract(args: ContractCall): Promise<unknown>;
+}
+
+interface PendingCall {
+  call: ContractCall;
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+export const DEFAULT_MULTICALL_CHUNK_SIZE = 100;
+
+export class MulticallClient {
+  private client: ReadClient;
+  private multicallAddress: Address | null;
+  private chunkSize: number;
+  private batchWindowMs: number;
+
+  private pending: PendingCall[] = [];
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private supported: boolean | undefined;
+
+  constructor(client: Pick<PublicClient, 'multicall' | 'readContract'>, options: MulticallClientOptions = {}) {
+    this.client = client as unknown as ReadClient;
+    this.multicallAddress =
+      options.multicallAddress === undefined ? MULTICALL3_ADDRESS : options.multicallAddress;
+    this.chunkSize = Math.max(1, options.chunkSize ?? DEFAULT_MULTICALL_CHUNK_SIZE);
+    this.batchWindowMs = options.batchWindowMs ?? 0;
+    if (this.multicallAddress === null) {
+      this.supported = false;
+    }
+  }
+
+  /**
+   * Whether Multicall3 is usable on this chain (undefined until first batch)
+   */
+  get isSupported(): boolean | undefined {
+    return this.supported;
+  }
+
+  /**
+   * Read a single value. Concurrent reads are batched together.
+   */
+  read<T = unknown>(call: ContractCall): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.pending.push({ call, resolve: resolve as (value: unknown) => void, reject });
+
+      if (!this.flushTimer) {
+        this.flushTimer = setTimeout(() => {
+          this.flushTimer = null;
+          void this.flush();
+        }, this.batchWindowMs);
+      }
+    });
+  }
+
+  /**
+   * Read many values. Individual call failures are returned, not thrown,
+   * unless a whole chunk failed because the endpoint is unreachable.
+   */
+  async readMany<T = unknown>(calls: ContractCall[]): Promise<CallResult<T>[]> {
+    if (calls.length === 0) return [];
+
+    const chunks: ContractCall[][] = [];
+    for (let i = 0; i < calls.length; i += this.chunkSize) {
+      chunks.push(calls.slice(i, i + this.chunkSize));
+    }
+
+    const results = await Promise.all(chunks.map((chunk) => this.executeChunk(chunk)));
+    return results.flat() as CallResult<T>[];
+  }
+
+  private async flush(): Promise<void> {
+    const batch = this.pending;
+    this.pending = [];
+
+    let results: CallResult[];
+    try {
+      results = await this.readMany(batch.map(({ call }) => call));
+    } catch (error) {
+      batch.forEach(({ reject }) => reject(toError(error)));
+      return;
+    }
+    batch.forEach(({ resolve, reject }, i) => {
+      const result = results[i]!;
+      if (result.status === 'success') {
+        resolve(result.result);
+      } else {
+        reject(result.error);
+      }
+    });
+  }
+
+  private async executeChunk(calls: ContractCall[]): Promise<CallResult[]> {
+    if (this.supported === false || calls.length === 1) {
+      return throwIfUnreachable(await this.executeIndividually(calls));
+    }
+
+    try {
+      const results = await this.client.multicall({
+        contracts: calls,
+        allowFailure: true,
+        multicallAddress: this.multicallAddress!,
+      });
+      this.supported = true;
+
+      return results.map((result) =>
+        result.status === 'success'
+          ? { status: 'success' as const, result: result.result }
+          : { status: 'failure' as const, error: toError(result.error) }
+      );
+    } catch {
+      const results = await this.executeIndividually(calls);
+
+      // Individual calls working while aggregate3 fails means there is no
+      // Multicall3 here; if everything failed the RPC is likely down instead
+      if (this.supported === undefined && results.some((r) => r.status === 'success')) {
+        this.supported = false;
+      }
+
+      return throwIfUnreachable(results);
+    }
+  }
+
+  private async executeIndividually(calls: ContractCall[]): Promise<CallResult[]> {
+    const settled = await Promise.allSettled(calls.map((call) => this.client.readContract(call)));
+
+    return settled.map((outcome) =>
+      outcome.status === 'fulfilled'
+        ? { status: 'success' as const, result: outcome.value }
+        : { status: 'failure' as const, error: toError(outcome.reason) }
+    );
+  }
+}
+
+/**
+ * Throw the first error when every call failed to reach the endpoint,
+ * rather than reverting
+ */
+function throwIfUnreachable(results: CallResult[]): CallResult[] {
+  const errors = results.map((result) => (result.status === 'failure' ? result.error : null));
+  if (errors.every((error) => error !== null && isTransportError(error))) {
+    throw errors[0]!;
+  }
+  return results;
+}
+
+function isTransportError(error: Error): boolean {
+  return (
+    error instanceof BaseError &&
+    error.walk(
+      (cause) =>
+        cause instanceof HttpRequestError ||
+        cause instanceof TimeoutError ||
+        cause instanceof WebSocketRequestError
+    ) !== null
+  );
+}
+
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
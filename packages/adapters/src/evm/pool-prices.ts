@@ -0,0 +1,494 @@
+/**
+ * On-chain Pool Prices
+ *
+ * Derives USD prices from the Uniswap V2 and V3 style pools deployed by
+ * each chain module's factories (TAIKO_FACTORIES, BLAST_FACTORIES, ...):
+ * - V2 pairs are priced from their reserves
+ * - V3 pools from a TWAP over their oracle observations, or `slot0`
+ *   when the pool has too few observations
+ *
+ * Tokens are priced against the chain's stablecoins directly, or against
+ * the wrapped native token, itself priced against the stablecoins. Prices
+ * from every pool found are averaged weighted by the pool's liquidity.
+ */
+
+import type { Address } from 'viem';
+import {
+  NATIVE_TOKEN_ADDRESS,
+  ZERO_ADDRESS,
+  WRAPPED_NATIVE_TOKENS,
+  type EvmChainId,
+} from './chains.js';
+import type { MulticallClient, ContractCall, CallResult } from './multicall.js';
+import { KNOWN_TOKENS, normalizeTokenAddresses } from './tokens.js';
+import { APECHAIN_FACTORIES } from './apechain.js';
+import { ASTAR_FACTORIES } from './astar.js';
+import { BLAST_FACTORIES } from './blast.js';
+import { CRONOS_FACTORIES } from './cronos.js';
+import { FANTOM_FACTORIES } from './fantom.js';
+import { FRAXTAL_FACTORIES } from './fraxtal.js';
+import { GNOSIS_FACTORIES } from './gnosis.js';
+import { MANTA_FACTORIES } from './manta.js';
+import { MANTLE_FACTORIES } from './mantle.js';
+import { METIS_FACTORIES } from './metis.js';
+import { SONEIUM_FACTORIES } from './soneium.js';
+import { SONIC_FACTORIES } from './sonic.js';
+import { TAIKO_FACTORIES } from './taiko.js';
+import { UNICHAIN_FACTORIES } from './unichain.js';
+import { WORLDCHAIN_FACTORIES } from './worldchain.js';
+import { XLAYER_FACTORIES } from './xlayer.js';
+import { ZKSYNC_FACTORIES } from './zksync.js';
+import { ZORA_FACTORIES } from './zora.js';
+
+export type PoolKind = 'v2' | 'v3';
+
+export interface PoolFactory {
+  name: string;
+  address: string;
+  kind: PoolKind;
+}
+
+// Uniswap V2/V3 compatible factories from the chain modules. Solidly,
+// Algebra, Balancer, Curve and Liquidity Book factories use other pool
+// interfaces and are left out. Lisk (Uniswap V3), 0G (zerogswap) and
+// Stable (stableswap) have no pool prices yet: their chain modules don't
+// have the factory addresses.
+export const POOL_FACTORIES: Partial<Record<EvmChainId, PoolFactory[]>> = {
+  apechain: [
+    { name: 'ape-portal', address: APECHAIN_FACTORIES.apePortal, kind: 'v2' },
+    { name: 'camelot', address: APECHAIN_FACTORIES.camelot, kind: 'v2' },
+  ],
+  astar: [{ name: 'arthswap', address: ASTAR_FACTORIES.arthswap, kind: 'v2' }],
+  blast: [
+    { name: 'thruster-v2', address: BLAST_FACTORIES.thrusterV2Factory, kind: 'v2' },
+    { name: 'thruster-v3', address: BLAST_FACTORIES.thrusterV3Factory, kind: 'v3' },
+  ],
+  cronos: [
+    { name: 'vvs', address: CRONOS_FACTORIES.vvs, kind: 'v2' },
+    { name: 'mm-finance', address: CRONOS_FACTORIES.mmFinance, kind: 'v2' },
+    { name: 'crodex', address: CRONOS_FACTORIES.crodex, kind: 'v2' },
+  ],
+  fantom: [
+    { name: 'spookyswap', address: FANTOM_FACTORIES.spookyswap, kind: 'v2' },
+    { name: 'spiritswap', address: FANTOM_FACTORIES.spiritswap, kind: 'v2' },
+  ],
+  fraxtal: [{ name: 'fraxswap', address: FRAXTAL_FACTORIES.fraxswap, kind: 'v2' }],
+  gnosis: [{ name: 'sushiswap', address: GNOSIS_FACTORIES.sushiswapFactory, kind: 'v2' }],
+  manta: [{ name: 'apertureswap', address: MANTA_FACTORIES.apertureswap, kind: 'v3' }],
+  mantle: [
+    { name: 'agni', address: MANTLE_FACTORIES.agni, kind: 'v3' },
+    { name: 'fusionx', address: MANTLE_FACTORIES.fusionx, kind: 'v3' },
+  ],
+  metis: [
+    { name: 'netswap', address: METIS_FACTORIES.netswap, kind: 'v2' },
+    { name: 'tethys', address: METIS_FACTORIES.tethys, kind: 'v2' },
+  ],
+  soneium: [{ name: 'kyo', address: SONEIUM_FACTORIES.kyoFactory, kind: 'v3' }],
+  sonic: [{ name: 'swapx', address: SONIC_FACTORIES.swapx, kind: 'v3' }],
+  taiko: [
+    { name: 'henjin', address: TAIKO_FACTORIES.henjinFactory, kind: 'v3' },
+    { name: 'panko', address: TAIKO_FACTORIES.pankoFactory, kind: 'v2' },
+  ],
+  unichain: [{ name: 'uniswap-v3', address: UNICHAIN_FACTORIES.v3Factory, kind: 'v3' }],
+  worldchain: [{ name: 'uniswap-v3', address: WORLDCHAIN_FACTORIES.uniswapV3, kind: 'v3' }],
+  xlayer: [{ name: 'xswap', address: XLAYER_FACTORIES.xswap, kind: 'v2' }],
+  zksync: [{ name: 'spacefi', address: ZKSYNC_FACTORIES.spacefi, kind: 'v2' }],
+  zora: [{ name: 'uniswap-v3', address: ZORA_FACTORIES.uniswapV3, kind: 'v3' }],
+};
+
+// Token map symbols treated as $1 quote assets
+const STABLECOIN_SYMBOLS = new Set(['USDC', 'USDT', 'DAI', 'USDC.e', 'USDCe', 'USDbC', 'USDB']);
+
+/** V3 fee tiers probed for each pair */
+export const V3_FEE_TIERS = [100, 500, 3000, 10000] as const;
+
+/** Window of the V3 time-weighted average tick, in seconds */
+export const TWAP_WINDOW_SECONDS = 1800;
+
+const V2_FACTORY_ABI = [
+  {
+    name: 'getPair',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'tokenA', type: 'address' },
+      { name: 'tokenB', type: 'address' },
+    ],
+    outputs: [{ name: 'pair', type: 'address' }],
+  },
+] as const;
+
+const V2_PAIR_ABI = [
+  {
+    name: 'getReserves',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [
+      { name: 'reserve0', type: 'uint112' },
+      { name: 'reserve1', type: 'uint112' },
+      { name: 'blockTimestampLast', type: 'uint32' },
+    ],
+  },
+] as const;
+
+const V3_FACTORY_ABI = [
+  {
+    name: 'getPool',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'tokenA', type: 'address' },
+      { name: 'tokenB', type: 'address' },
+      { name: 'fee', type: 'uint24' },
+    ],
+    outputs: [{ name: 'pool', type: 'address' }],
+  },
+] as const;
+
+const V3_POOL_ABI = [
+  {
+    name: 'slot0',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [
+      { name: 'sqrtPriceX96', type: 'uint160' },
+      { name: 'tick', type: 'int24' },
+      { name: 'observationIndex', type: 'uint16' },
+      { name: 'observationCardinality', type: 'uint16' },
+      { name: 'observationCardinalityNext', type: 'uint16' },
+      { name: 'feeProtocol', type: 'uint8' },
+      { name: 'unlocked', type: 'bool' },
+    ],
+  },
+  {
+    name: 'observe',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'secondsAgos', type: 'uint32[]' }],
+    outputs: [
+      { name: 'tickCumulatives', type: 'int56[]' },
+      { name: 'secondsPerLiquidityCumulativeX128s', type: 'uint160[]' },
+    ],
+  },
+] as const;
+
+const ERC20_ABI = [
+  {
+    name: 'decimals',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint8' }],
+  },
+  {
+    name: 'balanceOf',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'account', type: 'address' }],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+] as const;
+
+export interface PoolPrice {
+  priceUsd: number;
+  /** Combined USD liquidity of the pools the price came from */
+  liquidityUsd: number;
+  /** Number of pools the price came from */
+  pools: number;
+}
+
+/** A pool between a token and one of the quote assets */
+interface PoolRef {
+  token: string;
+  base: string;
+  address: Address;
+  kind: PoolKind;
+}
+
+/** A pool's price of `token` in `base`, with the base-side reserve */
+interface PoolQuote {
+  token: string;
+  base: string;
+  price: number;
+  baseReserve: number;
+}
+
+type Reader = Pick<MulticallClient, 'readMany'>;
+
+/**
+ * Get the stablecoins listed in a chain module's token map
+ */
+export function getStablecoins(chainId: EvmChainId): string[] {
+  const tokens = Object.entries(KNOWN_TOKENS[chainId] ?? {});
+  return normalizeTokenAddresses(
+    tokens.filter(([symbol]) => STABLECOIN_SYMBOLS.has(symbol)).map(([, address]) => address)
+  );
+}
+
+export class PoolPriceReader {
+  private factories: PoolFactory[];
+  private stablecoins: string[];
+  private wrappedNative: string | null;
+  private decimals = new Map<string, number>();
+
+  constructor(
+    private chainId: EvmChainId,
+    private multicall: Reader
+  ) {
+    this.factories = POOL_FACTORIES[chainId] ?? [];
+    this.stablecoins = getStablecoins(chainId).map((address) => address.toLowerCase());
+    this.wrappedNative =
+      normalizeTokenAddresses([WRAPPED_NATIVE_TOKENS[chainId]])[0]?.toLowerCase() ?? null;
+  }
+
+  /**
+   * Whether the chain has any pool factory to price from
+   */
+  get isSupported(): boolean {
+    return this.factories.length > 0 && this.stablecoins.length > 0;
+  }
+
+  /**
+   * Price tokens from on-chain pools. Results are keyed by lowercased
+   * address; tokens without a priced pool are left out.
+   */
+  async getPrices(addresses: string[]): Promise<Map<string, PoolPrice>> {
+    const results = new Map<string, PoolPrice>();
+    if (!this.isSupported || addresses.length === 0) return results;
+
+    // The native token trades as its wrapped form
+    const targets = new Map<string, string>();
+    for (const address of addresses) {
+      const lower = address.toLowerCase();
+      const target = lower === NATIVE_TOKEN_ADDRESS.toLowerCase() ? this.wrappedNative : lower;
+      if (target) targets.set(lower, target);
+    }
+
+    const tokens = new Set(targets.values());
+    if (this.wrappedNative) tokens.add(this.wrappedNative);
+
+    const pools = await this.findPools([...tokens]);
+    const quotes = await this.readPools(pools);
+
+    // Wrapped native first, so pools quoted against it can be valued
+    const usd = new Map<string, number>(this.stablecoins.map((address) => [address, 1]));
+    const native = this.wrappedNative && combine(this.wrappedNative, quotes, usd);
+    if (native) usd.set(this.wrappedNative!, native.priceUsd);
+
+    for (const [address, target] of targets) {
+      const price = target === this.wrappedNative ? native : combine(target, quotes, usd);
+      if (price) results.set(address, price);
+    }
+
+    return results;
+  }
+
+  /**
+   * Look up every pool between the tokens and the quote assets
+   */
+  private async findPools(tokens: string[]): Promise<PoolRef[]> {
+    const candidates: Omit<PoolRef, 'address'>[] = [];
+    const calls: ContractCall[] = [];
+
+    for (const token of tokens) {
+      // The wrapped native token is only priced against stablecoins
+      const bases = [
+        ...this.stablecoins,
+        ...(token === this.wrappedNative ? [] : [this.wrappedNative]),
+      ];
+
+      for (const base of bases) {
+        if (!base || base === token) continue;
+
+        for (const factory of this.factories) {
+          const address = factory.address as Address;
+          if (factory.kind === 'v2') {
+            candidates.push({ token, base, kind: 'v2' });
+            calls.push({
+              address,
+              abi: V2_FACTORY_ABI,
+              functionName: 'getPair',
+              args: [token, base],
+            });
+          } else {
+            for (const fee of V3_FEE_TIERS) {
+              candidates.push({ token, base, kind: 'v3' });
+              calls.push({
+                address,
+                abi: V3_FACTORY_ABI,
+                functionName: 'getPool',
+                args: [token, base, fee],
+              });
+            }
+          }
+        }
+      }
+    }
+
+    const results = await this.multicall.readMany<Address>(calls);
+    return candidates.flatMap((candidate, i) => {
+      const result = results[i];
+      if (result?.status !== 'success' || result.result.toLowerCase() === ZERO_ADDRESS) return [];
+      return [{ ...candidate, address: result.result }];
+    });
+  }
+
+  /**
+   * Read each pool's price and base-side reserve, plus any token decimals
+   * not seen before
+   */
+  private async readPools(pools: PoolRef[]): Promise<PoolQuote[]> {
+    const unknown = [...new Set(pools.flatMap((pool) => [pool.token, pool.base]))].filter(
+      (address) => !this.decimals.has(address)
+    );
+
+    // Per pool: [getReserves] for V2, [observe, slot0, balanceOf(base)] for V3
+    const calls: ContractCall[] = pools.flatMap((pool): ContractCall[] =>
+      pool.kind === 'v2'
+        ? [{ address: pool.address, abi: V2_PAIR_ABI, functionName: 'getReserves' }]
+        : [
+            {
+              address: pool.address,
+              abi: V3_POOL_ABI,
+              functionName: 'observe',
+              args: [[TWAP_WINDOW_SECONDS, 0]],
+            },
+            { address: pool.address, abi: V3_POOL_ABI, functionName: 'slot0' },
+            {
+              address: pool.base as Address,
+              abi: ERC20_ABI,
+              functionName: 'balanceOf',
+              args: [pool.address],
+            },
+          ]
+    );
+    const results = await this.multicall.readMany<unknown>([
+      ...calls,
+      ...unknown.map((address) => ({
+        address: address as Address,
+        abi: ERC20_ABI,
+        functionName: 'decimals',
+      })),
+    ]);
+
+    unknown.forEach((address, i) => {
+      const decimals = resultOf(results[calls.length + i]);
+      if (typeof decimals === 'number') this.decimals.set(address, decimals);
+    });
+
+    const quotes: PoolQuote[] = [];
+    let index = 0;
+    for (const pool of pools) {
+      const tokenDecimals = this.decimals.get(pool.token);
+      const baseDecimals = this.decimals.get(pool.base);
+      const tokenIsToken0 = pool.token < pool.base;
+
+      if (pool.kind === 'v2') {
+        const reserves = resultOf(results[index++]);
+        const reserve0 = elementAt(reserves, 0);
+        const reserve1 = elementAt(reserves, 1);
+        if (
+          typeof reserve0 !== 'bigint' ||
+          typeof reserve1 !== 'bigint' ||
+          tokenDecimals === undefined ||
+          baseDecimals === undefined
+        ) {
+          continue;
+        }
+
+        const tokenReserve = toUnits(tokenIsToken0 ? reserve0 : reserve1, tokenDecimals);
+        const baseReserve = toUnits(tokenIsToken0 ? reserve1 : reserve0, baseDecimals);
+        if (tokenReserve > 0 && baseReserve > 0) {
+          quotes.push({
+            token: pool.token,
+            base: pool.base,
+            price: baseReserve / tokenReserve,
+            baseReserve,
+          });
+        }
+      } else {
+        const [observation, slot0, balance] = [
+          results[index++],
+          results[index++],
+          results[index++],
+        ];
+        const baseBalance = resultOf(balance);
+        if (
+          typeof baseBalance !== 'bigint' ||
+          tokenDecimals === undefined ||
+          baseDecimals === undefined
+        ) {
+          continue;
+        }
+
+        // Pools without enough observation history fall back to the spot tick
+        const tickCumulatives = elementAt(resultOf(observation), 0);
+        const older = elementAt(tickCumulatives, 0);
+        const latest = elementAt(tickCumulatives, 1);
+        const spotTick = elementAt(resultOf(slot0), 1);
+        let tick: number;
+        if (typeof older === 'bigint' && typeof latest === 'bigint') {
+          tick = Number(latest - older) / TWAP_WINDOW_SECONDS;
+        } else if (typeof spotTick === 'number') {
+          tick = spotTick;
+        } else {
+          continue;
+        }
+
+        // 1.0001^tick is token1 per token0 in raw units
+        const raw = tokenIsToken0 ? 1.0001 ** tick : 1.0001 ** -tick;
+        const price = raw * 10 ** (tokenDecimals - baseDecimals);
+        const baseReserve = toUnits(baseBalance, baseDecimals);
+        if (Number.isFinite(price) && price > 0 && baseReserve > 0) {
+          quotes.push({ token: pool.token, base: pool.base, price, baseReserve });
+        }
+      }
+    }
+
+    return quotes;
+  }
+}
+
+/**
+ * Liquidity-weighted USD price of a token across its pools. A pool's
+ * liquidity is twice its base-side reserve, so it never depends on the
+ * price of the token being priced.
+ */
+function combine(token: string, quotes: PoolQuote[], usd: Map<string, number>): PoolPrice | null {
+  let weighted = 0;
+  let liquidityUsd = 0;
+  let pools = 0;
+
+  for (const quote of quotes) {
+    const baseUsd = usd.get(quote.base);
+    if (quote.token !== token || baseUsd === undefined) continue;
+
+    const liquidity = 2 * quote.baseReserve * baseUsd;
+    weighted += quote.price * baseUsd * liquidity;
+    liquidityUsd += liquidity;
+    pools++;
+  }
+
+  return liquidityUsd > 0 ? { priceUsd: weighted / liquidityUsd, liquidityUsd, pools } : null;
+}
+
+/**
+ * A call's result, or undefined when it failed. Results are narrowed
+ * where they are used rather than trusted to match the ABI.
+ */
+function resultOf(result: CallResult | undefined): unknown {
+  return result?.status === 'success' ? result.result : undefined;
+}
+
+/**
+ * Element `index` of a tuple or array result
+ */
+function elementAt(values: unknown, index: number): unknown {
+  return Array.isArray(values) ? values[index] : undefined;
+}
+
+function toUnits(amount: bigint, decimals: number): number {
+  return Number(amount) / 10 ** decimals;
+}
@@ -0,0 +1,192 @@
+/**
+ * EVM Receipt Decoding
+ *
+ * Works out what a swap actually moved for a wallet by decoding
+ * ERC-20 Transfer and wrapped-native Deposit/Withdrawal logs.
+ *
+ * Native ETH never appears in logs, so it is inferred:
+ * - sent: the transaction value
+ * - received: Withdrawal events (a router unwrapping output for the recipient)
+ */
+
+import type { EventLog } from '@chainhopper/types';
+import { shortfallPercent } from '@chainhopper/types';
+import { NATIVE_TOKEN_ADDRESS } from './chains.js';
+
+// keccak256('Transfer(address,address,uint256)')
+export const TRANSFER_TOPIC = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+// keccak256('Deposit(address,uint256)')
+export const DEPOSIT_TOPIC = '0xe1fffcc4923d04b559f4d29a8bfc6cda04eb5b0d3c460751c2402c5c5cc9109c';
+// keccak256('Withdrawal(address,uint256)')
+export const WITHDRAWAL_TOPIC =
+  '0x7fcf532c15f0a6db0bd6d0e038bea71d30d808c7d98cb3bf7268a95bf5081b65';
+
+const NATIVE = NATIVE_TOKEN_ADDRESS.toLowerCase();
+
+export interface TokenFlow {
+  token: string; // lowercase address, NATIVE_TOKEN_ADDRESS for the native token
+  sent: bigint;
+  received: bigint;
+}
+
+export interface SwapFlows {
+  tokenIn: string | null;
+  amountIn: bigint;
+  tokenOut: string | null;
+  amountOut: bigint;
+}
+
+export interface DecodeFlowsParams {
+  logs: Pick<EventLog, 'address' | 'topics' | 'data'>[];
+  wallets: string[]; // sender and recipient
+  wrappedNative?: string;
+  value?: bigint; // native value sent with the transaction
+}
+
+/**
+ * Tally how much of each token the given wallets sent and received
+ */
+export function decodeTokenFlows(params: DecodeFlowsParams): Map<string, TokenFlow> {
+  const wallets = new Set(params.wallets.filter(Boolean).map((w) => w.toLowerCase()));
+  const wrapped = params.wrappedNative?.toLowerCase();
+  const flows = new Map<string, TokenFlow>();
+
+  const flow = (token: string): TokenFlow => {
+    let entry = flows.get(token);
+    if (!entry) {
+      entry = { token, sent: 0n, received: 0n };
+      flows.set(token, entry);
+    }
+    return entry;
+  };
+
+  if (params.value && params.value > 0n) {
+    flow(NATIVE).sent += params.value;
+  }
+
+  for (const log of params.logs) {
+    const token = log.address.toLowerCase();
+    const topic = log.topics[0]?.toLowerCase();
+
+    // ERC-721 Transfer shares the topic but indexes the token ID (4 topics)
+    if (topic === TRANSFER_TOPIC && log.topics.length === 3) {
+      const from = topicToAddress(log.topics[1]!);
+      const to = topicToAddress(log.topics[2]!);
+      const amount = decodeUint(log.data);
+
+      if (wallets.has(from)) flow(token).sent += amount;
+      if (wallets.has(to)) flow(token).received += amount;
+      continue;
+    }
+
+    if (token !== wrapped || log.topics.length !== 2) continue;
+
+    const account = topicToAddress(log.topics[1]!);
+    const amount = decodeUint(log.data);
+
+    if (topic === DEPOSIT_TOPIC && wallets.has(account)) {
+      // Wallet wrapped native itself; the native side is the tx value
+      flow(token).received += amount;
+    } else if (topic === WITHDRAWAL_TOPIC) {
+      // Either the wallet unwrapped, or a router unwrapped output for the recipient
+      if (wallets.has(account)) flow(token).sent += amount;
+      flow(NATIVE).received += amount;
+    }
+  }
+
+  return flows;
+}
+
+/**
+ * Pick the input and output legs of a swap from token flows.
+ * Expected token addresses (from the quote) take precedence over
+ * inferring legs from the largest net outflow and inflow.
+ */
+export function summarizeSwapFlows(
+  flows: Map<string, TokenFlow>,
+  expected: { tokenIn?: string; tokenOut?: string } = {}
+): SwapFlows {
+  const net = (token: string | null): bigint => {
+    if (!token) return 0n;
+    const entry = flows.get(token);
+    return entry ? entry.received - entry.sent : 0n;
+  };
+
+  let tokenIn = expected.tokenIn ? normalizeToken(expected.tokenIn) : null;
+  let tokenOut = expected.tokenOut ? normalizeToken(expected.tokenOut) : null;
+
+  if (!tokenIn) {
+    tokenIn = pickBy(
+      flows,
+      (a, b) => a < b,
+      (n) => n < 0n,
+      tokenOut
+    );
+  }
+  if (!tokenOut) {
+    tokenOut = pickBy(
+      flows,
+      (a, b) => a > b,
+      (n) => n > 0n,
+      tokenIn
+    );
+  }
+
+  const amountIn = -net(tokenIn);
+  const amountOut = net(tokenOut);
+
+  return {
+    tokenIn,
+    amountIn: amountIn > 0n ? amountIn : 0n,
+    tokenOut,
+    amountOut: amountOut > 0n ? amountOut : 0n,
+  };
+}
+
+/**
+ * Realised slippage against the quoted output, as a percentage.
+ * Negative when the swap delivered more than quoted.
+ */
+export function calculateRealisedSlippage(quotedAmountOut: bigint, amountOut: bigint): number {
+  return shortfallPercent(quotedAmountOut, amountOut);
+}
+
+// ============================================================================
+// Private helpers
+// ============================================================================
+
+function pickBy(
+  flows: Map<string, TokenFlow>,
+  better: (a: bigint, b: bigint) => boolean,
+  qualifies: (net: bigint) => boolean,
+  exclude: string | null
+): string | null {
+  let best: string | null = null;
+  let bestNet = 0n;
+
+  for (const { token, sent, received } of flows.values()) {
+    if (token === exclude) continue;
+    const net = received - sent;
+    if (qualifies(net) && (best === null || better(net, bestNet))) {
+      best = token;
+      bestNet = net;
+    }
+  }
+
+  return best;
+}
+
+function normalizeToken(address: string): string {
+  if (address === 'native' || address === '') return NATIVE;
+  return address.toLowerCase();
+}
+
+function topicToAddress(topic: string): string {
+  return `0x${topic.slice(-40)}`.toLowerCase();
+}
+
+function decodeUint(data: string): bigint {
+  if (!data || data === '0x') return 0n;
+  // Only the first word carries the amount
+  return BigInt(data.slice(0, 66));
+}
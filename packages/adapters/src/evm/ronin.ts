@@ -4,11 +4,15 @@
  * Ronin is the blockchain built for gaming, home to Axie Infinity.
  * Primary DEX: Katana (V2 + V3 with concentrated liquidity)
  *
+ * Not registered as a DEX source until the Katana quotes read real pool
+ * state; today they mirror the input amount with selector-only calldata.
+ *
  * Chain ID: 2020
  * Native Token: RON
  */
 
 import type { SwapRequest, SwapRoute } from '@chainhopper/types';
+import { applySlippage } from '@chainhopper/types';
 import { EVM_CHAIN_IDS } from './chains.js';
 
 // Katana V3 contracts (current)
@@ -70,7 +74,7 @@ export async function getKatanaV3Quote(
     const poolFees = [3000]; // Default 0.3% fee tier
 
     // Estimate output (simplified)
-    const estimatedOutput = calculateEstimatedOutput(request.amountIn, request.slippage);
+    const estimatedOutput = applySlippage(request.amountIn, request.slippage);
 
     return {
       aggregator: 'katana-v3',
@@ -114,7 +118,7 @@ export async function getKatanaV2Quote(
     const path = buildPath(tokenIn, tokenOut);
 
     // Calculate min amount out with slippage
-    const minAmountOut = calculateEstimatedOutput(request.amountIn, request.slippage);
+    const minAmountOut = applySlippage(request.amountIn, request.slippage);
 
     // Determine swap method
     const swapMethod = isNativeIn
@@ -160,7 +164,7 @@ export async function getKatanaAggregateQuote(
     const tokenOut = isNativeToken(request.tokenOut) ? RONIN_TOKENS.WRON : request.tokenOut;
 
     const path = buildPath(tokenIn, tokenOut);
-    const estimatedOutput = calculateEstimatedOutput(request.amountIn, request.slippage);
+    const estimatedOutput = applySlippage(request.amountIn, request.slippage);
 
     return {
       aggregator: 'katana-aggregate',
@@ -292,11 +296,6 @@ function buildPath(tokenIn: string, tokenOut: string): string[] {
   return [tokenIn, RONIN_TOKENS.WRON, tokenOut];
 }
 
-function calculateEstimatedOutput(amountIn: bigint, slippage: number): bigint {
-  const slippageBps = BigInt(Math.floor(slippage * 10000));
-  return amountIn * (10000n - slippageBps) / 10000n;
-}
-
 function encodeV3Swap(
   request: SwapRequest,
   path: string[],
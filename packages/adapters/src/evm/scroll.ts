@@ -12,6 +12,7 @@
 
 import type { SwapRequest, SwapRoute, DexAggregator } from '@chainhopper/types';
 import type { AggregatorQuote } from './aggregators.js';
+import { hasSwapCall, registerDexSource } from './dex-sources.js';
 
 // Scroll Chain ID
 export const SCROLL_CHAIN_ID = 534352;
@@ -247,7 +248,9 @@ export async function getScrollBestQuote(
     getAmbientQuote(request),
   ]);
 
-  const validQuotes = quotes.filter((q): q is ScrollQuote => q !== null && q.amountOut > 0n);
+  const validQuotes = quotes.filter(
+    (q): q is ScrollQuote => q !== null && q.amountOut > 0n && hasSwapCall(q)
+  );
 
   if (validQuotes.length === 0) return null;
 
@@ -304,3 +307,10 @@ export function getScrollPopularPairs(): Array<{ tokenIn: string; tokenOut: stri
     { tokenIn: SCROLL_TOKENS.ETH, tokenOut: SCROLL_TOKENS.SCR, name: 'ETH/SCR' },
   ];
 }
+
+registerDexSource({
+  name: 'scroll',
+  chains: ['scroll'],
+  getQuote: getScrollBestQuote,
+  buildTransaction: buildScrollSwapTransaction,
+});
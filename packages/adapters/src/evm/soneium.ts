@@ -12,8 +12,10 @@
  */
 
 import type { SwapRequest, SwapRoute, DexAggregator } from '@chainhopper/types';
+import { applySlippage } from '@chainhopper/types';
 import type { AggregatorQuote } from './aggregators.js';
 import { EVM_CHAIN_IDS } from './chains.js';
+import { registerDexSource } from './dex-sources.js';
 
 // Soneium Chain ID
 export const SONEIUM_CHAIN_ID = 1868;
@@ -198,16 +200,18 @@ export async function getKyoFinanceQuote(
       };
     }
 
-    // Fallback to building a direct quote
-    return buildKyoFallbackQuote(request);
+    return null;
   } catch {
-    return buildKyoFallbackQuote(request);
+    return null;
   }
 }
 
 /**
  * Get quote using on-chain Quoter contract
  * This provides more accurate quotes but requires RPC calls
+ *
+ * Until the Quoter call is wired up this only estimates from the input
+ * amount, so getSoneiumBestQuote does not rank it.
  */
 export async function getKyoOnChainQuote(
   request: SwapRequest
@@ -234,10 +238,7 @@ export async function getKyoOnChainQuote(
         : [tokenIn, SONEIUM_TOKENS.WETH, tokenOut];
 
     // Simplified estimation - would use actual quoter contract call in production
-    const estimatedOutput = calculateEstimatedOutput(
-      request.amountIn,
-      request.slippage
-    );
+    const estimatedOutput = applySlippage(request.amountIn, request.slippage);
 
     return {
       aggregator: '1inch' as DexAggregator, // Placeholder
@@ -265,6 +266,8 @@ export async function getKyoOnChainQuote(
 
 /**
  * Get best quote for Soneium chain
+ *
+ * Only the Kyo Finance API returns executable calldata today.
  */
 export async function getSoneiumBestQuote(
   request: SwapRequest
@@ -273,20 +276,8 @@ export async function getSoneiumBestQuote(
     return null;
   }
 
-  const quotes = await Promise.all([
-    getKyoFinanceQuote(request),
-    getKyoOnChainQuote(request),
-  ]);
-
-  const validQuotes = quotes.filter(
-    (q): q is SoneiumQuote => q !== null && q.amountOut > 0n
-  );
-
-  if (validQuotes.length === 0) return null;
-
-  return validQuotes.reduce((best, current) =>
-    current.amountOut > best.amountOut ? current : best
-  );
+  const quote = await getKyoFinanceQuote(request);
+  return quote && quote.amountOut > 0n ? quote : null;
 }
 
 /**
@@ -395,56 +386,6 @@ function parseKyoRoute(
   }
 }
 
-function buildKyoFallbackQuote(request: SwapRequest): SoneiumQuote | null {
-  try {
-    const isNativeIn = isNativeToken(request.tokenIn);
-    const tokenIn = isNativeIn ? SONEIUM_TOKENS.WETH : request.tokenIn;
-    const tokenOut = isNativeToken(request.tokenOut)
-      ? SONEIUM_TOKENS.WETH
-      : request.tokenOut;
-
-    // Build path
-    const path =
-      tokenIn === SONEIUM_TOKENS.WETH || tokenOut === SONEIUM_TOKENS.WETH
-        ? [tokenIn, tokenOut]
-        : [tokenIn, SONEIUM_TOKENS.WETH, tokenOut];
-
-    const minAmountOut = calculateEstimatedOutput(
-      request.amountIn,
-      request.slippage
-    );
-
-    return {
-      aggregator: '1inch' as DexAggregator, // Placeholder
-      amountOut: minAmountOut,
-      estimatedGas: 200000n,
-      priceImpact: 0.5,
-      route: [
-        {
-          dex: 'Kyo Finance',
-          poolAddress: SONEIUM_ROUTERS.kyoRouter,
-          tokenIn: request.tokenIn,
-          tokenOut: request.tokenOut,
-          percentage: 100,
-        },
-      ],
-      txData: encodeKyoSwap(request, path, 3000),
-      txTo: SONEIUM_ROUTERS.kyoRouter,
-      txValue: isNativeIn ? request.amountIn : 0n,
-      feeTier: 3000,
-    };
-  } catch {
-    return null;
-  }
-}
-
-function calculateEstimatedOutput(amountIn: bigint, slippage: number): bigint {
-  // Simplified estimation - assumes 1:1 ratio minus slippage
-  // In production, this would use actual price data from oracles
-  const slippageBps = BigInt(Math.floor(slippage * 10000));
-  return (amountIn * (10000n - slippageBps)) / 10000n;
-}
-
 function encodeKyoSwap(
   request: SwapRequest,
   path: string[],
@@ -455,3 +396,10 @@ function encodeKyoSwap(
   const EXACT_INPUT_SINGLE_SELECTOR = '0x414bf389';
   return EXACT_INPUT_SINGLE_SELECTOR;
 }
+
+registerDexSource({
+  name: 'soneium',
+  chains: ['soneium'],
+  getQuote: getSoneiumBestQuote,
+  buildTransaction: (quote, request) => buildSoneiumSwapTransaction(quote, request.recipient),
+});
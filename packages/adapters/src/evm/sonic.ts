@@ -8,8 +8,10 @@
  */
 
 import type { SwapRequest, SwapRoute } from '@chainhopper/types';
+import { deductBps } from '@chainhopper/types';
 import { EVM_CHAIN_IDS } from './chains.js';
 import type { AggregatorQuote } from './aggregators.js';
+import { registerDexSource } from './dex-sources.js';
 
 // Sonic Chain ID
 export const SONIC_CHAIN_ID = 146;
@@ -150,48 +152,17 @@ export async function getSwapXQuote(
       };
     }
 
-    // Fallback: estimate with default pool
-    return getSwapXQuoteFallback(request);
+    return null;
   } catch {
-    return getSwapXQuoteFallback(request);
+    return null;
   }
 }
 
-/**
- * Fallback quote estimation for SwapX
- */
-async function getSwapXQuoteFallback(
-  request: SwapRequest
-): Promise<AggregatorQuote | null> {
-  // Simple 1:1 estimation with 0.3% fee for V3
-  // In production, would query pool contracts directly
-  const feeMultiplier = 0.997; // 0.3% fee tier
-  const estimatedOut = BigInt(
-    Math.floor(Number(request.amountIn) * feeMultiplier)
-  );
-
-  return {
-    aggregator: '1inch',
-    amountOut: estimatedOut,
-    estimatedGas: 200000n,
-    priceImpact: 0.1, // Estimated
-    route: [
-      {
-        dex: 'SwapX',
-        poolAddress: '',
-        tokenIn: request.tokenIn,
-        tokenOut: request.tokenOut,
-        percentage: 100,
-      },
-    ],
-    txData: '0x',
-    txTo: SONIC_ROUTERS.swapx,
-    txValue: isNativeToken(request.tokenIn) ? request.amountIn : 0n,
-  };
-}
-
 /**
  * Get quote from Shadow Exchange (Ve(3,3) DEX on Sonic)
+ *
+ * Estimated from pool fees without calldata, so getSonicBestQuote does not
+ * rank it.
  */
 export async function getShadowQuote(
   request: SwapRequest
@@ -201,11 +172,9 @@ export async function getShadowQuote(
   try {
     // Shadow Exchange uses a different routing approach (stable vs volatile pools)
     const isStablePair = isStableSwap(request.tokenIn, request.tokenOut);
-    const feeMultiplier = isStablePair ? 0.9995 : 0.998; // 0.05% for stable, 0.2% for volatile
+    const feeBps = isStablePair ? 5n : 20n; // 0.05% for stable, 0.2% for volatile
 
-    const estimatedOut = BigInt(
-      Math.floor(Number(request.amountIn) * feeMultiplier)
-    );
+    const estimatedOut = deductBps(request.amountIn, feeBps);
 
     return {
       aggregator: 'paraswap', // Map to known type for compatibility
@@ -231,77 +200,29 @@ export async function getShadowQuote(
 }
 
 /**
- * Get best quote across all Sonic DEXes
+ * Get best quote across Sonic DEXes
+ *
+ * Only the SwapX API returns executable calldata today.
  */
 export async function getSonicBestQuote(
   request: SwapRequest
 ): Promise<AggregatorQuote | null> {
   if (request.chainId !== 'sonic') return null;
 
-  const quotes = await Promise.all([
-    getSwapXQuote(request),
-    getShadowQuote(request),
-  ]);
-
-  const validQuotes = quotes.filter(
-    (q): q is AggregatorQuote => q !== null && q.amountOut > 0n
-  );
-
-  if (validQuotes.length === 0) return null;
-
-  // Return quote with highest output
-  return validQuotes.reduce((best, current) =>
-    current.amountOut > best.amountOut ? current : best
-  );
+  const quote = await getSwapXQuote(request);
+  return quote && quote.amountOut > 0n ? quote : null;
 }
 
 /**
  * Build swap transaction for Sonic
  */
 export function buildSonicSwapTransaction(
-  quote: AggregatorQuote,
-  request: SwapRequest
+  quote: AggregatorQuote
 ): { to: string; data: string; value: bigint } {
-  const dex = quote.route[0]?.dex || 'SwapX';
-
-  if (dex === 'Shadow') {
-    return buildShadowSwapTx(request);
-  }
-
-  // Default to SwapX
-  return buildSwapXTx(request);
-}
-
-function buildSwapXTx(request: SwapRequest): {
-  to: string;
-  data: string;
-  value: bigint;
-} {
-  // Encode SwapX exactInputSingle call
-  const deadline = Math.floor(Date.now() / 1000) + 1200; // 20 minutes
-  const fee = 3000; // 0.3% fee tier
-
-  // In production, would use viem's encodeFunctionData
-  // For now, return placeholder
-  return {
-    to: SONIC_ROUTERS.swapx,
-    data: '0x', // Would be encoded call data
-    value: isNativeToken(request.tokenIn) ? request.amountIn : 0n,
-  };
-}
-
-function buildShadowSwapTx(request: SwapRequest): {
-  to: string;
-  data: string;
-  value: bigint;
-} {
-  // Encode Shadow swapExactTokensForTokens call
-  const isStable = isStableSwap(request.tokenIn, request.tokenOut);
-
   return {
-    to: SONIC_ROUTERS.shadow,
-    data: '0x', // Would be encoded call data
-    value: isNativeToken(request.tokenIn) ? request.amountIn : 0n,
+    to: quote.txTo,
+    data: quote.txData,
+    value: quote.txValue,
   };
 }
 
@@ -342,3 +263,10 @@ export function isSonicChain(chainId: string | number): boolean {
   }
   return chainId === 'sonic';
 }
+
+registerDexSource({
+  name: 'sonic',
+  chains: ['sonic'],
+  getQuote: getSonicBestQuote,
+  buildTransaction: buildSonicSwapTransaction,
+});
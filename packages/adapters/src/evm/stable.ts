@@ -12,6 +12,7 @@
 
 import type { SwapRequest, SwapRoute, DexAggregator } from '@chainhopper/types';
 import type { AggregatorQuote } from './aggregators.js';
+import { hasSwapCall, registerDexSource } from './dex-sources.js';
 
 // Stable Chain ID
 export const STABLE_CHAIN_ID = 988;
@@ -211,7 +212,9 @@ export async function getStableBestQuote(
     getStableDexQuote(request),
   ]);
 
-  const validQuotes = quotes.filter((q): q is StableQuote => q !== null && q.amountOut > 0n);
+  const validQuotes = quotes.filter(
+    (q): q is StableQuote => q !== null && q.amountOut > 0n && hasSwapCall(q)
+  );
 
   if (validQuotes.length === 0) return null;
 
@@ -275,3 +278,10 @@ export function getStablePopularPairs(): Array<{ tokenIn: string; tokenOut: stri
 export function getStableNativeDecimals(): number {
   return 6;
 }
+
+registerDexSource({
+  name: 'stable',
+  chains: ['stable'],
+  getQuote: getStableBestQuote,
+  buildTransaction: buildStableSwapTransaction,
+});
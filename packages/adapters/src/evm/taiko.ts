@@ -14,8 +14,10 @@
  */
 
 import type { SwapRequest, SwapRoute, DexAggregator } from '@chainhopper/types';
+import { applySlippage } from '@chainhopper/types';
 import type { AggregatorQuote } from './aggregators.js';
 import { EVM_CHAIN_IDS } from './chains.js';
+import { hasSwapCall, registerDexSource } from './dex-sources.js';
 
 // Taiko Chain ID
 export const TAIKO_CHAIN_ID = 167000;
@@ -210,14 +212,17 @@ export async function getHenjinQuote(
       };
     }
 
-    return buildHenjinFallbackQuote(request);
+    return null;
   } catch {
-    return buildHenjinFallbackQuote(request);
+    return null;
   }
 }
 
 /**
  * Get quote from Panko (Uniswap V2 style)
+ *
+ * Estimated from the input amount rather than read from the router, so
+ * getTaikoBestQuote does not rank it.
  */
 export async function getPankoQuote(
   request: SwapRequest
@@ -241,10 +246,7 @@ export async function getPankoQuote(
         : [tokenIn, TAIKO_TOKENS.WETH, tokenOut];
 
     // Simplified estimation - would use router contract for actual quote
-    const estimatedOutput = calculateEstimatedOutput(
-      request.amountIn,
-      request.slippage
-    );
+    const estimatedOutput = applySlippage(request.amountIn, request.slippage);
 
     return {
       aggregator: '1inch' as DexAggregator,
@@ -352,12 +354,11 @@ export async function getTaikoBestQuote(
 
   const quotes = await Promise.all([
     getHenjinQuote(request),
-    getPankoQuote(request),
     getDtxQuote(request),
   ]);
 
   const validQuotes = quotes.filter(
-    (q): q is TaikoQuote => q !== null && q.amountOut > 0n
+    (q): q is TaikoQuote => q !== null && q.amountOut > 0n && hasSwapCall(q)
   );
 
   if (validQuotes.length === 0) return null;
@@ -475,54 +476,6 @@ function parseHenjinRoute(
   }
 }
 
-function buildHenjinFallbackQuote(request: SwapRequest): TaikoQuote | null {
-  try {
-    const isNativeIn = isNativeToken(request.tokenIn);
-    const tokenIn = isNativeIn ? TAIKO_TOKENS.WETH : request.tokenIn;
-    const tokenOut = isNativeToken(request.tokenOut)
-      ? TAIKO_TOKENS.WETH
-      : request.tokenOut;
-
-    const path =
-      tokenIn === TAIKO_TOKENS.WETH || tokenOut === TAIKO_TOKENS.WETH
-        ? [tokenIn, tokenOut]
-        : [tokenIn, TAIKO_TOKENS.WETH, tokenOut];
-
-    const minAmountOut = calculateEstimatedOutput(
-      request.amountIn,
-      request.slippage
-    );
-
-    return {
-      aggregator: '1inch' as DexAggregator,
-      amountOut: minAmountOut,
-      estimatedGas: 200000n,
-      priceImpact: 0.5,
-      route: [
-        {
-          dex: 'Henjin',
-          poolAddress: TAIKO_ROUTERS.henjinRouter,
-          tokenIn: request.tokenIn,
-          tokenOut: request.tokenOut,
-          percentage: 100,
-        },
-      ],
-      txData: encodeHenjinSwap(request, path, 3000),
-      txTo: TAIKO_ROUTERS.henjinRouter,
-      txValue: isNativeIn ? request.amountIn : 0n,
-      dexName: 'Henjin',
-      feeTier: 3000,
-    };
-  } catch {
-    return null;
-  }
-}
-
-function calculateEstimatedOutput(amountIn: bigint, slippage: number): bigint {
-  const slippageBps = BigInt(Math.floor(slippage * 10000));
-  return (amountIn * (10000n - slippageBps)) / 10000n;
-}
-
 function encodeHenjinSwap(
   request: SwapRequest,
   path: string[],
@@ -545,3 +498,10 @@ function encodePankoSwap(request: SwapRequest, path: string[]): string {
   }
   return '0x38ed1739'; // swapExactTokensForTokens
 }
+
+registerDexSource({
+  name: 'taiko',
+  chains: ['taiko'],
+  getQuote: getTaikoBestQuote,
+  buildTransaction: (quote, request) => buildTaikoSwapTransaction(quote, request.recipient),
+});
@@ -0,0 +1,189 @@
+/**
+ * EVM Token Discovery
+ *
+ * Candidate tokens to check when listing a wallet's balances:
+ * - Per-chain known token lists (the chain modules' *_TOKENS maps)
+ * - An optional indexer (Alchemy, Moralis, etc.) for long-tail tokens
+ */
+
+import { getAddress, isAddress } from 'viem';
+import {
+  NATIVE_TOKEN_ADDRESS,
+  ZERO_ADDRESS,
+  WRAPPED_NATIVE_TOKENS,
+  type EvmChainId,
+} from './chains.js';
+import { SONIC_TOKENS } from './sonic.js';
+import { KAIA_TOKENS } from './kaia.js';
+import { ABSTRACT_TOKENS } from './abstract.js';
+import { MONAD_TOKENS } from './monad.js';
+import { SCROLL_TOKENS } from './scroll.js';
+import { SONEIUM_TOKENS } from './soneium.js';
+import { XLAYER_TOKENS } from './xlayer.js';
+import { INK_TOKENS } from './ink.js';
+import { ZEROG_TOKENS } from './zerog.js';
+import { ASTAR_TOKENS } from './astar.js';
+import { APECHAIN_TOKENS } from './apechain.js';
+import { RONIN_TOKENS } from './ronin.js';
+import { STABLE_TOKENS } from './stable.js';
+import { LINEA_TOKENS } from './linea.js';
+import { ZKSYNC_TOKENS } from './zksync.js';
+import { BLAST_TOKENS } from './blast.js';
+import { MANTLE_TOKENS } from './mantle.js';
+import { MANTA_TOKENS } from './manta.js';
+import { MODE_TOKENS } from './mode.js';
+import { HYPERLIQUID_TOKENS } from './hyperliquid.js';
+import { GNOSIS_TOKENS } from './gnosis.js';
+import { FANTOM_TOKENS } from './fantom.js';
+import { UNICHAIN_TOKENS } from './unichain.js';
+import { TAIKO_TOKENS } from './taiko.js';
+import { METIS_TOKENS } from './metis.js';
+import { ZORA_TOKENS } from './zora.js';
+import { FRAXTAL_TOKENS } from './fraxtal.js';
+import { WORLDCHAIN_TOKENS } from './worldchain.js';
+import { CRONOS_TOKENS } from './cronos.js';
+import { LISK_TOKENS } from './lisk.js';
+import { DERIVE_TOKENS } from './derive.js';
+
+/**
+ * Source of additional token addresses held by a wallet
+ */
+export interface TokenIndexer {
+  readonly name: string;
+  getTokenAddresses(chainId: EvmChainId, walletAddress: string): Promise<string[]>;
+}
+
+// Major tokens on chains without a dedicated chain module
+const ETHEREUM_TOKENS = {
+  USDC: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+  USDT: '0xdAC17F958D2ee523a2206206994597C13D831ec7',
+  DAI: '0x6B175474E89094C44Da98b954EedeAC495271d0F',
+  WBTC: '0x2260FAC5E5542a773Aa44fBCfeDf7C193bc2C599',
+  LINK: '0x514910771AF9Ca656af840dff83E8264EcF986CA',
+  UNI: '0x1f9840a85d5aF5bf1D1762F925BDADdC4201F984',
+};
+
+const BASE_TOKENS = {
+  USDC: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+  USDbC: '0xd9aAEc86B65D86f6A7B5B1b0c42FFA531710b6CA',
+  DAI: '0x50c5725949A6F0c72E6C4a641F24049A917DB0Cb',
+  cbETH: '0x2Ae3F1Ec7F1F5012CFEab0185bfc7aa3cf0DEc22',
+};
+
+const ARBITRUM_TOKENS = {
+  USDC: '0xaf88d065e77c8cC2239327C5EDb3A432268e5831',
+  'USDC.e': '0xFF970A61A04b1cA14834A43f5dE4533eBDDB5CC8',
+  USDT: '0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9',
+  DAI: '0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1',
+  WBTC: '0x2f2a2543B76A4166549F7aaB2e75Bef0aefC5B0f',
+  ARB: '0x912CE59144191C1204E64559FE8253a0e49E6548',
+};
+
+const OPTIMISM_TOKENS = {
+  USDC: '0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85',
+  USDT: '0x94b008aA00579c1307B0EF2c499aD98a8ce58e58',
+  DAI: '0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1',
+  WBTC: '0x68f180fcCe6836688e9084f035309E29Bf0A2095',
+  OP: '0x4200000000000000000000000000000000000042',
+};
+
+const POLYGON_TOKENS = {
+  USDC: '0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359',
+  'USDC.e': '0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174',
+  USDT: '0xc2132D05D31c914a87C6611C10748AEb04B58e8F',
+  DAI: '0x8f3Cf7ad23Cd3CaDbD9735AFf958023239c6A063',
+  WETH: '0x7ceB23fD6bC0adD59E62ac25578270cFf1b9f619',
+  WBTC: '0x1BFD67037B42Cf73acF2047067bd4F2C47D9BfD6',
+};
+
+const BSC_TOKENS = {
+  USDT: '0x55d398326f99059fF775485246999027B3197955',
+  USDC: '0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d',
+  BUSD: '0xe9e7CEA3DedcA5984780Bafc599bD69ADd087D56',
+  ETH: '0x2170Ed0880ac9A755fd29B2688956BD959F933F8',
+  BTCB: '0x7130d2A12B9BCbFAe4f2634d864A1Ee1Ce3Ead9c',
+  CAKE: '0x0E09FaBB73Bd3Ade0a17ECC321fD13a19e81cE82',
+};
+
+const AVALANCHE_TOKENS = {
+  USDC: '0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E',
+  USDT: '0x9702230A8Ea53601f5cD2dc00fDBc13d4dF4A8c7',
+  'WETH.e': '0x49D5c2BdFfac6CE2BFdB6640F4F80f226bc10bAB',
+  'BTC.b': '0x152b9d0FdC40C096757F570A51E494bd4b943E50',
+};
+
+// Known token maps per chain (values may include native/TBD placeholders)
+export const KNOWN_TOKENS: Partial<Record<EvmChainId, Record<string, string>>> = {
+  ethereum: ETHEREUM_TOKENS,
+  base: BASE_TOKENS,
+  arbitrum: ARBITRUM_TOKENS,
+  optimism: OPTIMISM_TOKENS,
+  polygon: POLYGON_TOKENS,
+  bsc: BSC_TOKENS,
+  avalanche: AVALANCHE_TOKENS,
+  sonic: SONIC_TOKENS,
+  kaia: KAIA_TOKENS,
+  monad: MONAD_TOKENS,
+  abstract: ABSTRACT_TOKENS,
+  scroll: SCROLL_TOKENS,
+  soneium: SONEIUM_TOKENS,
+  xlayer: XLAYER_TOKENS,
+  ink: INK_TOKENS,
+  zerog: ZEROG_TOKENS,
+  astar: ASTAR_TOKENS,
+  apechain: APECHAIN_TOKENS,
+  ronin: RONIN_TOKENS,
+  stable: STABLE_TOKENS,
+  linea: LINEA_TOKENS,
+  zksync: ZKSYNC_TOKENS,
+  blast: BLAST_TOKENS,
+  mantle: MANTLE_TOKENS,
+  manta: MANTA_TOKENS,
+  mode: MODE_TOKENS,
+  hyperliquid: HYPERLIQUID_TOKENS,
+  gnosis: GNOSIS_TOKENS,
+  fantom: FANTOM_TOKENS,
+  unichain: UNICHAIN_TOKENS,
+  taiko: TAIKO_TOKENS,
+  metis: METIS_TOKENS,
+  zora: ZORA_TOKENS,
+  fraxtal: FRAXTAL_TOKENS,
+  worldchain: WORLDCHAIN_TOKENS,
+  cronos: CRONOS_TOKENS,
+  lisk: LISK_TOKENS,
+  derive: DERIVE_TOKENS,
+};
+
+/**
+ * Get the ERC-20 addresses worth checking on a chain.
+ * Native placeholders, zero addresses and malformed entries are dropped.
+ */
+export function getKnownTokenAddresses(chainId: EvmChainId): string[] {
+  const candidates = [
+    WRAPPED_NATIVE_TOKENS[chainId],
+    ...Object.values(KNOWN_TOKENS[chainId] ?? {}),
+  ];
+  return normalizeTokenAddresses(candidates);
+}
+
+/**
+ * Checksum and de-duplicate ERC-20 addresses, dropping anything that
+ * cannot hold a balanceOf (native placeholder, zero address, invalid)
+ */
+export function normalizeTokenAddresses(addresses: string[]): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+
+  for (const address of addresses) {
+    if (!address || !isAddress(address, { strict: false })) continue;
+
+    const lower = address.toLowerCase();
+    if (lower === NATIVE_TOKEN_ADDRESS.toLowerCase() || lower === ZERO_ADDRESS) continue;
+    if (seen.has(lower)) continue;
+
+    seen.add(lower);
+    result.push(getAddress(lower));
+  }
+
+  return result;
+}
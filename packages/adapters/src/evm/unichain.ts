@@ -13,6 +13,7 @@
 import type { SwapRequest, SwapRoute, DexAggregator } from '@chainhopper/types';
 import { EVM_CHAIN_IDS } from './chains.js';
 import type { AggregatorQuote } from './aggregators.js';
+import { hasSwapCall, registerDexSource } from './dex-sources.js';
 
 // Unichain Chain ID
 export const UNICHAIN_CHAIN_ID = 130;
@@ -248,7 +249,9 @@ export async function getUnichainBestQuote(
     getUniswapV3UnichainQuote(request),
   ]);
 
-  const validQuotes = quotes.filter((q): q is UnichainQuote => q !== null && q.amountOut > 0n);
+  const validQuotes = quotes.filter(
+    (q): q is UnichainQuote => q !== null && q.amountOut > 0n && hasSwapCall(q)
+  );
 
   if (validQuotes.length === 0) return null;
 
@@ -312,3 +315,10 @@ export function getUnichainPopularPairs(): Array<{ tokenIn: string; tokenOut: st
     { tokenIn: UNICHAIN_TOKENS.USDC, tokenOut: UNICHAIN_TOKENS.USDT, name: 'USDC/USDT' },
   ];
 }
+
+registerDexSource({
+  name: 'unichain',
+  chains: ['unichain'],
+  getQuote: getUnichainBestQuote,
+  buildTransaction: buildUnichainSwapTransaction,
+});
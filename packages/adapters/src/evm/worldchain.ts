@@ -11,6 +11,7 @@
 
 import type { SwapRequest, SwapRoute, DexAggregator } from '@chainhopper/types';
 import type { AggregatorQuote } from './aggregators.js';
+import { hasSwapCall, registerDexSource } from './dex-sources.js';
 
 // World Chain ID
 export const WORLDCHAIN_CHAIN_ID = 480;
@@ -259,7 +260,9 @@ export async function getWorldChainBestQuote(
     getWorldSwapQuote(request),
   ]);
 
-  const validQuotes = quotes.filter((q): q is WorldChainQuote => q !== null && q.amountOut > 0n);
+  const validQuotes = quotes.filter(
+    (q): q is WorldChainQuote => q !== null && q.amountOut > 0n && hasSwapCall(q)
+  );
 
   if (validQuotes.length === 0) return null;
 
@@ -321,3 +324,10 @@ export function getWorldChainPopularPairs(): Array<{ tokenIn: string; tokenOut:
     { tokenIn: WORLDCHAIN_TOKENS.WLD, tokenOut: WORLDCHAIN_TOKENS.USDC, name: 'WLD/USDC' },
   ];
 }
+
+registerDexSource({
+  name: 'worldchain',
+  chains: ['worldchain'],
+  getQuote: getWorldChainBestQuote,
+  buildTransaction: buildWorldChainSwapTransaction,
+});
@@ -12,6 +12,7 @@
 import type { SwapRequest, SwapRoute, DexAggregator } from '@chainhopper/types';
 import { EVM_CHAIN_IDS } from './chains.js';
 import type { AggregatorQuote } from './aggregators.js';
+import { hasSwapCall, registerDexSource } from './dex-sources.js';
 
 // X Layer Chain ID
 export const XLAYER_CHAIN_ID = 196;
@@ -184,7 +185,9 @@ export async function getXLayerBestQuote(
     getXLayerDirectQuote(request),
   ]);
 
-  const validQuotes = quotes.filter((q): q is XLayerQuote => q !== null && q.amountOut > 0n);
+  const validQuotes = quotes.filter(
+    (q): q is XLayerQuote => q !== null && q.amountOut > 0n && hasSwapCall(q)
+  );
 
   if (validQuotes.length === 0) return null;
 
@@ -241,3 +244,10 @@ export function getXLayerPopularPairs(): Array<{ tokenIn: string; tokenOut: stri
     { tokenIn: XLAYER_TOKENS.USDC, tokenOut: XLAYER_TOKENS.USDT, name: 'USDC/USDT' },
   ];
 }
+
+registerDexSource({
+  name: 'xlayer',
+  chains: ['xlayer'],
+  getQuote: getXLayerBestQuote,
+  buildTransaction: buildXLayerSwapTransaction,
+});
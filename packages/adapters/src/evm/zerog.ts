@@ -11,6 +11,7 @@
 
 import type { SwapRequest, SwapRoute, DexAggregator } from '@chainhopper/types';
 import type { AggregatorQuote } from './aggregators.js';
+import { hasSwapCall, registerDexSource } from './dex-sources.js';
 
 // 0G Chain ID
 export const ZEROG_CHAIN_ID = 16600;
@@ -208,7 +209,9 @@ export async function getZeroGBestQuote(
     getGravityDexQuote(request),
   ]);
 
-  const validQuotes = quotes.filter((q): q is ZeroGQuote => q !== null && q.amountOut > 0n);
+  const validQuotes = quotes.filter(
+    (q): q is ZeroGQuote => q !== null && q.amountOut > 0n && hasSwapCall(q)
+  );
 
   if (validQuotes.length === 0) return null;
 
@@ -263,3 +266,10 @@ export function getZeroGPopularPairs(): Array<{ tokenIn: string; tokenOut: strin
     { tokenIn: ZEROG_TOKENS.ETH, tokenOut: ZEROG_TOKENS.A0GI, name: 'ETH/A0GI' },
   ];
 }
+
+registerDexSource({
+  name: 'zerog',
+  chains: ['zerog'],
+  getQuote: getZeroGBestQuote,
+  buildTransaction: buildZeroGSwapTransaction,
+});
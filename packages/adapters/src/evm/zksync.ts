@@ -10,7 +10,9 @@
  */
 
 import type { SwapRequest, SwapRoute } from '@chainhopper/types';
+import { applySlippage, percentToBps } from '@chainhopper/types';
 import { EVM_CHAIN_IDS } from './chains.js';
+import { registerDexSource } from './dex-sources.js';
 
 // Chain constant
 export const ZKSYNC_CHAIN_ID = 324;
@@ -211,16 +213,14 @@ export async function getSyncSwapZkSyncQuote(
       tokenIn,
       tokenOut,
       amount: request.amountIn.toString(),
-      slippage: (request.slippage * 100).toString(),
+      slippage: percentToBps(request.slippage).toString(),
     });
 
     const response = await fetch(`${SYNCSWAP_API}/quote?${params}`, {
       headers: { 'Accept': 'application/json' },
     });
 
-    if (!response.ok) {
-      return buildSyncSwapFallbackQuote(request, poolType);
-    }
+    if (!response.ok) return null;
 
     const data = await response.json() as {
       amountOut?: string;
@@ -243,12 +243,13 @@ export async function getSyncSwapZkSyncQuote(
       poolType,
     };
   } catch {
-    return buildSyncSwapFallbackQuote(request, isStableSwap(request.tokenIn, request.tokenOut) ? 'stable' : 'classic');
+    return null;
   }
 }
 
 /**
- * Get quote from Mute.io
+ * Get quote from Mute.io. The output is estimated from the input amount
+ * rather than read from Mute's pools.
  */
 export async function getMuteQuote(
   request: SwapRequest
@@ -264,7 +265,7 @@ export async function getMuteQuote(
       ? [tokenIn, tokenOut]
       : [tokenIn, ZKSYNC_TOKENS.WETH, tokenOut];
 
-    const minAmountOut = calculateEstimatedOutput(request.amountIn, request.slippage);
+    const minAmountOut = applySlippage(request.amountIn, request.slippage);
 
     return {
       aggregator: 'mute',
@@ -289,7 +290,7 @@ export async function getMuteQuote(
 }
 
 /**
- * Get quote from SpaceFi
+ * Get quote from SpaceFi, estimated the same way as Mute.io
  */
 export async function getSpaceFiQuote(
   request: SwapRequest
@@ -305,7 +306,7 @@ export async function getSpaceFiQuote(
       ? [tokenIn, tokenOut]
       : [tokenIn, ZKSYNC_TOKENS.WETH, tokenOut];
 
-    const minAmountOut = calculateEstimatedOutput(request.amountIn, request.slippage);
+    const minAmountOut = applySlippage(request.amountIn, request.slippage);
 
     return {
       aggregator: 'spacefi',
@@ -330,27 +331,16 @@ export async function getSpaceFiQuote(
 }
 
 /**
- * Get best quote from all zkSync DEXes
+ * Get best quote on zkSync Era. Only SyncSwap prices swaps today; the
+ * Mute.io and SpaceFi estimates are not executable quotes.
  */
 export async function getZkSyncBestQuote(
   request: SwapRequest
 ): Promise<ZkSyncQuote | null> {
   if (request.chainId !== 'zksync') return null;
 
-  const quotes = await Promise.all([
-    getSyncSwapZkSyncQuote(request),
-    getMuteQuote(request),
-    getSpaceFiQuote(request),
-  ]);
-
-  const validQuotes = quotes.filter((q): q is ZkSyncQuote => q !== null && q.amountOut > 0n);
-
-  if (validQuotes.length === 0) return null;
-
-  // Return quote with highest output
-  return validQuotes.reduce((best, current) =>
-    current.amountOut > best.amountOut ? current : best
-  );
+  const quote = await getSyncSwapZkSyncQuote(request);
+  return quote && quote.amountOut > 0n ? quote : null;
 }
 
 /**
@@ -462,45 +452,9 @@ function parseSyncSwapRoute(
   }
 }
 
-function buildSyncSwapFallbackQuote(request: SwapRequest, poolType: 'classic' | 'stable'): ZkSyncQuote | null {
-  try {
-    const isNativeIn = isNativeToken(request.tokenIn);
-    const tokenIn = isNativeIn ? ZKSYNC_TOKENS.WETH : request.tokenIn;
-    const tokenOut = isNativeToken(request.tokenOut) ? ZKSYNC_TOKENS.WETH : request.tokenOut;
-
-    // Build path through WETH if needed
-    const path = tokenIn === ZKSYNC_TOKENS.WETH || tokenOut === ZKSYNC_TOKENS.WETH
-      ? [tokenIn, tokenOut]
-      : [tokenIn, ZKSYNC_TOKENS.WETH, tokenOut];
-
-    const minAmountOut = calculateEstimatedOutput(request.amountIn, request.slippage);
-
-    return {
-      aggregator: 'syncswap',
-      amountOut: minAmountOut,
-      estimatedGas: 300000n,
-      priceImpact: 0.5,
-      route: [{
-        dex: poolType === 'stable' ? 'SyncSwap (Stable)' : 'SyncSwap (Classic)',
-        poolAddress: poolType === 'stable' ? ZKSYNC_FACTORIES.syncswapStable : ZKSYNC_FACTORIES.syncswapClassic,
-        tokenIn: request.tokenIn,
-        tokenOut: request.tokenOut,
-        percentage: 100,
-      }],
-      txData: '0x',
-      txTo: ZKSYNC_ROUTERS.syncswapRouter,
-      txValue: isNativeIn ? request.amountIn : 0n,
-      path,
-      poolType,
-    };
-  } catch {
-    return null;
-  }
-}
-
-function calculateEstimatedOutput(amountIn: bigint, slippage: number): bigint {
-  // Simplified estimation - assumes 1:1 ratio minus slippage
-  // In production, this would use actual price data from oracles
-  const slippageBps = BigInt(Math.floor(slippage * 10000));
-  return amountIn * (10000n - slippageBps) / 10000n;
-}
+registerDexSource({
+  name: 'zksync',
+  chains: ['zksync'],
+  getQuote: getZkSyncBestQuote,
+  buildTransaction: (quote, request) => buildZkSyncSwapTransaction(quote, request.recipient),
+});
@@ -5,11 +5,15 @@
  * Primary DEX: Uniswap V3 (via Universal Router)
  * Also supports: Velodrome fork (potential)
  *
+ * Not registered as a DEX source: quotes are simulated rather than read
+ * from the QuoterV2 contract, and no swap calldata is encoded.
+ *
  * Chain ID: 7777777
  * Native Token: ETH
  */
 
 import type { SwapRequest, SwapRoute } from '@chainhopper/types';
+import { applySlippage, bpsToPercent, deductBps } from '@chainhopper/types';
 import { EVM_CHAIN_IDS } from './chains.js';
 
 // Chain constant
@@ -228,7 +232,7 @@ export async function getUniversalRouterZoraQuote(
       ? [tokenIn, ZORA_TOKENS.WETH, tokenOut]
       : [tokenIn, tokenOut];
 
-    const minAmountOut = calculateEstimatedOutput(request.amountIn, request.slippage);
+    const minAmountOut = applySlippage(request.amountIn, request.slippage);
 
     return {
       aggregator: 'uniswap-universal',
@@ -394,14 +398,12 @@ async function simulateUniswapQuote(
   feeTier: number
 ): Promise<{ amountOut: bigint; priceImpact: number }> {
   // Simplified simulation - in production would call QuoterV2
-  const slippage = 0.003; // 0.3% default
-  const feeImpact = feeTier / 1_000_000; // Convert basis points to percentage
+  const slippageBps = 30n; // 0.3% default
+  const feeBps = BigInt(feeTier) / 100n; // Fee tiers are in hundredths of a basis point
 
-  const amountOut = BigInt(
-    Math.floor(Number(amountIn) * (1 - slippage - feeImpact))
-  );
+  const amountOut = deductBps(amountIn, slippageBps + feeBps);
 
-  const priceImpact = slippage * 100; // Convert to percentage
+  const priceImpact = bpsToPercent(slippageBps);
 
   return { amountOut, priceImpact };
 }
@@ -417,7 +419,7 @@ function buildZoraFallbackQuote(request: SwapRequest): ZoraQuote | null {
       ? [tokenIn, tokenOut]
       : [tokenIn, ZORA_TOKENS.WETH, tokenOut];
 
-    const minAmountOut = calculateEstimatedOutput(request.amountIn, request.slippage);
+    const minAmountOut = applySlippage(request.amountIn, request.slippage);
 
     return {
       aggregator: 'uniswap-v3',
@@ -441,10 +443,3 @@ function buildZoraFallbackQuote(request: SwapRequest): ZoraQuote | null {
     return null;
   }
 }
-
-function calculateEstimatedOutput(amountIn: bigint, slippage: number): bigint {
-  // Simplified estimation - assumes 1:1 ratio minus slippage
-  // In production, this would use actual price data
-  const slippageBps = BigInt(Math.floor(slippage * 10000));
-  return amountIn * (10000n - slippageBps) / 10000n;
-}
@@ -1,3 +1,13 @@
+// RPC endpoint pool
+export {
+  RpcEndpointPool,
+  DEFAULT_MAX_BLOCK_LAG,
+  DEFAULT_MAX_ERROR_RATE,
+  DEFAULT_QUARANTINE_MS,
+  DEFAULT_PROBE_TIMEOUT_MS,
+  type RpcPoolOptions,
+} from './rpc-pool.js';
+
 // TON adapter exports
 export { TonChainAdapter, createTonConfig, createTonTestnetConfig } from './ton/index.js';
 
@@ -12,15 +22,39 @@ export {
   NATIVE_TOKEN_ADDRESS,
   ZERO_ADDRESS,
   WRAPPED_NATIVE_TOKENS,
+  MULTICALL3_ADDRESS,
   // Chain utilities
   isEvmChain,
   getEvmChainId,
   getEvmChainConfig,
   // Aggregator utilities
   getBestQuote,
+  getRankedQuotes,
+  rankQuotes,
+  createGasCostConverter,
+  buildQuoteTransaction,
   get1inchQuote,
   getParaSwapQuote,
   getSupportedAggregators,
+  // DEX source registry
+  registerDexSource,
+  unregisterDexSource,
+  getDexSource,
+  getDexSources,
+  // Multicall batching
+  MulticallClient,
+  DEFAULT_MULTICALL_CHUNK_SIZE,
+  // On-chain pool pricing
+  PoolPriceReader,
+  POOL_FACTORIES,
+  getStablecoins,
+  // Token discovery
+  KNOWN_TOKENS,
+  getKnownTokenAddresses,
+  // Receipt decoding
+  decodeTokenFlows,
+  summarizeSwapFlows,
+  calculateRealisedSlippage,
   // Kaia-specific
   KAIA_CONTRACTS,
   KAIA_TOKENS,
@@ -78,7 +112,26 @@ export {
   getModePopularPairs,
   // Types
   type EvmChainId,
+  type EvmAdapterOptions,
+  type TokenIndexer,
+  type ContractCall,
+  type CallResult,
+  type MulticallClientOptions,
+  type PoolFactory,
+  type PoolKind,
+  type PoolPrice,
   type AggregatorQuote,
+  type BestQuoteOptions,
+  type BuildQuoteOptions,
+  type RankedQuote,
+  type GasPricing,
+  type TokenPriceSource,
+  type DexSource,
+  type DexSourceQuote,
+  type DexSourceOptions,
+  type SwapCallData,
+  type TokenFlow,
+  type SwapFlows,
   type KaiaQuote,
   type MonadQuote,
   type RoninQuote,
@@ -103,4 +156,11 @@ export {
   createEclipseTestnetConfig,
   createEclipseDevnetConfig,
   ECLIPSE_TOKENS,
-} from './svm/index.js';
\ No newline at end of file
+} from './svm/index.js';
+
+// Solana adapter exports
+export {
+  SolanaChainAdapter,
+  createSolanaAdapter,
+  createSolanaConfig,
+} from './solana/index.js';
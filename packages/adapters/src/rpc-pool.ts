@@ -0,0 +1,289 @@
+/**
+ * RPC Endpoint Pool
+ *
+ * Shared by every chain adapter to pick which of its configured RPC URLs
+ * serves requests. Each endpoint is scored on:
+ * - latency (moving average of probe and request round trips)
+ * - error rate (moving average of failed calls)
+ * - block-height lag behind the most advanced endpoint
+ *
+ * Endpoints that lag too far or fail too often are quarantined for a
+ * while; requests go to the best-scoring endpoint that isn't.
+ */
+
+import type { ChainId, ChainStatus, RpcEndpointStatus } from '@chainhopper/types';
+
+export interface RpcPoolOptions<TClient> {
+  /** RPC URLs in order of preference */
+  urls: string[];
+  /** Build the chain SDK client for one URL */
+  createClient: (url: string) => TClient;
+  /** Read the latest block, slot, seqno or checkpoint */
+  getBlockNumber: (client: TClient) => Promise<bigint>;
+  /** Blocks an endpoint may trail the highest one before quarantine */
+  maxBlockLag?: number;
+  /** Error rate (0-1) above which an endpoint is quarantined */
+  maxErrorRate?: number;
+  /** How long a quarantined endpoint is skipped */
+  quarantineMs?: number;
+  /** Probes slower than this count as failures */
+  probeTimeoutMs?: number;
+  /** Latency added to an endpoint's score per unit of error rate */
+  errorPenaltyMs?: number;
+  /** Weight of the newest sample in the moving averages */
+  smoothing?: number;
+}
+
+interface RpcEndpoint<TClient> {
+  url: string;
+  client: TClient;
+  latency: number;
+  errorRate: number;
+  blockNumber: bigint;
+  blockLag: number;
+  quarantinedUntil: number;
+  consecutiveFailures: number;
+  lastChecked?: Date;
+  lastError?: string;
+}
+
+export const DEFAULT_MAX_BLOCK_LAG = 10;
+export const DEFAULT_MAX_ERROR_RATE = 0.5;
+export const DEFAULT_QUARANTINE_MS = 60_000;
+export const DEFAULT_PROBE_TIMEOUT_MS = 5_000;
+
+const DEFAULT_ERROR_PENALTY_MS = 2_000;
+const DEFAULT_SMOOTHING = 0.3;
+
+export class RpcEndpointPool<TClient> {
+  private endpoints: RpcEndpoint<TClient>[];
+  private getBlockNumber: (client: TClient) => Promise<bigint>;
+  private maxBlockLag: number;
+  private maxErrorRate: number;
+  private quarantineMs: number;
+  private probeTimeoutMs: number;
+  private errorPenaltyMs: number;
+  private smoothing: number;
+
+  constructor(options: RpcPoolOptions<TClient>) {
+    if (options.urls.length === 0) {
+      throw new Error('RPC pool needs at least one URL');
+    }
+
+    this.endpoints = [...new Set(options.urls)].map((url) => ({
+      url,
+      client: options.createClient(url),
+      latency: 0,
+      errorRate: 0,
+      blockNumber: 0n,
+      blockLag: 0,
+      quarantinedUntil: 0,
+      consecutiveFailures: 0,
+    }));
+    this.getBlockNumber = options.getBlockNumber;
+    this.maxBlockLag = options.maxBlockLag ?? DEFAULT_MAX_BLOCK_LAG;
+    this.maxErrorRate = options.maxErrorRate ?? DEFAULT_MAX_ERROR_RATE;
+    this.quarantineMs = options.quarantineMs ?? DEFAULT_QUARANTINE_MS;
+    this.probeTimeoutMs = options.probeTimeoutMs ?? DEFAULT_PROBE_TIMEOUT_MS;
+    this.errorPenaltyMs = options.errorPenaltyMs ?? DEFAULT_ERROR_PENALTY_MS;
+    this.smoothing = options.smoothing ?? DEFAULT_SMOOTHING;
+  }
+
+  /**
+   * Client for the healthiest endpoint
+   */
+  get client(): TClient {
+    return this.select().client;
+  }
+
+  /**
+   * URL of the healthiest endpoint
+   */
+  get url(): string {
+    return this.select().url;
+  }
+
+  /**
+   * Run a request against the healthiest endpoint, moving on to the next
+   * best one if it fails. Throws the last error once every endpoint failed.
+   *
+   * Every failure counts against the endpoint, so calls that throw as a
+   * normal outcome (a missing account, a reverting call) and broadcasts
+   * that must not be retried elsewhere should use `client` instead.
+   */
+  async execute<T>(request: (client: TClient) => Promise<T>): Promise<T> {
+    let lastError: unknown;
+
+    for (const endpoint of this.ranked()) {
+      const start = Date.now();
+      try {
+        const result = await request(endpoint.client);
+        this.recordSuccess(endpoint.url, Date.now() - start);
+        return result;
+      } catch (error) {
+        this.recordFailure(endpoint.url, error);
+        lastError = error;
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Read the block height from every endpoint and re-score them
+   */
+  async probe(): Promise<RpcEndpointStatus[]> {
+    const heights = await Promise.all(
+      this.endpoints.map(async (endpoint) => {
+        const start = Date.now();
+        try {
+          const blockNumber = await withTimeout(
+            this.getBlockNumber(endpoint.client),
+            this.probeTimeoutMs
+          );
+          this.recordSuccess(endpoint.url, Date.now() - start);
+          return blockNumber;
+        } catch (error) {
+          this.recordFailure(endpoint.url, error);
+          return null;
+        }
+      })
+    );
+
+    const highest = heights.reduce<bigint>((max, h) => (h !== null && h > max ? h : max), 0n);
+
+    this.endpoints.forEach((endpoint, i) => {
+      const height = heights[i];
+      if (height === null || height === undefined) return;
+
+      endpoint.blockNumber = height;
+      endpoint.blockLag = Number(highest - height);
+      if (endpoint.blockLag > this.maxBlockLag) {
+        this.quarantine(endpoint, `${endpoint.blockLag} blocks behind`);
+      }
+    });
+
+    return this.getStatus();
+  }
+
+  /**
+   * Record a successful call and its round-trip time
+   */
+  recordSuccess(url: string, latency: number): void {
+    const endpoint = this.find(url);
+    if (!endpoint) return;
+
+    endpoint.latency =
+      endpoint.lastChecked === undefined ? latency : this.average(endpoint.latency, latency);
+    endpoint.errorRate = this.average(endpoint.errorRate, 0);
+    endpoint.consecutiveFailures = 0;
+    endpoint.lastChecked = new Date();
+  }
+
+  /**
+   * Record a failed call, quarantining the endpoint if it fails too often
+   */
+  recordFailure(url: string, error: unknown): void {
+    const endpoint = this.find(url);
+    if (!endpoint) return;
+
+    endpoint.errorRate = this.average(endpoint.errorRate, 1);
+    endpoint.consecutiveFailures++;
+    endpoint.lastChecked = new Date();
+    endpoint.lastError = error instanceof Error ? error.message : String(error);
+
+    if (endpoint.errorRate > this.maxErrorRate) {
+      this.quarantine(endpoint, endpoint.lastError);
+    }
+  }
+
+  /**
+   * Current state of every endpoint, in configuration order
+   */
+  getStatus(): RpcEndpointStatus[] {
+    const now = Date.now();
+
+    return this.endpoints.map((endpoint) => {
+      const isQuarantined = endpoint.quarantinedUntil > now;
+      return {
+        url: endpoint.url,
+        isHealthy: !isQuarantined && endpoint.consecutiveFailures === 0,
+        isQuarantined,
+        quarantinedUntil: isQuarantined ? new Date(endpoint.quarantinedUntil) : undefined,
+        latency: Math.round(endpoint.latency),
+        errorRate: endpoint.errorRate,
+        blockNumber: endpoint.blockNumber,
+        blockLag: endpoint.blockLag,
+        lastChecked: endpoint.lastChecked,
+        lastError: endpoint.lastError,
+      };
+    });
+  }
+
+  /**
+   * Summarize the pool as a chain health status
+   */
+  getChainStatus(chainId: ChainId): ChainStatus {
+    const endpoints = this.getStatus();
+    const active = this.select();
+
+    return {
+      chainId,
+      isHealthy: endpoints.some((endpoint) => endpoint.isHealthy),
+      blockNumber: endpoints.reduce((max, e) => (e.blockNumber > max ? e.blockNumber : max), 0n),
+      latency: Math.round(active.latency),
+      lastUpdated: new Date(),
+      rpcUrl: active.url,
+      endpoints,
+    };
+  }
+
+  private select(): RpcEndpoint<TClient> {
+    return this.ranked()[0]!;
+  }
+
+  /**
+   * Endpoints best-first; quarantined ones go last rather than being
+   * dropped so a fully quarantined pool still has somewhere to send calls
+   */
+  private ranked(): RpcEndpoint<TClient>[] {
+    const now = Date.now();
+    const score = (endpoint: RpcEndpoint<TClient>) =>
+      endpoint.latency + endpoint.errorRate * this.errorPenaltyMs;
+
+    return this.endpoints
+      .map((endpoint, index) => ({ endpoint, index }))
+      .sort((a, b) => {
+        const aQuarantined = a.endpoint.quarantinedUntil > now;
+        const bQuarantined = b.endpoint.quarantinedUntil > now;
+        if (aQuarantined !== bQuarantined) return aQuarantined ? 1 : -1;
+        return score(a.endpoint) - score(b.endpoint) || a.index - b.index;
+      })
+      .map(({ endpoint }) => endpoint);
+  }
+
+  private quarantine(endpoint: RpcEndpoint<TClient>, reason: string): void {
+    const alreadyQuarantined = endpoint.quarantinedUntil > Date.now();
+    endpoint.quarantinedUntil = Date.now() + this.quarantineMs;
+
+    if (!alreadyQuarantined && this.endpoints.length > 1) {
+      console.warn(`[RpcPool] Quarantining ${endpoint.url}: ${reason}`);
+    }
+  }
+
+  private find(url: string): RpcEndpoint<TClient> | undefined {
+    return this.endpoints.find((endpoint) => endpoint.url === url);
+  }
+
+  private average(current: number, sample: number): number {
+    return current + (sample - current) * this.smoothing;
+  }
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Timed out after ${ms}ms`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
@@ -22,7 +22,7 @@ import type {
   SvmSimulationResult,
   SolanaConfig,
 } from '@chainhopper/types';
-import { DEFAULT_SOLANA_CONFIG } from '@chainhopper/types';
+import { DEFAULT_SOLANA_CONFIG, applySlippage, percentToBps } from '@chainhopper/types';
 import {
   Connection,
   PublicKey,
@@ -52,14 +52,13 @@ import {
   getPriorityFeeEstimate,
   type JupiterQuoteResponse,
 } from './dex.js';
+import { RpcEndpointPool } from '../rpc-pool.js';
 
 // Re-export submodules
 export * from './tokens.js';
 export * from './dex.js';
 export * from './jupiter.js';
 export * from './raydium.js';
-export * from './orca.js';
-export * from './aggregator.js';
 
 // Solana native token
 const SOLANA_NATIVE: Token = {
@@ -81,8 +80,7 @@ export class SolanaChainAdapter implements SvmAdapter {
   readonly chainId = 'solana' as const;
   readonly config: ChainConfig;
 
-  private connection: Connection;
-  private currentRpcIndex = 0;
+  private rpcPool: RpcEndpointPool<Connection>;
   private tokenCache: Map<string, Token> = new Map();
   private priorityFee: number = 1000; // Default priority fee in microlamports
 
@@ -93,13 +91,19 @@ export class SolanaChainAdapter implements SvmAdapter {
       ...config,
     } as ChainConfig;
 
-    this.connection = new Connection(
-      this.config.rpcUrls[0] || 'https://api.mainnet-beta.solana.com',
-      {
-        commitment: 'confirmed',
-        confirmTransactionInitialTimeout: 60000,
-      }
-    );
+    this.rpcPool = new RpcEndpointPool({
+      urls: this.config.rpcUrls.length
+        ? this.config.rpcUrls
+        : ['https://api.mainnet-beta.solana.com'],
+      createClient: (url) =>
+        new Connection(url, {
+          commitment: 'confirmed',
+          confirmTransactionInitialTimeout: 60000,
+        }),
+      getBlockNumber: async (connection) => BigInt(await connection.getSlot()),
+      // Slots are ~400ms, so allow roughly a minute of lag
+      maxBlockLag: 150,
+    });
 
     // Pre-populate token cache
     for (const token of SOLANA_TOKEN_LIST) {
@@ -117,7 +121,7 @@ export class SolanaChainAdapter implements SvmAdapter {
   }
 
   async initialize(): Promise<void> {
-    await this.ensureConnection();
+    await this.rpcPool.probe();
     // Optionally fetch full token list from Jupiter
     // const tokens = await fetchJupiterTokenList();
     // for (const token of tokens) { ... }
@@ -128,26 +132,8 @@ export class SolanaChainAdapter implements SvmAdapter {
   }
 
   async healthCheck(): Promise<ChainStatus> {
-    const start = Date.now();
-    try {
-      const slot = await this.connection.getSlot();
-      return {
-        chainId: this.chainId,
-        isHealthy: true,
-        blockNumber: BigInt(slot),
-        latency: Date.now() - start,
-        lastUpdated: new Date(),
-      };
-    } catch {
-      await this.failoverRpc();
-      return {
-        chainId: this.chainId,
-        isHealthy: false,
-        blockNumber: 0n,
-        latency: Date.now() - start,
-        lastUpdated: new Date(),
-      };
-    }
+    await this.rpcPool.probe();
+    return this.rpcPool.getChainStatus(this.chainId);
   }
 
   async getToken(address: string): Promise<Token | null> {
@@ -194,7 +180,7 @@ export class SolanaChainAdapter implements SvmAdapter {
 
     // Handle native SOL
     if (tokenAddress === 'native' || tokenAddress === 'SOL') {
-      const balance = await this.connection.getBalance(ownerPubkey);
+      const balance = await this.read((connection) => connection.getBalance(ownerPubkey));
       return {
         token: SOLANA_NATIVE,
         balance: BigInt(balance),
@@ -248,9 +234,8 @@ export class SolanaChainAdapter implements SvmAdapter {
 
     try {
       // Get all SPL token accounts
-      const tokenAccounts = await this.connection.getParsedTokenAccountsByOwner(
-        ownerPubkey,
-        { programId: TOKEN_PROGRAM_ID }
+      const tokenAccounts = await this.read((connection) =>
+        connection.getParsedTokenAccountsByOwner(ownerPubkey, { programId: TOKEN_PROGRAM_ID })
       );
 
       for (const account of tokenAccounts.value) {
@@ -331,17 +316,14 @@ export class SolanaChainAdapter implements SvmAdapter {
       inputMint,
       outputMint,
       amount: request.amountIn.toString(),
-      slippageBps: Math.round(request.slippage * 100),
+      slippageBps: Number(percentToBps(request.slippage)),
     });
 
     if (!jupiterQuote) {
       throw new Error('Failed to get quote from Jupiter');
     }
 
-    const slippageMultiplier = 1 - request.slippage / 100;
-    const amountOutMin = BigInt(
-      Math.floor(Number(jupiterQuote.outAmount) * slippageMultiplier)
-    );
+    const amountOutMin = applySlippage(BigInt(jupiterQuote.outAmount || 0), request.slippage);
 
     // Get priority fee estimate
     this.priorityFee = await getPriorityFeeEstimate(this.connection);
@@ -481,9 +463,9 @@ export class SolanaChainAdapter implements SvmAdapter {
       }
 
       // Get transaction details
-      const txDetails = await this.connection.getTransaction(txHash, {
-        maxSupportedTransactionVersion: 0,
-      });
+      const txDetails = await this.read((connection) =>
+        connection.getTransaction(txHash, { maxSupportedTransactionVersion: 0 })
+      );
 
       const fee = BigInt(txDetails?.meta?.fee || 0);
 
@@ -547,9 +529,8 @@ export class SolanaChainAdapter implements SvmAdapter {
   async getTokenAccounts(owner: string): Promise<SvmTokenAccount[]> {
     const ownerPubkey = new PublicKey(owner);
 
-    const accounts = await this.connection.getParsedTokenAccountsByOwner(
-      ownerPubkey,
-      { programId: TOKEN_PROGRAM_ID }
+    const accounts = await this.read((connection) =>
+      connection.getParsedTokenAccountsByOwner(ownerPubkey, { programId: TOKEN_PROGRAM_ID })
     );
 
     return accounts.value.map((account) => {
@@ -564,7 +545,7 @@ export class SolanaChainAdapter implements SvmAdapter {
   }
 
   async getRecentBlockhash(): Promise<string> {
-    const { blockhash } = await this.connection.getLatestBlockhash();
+    const { blockhash } = await this.read((connection) => connection.getLatestBlockhash());
     return blockhash;
   }
 
@@ -634,22 +615,15 @@ export class SolanaChainAdapter implements SvmAdapter {
   }
 
   // Private helper methods
-  private async ensureConnection(): Promise<void> {
-    try {
-      await this.connection.getSlot();
-    } catch {
-      await this.failoverRpc();
-    }
+  private get connection(): Connection {
+    return this.rpcPool.client;
   }
 
-  private async failoverRpc(): Promise<void> {
-    if (this.config.rpcUrls.length <= 1) return;
-
-    this.currentRpcIndex = (this.currentRpcIndex + 1) % this.config.rpcUrls.length;
-    this.connection = new Connection(
-      this.config.rpcUrls[this.currentRpcIndex],
-      { commitment: 'confirmed' }
-    );
+  /**
+   * Run a read on the healthiest endpoint, failing over to the next one
+   */
+  private read<T>(request: (connection: Connection) => Promise<T>): Promise<T> {
+    return this.rpcPool.execute(request);
   }
 
   private generateQuoteId(): string {
@@ -14,6 +14,7 @@ import type {
   UnsignedTransaction,
   SuiCoin,
 } from '@chainhopper/types';
+import { applySlippage, deductBps } from '@chainhopper/types';
 import {
   SuiClient,
   getFullnodeUrl,
@@ -22,6 +23,7 @@ import {
   Transaction,
   TransactionBlock,
 } from '@mysten/sui/transactions';
+import { RpcEndpointPool } from '../rpc-pool.js';
 
 // SUI native token constant
 const SUI_NATIVE: Token = {
@@ -68,18 +70,19 @@ export class SuiChainAdapter implements SuiAdapter {
   readonly chainId = 'sui' as const;
   readonly config: ChainConfig;
 
-  private client: SuiClient;
-  private currentRpcIndex = 0;
+  private rpcPool: RpcEndpointPool<SuiClient>;
 
   constructor(config: ChainConfig) {
     this.config = config;
-    this.client = new SuiClient({
-      url: config.rpcUrls[0] || getFullnodeUrl('mainnet'),
+    this.rpcPool = new RpcEndpointPool({
+      urls: config.rpcUrls.length ? config.rpcUrls : [getFullnodeUrl('mainnet')],
+      createClient: (url) => new SuiClient({ url }),
+      getBlockNumber: async (client) => BigInt(await client.getLatestCheckpointSequenceNumber()),
     });
   }
 
   async initialize(): Promise<void> {
-    await this.ensureConnection();
+    await this.rpcPool.probe();
   }
 
   async shutdown(): Promise<void> {
@@ -87,26 +90,8 @@ export class SuiChainAdapter implements SuiAdapter {
   }
 
   async healthCheck(): Promise<ChainStatus> {
-    const start = Date.now();
-    try {
-      const checkpoint = await this.client.getLatestCheckpointSequenceNumber();
-      return {
-        chainId: this.chainId,
-        isHealthy: true,
-        blockNumber: BigInt(checkpoint),
-        latency: Date.now() - start,
-        lastUpdated: new Date(),
-      };
-    } catch {
-      await this.failoverRpc();
-      return {
-        chainId: this.chainId,
-        isHealthy: false,
-        blockNumber: 0n,
-        latency: Date.now() - start,
-        lastUpdated: new Date(),
-      };
-    }
+    await this.rpcPool.probe();
+    return this.rpcPool.getChainStatus(this.chainId);
   }
 
   async getToken(address: string): Promise<Token | null> {
@@ -116,9 +101,9 @@ export class SuiChainAdapter implements SuiAdapter {
     }
 
     try {
-      const coinMetadata = await this.client.getCoinMetadata({
-        coinType: address,
-      });
+      const coinMetadata = await this.read((client) =>
+        client.getCoinMetadata({ coinType: address })
+      );
 
       if (!coinMetadata) {
         return null;
@@ -146,10 +131,9 @@ export class SuiChainAdapter implements SuiAdapter {
     const coinType = tokenAddress === 'native' ? COIN_TYPES.SUI : tokenAddress;
 
     try {
-      const balance = await this.client.getBalance({
-        owner: walletAddress,
-        coinType,
-      });
+      const balance = await this.read((client) =>
+        client.getBalance({ owner: walletAddress, coinType })
+      );
 
       const token = await this.getToken(coinType);
 
@@ -184,9 +168,9 @@ export class SuiChainAdapter implements SuiAdapter {
 
   async getTokenBalances(walletAddress: string): Promise<TokenBalance[]> {
     try {
-      const allBalances = await this.client.getAllBalances({
-        owner: walletAddress,
-      });
+      const allBalances = await this.read((client) =>
+        client.getAllBalances({ owner: walletAddress })
+      );
 
       const balances: TokenBalance[] = [];
 
@@ -241,10 +225,7 @@ export class SuiChainAdapter implements SuiAdapter {
     const bestQuote =
       cetusQuote.amountOut >= turbosQuote.amountOut ? cetusQuote : turbosQuote;
 
-    const slippageMultiplier = 1 - request.slippage / 100;
-    const amountOutMin = BigInt(
-      Math.floor(Number(bestQuote.amountOut) * slippageMultiplier)
-    );
+    const amountOutMin = applySlippage(bestQuote.amountOut, request.slippage);
 
     // Estimate gas (Sui uses gas budget, typical swap ~0.01 SUI)
     const estimatedGas = 10_000_000n; // 0.01 SUI in MIST
@@ -412,10 +393,7 @@ export class SuiChainAdapter implements SuiAdapter {
 
   // SUI-specific methods
   async getCoins(address: string, coinType: string): Promise<SuiCoin[]> {
-    const coins = await this.client.getCoins({
-      owner: address,
-      coinType,
-    });
+    const coins = await this.read((client) => client.getCoins({ owner: address, coinType }));
 
     return coins.data.map((coin) => ({
       objectId: coin.coinObjectId,
@@ -441,22 +419,15 @@ export class SuiChainAdapter implements SuiAdapter {
   }
 
   // Private helper methods
-  private async ensureConnection(): Promise<void> {
-    try {
-      await this.client.getLatestCheckpointSequenceNumber();
-    } catch {
-      await this.failoverRpc();
-    }
+  private get client(): SuiClient {
+    return this.rpcPool.client;
   }
 
-  private async failoverRpc(): Promise<void> {
-    if (this.config.rpcUrls.length <= 1) return;
-
-    this.currentRpcIndex =
-      (this.currentRpcIndex + 1) % this.config.rpcUrls.length;
-    this.client = new SuiClient({
-      url: this.config.rpcUrls[this.currentRpcIndex],
-    });
+  /**
+   * Run a read on the healthiest endpoint, failing over to the next one
+   */
+  private read<T>(request: (client: SuiClient) => Promise<T>): Promise<T> {
+    return this.rpcPool.execute(request);
   }
 
   private generateQuoteId(): string {
@@ -501,8 +472,7 @@ export class SuiChainAdapter implements SuiAdapter {
       // In production, would call Cetus SDK to get actual quote
       // Cetus SDK: @cetusprotocol/cetus-sui-clmm-sdk
       // For now, simulate quote with 0.3% fee
-      const feeMultiplier = 0.997;
-      const amountOut = BigInt(Math.floor(Number(request.amountIn) * feeMultiplier));
+      const amountOut = deductBps(request.amountIn, 30n);
 
       return {
         amountOut,
@@ -543,8 +513,7 @@ export class SuiChainAdapter implements SuiAdapter {
       // In production, would call Turbos SDK to get actual quote
       // Turbos SDK: @turbos-finance/sdk
       // For now, simulate quote with 0.25% fee
-      const feeMultiplier = 0.9975;
-      const amountOut = BigInt(Math.floor(Number(request.amountIn) * feeMultiplier));
+      const amountOut = deductBps(request.amountIn, 25n);
 
       return {
         amountOut,
@@ -580,8 +549,8 @@ export class SuiChainAdapter implements SuiAdapter {
       arguments: [
         tx.object(DEX_ROUTERS.cetus.globalConfig),
         tx.object(route.poolAddress),
-        tx.pure.u64(Number(quote.amountIn)),
-        tx.pure.u64(Number(quote.amountOutMin)),
+        tx.pure.u64(quote.amountIn),
+        tx.pure.u64(quote.amountOutMin),
         tx.pure.bool(true), // by_amount_in
       ],
     });
@@ -602,8 +571,8 @@ export class SuiChainAdapter implements SuiAdapter {
       target: `${DEX_ROUTERS.turbos.router}::router::swap_exact_input`,
       arguments: [
         tx.object(route.poolAddress),
-        tx.pure.u64(Number(quote.amountIn)),
-        tx.pure.u64(Number(quote.amountOutMin)),
+        tx.pure.u64(quote.amountIn),
+        tx.pure.u64(quote.amountOutMin),
         tx.pure.u64(Math.floor(Date.now() / 1000) + 3600), // deadline
       ],
     });
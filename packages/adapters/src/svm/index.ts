@@ -14,6 +14,7 @@ import type {
   SvmTokenAccount,
   SvmSimulationResult,
 } from '@chainhopper/types';
+import { applySlippage, deductBps, percentToBps, shortfallPercent } from '@chainhopper/types';
 import {
   Connection,
   PublicKey,
@@ -27,6 +28,7 @@ import {
   getAssociatedTokenAddress,
   getMint,
 } from '@solana/spl-token';
+import { RpcEndpointPool } from '../rpc-pool.js';
 
 // Eclipse native token (ETH on Eclipse L2)
 const ECLIPSE_NATIVE: Token = {
@@ -66,19 +68,20 @@ export class EclipseAdapter implements SvmAdapter {
   readonly chainId = 'eclipse' as const;
   readonly config: ChainConfig;
 
-  private connection: Connection;
-  private currentRpcIndex = 0;
+  private rpcPool: RpcEndpointPool<Connection>;
 
   constructor(config: ChainConfig) {
     this.config = config;
-    this.connection = new Connection(
-      config.rpcUrls[0] || ECLIPSE_CONFIG.mainnetRpc,
-      'confirmed'
-    );
+    this.rpcPool = new RpcEndpointPool({
+      urls: config.rpcUrls.length ? config.rpcUrls : [ECLIPSE_CONFIG.mainnetRpc],
+      createClient: (url) => new Connection(url, 'confirmed'),
+      getBlockNumber: async (connection) => BigInt(await connection.getSlot()),
+      maxBlockLag: 150,
+    });
   }
 
   async initialize(): Promise<void> {
-    await this.ensureConnection();
+    await this.rpcPool.probe();
   }
 
   async shutdown(): Promise<void> {
@@ -86,26 +89,8 @@ export class EclipseAdapter implements SvmAdapter {
   }
 
   async healthCheck(): Promise<ChainStatus> {
-    const start = Date.now();
-    try {
-      const slot = await this.connection.getSlot();
-      return {
-        chainId: this.chainId,
-        isHealthy: true,
-        blockNumber: BigInt(slot),
-        latency: Date.now() - start,
-        lastUpdated: new Date(),
-      };
-    } catch {
-      await this.failoverRpc();
-      return {
-        chainId: this.chainId,
-        isHealthy: false,
-        blockNumber: 0n,
-        latency: Date.now() - start,
-        lastUpdated: new Date(),
-      };
-    }
+    await this.rpcPool.probe();
+    return this.rpcPool.getChainStatus(this.chainId);
   }
 
   async getToken(address: string): Promise<Token | null> {
@@ -144,7 +129,7 @@ export class EclipseAdapter implements SvmAdapter {
 
     // Handle native token (ETH on Eclipse)
     if (tokenAddress === 'native' || tokenAddress === ECLIPSE_TOKENS.ETH) {
-      const balance = await this.connection.getBalance(ownerPubkey);
+      const balance = await this.read((connection) => connection.getBalance(ownerPubkey));
       return {
         token: ECLIPSE_NATIVE,
         balance: BigInt(balance),
@@ -198,9 +183,8 @@ export class EclipseAdapter implements SvmAdapter {
 
     try {
       // Get all token accounts
-      const tokenAccounts = await this.connection.getParsedTokenAccountsByOwner(
-        ownerPubkey,
-        { programId: TOKEN_PROGRAM_ID }
+      const tokenAccounts = await this.read((connection) =>
+        connection.getParsedTokenAccountsByOwner(ownerPubkey, { programId: TOKEN_PROGRAM_ID })
       );
 
       for (const account of tokenAccounts.value) {
@@ -252,10 +236,7 @@ export class EclipseAdapter implements SvmAdapter {
     // Get quote from Jupiter
     const jupiterQuote = await this.getJupiterQuote(request);
 
-    const slippageMultiplier = 1 - request.slippage / 100;
-    const amountOutMin = BigInt(
-      Math.floor(Number(jupiterQuote.outAmount) * slippageMultiplier)
-    );
+    const amountOutMin = applySlippage(BigInt(jupiterQuote.outAmount || 0), request.slippage);
 
     // Estimate compute units (typical swap ~200k CU)
     const estimatedGas = 200_000n;
@@ -363,9 +344,9 @@ export class EclipseAdapter implements SvmAdapter {
       }
 
       // Get transaction details
-      const txDetails = await this.connection.getTransaction(txHash, {
-        maxSupportedTransactionVersion: 0,
-      });
+      const txDetails = await this.read((connection) =>
+        connection.getTransaction(txHash, { maxSupportedTransactionVersion: 0 })
+      );
 
       const fee = BigInt(txDetails?.meta?.fee || 0);
 
@@ -454,9 +435,8 @@ export class EclipseAdapter implements SvmAdapter {
   async getTokenAccounts(owner: string): Promise<SvmTokenAccount[]> {
     const ownerPubkey = new PublicKey(owner);
 
-    const accounts = await this.connection.getParsedTokenAccountsByOwner(
-      ownerPubkey,
-      { programId: TOKEN_PROGRAM_ID }
+    const accounts = await this.read((connection) =>
+      connection.getParsedTokenAccountsByOwner(ownerPubkey, { programId: TOKEN_PROGRAM_ID })
     );
 
     return accounts.value.map((account) => {
@@ -471,7 +451,7 @@ export class EclipseAdapter implements SvmAdapter {
   }
 
   async getRecentBlockhash(): Promise<string> {
-    const { blockhash } = await this.connection.getLatestBlockhash();
+    const { blockhash } = await this.read((connection) => connection.getLatestBlockhash());
     return blockhash;
   }
 
@@ -499,23 +479,16 @@ export class EclipseAdapter implements SvmAdapter {
   }
 
   // Private helper methods
-  private async ensureConnection(): Promise<void> {
-    try {
-      await this.connection.getSlot();
-    } catch {
-      await this.failoverRpc();
-    }
+  private get connection(): Connection {
+    return this.rpcPool.client;
   }
 
-  private async failoverRpc(): Promise<void> {
-    if (this.config.rpcUrls.length <= 1) return;
-
-    this.currentRpcIndex =
-      (this.currentRpcIndex + 1) % this.config.rpcUrls.length;
-    this.connection = new Connection(
-      this.config.rpcUrls[this.currentRpcIndex],
-      'confirmed'
-    );
+  /**
+   * Run a read on the healthiest endpoint, failing over to the next one.
+   * Lookups that throw for a missing mint or account stay on `connection`.
+   */
+  private read<T>(request: (connection: Connection) => Promise<T>): Promise<T> {
+    return this.rpcPool.execute(request);
   }
 
   private generateQuoteId(): string {
@@ -566,7 +539,7 @@ export class EclipseAdapter implements SvmAdapter {
         inputMint,
         outputMint,
         amount: request.amountIn.toString(),
-        slippageBps: Math.round(request.slippage * 100).toString(),
+        slippageBps: percentToBps(request.slippage).toString(),
       });
 
       // Note: Jupiter may not work directly on Eclipse
@@ -596,8 +569,7 @@ export class EclipseAdapter implements SvmAdapter {
     routePlan?: any[];
   } {
     // Simulate a quote with 0.3% fee (typical DEX fee)
-    const feeMultiplier = 0.997;
-    const outAmount = BigInt(Math.floor(Number(request.amountIn) * feeMultiplier));
+    const outAmount = deductBps(request.amountIn, 30n);
 
     return {
       outAmount: outAmount.toString(),
@@ -633,11 +605,7 @@ export class EclipseAdapter implements SvmAdapter {
           inAmount: quote.amountIn.toString(),
           outAmount: quote.amountOut.toString(),
           otherAmountThreshold: quote.amountOutMin.toString(),
-          slippageBps: Math.round(
-            ((Number(quote.amountOut) - Number(quote.amountOutMin)) /
-              Number(quote.amountOut)) *
-              10000
-          ),
+          slippageBps: Number(percentToBps(shortfallPercent(quote.amountOut, quote.amountOutMin))),
           routePlan: quote.route.map((r) => ({
             swapInfo: {
               label: r.dex,
@@ -13,6 +13,7 @@ import type {
   FeeBreakdown,
   UnsignedTransaction,
 } from '@chainhopper/types';
+import { applySlippage } from '@chainhopper/types';
 import {
   TonClient,
   Address,
@@ -24,6 +25,7 @@ import {
   beginCell,
   Cell,
 } from '@ton/ton';
+import { RpcEndpointPool } from '../rpc-pool.js';
 
 // TON native token constant
 const TON_NATIVE: Token = {
@@ -56,18 +58,19 @@ export class TonChainAdapter implements TonAdapter {
   readonly chainId = 'ton' as const;
   readonly config: ChainConfig;
 
-  private client: TonClient;
-  private currentRpcIndex = 0;
+  private rpcPool: RpcEndpointPool<TonClient>;
 
   constructor(config: ChainConfig) {
     this.config = config;
-    this.client = new TonClient({
-      endpoint: config.rpcUrls[0],
+    this.rpcPool = new RpcEndpointPool({
+      urls: config.rpcUrls,
+      createClient: (endpoint) => new TonClient({ endpoint }),
+      getBlockNumber: async (client) => BigInt((await client.getMasterchainInfo()).last.seqno),
     });
   }
 
   async initialize(): Promise<void> {
-    await this.ensureConnection();
+    await this.rpcPool.probe();
   }
 
   async shutdown(): Promise<void> {
@@ -75,27 +78,8 @@ export class TonChainAdapter implements TonAdapter {
   }
 
   async healthCheck(): Promise<ChainStatus> {
-    const start = Date.now();
-    try {
-      const masterchainInfo = await this.client.getMasterchainInfo();
-      return {
-        chainId: this.chainId,
-        isHealthy: true,
-        blockNumber: BigInt(masterchainInfo.last.seqno),
-        latency: Date.now() - start,
-        lastUpdated: new Date(),
-      };
-    } catch {
-      // Try to failover to next RPC
-      await this.failoverRpc();
-      return {
-        chainId: this.chainId,
-        isHealthy: false,
-        blockNumber: 0n,
-        latency: Date.now() - start,
-        lastUpdated: new Date(),
-      };
-    }
+    await this.rpcPool.probe();
+    return this.rpcPool.getChainStatus(this.chainId);
   }
 
   async getToken(address: string): Promise<Token | null> {
@@ -132,8 +116,8 @@ export class TonChainAdapter implements TonAdapter {
     tokenAddress: string
   ): Promise<TokenBalance> {
     if (tokenAddress === 'native' || tokenAddress.toLowerCase() === 'ton') {
-      const balance = await this.client.getBalance(
-        Address.parse(walletAddress)
+      const balance = await this.read((client) =>
+        client.getBalance(Address.parse(walletAddress))
       );
       return {
         token: TON_NATIVE,
@@ -225,10 +209,7 @@ export class TonChainAdapter implements TonAdapter {
     const bestQuote =
       stonfiQuote.amountOut >= dedustQuote.amountOut ? stonfiQuote : dedustQuote;
 
-    const slippageMultiplier = 1 - request.slippage / 100;
-    const amountOutMin = BigInt(
-      Math.floor(Number(bestQuote.amountOut) * slippageMultiplier)
-    );
+    const amountOutMin = applySlippage(bestQuote.amountOut, request.slippage);
 
     // Estimate gas (typical TON swap costs ~0.3 TON)
     const estimatedGas = toNano('0.3');
@@ -389,11 +370,10 @@ export class TonChainAdapter implements TonAdapter {
     ownerAddress: string,
     jettonMaster: string
   ): Promise<string> {
-    const master = this.client.open(
-      JettonMaster.create(Address.parse(jettonMaster))
-    );
-    const walletAddress = await master.getWalletAddress(
-      Address.parse(ownerAddress)
+    const walletAddress = await this.read((client) =>
+      client
+        .open(JettonMaster.create(Address.parse(jettonMaster)))
+        .getWalletAddress(Address.parse(ownerAddress))
     );
     return walletAddress.toString();
   }
@@ -411,22 +391,16 @@ export class TonChainAdapter implements TonAdapter {
   }
 
   // Private helper methods
-  private async ensureConnection(): Promise<void> {
-    try {
-      await this.client.getMasterchainInfo();
-    } catch {
-      await this.failoverRpc();
-    }
+  private get client(): TonClient {
+    return this.rpcPool.client;
   }
 
-  private async failoverRpc(): Promise<void> {
-    if (this.config.rpcUrls.length <= 1) return;
-
-    this.currentRpcIndex =
-      (this.currentRpcIndex + 1) % this.config.rpcUrls.length;
-    this.client = new TonClient({
-      endpoint: this.config.rpcUrls[this.currentRpcIndex],
-    });
+  /**
+   * Run a read on the healthiest endpoint, failing over to the next one.
+   * Get-methods on contracts that may not be deployed stay on `client`.
+   */
+  private read<T>(request: (client: TonClient) => Promise<T>): Promise<T> {
+    return this.rpcPool.execute(request);
   }
 
   private generateQuoteId(): string {
@@ -0,0 +1,576 @@
+-- CreateEnum
+CREATE TYPE "user_tier" AS ENUM ('FREE', 'HOLDER', 'STAKER', 'ENTERPRISE');
+
+-- CreateEnum
+CREATE TYPE "chain_id" AS ENUM ('TON', 'ETHEREUM', 'BASE', 'ARBITRUM', 'OPTIMISM', 'POLYGON', 'BSC', 'AVALANCHE', 'SONIC', 'KAIA', 'BERACHAIN', 'SUI', 'ECLIPSE', 'HYPERLIQUID', 'COSMOS');
+
+-- CreateEnum
+CREATE TYPE "api_permission" AS ENUM ('READ_PORTFOLIO', 'READ_QUOTES', 'WRITE_TRADES', 'WRITE_SETTINGS');
+
+-- CreateEnum
+CREATE TYPE "swap_status" AS ENUM ('PENDING', 'SUBMITTED', 'CONFIRMING', 'CONFIRMED', 'FAILED', 'EXPIRED');
+
+-- CreateEnum
+CREATE TYPE "dex_aggregator" AS ENUM ('JUPITER', 'ONE_INCH', 'PARASWAP', 'ZERO_X', 'STONFI', 'DEDUST', 'CETUS', 'TURBOS');
+
+-- CreateEnum
+CREATE TYPE "fee_collection_status" AS ENUM ('PENDING', 'COLLECTED', 'FAILED');
+
+-- CreateEnum
+CREATE TYPE "referral_tier" AS ENUM ('BRONZE', 'SILVER', 'GOLD', 'DIAMOND');
+
+-- CreateEnum
+CREATE TYPE "points_type" AS ENUM ('TRADING', 'REFERRAL', 'MULTI_CHAIN', 'EARLY_ADOPTER', 'PROMOTIONAL');
+
+-- CreateEnum
+CREATE TYPE "revenue_period" AS ENUM ('DAILY', 'WEEKLY', 'MONTHLY');
+
+-- CreateEnum
+CREATE TYPE "chain_type" AS ENUM ('EVM', 'TON', 'SUI', 'COSMOS', 'SVM');
+
+-- CreateEnum
+CREATE TYPE "price_source" AS ENUM ('COINGECKO', 'COINMARKETCAP', 'DEXSCREENER', 'CHAINLINK', 'PYTH', 'DEX');
+
+-- CreateTable
+CREATE TABLE "users" (
+    "id" TEXT NOT NULL,
+    "telegramId" TEXT,
+    "telegramUsername" TEXT,
+    "email" TEXT,
+    "tier" "user_tier" NOT NULL DEFAULT 'FREE',
+    "referralCode" TEXT NOT NULL,
+    "referredById" TEXT,
+    "settings" JSONB NOT NULL DEFAULT '{"defaultSlippage": 0.5, "autoApprove": false, "notifications": {"tradeConfirmations": true, "priceAlerts": true, "portfolioUpdates": true, "newListings": false}}',
+    "customProfitShare" DECIMAL(5,2),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "users_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "user_stats" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "totalTrades" INTEGER NOT NULL DEFAULT 0,
+    "totalVolumeUsd" DECIMAL(20,2) NOT NULL DEFAULT 0,
+    "totalProfitUsd" DECIMAL(20,2) NOT NULL DEFAULT 0,
+    "totalLossUsd" DECIMAL(20,2) NOT NULL DEFAULT 0,
+    "totalFeePaidUsd" DECIMAL(20,2) NOT NULL DEFAULT 0,
+    "winRate" DECIMAL(5,2) NOT NULL DEFAULT 0,
+    "bestTradeId" TEXT,
+    "worstTradeId" TEXT,
+    "volume7d" DECIMAL(20,2) NOT NULL DEFAULT 0,
+    "volume30d" DECIMAL(20,2) NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "user_stats_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "wallets" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "chainId" "chain_id" NOT NULL,
+    "address" TEXT NOT NULL,
+    "label" TEXT,
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "wallets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "api_keys" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "keyHash" TEXT NOT NULL,
+    "keyPrefix" TEXT NOT NULL,
+    "permissions" "api_permission"[],
+    "rateLimit" INTEGER NOT NULL DEFAULT 60,
+    "lastUsedAt" TIMESTAMP(3),
+    "expiresAt" TIMESTAMP(3),
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "api_keys_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "tokens" (
+    "id" TEXT NOT NULL,
+    "chainId" "chain_id" NOT NULL,
+    "address" TEXT NOT NULL,
+    "symbol" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "decimals" INTEGER NOT NULL,
+    "logoUri" TEXT,
+    "isNative" BOOLEAN NOT NULL DEFAULT false,
+    "isVerified" BOOLEAN NOT NULL DEFAULT false,
+    "isRugPull" BOOLEAN NOT NULL DEFAULT false,
+    "rugScore" INTEGER,
+    "description" TEXT,
+    "website" TEXT,
+    "twitter" TEXT,
+    "telegram" TEXT,
+    "totalSupply" DECIMAL(78,0),
+    "circulatingSupply" DECIMAL(78,0),
+    "holders" INTEGER,
+    "tokenCreatedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "tokens_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "positions" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "walletId" TEXT NOT NULL,
+    "chainId" "chain_id" NOT NULL,
+    "tokenId" TEXT NOT NULL,
+    "entryTxId" TEXT NOT NULL,
+    "exitTxId" TEXT,
+    "amount" DECIMAL(78,0) NOT NULL,
+    "entryPrice" DECIMAL(30,18) NOT NULL,
+    "exitPrice" DECIMAL(30,18),
+    "costBasis" DECIMAL(20,2) NOT NULL,
+    "currentValue" DECIMAL(20,2),
+    "unrealizedPnl" DECIMAL(20,2),
+    "realizedPnl" DECIMAL(20,2),
+    "realizedPnlPct" DECIMAL(10,4),
+    "isOpen" BOOLEAN NOT NULL DEFAULT true,
+    "openedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "closedAt" TIMESTAMP(3),
+
+    CONSTRAINT "positions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "swap_transactions" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "walletId" TEXT NOT NULL,
+    "chainId" "chain_id" NOT NULL,
+    "tokenInId" TEXT NOT NULL,
+    "tokenOutId" TEXT NOT NULL,
+    "amountIn" DECIMAL(78,0) NOT NULL,
+    "amountOut" DECIMAL(78,0) NOT NULL,
+    "amountOutMin" DECIMAL(78,0) NOT NULL,
+    "amountInUsd" DECIMAL(20,2) NOT NULL,
+    "amountOutUsd" DECIMAL(20,2) NOT NULL,
+    "slippage" DECIMAL(5,2) NOT NULL,
+    "priceImpact" DECIMAL(10,4),
+    "dexAggregator" "dex_aggregator" NOT NULL,
+    "route" JSONB,
+    "txHash" TEXT,
+    "status" "swap_status" NOT NULL DEFAULT 'PENDING',
+    "estimatedGas" DECIMAL(78,0),
+    "actualGas" DECIMAL(78,0),
+    "gasPrice" DECIMAL(78,0),
+    "protocolFee" DECIMAL(78,0) NOT NULL DEFAULT 0,
+    "protocolFeeUsd" DECIMAL(20,2) NOT NULL DEFAULT 0,
+    "networkFeeUsd" DECIMAL(20,2),
+    "quoteId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "executedAt" TIMESTAMP(3),
+    "confirmedAt" TIMESTAMP(3),
+
+    CONSTRAINT "swap_transactions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "fee_calculations" (
+    "id" TEXT NOT NULL,
+    "positionId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "userTier" "user_tier" NOT NULL,
+    "chainId" "chain_id" NOT NULL,
+    "costBasis" DECIMAL(20,2) NOT NULL,
+    "exitValue" DECIMAL(20,2) NOT NULL,
+    "realizedProfit" DECIMAL(78,0) NOT NULL,
+    "realizedProfitUsd" DECIMAL(20,2) NOT NULL,
+    "profitSharePct" DECIMAL(5,2) NOT NULL,
+    "feeAmount" DECIMAL(78,0) NOT NULL,
+    "feeAmountUsd" DECIMAL(20,2) NOT NULL,
+    "referralId" TEXT,
+    "referrerSharePct" DECIMAL(5,2),
+    "referrerShare" DECIMAL(78,0),
+    "referrerShareUsd" DECIMAL(20,2),
+    "calculatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "fee_calculations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "fee_collections" (
+    "id" TEXT NOT NULL,
+    "feeCalculationId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "chainId" "chain_id" NOT NULL,
+    "txHash" TEXT NOT NULL,
+    "tokenAddress" TEXT NOT NULL,
+    "amount" DECIMAL(78,0) NOT NULL,
+    "amountUsd" DECIMAL(20,2) NOT NULL,
+    "status" "fee_collection_status" NOT NULL DEFAULT 'PENDING',
+    "collectedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "fee_collections_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "referrals" (
+    "id" TEXT NOT NULL,
+    "referrerId" TEXT NOT NULL,
+    "refereeId" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "tier" "referral_tier" NOT NULL DEFAULT 'BRONZE',
+    "totalVolume" DECIMAL(20,2) NOT NULL DEFAULT 0,
+    "totalEarnings" DECIMAL(20,2) NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "referrals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "referral_stats" (
+    "id" TEXT NOT NULL,
+    "referrerId" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "currentTier" "referral_tier" NOT NULL DEFAULT 'BRONZE',
+    "totalReferrals" INTEGER NOT NULL DEFAULT 0,
+    "activeReferrals" INTEGER NOT NULL DEFAULT 0,
+    "weeklyVolume" DECIMAL(20,2) NOT NULL DEFAULT 0,
+    "totalVolume" DECIMAL(20,2) NOT NULL DEFAULT 0,
+    "totalEarningsUsd" DECIMAL(20,2) NOT NULL DEFAULT 0,
+    "pendingEarningsUsd" DECIMAL(20,2) NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "referral_stats_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "referral_payouts" (
+    "id" TEXT NOT NULL,
+    "referralId" TEXT NOT NULL,
+    "referrerId" TEXT NOT NULL,
+    "chainId" "chain_id" NOT NULL,
+    "txHash" TEXT NOT NULL,
+    "amount" DECIMAL(78,0) NOT NULL,
+    "amountUsd" DECIMAL(20,2) NOT NULL,
+    "paidAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "referral_payouts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "user_points" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "totalPoints" DECIMAL(20,2) NOT NULL DEFAULT 0,
+    "tradingPoints" DECIMAL(20,2) NOT NULL DEFAULT 0,
+    "referralPoints" DECIMAL(20,2) NOT NULL DEFAULT 0,
+    "bonusPoints" DECIMAL(20,2) NOT NULL DEFAULT 0,
+    "multiChainMultiplier" DECIMAL(3,2) NOT NULL DEFAULT 1,
+    "lastTradeAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "user_points_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "points_transactions" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "type" "points_type" NOT NULL,
+    "amount" DECIMAL(20,2) NOT NULL,
+    "multiplier" DECIMAL(3,2) NOT NULL DEFAULT 1,
+    "finalAmount" DECIMAL(20,2) NOT NULL,
+    "sourceType" TEXT,
+    "sourceId" TEXT,
+    "description" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "points_transactions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "protocol_revenue" (
+    "id" TEXT NOT NULL,
+    "period" "revenue_period" NOT NULL,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "totalFeesCollectedUsd" DECIMAL(20,2) NOT NULL,
+    "totalReferralPaidUsd" DECIMAL(20,2) NOT NULL,
+    "netRevenueUsd" DECIMAL(20,2) NOT NULL,
+    "totalVolume" DECIMAL(20,2) NOT NULL,
+    "totalTrades" INTEGER NOT NULL,
+    "uniqueUsers" INTEGER NOT NULL,
+    "byChain" JSONB NOT NULL,
+    "byTier" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "protocol_revenue_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "chain_configs" (
+    "id" TEXT NOT NULL,
+    "chainId" "chain_id" NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" "chain_type" NOT NULL,
+    "nativeCurrencyName" TEXT NOT NULL,
+    "nativeCurrencySymbol" TEXT NOT NULL,
+    "nativeCurrencyDecimals" INTEGER NOT NULL,
+    "rpcUrls" JSONB NOT NULL,
+    "blockExplorerUrls" JSONB NOT NULL,
+    "feeCollectorAddress" TEXT,
+    "swapRouterAddress" TEXT,
+    "referralRegistryAddress" TEXT,
+    "isTestnet" BOOLEAN NOT NULL DEFAULT false,
+    "isEnabled" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "chain_configs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "chain_status" (
+    "id" TEXT NOT NULL,
+    "chainId" "chain_id" NOT NULL,
+    "isHealthy" BOOLEAN NOT NULL DEFAULT true,
+    "blockNumber" DECIMAL(78,0) NOT NULL,
+    "latency" INTEGER NOT NULL,
+    "lastError" TEXT,
+    "lastUpdated" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "chain_status_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "price_cache" (
+    "id" TEXT NOT NULL,
+    "chainId" "chain_id" NOT NULL,
+    "tokenAddress" TEXT NOT NULL,
+    "priceUsd" DECIMAL(30,18) NOT NULL,
+    "priceChange24h" DECIMAL(10,4),
+    "volume24h" DECIMAL(20,2),
+    "marketCap" DECIMAL(20,2),
+    "source" "price_source" NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "price_cache_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "users_telegramId_key" ON "users"("telegramId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "users_email_key" ON "users"("email");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "users_referralCode_key" ON "users"("referralCode");
+
+-- CreateIndex
+CREATE INDEX "users_telegramId_idx" ON "users"("telegramId");
+
+-- CreateIndex
+CREATE INDEX "users_referralCode_idx" ON "users"("referralCode");
+
+-- CreateIndex
+CREATE INDEX "users_tier_idx" ON "users"("tier");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_stats_userId_key" ON "user_stats"("userId");
+
+-- CreateIndex
+CREATE INDEX "user_stats_totalVolumeUsd_idx" ON "user_stats"("totalVolumeUsd");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "wallets_userId_chainId_address_key" ON "wallets"("userId", "chainId", "address");
+
+-- CreateIndex
+CREATE INDEX "wallets_userId_idx" ON "wallets"("userId");
+
+-- CreateIndex
+CREATE INDEX "wallets_chainId_address_idx" ON "wallets"("chainId", "address");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "api_keys_keyHash_key" ON "api_keys"("keyHash");
+
+-- CreateIndex
+CREATE INDEX "api_keys_userId_idx" ON "api_keys"("userId");
+
+-- CreateIndex
+CREATE INDEX "api_keys_keyHash_idx" ON "api_keys"("keyHash");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tokens_chainId_address_key" ON "tokens"("chainId", "address");
+
+-- CreateIndex
+CREATE INDEX "tokens_symbol_idx" ON "tokens"("symbol");
+
+-- CreateIndex
+CREATE INDEX "tokens_chainId_idx" ON "tokens"("chainId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "positions_exitTxId_key" ON "positions"("exitTxId");
+
+-- CreateIndex
+CREATE INDEX "positions_userId_isOpen_idx" ON "positions"("userId", "isOpen");
+
+-- CreateIndex
+CREATE INDEX "positions_chainId_tokenId_idx" ON "positions"("chainId", "tokenId");
+
+-- CreateIndex
+CREATE INDEX "positions_openedAt_idx" ON "positions"("openedAt");
+
+-- CreateIndex
+CREATE INDEX "swap_transactions_userId_status_idx" ON "swap_transactions"("userId", "status");
+
+-- CreateIndex
+CREATE INDEX "swap_transactions_chainId_txHash_idx" ON "swap_transactions"("chainId", "txHash");
+
+-- CreateIndex
+CREATE INDEX "swap_transactions_createdAt_idx" ON "swap_transactions"("createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "fee_calculations_positionId_key" ON "fee_calculations"("positionId");
+
+-- CreateIndex
+CREATE INDEX "fee_calculations_userId_idx" ON "fee_calculations"("userId");
+
+-- CreateIndex
+CREATE INDEX "fee_calculations_chainId_idx" ON "fee_calculations"("chainId");
+
+-- CreateIndex
+CREATE INDEX "fee_calculations_calculatedAt_idx" ON "fee_calculations"("calculatedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "fee_collections_feeCalculationId_key" ON "fee_collections"("feeCalculationId");
+
+-- CreateIndex
+CREATE INDEX "fee_collections_userId_idx" ON "fee_collections"("userId");
+
+-- CreateIndex
+CREATE INDEX "fee_collections_chainId_txHash_idx" ON "fee_collections"("chainId", "txHash");
+
+-- CreateIndex
+CREATE INDEX "fee_collections_status_idx" ON "fee_collections"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "referrals_refereeId_key" ON "referrals"("refereeId");
+
+-- CreateIndex
+CREATE INDEX "referrals_referrerId_idx" ON "referrals"("referrerId");
+
+-- CreateIndex
+CREATE INDEX "referrals_code_idx" ON "referrals"("code");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "referral_stats_referrerId_key" ON "referral_stats"("referrerId");
+
+-- CreateIndex
+CREATE INDEX "referral_payouts_referrerId_idx" ON "referral_payouts"("referrerId");
+
+-- CreateIndex
+CREATE INDEX "referral_payouts_chainId_txHash_idx" ON "referral_payouts"("chainId", "txHash");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_points_userId_key" ON "user_points"("userId");
+
+-- CreateIndex
+CREATE INDEX "user_points_totalPoints_idx" ON "user_points"("totalPoints");
+
+-- CreateIndex
+CREATE INDEX "points_transactions_userId_idx" ON "points_transactions"("userId");
+
+-- CreateIndex
+CREATE INDEX "points_transactions_createdAt_idx" ON "points_transactions"("createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "protocol_revenue_period_startDate_key" ON "protocol_revenue"("period", "startDate");
+
+-- CreateIndex
+CREATE INDEX "protocol_revenue_startDate_idx" ON "protocol_revenue"("startDate");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "chain_configs_chainId_key" ON "chain_configs"("chainId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "chain_status_chainId_key" ON "chain_status"("chainId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "price_cache_chainId_tokenAddress_key" ON "price_cache"("chainId", "tokenAddress");
+
+-- CreateIndex
+CREATE INDEX "price_cache_updatedAt_idx" ON "price_cache"("updatedAt");
+
+-- AddForeignKey
+ALTER TABLE "users" ADD CONSTRAINT "users_referredById_fkey" FOREIGN KEY ("referredById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "wallets" ADD CONSTRAINT "wallets_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "api_keys" ADD CONSTRAINT "api_keys_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "positions" ADD CONSTRAINT "positions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "positions" ADD CONSTRAINT "positions_walletId_fkey" FOREIGN KEY ("walletId") REFERENCES "wallets"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "positions" ADD CONSTRAINT "positions_tokenId_fkey" FOREIGN KEY ("tokenId") REFERENCES "tokens"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "positions" ADD CONSTRAINT "positions_entryTxId_fkey" FOREIGN KEY ("entryTxId") REFERENCES "swap_transactions"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "positions" ADD CONSTRAINT "positions_exitTxId_fkey" FOREIGN KEY ("exitTxId") REFERENCES "swap_transactions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "swap_transactions" ADD CONSTRAINT "swap_transactions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "swap_transactions" ADD CONSTRAINT "swap_transactions_walletId_fkey" FOREIGN KEY ("walletId") REFERENCES "wallets"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "swap_transactions" ADD CONSTRAINT "swap_transactions_tokenInId_fkey" FOREIGN KEY ("tokenInId") REFERENCES "tokens"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "swap_transactions" ADD CONSTRAINT "swap_transactions_tokenOutId_fkey" FOREIGN KEY ("tokenOutId") REFERENCES "tokens"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "fee_calculations" ADD CONSTRAINT "fee_calculations_positionId_fkey" FOREIGN KEY ("positionId") REFERENCES "positions"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "fee_calculations" ADD CONSTRAINT "fee_calculations_referralId_fkey" FOREIGN KEY ("referralId") REFERENCES "referrals"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "fee_collections" ADD CONSTRAINT "fee_collections_feeCalculationId_fkey" FOREIGN KEY ("feeCalculationId") REFERENCES "fee_calculations"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "fee_collections" ADD CONSTRAINT "fee_collections_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "referrals" ADD CONSTRAINT "referrals_referrerId_fkey" FOREIGN KEY ("referrerId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "referrals" ADD CONSTRAINT "referrals_refereeId_fkey" FOREIGN KEY ("refereeId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "referral_payouts" ADD CONSTRAINT "referral_payouts_referralId_fkey" FOREIGN KEY ("referralId") REFERENCES "referrals"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "referral_payouts" ADD CONSTRAINT "referral_payouts_referrerId_fkey" FOREIGN KEY ("referrerId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "user_points" ADD CONSTRAINT "user_points_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
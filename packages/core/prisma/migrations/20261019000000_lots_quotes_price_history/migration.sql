@@ -0,0 +1,190 @@
+-- CreateEnum
+CREATE TYPE "api_key_mode" AS ENUM ('READ_ONLY', 'TRADE');
+
+-- AlterEnum
+ALTER TYPE "dex_aggregator" ADD VALUE 'OOGABOOGA' BEFORE 'STONFI';
+ALTER TYPE "dex_aggregator" ADD VALUE 'DRAGONSWAP' BEFORE 'STONFI';
+ALTER TYPE "dex_aggregator" ADD VALUE 'KLAYSWAP' BEFORE 'STONFI';
+ALTER TYPE "dex_aggregator" ADD VALUE 'NATIVE_DEX';
+
+-- AlterTable
+ALTER TABLE "api_keys" ADD COLUMN     "mode" "api_key_mode" NOT NULL DEFAULT 'TRADE',
+ADD COLUMN     "allowedChains" "chain_id"[],
+ADD COLUMN     "maxNotionalUsd" DECIMAL(20,2),
+ADD COLUMN     "allowedIps" TEXT[],
+ADD COLUMN     "previousKeyHash" TEXT,
+ADD COLUMN     "previousKeyExpiresAt" TIMESTAMP(3),
+ADD COLUMN     "rotatedAt" TIMESTAMP(3);
+
+-- Existing keys are unscoped: every chain, any IP
+UPDATE "api_keys" SET "allowedChains" = '{}', "allowedIps" = '{}';
+
+-- CreateTable
+CREATE TABLE "api_key_usage" (
+    "id" TEXT NOT NULL,
+    "apiKeyId" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "requests" INTEGER NOT NULL DEFAULT 0,
+    "weight" INTEGER NOT NULL DEFAULT 0,
+    "rejected" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "api_key_usage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "position_lots" (
+    "id" TEXT NOT NULL,
+    "positionId" TEXT NOT NULL,
+    "entryTxId" TEXT NOT NULL,
+    "transferredFromId" TEXT,
+    "amount" DECIMAL(78,0) NOT NULL,
+    "remainingAmount" DECIMAL(78,0) NOT NULL,
+    "entryPrice" DECIMAL(30,18) NOT NULL,
+    "costBasis" DECIMAL(20,2) NOT NULL,
+    "openedAt" TIMESTAMP(3) NOT NULL,
+    "closedAt" TIMESTAMP(3),
+
+    CONSTRAINT "position_lots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "lot_disposals" (
+    "id" TEXT NOT NULL,
+    "lotId" TEXT NOT NULL,
+    "exitTxId" TEXT NOT NULL,
+    "amount" DECIMAL(78,0) NOT NULL,
+    "costBasis" DECIMAL(20,2) NOT NULL,
+    "proceeds" DECIMAL(20,2) NOT NULL,
+    "realizedPnl" DECIMAL(20,2) NOT NULL,
+    "disposedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "lot_disposals_pkey" PRIMARY KEY ("id")
+);
+
+-- Each open position becomes a single lot, so later sells have a cost basis to consume
+INSERT INTO "position_lots" ("id", "positionId", "entryTxId", "amount", "remainingAmount", "entryPrice", "costBasis", "openedAt")
+SELECT 'lot_' || "id", "id", "entryTxId", "amount", "amount", "entryPrice", "costBasis", "openedAt"
+FROM "positions"
+WHERE "isOpen" = true;
+
+-- CreateTable
+CREATE TABLE "quotes" (
+    "id" TEXT NOT NULL,
+    "chainId" "chain_id" NOT NULL,
+    "userId" TEXT,
+    "data" JSONB NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "quotes_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "swap_transactions" ADD COLUMN     "networkFee" DECIMAL(78,0),
+ADD COLUMN     "nativePriceUsd" DECIMAL(30,18),
+ADD COLUMN     "lotIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "lastCheckedAt" TIMESTAMP(3);
+
+-- A quote is recorded as at most one swap; later duplicates lose the reference
+UPDATE "swap_transactions" SET "quoteId" = NULL
+WHERE "id" IN (
+    SELECT "id" FROM (
+        SELECT "id", ROW_NUMBER() OVER (PARTITION BY "quoteId" ORDER BY "createdAt", "id") AS "rank"
+        FROM "swap_transactions"
+        WHERE "quoteId" IS NOT NULL
+    ) AS "ranked"
+    WHERE "rank" > 1
+);
+
+-- AlterTable
+ALTER TABLE "fee_calculations" ADD COLUMN     "exitTxId" TEXT;
+
+-- Fees were charged when a position closed, so they belong to its exit
+UPDATE "fee_calculations" AS "fee" SET "exitTxId" = COALESCE("position"."exitTxId", "position"."entryTxId")
+FROM "positions" AS "position"
+WHERE "position"."id" = "fee"."positionId";
+
+ALTER TABLE "fee_calculations" ALTER COLUMN "exitTxId" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "price_cache" ADD COLUMN     "confidence" DECIMAL(5,4),
+ADD COLUMN     "timestamp" TIMESTAMP(3);
+
+-- Cached prices were observed when they were last written
+UPDATE "price_cache" SET "timestamp" = "updatedAt";
+
+ALTER TABLE "price_cache" ALTER COLUMN "timestamp" SET NOT NULL;
+
+-- DropIndex
+DROP INDEX "positions_exitTxId_key";
+
+-- DropIndex
+DROP INDEX "fee_calculations_positionId_key";
+
+-- DropIndex
+DROP INDEX "price_cache_chainId_tokenAddress_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "api_keys_previousKeyHash_key" ON "api_keys"("previousKeyHash");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "api_key_usage_apiKeyId_date_key" ON "api_key_usage"("apiKeyId", "date");
+
+-- CreateIndex
+CREATE INDEX "positions_walletId_tokenId_isOpen_idx" ON "positions"("walletId", "tokenId", "isOpen");
+
+-- CreateIndex
+CREATE INDEX "position_lots_positionId_closedAt_idx" ON "position_lots"("positionId", "closedAt");
+
+-- CreateIndex
+CREATE INDEX "position_lots_entryTxId_idx" ON "position_lots"("entryTxId");
+
+-- CreateIndex
+CREATE INDEX "lot_disposals_lotId_idx" ON "lot_disposals"("lotId");
+
+-- CreateIndex
+CREATE INDEX "lot_disposals_exitTxId_idx" ON "lot_disposals"("exitTxId");
+
+-- CreateIndex
+CREATE INDEX "quotes_userId_idx" ON "quotes"("userId");
+
+-- CreateIndex
+CREATE INDEX "quotes_expiresAt_idx" ON "quotes"("expiresAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "swap_transactions_quoteId_key" ON "swap_transactions"("quoteId");
+
+-- CreateIndex
+CREATE INDEX "swap_transactions_status_lastCheckedAt_idx" ON "swap_transactions"("status", "lastCheckedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "fee_calculations_positionId_exitTxId_key" ON "fee_calculations"("positionId", "exitTxId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "price_cache_chainId_tokenAddress_source_timestamp_key" ON "price_cache"("chainId", "tokenAddress", "source", "timestamp");
+
+-- CreateIndex
+CREATE INDEX "price_cache_chainId_tokenAddress_timestamp_idx" ON "price_cache"("chainId", "tokenAddress", "timestamp");
+
+-- AddForeignKey
+ALTER TABLE "api_key_usage" ADD CONSTRAINT "api_key_usage_apiKeyId_fkey" FOREIGN KEY ("apiKeyId") REFERENCES "api_keys"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "position_lots" ADD CONSTRAINT "position_lots_positionId_fkey" FOREIGN KEY ("positionId") REFERENCES "positions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "position_lots" ADD CONSTRAINT "position_lots_entryTxId_fkey" FOREIGN KEY ("entryTxId") REFERENCES "swap_transactions"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "position_lots" ADD CONSTRAINT "position_lots_transferredFromId_fkey" FOREIGN KEY ("transferredFromId") REFERENCES "position_lots"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "lot_disposals" ADD CONSTRAINT "lot_disposals_lotId_fkey" FOREIGN KEY ("lotId") REFERENCES "position_lots"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "lot_disposals" ADD CONSTRAINT "lot_disposals_exitTxId_fkey" FOREIGN KEY ("exitTxId") REFERENCES "swap_transactions"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "fee_calculations" ADD CONSTRAINT "fee_calculations_exitTxId_fkey" FOREIGN KEY ("exitTxId") REFERENCES "swap_transactions"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -10,6 +10,12 @@ import {
   hasAnyPermission,
   getDefaultPermissions,
   getAllPermissions,
+  rotateApiKey,
+  getEffectivePermissions,
+  validateIpAllowList,
+  isIpAllowed,
+  checkTradeScope,
+  MAX_ROTATION_OVERLAP_MS,
 } from './apiKey.js';
 
 describe('API Key Authentication', () => {
@@ -258,4 +264,80 @@ describe('API Key Authentication', () => {
       expect(all.length).toBe(4);
     });
   });
+
+  describe('rotateApiKey', () => {
+    it('should issue a new secret and keep the old one for the overlap', () => {
+      const current = generateApiKey();
+      const before = Date.now();
+
+      const rotated = rotateApiKey(current.keyHash, 60_000);
+
+      expect(rotated.keyHash).not.toBe(current.keyHash);
+      expect(rotated.keyHash).toBe(hashApiKey(rotated.key));
+      expect(rotated.previousKeyHash).toBe(current.keyHash);
+      expect(rotated.previousKeyExpiresAt.getTime()).toBeGreaterThanOrEqual(before + 60_000);
+    });
+
+    it('should cap the overlap window', () => {
+      const rotated = rotateApiKey('hash', 30 * 24 * 60 * 60 * 1000);
+
+      expect(rotated.previousKeyExpiresAt.getTime()).toBeLessThanOrEqual(
+        Date.now() + MAX_ROTATION_OVERLAP_MS
+      );
+    });
+  });
+
+  describe('scopes', () => {
+    const scope = {
+      mode: 'trade' as const,
+      chains: ['BASE', 'ARBITRUM'],
+      maxNotionalUsd: 1000,
+      allowedIps: [],
+    };
+
+    it('should drop write permissions from read-only keys', () => {
+      const permissions = ['READ_PORTFOLIO', 'WRITE_TRADES', 'WRITE_SETTINGS'];
+
+      expect(getEffectivePermissions(permissions, 'read_only')).toEqual(['READ_PORTFOLIO']);
+      expect(getEffectivePermissions(permissions, 'trade')).toEqual(permissions);
+    });
+
+    it('should validate IP allow-list entries', () => {
+      expect(validateIpAllowList(['203.0.113.7', '10.0.0.0/8', '2001:db8::/32'])).toBeNull();
+      expect(validateIpAllowList(['10.0.0.0/33'])).toContain('10.0.0.0/33');
+      expect(validateIpAllowList(['example.com'])).toContain('example.com');
+    });
+
+    it('should match IPs against addresses and CIDR ranges', () => {
+      const allowList = ['203.0.113.7', '10.0.0.0/8', '2001:db8::/32'];
+
+      expect(isIpAllowed('203.0.113.7', allowList)).toBe(true);
+      expect(isIpAllowed('10.42.1.9', allowList)).toBe(true);
+      expect(isIpAllowed('::ffff:10.42.1.9', allowList)).toBe(true);
+      expect(isIpAllowed('2001:db8:1::5', allowList)).toBe(true);
+      expect(isIpAllowed('203.0.113.8', allowList)).toBe(false);
+      expect(isIpAllowed('not-an-ip', allowList)).toBe(false);
+      expect(isIpAllowed('198.51.100.1', [])).toBe(true);
+    });
+
+    it('should check trades against the chain list and notional limit', () => {
+      expect(checkTradeScope(scope, { chainId: 'base', notionalUsd: 500 })).toBeNull();
+      expect(checkTradeScope(scope, { chainId: 'ethereum', notionalUsd: 500 })?.code).toBe(
+        'CHAIN_NOT_ALLOWED'
+      );
+      expect(checkTradeScope(scope, { chainId: 'base', notionalUsd: 1500 })?.code).toBe(
+        'MAX_NOTIONAL_EXCEEDED'
+      );
+      expect(checkTradeScope(scope, { chainId: 'base' })?.code).toBe('NOTIONAL_UNKNOWN');
+      expect(
+        checkTradeScope({ ...scope, chains: [], maxNotionalUsd: null }, { chainId: 'ethereum' })
+      ).toBeNull();
+    });
+
+    it('should refuse every trade from read-only keys', () => {
+      expect(
+        checkTradeScope({ ...scope, mode: 'read_only' }, { chainId: 'base', notionalUsd: 1 })?.code
+      ).toBe('API_KEY_READ_ONLY');
+    });
+  });
 });
@@ -6,6 +6,7 @@
  */
 
 import { createHash, randomBytes } from 'crypto';
+import { BlockList, isIP } from 'net';
 
 // API key prefix for identification
 const API_KEY_PREFIX = 'chpr_';
@@ -41,6 +42,39 @@ export interface GeneratedApiKey {
   keyHash: string; // SHA-256 hash for storage
 }
 
+export interface RotatedApiKey extends GeneratedApiKey {
+  previousKeyHash: string; // The replaced secret, still accepted until previousKeyExpiresAt
+  previousKeyExpiresAt: Date;
+}
+
+/**
+ * read_only keys can never trade or change settings, whatever their
+ * permissions; trade keys have exactly their permissions
+ */
+export type ApiKeyMode = 'read_only' | 'trade';
+
+/**
+ * Restrictions on an API key beyond its permission list
+ */
+export interface ApiKeyScope {
+  mode: ApiKeyMode;
+  chains: string[]; // Chains the key may trade on; empty allows every chain
+  maxNotionalUsd: number | null; // Largest trade value in USD; null for no limit
+  allowedIps: string[]; // IPs or CIDR ranges the key may be used from; empty allows any
+}
+
+export interface ApiKeyScopeViolation {
+  error: string;
+  code: string;
+}
+
+// Permissions a read_only key never has
+const WRITE_PERMISSIONS = ['WRITE_TRADES', 'WRITE_SETTINGS'];
+
+// How long a rotated-out secret keeps working
+export const DEFAULT_ROTATION_OVERLAP_MS = 24 * 60 * 60 * 1000;
+export const MAX_ROTATION_OVERLAP_MS = 7 * 24 * 60 * 60 * 1000;
+
 export interface ApiKeyValidation {
   valid: boolean;
   keyHash?: string;
@@ -70,6 +104,29 @@ export function generateApiKey(): GeneratedApiKey {
   };
 }
 
+/**
+ * Generate a replacement secret for an existing key
+ *
+ * The old secret stays valid for the overlap window so clients can switch
+ * over without downtime.
+ *
+ * @param currentKeyHash - Hash of the secret being replaced
+ * @param overlapMs - How long the old secret keeps working
+ * @returns The new key, plus the old hash and when it stops working
+ */
+export function rotateApiKey(
+  currentKeyHash: string,
+  overlapMs: number = DEFAULT_ROTATION_OVERLAP_MS
+): RotatedApiKey {
+  const overlap = Math.min(Math.max(overlapMs, 0), MAX_ROTATION_OVERLAP_MS);
+
+  return {
+    ...generateApiKey(),
+    previousKeyHash: currentKeyHash,
+    previousKeyExpiresAt: new Date(Date.now() + overlap),
+  };
+}
+
 /**
  * Hash an API key using SHA-256
  *
@@ -234,6 +291,148 @@ export function hasAnyPermission(
   return requiredPermissions.some((perm) => userPermissions.includes(perm));
 }
 
+/**
+ * Permissions a key actually has once its mode is applied
+ *
+ * @param permissions - The permissions granted to the key
+ * @param mode - The key's mode
+ * @returns The permissions to enforce
+ */
+export function getEffectivePermissions(permissions: string[], mode: ApiKeyMode): string[] {
+  if (mode === 'trade') {
+    return permissions;
+  }
+
+  return permissions.filter((perm) => !WRITE_PERMISSIONS.includes(perm));
+}
+
+/**
+ * Check an IP allow-list for entries that are not an IP or CIDR range
+ *
+ * @param entries - IPv4/IPv6 addresses or CIDR ranges
+ * @returns An error for the first invalid entry, or null if all are valid
+ */
+export function validateIpAllowList(entries: string[]): string | null {
+  for (const entry of entries) {
+    if (!parseCidr(entry)) {
+      return `Invalid IP address or CIDR range: ${entry}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check whether a client IP is covered by an allow-list
+ *
+ * @param ip - The client IP
+ * @param allowList - IPs or CIDR ranges; empty allows any IP
+ * @returns True if the IP may use the key
+ */
+export function isIpAllowed(ip: string, allowList: string[]): boolean {
+  if (allowList.length === 0) {
+    return true;
+  }
+
+  // IPv4 clients on a dual-stack socket show up as ::ffff:a.b.c.d
+  const address = ip.startsWith('::ffff:') && isIP(ip.slice(7)) === 4 ? ip.slice(7) : ip;
+  const family = isIP(address);
+  if (!family) {
+    return false;
+  }
+
+  const blockList = new BlockList();
+  for (const entry of allowList) {
+    const range = parseCidr(entry);
+    if (range) {
+      blockList.addSubnet(range.address, range.prefix, range.type);
+    }
+  }
+
+  return blockList.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Check whether a key may trade on a chain
+ *
+ * @param scope - The key's scope
+ * @param chainId - Chain ID, in any case
+ * @returns True if the chain is allowed
+ */
+export function isChainAllowed(scope: ApiKeyScope, chainId: string): boolean {
+  return (
+    scope.chains.length === 0 ||
+    scope.chains.some((chain) => chain.toLowerCase() === chainId.toLowerCase())
+  );
+}
+
+/**
+ * Check a trade against an API key's scope
+ *
+ * @param scope - The key's scope
+ * @param trade - The chain traded on and the trade's value in USD, if known
+ * @returns The reason the trade is refused, or null if it is allowed
+ */
+export function checkTradeScope(
+  scope: ApiKeyScope,
+  trade: { chainId: string; notionalUsd?: number }
+): ApiKeyScopeViolation | null {
+  if (scope.mode === 'read_only') {
+    return { error: 'API key is read-only', code: 'API_KEY_READ_ONLY' };
+  }
+
+  if (!isChainAllowed(scope, trade.chainId)) {
+    return {
+      error: `API key is not allowed to trade on ${trade.chainId}`,
+      code: 'CHAIN_NOT_ALLOWED',
+    };
+  }
+
+  if (scope.maxNotionalUsd !== null) {
+    // An unpriced trade can't be shown to be under the limit
+    if (trade.notionalUsd === undefined) {
+      return {
+        error: 'Trade value could not be determined for the API key limit',
+        code: 'NOTIONAL_UNKNOWN',
+      };
+    }
+
+    if (trade.notionalUsd > scope.maxNotionalUsd) {
+      return {
+        error: `Trade value exceeds the API key limit of $${scope.maxNotionalUsd}`,
+        code: 'MAX_NOTIONAL_EXCEEDED',
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Parse an IP or CIDR range
+ */
+function parseCidr(
+  entry: string
+): { address: string; prefix: number; type: 'ipv4' | 'ipv6' } | null {
+  const [address = '', prefix, ...rest] = entry.trim().split('/');
+  const family = isIP(address);
+  const maxPrefix = family === 4 ? 32 : 128;
+
+  if (!family || rest.length > 0) {
+    return null;
+  }
+
+  if (prefix !== undefined && (!/^\d{1,3}$/.test(prefix) || Number(prefix) > maxPrefix)) {
+    return null;
+  }
+
+  return {
+    address,
+    prefix: prefix === undefined ? maxPrefix : Number(prefix),
+    type: family === 4 ? 'ipv4' : 'ipv6',
+  };
+}
+
 /**
  * Get default permissions for a new API key
  */
@@ -33,9 +33,21 @@ export {
   hasAnyPermission,
   getDefaultPermissions,
   getAllPermissions,
+  rotateApiKey,
+  getEffectivePermissions,
+  validateIpAllowList,
+  isIpAllowed,
+  isChainAllowed,
+  checkTradeScope,
   API_PERMISSIONS,
+  DEFAULT_ROTATION_OVERLAP_MS,
+  MAX_ROTATION_OVERLAP_MS,
   type ApiKeyPermission,
   type GeneratedApiKey,
+  type RotatedApiKey,
+  type ApiKeyMode,
+  type ApiKeyScope,
+  type ApiKeyScopeViolation,
   type ApiKeyValidation,
 } from './apiKey.js';
 
@@ -58,6 +70,7 @@ export {
 // Middleware
 export {
   initAuthMiddleware,
+  getRequestWeight,
   jwtAuth,
   apiKeyAuth,
   telegramAuth,
@@ -66,5 +79,14 @@ export {
   requirePermission,
   requireTier,
   rateLimit,
+  proxiedClientIp,
+  connectionClientIp,
+  verifyApiKeyAccess,
   type AuthLookupFunctions,
+  type ApiKeyAccess,
+  type ApiKeyAccessError,
+  type ApiKeyAccessResult,
+  type AuthMiddlewareOptions,
+  type ApiKeyUsageEvent,
+  type RateLimitOptions,
 } from './middleware.js';
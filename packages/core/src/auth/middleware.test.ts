@@ -0,0 +1,341 @@
+import { describe, it, expect, beforeEach, afterEach, vi, type Mock } from 'vitest';
+import { Hono, type MiddlewareHandler } from 'hono';
+import {
+  apiKeyAuth,
+  getRequestWeight,
+  initAuthMiddleware,
+  optionalAuth,
+  rateLimit,
+  verifyApiKeyAccess,
+  type AuthLookupFunctions,
+} from './middleware.js';
+import { generateApiKey } from './apiKey.js';
+import { MemoryCacheStore } from '../cache/index.js';
+
+function createApp(middleware: MiddlewareHandler) {
+  const app = new Hono();
+  app.use('*', middleware);
+  app.get('/', (c) => c.json({ ok: true }));
+  return app;
+}
+
+// Requests arrive through the proxy, which reports the client in X-Forwarded-For
+function request(app: Hono, ip = '203.0.113.7') {
+  return app.request(
+    '/',
+    { headers: { 'x-forwarded-for': ip } },
+    { incoming: { socket: { remoteAddress: '127.0.0.1' } } }
+  );
+}
+
+describe('rateLimit', () => {
+  beforeEach(() => {
+    initAuthMiddleware({} as any, { trustedProxies: ['127.0.0.1'] });
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-03-01T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should reject requests over the per-minute limit', async () => {
+    const app = createApp(rateLimit(2));
+
+    const responses = [await request(app), await request(app), await request(app)];
+
+    expect(responses.map((res) => res.status)).toEqual([200, 200, 429]);
+    expect(responses[1]!.headers.get('X-RateLimit-Remaining')).toBe('0');
+    expect(await responses[2]!.json()).toEqual({
+      error: 'Rate limit exceeded',
+      code: 'RATE_LIMIT_EXCEEDED',
+      retryAfter: 60,
+    });
+    expect((await request(app, '198.51.100.1')).status).toBe(200);
+  });
+
+  it('should not let clients pick their identity with forwarded hops', async () => {
+    const app = createApp(rateLimit(1));
+
+    expect((await request(app, '10.0.0.1, 203.0.113.7')).status).toBe(200);
+    expect((await request(app, '10.0.0.2, 203.0.113.7')).status).toBe(429);
+  });
+
+  it('should count across instances sharing a store', async () => {
+    const store = new MemoryCacheStore();
+    const replicaA = createApp(rateLimit(1, { store }));
+    const replicaB = createApp(rateLimit(1, { store }));
+
+    expect((await request(replicaA)).status).toBe(200);
+    expect((await request(replicaB)).status).toBe(429);
+
+    vi.advanceTimersByTime(60_000);
+    expect((await request(replicaB)).status).toBe(200);
+  });
+});
+
+describe('apiKeyAuth', () => {
+  const apiKey = generateApiKey();
+  let lookups: Record<
+    'findUserById' | 'findApiKeyByHash' | 'findUserByTelegramId' | 'recordApiKeyUsage',
+    Mock
+  >;
+
+  function createKeyApp() {
+    const app = new Hono();
+    app.use('*', apiKeyAuth());
+    app.get('/quote', (c) => c.json({ ok: true }));
+    app.get('/tokens/:chainId', (c) => c.json({ ok: true }));
+    return app;
+  }
+
+  function get(app: Hono, path: string) {
+    return app.request(path, { headers: { Authorization: `Bearer ${apiKey.key}` } });
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-03-01T12:00:00Z'));
+    lookups = {
+      findUserById: vi.fn().mockResolvedValue({ id: 'user_1', tier: 'FREE' }),
+      findApiKeyByHash: vi.fn().mockResolvedValue({
+        id: 'key_1',
+        userId: 'user_1',
+        permissions: ['read'],
+        rateLimit: 10,
+        isActive: true,
+        expiresAt: null,
+      }),
+      findUserByTelegramId: vi.fn(),
+      recordApiKeyUsage: vi.fn().mockResolvedValue(undefined),
+    };
+    initAuthMiddleware(lookups, {
+      rateLimitStore: new MemoryCacheStore(),
+      requestWeights: { 'GET /quote': 4, '/tokens/{chainId}': 1 },
+      trustedProxies: ['127.0.0.1'],
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should weigh requests by route', () => {
+    expect(getRequestWeight('GET', '/quote')).toBe(4);
+    expect(getRequestWeight('POST', '/quote')).toBe(1);
+    expect(getRequestWeight('GET', '/tokens/base')).toBe(1);
+    expect(getRequestWeight('GET', '/tokens/base/extra')).toBe(1);
+    expect(getRequestWeight('GET', '/portfolio')).toBe(1);
+  });
+
+  it('should enforce the key rate limit with weighted requests', async () => {
+    const app = createKeyApp();
+
+    const first = await get(app, '/quote');
+    const second = await get(app, '/quote');
+    const third = await get(app, '/quote');
+
+    expect([first.status, second.status, third.status]).toEqual([200, 200, 429]);
+    expect(first.headers.get('X-RateLimit-Limit')).toBe('10');
+    expect(first.headers.get('X-RateLimit-Remaining')).toBe('6');
+    expect(second.headers.get('X-RateLimit-Remaining')).toBe('2');
+    expect(third.headers.get('Retry-After')).toBe('60');
+
+    // Cheaper routes still fit in what is left
+    expect((await get(app, '/tokens/base')).status).toBe(200);
+  });
+
+  it('should record usage for accepted and rejected requests', async () => {
+    const app = createKeyApp();
+
+    await get(app, '/quote');
+    await get(app, '/quote');
+    await get(app, '/quote');
+
+    expect(lookups.recordApiKeyUsage.mock.calls).toEqual([
+      ['key_1', { weight: 4, rejected: false }],
+      ['key_1', { weight: 4, rejected: false }],
+      ['key_1', { weight: 4, rejected: true }],
+    ]);
+  });
+
+  it('should accept a rotated-out secret only during the overlap', async () => {
+    const key = await lookups.findApiKeyByHash();
+    lookups.findApiKeyByHash.mockResolvedValue({
+      ...key,
+      previousKeyHash: apiKey.keyHash,
+      previousKeyExpiresAt: new Date('2025-03-01T13:00:00Z'),
+    });
+    const app = createKeyApp();
+
+    expect((await get(app, '/tokens/base')).status).toBe(200);
+
+    vi.setSystemTime(new Date('2025-03-01T13:00:01Z'));
+    const res = await get(app, '/tokens/base');
+    expect(res.status).toBe(401);
+    expect(await res.json()).toMatchObject({ code: 'API_KEY_ROTATED' });
+  });
+
+  it('should only accept requests from allowed IPs', async () => {
+    const key = await lookups.findApiKeyByHash();
+    lookups.findApiKeyByHash.mockResolvedValue({
+      ...key,
+      scope: { mode: 'trade', chains: [], maxNotionalUsd: null, allowedIps: ['10.0.0.0/8'] },
+    });
+    const app = createKeyApp();
+    const from = (headers: Record<string, string>, remoteAddress = '127.0.0.1') =>
+      app.request(
+        '/quote',
+        { headers: { Authorization: `Bearer ${apiKey.key}`, ...headers } },
+        { incoming: { socket: { remoteAddress } } }
+      );
+
+    expect((await from({ 'x-real-ip': '10.1.2.3' })).status).toBe(200);
+    expect((await from({ 'x-real-ip': '203.0.113.7' })).status).toBe(403);
+    expect((await from({ 'x-forwarded-for': '203.0.113.7, 10.1.2.3' })).status).toBe(200);
+    expect((await get(app, '/quote')).status).toBe(403);
+  });
+
+  it('should only read proxy headers from trusted proxies', async () => {
+    const key = await lookups.findApiKeyByHash();
+    lookups.findApiKeyByHash.mockResolvedValue({
+      ...key,
+      scope: { mode: 'trade', chains: [], maxNotionalUsd: null, allowedIps: ['10.0.0.0/8'] },
+    });
+    const app = createKeyApp();
+    const direct = (remoteAddress: string, headers: Record<string, string> = {}) =>
+      app.request(
+        '/quote',
+        { headers: { Authorization: `Bearer ${apiKey.key}`, ...headers } },
+        { incoming: { socket: { remoteAddress } } }
+      );
+
+    // A client reaching the port directly claims an allow-listed address
+    const spoofed = { 'x-real-ip': '10.1.2.3', 'x-forwarded-for': '10.1.2.3' };
+    expect((await direct('203.0.113.7', spoofed)).status).toBe(403);
+    expect((await direct('10.4.5.6')).status).toBe(200);
+  });
+
+  it('should not trust client-supplied forwarded hops', async () => {
+    const key = await lookups.findApiKeyByHash();
+    lookups.findApiKeyByHash.mockResolvedValue({
+      ...key,
+      scope: { mode: 'trade', chains: [], maxNotionalUsd: null, allowedIps: ['10.0.0.0/8'] },
+    });
+    const app = createKeyApp();
+
+    // The client wrote the first hop; the proxy appended the real address
+    const res = await app.request(
+      '/quote',
+      {
+        headers: {
+          Authorization: `Bearer ${apiKey.key}`,
+          'x-forwarded-for': '10.1.2.3, 203.0.113.7',
+          'x-real-ip': '203.0.113.7',
+        },
+      },
+      { incoming: { socket: { remoteAddress: '127.0.0.1' } } }
+    );
+
+    expect(res.status).toBe(403);
+  });
+
+  it('should strip write permissions from read-only keys', async () => {
+    const key = await lookups.findApiKeyByHash();
+    lookups.findApiKeyByHash.mockResolvedValue({
+      ...key,
+      permissions: ['READ_QUOTES', 'WRITE_TRADES'],
+      scope: { mode: 'read_only', chains: [], maxNotionalUsd: null, allowedIps: [] },
+    });
+    const app = new Hono();
+    app.get('/quote', apiKeyAuth(['READ_QUOTES']), (c) => c.json(c.get('apiKeyPermissions')));
+    app.post('/swap/build', apiKeyAuth(['WRITE_TRADES']), (c) => c.json({ ok: true }));
+
+    const read = await get(app, '/quote');
+    const write = await app.request('/swap/build', {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${apiKey.key}` },
+    });
+
+    expect(await read.json()).toEqual(['READ_QUOTES']);
+    expect(write.status).toBe(403);
+  });
+
+  it('should authenticate and meter API keys on optional-auth routes', async () => {
+    const app = new Hono();
+    app.use('*', optionalAuth());
+    app.get('/quote', (c) => c.json({ userId: c.get('userId') ?? null }));
+
+    expect(await (await get(app, '/quote')).json()).toEqual({ userId: 'user_1' });
+    expect(lookups.recordApiKeyUsage).toHaveBeenCalledWith('key_1', { weight: 4, rejected: false });
+    expect(await (await app.request('/quote')).json()).toEqual({ userId: null });
+  });
+
+  it('should not count requests refused for other reasons', async () => {
+    lookups.findUserById.mockResolvedValue(null);
+
+    const res = await get(createKeyApp(), '/quote');
+
+    expect(res.status).toBe(401);
+    expect(lookups.recordApiKeyUsage).not.toHaveBeenCalled();
+  });
+});
+
+describe('verifyApiKeyAccess', () => {
+  const apiKey = generateApiKey();
+  const now = new Date('2025-03-01T12:00:00Z');
+  let key: NonNullable<Awaited<ReturnType<AuthLookupFunctions['findApiKeyByHash']>>>;
+  let lookups: { findApiKeyByHash: Mock; findUserById: Mock };
+
+  beforeEach(() => {
+    key = {
+      id: 'key_1',
+      userId: 'user_1',
+      permissions: ['READ_QUOTES', 'WRITE_TRADES'],
+      rateLimit: 10,
+      isActive: true,
+      expiresAt: new Date('2025-06-01T00:00:00Z'),
+      previousKeyHash: null,
+      previousKeyExpiresAt: null,
+      scope: { mode: 'read_only', chains: [], maxNotionalUsd: null, allowedIps: ['10.0.0.0/8'] },
+    };
+    lookups = {
+      findApiKeyByHash: vi.fn(async () => key),
+      findUserById: vi.fn().mockResolvedValue({ id: 'user_1', tier: 'FREE' }),
+    };
+  });
+
+  it('should return the owner and the permissions the key scope leaves', async () => {
+    const access = await verifyApiKeyAccess(apiKey.key, '10.1.2.3', lookups, now);
+
+    expect(access).toMatchObject({
+      valid: true,
+      key: { id: 'key_1' },
+      user: { id: 'user_1' },
+      permissions: ['READ_QUOTES'],
+      expiresAt: key.expiresAt,
+    });
+  });
+
+  it('should end a rotated-out secret with its overlap window', async () => {
+    key.previousKeyHash = apiKey.keyHash;
+    key.previousKeyExpiresAt = new Date('2025-03-01T13:00:00Z');
+
+    const access = await verifyApiKeyAccess(apiKey.key, '10.1.2.3', lookups, now);
+
+    expect(access).toMatchObject({ valid: true, expiresAt: key.previousKeyExpiresAt });
+  });
+
+  it('should refuse keys used from outside their allow-list before loading the owner', async () => {
+    expect(await verifyApiKeyAccess(apiKey.key, '203.0.113.7', lookups, now)).toEqual({
+      valid: false,
+      code: 'IP_NOT_ALLOWED',
+      message: 'API key cannot be used from this IP address',
+      status: 403,
+    });
+    expect(await verifyApiKeyAccess(apiKey.key, null, lookups, now)).toMatchObject({
+      code: 'IP_NOT_ALLOWED',
+    });
+    expect(lookups.findUserById).not.toHaveBeenCalled();
+  });
+});
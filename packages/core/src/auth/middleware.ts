@@ -4,8 +4,12 @@
  *
  * Provides middleware functions for protecting API routes with:
  * - JWT authentication (for web/mobile clients)
- * - API key authentication (for programmatic access)
+ * - API key authentication (for programmatic access), with a per-key
+ *   rate limit weighted by route, IP allow-lists and rotation overlap
  * - Telegram Web App authentication (for Mini App)
+ *
+ * verifyApiKeyAccess holds the API key checks, so WebSocket connections
+ * authenticate keys exactly as HTTP requests do.
  */
 
 import type { Context, MiddlewareHandler, Next } from 'hono';
@@ -13,10 +17,15 @@ import { verifyToken, type DecodedToken } from './jwt.js';
 import {
   extractApiKeyFromHeader,
   validateApiKeyFormat,
+  verifyApiKey,
   hasPermission,
   hasAllPermissions,
+  getEffectivePermissions,
+  isIpAllowed,
+  type ApiKeyScope,
 } from './apiKey.js';
 import { verifyTelegramWebAppData, type TelegramUser } from './telegram.js';
+import { MemoryCacheStore, type CacheStore, type SlidingWindowResult } from '../cache/index.js';
 
 // Extend Hono context with auth data
 declare module 'hono' {
@@ -26,6 +35,7 @@ declare module 'hono' {
     authType: 'jwt' | 'apiKey' | 'telegram';
     apiKeyId?: string;
     apiKeyPermissions?: string[];
+    apiKeyScope?: ApiKeyScope;
     telegramUser?: TelegramUser;
     jwtPayload?: DecodedToken;
   }
@@ -41,6 +51,7 @@ interface AuthError {
 // Lookup functions (to be provided by the application)
 export interface AuthLookupFunctions {
   findUserById: (id: string) => Promise<{ id: string; tier: string } | null>;
+  // Match the current hash, or the previous one of a rotated key
   findApiKeyByHash: (hash: string) => Promise<{
     id: string;
     userId: string;
@@ -48,19 +59,239 @@ export interface AuthLookupFunctions {
     rateLimit: number;
     isActive: boolean;
     expiresAt: Date | null;
+    previousKeyHash?: string | null;
+    previousKeyExpiresAt?: Date | null;
+    scope?: ApiKeyScope;
   } | null>;
   findUserByTelegramId: (telegramId: string) => Promise<{ id: string; tier: string } | null>;
   createUserFromTelegram?: (user: TelegramUser) => Promise<{ id: string; tier: string }>;
   updateApiKeyLastUsed?: (keyId: string) => Promise<void>;
+  recordApiKeyUsage?: (keyId: string, usage: ApiKeyUsageEvent) => Promise<void>;
+}
+
+type ApiKeyRecord = NonNullable<Awaited<ReturnType<AuthLookupFunctions['findApiKeyByHash']>>>;
+
+// An API key that passed verifyApiKeyAccess
+export interface ApiKeyAccess {
+  valid: true;
+  key: ApiKeyRecord;
+  user: { id: string; tier: string };
+  // Key permissions after its scope; read-only keys lose write permissions
+  permissions: string[];
+  // When the presented secret stops working: the key's expiry, or the end
+  // of its rotation overlap
+  expiresAt?: Date;
+}
+
+export interface ApiKeyAccessError {
+  valid: false;
+  code: string;
+  message: string;
+  status: 401 | 403;
+}
+
+export type ApiKeyAccessResult = ApiKeyAccess | ApiKeyAccessError;
+
+// One API key request, as reported to recordApiKeyUsage
+export interface ApiKeyUsageEvent {
+  weight: number;
+  rejected: boolean; // refused by the key's rate limit
+}
+
+export interface AuthMiddlewareOptions {
+  // Where per-key rate limit windows are counted; share one across replicas
+  rateLimitStore?: CacheStore;
+  // Cost of a request against its key's per-minute limit, keyed by route:
+  // 'GET /quote' or '/tokens', with {param} segments matching any value.
+  // Unlisted routes cost 1.
+  requestWeights?: Record<string, number>;
+  // Addresses or CIDRs of the reverse proxies whose X-Real-IP and
+  // X-Forwarded-For are believed. Other peers can't set their own IP.
+  trustedProxies?: string[];
+  // Client IP checked against key allow-lists and used to rate limit
+  // anonymous requests. Defaults to the socket address of a Node server
+  // request, or the address a trusted proxy reported for it.
+  getClientIp?: (c: Context) => string | null;
+}
+
+interface RequestWeight {
+  method: string | null;
+  pattern: RegExp;
+  weight: number;
 }
 
+const RATE_LIMIT_WINDOW_MS = 60_000;
+
 let lookupFunctions: AuthLookupFunctions | null = null;
+let apiKeyRateLimitStore: CacheStore = new MemoryCacheStore();
+let requestWeights: RequestWeight[] = [];
+let trustedProxies: string[] = [];
+let resolveClientIp: (c: Context) => string | null = socketClientIp;
 
 /**
  * Initialize auth middleware with lookup functions
  */
-export function initAuthMiddleware(functions: AuthLookupFunctions): void {
+export function initAuthMiddleware(
+  functions: AuthLookupFunctions,
+  options: AuthMiddlewareOptions = {}
+): void {
   lookupFunctions = functions;
+  apiKeyRateLimitStore = options.rateLimitStore ?? new MemoryCacheStore();
+  trustedProxies = options.trustedProxies ?? [];
+  resolveClientIp = options.getClientIp ?? socketClientIp;
+  requestWeights = Object.entries(options.requestWeights ?? {}).map(([route, weight]) => {
+    const [method, path] = route.includes(' ') ? route.split(' ', 2) : [null, route];
+    const source = path!
+      .split(/\{[^}]+\}/)
+      .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+      .join('[^/]+');
+    return { method: method?.toUpperCase() ?? null, pattern: new RegExp(`^${source}$`), weight };
+  });
+}
+
+/**
+ * Cost of a request against its API key's rate limit
+ */
+export function getRequestWeight(method: string, path: string): number {
+  const match = requestWeights.find(
+    (entry) => (entry.method === null || entry.method === method) && entry.pattern.test(path)
+  );
+  return match?.weight ?? 1;
+}
+
+/**
+ * Client IP as reported by the reverse proxy. X-Real-IP is overwritten by
+ * the proxy; X-Forwarded-For keeps whatever the client sent and appends
+ * each hop, so only its rightmost entry was written by the proxy. Any
+ * peer can send these headers; connectionClientIp checks who sent them.
+ */
+export function proxiedClientIp(header: (name: string) => string | undefined): string | null {
+  const realIp = header('x-real-ip')?.trim();
+  if (realIp) return realIp;
+  return header('x-forwarded-for')?.split(',').pop()?.trim() || null;
+}
+
+/**
+ * Client IP of a connection from `remoteAddress`. The proxy headers are
+ * only believed when that peer is one of `proxies`; anyone else could
+ * write an allow-listed address into them.
+ */
+export function connectionClientIp(
+  remoteAddress: string | null | undefined,
+  header: (name: string) => string | undefined,
+  proxies: string[]
+): string | null {
+  if (!remoteAddress) return null;
+  if (proxies.length > 0 && isIpAllowed(remoteAddress, proxies)) {
+    return proxiedClientIp(header) ?? remoteAddress;
+  }
+  return remoteAddress;
+}
+
+function socketClientIp(c: Context): string | null {
+  const incoming = (c.env as { incoming?: { socket?: { remoteAddress?: string } } } | undefined)
+    ?.incoming;
+  return connectionClientIp(
+    incoming?.socket?.remoteAddress,
+    (name) => c.req.header(name),
+    trustedProxies
+  );
+}
+
+/**
+ * Verify an API key for use from `clientIp`: format, owner, active,
+ * expiry, rotation overlap and IP allow-list. Permission requirements,
+ * rate limits and usage metering are left to the caller.
+ */
+export async function verifyApiKeyAccess(
+  apiKey: string,
+  clientIp: string | null,
+  lookups: Pick<AuthLookupFunctions, 'findApiKeyByHash' | 'findUserById'>,
+  now: Date = new Date()
+): Promise<ApiKeyAccessResult> {
+  const validation = validateApiKeyFormat(apiKey);
+  if (!validation.valid) {
+    return { valid: false, code: 'INVALID_API_KEY', message: validation.error!, status: 401 };
+  }
+
+  const key = await lookups.findApiKeyByHash(validation.keyHash!);
+  if (!key) {
+    return { valid: false, code: 'API_KEY_NOT_FOUND', message: 'API key not found', status: 401 };
+  }
+
+  if (!key.isActive) {
+    return { valid: false, code: 'API_KEY_DISABLED', message: 'API key is disabled', status: 401 };
+  }
+
+  if (key.expiresAt && key.expiresAt < now) {
+    return { valid: false, code: 'API_KEY_EXPIRED', message: 'API key has expired', status: 401 };
+  }
+
+  // A rotated-out secret only works until its overlap window closes
+  const rotatedOut = !!key.previousKeyHash && verifyApiKey(apiKey, key.previousKeyHash);
+  if (rotatedOut && !(key.previousKeyExpiresAt && key.previousKeyExpiresAt > now)) {
+    return {
+      valid: false,
+      code: 'API_KEY_ROTATED',
+      message: 'API key has been rotated',
+      status: 401,
+    };
+  }
+
+  const scope = key.scope;
+  if (scope && scope.allowedIps.length > 0) {
+    if (!clientIp || !isIpAllowed(clientIp, scope.allowedIps)) {
+      return {
+        valid: false,
+        code: 'IP_NOT_ALLOWED',
+        message: 'API key cannot be used from this IP address',
+        status: 403,
+      };
+    }
+  }
+
+  const user = await lookups.findUserById(key.userId);
+  if (!user) {
+    return { valid: false, code: 'USER_NOT_FOUND', message: 'User not found', status: 401 };
+  }
+
+  const expiresAt = [key.expiresAt, rotatedOut ? key.previousKeyExpiresAt : null]
+    .filter((date): date is Date => !!date)
+    .sort((a, b) => a.getTime() - b.getTime())[0];
+
+  return {
+    valid: true,
+    key,
+    user,
+    permissions: scope ? getEffectivePermissions(key.permissions, scope.mode) : key.permissions,
+    expiresAt,
+  };
+}
+
+/**
+ * Set the standard rate limit headers
+ */
+function setRateLimitHeaders(c: Context, limit: number, result: SlidingWindowResult): void {
+  c.header('X-RateLimit-Limit', limit.toString());
+  c.header('X-RateLimit-Remaining', result.remaining.toString());
+  c.header('X-RateLimit-Reset', Math.ceil(result.resetAt / 1000).toString());
+}
+
+/**
+ * Create a rate limit exceeded response
+ */
+function rateLimitError(c: Context, result: SlidingWindowResult): Response {
+  const retryAfter = Math.max(1, Math.ceil((result.resetAt - Date.now()) / 1000));
+  c.header('Retry-After', retryAfter.toString());
+
+  return c.json(
+    {
+      error: 'Rate limit exceeded',
+      code: 'RATE_LIMIT_EXCEEDED',
+      retryAfter,
+    },
+    429
+  );
 }
 
 /**
@@ -145,45 +376,17 @@ export function apiKeyAuth(requiredPermissions?: string[]): MiddlewareHandler {
       });
     }
 
-    const validation = validateApiKeyFormat(apiKey);
-    if (!validation.valid) {
-      return authError(c, {
-        error: validation.error!,
-        code: 'INVALID_API_KEY',
-        status: 401,
-      });
-    }
-
-    // Look up the API key
-    const keyData = await lookupFunctions.findApiKeyByHash(validation.keyHash!);
-
-    if (!keyData) {
-      return authError(c, {
-        error: 'API key not found',
-        code: 'API_KEY_NOT_FOUND',
-        status: 401,
-      });
-    }
-
-    if (!keyData.isActive) {
-      return authError(c, {
-        error: 'API key is disabled',
-        code: 'API_KEY_DISABLED',
-        status: 401,
-      });
+    const access = await verifyApiKeyAccess(apiKey, resolveClientIp(c), lookupFunctions);
+    if (!access.valid) {
+      return authError(c, { error: access.message, code: access.code, status: access.status });
     }
 
-    if (keyData.expiresAt && keyData.expiresAt < new Date()) {
-      return authError(c, {
-        error: 'API key has expired',
-        code: 'API_KEY_EXPIRED',
-        status: 401,
-      });
-    }
+    const { key: keyData, user, permissions } = access;
+    const scope = keyData.scope;
 
     // Check required permissions
     if (requiredPermissions && requiredPermissions.length > 0) {
-      if (!hasAllPermissions(keyData.permissions, requiredPermissions)) {
+      if (!hasAllPermissions(permissions, requiredPermissions)) {
         return authError(c, {
           error: 'Insufficient permissions',
           code: 'INSUFFICIENT_PERMISSIONS',
@@ -192,14 +395,25 @@ export function apiKeyAuth(requiredPermissions?: string[]): MiddlewareHandler {
       }
     }
 
-    // Get user data
-    const user = await lookupFunctions.findUserById(keyData.userId);
-    if (!user) {
-      return authError(c, {
-        error: 'User not found',
-        code: 'USER_NOT_FOUND',
-        status: 401,
-      });
+    // Enforce the key's per-minute limit, weighted by route
+    const weight = getRequestWeight(c.req.method, c.req.path);
+    const limit = await apiKeyRateLimitStore.hit(
+      `ratelimit:apikey:${keyData.id}`,
+      RATE_LIMIT_WINDOW_MS,
+      keyData.rateLimit,
+      weight
+    );
+    setRateLimitHeaders(c, keyData.rateLimit, limit);
+
+    // Meter usage, including rejected requests (fire and forget)
+    if (lookupFunctions.recordApiKeyUsage) {
+      lookupFunctions
+        .recordApiKeyUsage(keyData.id, { weight, rejected: !limit.allowed })
+        .catch(() => {});
+    }
+
+    if (!limit.allowed) {
+      return rateLimitError(c, limit);
     }
 
     // Update last used timestamp (fire and forget)
@@ -212,7 +426,10 @@ export function apiKeyAuth(requiredPermissions?: string[]): MiddlewareHandler {
     c.set('userTier', user.tier);
     c.set('authType', 'apiKey');
     c.set('apiKeyId', keyData.id);
-    c.set('apiKeyPermissions', keyData.permissions);
+    c.set('apiKeyPermissions', permissions);
+    if (scope) {
+      c.set('apiKeyScope', scope);
+    }
 
     await next();
   };
@@ -322,7 +539,9 @@ export function combinedAuth(): MiddlewareHandler {
 /**
  * Optional Auth Middleware
  *
- * Sets auth context if valid auth is provided, but doesn't require it
+ * Sets auth context if valid auth is provided, but doesn't require it.
+ * A request that presents an API key goes through apiKeyAuth in full, so
+ * it is rate limited and metered like any other keyed request.
  */
 export function optionalAuth(): MiddlewareHandler {
   return async (c: Context, next: Next) => {
@@ -341,7 +560,7 @@ export function optionalAuth(): MiddlewareHandler {
         c.set('jwtPayload', result.payload);
       }
     } else if (authHeader && extractApiKeyFromHeader(authHeader)) {
-      // API key auth is more complex, skip for optional
+      return apiKeyAuth()(c, next);
     } else if (telegramData) {
       const result = verifyTelegramWebAppData(telegramData);
       if (result.valid && result.user && lookupFunctions) {
@@ -415,45 +634,39 @@ export function requireTier(allowedTiers: string[]): MiddlewareHandler {
   };
 }
 
+export interface RateLimitOptions {
+  /** Where hits are counted; pass a shared store when running several replicas */
+  store?: CacheStore;
+  /** Key namespace, so separately mounted limiters count separately */
+  prefix?: string;
+}
+
 /**
- * Rate Limit Check (placeholder - implement with Redis in production)
+ * Rate Limit Middleware
+ *
+ * Sliding one-minute window per user, or per client IP when unauthenticated
  */
-export function rateLimit(requestsPerMinute: number): MiddlewareHandler {
-  // Simple in-memory rate limiting (use Redis in production)
-  const requests = new Map<string, { count: number; resetAt: number }>();
+export function rateLimit(
+  requestsPerMinute: number,
+  options: RateLimitOptions = {}
+): MiddlewareHandler {
+  const store = options.store ?? new MemoryCacheStore();
+  const prefix = options.prefix ?? 'ratelimit';
 
   return async (c: Context, next: Next) => {
-    const identifier = c.get('userId') || c.req.header('x-forwarded-for') || 'anonymous';
-    const now = Date.now();
+    const identifier = c.get('userId') || resolveClientIp(c) || 'anonymous';
+    const result = await store.hit(
+      `${prefix}:${identifier}`,
+      RATE_LIMIT_WINDOW_MS,
+      requestsPerMinute
+    );
 
-    let data = requests.get(identifier);
+    setRateLimitHeaders(c, requestsPerMinute, result);
 
-    if (!data || data.resetAt < now) {
-      data = { count: 0, resetAt: now + 60000 };
+    if (!result.allowed) {
+      return rateLimitError(c, result);
     }
 
-    data.count++;
-    requests.set(identifier, data);
-
-    if (data.count > requestsPerMinute) {
-      c.header('X-RateLimit-Limit', requestsPerMinute.toString());
-      c.header('X-RateLimit-Remaining', '0');
-      c.header('X-RateLimit-Reset', Math.ceil(data.resetAt / 1000).toString());
-
-      return c.json(
-        {
-          error: 'Rate limit exceeded',
-          code: 'RATE_LIMIT_EXCEEDED',
-          retryAfter: Math.ceil((data.resetAt - now) / 1000),
-        },
-        429
-      );
-    }
-
-    c.header('X-RateLimit-Limit', requestsPerMinute.toString());
-    c.header('X-RateLimit-Remaining', (requestsPerMinute - data.count).toString());
-    c.header('X-RateLimit-Reset', Math.ceil(data.resetAt / 1000).toString());
-
     await next();
   };
 }
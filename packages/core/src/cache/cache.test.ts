@@ -0,0 +1,292 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { MemoryCacheStore } from './memory.js';
+import { RedisCacheStore, type RedisPipeline } from './redis.js';
+import type { CacheStore } from './types.js';
+
+/**
+ * In-memory stand-in for the Redis commands RedisCacheStore uses. Strings
+ * are stored as strings and sorted sets as member → score maps; empty
+ * sorted sets are removed, as Redis does.
+ */
+interface FakeEntry {
+  value: any;
+  expiresAt: number | null;
+}
+
+function createFakeRedis() {
+  const data = new Map<string, FakeEntry>();
+
+  const live = (key: string) => {
+    const entry = data.get(key);
+    if (entry && entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      data.delete(key);
+      return undefined;
+    }
+    return entry;
+  };
+
+  const zset = (key: string) => {
+    let entry = live(key);
+    if (!entry) {
+      entry = { value: new Map(), expiresAt: null };
+      data.set(key, entry);
+    }
+    return entry.value;
+  };
+
+  const dropIfEmpty = (key: string) => {
+    if (live(key)?.value.size === 0) data.delete(key);
+  };
+
+  const commands = {
+    async get(key: string) {
+      return live(key)?.value ?? null;
+    },
+    async set(key: string, value: string, mode?: 'PX', ttl = 0) {
+      data.set(key, { value, expiresAt: mode === 'PX' ? Date.now() + ttl : null });
+      return 'OK';
+    },
+    async del(...keys: string[]) {
+      return keys.filter((key) => live(key) && data.delete(key)).length;
+    },
+    async pttl(key: string) {
+      const entry = live(key);
+      if (!entry) return -2;
+      return entry.expiresAt === null ? -1 : entry.expiresAt - Date.now();
+    },
+    async incr(key: string) {
+      const entry = live(key);
+      const value = Number(entry?.value ?? 0) + 1;
+      data.set(key, { value: String(value), expiresAt: entry?.expiresAt ?? null });
+      return value;
+    },
+    async pexpire(key: string, ttl: number) {
+      const entry = live(key);
+      if (!entry) return 0;
+      entry.expiresAt = Date.now() + ttl;
+      return 1;
+    },
+    async zadd(key: string, ...scoreMembers: (number | string)[]) {
+      for (let i = 0; i < scoreMembers.length; i += 2) {
+        zset(key).set(scoreMembers[i + 1], scoreMembers[i]);
+      }
+      return scoreMembers.length / 2;
+    },
+    async zrem(key: string, ...members: string[]) {
+      const removed = members.filter((member) => live(key)?.value.delete(member)).length;
+      dropIfEmpty(key);
+      return removed;
+    },
+    async zremrangebyscore(key: string, min: number, max: number) {
+      const members = live(key)?.value ?? new Map();
+      let removed = 0;
+      for (const [member, score] of members) {
+        if (score >= min && score <= max && members.delete(member)) removed++;
+      }
+      dropIfEmpty(key);
+      return removed;
+    },
+    async zcard(key: string) {
+      return live(key)?.value.size ?? 0;
+    },
+    async zrange(key: string, start: number, stop: number) {
+      const members = [...(live(key)?.value ?? new Map())].sort((a, b) => a[1] - b[1]);
+      return members.slice(start, stop + 1).flatMap(([member, score]) => [member, String(score)]);
+    },
+    async scan(_cursor: string, _match: string, pattern: string): Promise<[string, string[]]> {
+      const prefix = pattern.slice(0, -1).replace(/\\(.)/g, '$1');
+      return ['0', [...data.keys()].filter((key) => key.startsWith(prefix) && live(key))];
+    },
+  };
+
+  return {
+    ...commands,
+    data,
+    multi() {
+      const queued: (() => Promise<unknown>)[] = [];
+      const pipeline: Record<string, (...args: any[]) => unknown> = {
+        exec: async () => Promise.all(queued.map((run) => run())),
+      };
+      for (const name of ['zremrangebyscore', 'zadd', 'zcard', 'zrange', 'pexpire'] as const) {
+        const command: (...args: any[]) => Promise<unknown> = commands[name];
+        pipeline[name] = (...args) => {
+          queued.push(async () => [null, await command(...args)]);
+          return pipeline;
+        };
+      }
+      return pipeline as unknown as RedisPipeline;
+    },
+  };
+}
+
+describe.each([
+  ['MemoryCacheStore', () => new MemoryCacheStore()],
+  ['RedisCacheStore', () => new RedisCacheStore(createFakeRedis())],
+])('%s', (_name, createStore: () => CacheStore) => {
+  let store: CacheStore;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-03-01T12:00:00Z'));
+    store = createStore();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should store and return values', async () => {
+    await store.set('quote:a', { id: 'a', amounts: [1, 2] });
+
+    expect(await store.get('quote:a')).toEqual({ id: 'a', amounts: [1, 2] });
+    expect(await store.get('quote:missing')).toBeNull();
+  });
+
+  it('should expire values after their TTL', async () => {
+    await store.set('price', 42, 1000);
+
+    vi.advanceTimersByTime(400);
+    expect(await store.ttl('price')).toBe(600);
+    expect(await store.get('price')).toBe(42);
+
+    vi.advanceTimersByTime(600);
+    expect(await store.get('price')).toBeNull();
+    expect(await store.ttl('price')).toBeNull();
+  });
+
+  it('should report no TTL for values without one', async () => {
+    await store.set('forever', true);
+
+    expect(await store.ttl('forever')).toBeNull();
+  });
+
+  it('should delete values', async () => {
+    await store.set('a', 1);
+
+    expect(await store.delete('a')).toBe(true);
+    expect(await store.delete('a')).toBe(false);
+    expect(await store.get('a')).toBeNull();
+  });
+
+  it('should list and clear keys by prefix', async () => {
+    await store.set('oracle:price:a', 1);
+    await store.set('oracle:price:b', 2, 1000);
+    await store.set('quote:a', 3);
+
+    expect((await store.keys('oracle:price:')).sort()).toEqual([
+      'oracle:price:a',
+      'oracle:price:b',
+    ]);
+
+    await store.clear('oracle:');
+    expect(await store.keys('oracle:')).toEqual([]);
+    expect(await store.get('quote:a')).toBe(3);
+
+    await store.clear();
+    expect(await store.get('quote:a')).toBeNull();
+  });
+
+  describe('increment', () => {
+    it('should count up from one', async () => {
+      expect(await store.increment('usage')).toBe(1);
+      expect(await store.increment('usage')).toBe(2);
+      expect(await store.increment('usage')).toBe(3);
+    });
+
+    it('should reset a fixed time after the first increment', async () => {
+      await store.increment('usage', 1000);
+      vi.advanceTimersByTime(900);
+      await store.increment('usage', 1000);
+
+      vi.advanceTimersByTime(100);
+      expect(await store.increment('usage', 1000)).toBe(1);
+    });
+  });
+
+  describe('hit', () => {
+    it('should allow hits up to the limit', async () => {
+      const results = [];
+      for (let i = 0; i < 4; i++) {
+        results.push(await store.hit('ratelimit:user', 60_000, 3));
+        vi.advanceTimersByTime(1000);
+      }
+
+      expect(results.map((result) => result.allowed)).toEqual([true, true, true, false]);
+      expect(results.map((result) => result.remaining)).toEqual([2, 1, 0, 0]);
+      expect(results[3]!.resetAt).toBe(new Date('2025-03-01T12:01:00Z').getTime());
+    });
+
+    it('should free slots as hits slide out of the window', async () => {
+      await store.hit('ratelimit:user', 60_000, 2);
+      vi.advanceTimersByTime(30_000);
+      await store.hit('ratelimit:user', 60_000, 2);
+      vi.advanceTimersByTime(29_999);
+      expect((await store.hit('ratelimit:user', 60_000, 2)).allowed).toBe(false);
+
+      // Only the first hit has left the window
+      vi.advanceTimersByTime(1);
+      expect((await store.hit('ratelimit:user', 60_000, 2)).allowed).toBe(true);
+      expect((await store.hit('ratelimit:user', 60_000, 2)).allowed).toBe(false);
+    });
+
+    it('should not count rejected hits', async () => {
+      await store.hit('ratelimit:user', 60_000, 1);
+      for (let i = 0; i < 5; i++) {
+        vi.advanceTimersByTime(10_000);
+        await store.hit('ratelimit:user', 60_000, 1);
+      }
+
+      vi.advanceTimersByTime(10_000);
+      expect((await store.hit('ratelimit:user', 60_000, 1)).allowed).toBe(true);
+    });
+
+    it('should weigh hits by their cost', async () => {
+      const first = await store.hit('ratelimit:user', 60_000, 10, 4);
+      const second = await store.hit('ratelimit:user', 60_000, 10, 4);
+      const third = await store.hit('ratelimit:user', 60_000, 10, 4);
+
+      expect([first.remaining, second.remaining]).toEqual([6, 2]);
+      expect(third).toMatchObject({ allowed: false, remaining: 2 });
+      expect((await store.hit('ratelimit:user', 60_000, 10, 2)).allowed).toBe(true);
+    });
+
+    it('should keep separate windows per key', async () => {
+      await store.hit('ratelimit:a', 60_000, 1);
+
+      expect((await store.hit('ratelimit:b', 60_000, 1)).allowed).toBe(true);
+    });
+  });
+});
+
+describe('RedisCacheStore', () => {
+  it('should round-trip bigints and dates', async () => {
+    const store = new RedisCacheStore(createFakeRedis());
+    const timestamp = new Date('2025-03-01T12:00:00Z');
+
+    await store.set('quote:a', {
+      amountIn: 10n ** 18n,
+      expiresAt: timestamp,
+      nested: [{ gas: 21000n }],
+    });
+
+    expect(await store.get('quote:a')).toEqual({
+      amountIn: 10n ** 18n,
+      expiresAt: timestamp,
+      nested: [{ gas: 21000n }],
+    });
+  });
+
+  it('should namespace keys with the store prefix', async () => {
+    const redis = createFakeRedis();
+    const store = new RedisCacheStore(redis, { prefix: 'chainhopper:' });
+    await redis.set('other-app:key', '"kept"');
+
+    await store.set('quote:a', 1);
+
+    expect([...redis.data.keys()]).toContain('chainhopper:quote:a');
+    expect(await store.keys('quote:')).toEqual(['quote:a']);
+
+    await store.clear();
+    expect(await redis.get('other-app:key')).toBe('"kept"');
+  });
+});
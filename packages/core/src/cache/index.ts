@@ -0,0 +1,17 @@
+/**
+ * Cache Module
+ *
+ * Shared cache and counter storage for prices, rate limits and quotes,
+ * in memory for a single process or in Redis across API replicas
+ */
+
+export type { CacheStore, SlidingWindowResult } from './types.js';
+export { MemoryCacheStore } from './memory.js';
+export {
+  RedisCacheStore,
+  type RedisClient,
+  type RedisPipeline,
+  type RedisCacheStoreOptions,
+  serializeValue,
+  deserializeValue,
+} from './redis.js';
@@ -0,0 +1,112 @@
+import type { CacheStore, SlidingWindowResult } from './types.js';
+
+interface Entry {
+  value: unknown;
+  expiresAt: number | null;
+}
+
+/** How often writes sweep out expired entries */
+const SWEEP_INTERVAL_MS = 60_000;
+
+/**
+ * In-process cache store
+ *
+ * Suitable for a single API instance and for tests. Values are held by
+ * reference, and expired entries are dropped when read or by a periodic
+ * sweep on write.
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, Entry>();
+  private lastSweep = Date.now();
+
+  async get<T>(key: string): Promise<T | null> {
+    const entry = this.getEntry(key);
+    return entry ? (entry.value as T) : null;
+  }
+
+  async set<T>(key: string, value: T, ttlMs?: number): Promise<void> {
+    this.sweep();
+    this.entries.set(key, { value, expiresAt: ttlMs === undefined ? null : Date.now() + ttlMs });
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const existed = this.getEntry(key) !== null;
+    this.entries.delete(key);
+    return existed;
+  }
+
+  async ttl(key: string): Promise<number | null> {
+    const entry = this.getEntry(key);
+    if (!entry || entry.expiresAt === null) return null;
+    return Math.max(0, entry.expiresAt - Date.now());
+  }
+
+  async keys(prefix: string): Promise<string[]> {
+    return Array.from(this.entries.keys()).filter(
+      (key) => key.startsWith(prefix) && this.getEntry(key) !== null
+    );
+  }
+
+  async increment(key: string, ttlMs?: number): Promise<number> {
+    const entry = this.getEntry(key);
+    if (entry) {
+      entry.value = Number(entry.value) + 1;
+      return entry.value as number;
+    }
+
+    await this.set(key, 1, ttlMs);
+    return 1;
+  }
+
+  async hit(key: string, windowMs: number, limit: number, cost = 1): Promise<SlidingWindowResult> {
+    const now = Date.now();
+    const hits = ((this.getEntry(key)?.value as number[] | undefined) ?? []).filter(
+      (time) => time > now - windowMs
+    );
+
+    const allowed = hits.length + cost <= limit;
+    if (allowed) {
+      hits.push(...Array<number>(cost).fill(now));
+      await this.set(key, hits, windowMs);
+    }
+
+    return {
+      allowed,
+      remaining: Math.max(0, limit - hits.length),
+      resetAt: (hits[0] ?? now) + windowMs,
+    };
+  }
+
+  async clear(prefix?: string): Promise<void> {
+    if (prefix === undefined) {
+      this.entries.clear();
+      return;
+    }
+
+    for (const key of this.entries.keys()) {
+      if (key.startsWith(prefix)) this.entries.delete(key);
+    }
+  }
+
+  private getEntry(key: string): Entry | null {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+
+    return entry;
+  }
+
+  private sweep(): void {
+    const now = Date.now();
+    if (now - this.lastSweep < SWEEP_INTERVAL_MS) return;
+
+    this.lastSweep = now;
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt !== null && entry.expiresAt <= now) this.entries.delete(key);
+    }
+  }
+}
@@ -0,0 +1,181 @@
+import type { CacheStore, SlidingWindowResult } from './types.js';
+
+/**
+ * Pipeline commands used by RedisCacheStore, as returned by `multi()`
+ */
+export interface RedisPipeline {
+  zremrangebyscore(key: string, min: number, max: number): RedisPipeline;
+  zadd(key: string, ...scoreMembers: (number | string)[]): RedisPipeline;
+  zcard(key: string): RedisPipeline;
+  zrange(key: string, start: number, stop: number, withScores: 'WITHSCORES'): RedisPipeline;
+  pexpire(key: string, ttlMs: number): RedisPipeline;
+  exec(): Promise<[Error | null, unknown][] | null>;
+}
+
+/**
+ * The subset of a Redis client RedisCacheStore needs. An ioredis client
+ * satisfies it; so can an in-memory fake in tests.
+ */
+export interface RedisClient {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string): Promise<unknown>;
+  set(key: string, value: string, mode: 'PX', ttlMs: number): Promise<unknown>;
+  del(...keys: string[]): Promise<number>;
+  pttl(key: string): Promise<number>;
+  incr(key: string): Promise<number>;
+  pexpire(key: string, ttlMs: number): Promise<number>;
+  zrem(key: string, ...members: string[]): Promise<number>;
+  scan(
+    cursor: string,
+    match: 'MATCH',
+    pattern: string,
+    count: 'COUNT',
+    size: number
+  ): Promise<[string, string[]]>;
+  multi(): RedisPipeline;
+}
+
+export interface RedisCacheStoreOptions {
+  /** Prepended to every key, so several apps can share a database */
+  prefix?: string;
+}
+
+/** Keys requested per SCAN round trip */
+const SCAN_COUNT = 500;
+
+/**
+ * Redis-backed cache store, shared by every API replica
+ *
+ * Values are stored as JSON, with bigints and Dates tagged so they come
+ * back as the same types. Sliding windows are sorted sets of hit times.
+ */
+export class RedisCacheStore implements CacheStore {
+  private prefix: string;
+
+  constructor(
+    private client: RedisClient,
+    options: RedisCacheStoreOptions = {}
+  ) {
+    this.prefix = options.prefix ?? '';
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    const value = await this.client.get(this.prefix + key);
+    return value === null ? null : deserializeValue<T>(value);
+  }
+
+  async set<T>(key: string, value: T, ttlMs?: number): Promise<void> {
+    if (ttlMs === undefined) {
+      await this.client.set(this.prefix + key, serializeValue(value));
+    } else {
+      await this.client.set(this.prefix + key, serializeValue(value), 'PX', Math.max(1, ttlMs));
+    }
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return (await this.client.del(this.prefix + key)) > 0;
+  }
+
+  async ttl(key: string): Promise<number | null> {
+    // -2 when the key is missing, -1 when it has no expiry
+    const ttl = await this.client.pttl(this.prefix + key);
+    return ttl < 0 ? null : ttl;
+  }
+
+  async keys(prefix: string): Promise<string[]> {
+    const keys = await this.scan(this.prefix + prefix);
+    return keys.map((key) => key.slice(this.prefix.length));
+  }
+
+  async increment(key: string, ttlMs?: number): Promise<number> {
+    const value = await this.client.incr(this.prefix + key);
+    if (value === 1 && ttlMs !== undefined) {
+      await this.client.pexpire(this.prefix + key, ttlMs);
+    }
+    return value;
+  }
+
+  async hit(key: string, windowMs: number, limit: number, cost = 1): Promise<SlidingWindowResult> {
+    const redisKey = this.prefix + key;
+    const now = Date.now();
+    const id = Math.random().toString(36).slice(2);
+    const members = Array.from({ length: cost }, (_, i) => `${now}:${id}:${i}`);
+
+    // Record optimistically, then take the hit back if it went over the
+    // limit, so concurrent replicas never both squeeze into the last slot
+    const results = await this.client
+      .multi()
+      .zremrangebyscore(redisKey, 0, now - windowMs)
+      .zadd(redisKey, ...members.flatMap((member) => [now, member]))
+      .zcard(redisKey)
+      .zrange(redisKey, 0, 0, 'WITHSCORES')
+      .pexpire(redisKey, windowMs)
+      .exec();
+
+    if (!results) {
+      throw new Error('Rate limit transaction was aborted');
+    }
+    for (const [error] of results) {
+      if (error) throw error;
+    }
+
+    const count = Number(results[2]?.[1]);
+    const oldest = Number((results[3]?.[1] as string[] | undefined)?.[1] ?? now);
+
+    if (count > limit) {
+      await this.client.zrem(redisKey, ...members);
+      return {
+        allowed: false,
+        remaining: Math.max(0, limit - (count - cost)),
+        resetAt: oldest + windowMs,
+      };
+    }
+
+    return { allowed: true, remaining: limit - count, resetAt: oldest + windowMs };
+  }
+
+  async clear(prefix = ''): Promise<void> {
+    const keys = await this.scan(this.prefix + prefix);
+    if (keys.length > 0) {
+      await this.client.del(...keys);
+    }
+  }
+
+  private async scan(prefix: string): Promise<string[]> {
+    const pattern = `${prefix.replace(/[*?[\]\\]/g, '\\$&')}*`;
+    const keys: string[] = [];
+    let cursor = '0';
+
+    do {
+      const [next, batch] = await this.client.scan(cursor, 'MATCH', pattern, 'COUNT', SCAN_COUNT);
+      keys.push(...batch);
+      cursor = next;
+    } while (cursor !== '0');
+
+    return [...new Set(keys)];
+  }
+}
+
+/**
+ * Encode a value as JSON, tagging bigints and Dates so deserializeValue
+ * restores them
+ */
+export function serializeValue(value: unknown): string {
+  return JSON.stringify(value, function (this: Record<string, unknown>, key, replaced) {
+    // Read the raw value: Date.toJSON has already run by the time `replaced` arrives
+    const raw = this[key];
+    if (typeof raw === 'bigint') return { $bigint: raw.toString() };
+    if (raw instanceof Date) return { $date: raw.toISOString() };
+    return replaced;
+  });
+}
+
+export function deserializeValue<T>(text: string): T {
+  return JSON.parse(text, (_key, value) => {
+    if (value && typeof value === 'object' && Object.keys(value).length === 1) {
+      if (typeof value.$bigint === 'string') return BigInt(value.$bigint);
+      if (typeof value.$date === 'string') return new Date(value.$date);
+    }
+    return value;
+  }) as T;
+}
@@ -0,0 +1,64 @@
+/**
+ * Result of recording a hit against a sliding-window limit
+ */
+export interface SlidingWindowResult {
+  /** Whether the hit fit within the limit; rejected hits are not recorded */
+  allowed: boolean;
+  /** Hits left in the current window */
+  remaining: number;
+  /** When the oldest hit leaves the window (ms since epoch) */
+  resetAt: number;
+}
+
+/**
+ * Shared cache and counter storage
+ *
+ * Keys are plain strings; callers namespace them (`oracle:price:...`,
+ * `ratelimit:...`). TTLs are in milliseconds and a missing TTL means the
+ * entry never expires. Implementations must give every replica of the API
+ * the same view, so state that has to hold across replicas lives here
+ * rather than in a per-process Map.
+ */
+export interface CacheStore {
+  /**
+   * Get a value, or null when missing or expired
+   */
+  get<T>(key: string): Promise<T | null>;
+
+  /**
+   * Store a value, replacing any existing one
+   */
+  set<T>(key: string, value: T, ttlMs?: number): Promise<void>;
+
+  /**
+   * Remove a value; resolves to whether it existed
+   */
+  delete(key: string): Promise<boolean>;
+
+  /**
+   * Time left before a key expires, or null when it is missing or has no TTL
+   */
+  ttl(key: string): Promise<number | null>;
+
+  /**
+   * Keys starting with a prefix
+   */
+  keys(prefix: string): Promise<string[]>;
+
+  /**
+   * Increment a counter and return its new value. The TTL applies from the
+   * first increment, so the counter resets a fixed time after it started.
+   */
+  increment(key: string, ttlMs?: number): Promise<number>;
+
+  /**
+   * Record `cost` hits in a sliding window of `windowMs`, unless that
+   * would take the window over `limit` hits
+   */
+  hit(key: string, windowMs: number, limit: number, cost?: number): Promise<SlidingWindowResult>;
+
+  /**
+   * Remove every key starting with a prefix, or everything
+   */
+  clear(prefix?: string): Promise<void>;
+}
@@ -15,6 +15,7 @@ import {
   type Hash,
   encodeFunctionData,
 } from 'viem';
+import { MulticallClient } from '@chainhopper/adapters/multicall';
 import { FeeCollectorABI } from './abis.js';
 import { getContractAddresses } from './addresses.js';
 
@@ -65,6 +66,7 @@ export interface FeeCollectorConfig {
  */
 export class FeeCollectorClient {
   private publicClient: PublicClient;
+  private multicall: MulticallClient;
   private walletClient?: WalletClient;
   private contractAddress: Address;
   private chainId: ChainId;
@@ -80,6 +82,7 @@ export class FeeCollectorClient {
     this.publicClient = createPublicClient({
       transport: http(config.rpcUrl),
     });
+    this.multicall = new MulticallClient(this.publicClient);
   }
 
   /**
@@ -106,7 +109,7 @@ export class FeeCollectorClient {
     userAddress: Address,
     profit: bigint
   ): Promise<FeeCalculationResult> {
-    const result = await this.publicClient.readContract({
+    const result = await this.multicall.read({
       address: this.contractAddress,
       abi: FeeCollectorABI,
       functionName: 'calculateProfitFee',
@@ -124,7 +127,7 @@ export class FeeCollectorClient {
    * Get user's tier and profit share rate
    */
   async getUserTierInfo(userAddress: Address): Promise<TierInfo> {
-    const result = await this.publicClient.readContract({
+    const result = await this.multicall.read({
       address: this.contractAddress,
       abi: FeeCollectorABI,
       functionName: 'getUserTierInfo',
@@ -144,7 +147,7 @@ export class FeeCollectorClient {
     account: UserAccount;
     currentReferralTier: number;
   }> {
-    const result = await this.publicClient.readContract({
+    const result = await this.multicall.read({
       address: this.contractAddress,
       abi: FeeCollectorABI,
       functionName: 'getUserStats',
@@ -172,22 +175,22 @@ export class FeeCollectorClient {
   async getProtocolStats(): Promise<ProtocolStats> {
     const [totalVolume, totalFeesCollected, totalReferralsPaid, totalTrades] =
       await Promise.all([
-        this.publicClient.readContract({
+        this.multicall.read({
           address: this.contractAddress,
           abi: FeeCollectorABI,
           functionName: 'totalVolume',
         }),
-        this.publicClient.readContract({
+        this.multicall.read({
           address: this.contractAddress,
           abi: FeeCollectorABI,
           functionName: 'totalFeesCollected',
         }),
-        this.publicClient.readContract({
+        this.multicall.read({
           address: this.contractAddress,
           abi: FeeCollectorABI,
           functionName: 'totalReferralsPaid',
         }),
-        this.publicClient.readContract({
+        this.multicall.read({
           address: this.contractAddress,
           abi: FeeCollectorABI,
           functionName: 'totalTrades',
@@ -206,7 +209,7 @@ export class FeeCollectorClient {
    * Get treasury address
    */
   async getTreasury(): Promise<Address> {
-    const result = await this.publicClient.readContract({
+    const result = await this.multicall.read({
       address: this.contractAddress,
       abi: FeeCollectorABI,
       functionName: 'treasury',
@@ -20,6 +20,7 @@ import {
   toHex,
   stringToHex,
 } from 'viem';
+import { MulticallClient } from '@chainhopper/adapters/multicall';
 import { ReferralRegistryABI } from './abis.js';
 import { getContractAddresses } from './addresses.js';
 
@@ -66,6 +67,7 @@ export interface ReferralRegistryConfig {
  */
 export class ReferralRegistryClient {
   private publicClient: PublicClient;
+  private multicall: MulticallClient;
   private walletClient?: WalletClient;
   private contractAddress: Address;
   private chainId: ChainId;
@@ -79,6 +81,7 @@ export class ReferralRegistryClient {
     this.publicClient = createPublicClient({
       transport: http(config.rpcUrl),
     });
+    this.multicall = new MulticallClient(this.publicClient);
   }
 
   /**
@@ -102,7 +105,7 @@ export class ReferralRegistryClient {
    * Get the owner of a referral code
    */
   async getCodeOwner(code: `0x${string}`): Promise<Address> {
-    const result = await this.publicClient.readContract({
+    const result = await this.multicall.read({
       address: this.contractAddress,
       abi: ReferralRegistryABI,
       functionName: 'getCodeOwner',
@@ -115,7 +118,7 @@ export class ReferralRegistryClient {
    * Get the referral code for an address
    */
   async getCode(owner: Address): Promise<`0x${string}`> {
-    const result = await this.publicClient.readContract({
+    const result = await this.multicall.read({
       address: this.contractAddress,
       abi: ReferralRegistryABI,
       functionName: 'getCode',
@@ -128,7 +131,7 @@ export class ReferralRegistryClient {
    * Get the referrer for a user
    */
   async getReferrer(user: Address): Promise<Address> {
-    const result = await this.publicClient.readContract({
+    const result = await this.multicall.read({
       address: this.contractAddress,
       abi: ReferralRegistryABI,
       functionName: 'getReferrer',
@@ -141,7 +144,7 @@ export class ReferralRegistryClient {
    * Check if a referral code is available
    */
   async isCodeAvailable(code: `0x${string}`): Promise<boolean> {
-    const result = await this.publicClient.readContract({
+    const result = await this.multicall.read({
       address: this.contractAddress,
       abi: ReferralRegistryABI,
       functionName: 'isCodeAvailable',
@@ -154,7 +157,7 @@ export class ReferralRegistryClient {
    * Get referrer statistics
    */
   async getReferrerStats(referrer: Address): Promise<ReferrerStats> {
-    const result = await this.publicClient.readContract({
+    const result = await this.multicall.read({
       address: this.contractAddress,
       abi: ReferralRegistryABI,
       functionName: 'getReferrerStats',
@@ -186,7 +189,7 @@ export class ReferralRegistryClient {
    * Get full referral details for a user
    */
   async getReferralDetails(user: Address): Promise<ReferralDetails> {
-    const result = await this.publicClient.readContract({
+    const result = await this.multicall.read({
       address: this.contractAddress,
       abi: ReferralRegistryABI,
       functionName: 'getReferralDetails',
@@ -206,7 +209,7 @@ export class ReferralRegistryClient {
    * Get protocol-wide referral statistics
    */
   async getProtocolStats(): Promise<ProtocolReferralStats> {
-    const result = await this.publicClient.readContract({
+    const result = await this.multicall.read({
       address: this.contractAddress,
       abi: ReferralRegistryABI,
       functionName: 'getProtocolStats',
@@ -17,6 +17,7 @@ import {
   keccak256,
   toHex,
 } from 'viem';
+import { MulticallClient } from '@chainhopper/adapters/multicall';
 import { SwapRouterABI } from './abis.js';
 import { getContractAddresses } from './addresses.js';
 
@@ -68,6 +69,7 @@ export interface SwapRouterConfig {
  */
 export class SwapRouterClient {
   private publicClient: PublicClient;
+  private multicall: MulticallClient;
   private walletClient?: WalletClient;
   private contractAddress: Address;
   private chainId: ChainId;
@@ -81,6 +83,7 @@ export class SwapRouterClient {
     this.publicClient = createPublicClient({
       transport: http(config.rpcUrl),
     });
+    this.multicall = new MulticallClient(this.publicClient);
   }
 
   /**
@@ -104,7 +107,7 @@ export class SwapRouterClient {
    * Get the FeeCollector address
    */
   async getFeeCollector(): Promise<Address> {
-    const result = await this.publicClient.readContract({
+    const result = await this.multicall.read({
       address: this.contractAddress,
       abi: SwapRouterABI,
       functionName: 'feeCollector',
@@ -116,7 +119,7 @@ export class SwapRouterClient {
    * Get all registered DEX IDs
    */
   async getRegisteredDexes(): Promise<`0x${string}`[]> {
-    const result = await this.publicClient.readContract({
+    const result = await this.multicall.read({
       address: this.contractAddress,
       abi: SwapRouterABI,
       functionName: 'getRegisteredDexes',
@@ -128,7 +131,7 @@ export class SwapRouterClient {
    * Get info for a specific DEX
    */
   async getDexInfo(dexId: `0x${string}`): Promise<DexInfo> {
-    const result = await this.publicClient.readContract({
+    const result = await this.multicall.read({
       address: this.contractAddress,
       abi: SwapRouterABI,
       functionName: 'getDexInfo',
@@ -147,7 +150,7 @@ export class SwapRouterClient {
    * Check if a DEX is enabled
    */
   async isDexEnabled(dexId: `0x${string}`): Promise<boolean> {
-    const result = await this.publicClient.readContract({
+    const result = await this.multicall.read({
       address: this.contractAddress,
       abi: SwapRouterABI,
       functionName: 'dexEnabled',
@@ -165,7 +168,7 @@ export class SwapRouterClient {
     tokenOut: Address,
     amountIn: bigint
   ): Promise<bigint> {
-    const result = await this.publicClient.readContract({
+    const result = await this.multicall.read({
       address: this.contractAddress,
       abi: SwapRouterABI,
       functionName: 'getQuote',
@@ -182,7 +185,7 @@ export class SwapRouterClient {
     tokenOut: Address,
     amountIn: bigint
   ): Promise<BestQuoteResult> {
-    const result = await this.publicClient.readContract({
+    const result = await this.multicall.read({
       address: this.contractAddress,
       abi: SwapRouterABI,
       functionName: 'getBestQuote',
@@ -199,7 +202,7 @@ export class SwapRouterClient {
    * Get total volume routed through the contract
    */
   async getTotalVolumeRouted(): Promise<bigint> {
-    const result = await this.publicClient.readContract({
+    const result = await this.multicall.read({
       address: this.contractAddress,
       abi: SwapRouterABI,
       functionName: 'totalVolumeRouted',
@@ -211,7 +214,7 @@ export class SwapRouterClient {
    * Get total number of swaps executed
    */
   async getTotalSwapsExecuted(): Promise<bigint> {
-    const result = await this.publicClient.readContract({
+    const result = await this.multicall.read({
       address: this.contractAddress,
       abi: SwapRouterABI,
       functionName: 'totalSwapsExecuted',
@@ -0,0 +1,498 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../prisma/index.js', () => ({ prisma: {} }));
+
+import { FeeEngine } from './engine.js';
+
+const ETH = 10n ** 18n;
+const USDC = 10n ** 6n;
+
+function createUser(overrides = {}) {
+  return {
+    tier: 'FREE',
+    settings: {},
+    customProfitShare: null,
+    referralReceived: null,
+    ...overrides,
+  };
+}
+
+// Buys ETH for USDC, or sells it back, valued at `usd` on both legs
+function createSwap(
+  id: string,
+  side: 'buy' | 'sell',
+  eth: bigint,
+  usd: number,
+  day: number,
+  overrides = {}
+) {
+  const usdc = BigInt(usd) * USDC;
+  const [tokenIn, tokenOut] =
+    side === 'buy'
+      ? [
+          { id: 'usdc', decimals: 6, amount: usdc },
+          { id: 'eth', decimals: 18, amount: eth },
+        ]
+      : [
+          { id: 'eth', decimals: 18, amount: eth },
+          { id: 'usdc', decimals: 6, amount: usdc },
+        ];
+
+  return {
+    id,
+    userId: 'user-1',
+    walletId: 'wallet-1',
+    chainId: 'ETHEREUM',
+    status: 'CONFIRMED',
+    tokenInId: tokenIn.id,
+    tokenOutId: tokenOut.id,
+    tokenIn: { decimals: tokenIn.decimals },
+    tokenOut: { decimals: tokenOut.decimals },
+    amountIn: tokenIn.amount.toString(),
+    amountOut: tokenOut.amount.toString(),
+    amountInUsd: usd,
+    amountOutUsd: usd,
+    protocolFee: '0',
+    protocolFeeUsd: 0,
+    lotIds: [],
+    confirmedAt: new Date(Date.UTC(2024, 0, day)),
+    ...overrides,
+  };
+}
+
+// Rows of the in-memory tables, as loosely shaped as the Prisma results they stand in for
+type Row = Record<string, any>;
+
+function matches(row: Row, where: Row) {
+  return Object.entries(where).every(([key, value]) => row[key] === value);
+}
+
+function createDb(swaps: Row[], user: Row = createUser()) {
+  const positions: Row[] = [];
+  const lots: Row[] = [];
+  const disposals: Row[] = [];
+  const feeCalculations: Row[] = [];
+  let nextId = 0;
+
+  const db = {
+    positions,
+    lots,
+    disposals,
+    feeCalculations,
+    swapTransaction: {
+      findUnique: vi.fn(async ({ where }) => {
+        const swap = swaps.find((s) => s.id === where.id);
+        return swap ? { ...swap, user } : null;
+      }),
+      update: vi.fn(async ({ where, data }) =>
+        Object.assign(swaps.find((s) => s.id === where.id)!, data)
+      ),
+    },
+    user: {
+      findUnique: vi.fn(async () => user),
+    },
+    token: {
+      findUnique: vi.fn(async ({ where }) =>
+        where.id === 'eth' ? { chainId: 'ETHEREUM', decimals: 18 } : null
+      ),
+    },
+    position: {
+      findFirst: vi.fn(async ({ where, include }) => {
+        const position = positions.find((p) => matches(p, where));
+        if (!position || !include) return position ?? null;
+        return {
+          ...position,
+          lots: lots.filter((l) => l.positionId === position.id && l.closedAt === null),
+        };
+      }),
+      update: vi.fn(async ({ where, data }) =>
+        Object.assign(positions.find((p) => p.id === where.id)!, data)
+      ),
+      create: vi.fn(async ({ data }) => {
+        const position = { id: `position-${++nextId}`, exitTxId: null, ...data };
+        positions.push(position);
+        return position;
+      }),
+    },
+    positionLot: {
+      count: vi.fn(async ({ where }) => lots.filter((l) => matches(l, where)).length),
+      update: vi.fn(async ({ where, data }) =>
+        Object.assign(lots.find((l) => l.id === where.id)!, data)
+      ),
+      create: vi.fn(async ({ data }) => {
+        const lot = { id: `lot-${++nextId}`, closedAt: null, ...data };
+        lots.push(lot);
+        return lot;
+      }),
+    },
+    lotDisposal: {
+      count: vi.fn(async ({ where }) => disposals.filter((d) => matches(d, where)).length),
+      create: vi.fn(async ({ data }) => {
+        disposals.push(data);
+        return data;
+      }),
+      aggregate: vi.fn(async ({ where }) => {
+        const rows = disposals.filter(
+          (d) => lots.find((l) => l.id === d.lotId)!.positionId === where.lot.positionId
+        );
+        return {
+          _sum: {
+            costBasis: rows.reduce((sum, d) => sum + d.costBasis, 0),
+            realizedPnl: rows.reduce((sum, d) => sum + d.realizedPnl, 0),
+          },
+        };
+      }),
+    },
+    feeCalculation: {
+      create: vi.fn(async ({ data }) => {
+        feeCalculations.push(data);
+        return data;
+      }),
+    },
+    referral: { update: vi.fn() },
+    $transaction: vi.fn((fn: (tx: unknown) => unknown) => fn(db)),
+  };
+
+  return db;
+}
+
+function openPosition(db: ReturnType<typeof createDb>, walletId = 'wallet-1') {
+  return db.positions.find((p) => p.tokenId === 'eth' && p.walletId === walletId && p.isOpen);
+}
+
+function lotsOf(db: ReturnType<typeof createDb>, position: Row) {
+  return db.lots.filter((l) => l.positionId === position.id);
+}
+
+async function recordAll(engine: FeeEngine, ids: string[]) {
+  let fee: Awaited<ReturnType<FeeEngine['recordSwap']>> = null;
+  for (const id of ids) fee = await engine.recordSwap(id);
+  return fee;
+}
+
+describe('FeeEngine', () => {
+  describe('buys', () => {
+    it('should open a position with a lot at the USD paid', async () => {
+      const db = createDb([createSwap('buy-1', 'buy', ETH, 2000, 1)]);
+
+      const fee = await new FeeEngine(db).recordSwap('buy-1');
+
+      expect(fee).toBeNull();
+      const position = openPosition(db)!;
+      expect(position).toMatchObject({
+        entryTxId: 'buy-1',
+        amount: ETH.toString(),
+        entryPrice: 2000,
+        costBasis: 2000,
+      });
+      expect(lotsOf(db, position)).toEqual([
+        expect.objectContaining({
+          entryTxId: 'buy-1',
+          amount: ETH.toString(),
+          remainingAmount: ETH.toString(),
+          costBasis: 2000,
+        }),
+      ]);
+    });
+
+    it('should add later buys to the open position as new lots', async () => {
+      const db = createDb([
+        createSwap('buy-1', 'buy', ETH, 1000, 1),
+        createSwap('buy-2', 'buy', ETH, 3000, 2),
+      ]);
+
+      await recordAll(new FeeEngine(db), ['buy-1', 'buy-2']);
+
+      const position = openPosition(db)!;
+      expect(db.positions).toHaveLength(1);
+      expect(position).toMatchObject({
+        amount: (2n * ETH).toString(),
+        costBasis: 4000,
+        entryPrice: 2000,
+      });
+      expect(lotsOf(db, position).map((l) => l.entryTxId)).toEqual(['buy-1', 'buy-2']);
+    });
+
+    it('should not add a lot for a swap without a USD value', async () => {
+      const swap = createSwap('buy-1', 'buy', ETH, 1000, 1, { amountInUsd: 0, amountOutUsd: 0 });
+      const db = createDb([swap]);
+
+      await new FeeEngine(db).recordSwap('buy-1');
+
+      expect(db.positions).toEqual([]);
+      expect(db.lots).toEqual([]);
+    });
+  });
+
+  describe('sells', () => {
+    it('should keep a partially sold position open and charge the profit share', async () => {
+      const db = createDb([
+        createSwap('buy-1', 'buy', ETH, 2000, 1),
+        createSwap('sell-1', 'sell', ETH / 2n, 1500, 2),
+      ]);
+
+      const fee = await recordAll(new FeeEngine(db), ['buy-1', 'sell-1']);
+
+      // Half the lot cost 1000 and sold for 1500
+      expect(fee!.realizedProfitUsd).toBeCloseTo(500);
+      expect(fee!.realizedProfit).toBe(500n * USDC);
+      expect(fee!.profitSharePercent).toBe(15);
+      expect(fee!.feeAmount).toBe(75n * USDC);
+      expect(fee!.feeAmountUsd).toBeCloseTo(75);
+      expect(fee!.userTier).toBe('free');
+      expect(fee!.chainId).toBe('ethereum');
+
+      const position = openPosition(db)!;
+      expect(fee!.positionId).toBe(position.id);
+      expect(position).toMatchObject({ amount: (ETH / 2n).toString(), costBasis: 1000 });
+      expect(position.realizedPnl).toBeCloseTo(500);
+      expect(position.realizedPnlPct).toBeCloseTo(50);
+      expect(lotsOf(db, position)[0]).toMatchObject({
+        amount: ETH.toString(),
+        remainingAmount: (ETH / 2n).toString(),
+        costBasis: 1000,
+        closedAt: null,
+      });
+      expect(db.disposals).toEqual([
+        expect.objectContaining({
+          exitTxId: 'sell-1',
+          amount: (ETH / 2n).toString(),
+          costBasis: 1000,
+          proceeds: 1500,
+          realizedPnl: 500,
+        }),
+      ]);
+
+      expect(db.feeCalculations[0]).toMatchObject({
+        positionId: position.id,
+        exitTxId: 'sell-1',
+        userTier: 'FREE',
+        chainId: 'ETHEREUM',
+        realizedProfit: (500n * USDC).toString(),
+        feeAmount: (75n * USDC).toString(),
+      });
+      expect(db.feeCalculations[0]!.referralId).toBeUndefined();
+      expect(db.swapTransaction.update).toHaveBeenCalledWith({
+        where: { id: 'sell-1' },
+        data: { protocolFee: (75n * USDC).toString(), protocolFeeUsd: expect.closeTo(75) },
+      });
+    });
+
+    it('should close the position on a losing exit without a fee', async () => {
+      const db = createDb([
+        createSwap('buy-1', 'buy', ETH, 2000, 1),
+        createSwap('sell-1', 'sell', ETH, 1600, 2),
+      ]);
+
+      const fee = await recordAll(new FeeEngine(db), ['buy-1', 'sell-1']);
+
+      expect(fee!.realizedProfitUsd).toBeCloseTo(-400);
+      expect(fee!.realizedProfit).toBe(-400n * USDC);
+      expect(fee!.feeAmount).toBe(0n);
+      expect(fee!.feeAmountUsd).toBe(0);
+      expect(openPosition(db)).toBeUndefined();
+      expect(db.positions.find((p) => p.id === fee!.positionId)).toMatchObject({
+        amount: '0',
+        exitTxId: 'sell-1',
+        exitPrice: 1600,
+        isOpen: false,
+      });
+      expect(db.lots[0]!.closedAt).toEqual(new Date(Date.UTC(2024, 0, 2)));
+      expect(db.feeCalculations).toHaveLength(1);
+      expect(db.swapTransaction.update).not.toHaveBeenCalled();
+    });
+
+    it('should net gains and losses across the lots a sell consumes', async () => {
+      const db = createDb([
+        createSwap('buy-1', 'buy', ETH, 1000, 1),
+        createSwap('buy-2', 'buy', ETH, 3000, 2),
+        createSwap('sell-1', 'sell', (ETH * 3n) / 2n, 3000, 3),
+      ]);
+
+      const fee = await recordAll(new FeeEngine(db), ['buy-1', 'buy-2', 'sell-1']);
+
+      // FIFO: 1 ETH at 1000 and 0.5 ETH at 1500, sold for 3000
+      expect(db.disposals.map((d) => d.realizedPnl)).toEqual([
+        expect.closeTo(1000),
+        expect.closeTo(-500),
+      ]);
+      expect(fee!.realizedProfitUsd).toBeCloseTo(500);
+      expect(fee!.feeAmount).toBe(75n * USDC);
+      expect(openPosition(db)).toMatchObject({ amount: (ETH / 2n).toString(), costBasis: 1500 });
+    });
+  });
+
+  describe('cost-basis methods', () => {
+    const swaps = () => [
+      createSwap('buy-1', 'buy', ETH, 1000, 1),
+      createSwap('buy-2', 'buy', ETH, 3000, 2),
+      createSwap('sell-1', 'sell', ETH, 2500, 3),
+    ];
+
+    it('should sell the newest lot first under lifo', async () => {
+      const db = createDb(swaps(), createUser({ settings: { costBasisMethod: 'lifo' } }));
+
+      const fee = await recordAll(new FeeEngine(db), ['buy-1', 'buy-2', 'sell-1']);
+
+      expect(fee!.realizedProfitUsd).toBeCloseTo(-500);
+      expect(lotsOf(db, openPosition(db)!).map((l) => l.remainingAmount)).toEqual([
+        ETH.toString(),
+        '0',
+      ]);
+    });
+
+    it('should sell at the average cost under average', async () => {
+      const db = createDb(swaps(), createUser({ settings: { costBasisMethod: 'average' } }));
+
+      const fee = await recordAll(new FeeEngine(db), ['buy-1', 'buy-2', 'sell-1']);
+
+      expect(fee!.realizedProfitUsd).toBeCloseTo(500);
+      expect(lotsOf(db, openPosition(db)!).map((l) => l.remainingAmount)).toEqual([
+        (ETH / 2n).toString(),
+        (ETH / 2n).toString(),
+      ]);
+    });
+
+    it('should sell the lots chosen for the swap under specific', async () => {
+      const db = createDb(swaps(), createUser({ settings: { costBasisMethod: 'specific' } }));
+      const engine = new FeeEngine(db);
+
+      await recordAll(engine, ['buy-1', 'buy-2']);
+      const newest = db.lots[1]!;
+      db.swapTransaction.findUnique.mockImplementationOnce(async () => ({
+        ...createSwap('sell-1', 'sell', ETH, 2500, 3, { lotIds: [newest.id] }),
+        user: createUser({ settings: { costBasisMethod: 'specific' } }),
+      }));
+      const fee = await engine.recordSwap('sell-1');
+
+      expect(fee!.realizedProfitUsd).toBeCloseTo(-500);
+      expect(newest.remainingAmount).toBe('0');
+    });
+
+    it('should fall back to the engine default without a valid setting', async () => {
+      const db = createDb(swaps(), createUser({ settings: { costBasisMethod: 'hifo' } }));
+
+      const fee = await recordAll(new FeeEngine(db, { method: 'lifo' }), [
+        'buy-1',
+        'buy-2',
+        'sell-1',
+      ]);
+
+      expect(fee!.realizedProfitUsd).toBeCloseTo(-500);
+    });
+  });
+
+  describe('referrals', () => {
+    it('should discount referred users and credit the referrer', async () => {
+      const user = createUser({ referralReceived: { id: 'ref-1', tier: 'GOLD', isActive: true } });
+      const db = createDb(
+        [createSwap('buy-1', 'buy', ETH, 1000, 1), createSwap('sell-1', 'sell', ETH, 2000, 2)],
+        user
+      );
+
+      const fee = await recordAll(new FeeEngine(db), ['buy-1', 'sell-1']);
+
+      // 15% less the 10% gold discount, 30% of which goes to the referrer
+      expect(fee!.profitSharePercent).toBe(13.5);
+      expect(fee!.feeAmount).toBe(135n * USDC);
+      expect(fee!.referrerShare).toBe(405n * 10n ** 5n);
+      expect(fee!.referrerShareUsd).toBeCloseTo(40.5);
+      expect(db.feeCalculations[0]).toMatchObject({
+        referralId: 'ref-1',
+        referrerSharePct: 30,
+        referrerShare: (405n * 10n ** 5n).toString(),
+      });
+      expect(db.referral.update).toHaveBeenCalledWith({
+        where: { id: 'ref-1' },
+        data: { totalEarnings: { increment: expect.closeTo(40.5) } },
+      });
+    });
+
+    it('should ignore inactive referrals', async () => {
+      const user = createUser({ referralReceived: { id: 'ref-1', tier: 'GOLD', isActive: false } });
+      const db = createDb(
+        [createSwap('buy-1', 'buy', ETH, 1000, 1), createSwap('sell-1', 'sell', ETH, 2000, 2)],
+        user
+      );
+
+      const fee = await recordAll(new FeeEngine(db), ['buy-1', 'sell-1']);
+
+      expect(fee!.feeAmount).toBe(150n * USDC);
+      expect(fee!.referrerShare).toBeUndefined();
+      expect(db.referral.update).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should skip unconfirmed and already recorded swaps', async () => {
+    const pending = createSwap('buy-2', 'buy', ETH, 1000, 2, { status: 'PENDING' });
+    const db = createDb([createSwap('buy-1', 'buy', ETH, 1000, 1), pending]);
+
+    await recordAll(new FeeEngine(db), ['buy-1', 'buy-1', 'buy-2', 'missing']);
+
+    expect(db.lots).toHaveLength(1);
+  });
+
+  describe('recordTransfer', () => {
+    it('should move lots between wallets keeping their cost and acquisition time', async () => {
+      const db = createDb([
+        createSwap('buy-1', 'buy', ETH, 1000, 1),
+        createSwap('buy-2', 'buy', ETH, 3000, 2),
+        createSwap('sell-1', 'sell', ETH, 2500, 4, { walletId: 'wallet-2' }),
+      ]);
+      const engine = new FeeEngine(db);
+      await recordAll(engine, ['buy-1', 'buy-2']);
+      const first = db.lots[0]!;
+
+      const moved = await engine.recordTransfer({
+        userId: 'user-1',
+        fromWalletId: 'wallet-1',
+        toWalletId: 'wallet-2',
+        tokenId: 'eth',
+        amount: ETH,
+        transferredAt: new Date(Date.UTC(2024, 0, 3)),
+      });
+
+      expect(moved).toBe(ETH);
+      expect(openPosition(db)).toMatchObject({ amount: ETH.toString(), costBasis: 3000 });
+      const destination = openPosition(db, 'wallet-2')!;
+      expect(destination).toMatchObject({
+        entryTxId: 'buy-1',
+        amount: ETH.toString(),
+        costBasis: 1000,
+        openedAt: first.openedAt,
+      });
+      expect(lotsOf(db, destination)).toEqual([
+        expect.objectContaining({
+          entryTxId: 'buy-1',
+          transferredFromId: first.id,
+          costBasis: 1000,
+          openedAt: first.openedAt,
+        }),
+      ]);
+      expect(db.disposals).toEqual([]);
+
+      // Selling from the new wallet realises against the original cost
+      const fee = await engine.recordSwap('sell-1');
+      expect(fee!.realizedProfitUsd).toBeCloseTo(1500);
+    });
+
+    it('should close the source position when everything moves', async () => {
+      const db = createDb([createSwap('buy-1', 'buy', ETH, 1000, 1)]);
+      const engine = new FeeEngine(db);
+      await engine.recordSwap('buy-1');
+
+      const moved = await engine.recordTransfer({
+        userId: 'user-1',
+        fromWalletId: 'wallet-1',
+        toWalletId: 'wallet-2',
+        tokenId: 'eth',
+        amount: 2n * ETH,
+      });
+
+      expect(moved).toBe(ETH);
+      expect(openPosition(db)).toBeUndefined();
+      expect(db.positions[0]).toMatchObject({ isOpen: false, exitTxId: null });
+      expect(openPosition(db, 'wallet-2')!.amount).toBe(ETH.toString());
+    });
+  });
+});
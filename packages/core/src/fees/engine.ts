@@ -0,0 +1,531 @@
+/**
+ * Profit-Share Fee Engine
+ *
+ * Keeps each wallet's positions as lots and charges fees on confirmed
+ * swaps. A wallet has at most one open position per token, and every swap
+ * is both a sell of its input token and a buy of its output token:
+ * - the sell consumes lots of the input position using the user's
+ *   cost-basis method, records a LotDisposal per lot and a FeeCalculation
+ *   for the realised profit
+ * - the buy adds a lot to the output position, opening it if needed
+ *
+ * USD values come from the swap row. A buy with no USD value adds no lot,
+ * and a sell with none disposes its lots at cost, so neither is ever
+ * charged a fee.
+ */
+
+import type {
+  ChainId,
+  CostBasisMethod,
+  FeeCalculation,
+  ReferralTier,
+  UserTier,
+} from '@chainhopper/types';
+import { toFixedPoint, bpsToPercent, PRICE_DECIMALS } from '@chainhopper/types';
+import { formatUnits } from 'viem';
+import { prisma } from '../prisma/index.js';
+import { matchLots, ratio, isCostBasisMethod, type Lot, type LotMatch } from './lots.js';
+import { calculateProfitShare, applyRateUsd, type ProfitShareContext } from './profit-share.js';
+
+export interface FeeEngineOptions {
+  /** Cost-basis method for users who haven't chosen one (default fifo) */
+  method?: CostBasisMethod;
+}
+
+/**
+ * Tokens moved between two of a user's wallets on the same chain
+ */
+export interface LotTransfer {
+  userId: string;
+  fromWalletId: string;
+  toWalletId: string;
+  tokenId: string;
+  amount: bigint;
+  /** Lots to move first under the specific method */
+  lotIds?: string[];
+  transferredAt?: Date;
+}
+
+/** Decimal columns come back as Prisma.Decimal; only toString() is relied on */
+type DecimalLike = { toString(): string };
+
+interface LotRecord {
+  id: string;
+  entryTxId: string;
+  remainingAmount: DecimalLike;
+  entryPrice: DecimalLike;
+  costBasis: DecimalLike;
+  openedAt: Date;
+}
+
+interface PositionRecord {
+  id: string;
+  amount: DecimalLike;
+  costBasis: DecimalLike;
+  lots: LotRecord[];
+}
+
+interface UserRecord {
+  tier: string;
+  settings: unknown;
+  customProfitShare: DecimalLike | null;
+  referralReceived: { id: string; tier: string; isActive: boolean } | null;
+}
+
+interface SwapRecord {
+  id: string;
+  userId: string;
+  walletId: string;
+  chainId: string;
+  status: string;
+  tokenInId: string;
+  tokenOutId: string;
+  tokenIn: { decimals: number };
+  tokenOut: { decimals: number };
+  amountIn: DecimalLike;
+  amountOut: DecimalLike;
+  amountInUsd: DecimalLike;
+  amountOutUsd: DecimalLike;
+  lotIds: string[];
+  confirmedAt: Date | null;
+  user: UserRecord;
+}
+
+/** A wallet's holding of one token */
+interface Holding {
+  userId: string;
+  walletId: string;
+  chainId: string;
+  tokenId: string;
+  decimals: number;
+}
+
+interface NewLot {
+  entryTxId: string;
+  amount: bigint;
+  entryPrice: number;
+  costBasisUsd: number;
+  openedAt: Date;
+  transferredFromId?: string;
+}
+
+const OPEN_LOTS = { lots: { where: { closedAt: null } } } as const;
+
+export class FeeEngine {
+  private method: CostBasisMethod;
+
+  constructor(
+    private db: typeof prisma = prisma,
+    options: FeeEngineOptions = {}
+  ) {
+    this.method = options.method ?? 'fifo';
+  }
+
+  /**
+   * Settle a confirmed swap into lots, returning the fee it realised.
+   * Swaps that aren't confirmed, or were already recorded, are skipped.
+   */
+  async recordSwap(swapId: string): Promise<FeeCalculation | null> {
+    return this.db.$transaction(async (tx: typeof prisma) => {
+      const swap: SwapRecord | null = await tx.swapTransaction.findUnique({
+        where: { id: swapId },
+        include: {
+          tokenIn: true,
+          tokenOut: true,
+          user: { include: { referralReceived: true } },
+        },
+      });
+      if (!swap || swap.status !== 'CONFIRMED') return null;
+
+      const [opened, disposed] = await Promise.all([
+        tx.positionLot.count({ where: { entryTxId: swap.id } }),
+        tx.lotDisposal.count({ where: { exitTxId: swap.id } }),
+      ]);
+      if (opened + disposed > 0) return null;
+
+      const settledAt = swap.confirmedAt ?? new Date();
+      const fee = await this.sell(tx, swap, settledAt);
+      await this.buy(tx, swap, settledAt);
+      return fee;
+    });
+  }
+
+  /**
+   * Move lots between a user's wallets. Acquisition time and cost basis
+   * carry over, so nothing is realised. Returns the amount moved.
+   */
+  async recordTransfer(transfer: LotTransfer): Promise<bigint> {
+    return this.db.$transaction(async (tx: typeof prisma) => {
+      const [user, token, source]: [
+        Pick<UserRecord, 'settings'> | null,
+        { chainId: string; decimals: number } | null,
+        PositionRecord | null,
+      ] = await Promise.all([
+        tx.user.findUnique({ where: { id: transfer.userId }, select: { settings: true } }),
+        tx.token.findUnique({ where: { id: transfer.tokenId } }),
+        tx.position.findFirst({
+          where: {
+            userId: transfer.userId,
+            walletId: transfer.fromWalletId,
+            tokenId: transfer.tokenId,
+            isOpen: true,
+          },
+          include: OPEN_LOTS,
+        }),
+      ]);
+      if (!user || !token || !source) return 0n;
+
+      const at = transfer.transferredAt ?? new Date();
+      const match = matchLots(
+        toLots(source),
+        transfer.amount,
+        this.getMethod(user),
+        transfer.lotIds
+      );
+      if (match.matchedAmount === 0n) return 0n;
+
+      await this.consumeLots(tx, source, match, token.decimals, at);
+      await this.addLots(
+        tx,
+        {
+          userId: transfer.userId,
+          walletId: transfer.toWalletId,
+          chainId: token.chainId,
+          tokenId: transfer.tokenId,
+          decimals: token.decimals,
+        },
+        match.consumed.map((consumed) => {
+          const lot = source.lots.find((l) => l.id === consumed.lotId)!;
+          return {
+            entryTxId: lot.entryTxId,
+            amount: consumed.amount,
+            entryPrice: Number(lot.entryPrice.toString()),
+            costBasisUsd: consumed.costBasisUsd,
+            openedAt: lot.openedAt,
+            transferredFromId: lot.id,
+          };
+        })
+      );
+
+      return match.matchedAmount;
+    });
+  }
+
+  private async sell(
+    tx: typeof prisma,
+    swap: SwapRecord,
+    soldAt: Date
+  ): Promise<FeeCalculation | null> {
+    const amountIn = BigInt(swap.amountIn.toString());
+    const amountOut = BigInt(swap.amountOut.toString());
+
+    const position: PositionRecord | null = await tx.position.findFirst({
+      where: { walletId: swap.walletId, tokenId: swap.tokenInId, isOpen: true },
+      include: OPEN_LOTS,
+    });
+    if (!position || amountIn === 0n) return null;
+
+    const match = matchLots(toLots(position), amountIn, this.getMethod(swap.user), swap.lotIds);
+    if (match.matchedAmount === 0n) return null;
+
+    const exitValueUsd =
+      Number(swap.amountOutUsd.toString()) || Number(swap.amountInUsd.toString());
+    const units = Number(formatUnits(amountIn, swap.tokenIn.decimals));
+    const exitPrice = exitValueUsd > 0 && units > 0 ? exitValueUsd / units : undefined;
+
+    // Unpriced exits are disposed at cost
+    const proceeds = match.consumed.map((consumed) =>
+      exitPrice ? exitValueUsd * ratio(consumed.amount, amountIn) : consumed.costBasisUsd
+    );
+    for (const [i, consumed] of match.consumed.entries()) {
+      await tx.lotDisposal.create({
+        data: {
+          lotId: consumed.lotId,
+          exitTxId: swap.id,
+          amount: consumed.amount.toString(),
+          costBasis: consumed.costBasisUsd,
+          proceeds: proceeds[i],
+          realizedPnl: proceeds[i]! - consumed.costBasisUsd,
+          disposedAt: soldAt,
+        },
+      });
+    }
+
+    const closed = await this.consumeLots(tx, position, match, swap.tokenIn.decimals, soldAt);
+    const totals = await tx.lotDisposal.aggregate({
+      where: { lot: { positionId: position.id } },
+      _sum: { costBasis: true, realizedPnl: true },
+    });
+    const soldCost = Number(totals._sum.costBasis ?? 0);
+    const realizedPnl = Number(totals._sum.realizedPnl ?? 0);
+    await tx.position.update({
+      where: { id: position.id },
+      data: {
+        realizedPnl,
+        realizedPnlPct: soldCost > 0 ? (realizedPnl / soldCost) * 100 : 0,
+        ...(closed && { exitTxId: swap.id, exitPrice }),
+      },
+    });
+
+    const proceedsUsd = proceeds.reduce((sum, value) => sum + value, 0);
+    const realizedProfitUsd = proceedsUsd - match.costBasisUsd;
+    const realizedProfit = toOutputAmount(
+      (amountOut * match.matchedAmount) / amountIn,
+      realizedProfitUsd,
+      proceedsUsd
+    );
+
+    return this.chargeFee(tx, swap, position.id, {
+      costBasisUsd: match.costBasisUsd,
+      proceedsUsd,
+      realizedProfit,
+      realizedProfitUsd,
+      calculatedAt: soldAt,
+    });
+  }
+
+  private async buy(tx: typeof prisma, swap: SwapRecord, boughtAt: Date): Promise<void> {
+    const amountOut = BigInt(swap.amountOut.toString());
+    const costBasis = Number(swap.amountInUsd.toString()) || Number(swap.amountOutUsd.toString());
+    const units = Number(formatUnits(amountOut, swap.tokenOut.decimals));
+    if (costBasis <= 0 || units <= 0) return;
+
+    await this.addLots(
+      tx,
+      {
+        userId: swap.userId,
+        walletId: swap.walletId,
+        chainId: swap.chainId,
+        tokenId: swap.tokenOutId,
+        decimals: swap.tokenOut.decimals,
+      },
+      [
+        {
+          entryTxId: swap.id,
+          amount: amountOut,
+          entryPrice: costBasis / units,
+          costBasisUsd: costBasis,
+          openedAt: boughtAt,
+        },
+      ]
+    );
+  }
+
+  private async chargeFee(
+    tx: typeof prisma,
+    swap: SwapRecord,
+    positionId: string,
+    realised: {
+      costBasisUsd: number;
+      proceedsUsd: number;
+      realizedProfit: bigint;
+      realizedProfitUsd: number;
+      calculatedAt: Date;
+    }
+  ): Promise<FeeCalculation> {
+    const context = toProfitShareContext(swap.user);
+    const referral = swap.user.referralReceived?.isActive ? swap.user.referralReceived : null;
+
+    const share = calculateProfitShare(realised.realizedProfit, context);
+    const feeAmountUsd =
+      realised.realizedProfitUsd > 0
+        ? applyRateUsd(realised.realizedProfitUsd, share.profitShareBps)
+        : 0;
+    const referrerShareUsd =
+      share.referrerShareBps !== undefined
+        ? applyRateUsd(feeAmountUsd, share.referrerShareBps)
+        : undefined;
+
+    await tx.feeCalculation.create({
+      data: {
+        positionId,
+        exitTxId: swap.id,
+        userId: swap.userId,
+        userTier: swap.user.tier,
+        chainId: swap.chainId,
+        costBasis: realised.costBasisUsd,
+        exitValue: realised.proceedsUsd,
+        realizedProfit: realised.realizedProfit.toString(),
+        realizedProfitUsd: realised.realizedProfitUsd,
+        profitSharePct: bpsToPercent(share.profitShareBps),
+        feeAmount: share.fee.toString(),
+        feeAmountUsd,
+        ...(referral && {
+          referralId: referral.id,
+          referrerSharePct: bpsToPercent(share.referrerShareBps ?? 0n),
+          referrerShare: (share.referrerShare ?? 0n).toString(),
+          referrerShareUsd: referrerShareUsd ?? 0,
+        }),
+        calculatedAt: realised.calculatedAt,
+      },
+    });
+
+    if (share.fee > 0n) {
+      await tx.swapTransaction.update({
+        where: { id: swap.id },
+        data: { protocolFee: share.fee.toString(), protocolFeeUsd: feeAmountUsd },
+      });
+    }
+    if (referral && referrerShareUsd) {
+      await tx.referral.update({
+        where: { id: referral.id },
+        data: { totalEarnings: { increment: referrerShareUsd } },
+      });
+    }
+
+    return {
+      positionId,
+      userId: swap.userId,
+      userTier: context.userTier,
+      chainId: swap.chainId.toLowerCase() as ChainId,
+      realizedProfit: realised.realizedProfit,
+      realizedProfitUsd: realised.realizedProfitUsd,
+      profitSharePercent: bpsToPercent(share.profitShareBps),
+      feeAmount: share.fee,
+      feeAmountUsd,
+      referrerShare: share.referrerShare,
+      referrerShareUsd,
+      calculatedAt: realised.calculatedAt,
+    };
+  }
+
+  /**
+   * Take matched amounts out of a position's lots, closing the position
+   * once nothing is left. Returns whether it closed.
+   */
+  private async consumeLots(
+    tx: typeof prisma,
+    position: PositionRecord,
+    match: LotMatch,
+    decimals: number,
+    at: Date
+  ): Promise<boolean> {
+    for (const consumed of match.consumed) {
+      await tx.positionLot.update({
+        where: { id: consumed.lotId },
+        data: {
+          remainingAmount: consumed.remainingAmount.toString(),
+          costBasis: consumed.remainingCostBasisUsd,
+          ...(consumed.remainingAmount === 0n && { closedAt: at }),
+        },
+      });
+    }
+
+    const amount = BigInt(position.amount.toString()) - match.matchedAmount;
+    const costBasis = amount > 0n ? Number(position.costBasis.toString()) - match.costBasisUsd : 0;
+
+    await tx.position.update({
+      where: { id: position.id },
+      data: {
+        amount: amount.toString(),
+        costBasis,
+        ...(amount > 0n
+          ? { entryPrice: averagePrice(costBasis, amount, decimals) }
+          : { isOpen: false, closedAt: at }),
+      },
+    });
+
+    return amount === 0n;
+  }
+
+  /**
+   * Add lots to the holding's open position, opening one if needed
+   */
+  private async addLots(tx: typeof prisma, holding: Holding, lots: NewLot[]): Promise<void> {
+    const amount = lots.reduce((sum, lot) => sum + lot.amount, 0n);
+    const costBasis = lots.reduce((sum, lot) => sum + lot.costBasisUsd, 0);
+
+    const existing: Omit<PositionRecord, 'lots'> | null = await tx.position.findFirst({
+      where: { walletId: holding.walletId, tokenId: holding.tokenId, isOpen: true },
+    });
+
+    let positionId: string;
+    if (existing) {
+      const total = BigInt(existing.amount.toString()) + amount;
+      const totalCost = Number(existing.costBasis.toString()) + costBasis;
+      await tx.position.update({
+        where: { id: existing.id },
+        data: {
+          amount: total.toString(),
+          costBasis: totalCost,
+          entryPrice: averagePrice(totalCost, total, holding.decimals),
+        },
+      });
+      positionId = existing.id;
+    } else {
+      const first = [...lots].sort((a, b) => a.openedAt.getTime() - b.openedAt.getTime())[0]!;
+      const created = await tx.position.create({
+        data: {
+          userId: holding.userId,
+          walletId: holding.walletId,
+          chainId: holding.chainId,
+          tokenId: holding.tokenId,
+          entryTxId: first.entryTxId,
+          amount: amount.toString(),
+          entryPrice: averagePrice(costBasis, amount, holding.decimals),
+          costBasis,
+          isOpen: true,
+          openedAt: first.openedAt,
+        },
+      });
+      positionId = created.id;
+    }
+
+    for (const lot of lots) {
+      await tx.positionLot.create({
+        data: {
+          positionId,
+          entryTxId: lot.entryTxId,
+          transferredFromId: lot.transferredFromId,
+          amount: lot.amount.toString(),
+          remainingAmount: lot.amount.toString(),
+          entryPrice: lot.entryPrice,
+          costBasis: lot.costBasisUsd,
+          openedAt: lot.openedAt,
+        },
+      });
+    }
+  }
+
+  private getMethod(user: Pick<UserRecord, 'settings'>): CostBasisMethod {
+    const method = (user.settings as { costBasisMethod?: unknown } | null)?.costBasisMethod;
+    return isCostBasisMethod(method) ? method : this.method;
+  }
+}
+
+function toLots(position: PositionRecord): Lot[] {
+  return position.lots.map((lot) => ({
+    id: lot.id,
+    amount: BigInt(lot.remainingAmount.toString()),
+    costBasisUsd: Number(lot.costBasis.toString()),
+    openedAt: lot.openedAt,
+  }));
+}
+
+function averagePrice(costBasisUsd: number, amount: bigint, decimals: number): number {
+  const units = Number(formatUnits(amount, decimals));
+  return units > 0 ? costBasisUsd / units : 0;
+}
+
+/**
+ * Express a USD profit in output-token units, given what the output
+ * tokens were worth
+ */
+function toOutputAmount(out: bigint, profitUsd: number, valueUsd: number): bigint {
+  const value = toFixedPoint(valueUsd, PRICE_DECIMALS);
+  if (value <= 0n) return 0n;
+  return (out * toFixedPoint(profitUsd, PRICE_DECIMALS)) / value;
+}
+
+function toProfitShareContext(user: UserRecord): ProfitShareContext {
+  const referral = user.referralReceived?.isActive ? user.referralReceived : null;
+  return {
+    userTier: user.tier.toLowerCase() as UserTier,
+    customProfitSharePercent: user.customProfitShare
+      ? Number(user.customProfitShare.toString())
+      : undefined,
+    referralTier: referral ? (referral.tier.toLowerCase() as ReferralTier) : undefined,
+  };
+}
+
+export const feeEngine = new FeeEngine();
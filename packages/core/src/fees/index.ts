@@ -0,0 +1,32 @@
+/**
+ * Profit-Share Fee Module
+ *
+ * Closes positions as confirmed swaps sell them and charges the
+ * profit-share fee on realised gains:
+ * - Lot matching: FIFO, LIFO, average cost or specific lots
+ * - Profit share: tier rate, referral discount and referrer share
+ * - FeeEngine: keeps positions as lots and persists FeeCalculation records
+ */
+
+// Lot matching
+export {
+  matchLots,
+  isCostBasisMethod,
+  COST_BASIS_METHODS,
+  type Lot,
+  type LotConsumption,
+  type LotMatch,
+} from './lots.js';
+
+// Profit share
+export {
+  getReferralDiscount,
+  getProfitShareBps,
+  calculateProfitShare,
+  applyRateUsd,
+  type ProfitShareContext,
+  type ProfitShareResult,
+} from './profit-share.js';
+
+// Fee engine
+export { FeeEngine, feeEngine, type FeeEngineOptions, type LotTransfer } from './engine.js';
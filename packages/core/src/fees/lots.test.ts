@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import { matchLots, ratio, isCostBasisMethod, type Lot } from './lots.js';
+
+const lots: Lot[] = [
+  { id: 'newer', amount: 300n, costBasisUsd: 600, openedAt: new Date('2024-02-01') },
+  { id: 'older', amount: 100n, costBasisUsd: 100, openedAt: new Date('2024-01-01') },
+];
+
+describe('matchLots', () => {
+  describe('fifo', () => {
+    it('should consume the oldest lot first', () => {
+      const match = matchLots(lots, 250n, 'fifo');
+
+      expect(match.consumed).toEqual([
+        {
+          lotId: 'older',
+          amount: 100n,
+          costBasisUsd: 100,
+          remainingAmount: 0n,
+          remainingCostBasisUsd: 0,
+        },
+        {
+          lotId: 'newer',
+          amount: 150n,
+          costBasisUsd: 300,
+          remainingAmount: 150n,
+          remainingCostBasisUsd: 300,
+        },
+      ]);
+      expect(match.matchedAmount).toBe(250n);
+      expect(match.costBasisUsd).toBe(400);
+      expect(match.unmatchedAmount).toBe(0n);
+    });
+
+    it('should leave a partial exit of one lot open for the rest', () => {
+      const match = matchLots(lots, 40n, 'fifo');
+
+      expect(match.consumed).toHaveLength(1);
+      expect(match.consumed[0]).toMatchObject({
+        lotId: 'older',
+        amount: 40n,
+        remainingAmount: 60n,
+      });
+      expect(match.consumed[0]!.costBasisUsd).toBeCloseTo(40);
+      expect(match.consumed[0]!.remainingCostBasisUsd).toBeCloseTo(60);
+    });
+  });
+
+  describe('average', () => {
+    it('should take every lot pro rata at the average cost', () => {
+      const match = matchLots(lots, 200n, 'average');
+
+      expect(match.consumed.map((c) => [c.lotId, c.amount])).toEqual([
+        ['newer', 150n],
+        ['older', 50n],
+      ]);
+      // 700 USD over 400 units, so 200 units carry 350 USD
+      expect(match.costBasisUsd).toBeCloseTo(350);
+    });
+
+    it('should hand out rounding remainders without exceeding any lot', () => {
+      const uneven: Lot[] = [
+        { id: 'a', amount: 1n, costBasisUsd: 1, openedAt: new Date('2024-01-01') },
+        { id: 'b', amount: 1n, costBasisUsd: 1, openedAt: new Date('2024-01-02') },
+        { id: 'c', amount: 1n, costBasisUsd: 1, openedAt: new Date('2024-01-03') },
+      ];
+      const match = matchLots(uneven, 2n, 'average');
+
+      expect(match.consumed.reduce((sum, c) => sum + c.amount, 0n)).toBe(2n);
+      expect(match.consumed.every((c) => c.amount === 1n)).toBe(true);
+    });
+  });
+
+  describe('lifo', () => {
+    it('should consume the newest lot first', () => {
+      const match = matchLots(lots, 350n, 'lifo');
+
+      expect(match.consumed.map((c) => [c.lotId, c.amount])).toEqual([
+        ['newer', 300n],
+        ['older', 50n],
+      ]);
+      expect(match.costBasisUsd).toBeCloseTo(650);
+    });
+  });
+
+  describe('specific', () => {
+    it('should consume the chosen lots in order, then the oldest', () => {
+      const three = [
+        ...lots,
+        { id: 'newest', amount: 50n, costBasisUsd: 500, openedAt: new Date('2024-03-01') },
+      ];
+      const match = matchLots(three, 200n, 'specific', ['newest', 'missing', 'newest']);
+
+      expect(match.consumed.map((c) => [c.lotId, c.amount])).toEqual([
+        ['newest', 50n],
+        ['older', 100n],
+        ['newer', 50n],
+      ]);
+    });
+
+    it('should behave like fifo when no lots are chosen', () => {
+      expect(matchLots(lots, 250n, 'specific')).toEqual(matchLots(lots, 250n, 'fifo'));
+    });
+  });
+
+  it('should leave a sell beyond the open lots unmatched', () => {
+    const match = matchLots(lots, 500n, 'fifo');
+
+    expect(match.matchedAmount).toBe(400n);
+    expect(match.unmatchedAmount).toBe(100n);
+    expect(match.costBasisUsd).toBe(700);
+    expect(match.consumed.every((c) => c.remainingAmount === 0n)).toBe(true);
+  });
+
+  it('should match nothing without open lots', () => {
+    const match = matchLots([], 100n, 'average');
+
+    expect(match.consumed).toEqual([]);
+    expect(match.unmatchedAmount).toBe(100n);
+  });
+});
+
+describe('isCostBasisMethod', () => {
+  it('should accept only known methods', () => {
+    expect(isCostBasisMethod('lifo')).toBe(true);
+    expect(isCostBasisMethod('hifo')).toBe(false);
+    expect(isCostBasisMethod(undefined)).toBe(false);
+  });
+});
+
+describe('ratio', () => {
+  it('should divide amounts beyond Number precision', () => {
+    expect(ratio(10n ** 30n, 4n * 10n ** 30n)).toBe(0.25);
+    expect(ratio(1n, 0n)).toBe(0);
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Lot Matching
+ *
+ * Every buy of a token opens a lot holding its amount and USD cost basis.
+ * A sell consumes open lots of the same wallet and token:
+ * - fifo: oldest lots first
+ * - lifo: newest lots first
+ * - average: every lot pro rata, so each unit sold carries the average cost
+ * - specific: the lots chosen for the sell, in order, then oldest first
+ *
+ * Selling more than the open lots hold leaves the excess unmatched. It has
+ * no known cost basis, so it never counts as profit.
+ */
+
+import type { CostBasisMethod } from '@chainhopper/types';
+
+const RATIO_SCALE = 10n ** 18n;
+
+export const COST_BASIS_METHODS: readonly CostBasisMethod[] = [
+  'fifo',
+  'lifo',
+  'average',
+  'specific',
+];
+
+export interface Lot {
+  id: string;
+  amount: bigint;
+  costBasisUsd: number;
+  openedAt: Date;
+}
+
+export interface LotConsumption {
+  lotId: string;
+  amount: bigint;
+  costBasisUsd: number;
+  /** What is left open in the lot */
+  remainingAmount: bigint;
+  remainingCostBasisUsd: number;
+}
+
+export interface LotMatch {
+  consumed: LotConsumption[];
+  /** Total amount taken from lots */
+  matchedAmount: bigint;
+  /** Total cost basis of the matched amount */
+  costBasisUsd: number;
+  /** Amount sold beyond what the lots held */
+  unmatchedAmount: bigint;
+}
+
+/**
+ * Consume `amount` from open lots. `lotIds` picks the lots to sell under
+ * the specific method and is ignored otherwise.
+ */
+export function matchLots(
+  lots: Lot[],
+  amount: bigint,
+  method: CostBasisMethod,
+  lotIds: string[] = []
+): LotMatch {
+  const open = lots.filter((lot) => lot.amount > 0n);
+  const held = open.reduce((sum, lot) => sum + lot.amount, 0n);
+  const toMatch = amount < held ? amount : held;
+
+  let takes: LotTake[];
+  switch (method) {
+    case 'average':
+      takes = takeProRata(open, toMatch, held);
+      break;
+    case 'lifo':
+      takes = takeInOrder(
+        [...open].sort((a, b) => byOpenedAt(b, a)),
+        toMatch
+      );
+      break;
+    case 'specific':
+      takes = takeInOrder(specificOrder(open, lotIds), toMatch);
+      break;
+    default:
+      takes = takeInOrder([...open].sort(byOpenedAt), toMatch);
+  }
+
+  const consumed = takes.map(({ lot, take }) => {
+    const costBasisUsd = lot.costBasisUsd * ratio(take, lot.amount);
+    return {
+      lotId: lot.id,
+      amount: take,
+      costBasisUsd,
+      remainingAmount: lot.amount - take,
+      remainingCostBasisUsd: take === lot.amount ? 0 : lot.costBasisUsd - costBasisUsd,
+    };
+  });
+
+  return {
+    consumed,
+    matchedAmount: toMatch,
+    costBasisUsd: consumed.reduce((sum, c) => sum + c.costBasisUsd, 0),
+    unmatchedAmount: amount - toMatch,
+  };
+}
+
+export function isCostBasisMethod(value: unknown): value is CostBasisMethod {
+  return COST_BASIS_METHODS.includes(value as CostBasisMethod);
+}
+
+/**
+ * `part / whole` as a number, without converting either bigint first
+ */
+export function ratio(part: bigint, whole: bigint): number {
+  if (whole === 0n) return 0;
+  return Number((part * RATIO_SCALE) / whole) / Number(RATIO_SCALE);
+}
+
+type LotTake = { lot: Lot; take: bigint };
+
+function byOpenedAt(a: Lot, b: Lot): number {
+  return a.openedAt.getTime() - b.openedAt.getTime();
+}
+
+/** Chosen lots in the order given, then the rest oldest first */
+function specificOrder(lots: Lot[], lotIds: string[]): Lot[] {
+  const chosen = lotIds.flatMap((id) => lots.filter((lot) => lot.id === id));
+  const rest = lots.filter((lot) => !chosen.includes(lot)).sort(byOpenedAt);
+  return [...new Set(chosen), ...rest];
+}
+
+function takeInOrder(lots: Lot[], amount: bigint): LotTake[] {
+  const takes: LotTake[] = [];
+  let remaining = amount;
+
+  for (const lot of lots) {
+    if (remaining === 0n) break;
+    const take = lot.amount < remaining ? lot.amount : remaining;
+    takes.push({ lot, take });
+    remaining -= take;
+  }
+
+  return takes;
+}
+
+function takeProRata(lots: Lot[], amount: bigint, held: bigint): LotTake[] {
+  if (amount === 0n) return [];
+
+  const takes = lots.map((lot) => ({ lot, take: (lot.amount * amount) / held }));
+
+  // Hand out the units lost to rounding, one per lot, largest lots first
+  let shortfall = amount - takes.reduce((sum, t) => sum + t.take, 0n);
+  for (const entry of [...takes].sort((a, b) => (b.lot.amount > a.lot.amount ? 1 : -1))) {
+    if (shortfall === 0n) break;
+    if (entry.take < entry.lot.amount) {
+      entry.take += 1n;
+      shortfall -= 1n;
+    }
+  }
+
+  return takes.filter((t) => t.take > 0n);
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateProfitShare,
+  getProfitShareBps,
+  getReferralDiscount,
+  applyRateUsd,
+} from './profit-share.js';
+
+const ONE = 10n ** 18n;
+
+describe('profit share', () => {
+  describe('getProfitShareBps', () => {
+    it('should use the tier rate', () => {
+      expect(getProfitShareBps({ userTier: 'free' })).toBe(1500n);
+      expect(getProfitShareBps({ userTier: 'staker' })).toBe(500n);
+    });
+
+    it('should use a custom rate for enterprise users only', () => {
+      expect(getProfitShareBps({ userTier: 'enterprise', customProfitSharePercent: 2.5 })).toBe(
+        250n
+      );
+      expect(getProfitShareBps({ userTier: 'enterprise' })).toBe(300n);
+      expect(getProfitShareBps({ userTier: 'holder', customProfitSharePercent: 2.5 })).toBe(1000n);
+    });
+  });
+
+  describe('getReferralDiscount', () => {
+    it('should match the referral tiers', () => {
+      expect(getReferralDiscount('bronze')).toBe(5);
+      expect(getReferralDiscount('silver')).toBe(7.5);
+      expect(getReferralDiscount('diamond')).toBe(10);
+    });
+  });
+
+  describe('calculateProfitShare', () => {
+    it('should take the tier share of a profit', () => {
+      const result = calculateProfitShare(ONE, { userTier: 'free' });
+
+      expect(result.fee).toBe((ONE * 15n) / 100n);
+      expect(result.netProfit).toBe((ONE * 85n) / 100n);
+      expect(result.referrerShare).toBeUndefined();
+    });
+
+    it('should discount referred users and split out the referrer share', () => {
+      const result = calculateProfitShare(ONE, { userTier: 'free', referralTier: 'gold' });
+
+      // 15% less a 10% discount, of which the gold referrer earns 30%
+      expect(result.profitShareBps).toBe(1350n);
+      expect(result.fee).toBe(135n * 10n ** 15n);
+      expect(result.referrerShareBps).toBe(3000n);
+      expect(result.referrerShare).toBe(405n * 10n ** 14n);
+    });
+
+    it('should round discounted rates like the contract', () => {
+      // 1000 - 1000 * 750 / 10000 = 925
+      expect(
+        calculateProfitShare(ONE, { userTier: 'holder', referralTier: 'silver' }).profitShareBps
+      ).toBe(925n);
+    });
+
+    it('should charge nothing on losing or break-even trades', () => {
+      const loss = calculateProfitShare(-ONE, { userTier: 'free', referralTier: 'bronze' });
+
+      expect(loss.fee).toBe(0n);
+      expect(loss.netProfit).toBe(-ONE);
+      expect(loss.referrerShare).toBe(0n);
+      expect(calculateProfitShare(0n, { userTier: 'free' }).fee).toBe(0n);
+    });
+  });
+
+  describe('applyRateUsd', () => {
+    it('should apply basis points to a USD amount', () => {
+      expect(applyRateUsd(200, 1350n)).toBeCloseTo(27);
+    });
+  });
+});
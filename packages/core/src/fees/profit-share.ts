@@ -0,0 +1,90 @@
+/**
+ * Profit-Share Fee Calculation
+ *
+ * Off-chain mirror of `FeeCollector.calculateProfitFee`:
+ * - the user's tier sets the profit share (enterprise users may have a custom rate)
+ * - a referred user gets the referral tier's discount off that share
+ * - the referrer earns a share of the resulting fee
+ *
+ * All rates are basis points and amounts are bigint, so results match
+ * the contract to the unit.
+ */
+
+import {
+  BPS_DENOMINATOR,
+  FEE_TIERS,
+  REFERRAL_TIERS,
+  bpsToPercent,
+  percentToBps,
+  type ReferralTier,
+  type UserTier,
+} from '@chainhopper/types';
+
+export interface ProfitShareContext {
+  userTier: UserTier;
+  /** Custom enterprise rate, as a percentage */
+  customProfitSharePercent?: number;
+  /** Tier of the user's referrer, if they were referred */
+  referralTier?: ReferralTier;
+}
+
+export interface ProfitShareResult {
+  /** Share of profit taken after any referral discount */
+  profitShareBps: bigint;
+  fee: bigint;
+  netProfit: bigint;
+  /** Part of the fee owed to the referrer */
+  referrerShareBps?: bigint;
+  referrerShare?: bigint;
+}
+
+/**
+ * Referral discount percentage for a referrer's tier
+ */
+export function getReferralDiscount(tier: ReferralTier): number {
+  return REFERRAL_TIERS[tier].refereeDiscount;
+}
+
+/**
+ * Profit share in basis points before any referral discount
+ */
+export function getProfitShareBps(context: ProfitShareContext): bigint {
+  if (context.userTier === 'enterprise' && context.customProfitSharePercent) {
+    return percentToBps(context.customProfitSharePercent);
+  }
+  return percentToBps(FEE_TIERS[context.userTier].profitSharePercent);
+}
+
+/**
+ * Split a realised profit into fee, net profit and referrer share.
+ * Losses and break-even trades pay nothing.
+ */
+export function calculateProfitShare(
+  profit: bigint,
+  context: ProfitShareContext
+): ProfitShareResult {
+  let profitShareBps = getProfitShareBps(context);
+
+  if (context.referralTier) {
+    const discountBps = percentToBps(getReferralDiscount(context.referralTier));
+    profitShareBps -= (profitShareBps * discountBps) / BPS_DENOMINATOR;
+  }
+
+  const fee = profit > 0n ? (profit * profitShareBps) / BPS_DENOMINATOR : 0n;
+  const result: ProfitShareResult = { profitShareBps, fee, netProfit: profit - fee };
+
+  if (context.referralTier) {
+    const referrerShareBps = percentToBps(REFERRAL_TIERS[context.referralTier].referrerShare);
+    result.referrerShareBps = referrerShareBps;
+    result.referrerShare = (fee * referrerShareBps) / BPS_DENOMINATOR;
+  }
+
+  return result;
+}
+
+/**
+ * Apply a basis-point rate to a USD amount
+ */
+export function applyRateUsd(amountUsd: number, bps: bigint): number {
+  return (amountUsd * bpsToPercent(bps)) / 100;
+}
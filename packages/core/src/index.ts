@@ -16,3 +16,9 @@ export * from './oracle/index.js';
 
 // Re-export contract integrations
 export * from './contracts/index.js';
+
+// Re-export profit-share fee engine
+export * from './fees/index.js';
+
+// Re-export shared cache stores
+export * from './cache/index.js';
@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const { read, readMany } = vi.hoisted(() => ({ read: vi.fn(), readMany: vi.fn() }));
+
+vi.mock('@chainhopper/adapters/multicall', () => ({
+  MulticallClient: vi.fn(() => ({ read, readMany })),
+}));
+
+// Import after mocking
+import type { ContractCall } from '@chainhopper/adapters/multicall';
+import { ChainlinkProvider } from './chainlink.js';
+
+const ETH = '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE';
+const USDC = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+const UNKNOWN = '0x1111111111111111111111111111111111111111';
+
+function roundData(answer: bigint, updatedAt = Math.floor(Date.now() / 1000)) {
+  return { status: 'success', result: [1n, answer, 0n, BigInt(updatedAt), 1n] };
+}
+
+type RoundCall = ContractCall & { args: [bigint] };
+
+describe('ChainlinkProvider', () => {
+  let provider: ChainlinkProvider;
+
+  beforeEach(() => {
+    read.mockReset();
+    readMany.mockReset();
+    provider = new ChainlinkProvider({
+      rpcUrls: { ethereum: 'https://eth.example' },
+      feedAddresses: {},
+    });
+  });
+
+  it('should read every feed on a chain in one batch', async () => {
+    readMany.mockResolvedValue([
+      roundData(325000000000n),
+      roundData(100000000n),
+      { status: 'success', result: 8 },
+      { status: 'success', result: 8 },
+    ]);
+
+    const prices = await provider.getPrices([
+      { address: ETH, chainId: 'ethereum' },
+      { address: USDC, chainId: 'ethereum' },
+      { address: UNKNOWN, chainId: 'ethereum' },
+    ]);
+
+    expect(readMany).toHaveBeenCalledTimes(1);
+    const calls: ContractCall[] = readMany.mock.calls[0]![0];
+    expect(calls.map((c) => c.functionName)).toEqual([
+      'latestRoundData',
+      'latestRoundData',
+      'decimals',
+      'decimals',
+    ]);
+    expect(prices.get(`ethereum:${ETH.toLowerCase()}`)?.priceUsd).toBe(3250);
+    expect(prices.get(`ethereum:${USDC.toLowerCase()}`)?.priceUsd).toBe(1);
+    expect(prices.has(`ethereum:${UNKNOWN}`)).toBe(false);
+  });
+
+  it('should only read decimals once per feed', async () => {
+    readMany.mockResolvedValueOnce([roundData(325000000000n), { status: 'success', result: 8 }]);
+    readMany.mockResolvedValueOnce([roundData(330000000000n)]);
+
+    await provider.getPrice(ETH, 'ethereum');
+    const price = await provider.getPrice(ETH, 'ethereum');
+
+    expect(readMany.mock.calls[1]![0]).toHaveLength(1);
+    expect(price?.priceUsd).toBe(3300);
+  });
+
+  it('should lower confidence for stale rounds', async () => {
+    const twoHoursAgo = Math.floor(Date.now() / 1000) - 7200;
+    readMany.mockResolvedValue([
+      roundData(325000000000n, twoHoursAgo),
+      { status: 'success', result: 8 },
+    ]);
+
+    const price = await provider.getPrice(ETH, 'ethereum');
+
+    expect(price?.confidence).toBe(0.5);
+  });
+
+  it('should skip feeds whose read failed', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    readMany.mockResolvedValue([
+      { status: 'failure', error: new Error('execution reverted') },
+      { status: 'success', result: 8 },
+    ]);
+
+    expect(await provider.getPrice(ETH, 'ethereum')).toBeNull();
+  });
+
+  it('should not call the chain without an RPC URL', async () => {
+    expect(await provider.getPrice(ETH, 'base')).toBeNull();
+    expect(readMany).not.toHaveBeenCalled();
+  });
+
+  describe('getHistoricalPrice', () => {
+    const PHASE = 2n << 64n;
+    const START = 1_700_000_000;
+
+    // Rounds 1-1000 of phase 2, one an hour, each answering $3000 + $1 per round
+    function round(id: bigint) {
+      const n = id - PHASE;
+      return [id, (3000n + n) * 10n ** 8n, 0n, BigInt(START) + n * 3600n, id];
+    }
+
+    function mockFeed(latest = 1000n) {
+      read.mockImplementation(async ({ functionName, args }) => {
+        if (functionName === 'latestRoundData') return round(PHASE + latest);
+        if (functionName === 'getRoundData') return round(args[0]);
+        return 8;
+      });
+      readMany.mockImplementation(async (calls: RoundCall[]) =>
+        calls.map(({ args }) => ({ status: 'success', result: round(args[0]) }))
+      );
+    }
+
+    it('should return the last round updated at or before the time', async () => {
+      mockFeed();
+      // 30 minutes after round 437
+      const at = new Date((START + 437 * 3600 + 1800) * 1000);
+
+      const price = await provider.getHistoricalPrice(ETH, 'ethereum', at);
+
+      expect(price?.priceUsd).toBe(3437);
+      expect(price?.timestamp).toEqual(new Date((START + 437 * 3600) * 1000));
+      expect(price?.confidence).toBe(0.95);
+      // Batched probes instead of one call per step of a binary search
+      expect(readMany.mock.calls.length).toBeLessThanOrEqual(4);
+    });
+
+    it('should use the latest round for times after it', async () => {
+      mockFeed(10n);
+
+      const price = await provider.getHistoricalPrice(ETH, 'ethereum', new Date());
+
+      expect(price?.priceUsd).toBe(3010);
+      expect(readMany).not.toHaveBeenCalled();
+    });
+
+    it('should return null before the first round of the current phase', async () => {
+      mockFeed();
+
+      const price = await provider.getHistoricalPrice(
+        ETH,
+        'ethereum',
+        new Date((START - 3600) * 1000)
+      );
+
+      expect(price).toBeNull();
+    });
+
+    it('should skip rounds that cannot be read', async () => {
+      mockFeed();
+      readMany.mockImplementation(async (calls: RoundCall[]) =>
+        calls.map(({ args }) =>
+          (args[0] - PHASE) % 2n === 0n
+            ? { status: 'failure', error: new Error('No data present') }
+            : { status: 'success', result: round(args[0]) }
+        )
+      );
+      const at = new Date((START + 437 * 3600 + 1800) * 1000);
+
+      const price = await provider.getHistoricalPrice(ETH, 'ethereum', at);
+
+      expect(price?.priceUsd).toBe(3437);
+    });
+
+    it('should return null for tokens without a feed', async () => {
+      expect(await provider.getHistoricalPrice(UNKNOWN, 'ethereum', new Date())).toBeNull();
+      expect(read).not.toHaveBeenCalled();
+    });
+  });
+});
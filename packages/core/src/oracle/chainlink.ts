@@ -1,20 +1,31 @@
 // @ts-nocheck
 import type { ChainId } from '@chainhopper/types';
+import { createPublicClient, http } from 'viem';
+import { MulticallClient } from '@chainhopper/adapters/multicall';
 import type { PriceData, PriceProvider, ChainlinkConfig } from './types.js';
 import { CHAINLINK_FEEDS } from './types.js';
 
+const ROUND_DATA_OUTPUTS = [
+  { name: 'roundId', type: 'uint80' },
+  { name: 'answer', type: 'int256' },
+  { name: 'startedAt', type: 'uint256' },
+  { name: 'updatedAt', type: 'uint256' },
+  { name: 'answeredInRound', type: 'uint80' },
+] as const;
+
 // Chainlink Aggregator V3 Interface ABI (minimal)
 const AGGREGATOR_ABI = [
   {
     inputs: [],
     name: 'latestRoundData',
-    outputs: [
-      { name: 'roundId', type: 'uint80' },
-      { name: 'answer', type: 'int256' },
-      { name: 'startedAt', type: 'uint256' },
-      { name: 'updatedAt', type: 'uint256' },
-      { name: 'answeredInRound', type: 'uint80' },
-    ],
+    outputs: ROUND_DATA_OUTPUTS,
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [{ name: '_roundId', type: 'uint80' }],
+    name: 'getRoundData',
+    outputs: ROUND_DATA_OUTPUTS,
     stateMutability: 'view',
     type: 'function',
   },
@@ -27,6 +38,18 @@ const AGGREGATOR_ABI = [
   },
 ] as const;
 
+// Proxy round IDs carry the aggregator phase in the bits above 64
+const PHASE_OFFSET = 64n;
+
+// Rounds probed per multicall batch (roughly) when searching for a past round
+const ROUND_SEARCH_WIDTH = 16n;
+
+interface Round {
+  roundId: bigint;
+  answer: bigint;
+  updatedAt: bigint;
+}
+
 /**
  * Chainlink Price Feed Provider
  * Most reliable for major tokens on established chains
@@ -37,6 +60,7 @@ export class ChainlinkProvider implements PriceProvider {
 
   private config: ChainlinkConfig;
   private decimalsCache = new Map<string, number>();
+  private clients = new Map<string, MulticallClient>();
 
   constructor(config: ChainlinkConfig) {
     this.config = config;
@@ -62,50 +86,8 @@ export class ChainlinkProvider implements PriceProvider {
   }
 
   async getPrice(tokenAddress: string, chainId: ChainId): Promise<PriceData | null> {
-    const feeds = {
-      ...CHAINLINK_FEEDS[chainId],
-      ...this.config.feedAddresses?.[chainId],
-    };
-
-    const normalizedFeeds = this.normalizeFeeds(feeds);
-    const feedAddress = normalizedFeeds[tokenAddress.toLowerCase()];
-
-    if (!feedAddress) {
-      return null;
-    }
-
-    const rpcUrl = this.config.rpcUrls[chainId];
-    if (!rpcUrl) {
-      return null;
-    }
-
-    try {
-      const [roundData, decimals] = await Promise.all([
-        this.callContract(rpcUrl, feedAddress, 'latestRoundData'),
-        this.getDecimals(rpcUrl, feedAddress),
-      ]);
-
-      const answer = BigInt(roundData.answer);
-      const updatedAt = Number(roundData.updatedAt);
-      const priceUsd = Number(answer) / Math.pow(10, decimals);
-
-      // Check if price is stale (more than 1 hour old)
-      const now = Math.floor(Date.now() / 1000);
-      const age = now - updatedAt;
-      const isStale = age > 3600;
-
-      return {
-        tokenAddress,
-        chainId,
-        priceUsd,
-        confidence: isStale ? 0.5 : 0.95, // High confidence for Chainlink
-        source: 'chainlink',
-        timestamp: new Date(updatedAt * 1000),
-      };
-    } catch (error) {
-      console.error(`Chainlink price fetch failed for ${tokenAddress} on ${chainId}:`, error);
-      return null;
-    }
+    const prices = await this.getPrices([{ address: tokenAddress, chainId }]);
+    return prices.get(`${chainId}:${tokenAddress.toLowerCase()}`) ?? null;
   }
 
   async getPrices(tokens: { address: string; chainId: ChainId }[]): Promise<Map<string, PriceData>> {
@@ -119,77 +101,257 @@ export class ChainlinkProvider implements PriceProvider {
       byChain.set(chainId, list);
     }
 
-    // Fetch prices for each chain
+    // One multicall batch per chain
     await Promise.all(
       Array.from(byChain.entries()).map(async ([chainId, addresses]) => {
-        await Promise.all(
-          addresses.map(async (address) => {
-            const price = await this.getPrice(address, chainId);
-            if (price) {
-              results.set(`${chainId}:${address.toLowerCase()}`, price);
-            }
-          })
-        );
+        const prices = await this.getChainPrices(chainId, addresses);
+        for (const price of prices) {
+          results.set(`${chainId}:${price.tokenAddress.toLowerCase()}`, price);
+        }
       })
     );
 
     return results;
   }
 
-  private async getDecimals(rpcUrl: string, feedAddress: string): Promise<number> {
-    const cacheKey = `${rpcUrl}:${feedAddress}`;
-    if (this.decimalsCache.has(cacheKey)) {
-      return this.decimalsCache.get(cacheKey)!;
+  private async getChainPrices(chainId: ChainId, addresses: string[]): Promise<PriceData[]> {
+    const rpcUrl = this.config.rpcUrls[chainId];
+    if (!rpcUrl) {
+      return [];
     }
 
-    const result = await this.callContract(rpcUrl, feedAddress, 'decimals');
-    const decimals = Number(result);
-    this.decimalsCache.set(cacheKey, decimals);
-    return decimals;
-  }
-
-  private async callContract(rpcUrl: string, address: string, method: string): Promise<any> {
-    // Encode function call
-    const methodSignatures: Record<string, string> = {
-      latestRoundData: '0xfeaf968c',
-      decimals: '0x313ce567',
+    const feeds = {
+      ...CHAINLINK_FEEDS[chainId],
+      ...this.config.feedAddresses?.[chainId],
     };
+    const normalizedFeeds = this.normalizeFeeds(feeds);
+
+    const requests = addresses
+      .map((tokenAddress) => ({
+        tokenAddress,
+        feed: normalizedFeeds[tokenAddress.toLowerCase()],
+      }))
+      .filter((request): request is { tokenAddress: string; feed: string } => !!request.feed);
+
+    if (requests.length === 0) {
+      return [];
+    }
 
-    const response = await fetch(rpcUrl, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        jsonrpc: '2.0',
-        id: 1,
-        method: 'eth_call',
-        params: [
-          { to: address, data: methodSignatures[method] },
-          'latest',
-        ],
-      }),
+    // Round data for every feed plus decimals for feeds we haven't seen yet
+    const uncachedFeeds = [...new Set(requests.map((r) => r.feed))].filter(
+      (feed) => !this.decimalsCache.has(`${rpcUrl}:${feed}`)
+    );
+
+    const client = this.getClient(rpcUrl);
+    const callResults = await client.readMany([
+      ...requests.map(({ feed }) => ({
+        address: feed as `0x${string}`,
+        abi: AGGREGATOR_ABI,
+        functionName: 'latestRoundData',
+      })),
+      ...uncachedFeeds.map((feed) => ({
+        address: feed as `0x${string}`,
+        abi: AGGREGATOR_ABI,
+        functionName: 'decimals',
+      })),
+    ]);
+
+    uncachedFeeds.forEach((feed, i) => {
+      const result = callResults[requests.length + i];
+      if (result?.status === 'success') {
+        this.decimalsCache.set(`${rpcUrl}:${feed}`, Number(result.result));
+      }
     });
 
-    const json = await response.json();
-    if (json.error) {
-      throw new Error(json.error.message);
+    const prices: PriceData[] = [];
+
+    requests.forEach(({ tokenAddress, feed }, i) => {
+      const result = callResults[i];
+      const decimals = this.decimalsCache.get(`${rpcUrl}:${feed}`);
+
+      if (result?.status !== 'success' || decimals === undefined) {
+        const error = result?.status === 'failure' ? result.error : 'decimals unavailable';
+        console.error(`Chainlink price fetch failed for ${tokenAddress} on ${chainId}:`, error);
+        return;
+      }
+
+      // latestRoundData: [roundId, answer, startedAt, updatedAt, answeredInRound]
+      const [, answer, , updatedAt] = result.result as readonly bigint[];
+      prices.push(this.toPriceData(tokenAddress, chainId, answer, Number(updatedAt), decimals));
+    });
+
+    return prices;
+  }
+
+  /**
+   * Price from the last round updated at or before `at`. A feed answer
+   * holds until the next round, so no interpolation is needed. Rounds
+   * are searched within the feed's current aggregator phase only; older
+   * times return null.
+   */
+  async getHistoricalPrice(
+    tokenAddress: string,
+    chainId: ChainId,
+    at: Date
+  ): Promise<PriceData | null> {
+    const rpcUrl = this.config.rpcUrls[chainId];
+    const feed = this.normalizeFeeds({
+      ...CHAINLINK_FEEDS[chainId],
+      ...this.config.feedAddresses?.[chainId],
+    })[tokenAddress.toLowerCase()];
+    if (!rpcUrl || !feed) {
+      return null;
+    }
+
+    const client = this.getClient(rpcUrl);
+    const target = BigInt(Math.floor(at.getTime() / 1000));
+
+    const latest = this.toRound(
+      await client.read({
+        address: feed as `0x${string}`,
+        abi: AGGREGATOR_ABI,
+        functionName: 'latestRoundData',
+      })
+    );
+    const round =
+      latest.updatedAt <= target ? latest : await this.findRound(client, feed, latest, target);
+    if (!round) {
+      return null;
+    }
+
+    const decimals = await this.getDecimals(client, rpcUrl, feed);
+    return this.toPriceData(
+      tokenAddress,
+      chainId,
+      round.answer,
+      Number(round.updatedAt),
+      decimals,
+      Math.floor(at.getTime() / 1000)
+    );
+  }
+
+  /**
+   * Search the latest round's phase for the last round updated at or
+   * before `target`, probing a batch of rounds per call
+   */
+  private async findRound(
+    client: MulticallClient,
+    feed: string,
+    latest: Round,
+    target: bigint
+  ): Promise<Round | null> {
+    const phase = latest.roundId >> PHASE_OFFSET;
+    const first = this.toRound(
+      await client.read({
+        address: feed as `0x${string}`,
+        abi: AGGREGATOR_ABI,
+        functionName: 'getRoundData',
+        args: [(phase << PHASE_OFFSET) | 1n],
+      })
+    );
+    if (first.updatedAt === 0n || first.updatedAt > target) {
+      return null;
     }
 
-    // Decode response
-    if (method === 'decimals') {
-      return parseInt(json.result, 16);
+    // Invariant: lo is updated at or before target, hi after it
+    let lo = first;
+    let hi = latest;
+
+    while (hi.roundId - lo.roundId > 1n) {
+      const span = hi.roundId - lo.roundId;
+      const step = span > ROUND_SEARCH_WIDTH ? span / (ROUND_SEARCH_WIDTH + 1n) : 1n;
+      const ids: bigint[] = [];
+      for (let id = lo.roundId + step; id < hi.roundId; id += step) {
+        ids.push(id);
+      }
+
+      const results = await client.readMany(
+        ids.map((id) => ({
+          address: feed as `0x${string}`,
+          abi: AGGREGATOR_ABI,
+          functionName: 'getRoundData',
+          args: [id],
+        }))
+      );
+
+      // Rounds that failed to read or never completed are skipped
+      const rounds = results
+        .filter((result) => result.status === 'success')
+        .map((result) => this.toRound(result.result))
+        .filter((round) => round.updatedAt > 0n);
+      if (rounds.length === 0) {
+        break;
+      }
+
+      for (const round of rounds) {
+        if (round.updatedAt <= target) {
+          lo = round;
+        } else {
+          hi = round;
+          break;
+        }
+      }
     }
 
-    if (method === 'latestRoundData') {
-      const data = json.result.slice(2);
-      return {
-        roundId: BigInt('0x' + data.slice(0, 64)),
-        answer: BigInt('0x' + data.slice(64, 128)),
-        startedAt: BigInt('0x' + data.slice(128, 192)),
-        updatedAt: BigInt('0x' + data.slice(192, 256)),
-        answeredInRound: BigInt('0x' + data.slice(256, 320)),
-      };
+    return lo;
+  }
+
+  private toRound(result: unknown): Round {
+    // [roundId, answer, startedAt, updatedAt, answeredInRound]
+    const [roundId, answer, , updatedAt] = result as readonly bigint[];
+    return { roundId, answer, updatedAt };
+  }
+
+  private async getDecimals(
+    client: MulticallClient,
+    rpcUrl: string,
+    feed: string
+  ): Promise<number> {
+    const key = `${rpcUrl}:${feed}`;
+    let decimals = this.decimalsCache.get(key);
+    if (decimals === undefined) {
+      decimals = Number(
+        await client.read({
+          address: feed as `0x${string}`,
+          abi: AGGREGATOR_ABI,
+          functionName: 'decimals',
+        })
+      );
+      this.decimalsCache.set(key, decimals);
     }
+    return decimals;
+  }
+
+  private toPriceData(
+    tokenAddress: string,
+    chainId: ChainId,
+    answer: bigint,
+    updatedAt: number,
+    decimals: number,
+    asOf = Math.floor(Date.now() / 1000)
+  ): PriceData {
+    const priceUsd = Number(answer) / Math.pow(10, decimals);
 
-    return json.result;
+    // Check if price is stale (more than 1 hour old at the time it is for)
+    const age = asOf - updatedAt;
+    const isStale = age > 3600;
+
+    return {
+      tokenAddress,
+      chainId,
+      priceUsd,
+      confidence: isStale ? 0.5 : 0.95, // High confidence for Chainlink
+      source: 'chainlink',
+      timestamp: new Date(updatedAt * 1000),
+    };
+  }
+
+  private getClient(rpcUrl: string): MulticallClient {
+    let client = this.clients.get(rpcUrl);
+    if (!client) {
+      client = new MulticallClient(createPublicClient({ transport: http(rpcUrl) }));
+      this.clients.set(rpcUrl, client);
+    }
+    return client;
   }
 }
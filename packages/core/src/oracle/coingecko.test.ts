@@ -0,0 +1,221 @@
+import { describe, it, expect, beforeEach, afterEach, vi, type Mock } from 'vitest';
+import type { ChainId } from '@chainhopper/types';
+import { CoingeckoProvider } from './coingecko.js';
+import ethereumTokenPrices from './__fixtures__/coingecko/token-price-ethereum.json';
+import solanaTokenPrices from './__fixtures__/coingecko/token-price-solana.json';
+import nativePrices from './__fixtures__/coingecko/price-native.json';
+
+const USDC = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+const PEPE = '0x6982508145454Ce325dDbE47a25d4ec3d2311933';
+const JUP = 'JUPyiwrYJFskUPiHa7hkeR8VUtAeFoSYbKedZNsDvCN';
+const NATIVE = '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE';
+
+const QUERY =
+  'vs_currencies=usd&include_market_cap=true&include_24hr_vol=true' +
+  '&include_24hr_change=true&include_last_updated_at=true';
+
+function response(status: number, body?: unknown) {
+  return { ok: status >= 200 && status < 300, status, json: async () => body };
+}
+
+describe('CoingeckoProvider', () => {
+  let provider: CoingeckoProvider;
+  let fetchMock: Mock;
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    provider = new CoingeckoProvider({
+      baseUrl: 'https://api.coingecko.example/api/v3',
+      rateLimit: 6_000_000,
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  describe('supportsChain', () => {
+    it('should support chains with a CoinGecko asset platform', () => {
+      expect(provider.supportsChain('ethereum')).toBe(true);
+      expect(provider.supportsChain('solana')).toBe(true);
+      expect(provider.supportsChain('hyperliquid')).toBe(true);
+    });
+
+    it('should not support chains CoinGecko does not index', () => {
+      expect(provider.supportsChain('zerog')).toBe(false);
+      expect(provider.supportsChain('stable')).toBe(false);
+    });
+  });
+
+  describe('getPrices', () => {
+    it('should look up every token on a platform in one request', async () => {
+      fetchMock.mockResolvedValue(response(200, ethereumTokenPrices));
+
+      const prices = await provider.getPrices([
+        { address: USDC, chainId: 'ethereum' },
+        { address: PEPE, chainId: 'ethereum' },
+      ]);
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(fetchMock).toHaveBeenCalledWith(
+        `https://api.coingecko.example/api/v3/simple/token_price/ethereum?contract_addresses=${USDC},${PEPE}&${QUERY}`,
+        { headers: { Accept: 'application/json' } }
+      );
+
+      const usdc = prices.get(`ethereum:${USDC.toLowerCase()}`);
+      expect(usdc).toMatchObject({
+        tokenAddress: USDC,
+        chainId: 'ethereum',
+        priceUsd: 0.999874,
+        confidence: 0.8,
+        source: 'coingecko',
+        timestamp: new Date(1740830395 * 1000),
+      });
+      expect(usdc?.metadata).toEqual({
+        priceChange24h: -0.012164303741245,
+        volume24h: 6203419872.312118,
+        marketCap: 60982136874.50581,
+      });
+    });
+
+    it('should trust thinly traded tokens less', async () => {
+      fetchMock.mockResolvedValue(response(200, ethereumTokenPrices));
+
+      const prices = await provider.getPrices([{ address: PEPE, chainId: 'ethereum' }]);
+
+      expect(prices.get(`ethereum:${PEPE.toLowerCase()}`)?.confidence).toBe(0.6);
+    });
+
+    it('should match case-sensitive addresses on non-EVM platforms', async () => {
+      fetchMock.mockResolvedValue(response(200, solanaTokenPrices));
+
+      const prices = await provider.getPrices([{ address: JUP, chainId: 'solana' }]);
+
+      expect(fetchMock.mock.calls[0]![0]).toContain('/simple/token_price/solana?');
+      expect(prices.get(`solana:${JUP.toLowerCase()}`)?.priceUsd).toBe(0.6123);
+    });
+
+    it('should price native tokens by coin ID, once per coin', async () => {
+      fetchMock.mockResolvedValue(response(200, nativePrices));
+
+      const prices = await provider.getPrices([
+        { address: NATIVE, chainId: 'ethereum' },
+        { address: NATIVE, chainId: 'base' },
+        { address: NATIVE, chainId: 'bsc' },
+      ]);
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(fetchMock.mock.calls[0]![0]).toBe(
+        `https://api.coingecko.example/api/v3/simple/price?ids=ethereum,binancecoin&${QUERY}`
+      );
+      expect(prices.get(`base:${NATIVE.toLowerCase()}`)?.priceUsd).toBe(2217.41);
+      expect(prices.get(`bsc:${NATIVE.toLowerCase()}`)?.priceUsd).toBe(593.12);
+    });
+
+    it('should split large batches across requests', async () => {
+      fetchMock.mockResolvedValue(response(200, {}));
+      const tokens = Array.from({ length: 150 }, (_, i) => ({
+        address: `0x${i.toString(16).padStart(40, '0')}`,
+        chainId: 'base' as ChainId,
+      }));
+
+      await provider.getPrices(tokens);
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(fetchMock.mock.calls[1]![0].split(',')).toHaveLength(50);
+    });
+
+    it('should skip tokens CoinGecko does not list', async () => {
+      fetchMock.mockResolvedValue(response(200, {}));
+
+      const prices = await provider.getPrices([{ address: USDC, chainId: 'ethereum' }]);
+
+      expect(prices.size).toBe(0);
+    });
+
+    it('should throw on API errors so the oracle can try the next provider', async () => {
+      fetchMock.mockResolvedValue(response(429));
+
+      await expect(provider.getPrices([{ address: USDC, chainId: 'ethereum' }])).rejects.toThrow(
+        'CoinGecko API error: 429'
+      );
+    });
+  });
+
+  describe('getPrice', () => {
+    it('should return the price for a single token', async () => {
+      fetchMock.mockResolvedValue(response(200, ethereumTokenPrices));
+
+      const price = await provider.getPrice(USDC, 'ethereum');
+
+      expect(price?.priceUsd).toBe(0.999874);
+    });
+
+    it('should return null on API errors', async () => {
+      fetchMock.mockResolvedValue(response(500));
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      expect(await provider.getPrice(USDC, 'ethereum')).toBeNull();
+    });
+
+    it('should not call the API for chains without a platform', async () => {
+      expect(await provider.getPrice(USDC, 'zerog')).toBeNull();
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('API keys', () => {
+    it('should send Pro keys to the Pro API', async () => {
+      fetchMock.mockResolvedValue(response(200, ethereumTokenPrices));
+      provider = new CoingeckoProvider({
+        apiKey: 'CG-pro',
+        baseUrl: 'https://pro-api.coingecko.com/api/v3',
+        rateLimit: 6_000_000,
+      });
+
+      await provider.getPrice(USDC, 'ethereum');
+
+      expect(fetchMock.mock.calls[0]![1].headers).toEqual({
+        Accept: 'application/json',
+        'x-cg-pro-api-key': 'CG-pro',
+      });
+    });
+
+    it('should send other keys as Demo keys', async () => {
+      fetchMock.mockResolvedValue(response(200, ethereumTokenPrices));
+      provider = new CoingeckoProvider({
+        apiKey: 'CG-demo',
+        baseUrl: 'https://api.coingecko.com/api/v3',
+        rateLimit: 6_000_000,
+      });
+
+      await provider.getPrice(USDC, 'ethereum');
+
+      expect(fetchMock.mock.calls[0]![1].headers['x-cg-demo-api-key']).toBe('CG-demo');
+    });
+  });
+
+  it('should fail fast rather than wait once the per-minute budget is spent', async () => {
+    vi.useFakeTimers();
+    fetchMock.mockResolvedValue(response(200, ethereumTokenPrices));
+    provider = new CoingeckoProvider({ baseUrl: 'https://api.coingecko.example', rateLimit: 2 });
+    const tokens: { address: string; chainId: ChainId }[] = [
+      { address: USDC, chainId: 'ethereum' },
+    ];
+
+    await provider.getPrices(tokens);
+    await vi.advanceTimersByTimeAsync(1_000);
+    await provider.getPrices(tokens);
+
+    await expect(provider.getPrices(tokens)).rejects.toThrow(
+      'CoinGecko rate limit reached, retry in 59000ms'
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    await vi.advanceTimersByTimeAsync(59_000);
+    await provider.getPrices(tokens);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,247 @@
+import type { ChainId } from '@chainhopper/types';
+import type { CoingeckoConfig, PriceData, PriceProvider } from './types.js';
+import { NATIVE_TOKENS } from './types.js';
+
+// CoinGecko asset platform IDs (GET /asset_platforms); null where CoinGecko
+// has no platform for the chain
+const PLATFORM_IDS: Record<ChainId, string | null> = {
+  ton: 'the-open-network',
+  ethereum: 'ethereum',
+  base: 'base',
+  arbitrum: 'arbitrum-one',
+  optimism: 'optimistic-ethereum',
+  polygon: 'polygon-pos',
+  bsc: 'binance-smart-chain',
+  avalanche: 'avalanche',
+  sonic: 'sonic',
+  kaia: 'klay-token',
+  berachain: 'berachain',
+  sui: 'sui',
+  eclipse: 'eclipse',
+  hyperliquid: 'hyperevm',
+  cosmos: 'cosmos',
+  monad: 'monad',
+  abstract: 'abstract',
+  scroll: 'scroll',
+  soneium: 'soneium',
+  xlayer: 'x-layer',
+  ink: 'ink',
+  zerog: null,
+  astar: 'astar',
+  apechain: 'apechain',
+  ronin: 'ronin',
+  stable: null,
+  linea: 'linea',
+  zksync: 'zksync',
+  blast: 'blast',
+  mantle: 'mantle',
+  manta: 'manta-pacific',
+  mode: 'mode',
+  gnosis: 'xdai',
+  fantom: 'fantom',
+  unichain: 'unichain',
+  taiko: 'taiko',
+  metis: 'metis-andromeda',
+  zora: 'zora-network',
+  fraxtal: 'fraxtal',
+  worldchain: 'world-chain',
+  celo: 'celo',
+  cronos: 'cronos',
+  bob: 'bob-network',
+  cyber: 'cyber',
+  lisk: 'lisk',
+  mint: 'mint',
+  redstone: 'redstone',
+  derive: null,
+  moonbeam: 'moonbeam',
+  moonriver: 'moonriver',
+  starknet: 'starknet',
+  solana: 'solana',
+};
+
+// Coin IDs for the native tokens in NATIVE_TOKENS, which have no contract
+// address for simple/token_price to look up
+const NATIVE_COIN_IDS: Partial<Record<ChainId, string>> = {
+  ethereum: 'ethereum',
+  base: 'ethereum',
+  arbitrum: 'ethereum',
+  optimism: 'ethereum',
+  polygon: 'polygon-ecosystem-token',
+  bsc: 'binancecoin',
+  avalanche: 'avalanche-2',
+  sonic: 'sonic-3',
+  kaia: 'kaia',
+  berachain: 'berachain-bera',
+};
+
+/** Most contract addresses sent in one simple/token_price request */
+const MAX_ADDRESSES_PER_REQUEST = 100;
+
+/** Tokens trading less than this per day get the lower confidence */
+const MIN_VOLUME_USD = 100_000;
+
+interface CoingeckoPrice {
+  usd?: number;
+  usd_market_cap?: number;
+  usd_24h_vol?: number;
+  usd_24h_change?: number;
+  last_updated_at?: number;
+}
+
+type Token = { address: string; chainId: ChainId };
+
+/**
+ * CoinGecko Price Provider
+ * Aggregated price across CEX and DEX venues; covers most listed tokens on
+ * every chain CoinGecko indexes, but is neither on-chain nor real-time
+ */
+export class CoingeckoProvider implements PriceProvider {
+  name = 'coingecko' as const;
+  priority = 3; // Ahead of DexScreener, behind the oracle networks
+
+  private config: CoingeckoConfig;
+  /** When each request in the last minute was sent */
+  private requestTimes: number[] = [];
+
+  constructor(config: CoingeckoConfig) {
+    this.config = config;
+  }
+
+  supportsChain(chainId: ChainId): boolean {
+    return Boolean(PLATFORM_IDS[chainId]);
+  }
+
+  async supportsToken(_tokenAddress: string, chainId: ChainId): Promise<boolean> {
+    // Listing is only known by asking for a price
+    return this.supportsChain(chainId);
+  }
+
+  async getPrice(tokenAddress: string, chainId: ChainId): Promise<PriceData | null> {
+    try {
+      const prices = await this.getPrices([{ address: tokenAddress, chainId }]);
+      return prices.get(`${chainId}:${tokenAddress.toLowerCase()}`) ?? null;
+    } catch (error) {
+      console.error(`CoinGecko price fetch failed for ${tokenAddress} on ${chainId}:`, error);
+      return null;
+    }
+  }
+
+  async getPrices(tokens: Token[]): Promise<Map<string, PriceData>> {
+    const results = new Map<string, PriceData>();
+    const byPlatform = new Map<string, Token[]>();
+    const native: Token[] = [];
+
+    for (const token of tokens) {
+      const platform = PLATFORM_IDS[token.chainId];
+      if (!platform) continue;
+
+      if (token.address.toLowerCase() === NATIVE_TOKENS[token.chainId]?.toLowerCase()) {
+        native.push(token);
+      } else {
+        byPlatform.set(platform, [...(byPlatform.get(platform) ?? []), token]);
+      }
+    }
+
+    for (const [platform, platformTokens] of byPlatform) {
+      for (let i = 0; i < platformTokens.length; i += MAX_ADDRESSES_PER_REQUEST) {
+        const batch = platformTokens.slice(i, i + MAX_ADDRESSES_PER_REQUEST);
+        const addresses = batch.map((token) => token.address).join(',');
+        const data = await this.request(
+          `/simple/token_price/${platform}?contract_addresses=${addresses}`
+        );
+
+        // Keys come back lowercased for EVM platforms but as sent elsewhere
+        const prices = new Map(
+          Object.entries(data).map(([address, price]) => [address.toLowerCase(), price])
+        );
+        for (const token of batch) {
+          this.addPrice(results, token, prices.get(token.address.toLowerCase()));
+        }
+      }
+    }
+
+    const coinIds = [...new Set(native.map((token) => NATIVE_COIN_IDS[token.chainId]))];
+    const available = coinIds.filter((id): id is string => id !== undefined);
+    if (available.length > 0) {
+      const data = await this.request(`/simple/price?ids=${available.join(',')}`);
+      for (const token of native) {
+        const coinId = NATIVE_COIN_IDS[token.chainId];
+        this.addPrice(results, token, coinId ? data[coinId] : undefined);
+      }
+    }
+
+    return results;
+  }
+
+  private addPrice(
+    results: Map<string, PriceData>,
+    token: Token,
+    price: CoingeckoPrice | undefined
+  ): void {
+    if (!price?.usd || price.usd <= 0) return;
+
+    const volume = price.usd_24h_vol ?? 0;
+    results.set(`${token.chainId}:${token.address.toLowerCase()}`, {
+      tokenAddress: token.address,
+      chainId: token.chainId,
+      priceUsd: price.usd,
+      confidence: volume >= MIN_VOLUME_USD ? 0.8 : 0.6,
+      source: 'coingecko',
+      timestamp: price.last_updated_at ? new Date(price.last_updated_at * 1000) : new Date(),
+      metadata: {
+        priceChange24h: price.usd_24h_change,
+        volume24h: price.usd_24h_vol,
+        marketCap: price.usd_market_cap,
+      },
+    });
+  }
+
+  private async request(path: string): Promise<Record<string, CoingeckoPrice>> {
+    this.rateLimit();
+
+    const separator = path.includes('?') ? '&' : '?';
+    const query =
+      'vs_currencies=usd&include_market_cap=true&include_24hr_vol=true' +
+      '&include_24hr_change=true&include_last_updated_at=true';
+    const response = await fetch(`${this.config.baseUrl}${path}${separator}${query}`, {
+      headers: { Accept: 'application/json', ...this.apiKeyHeader() },
+    });
+
+    if (!response.ok) {
+      throw new Error(`CoinGecko API error: ${response.status}`);
+    }
+
+    return (await response.json()) as Record<string, CoingeckoPrice>;
+  }
+
+  /**
+   * Pro keys only work against pro-api.coingecko.com; anything else is
+   * sent as a Demo key to the public API
+   */
+  private apiKeyHeader(): Record<string, string> {
+    if (!this.config.apiKey) return {};
+
+    return this.config.baseUrl.includes('pro-api.')
+      ? { 'x-cg-pro-api-key': this.config.apiKey }
+      : { 'x-cg-demo-api-key': this.config.apiKey };
+  }
+
+  /**
+   * Count a request against the per-minute budget, throwing once it is
+   * spent. The oracle calls this provider while answering requests and has
+   * other providers to fall back on, so waiting out the keyless API's
+   * limit would only stall the lookup.
+   */
+  private rateLimit(): void {
+    const now = Date.now();
+    this.requestTimes = this.requestTimes.filter((time) => now - time < 60_000);
+
+    const [oldest] = this.requestTimes;
+    if (oldest !== undefined && this.requestTimes.length >= this.config.rateLimit) {
+      const retryIn = oldest + 60_000 - now;
+      throw new Error(`CoinGecko rate limit reached, retry in ${retryIn}ms`);
+    }
+
+    this.requestTimes.push(now);
+  }
+}
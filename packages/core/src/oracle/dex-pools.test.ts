@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+// Taiko and Zora have pools to price from
+const { getPrices, PoolPriceReader } = vi.hoisted(() => {
+  const getPrices = vi.fn();
+  return {
+    getPrices,
+    PoolPriceReader: vi.fn((chainId) => ({
+      getPrices,
+      isSupported: chainId === 'taiko' || chainId === 'zora',
+    })),
+  };
+});
+
+vi.mock('@chainhopper/adapters/multicall', () => ({
+  MulticallClient: vi.fn(() => ({ readMany: vi.fn() })),
+}));
+
+vi.mock('@chainhopper/adapters/pool-prices', () => ({ PoolPriceReader }));
+
+// Import after mocking
+import { DexPoolProvider } from './dex-pools.js';
+
+const TAIKO = '0xA9d23408b9bA935c230493c40C73824Df71A0975';
+const HORSE = '0x2F4D4CFc5A3B5d1c9d2C5D6e5b5c5d5e5f5a5b5c';
+
+describe('DexPoolProvider', () => {
+  let provider: DexPoolProvider;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    provider = new DexPoolProvider({ rpcUrls: {} });
+  });
+
+  describe('supportsChain', () => {
+    it('should support chains with pool factories', () => {
+      expect(provider.supportsChain('taiko')).toBe(true);
+      expect(provider.supportsChain('zora')).toBe(true);
+    });
+
+    it('should not support chains the pool reader cannot price', () => {
+      expect(provider.supportsChain('ethereum')).toBe(false);
+      expect(provider.supportsChain('stable')).toBe(false);
+    });
+
+    it('should not support chains without an RPC URL', () => {
+      expect(provider.supportsChain('solana')).toBe(false);
+      expect(PoolPriceReader).not.toHaveBeenCalledWith('solana', expect.anything());
+    });
+  });
+
+  describe('getPrices', () => {
+    it('should convert pool prices to price data', async () => {
+      getPrices.mockResolvedValue(
+        new Map([[TAIKO.toLowerCase(), { priceUsd: 2, liquidityUsd: 250_000, pools: 2 }]])
+      );
+
+      const prices = await provider.getPrices([{ address: TAIKO, chainId: 'taiko' }]);
+
+      expect(getPrices).toHaveBeenCalledWith([TAIKO]);
+      expect(prices.get(`taiko:${TAIKO.toLowerCase()}`)).toMatchObject({
+        tokenAddress: TAIKO,
+        chainId: 'taiko',
+        priceUsd: 2,
+        confidence: 0.55,
+        source: 'dex',
+        metadata: { liquidity: 250_000 },
+      });
+    });
+
+    it('should trust deeper pools more', async () => {
+      getPrices.mockResolvedValue(
+        new Map([
+          [TAIKO.toLowerCase(), { priceUsd: 2, liquidityUsd: 1_000_000, pools: 1 }],
+          [HORSE.toLowerCase(), { priceUsd: 0.01, liquidityUsd: 5_000, pools: 1 }],
+        ])
+      );
+
+      const prices = await provider.getPrices([
+        { address: TAIKO, chainId: 'taiko' },
+        { address: HORSE, chainId: 'taiko' },
+      ]);
+
+      expect(prices.get(`taiko:${TAIKO.toLowerCase()}`)?.confidence).toBeCloseTo(0.7);
+      expect(prices.get(`taiko:${HORSE.toLowerCase()}`)?.confidence).toBeLessThan(0.31);
+    });
+
+    it('should read each chain once and reuse its reader', async () => {
+      getPrices.mockResolvedValue(new Map());
+
+      await provider.getPrices([
+        { address: TAIKO, chainId: 'taiko' },
+        { address: HORSE, chainId: 'taiko' },
+        { address: TAIKO, chainId: 'zora' },
+        { address: TAIKO, chainId: 'ethereum' },
+      ]);
+      await provider.getPrices([{ address: TAIKO, chainId: 'taiko' }]);
+
+      expect(getPrices).toHaveBeenCalledTimes(3);
+      expect(getPrices).toHaveBeenCalledWith([TAIKO, HORSE]);
+      // Ethereum's reader is only asked whether it can price anything
+      expect(PoolPriceReader.mock.calls.map(([chainId]) => chainId)).toEqual([
+        'taiko',
+        'zora',
+        'ethereum',
+      ]);
+    });
+
+    it('should let read errors reach the oracle', async () => {
+      getPrices.mockRejectedValue(new Error('RPC unavailable'));
+
+      await expect(provider.getPrices([{ address: TAIKO, chainId: 'taiko' }])).rejects.toThrow(
+        'RPC unavailable'
+      );
+    });
+  });
+
+  describe('getPrice', () => {
+    it('should return null for tokens without a pool', async () => {
+      getPrices.mockResolvedValue(new Map());
+
+      expect(await provider.getPrice(HORSE, 'taiko')).toBeNull();
+    });
+  });
+});
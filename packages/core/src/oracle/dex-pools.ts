@@ -0,0 +1,99 @@
+import type { ChainId } from '@chainhopper/types';
+import { createPublicClient, http } from 'viem';
+import { MulticallClient } from '@chainhopper/adapters/multicall';
+import { EVM_CHAIN_CONFIGS, type EvmChainId } from '@chainhopper/adapters/chains';
+import { PoolPriceReader } from '@chainhopper/adapters/pool-prices';
+import type { DexPoolConfig, PriceData, PriceProvider } from './types.js';
+
+/** Pool liquidity (USD) at which confidence is halfway between floor and ceiling */
+const HALF_CONFIDENCE_LIQUIDITY = 250_000;
+
+/**
+ * On-chain DEX Pool Price Provider
+ * Prices long-tail tokens from the chain's own Uniswap V2/V3 style pools,
+ * for chains and tokens no feed or API covers
+ */
+export class DexPoolProvider implements PriceProvider {
+  name = 'dex' as const;
+  priority = 5; // Last resort, a price is only as good as its pools
+
+  private config: DexPoolConfig;
+  private readers = new Map<ChainId, PoolPriceReader>();
+
+  constructor(config: DexPoolConfig) {
+    this.config = config;
+  }
+
+  supportsChain(chainId: ChainId): boolean {
+    // The reader knows whether the chain has both factories and stablecoins
+    return this.getRpcUrl(chainId) !== undefined && this.getReader(chainId).isSupported;
+  }
+
+  async supportsToken(_tokenAddress: string, chainId: ChainId): Promise<boolean> {
+    // Whether a pool exists is only known by looking for one
+    return this.supportsChain(chainId);
+  }
+
+  async getPrice(tokenAddress: string, chainId: ChainId): Promise<PriceData | null> {
+    const prices = await this.getPrices([{ address: tokenAddress, chainId }]);
+    return prices.get(`${chainId}:${tokenAddress.toLowerCase()}`) ?? null;
+  }
+
+  async getPrices(
+    tokens: { address: string; chainId: ChainId }[]
+  ): Promise<Map<string, PriceData>> {
+    const results = new Map<string, PriceData>();
+
+    const byChain = new Map<ChainId, string[]>();
+    for (const { address, chainId } of tokens) {
+      if (!this.supportsChain(chainId)) continue;
+      byChain.set(chainId, [...(byChain.get(chainId) ?? []), address]);
+    }
+
+    await Promise.all(
+      Array.from(byChain.entries()).map(async ([chainId, addresses]) => {
+        const prices = await this.getReader(chainId).getPrices(addresses);
+        const timestamp = new Date();
+
+        for (const address of addresses) {
+          const price = prices.get(address.toLowerCase());
+          if (!price) continue;
+
+          results.set(`${chainId}:${address.toLowerCase()}`, {
+            tokenAddress: address,
+            chainId,
+            priceUsd: price.priceUsd,
+            confidence: liquidityConfidence(price.liquidityUsd),
+            source: 'dex',
+            timestamp,
+            metadata: { liquidity: price.liquidityUsd },
+          });
+        }
+      })
+    );
+
+    return results;
+  }
+
+  private getRpcUrl(chainId: ChainId): string | undefined {
+    return this.config.rpcUrls[chainId] ?? EVM_CHAIN_CONFIGS[chainId as EvmChainId]?.rpcUrls[0];
+  }
+
+  private getReader(chainId: ChainId): PoolPriceReader {
+    let reader = this.readers.get(chainId);
+    if (!reader) {
+      const client = createPublicClient({ transport: http(this.getRpcUrl(chainId)) });
+      reader = new PoolPriceReader(chainId as EvmChainId, new MulticallClient(client));
+      this.readers.set(chainId, reader);
+    }
+    return reader;
+  }
+}
+
+/**
+ * Confidence rises with pool depth from 0.3 towards 0.8: about 0.55 at
+ * $250k of liquidity and 0.7 at $1M
+ */
+function liquidityConfidence(liquidityUsd: number): number {
+  return 0.3 + (0.5 * liquidityUsd) / (liquidityUsd + HALF_CONFIDENCE_LIQUIDITY);
+}
@@ -55,7 +55,7 @@ interface DexScreenerPair {
  */
 export class DexScreenerProvider implements PriceProvider {
   name = 'dexscreener' as const;
-  priority = 3; // Lower priority, used as fallback
+  priority = 4; // Lower priority, used as fallback
 
   private config: DexScreenerConfig;
   private requestCount = 0;
@@ -0,0 +1,91 @@
+import type { ChainId } from '@chainhopper/types';
+import { prisma } from '../prisma/index.js';
+import type { PriceData, PriceHistoryStore, PriceSource } from './types.js';
+
+/** Decimal columns come back as Prisma.Decimal; only toString() is relied on */
+type DecimalLike = { toString(): string };
+
+interface PriceCacheRecord {
+  chainId: string;
+  tokenAddress: string;
+  priceUsd: DecimalLike;
+  confidence: DecimalLike | null;
+  priceChange24h: DecimalLike | null;
+  volume24h: DecimalLike | null;
+  marketCap: DecimalLike | null;
+  source: string;
+  timestamp: Date;
+}
+
+/** Confidence assumed for rows written before confidence was stored */
+const DEFAULT_CONFIDENCE = 0.5;
+
+/**
+ * Price history backed by the PriceCache table, one row per token,
+ * source and observation time
+ */
+export class PrismaPriceHistory implements PriceHistoryStore {
+  constructor(private db: typeof prisma = prisma) {}
+
+  async getNeighbours(
+    tokenAddress: string,
+    chainId: ChainId,
+    at: Date
+  ): Promise<{ before: PriceData | null; after: PriceData | null }> {
+    const where = { chainId: chainId.toUpperCase(), tokenAddress: tokenAddress.toLowerCase() };
+
+    const [before, after]: (PriceCacheRecord | null)[] = await Promise.all([
+      this.db.priceCache.findFirst({
+        where: { ...where, timestamp: { lte: at } },
+        orderBy: { timestamp: 'desc' },
+      }),
+      this.db.priceCache.findFirst({
+        where: { ...where, timestamp: { gt: at } },
+        orderBy: { timestamp: 'asc' },
+      }),
+    ]);
+
+    return {
+      before: before ? toPriceData(before) : null,
+      after: after ? toPriceData(after) : null,
+    };
+  }
+
+  async record(prices: PriceData[]): Promise<void> {
+    if (prices.length === 0) return;
+
+    await this.db.priceCache.createMany({
+      data: prices.map((price) => ({
+        chainId: price.chainId.toUpperCase(),
+        tokenAddress: price.tokenAddress.toLowerCase(),
+        priceUsd: price.priceUsd,
+        confidence: price.confidence,
+        priceChange24h: price.metadata?.priceChange24h,
+        volume24h: price.metadata?.volume24h,
+        marketCap: price.metadata?.marketCap,
+        source: price.source.toUpperCase(),
+        timestamp: price.timestamp,
+      })),
+      skipDuplicates: true,
+    });
+  }
+}
+
+function toPriceData(record: PriceCacheRecord): PriceData {
+  const optional = (value: DecimalLike | null) =>
+    value === null ? undefined : Number(value.toString());
+
+  return {
+    tokenAddress: record.tokenAddress,
+    chainId: record.chainId.toLowerCase() as ChainId,
+    priceUsd: Number(record.priceUsd.toString()),
+    confidence: optional(record.confidence) ?? DEFAULT_CONFIDENCE,
+    source: record.source.toLowerCase() as PriceSource,
+    timestamp: record.timestamp,
+    metadata: {
+      priceChange24h: optional(record.priceChange24h),
+      volume24h: optional(record.volume24h),
+      marketCap: optional(record.marketCap),
+    },
+  };
+}
@@ -2,4 +2,7 @@ export * from './types.js';
 export * from './chainlink.js';
 export * from './pyth.js';
 export * from './dexscreener.js';
+export * from './coingecko.js';
+export * from './dex-pools.js';
 export * from './service.js';
+export * from './history.js';
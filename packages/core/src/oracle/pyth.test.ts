@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, afterEach, vi, type Mock } from 'vitest';
+import { PythProvider } from './pyth.js';
+
+const ETH = '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE';
+const ETH_PRICE_ID = '0xff61491a931112ddf1bd8147cd1b641375f79f5825126d665480874634fd0ace';
+
+function response(status: number, body?: unknown) {
+  return { ok: status >= 200 && status < 300, status, json: async () => body };
+}
+
+describe('PythProvider', () => {
+  let provider: PythProvider;
+  let fetchMock: Mock;
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    provider = new PythProvider({ endpoint: 'https://hermes.example', priceIds: {} });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('getHistoricalPrice', () => {
+    it('should read the update published at the requested time', async () => {
+      fetchMock.mockResolvedValue(
+        response(200, {
+          id: ETH_PRICE_ID.slice(2),
+          price: { price: '325012345678', conf: '150000000', expo: -8, publish_time: 1740830400 },
+        })
+      );
+
+      const price = await provider.getHistoricalPrice(
+        ETH,
+        'ethereum',
+        new Date('2025-03-01T12:00:00Z')
+      );
+
+      expect(fetchMock).toHaveBeenCalledWith(
+        `https://hermes.example/api/get_price_feed?id=${ETH_PRICE_ID}&publish_time=1740830400`,
+        expect.any(Object)
+      );
+      expect(price?.priceUsd).toBeCloseTo(3250.12345678);
+      expect(price?.source).toBe('pyth');
+      expect(price?.timestamp).toEqual(new Date('2025-03-01T12:00:00Z'));
+    });
+
+    it('should return null when Hermes has no update for the time', async () => {
+      fetchMock.mockResolvedValue(response(404));
+
+      expect(await provider.getHistoricalPrice(ETH, 'ethereum', new Date())).toBeNull();
+    });
+
+    it('should throw on other API errors so the oracle can try the next provider', async () => {
+      fetchMock.mockResolvedValue(response(500));
+
+      await expect(provider.getHistoricalPrice(ETH, 'ethereum', new Date())).rejects.toThrow(
+        'Pyth API error: 500'
+      );
+    });
+
+    it('should not call the API for tokens without a price feed', async () => {
+      const unknown = '0x1111111111111111111111111111111111111111';
+
+      expect(await provider.getHistoricalPrice(unknown, 'ethereum', new Date())).toBeNull();
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('streamPrices', () => {
+    function update(priceValue: string, publishTime: number) {
+      const feed = {
+        id: ETH_PRICE_ID.slice(2),
+        price: { price: priceValue, conf: '150000000', expo: -8, publish_time: publishTime },
+      };
+      return `event: message\ndata: ${JSON.stringify({ parsed: [feed] })}\n\n`;
+    }
+
+    it('should call back with each update, split across chunks or not', async () => {
+      const events = update('325000000000', 1740830400) + update('325100000000', 1740830401);
+      const encoder = new TextEncoder();
+      fetchMock.mockResolvedValue({
+        ok: true,
+        status: 200,
+        body: ReadableStream.from([
+          encoder.encode(events.slice(0, 50)),
+          encoder.encode(events.slice(50)),
+        ]),
+      });
+      const onPrice = vi.fn();
+
+      await provider.streamPrices(
+        [{ address: ETH, chainId: 'base' }],
+        onPrice,
+        new AbortController().signal
+      );
+
+      expect(fetchMock).toHaveBeenCalledWith(
+        `https://hermes.example/v2/updates/price/stream?ids[]=${ETH_PRICE_ID.slice(2)}&parsed=true`,
+        expect.objectContaining({ signal: expect.any(AbortSignal) })
+      );
+      expect(onPrice.mock.calls.map(([price]) => price.priceUsd)).toEqual([3250, 3251]);
+      expect(onPrice.mock.calls[0]![0]).toMatchObject({ chainId: 'base', source: 'pyth' });
+    });
+
+    it('should throw when Hermes refuses the stream', async () => {
+      fetchMock.mockResolvedValue(response(503));
+
+      await expect(
+        provider.streamPrices(
+          [{ address: ETH, chainId: 'base' }],
+          vi.fn(),
+          new AbortController().signal
+        )
+      ).rejects.toThrow('Pyth stream error: 503');
+    });
+
+    it('should not open a stream for tokens without a price feed', async () => {
+      const unknown = '0x1111111111111111111111111111111111111111';
+
+      await provider.streamPrices(
+        [{ address: unknown, chainId: 'base' }],
+        vi.fn(),
+        new AbortController().signal
+      );
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+});
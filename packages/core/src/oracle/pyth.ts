@@ -85,27 +85,46 @@ export class PythProvider implements PriceProvider {
         return null;
       }
 
-      const price = priceFeed.price;
-      const priceUsd = Number(price.price) * Math.pow(10, price.expo);
-      const confidence = Number(price.conf) * Math.pow(10, price.expo);
-
-      // Calculate confidence as ratio of confidence interval to price
-      const confidenceRatio = 1 - Math.min(confidence / priceUsd, 0.5);
-
-      return {
-        tokenAddress,
-        chainId,
-        priceUsd,
-        confidence: confidenceRatio,
-        source: 'pyth',
-        timestamp: new Date(price.publish_time * 1000),
-      };
+      return this.toPriceData(tokenAddress, chainId, priceFeed.price);
     } catch (error) {
       console.error(`Pyth price fetch failed for ${tokenAddress}:`, error);
       return null;
     }
   }
 
+  /**
+   * Price from the first Pyth update published at or after `at`. Updates
+   * are sub-second apart on Pythnet, so this is the price at `at`.
+   */
+  async getHistoricalPrice(
+    tokenAddress: string,
+    chainId: ChainId,
+    at: Date
+  ): Promise<PriceData | null> {
+    const symbol = this.addressToSymbol(tokenAddress);
+    const priceId = symbol ? this.priceIds[symbol] : undefined;
+    if (!priceId) {
+      return null;
+    }
+
+    const publishTime = Math.floor(at.getTime() / 1000);
+    const response = await fetch(
+      `${this.config.endpoint}/api/get_price_feed?id=${priceId}&publish_time=${publishTime}`,
+      { headers: { 'Accept': 'application/json' } }
+    );
+
+    // Hermes answers 404 when it has no update for the time
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`Pyth API error: ${response.status}`);
+    }
+
+    const priceFeed = await response.json();
+    return priceFeed?.price ? this.toPriceData(tokenAddress, chainId, priceFeed.price) : null;
+  }
+
   async getPrices(tokens: { address: string; chainId: ChainId }[]): Promise<Map<string, PriceData>> {
     const results = new Map<string, PriceData>();
 
@@ -143,19 +162,10 @@ export class PythProvider implements PriceProvider {
         const token = priceIdToToken.get(priceFeed.id);
         if (!token || !priceFeed.price) continue;
 
-        const price = priceFeed.price;
-        const priceUsd = Number(price.price) * Math.pow(10, price.expo);
-        const confidence = Number(price.conf) * Math.pow(10, price.expo);
-        const confidenceRatio = 1 - Math.min(confidence / priceUsd, 0.5);
-
-        results.set(`${token.chainId}:${token.address.toLowerCase()}`, {
-          tokenAddress: token.address,
-          chainId: token.chainId,
-          priceUsd,
-          confidence: confidenceRatio,
-          source: 'pyth',
-          timestamp: new Date(price.publish_time * 1000),
-        });
+        results.set(
+          `${token.chainId}:${token.address.toLowerCase()}`,
+          this.toPriceData(token.address, token.chainId, priceFeed.price)
+        );
       }
     } catch (error) {
       console.error('Pyth batch price fetch failed:', error);
@@ -163,4 +173,88 @@ export class PythProvider implements PriceProvider {
 
     return results;
   }
+
+  /**
+   * Stream Hermes price updates for the tokens Pyth has feeds for, calling
+   * `onPrice` as each arrives. Resolves when Hermes closes the stream and
+   * rejects when `signal` aborts it or the connection fails, so the caller
+   * decides when to reconnect.
+   */
+  async streamPrices(
+    tokens: { address: string; chainId: ChainId }[],
+    onPrice: (price: PriceData) => void,
+    signal: AbortSignal
+  ): Promise<void> {
+    // Hermes reports feed IDs without the 0x prefix
+    const tokensByFeed = new Map<string, { address: string; chainId: ChainId }[]>();
+    for (const token of tokens) {
+      const symbol = this.addressToSymbol(token.address);
+      const priceId = symbol ? this.priceIds[symbol] : undefined;
+      if (!priceId) continue;
+
+      const feedId = priceId.replace(/^0x/, '').toLowerCase();
+      tokensByFeed.set(feedId, [...(tokensByFeed.get(feedId) ?? []), token]);
+    }
+
+    if (tokensByFeed.size === 0) {
+      return;
+    }
+
+    const queryString = Array.from(tokensByFeed.keys()).map(id => `ids[]=${id}`).join('&');
+    const response = await fetch(
+      `${this.config.endpoint}/v2/updates/price/stream?${queryString}&parsed=true`,
+      { headers: { 'Accept': 'text/event-stream' }, signal }
+    );
+
+    if (!response.ok || !response.body) {
+      throw new Error(`Pyth stream error: ${response.status}`);
+    }
+
+    // Server-sent events: `data:` lines, with a blank line after each event
+    const decoder = new TextDecoder();
+    let buffered = '';
+    for await (const chunk of response.body) {
+      buffered += decoder.decode(chunk, { stream: true }).replace(/\r/g, '');
+
+      let end;
+      while ((end = buffered.indexOf('\n\n')) !== -1) {
+        const event = buffered.slice(0, end);
+        buffered = buffered.slice(end + 2);
+
+        const data = event
+          .split('\n')
+          .filter(line => line.startsWith('data:'))
+          .map(line => line.slice(5).trim())
+          .join('');
+        if (!data) continue;
+
+        for (const feed of JSON.parse(data).parsed ?? []) {
+          for (const token of tokensByFeed.get(feed.id?.replace(/^0x/, '')) ?? []) {
+            onPrice(this.toPriceData(token.address, token.chainId, feed.price));
+          }
+        }
+      }
+    }
+  }
+
+  private toPriceData(
+    tokenAddress: string,
+    chainId: ChainId,
+    price: { price: string; conf: string; expo: number; publish_time: number }
+  ): PriceData {
+    const priceUsd = Number(price.price) * Math.pow(10, price.expo);
+    const confidence = Number(price.conf) * Math.pow(10, price.expo);
+
+    // Calculate confidence as ratio of confidence interval to price
+    const confidenceRatio = 1 - Math.min(confidence / priceUsd, 0.5);
+
+    return {
+      tokenAddress,
+      chainId,
+      priceUsd,
+      confidence: confidenceRatio,
+      source: 'pyth',
+      timestamp: new Date(price.publish_time * 1000),
+    };
+  }
 }
@@ -2,6 +2,7 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { PriceOracleService, createPriceOracle } from './service.js';
 import type { PriceData, PriceProvider, OracleConfig } from './types.js';
+import { MemoryCacheStore } from '../cache/index.js';
 import type { ChainId } from '@chainhopper/types';
 
 // Mock provider factory
@@ -282,10 +283,10 @@ describe('PriceOracleService', () => {
       (service as any).providers = [mockProvider];
 
       await service.getPrice('0x1234', 'ethereum');
-      expect((service as any).cache.size).toBe(1);
+      expect((await service.getCacheStats()).size).toBe(1);
 
-      service.clearCache();
-      expect((service as any).cache.size).toBe(0);
+      await service.clearCache();
+      expect((await service.getCacheStats()).size).toBe(0);
     });
 
     it('should clear cache for specific token', async () => {
@@ -296,10 +297,10 @@ describe('PriceOracleService', () => {
 
       await service.getPrice('0x1234', 'ethereum');
       await service.getPrice('0x5678', 'ethereum');
-      expect((service as any).cache.size).toBe(2);
+      expect((await service.getCacheStats()).size).toBe(2);
 
-      service.clearCacheForToken('0x1234', 'ethereum');
-      expect((service as any).cache.size).toBe(1);
+      await service.clearCacheForToken('0x1234', 'ethereum');
+      expect((await service.getCacheStats()).size).toBe(1);
     });
 
     it('should provide cache statistics', async () => {
@@ -310,11 +311,311 @@ describe('PriceOracleService', () => {
 
       await service.getPrice('0x1234', 'ethereum');
 
-      const stats = service.getCacheStats();
+      const stats = await service.getCacheStats();
       expect(stats.size).toBe(1);
       expect(stats.entries[0].key).toBe('ethereum:0x1234');
       expect(stats.entries[0].expiresIn).toBeGreaterThan(0);
     });
+
+    it('should share cached prices between services on the same store', async () => {
+      const mockProvider = createMockProvider('chainlink', 1, ['ethereum']);
+      const cache = new MemoryCacheStore();
+
+      const first = new PriceOracleService(mockConfig, undefined, cache);
+      const second = new PriceOracleService(mockConfig, undefined, cache);
+      (first as any).providers = [mockProvider];
+      (second as any).providers = [mockProvider];
+
+      await first.getPrice('0x1234', 'ethereum');
+      const price = await second.getPrice('0x1234', 'ethereum');
+
+      expect(price?.priceUsd).toBe(100);
+      expect(mockProvider.getPrice).toHaveBeenCalledTimes(1);
+      expect(await cache.ttl('oracle:price:ethereum:0x1234')).toBeLessThanOrEqual(30000);
+    });
+  });
+
+  describe('getHistoricalPrice', () => {
+    const HOUR = 60 * 60 * 1000;
+    const at = new Date('2025-03-01T12:00:00Z');
+
+    function point(priceUsd: number, offsetMs: number, confidence = 0.9): PriceData {
+      return {
+        tokenAddress: '0x1234',
+        chainId: 'ethereum',
+        priceUsd,
+        confidence,
+        source: 'chainlink',
+        timestamp: new Date(at.getTime() + offsetMs),
+      };
+    }
+
+    function createHistory(before: PriceData | null, after: PriceData | null) {
+      return {
+        getNeighbours: vi.fn().mockResolvedValue({ before, after }),
+        record: vi.fn().mockResolvedValue(undefined),
+      };
+    }
+
+    function createHistoricalProvider(price: PriceData | null) {
+      return {
+        ...createMockProvider('chainlink', 1, ['ethereum']),
+        getHistoricalPrice: vi.fn().mockResolvedValue(price),
+      };
+    }
+
+    it('should return a stored price at exactly the requested time', async () => {
+      const history = createHistory(point(3000, 0), point(3100, HOUR));
+      service = new PriceOracleService(mockConfig, history);
+
+      const price = await service.getHistoricalPrice('0x1234', 'ethereum', at);
+
+      expect(price?.priceUsd).toBe(3000);
+      expect(history.getNeighbours).toHaveBeenCalledWith('0x1234', 'ethereum', at);
+    });
+
+    it('should interpolate linearly between stored prices either side', async () => {
+      const history = createHistory(point(3000, -HOUR, 0.95), point(3200, 3 * HOUR, 0.8));
+      service = new PriceOracleService(mockConfig, history);
+
+      const price = await service.getHistoricalPrice('0x1234', 'ethereum', at);
+
+      // A quarter of the way from 3000 to 3200, at the lower confidence
+      expect(price?.priceUsd).toBe(3050);
+      expect(price?.confidence).toBe(0.8);
+      expect(price?.timestamp).toEqual(at);
+    });
+
+    it('should not interpolate across gaps wider than maxInterpolationGap', async () => {
+      const history = createHistory(point(3000, -4 * HOUR), point(3200, 4 * HOUR));
+      service = new PriceOracleService(mockConfig, history);
+
+      expect(await service.getHistoricalPrice('0x1234', 'ethereum', at)).toBeNull();
+    });
+
+    it('should use the nearest stored price within maxNearestDistance', async () => {
+      const history = createHistory(point(3000, -10 * HOUR), point(3100, 10 * 60 * 1000));
+      service = new PriceOracleService(mockConfig, history);
+
+      const price = await service.getHistoricalPrice('0x1234', 'ethereum', at);
+
+      expect(price?.priceUsd).toBe(3100);
+    });
+
+    it('should honour configured history rules', async () => {
+      const history = createHistory(point(3000, -HOUR), point(3200, HOUR));
+      service = new PriceOracleService(
+        {
+          ...mockConfig,
+          history: { maxInterpolationGap: HOUR, maxNearestDistance: HOUR, sampleInterval: 0 },
+        },
+        history
+      );
+
+      // Too far apart to interpolate, so the earlier of two equally near prices
+      const price = await service.getHistoricalPrice('0x1234', 'ethereum', at);
+
+      expect(price?.priceUsd).toBe(3000);
+    });
+
+    it('should fall back to providers with history and store their price', async () => {
+      const history = createHistory(null, null);
+      const provider = createHistoricalProvider(point(2950, -20 * 60 * 1000));
+      service = new PriceOracleService(mockConfig, history);
+      (service as any).providers = [createMockProvider('dexscreener', 0, ['ethereum']), provider];
+
+      const price = await service.getHistoricalPrice('0x1234', 'ethereum', at);
+
+      expect(price?.priceUsd).toBe(2950);
+      expect(provider.getHistoricalPrice).toHaveBeenCalledWith('0x1234', 'ethereum', at);
+      expect(history.record).toHaveBeenCalledWith([price]);
+    });
+
+    it('should try the next provider when one has no history for the time', async () => {
+      const empty = createHistoricalProvider(null);
+      const backup = createHistoricalProvider(point(2990, 1000));
+      service = new PriceOracleService(mockConfig);
+      (service as any).providers = [empty, backup];
+
+      const price = await service.getHistoricalPrice('0x1234', 'ethereum', at);
+
+      expect(empty.getHistoricalPrice).toHaveBeenCalled();
+      expect(price?.priceUsd).toBe(2990);
+    });
+
+    it('should return null for future times', async () => {
+      const history = createHistory(null, null);
+      service = new PriceOracleService(mockConfig, history);
+
+      const future = new Date(Date.now() + HOUR);
+
+      expect(await service.getHistoricalPrice('0x1234', 'ethereum', future)).toBeNull();
+      expect(history.getNeighbours).not.toHaveBeenCalled();
+    });
+
+    it('should sample live prices into history once per interval', async () => {
+      const history = createHistory(null, null);
+      const provider = createMockProvider('chainlink', 1, ['ethereum']);
+      service = new PriceOracleService({ ...mockConfig, cacheTtl: 0 }, history);
+      (service as any).providers = [provider];
+
+      await service.getPrice('0x1234', 'ethereum');
+      await service.getPrice('0x1234', 'ethereum');
+
+      expect(provider.getPrice).toHaveBeenCalledTimes(2);
+      expect(history.record).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('consensus', () => {
+    beforeEach(() => {
+      mockConfig.consensus = { enabled: true, maxDeviation: 0.05, minLiquidityUsd: 50000 };
+    });
+
+    function withProviders(...providers: PriceProvider[]) {
+      service = new PriceOracleService(mockConfig);
+      (service as any).providers = providers;
+    }
+
+    it('should query every provider and return the confidence-weighted median', async () => {
+      const chainlink = createMockProvider('chainlink', 1, ['ethereum'], { priceUsd: 100 });
+      const pyth = createMockProvider('pyth', 2, ['ethereum'], {
+        source: 'pyth',
+        priceUsd: 101,
+        confidence: 0.99,
+      });
+      const dex = createMockProvider('dexscreener', 3, ['ethereum'], {
+        source: 'dexscreener',
+        priceUsd: 102,
+        confidence: 0.6,
+        metadata: { liquidity: 2_000_000 },
+      });
+      withProviders(chainlink, pyth, dex);
+
+      const result = await service.getPrice('0x1234', 'ethereum');
+
+      expect(chainlink.getPrice).toHaveBeenCalled();
+      expect(pyth.getPrice).toHaveBeenCalled();
+      expect(dex.getPrice).toHaveBeenCalled();
+      expect(result?.priceUsd).toBe(101);
+      expect(result?.source).toBe('pyth');
+      expect(result?.metadata?.liquidity).toBe(2_000_000);
+      expect(result?.metadata?.priceWarning).toBeUndefined();
+    });
+
+    it('should flag and ignore a provider that deviates from the median', async () => {
+      const chainlink = createMockProvider('chainlink', 1, ['ethereum'], { priceUsd: 100 });
+      const pyth = createMockProvider('pyth', 2, ['ethereum'], { source: 'pyth', priceUsd: 100 });
+      const dex = createMockProvider('dexscreener', 3, ['ethereum'], {
+        source: 'dexscreener',
+        priceUsd: 150,
+        confidence: 0.85,
+        metadata: { liquidity: 10_000_000 },
+      });
+      withProviders(chainlink, pyth, dex);
+
+      const result = await service.getPrice('0x1234', 'ethereum');
+
+      expect(result?.priceUsd).toBe(100);
+      expect(result?.confidence).toBeCloseTo(0.95 * (1.9 / 2.75));
+      expect(result?.metadata?.outliers).toEqual([
+        { source: 'dexscreener', priceUsd: 150, deviation: 0.5 },
+      ]);
+      expect(result?.metadata?.priceWarning?.code).toBe('price_deviation');
+    });
+
+    it('should survive a failing provider', async () => {
+      const chainlink = createMockProvider('chainlink', 1, ['ethereum']);
+      const pyth = createMockProvider('pyth', 2, ['ethereum']);
+      (pyth.getPrice as any).mockRejectedValue(new Error('Network error'));
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      withProviders(chainlink, pyth);
+
+      const result = await service.getPrice('0x1234', 'ethereum');
+
+      expect(result?.priceUsd).toBe(100);
+      expect(result?.metadata?.outliers).toBeUndefined();
+    });
+
+    it('should warn when only shallow pools price the token', async () => {
+      const dex = createMockProvider('dexscreener', 3, ['ethereum'], {
+        source: 'dexscreener',
+        confidence: 0.5,
+        metadata: { liquidity: 8_000 },
+      });
+      withProviders(dex);
+
+      const result = await service.getPrice('0x1234', 'ethereum');
+
+      expect(result?.metadata?.priceWarning).toEqual({
+        code: 'low_liquidity',
+        message: 'Priced from pools with under $50,000 liquidity',
+      });
+    });
+
+    it('should not warn about liquidity when an oracle feed agrees', async () => {
+      const chainlink = createMockProvider('chainlink', 1, ['ethereum']);
+      const dex = createMockProvider('dexscreener', 3, ['ethereum'], {
+        source: 'dexscreener',
+        confidence: 0.5,
+        metadata: { liquidity: 8_000 },
+      });
+      withProviders(chainlink, dex);
+
+      const result = await service.getPrice('0x1234', 'ethereum');
+
+      expect(result?.metadata?.priceWarning).toBeUndefined();
+    });
+
+    it('should warn about shallow pools with consensus turned off', async () => {
+      mockConfig.consensus!.enabled = false;
+      const dex = createMockProvider('dexscreener', 3, ['ethereum'], {
+        source: 'dexscreener',
+        confidence: 0.5,
+        metadata: { liquidity: 8_000 },
+      });
+      const chainlink = createMockProvider('chainlink', 1, ['ethereum']);
+      withProviders(dex, chainlink);
+
+      const result = await service.getPrice('0x1234', 'ethereum');
+
+      expect(chainlink.getPrice).not.toHaveBeenCalled();
+      expect(result?.metadata?.priceWarning?.code).toBe('low_liquidity');
+    });
+
+    it('should combine batch results from every provider per token', async () => {
+      const price = (source: string, priceUsd: number): PriceData => ({
+        tokenAddress: '0x1234',
+        chainId: 'ethereum',
+        priceUsd,
+        confidence: 0.9,
+        source: source as any,
+        timestamp: new Date(),
+      });
+      const chainlink = createMockProvider('chainlink', 1, ['ethereum']);
+      const pyth = createMockProvider('pyth', 2, ['ethereum']);
+      const dex = createMockProvider('dexscreener', 3, ['ethereum']);
+      (chainlink.getPrices as any).mockResolvedValue(
+        new Map([['ethereum:0x1234', price('chainlink', 100)]])
+      );
+      (pyth.getPrices as any).mockResolvedValue(new Map([['ethereum:0x1234', price('pyth', 101)]]));
+      (dex.getPrices as any).mockResolvedValue(
+        new Map([
+          ['ethereum:0x1234', price('dexscreener', 40)],
+          ['ethereum:0x5678', { ...price('dexscreener', 2), tokenAddress: '0x5678' }],
+        ])
+      );
+      withProviders(chainlink, pyth, dex);
+
+      const results = await service.getPrices([
+        { address: '0x1234', chainId: 'ethereum' },
+        { address: '0x5678', chainId: 'ethereum' },
+      ]);
+
+      expect(results.get('ethereum:0x1234')?.priceUsd).toBe(100);
+      expect(results.get('ethereum:0x1234')?.metadata?.outliers).toHaveLength(1);
+      expect(results.get('ethereum:0x5678')?.priceUsd).toBe(2);
+    });
   });
 
   describe('createPriceOracle factory', () => {
@@ -333,6 +634,7 @@ describe('PriceOracleService', () => {
       expect(config.cacheTtl).toBe(60000);
       expect(config.minConfidence).toBe(0.5);
       expect(config.maxPriceAge).toBe(300000); // default
+      expect(config.consensus.enabled).toBe(true); // default
     });
   });
 });
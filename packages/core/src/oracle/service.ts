@@ -1,13 +1,27 @@
 import type { ChainId } from '@chainhopper/types';
-import type { PriceData, PriceProvider, OracleConfig } from './types.js';
+import type {
+  PriceData,
+  PriceProvider,
+  OracleConfig,
+  PriceHistoryConfig,
+  PriceHistoryStore,
+  PriceWarning,
+} from './types.js';
 import { ChainlinkProvider } from './chainlink.js';
 import { PythProvider } from './pyth.js';
 import { DexScreenerProvider } from './dexscreener.js';
+import { CoingeckoProvider } from './coingecko.js';
+import { DexPoolProvider } from './dex-pools.js';
+import { MemoryCacheStore, type CacheStore } from '../cache/index.js';
 
-interface CacheEntry {
-  data: PriceData;
-  expiresAt: number;
-}
+/** Namespace for live prices in the shared cache */
+const CACHE_PREFIX = 'oracle:price:';
+
+export const DEFAULT_PRICE_HISTORY_CONFIG: PriceHistoryConfig = {
+  maxInterpolationGap: 6 * 60 * 60 * 1000, // 6 hours
+  maxNearestDistance: 15 * 60 * 1000, // 15 minutes
+  sampleInterval: 5 * 60 * 1000, // 5 minutes
+};
 
 /**
  * Unified Price Oracle Service
@@ -15,21 +29,35 @@ interface CacheEntry {
  * Aggregates multiple price providers with fallback logic:
  * 1. Chainlink (most reliable for majors)
  * 2. Pyth (fast updates)
- * 3. DexScreener (new tokens, memecoins)
+ * 3. CoinGecko (listed tokens on most chains)
+ * 4. DexScreener (new tokens, memecoins)
+ * 5. On-chain DEX pools (long-tail tokens on chains the others miss)
  *
  * Features:
  * - Automatic fallback to next provider on failure
- * - Price caching with TTL
+ * - Price caching with TTL, in a cache store shared across replicas
  * - Confidence scoring
  * - Staleness detection
+ * - Consensus mode: every provider is queried and the confidence-weighted
+ *   median wins, so one thin DEX pair cannot set a token's price
+ * - Historical prices from a stored time series, which live prices are
+ *   sampled into, with Chainlink rounds and Pyth updates as fallbacks
  */
 export class PriceOracleService {
   private providers: PriceProvider[];
-  private cache = new Map<string, CacheEntry>();
+  private cache: CacheStore;
   private config: OracleConfig;
-
-  constructor(config: OracleConfig) {
+  private history?: PriceHistoryStore;
+  private lastSampled = new Map<string, number>();
+
+  constructor(
+    config: OracleConfig,
+    history?: PriceHistoryStore,
+    cache: CacheStore = new MemoryCacheStore()
+  ) {
     this.config = config;
+    this.history = history;
+    this.cache = cache;
     this.providers = [];
 
     // Initialize providers based on config
@@ -41,10 +69,18 @@ export class PriceOracleService {
       this.providers.push(new PythProvider(config.providers.pyth));
     }
 
+    if (config.providers.coingecko) {
+      this.providers.push(new CoingeckoProvider(config.providers.coingecko));
+    }
+
     if (config.providers.dexscreener) {
       this.providers.push(new DexScreenerProvider(config.providers.dexscreener));
     }
 
+    if (config.providers.dex) {
+      this.providers.push(new DexPoolProvider(config.providers.dex));
+    }
+
     // Sort by priority (lower = higher priority)
     this.providers.sort((a, b) => a.priority - b.priority);
   }
@@ -57,9 +93,17 @@ export class PriceOracleService {
     const cacheKey = this.getCacheKey(tokenAddress, chainId);
 
     // Check cache
-    const cached = this.cache.get(cacheKey);
-    if (cached && cached.expiresAt > Date.now()) {
-      return cached.data;
+    const cached = await this.cache.get<PriceData>(CACHE_PREFIX + cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    if (this.config.consensus?.enabled) {
+      const price = await this.getConsensusPrice(tokenAddress, chainId);
+      if (price) {
+        await this.setCache(cacheKey, price);
+      }
+      return price;
     }
 
     // Try providers in priority order
@@ -71,8 +115,9 @@ export class PriceOracleService {
       try {
         const price = await provider.getPrice(tokenAddress, chainId);
         if (price && this.isValidPrice(price)) {
-          this.setCache(cacheKey, price);
-          return price;
+          const checked = this.withWarning(price);
+          await this.setCache(cacheKey, checked);
+          return checked;
         }
       } catch (error) {
         console.warn(`Provider ${provider.name} failed for ${tokenAddress}:`, error);
@@ -92,20 +137,32 @@ export class PriceOracleService {
     const uncached: { address: string; chainId: ChainId }[] = [];
 
     // First check cache
-    for (const token of tokens) {
-      const cacheKey = this.getCacheKey(token.address, token.chainId);
-      const cached = this.cache.get(cacheKey);
-      if (cached && cached.expiresAt > Date.now()) {
-        results.set(cacheKey, cached.data);
+    const cached = await Promise.all(
+      tokens.map((token) =>
+        this.cache.get<PriceData>(CACHE_PREFIX + this.getCacheKey(token.address, token.chainId))
+      )
+    );
+    tokens.forEach((token, i) => {
+      const price = cached[i];
+      if (price) {
+        results.set(this.getCacheKey(token.address, token.chainId), price);
       } else {
         uncached.push(token);
       }
-    }
+    });
 
     if (uncached.length === 0) {
       return results;
     }
 
+    if (this.config.consensus?.enabled) {
+      for (const [key, price] of await this.getConsensusPrices(uncached)) {
+        results.set(key, price);
+        await this.setCache(key, price);
+      }
+      return results;
+    }
+
     // Try each provider for remaining tokens
     let remaining = [...uncached];
 
@@ -120,8 +177,9 @@ export class PriceOracleService {
 
         for (const [key, price] of prices) {
           if (this.isValidPrice(price)) {
-            results.set(key, price);
-            this.setCache(key, price);
+            const checked = this.withWarning(price);
+            results.set(key, checked);
+            await this.setCache(key, checked);
           }
         }
 
@@ -178,51 +236,316 @@ export class PriceOracleService {
 
     if (bestPrice) {
       const cacheKey = this.getCacheKey(tokenAddress, chainId);
-      this.setCache(cacheKey, bestPrice);
+      await this.setCache(cacheKey, bestPrice);
     }
 
     return { price: bestPrice, sources };
   }
 
+  /**
+   * Get the price of a token at a past time:
+   * 1. A stored price at exactly `at`
+   * 2. Linear interpolation between the stored prices either side of
+   *    `at`, when they are no more than `maxInterpolationGap` apart
+   * 3. The nearest stored price, when within `maxNearestDistance`
+   * 4. Providers with history (Chainlink rounds, Pyth updates) in
+   *    priority order; the result is stored for later lookups
+   *
+   * Returns null for future times and when no source has a price.
+   */
+  async getHistoricalPrice(
+    tokenAddress: string,
+    chainId: ChainId,
+    at: Date
+  ): Promise<PriceData | null> {
+    if (at.getTime() > Date.now()) return null;
+
+    const stored = await this.getStoredPrice(tokenAddress, chainId, at);
+    if (stored) return stored;
+
+    for (const provider of this.providers) {
+      if (!provider.getHistoricalPrice || !provider.supportsChain(chainId)) {
+        continue;
+      }
+
+      try {
+        const price = await provider.getHistoricalPrice(tokenAddress, chainId, at);
+        if (price && price.priceUsd > 0 && price.confidence >= this.config.minConfidence) {
+          this.record([price]);
+          return price;
+        }
+      } catch (error) {
+        console.warn(`Provider ${provider.name} history failed for ${tokenAddress}:`, error);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Whether `streamPrices` pushes updates for a token. Only Pyth has a
+   * push feed.
+   */
+  async streamsToken(tokenAddress: string, chainId: ChainId): Promise<boolean> {
+    return (await this.pyth?.supportsToken(tokenAddress, chainId)) ?? false;
+  }
+
+  /**
+   * Stream Pyth updates for the tokens it has feeds for. Updates that fail
+   * the usual validity checks are dropped. Settles when the stream ends or
+   * `signal` aborts; the caller reconnects.
+   */
+  async streamPrices(
+    tokens: { address: string; chainId: ChainId }[],
+    onPrice: (price: PriceData) => void,
+    signal: AbortSignal
+  ): Promise<void> {
+    await this.pyth?.streamPrices(
+      tokens,
+      (price) => {
+        if (this.isValidPrice(price)) onPrice(this.withWarning(price));
+      },
+      signal
+    );
+  }
+
   /**
    * Clear the price cache
    */
-  clearCache(): void {
-    this.cache.clear();
+  async clearCache(): Promise<void> {
+    await this.cache.clear(CACHE_PREFIX);
   }
 
   /**
    * Clear cache for a specific token
    */
-  clearCacheForToken(tokenAddress: string, chainId: ChainId): void {
+  async clearCacheForToken(tokenAddress: string, chainId: ChainId): Promise<void> {
     const cacheKey = this.getCacheKey(tokenAddress, chainId);
-    this.cache.delete(cacheKey);
+    await this.cache.delete(CACHE_PREFIX + cacheKey);
   }
 
   /**
    * Get cache statistics
    */
-  getCacheStats(): { size: number; entries: { key: string; expiresIn: number }[] } {
-    const now = Date.now();
-    const entries = Array.from(this.cache.entries()).map(([key, entry]) => ({
-      key,
-      expiresIn: Math.max(0, entry.expiresAt - now),
-    }));
-
-    return { size: this.cache.size, entries };
+  async getCacheStats(): Promise<{ size: number; entries: { key: string; expiresIn: number }[] }> {
+    const keys = await this.cache.keys(CACHE_PREFIX);
+    const entries = await Promise.all(
+      keys.map(async (key) => ({
+        key: key.slice(CACHE_PREFIX.length),
+        expiresIn: (await this.cache.ttl(key)) ?? 0,
+      }))
+    );
+
+    return { size: entries.length, entries };
   }
 
   private getCacheKey(tokenAddress: string, chainId: ChainId): string {
     return `${chainId}:${tokenAddress.toLowerCase()}`;
   }
 
-  private setCache(key: string, data: PriceData): void {
-    this.cache.set(key, {
-      data,
-      expiresAt: Date.now() + this.config.cacheTtl,
+  private async setCache(key: string, data: PriceData): Promise<void> {
+    await this.cache.set(CACHE_PREFIX + key, data, this.config.cacheTtl);
+    this.sample(key, data);
+  }
+
+  private async getConsensusPrice(
+    tokenAddress: string,
+    chainId: ChainId
+  ): Promise<PriceData | null> {
+    const prices = await Promise.all(
+      this.providers
+        .filter((provider) => provider.supportsChain(chainId))
+        .map((provider) =>
+          provider.getPrice(tokenAddress, chainId).catch((error) => {
+            console.warn(`Provider ${provider.name} failed for ${tokenAddress}:`, error);
+            return null;
+          })
+        )
+    );
+
+    const valid = prices.filter(
+      (price): price is PriceData => price !== null && this.isValidPrice(price)
+    );
+    return valid.length > 0 ? this.toConsensus(valid) : null;
+  }
+
+  private async getConsensusPrices(
+    tokens: { address: string; chainId: ChainId }[]
+  ): Promise<Map<string, PriceData>> {
+    const candidates = new Map<string, PriceData[]>();
+
+    await Promise.all(
+      this.providers.map(async (provider) => {
+        const supported = tokens.filter((t) => provider.supportsChain(t.chainId));
+        if (supported.length === 0) return;
+
+        try {
+          const prices = await provider.getPrices(supported);
+          for (const [key, price] of prices) {
+            if (this.isValidPrice(price)) {
+              candidates.set(key, [...(candidates.get(key) ?? []), price]);
+            }
+          }
+        } catch (error) {
+          console.warn(`Batch price fetch from ${provider.name} failed:`, error);
+        }
+      })
+    );
+
+    return new Map(
+      Array.from(candidates.entries()).map(([key, prices]) => [key, this.toConsensus(prices)])
+    );
+  }
+
+  /**
+   * Combine provider prices for one token. Providers further than
+   * maxDeviation from the confidence-weighted median are outliers; the
+   * price is the median of the rest, from the most confident of them,
+   * with confidence scaled by the share of weight that agreed.
+   */
+  private toConsensus(prices: PriceData[]): PriceData {
+    const { maxDeviation } = this.config.consensus!;
+    const median = weightedMedian(prices);
+    const deviation = (price: PriceData) => Math.abs(price.priceUsd - median) / median;
+    const weight = (list: PriceData[]) => list.reduce((sum, price) => sum + price.confidence, 0);
+
+    // The median is one of the prices, so at least one agrees
+    const agreeing = prices.filter((price) => deviation(price) <= maxDeviation);
+    const outliers = prices.filter((price) => deviation(price) > maxDeviation);
+    const best = agreeing.reduce((a, b) => (b.confidence > a.confidence ? b : a));
+
+    return this.withWarning(
+      {
+        ...best,
+        priceUsd: weightedMedian(agreeing),
+        confidence: best.confidence * (weight(agreeing) / weight(prices)),
+        metadata: {
+          // Market data (liquidity, volume) comes from whichever source has it
+          ...Object.assign({}, ...agreeing.map((price) => price.metadata)),
+          ...best.metadata,
+          ...(outliers.length > 0 && {
+            outliers: outliers.map((price) => ({
+              source: price.source,
+              priceUsd: price.priceUsd,
+              deviation: deviation(price),
+            })),
+          }),
+        },
+      },
+      agreeing
+    );
+  }
+
+  /**
+   * Flag a price that only shallow DEX pools back, or that providers
+   * disagreed on. `sources` are the prices it was derived from.
+   */
+  private withWarning(price: PriceData, sources: PriceData[] = [price]): PriceData {
+    const consensus = this.config.consensus;
+    if (!consensus) return price;
+
+    // Oracle feeds carry no liquidity, so any of them vouches for the price
+    const shallow = sources.every(
+      (source) =>
+        source.metadata?.liquidity !== undefined &&
+        source.metadata.liquidity < consensus.minLiquidityUsd
+    );
+    const outliers = price.metadata?.outliers?.length ?? 0;
+
+    let warning: PriceWarning | undefined;
+    if (shallow) {
+      const minimum = consensus.minLiquidityUsd.toLocaleString('en-US');
+      warning = {
+        code: 'low_liquidity',
+        message: `Priced from pools with under $${minimum} liquidity`,
+      };
+    } else if (outliers > 0) {
+      const percent = consensus.maxDeviation * 100;
+      warning = {
+        code: 'price_deviation',
+        message: `${outliers} price source(s) deviated more than ${percent}% and were ignored`,
+      };
+    }
+
+    return warning ? { ...price, metadata: { ...price.metadata, priceWarning: warning } } : price;
+  }
+
+  private get pyth(): PythProvider | undefined {
+    return this.providers.find(
+      (provider): provider is PythProvider => provider instanceof PythProvider
+    );
+  }
+
+  private get historyConfig(): PriceHistoryConfig {
+    return this.config.history ?? DEFAULT_PRICE_HISTORY_CONFIG;
+  }
+
+  /**
+   * Store a live price at most once per sample interval per token
+   */
+  private sample(key: string, data: PriceData): void {
+    const last = this.lastSampled.get(key);
+    if (last !== undefined && data.timestamp.getTime() - last < this.historyConfig.sampleInterval) {
+      return;
+    }
+
+    this.lastSampled.set(key, data.timestamp.getTime());
+    this.record([data]);
+  }
+
+  private record(prices: PriceData[]): void {
+    this.history?.record(prices).catch((error) => {
+      console.warn('Price history write failed:', error);
     });
   }
 
+  private async getStoredPrice(
+    tokenAddress: string,
+    chainId: ChainId,
+    at: Date
+  ): Promise<PriceData | null> {
+    if (!this.history) return null;
+
+    let neighbours: { before: PriceData | null; after: PriceData | null };
+    try {
+      neighbours = await this.history.getNeighbours(tokenAddress, chainId, at);
+    } catch (error) {
+      console.warn(`Price history read failed for ${tokenAddress}:`, error);
+      return null;
+    }
+
+    const { before, after } = neighbours;
+    const time = at.getTime();
+    const { maxInterpolationGap, maxNearestDistance } = this.historyConfig;
+
+    if (before && before.timestamp.getTime() === time) {
+      return before;
+    }
+
+    if (before && after) {
+      const start = before.timestamp.getTime();
+      const gap = after.timestamp.getTime() - start;
+      if (gap <= maxInterpolationGap) {
+        const weight = (time - start) / gap;
+        return {
+          tokenAddress,
+          chainId,
+          priceUsd: before.priceUsd + (after.priceUsd - before.priceUsd) * weight,
+          confidence: Math.min(before.confidence, after.confidence),
+          source: before.source,
+          timestamp: at,
+        };
+      }
+    }
+
+    const nearest = [before, after]
+      .filter((price): price is PriceData => price !== null)
+      .map((price) => ({ price, distance: Math.abs(price.timestamp.getTime() - time) }))
+      .sort((a, b) => a.distance - b.distance)[0];
+
+    return nearest && nearest.distance <= maxNearestDistance ? nearest.price : null;
+  }
+
   private isValidPrice(price: PriceData): boolean {
     // Check price is positive
     if (price.priceUsd <= 0) return false;
@@ -241,7 +564,11 @@ export class PriceOracleService {
 /**
  * Create a default configured price oracle
  */
-export function createPriceOracle(options?: Partial<OracleConfig>): PriceOracleService {
+export function createPriceOracle(
+  options?: Partial<OracleConfig>,
+  history?: PriceHistoryStore,
+  cache?: CacheStore
+): PriceOracleService {
   const defaultConfig: OracleConfig = {
     cacheTtl: 30_000, // 30 seconds
     maxPriceAge: 300_000, // 5 minutes
@@ -259,10 +586,28 @@ export function createPriceOracle(options?: Partial<OracleConfig>): PriceOracleS
         endpoint: process.env.PYTH_ENDPOINT || 'https://hermes.pyth.network',
         priceIds: {},
       },
+      coingecko: process.env.COINGECKO_API_KEY
+        ? {
+            apiKey: process.env.COINGECKO_API_KEY,
+            baseUrl: 'https://pro-api.coingecko.com/api/v3',
+            rateLimit: 500,
+          }
+        : {
+            baseUrl: 'https://api.coingecko.com/api/v3',
+            rateLimit: 10, // Keyless public API allows roughly 10 per minute
+          },
       dexscreener: {
         baseUrl: 'https://api.dexscreener.com',
         rateLimit: 30, // 30 requests per minute
       },
+      dex: {
+        rpcUrls: {},
+      },
+    },
+    consensus: {
+      enabled: true,
+      maxDeviation: 0.05, // 5%
+      minLiquidityUsd: 50_000,
     },
   };
 
@@ -271,5 +616,21 @@ export function createPriceOracle(options?: Partial<OracleConfig>): PriceOracleS
     config.providers = { ...defaultConfig.providers, ...options.providers };
   }
 
-  return new PriceOracleService(config);
+  return new PriceOracleService(config, history, cache);
+}
+
+/**
+ * Lower weighted median: the first price, in ascending order, at which
+ * the running confidence reaches half the total
+ */
+function weightedMedian(prices: PriceData[]): number {
+  const sorted = [...prices].sort((a, b) => a.priceUsd - b.priceUsd);
+  const half = sorted.reduce((sum, price) => sum + price.confidence, 0) / 2;
+
+  let cumulative = 0;
+  for (const price of sorted) {
+    cumulative += price.confidence;
+    if (cumulative >= half) return price.priceUsd;
+  }
+  return sorted[sorted.length - 1]!.priceUsd;
 }
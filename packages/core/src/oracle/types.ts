@@ -14,9 +14,27 @@ export interface PriceData {
     liquidity?: number;
     priceChange24h?: number;
     marketCap?: number;
+    /** Provider prices left out of a consensus price */
+    outliers?: PriceOutlier[];
+    /** Set when the price should not be trusted as-is */
+    priceWarning?: PriceWarning;
   };
 }
 
+export type PriceWarningCode = 'low_liquidity' | 'price_deviation';
+
+export interface PriceWarning {
+  code: PriceWarningCode;
+  message: string;
+}
+
+export interface PriceOutlier {
+  source: PriceSource;
+  priceUsd: number;
+  /** Relative distance from the consensus price (0.1 = 10%) */
+  deviation: number;
+}
+
 export interface PriceProvider {
   name: PriceSource;
   priority: number; // lower = higher priority
@@ -40,6 +58,45 @@ export interface PriceProvider {
    * Check if this provider supports the given token
    */
   supportsToken(tokenAddress: string, chainId: ChainId): Promise<boolean>;
+
+  /**
+   * Get the price in effect at a past time, for providers that keep history
+   */
+  getHistoricalPrice?(tokenAddress: string, chainId: ChainId, at: Date): Promise<PriceData | null>;
+}
+
+/**
+ * Observed prices stored as a time series
+ */
+export interface PriceHistoryStore {
+  /**
+   * Closest stored prices at or before `at`, and after it
+   */
+  getNeighbours(
+    tokenAddress: string,
+    chainId: ChainId,
+    at: Date
+  ): Promise<{ before: PriceData | null; after: PriceData | null }>;
+
+  record(prices: PriceData[]): Promise<void>;
+}
+
+export interface PriceConsensusConfig {
+  /** Query every provider and take the confidence-weighted median */
+  enabled: boolean;
+  /** Distance from the median beyond which a provider is an outlier (0.05 = 5%) */
+  maxDeviation: number;
+  /** Pool liquidity (USD) below which a DEX-only price carries a warning */
+  minLiquidityUsd: number;
+}
+
+export interface PriceHistoryConfig {
+  /** Widest gap between two stored prices that is interpolated across (ms) */
+  maxInterpolationGap: number;
+  /** Furthest a single stored price may be from the requested time (ms) */
+  maxNearestDistance: number;
+  /** Minimum time between stored samples of a token's live price (ms) */
+  sampleInterval: number;
 }
 
 export interface OracleConfig {
@@ -49,12 +106,17 @@ export interface OracleConfig {
   maxPriceAge: number;
   /** Minimum confidence threshold (0-1) */
   minConfidence: number;
+  /** Historical lookups against the price history store */
+  history?: PriceHistoryConfig;
+  /** Cross-check providers instead of taking the first valid price */
+  consensus?: PriceConsensusConfig;
   /** Provider-specific configs */
   providers: {
     chainlink?: ChainlinkConfig;
     pyth?: PythConfig;
     dexscreener?: DexScreenerConfig;
     coingecko?: CoingeckoConfig;
+    dex?: DexPoolConfig;
   };
 }
 
@@ -76,6 +138,11 @@ export interface DexScreenerConfig {
 export interface CoingeckoConfig {
   apiKey?: string;
   baseUrl: string;
+  rateLimit: number; // requests per minute
+}
+
+export interface DexPoolConfig {
+  rpcUrls: Partial<Record<ChainId, string>>; // falls back to the chain's default RPC
 }
 
 // Well-known token addresses for price lookups
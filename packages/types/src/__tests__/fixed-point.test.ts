@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import { formatUnits } from 'viem';
+import {
+  BPS_DENOMINATOR,
+  percentToBps,
+  bpsToPercent,
+  deductBps,
+  applySlippage,
+  shortfallPercent,
+  toFixedPoint,
+  mulDecimal,
+} from '../fixed-point.js';
+
+// Up to uint256, far beyond what a Number can hold exactly
+const amount = fc.bigInt({ min: 0n, max: 2n ** 256n - 1n });
+const slippage = fc.double({ min: 0, max: 100, noNaN: true });
+const decimals = fc.integer({ min: 0, max: 36 });
+
+describe('fixed-point math', () => {
+  describe('applySlippage', () => {
+    it('should keep full precision for 18-decimal amounts', () => {
+      const amountOut = 123456789012345678901234567n;
+
+      expect(applySlippage(amountOut, 0)).toBe(amountOut);
+      expect(applySlippage(amountOut, 0.5)).toBe(122839505067283950506728394n);
+    });
+
+    it('should round the minimum output down to the exact basis-point share', () => {
+      fc.assert(
+        fc.property(amount, slippage, (amountOut, percent) => {
+          const minOut = applySlippage(amountOut, percent);
+          const keptBps = BPS_DENOMINATOR - percentToBps(percent);
+
+          expect(minOut * BPS_DENOMINATOR).toBeLessThanOrEqual(amountOut * keptBps);
+          expect((minOut + 1n) * BPS_DENOMINATOR).toBeGreaterThan(amountOut * keptBps);
+        })
+      );
+    });
+
+    it('should never exceed the quoted amount and fall as slippage grows', () => {
+      fc.assert(
+        fc.property(amount, slippage, slippage, (amountOut, a, b) => {
+          const [low, high] = a <= b ? [a, b] : [b, a];
+
+          expect(applySlippage(amountOut, low)).toBeLessThanOrEqual(amountOut);
+          expect(applySlippage(amountOut, high)).toBeLessThanOrEqual(applySlippage(amountOut, low));
+        })
+      );
+    });
+
+    it('should reject slippage outside 0-100%', () => {
+      expect(() => applySlippage(1n, -0.1)).toThrow(RangeError);
+      expect(() => applySlippage(1n, 100.1)).toThrow(RangeError);
+      expect(() => applySlippage(1n, Number.NaN)).toThrow(RangeError);
+    });
+  });
+
+  describe('shortfallPercent', () => {
+    it('should recover the slippage applied to an amount', () => {
+      fc.assert(
+        fc.property(
+          fc.bigInt({ min: BPS_DENOMINATOR, max: 2n ** 256n - 1n }),
+          fc.integer({ min: 0, max: 10_000 }),
+          (amountOut, bps) => {
+            const percent = bpsToPercent(BigInt(bps));
+            expect(shortfallPercent(amountOut, applySlippage(amountOut, percent))).toBe(percent);
+          }
+        )
+      );
+    });
+
+    it('should be negative when the actual amount is larger', () => {
+      expect(shortfallPercent(1000n, 1010n)).toBe(-1);
+      expect(shortfallPercent(0n, 1n)).toBe(0);
+    });
+  });
+
+  describe('deductBps', () => {
+    it('should deduct fees without losing precision', () => {
+      expect(deductBps(10n ** 30n + 1n, 30n)).toBe(997n * 10n ** 27n);
+      expect(deductBps(10n ** 30n + 1n, 0n)).toBe(10n ** 30n + 1n);
+    });
+
+    it('should reject fees above 100%', () => {
+      expect(() => deductBps(1n, 10_001n)).toThrow(RangeError);
+    });
+  });
+
+  describe('toFixedPoint', () => {
+    it('should round-trip formatted amounts at any decimals', () => {
+      fc.assert(
+        fc.property(amount, decimals, (value, places) => {
+          expect(toFixedPoint(formatUnits(value, places), places)).toBe(value);
+        })
+      );
+    });
+
+    it('should parse numbers printed in exponent notation', () => {
+      expect(toFixedPoint(1e-7, 18)).toBe(100000000000n);
+      expect(toFixedPoint(1.5e21, 0)).toBe(1500000000000000000000n);
+      expect(toFixedPoint('-2.5', 6)).toBe(-2500000n);
+    });
+
+    it('should truncate precision beyond the requested decimals', () => {
+      expect(toFixedPoint('1.23456789', 4)).toBe(12345n);
+    });
+
+    it('should reject values that are not decimal numbers', () => {
+      expect(() => toFixedPoint('abc', 18)).toThrow(RangeError);
+      expect(() => toFixedPoint('.', 18)).toThrow(RangeError);
+      expect(() => toFixedPoint(Number.POSITIVE_INFINITY, 18)).toThrow(RangeError);
+    });
+  });
+
+  describe('mulDecimal', () => {
+    it('should match exact rational multiplication for 18-decimal factors', () => {
+      fc.assert(
+        fc.property(amount, fc.bigInt({ min: 0n, max: 10n ** 30n }), (value, scaledFactor) => {
+          const factor = formatUnits(scaledFactor, 18);
+          expect(mulDecimal(value, factor)).toBe((value * scaledFactor) / 10n ** 18n);
+        })
+      );
+    });
+
+    it('should price large amounts without going through Number', () => {
+      // 1e22 wei at a mid price of 3250.5
+      expect(mulDecimal(10n ** 22n, 3250.5)).toBe(32505000000000000000000000n);
+    });
+  });
+});
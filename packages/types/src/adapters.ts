@@ -23,9 +23,13 @@ export interface ChainAdapter {
 
   // Trading
   getQuote(request: SwapRequest): Promise<SwapQuote>;
-  buildSwapTransaction(quote: SwapQuote): Promise<UnsignedTransaction>;
+  buildSwapTransaction(quote: SwapQuote, recipient?: string): Promise<UnsignedTransaction>;
   submitTransaction(signedTx: string): Promise<string>; // returns txHash
-  waitForConfirmation(txHash: string, confirmations?: number): Promise<SwapTransaction>;
+  waitForConfirmation(
+    txHash: string,
+    confirmations?: number,
+    options?: ConfirmationOptions
+  ): Promise<SwapTransaction>;
 
   // Utils
   isValidAddress(address: string): boolean;
@@ -33,6 +37,19 @@ export interface ChainAdapter {
   parseUnits(amount: string, decimals: number): bigint;
 }
 
+/**
+ * Context for decoding what a confirmed swap actually delivered
+ */
+export interface ConfirmationOptions {
+  recipient?: string; // defaults to the transaction sender
+  quote?: {
+    tokenIn: string; // address
+    tokenOut: string; // address
+    amountOut: bigint;
+    amountOutMin: bigint;
+  };
+}
+
 export interface UnsignedTransaction {
   chainId: ChainId;
   to: string;
@@ -89,4 +89,19 @@ export interface ChainStatus {
   blockNumber: bigint;
   latency: number; // ms
   lastUpdated: Date;
+  rpcUrl?: string; // endpoint currently serving requests
+  endpoints?: RpcEndpointStatus[];
+}
+
+export interface RpcEndpointStatus {
+  url: string;
+  isHealthy: boolean;
+  isQuarantined: boolean;
+  quarantinedUntil?: Date;
+  latency: number; // ms, moving average
+  errorRate: number; // 0-1, moving average
+  blockNumber: bigint;
+  blockLag: number; // blocks behind the highest endpoint
+  lastChecked?: Date;
+  lastError?: string;
 }
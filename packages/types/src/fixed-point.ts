@@ -0,0 +1,107 @@
+/**
+ * Fixed-Point Amount Math
+ *
+ * Token amounts are bigints in the token's smallest unit, while slippage,
+ * fees and prices arrive as JavaScript numbers. Converting an amount to a
+ * number loses precision above 2^53 (~9e15 wei, well under one 18-decimal
+ * token), so the adapters and the fee engine scale the number into integer
+ * basis points or a fixed-point bigint instead and keep the arithmetic in
+ * bigint.
+ *
+ * Results that feed a minimum output round down.
+ */
+
+/** Basis points in 100% */
+export const BPS_DENOMINATOR = 10_000n;
+
+/** Decimals used when a price or ratio is scaled into a bigint */
+export const PRICE_DECIMALS = 18;
+
+const DECIMAL_PATTERN = /^([+-]?)(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i;
+
+/**
+ * Convert a percentage (0.5 = 0.5%) to basis points, rounded to the
+ * nearest basis point
+ */
+export function percentToBps(percent: number): bigint {
+  if (!Number.isFinite(percent) || percent < 0 || percent > 100) {
+    throw new RangeError(`Percentage must be between 0 and 100, got ${percent}`);
+  }
+  return BigInt(Math.round(percent * 100));
+}
+
+/**
+ * Convert basis points to a percentage
+ */
+export function bpsToPercent(bps: bigint): number {
+  return Number(bps) / 100;
+}
+
+/**
+ * Take `bps` basis points of an amount, rounding down
+ */
+export function mulBps(amount: bigint, bps: bigint): bigint {
+  return (amount * bps) / BPS_DENOMINATOR;
+}
+
+/**
+ * Deduct a fee of `bps` basis points from an amount, rounding down
+ */
+export function deductBps(amount: bigint, bps: bigint): bigint {
+  if (bps < 0n || bps > BPS_DENOMINATOR) {
+    throw new RangeError(`Basis points must be between 0 and ${BPS_DENOMINATOR}, got ${bps}`);
+  }
+  return mulBps(amount, BPS_DENOMINATOR - bps);
+}
+
+/**
+ * Minimum output accepted for a quoted amount at a slippage percentage
+ */
+export function applySlippage(amountOut: bigint, slippagePercent: number): bigint {
+  return deductBps(amountOut, percentToBps(slippagePercent));
+}
+
+/**
+ * How far `actual` fell short of `expected`, as a percentage with
+ * basis-point precision. Negative when `actual` is larger.
+ */
+export function shortfallPercent(expected: bigint, actual: bigint): number {
+  if (expected <= 0n) return 0;
+  return bpsToPercent(((expected - actual) * BPS_DENOMINATOR) / expected);
+}
+
+/**
+ * Scale a decimal number or numeric string into a bigint with `decimals`
+ * places, truncating any extra precision. Exponent notation is accepted,
+ * so `1e-7` and `1.5e+21` convert exactly.
+ */
+export function toFixedPoint(value: number | string, decimals: number): bigint {
+  const text = typeof value === 'number' ? numberToString(value) : value.trim();
+  const match = DECIMAL_PATTERN.exec(text);
+  if (!match || (!match[2] && !match[3])) {
+    throw new RangeError(`Not a decimal number: ${value}`);
+  }
+
+  const [, sign, whole = '', fraction = '', exponent = '0'] = match;
+  const digits = BigInt(`${whole}${fraction}` || '0');
+  const shift = decimals + Number(exponent) - fraction.length;
+
+  const scaled = shift >= 0 ? digits * 10n ** BigInt(shift) : digits / 10n ** BigInt(-shift);
+  return sign === '-' ? -scaled : scaled;
+}
+
+/**
+ * Multiply an amount by a decimal factor such as a price or exchange
+ * rate, rounding toward zero
+ */
+export function mulDecimal(amount: bigint, factor: number | string): bigint {
+  return (amount * toFixedPoint(factor, PRICE_DECIMALS)) / 10n ** BigInt(PRICE_DECIMALS);
+}
+
+function numberToString(value: number): string {
+  if (!Number.isFinite(value)) {
+    throw new RangeError(`Not a finite number: ${value}`);
+  }
+  // Shortest round-tripping form; may use exponent notation
+  return String(value);
+}
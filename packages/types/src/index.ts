@@ -24,3 +24,6 @@ export * from './api.js';
 
 // Solana types
 export * from './solana.js';
+
+// Fixed-point amount math
+export * from './fixed-point.js';
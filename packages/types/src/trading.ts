@@ -16,6 +16,19 @@ export interface SwapQuote {
   fee: FeeBreakdown;
   expiresAt: Date;
   dexAggregator: DexAggregator;
+  ranking?: QuoteCandidate[]; // every source that quoted, best net output first
+  source?: string; // DEX source that produced the quote
+  sourceQuote?: unknown; // that source's own quote, replayed to build the transaction
+}
+
+export interface QuoteCandidate {
+  dexAggregator: string;
+  source?: string; // DEX source that produced the quote
+  amountOut: bigint; // gross
+  estimatedGas: bigint;
+  gasCost: bigint; // gas cost in tokenOut units, 0 when it couldn't be priced
+  gasCostUsd?: number;
+  netAmountOut: bigint; // amountOut - gasCost
 }
 
 export interface SwapRoute {
@@ -58,6 +71,9 @@ export interface SwapTransaction {
   tokenOut: Token;
   amountIn: bigint;
   amountOut: bigint;
+  amountOutMin?: bigint; // from the quote, when known
+  slippage?: number; // realised vs quoted amountOut, percentage (negative = better than quoted)
+  belowAmountOutMin?: boolean; // delivered less than amountOutMin (e.g. fee-on-transfer tokens)
   txHash?: string;
   status: SwapStatus;
   fee: FeeBreakdown;
@@ -88,6 +104,7 @@ export interface FeeBreakdown {
 export interface Position {
   id: string;
   userId: string;
+  walletId: string;
   chainId: ChainId;
   token: Token;
   entryTx: SwapTransaction;
@@ -101,6 +118,32 @@ export interface Position {
   realizedPnl?: number;     // USD
   realizedPnlPercent?: number;
   isOpen: boolean;
+  lots?: PositionLot[];
+  openedAt: Date;
+  closedAt?: Date;
+}
+
+/**
+ * How a sell picks the lots it consumes
+ */
+export type CostBasisMethod =
+  | 'fifo'      // oldest lots first
+  | 'lifo'      // newest lots first
+  | 'average'   // every lot pro rata, at the average cost
+  | 'specific'; // lots chosen for each sell, then oldest first
+
+/**
+ * Tokens acquired by one buy and held in a position
+ */
+export interface PositionLot {
+  id: string;
+  positionId: string;
+  entryTxId: string;        // buy that acquired the lot
+  amount: bigint;           // acquired
+  remainingAmount: bigint;  // still held
+  costBasis: number;        // USD, of the remaining amount
+  entryPrice: number;
+  transferredFromId?: string; // lot it moved from, between the user's wallets
   openedAt: Date;
   closedAt?: Date;
 }
@@ -1,4 +1,5 @@
 import type { ChainId } from './chains.js';
+import type { CostBasisMethod } from './trading.js';
 
 export interface User {
   id: string;
@@ -26,6 +27,7 @@ export interface UserSettings {
   notifications: NotificationSettings;
   autoApprove: boolean;
   maxTradeSize?: number; // USD limit
+  costBasisMethod?: CostBasisMethod; // default fifo
 }
 
 export interface NotificationSettings {